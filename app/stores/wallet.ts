@@ -8,6 +8,8 @@ interface WalletState {
   connecting: boolean
   loadingBalance: boolean
   wallet: any // Phantom wallet object
+  readerAddress: string | null // 读者会话中已签名验证的钱包地址
+  signingIn: boolean
 }
 
 export const useWalletStore = defineStore('wallet', {
@@ -18,6 +20,8 @@ export const useWalletStore = defineStore('wallet', {
     connecting: false,
     loadingBalance: false,
     wallet: null,
+    readerAddress: null,
+    signingIn: false,
   }),
 
   getters: {
@@ -30,6 +34,10 @@ export const useWalletStore = defineStore('wallet', {
     solBalance: (state): string => {
       return (state.balance / LAMPORTS_PER_SOL).toFixed(4)
     },
+    // 当前钱包是否已完成签名登录
+    signedIn: (state): boolean => {
+      return !!state.readerAddress && state.readerAddress === state.publicKey
+    },
   },
 
   actions: {
@@ -49,8 +57,8 @@ export const useWalletStore = defineStore('wallet', {
         this.publicKey = response.publicKey.toString()
         this.connected = true
 
-        // 获取余额
-        await this.fetchBalance()
+        // 获取余额与读者会话
+        await Promise.all([this.fetchBalance(), this.fetchReaderSession()])
 
         // 监听账户变化
         solana.on('accountChanged', this.handleAccountChanged)
@@ -62,12 +70,70 @@ export const useWalletStore = defineStore('wallet', {
 
     // 断开连接
     async disconnect() {
+      await this.signOut()
       if (this.wallet) {
         await this.wallet.disconnect()
       }
       this.reset()
     },
 
+    // 签名登录（Sign-In-With-Solana），建立读者会话
+    async signIn() {
+      if (!this.wallet || !this.publicKey) {
+        throw new Error('请先连接钱包')
+      }
+
+      this.signingIn = true
+      try {
+        const challenge = await $fetch<{ code: number; message: string; data: { nonce: string; message: string } }>(
+          '/api/reader/auth/nonce',
+          { method: 'POST', body: { address: this.publicKey } }
+        )
+        if (challenge.code !== 0) {
+          throw new Error(challenge.message || '获取登录挑战失败')
+        }
+
+        const encoded = new TextEncoder().encode(challenge.data.message)
+        const { signature } = await this.wallet.signMessage(encoded, 'utf8')
+        const signatureBase64 = btoa(String.fromCharCode(...new Uint8Array(signature)))
+
+        const res = await $fetch<{ code: number; message: string; data: { address: string } }>(
+          '/api/reader/auth/verify',
+          {
+            method: 'POST',
+            body: { address: this.publicKey, nonce: challenge.data.nonce, signature: signatureBase64 },
+          }
+        )
+        if (res.code !== 0) {
+          throw new Error(res.message || '签名验证失败')
+        }
+        this.readerAddress = res.data.address
+      } finally {
+        this.signingIn = false
+      }
+    },
+
+    // 退出读者会话
+    async signOut() {
+      if (!this.readerAddress) return
+      try {
+        await $fetch('/api/reader/auth/logout', { method: 'POST' })
+      } catch (err: any) {
+        console.error('退出登录失败:', err.message)
+      }
+      this.readerAddress = null
+    },
+
+    // 同步服务端读者会话状态
+    async fetchReaderSession() {
+      try {
+        const res = await $fetch<{ code: number; data: { address: string | null } }>('/api/reader/auth/session')
+        this.readerAddress = res.code === 0 ? res.data.address : null
+      } catch {
+        this.readerAddress = null
+      }
+    },
+
     // 通过服务端 API 获取余额（绕过 CORS）
     async fetchBalance() {
       if (!this.publicKey) return
@@ -90,6 +156,8 @@ export const useWalletStore = defineStore('wallet', {
 
     // 处理账户变化
     handleAccountChanged(publicKey: PublicKey | null | undefined) {
+      // 切换账户后原会话不再适用
+      this.signOut()
       if (publicKey) {
         this.publicKey = publicKey.toString()
         this.fetchBalance()
@@ -109,6 +177,7 @@ export const useWalletStore = defineStore('wallet', {
       this.publicKey = null
       this.balance = 0
       this.wallet = null
+      this.readerAddress = null
     },
 
     // 检查是否已连接（页面加载时）
@@ -121,7 +190,7 @@ export const useWalletStore = defineStore('wallet', {
         this.publicKey = solana.publicKey?.toString() || null
         this.connected = !!this.publicKey
         if (this.connected) {
-          await this.fetchBalance()
+          await Promise.all([this.fetchBalance(), this.fetchReaderSession()])
         }
       }
     },
@@ -27,6 +27,16 @@ export type Session = Prisma.SessionModel
  * 用户表：存储用户名、密码、邮箱等基础信息（schema: auth）
  */
 export type User = Prisma.UserModel
+/**
+ * Model ReaderSession
+ * 读者会话表：存储钱包签名登录（Sign-In-With-Solana）后的会话令牌（schema: auth）
+ */
+export type ReaderSession = Prisma.ReaderSessionModel
+/**
+ * Model ReaderNonce
+ * 读者登录挑战表：存储签名登录的一次性 nonce 与待签名消息（schema: auth）
+ */
+export type ReaderNonce = Prisma.ReaderNonceModel
 /**
  * Model Project
  * 项目表：包含项目名称、权重、状态、是否验证权限、时间戳与软删除（schema: collections）
@@ -42,11 +52,21 @@ export type ProjectMenu = Prisma.ProjectMenuModel
  * 项目首页表：存储项目首页的 Markdown 内容（schema: collections）
  */
 export type ProjectHome = Prisma.ProjectHomeModel
+/**
+ * Model ProjectHomeTranslation
+ * 项目首页译文表：每种语言一条，缺少的语言使用首页原文（schema: collections）
+ */
+export type ProjectHomeTranslation = Prisma.ProjectHomeTranslationModel
 /**
  * Model ProjectVersion
  * 项目版本表：关联项目，包含版本号、简介、权重、状态、时间戳与软删除（schema: collections）
  */
 export type ProjectVersion = Prisma.ProjectVersionModel
+/**
+ * Model SlugRedirect
+ * URL 别名跳转表：别名修改后保留旧别名，访问旧链接时 301 跳转到当前地址（schema: collections）
+ */
+export type SlugRedirect = Prisma.SlugRedirectModel
 /**
  * Model Category
  * 分类表：关联项目版本，包含分类名称、权重、状态、时间戳与软删除（schema: collections）
@@ -62,11 +82,37 @@ export type NoteInfo = Prisma.NoteInfoModel
  * 笔记内容表：一对多多版本，包含正文内容、类型、版本备注、主显示标记、状态、时间戳与软删除（schema: docs）
  */
 export type NoteContent = Prisma.NoteContentModel
+/**
+ * Model NoteContentRevision
+ * 笔记内容修订表：每次修改正文前保存旧正文快照，只追加不修改（schema: docs）
+ */
+export type NoteContentRevision = Prisma.NoteContentRevisionModel
+/**
+ * Model NoteSchedule
+ * 笔记定时计划表：到达执行时间后由定时任务将内容版本设为主版本，或下线内容版本 / 整篇笔记（schema: docs）
+ */
+export type NoteSchedule = Prisma.NoteScheduleModel
+/**
+ * Model NoteSearchIndex
+ * 笔记全文检索索引表：存储笔记标题与主显示版本正文的分词向量（schema: docs）
+ * 中文按二元组（bigram）预分词后使用 simple 配置生成 tsvector，由应用层维护
+ */
+export type NoteSearchIndex = Prisma.NoteSearchIndexModel
+/**
+ * Model NoteEmbeddingChunk
+ * 笔记向量分块表：按标题切分主显示版本正文并存储 pgvector 向量，用于语义检索（schema: docs）
+ */
+export type NoteEmbeddingChunk = Prisma.NoteEmbeddingChunkModel
 /**
  * Model FileManagement
  * 文件管理表：存储上传文件的原始信息、服务器落盘信息与业务类型（schema: public）
  */
 export type FileManagement = Prisma.FileManagementModel
+/**
+ * Model FileReference
+ * 文件引用索引表：记录笔记正文、项目首页、项目头像、cNFT 等对上传文件的引用，由扫描重建（schema: public）
+ */
+export type FileReference = Prisma.FileReferenceModel
 /**
  * Model SystemConfig
  * 系统配置表：存储系统级配置项（schema: public）
@@ -77,8 +123,49 @@ export type SystemConfig = Prisma.SystemConfigModel
  * Merkle Tree 表：存储系统级 cNFT Merkle Tree 信息（schema: public）
  */
 export type MerkleTree = Prisma.MerkleTreeModel
+/**
+ * Model SolanaSession
+ * Solana 交易会话表：保存树创建与 cNFT 铸造在 prepare 与 submit 之间的上下文，多实例共享（schema: public）
+ * 仅保存公钥、参数与加密后的私钥引用，不保存明文 Keypair
+ */
+export type SolanaSession = Prisma.SolanaSessionModel
 /**
  * Model CompressedNft
  * 压缩 NFT 表：存储 cNFT 元数据，关联项目用于鉴权（schema: public）
  */
 export type CompressedNft = Prisma.CompressedNftModel
+/**
+ * Model CnftMintJob
+ * cNFT 批量铸造任务表：一次为一批接收者铸造同一项目的访问凭证（schema: public）
+ */
+export type CnftMintJob = Prisma.CnftMintJobModel
+/**
+ * Model CnftMintJobItem
+ * cNFT 批量铸造明细表：记录每个接收者的铸造进度、失败原因与重试次数（schema: public）
+ */
+export type CnftMintJobItem = Prisma.CnftMintJobItemModel
+/**
+ * Model CnftTransfer
+ * cNFT 持有者变更记录表：链上转移与销毁的历史（schema: public）
+ */
+export type CnftTransfer = Prisma.CnftTransferModel
+/**
+ * Model ProjectSale
+ * 项目售卖配置表：读者自助付费购买阅读凭证，款项直接转入版权方钱包（schema: public）
+ */
+export type ProjectSale = Prisma.ProjectSaleModel
+/**
+ * Model CnftPurchase
+ * cNFT 购买记录表：每个钱包在每个售卖配置下一条记录，失败后可重新购买（schema: public）
+ */
+export type CnftPurchase = Prisma.CnftPurchaseModel
+/**
+ * Model AccessGrant
+ * 访问授权表：试用、赞助、工单等场景无需 cNFT 即可阅读，可设置有效期并随时撤销；授权只撤销不删除（schema: public）
+ */
+export type AccessGrant = Prisma.AccessGrantModel
+/**
+ * Model AccessGrantLog
+ * 访问授权操作记录表：记录授权的创建、修改与撤销，只追加（schema: public）
+ */
+export type AccessGrantLog = Prisma.AccessGrantLogModel
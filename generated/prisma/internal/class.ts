@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  // Prisma Client 生成器提供者\n  provider = \"prisma-client\"\n  // 生成的客户端输出目录\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  // 数据库类型\n  provider = \"postgresql\"\n  // 使用的数据库 schema 列表\n  schemas  = [\"auth\", \"collections\", \"docs\", \"public\"]\n}\n\n/// 会话表：存储用户会话令牌、过期时间、撤销时间等（schema: auth）\nmodel Session {\n  // 会话ID（UUID）\n  id        String    @id @default(dbgenerated(\"gen_random_uuid()\")) @db.Uuid\n  // 用户ID\n  userId    Int\n  // 会话令牌哈希\n  tokenHash String    @unique\n  // 创建时间\n  createdAt DateTime  @default(now()) @db.Timestamp(6)\n  // 过期时间\n  expiresAt DateTime  @db.Timestamp(6)\n  // 撤销时间\n  revokedAt DateTime? @db.Timestamp(6)\n  // 登录IP\n  ip        String?   @db.VarChar(255)\n  // 用户代理（User-Agent）\n  userAgent String?\n  // 关联用户\n  User      User      @relation(fields: [userId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_session_user\")\n\n  @@index([expiresAt], map: \"idx_session_expiresat\")\n  @@index([userId], map: \"idx_session_userid\")\n  @@schema(\"auth\")\n}\n\n/// 用户表：存储用户名、密码、邮箱等基础信息（schema: auth）\nmodel User {\n  // 用户ID\n  id        Int       @id @default(autoincrement())\n  // 用户名\n  username  String    @unique @db.VarChar(255)\n  // 密码（建议存储哈希值）\n  password  String    @db.VarChar(255)\n  // 邮箱\n  email     String?   @db.VarChar(255)\n  // 创建时间\n  createdAt DateTime  @default(now()) @db.Timestamp(6)\n  // 更新时间\n  updatedAt DateTime  @default(now()) @db.Timestamp(6)\n  // 关联会话列表\n  Session   Session[]\n\n  @@schema(\"auth\")\n}\n\n/// 项目表：包含项目名称、权重、状态、是否验证权限、时间戳与软删除（schema: collections）\nmodel Project {\n  // 项目ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目名称\n  projectName String   @db.VarChar(128)\n  // 项目头像（存储相对路径或URL）\n  avatar      String?  @db.VarChar(500)\n  // 权重/排序\n  weight      Int\n  // 状态\n  status      Int      @db.SmallInt\n  // 是否需要鉴权\n  requireAuth Boolean  @default(false)\n  // 创建时间\n  createdAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted   Boolean  @default(false)\n\n  // 项目版本列表\n  versions ProjectVersion[]\n  // 项目菜单列表\n  menus    ProjectMenu[]\n  // 项目首页（一对一）\n  home     ProjectHome?\n\n  @@schema(\"collections\")\n}\n\n/// 项目菜单表：项目顶部导航菜单，支持二级层级结构（schema: collections）\nmodel ProjectMenu {\n  // 菜单ID\n  id         BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID（外键）\n  projectId  BigInt   @db.BigInt\n  // 父级菜单ID（NULL表示一级菜单）\n  parentId   BigInt?  @db.BigInt\n  // 菜单文本\n  label      String   @db.VarChar(64)\n  // 跳转链接（支持站内/站外）\n  url        String?  @db.VarChar(2048)\n  // 是否外链（true=新窗口打开）\n  isExternal Boolean  @default(false)\n  // 权重/排序（数值越大越靠前）\n  weight     Int      @default(0)\n  // 状态（1=启用，0=禁用）\n  status     Int      @default(1) @db.SmallInt\n  // 创建时间\n  createdAt  DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt  DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted  Boolean  @default(false)\n\n  // 关联项目\n  project  Project       @relation(fields: [projectId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_menu_project\")\n  // 父级菜单（自引用）\n  parent   ProjectMenu?  @relation(\"MenuHierarchy\", fields: [parentId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_menu_parent\")\n  // 子级菜单列表\n  children ProjectMenu[] @relation(\"MenuHierarchy\")\n\n  @@index([projectId], map: \"idx_project_menu_projectid\")\n  @@index([parentId], map: \"idx_project_menu_parentid\")\n  @@schema(\"collections\")\n}\n\n/// 项目首页表：存储项目首页的 Markdown 内容（schema: collections）\nmodel ProjectHome {\n  // 首页ID\n  id        BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID（外键，唯一约束保证一对一）\n  projectId BigInt   @unique @db.BigInt\n  // Markdown 内容\n  content   String   @db.Text\n  // 状态（1=启用，0=禁用）\n  status    Int      @default(1) @db.SmallInt\n  // 创建时间\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted Boolean  @default(false)\n\n  // 关联项目\n  project Project @relation(fields: [projectId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_home_project\")\n\n  @@index([projectId], map: \"idx_project_home_projectid\")\n  @@schema(\"collections\")\n}\n\n/// 项目版本表：关联项目，包含版本号、简介、权重、状态、时间戳与软删除（schema: collections）\nmodel ProjectVersion {\n  // 项目版本ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID\n  projectId   BigInt   @db.BigInt\n  // 版本号\n  version     String   @db.VarChar(64)\n  // 版本简介\n  description String?  @db.Text\n  // 权重/排序\n  weight      Int\n  // 状态\n  status      Int      @db.SmallInt\n  // 创建时间\n  createdAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted   Boolean  @default(false)\n\n  // 关联项目\n  project    Project    @relation(fields: [projectId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_project_version_project\")\n  // 分类列表\n  categories Category[]\n\n  @@index([projectId], map: \"idx_project_version_projectid\")\n  @@schema(\"collections\")\n}\n\n/// 分类表：关联项目版本，包含分类名称、权重、状态、时间戳与软删除（schema: collections）\nmodel Category {\n  // 分类ID\n  id               BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目版本ID\n  projectVersionId BigInt   @db.BigInt\n  // 分类名称\n  categoryName     String   @db.VarChar(64)\n  // 权重/排序\n  weight           Int\n  // 状态\n  status           Int      @db.SmallInt\n  // 创建时间\n  createdAt        DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt        DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted        Boolean  @default(false)\n\n  // 关联项目版本\n  projectVersion ProjectVersion @relation(fields: [projectVersionId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_category_project_version\")\n  // 笔记信息列表\n  noteInfos      NoteInfo[]\n\n  @@index([projectVersionId], map: \"idx_category_projectversionid\")\n  @@schema(\"collections\")\n}\n\n/// 笔记信息表：关联分类，包含笔记标题、权重、状态、时间戳与软删除（schema: docs）\nmodel NoteInfo {\n  // 笔记信息ID\n  id         BigInt   @id @default(autoincrement()) @db.BigInt\n  // 分类ID\n  categoryId BigInt   @db.BigInt\n  // 笔记标题\n  noteTitle  String   @db.VarChar(255)\n  // 权重/排序\n  weight     Int\n  // 状态\n  status     Int      @db.SmallInt\n  // 创建时间\n  createdAt  DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt  DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted  Boolean  @default(false)\n\n  // 关联分类\n  category Category      @relation(fields: [categoryId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_noteinfo_category\")\n  // 内容版本列表\n  contents NoteContent[]\n\n  @@index([categoryId], map: \"idx_noteinfo_categoryid\")\n  @@schema(\"docs\")\n}\n\n/// 笔记内容表：一对多多版本，包含正文内容、类型、版本备注、主显示标记、状态、时间戳与软删除（schema: docs）\nmodel NoteContent {\n  // 笔记内容ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 笔记信息ID\n  noteInfoId  BigInt   @db.BigInt\n  // 正文内容\n  content     String   @db.Text\n  // 版本备注\n  versionNote String?  @db.VarChar(255)\n  // 是否主显示版本\n  isPrimary   Boolean  @default(false)\n  // 状态\n  status      Int      @db.SmallInt\n  // 创建时间\n  createdAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted   Boolean  @default(false)\n\n  // 关联笔记信息\n  noteInfo NoteInfo @relation(fields: [noteInfoId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_notecontent_noteinfo\")\n\n  @@index([noteInfoId], map: \"idx_notecontent_noteinfoid\")\n  @@schema(\"docs\")\n}\n\n/// 文件管理表：存储上传文件的原始信息、服务器落盘信息与业务类型（schema: public）\nmodel FileManagement {\n  // 文件ID\n  id BigInt @id @default(autoincrement()) @db.BigInt\n\n  // 原始文件名\n  originalName String @map(\"original_name\") @db.VarChar(255)\n  // 服务器文件名\n  fileName     String @map(\"file_name\") @db.VarChar(255)\n  // 相对路径\n  filePath     String @map(\"file_path\") @db.VarChar(500)\n  // 文件大小(byte)\n  fileSize     BigInt @map(\"file_size\") @db.BigInt\n\n  //  avatar/homework/attachment\n  businessType String @map(\"business_type\") @db.VarChar(50)\n\n  // 1正常 0删除\n  status     Int      @default(1) @db.SmallInt\n  createTime DateTime @default(now()) @map(\"create_time\") @db.Timestamp(6)\n\n  @@map(\"file_management\")\n  @@schema(\"public\")\n}\n\n/// 系统配置表：存储系统级配置项（schema: public）\nmodel SystemConfig {\n  // 配置ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 配置键（唯一）\n  configKey   String   @unique @map(\"config_key\") @db.VarChar(100)\n  // 配置值\n  configValue String   @map(\"config_value\") @db.VarChar(500)\n  // 配置描述\n  description String?  @db.VarChar(255)\n  // 创建时间\n  createdAt   DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  @@map(\"system_config\")\n  @@schema(\"public\")\n}\n\n/// Merkle Tree 表：存储系统级 cNFT Merkle Tree 信息（schema: public）\nmodel MerkleTree {\n  // 树ID\n  id             BigInt   @id @default(autoincrement()) @db.BigInt\n  // 树名称\n  name           String   @db.VarChar(128)\n  // 链上树地址\n  treeAddress    String   @unique @map(\"tree_address\") @db.VarChar(64)\n  // 树权限地址（公钥）\n  treeAuthority  String   @map(\"tree_authority\") @db.VarChar(64)\n  // 加密后的树权限私钥（AES-256-GCM 加密）用于解密铸造\n  encryptedKey   String   @map(\"encrypted_key\") @db.Text\n  // 创建者钱包地址\n  creatorAddress String   @map(\"creator_address\") @db.VarChar(64)\n  // 最大深度（决定容量：2^maxDepth）\n  maxDepth       Int      @map(\"max_depth\") @db.SmallInt\n  // 最大缓冲区大小\n  maxBufferSize  Int      @map(\"max_buffer_size\") @db.SmallInt\n  // 树冠深度（减少证明大小）\n  canopyDepth    Int      @map(\"canopy_depth\") @db.SmallInt\n  // 网络类型：mainnet / devnet\n  network        String   @default(\"devnet\") @db.VarChar(20)\n  // 已铸造数量\n  totalMinted    Int      @default(0) @map(\"total_minted\")\n  // 最大容量\n  maxCapacity    BigInt   @map(\"max_capacity\") @db.BigInt\n  // 创建成本（lamports）\n  creationCost   BigInt   @map(\"creation_cost\") @db.BigInt\n  // 创建交易签名\n  txSignature    String?  @map(\"tx_signature\") @db.VarChar(128)\n  // 优先级（数值越大越优先使用，用于多树冗余）\n  priority       Int      @default(0)\n  // 状态：0=创建中 1=正常 2=已满 -1=失败\n  status         Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt      DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt      DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted      Boolean  @default(false) @map(\"is_deleted\")\n\n  // 关联的 cNFT 列表\n  cnfts CompressedNft[]\n\n  @@index([network, status], map: \"idx_merkle_tree_network_status\")\n  @@index([creatorAddress], map: \"idx_merkle_tree_creator\")\n  @@map(\"merkle_tree\")\n  @@schema(\"public\")\n}\n\n/// 压缩 NFT 表：存储 cNFT 元数据，关联项目用于鉴权（schema: public）\nmodel CompressedNft {\n  // cNFT ID\n  id              BigInt   @id @default(autoincrement()) @db.BigInt\n  // 所属 Merkle Tree ID\n  merkleTreeId    BigInt   @map(\"merkle_tree_id\") @db.BigInt\n  // 关联项目 ID（用于鉴权，哪个项目的访问权限）\n  projectId       BigInt   @map(\"project_id\") @db.BigInt\n  // 资产 ID（链上唯一标识）\n  assetId         String   @unique @map(\"asset_id\") @db.VarChar(64)\n  // 叶子索引\n  leafIndex       Int      @map(\"leaf_index\")\n  // NFT 名称\n  name            String   @db.VarChar(128)\n  // NFT 符号\n  symbol          String?  @db.VarChar(32)\n  // NFT 描述\n  description     String?  @db.Text\n  // 元数据 URI（ipfs://CID 格式）\n  metadataUri     String?  @map(\"metadata_uri\") @db.VarChar(500)\n  // 图片 IPFS CID\n  imageCid        String?  @map(\"image_cid\") @db.VarChar(128)\n  // 元数据 IPFS CID\n  metadataCid     String?  @map(\"metadata_cid\") @db.VarChar(128)\n  // 原始图片文件 ID（关联 FileManagement）\n  originalImageId BigInt?  @map(\"original_image_id\") @db.BigInt\n  // 当前持有者地址\n  ownerAddress    String   @map(\"owner_address\") @db.VarChar(64)\n  // 铸造交易签名\n  mintTxSignature String?  @map(\"mint_tx_signature\") @db.VarChar(128)\n  // 状态：0=铸造中 1=正常 -1=失败\n  status          Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt       DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt       DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 关联 Merkle Tree\n  merkleTree MerkleTree @relation(fields: [merkleTreeId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_cnft_merkle_tree\")\n\n  @@index([merkleTreeId], map: \"idx_cnft_merkle_tree_id\")\n  @@index([projectId], map: \"idx_cnft_project_id\")\n  @@index([ownerAddress], map: \"idx_cnft_owner\")\n  @@index([projectId, ownerAddress], map: \"idx_cnft_project_owner\")\n  @@map(\"compressed_nft\")\n  @@schema(\"public\")\n}\n",
+  "inlineSchema": "generator client {\n  // Prisma Client 生成器提供者\n  provider = \"prisma-client\"\n  // 生成的客户端输出目录\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  // 数据库类型\n  provider = \"postgresql\"\n  // 使用的数据库 schema 列表\n  schemas  = [\"auth\", \"collections\", \"docs\", \"public\"]\n}\n\n/// 会话表：存储用户会话令牌、过期时间、撤销时间等（schema: auth）\nmodel Session {\n  // 会话ID（UUID）\n  id        String    @id @default(dbgenerated(\"gen_random_uuid()\")) @db.Uuid\n  // 用户ID\n  userId    Int\n  // 会话令牌哈希\n  tokenHash String    @unique\n  // 创建时间\n  createdAt DateTime  @default(now()) @db.Timestamp(6)\n  // 过期时间\n  expiresAt DateTime  @db.Timestamp(6)\n  // 撤销时间\n  revokedAt DateTime? @db.Timestamp(6)\n  // 登录IP\n  ip        String?   @db.VarChar(255)\n  // 用户代理（User-Agent）\n  userAgent String?\n  // 关联用户\n  User      User      @relation(fields: [userId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_session_user\")\n\n  @@index([expiresAt], map: \"idx_session_expiresat\")\n  @@index([userId], map: \"idx_session_userid\")\n  @@schema(\"auth\")\n}\n\n/// 用户表：存储用户名、密码、邮箱等基础信息（schema: auth）\nmodel User {\n  // 用户ID\n  id        Int       @id @default(autoincrement())\n  // 用户名\n  username  String    @unique @db.VarChar(255)\n  // 密码（建议存储哈希值）\n  password  String    @db.VarChar(255)\n  // 邮箱\n  email     String?   @db.VarChar(255)\n  // 创建时间\n  createdAt DateTime  @default(now()) @db.Timestamp(6)\n  // 更新时间\n  updatedAt DateTime  @default(now()) @db.Timestamp(6)\n  // 关联会话列表\n  Session   Session[]\n\n  @@schema(\"auth\")\n}\n\n/// 读者会话表：存储钱包签名登录（Sign-In-With-Solana）后的会话令牌（schema: auth）\nmodel ReaderSession {\n  // 会话ID（UUID）\n  id            String    @id @default(dbgenerated(\"gen_random_uuid()\")) @db.Uuid\n  // 已验证的钱包地址（公钥）\n  walletAddress String    @db.VarChar(64)\n  // 会话令牌哈希\n  tokenHash     String    @unique\n  // 创建时间\n  createdAt     DateTime  @default(now()) @db.Timestamp(6)\n  // 过期时间\n  expiresAt     DateTime  @db.Timestamp(6)\n  // 撤销时间\n  revokedAt     DateTime? @db.Timestamp(6)\n  // 登录IP\n  ip            String?   @db.VarChar(255)\n  // 用户代理（User-Agent）\n  userAgent     String?\n\n  @@index([walletAddress], map: \"idx_reader_session_wallet\")\n  @@index([expiresAt], map: \"idx_reader_session_expiresat\")\n  @@schema(\"auth\")\n}\n\n/// 读者登录挑战表：存储签名登录的一次性 nonce 与待签名消息（schema: auth）\nmodel ReaderNonce {\n  // 挑战ID（UUID）\n  id            String    @id @default(dbgenerated(\"gen_random_uuid()\")) @db.Uuid\n  // 钱包地址（公钥）\n  walletAddress String    @db.VarChar(64)\n  // 一次性随机数\n  nonce         String    @unique @db.VarChar(64)\n  // 待签名消息原文\n  message       String\n  // 创建时间\n  createdAt     DateTime  @default(now()) @db.Timestamp(6)\n  // 过期时间\n  expiresAt     DateTime  @db.Timestamp(6)\n  // 使用时间（验证成功后写入，防止重放）\n  usedAt        DateTime? @db.Timestamp(6)\n\n  @@index([expiresAt], map: \"idx_reader_nonce_expiresat\")\n  @@schema(\"auth\")\n}\n\n/// 项目表：包含项目名称、权重、状态、是否验证权限、时间戳与软删除（schema: collections）\nmodel Project {\n  // 项目ID\n  id             BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目名称\n  projectName    String   @db.VarChar(128)\n  // URL 别名（全局唯一，为空时使用 ID）\n  slug           String?  @unique @db.VarChar(128)\n  // 项目头像（存储相对路径或URL）\n  avatar         String?  @db.VarChar(500)\n  // 权重/排序\n  weight         Int\n  // 状态\n  status         Int      @db.SmallInt\n  // 是否需要鉴权\n  requireAuth    Boolean  @default(false)\n  // SEO 标题（为空时使用项目名称）\n  seoTitle       String?  @db.VarChar(255)\n  // SEO 描述（为空时取项目首页首段）\n  seoDescription String?  @db.VarChar(512)\n  // SEO 关键词（逗号分隔）\n  seoKeywords    String?  @db.VarChar(255)\n  // 规范地址（为空时使用项目首页地址）\n  canonicalUrl   String?  @db.VarChar(500)\n  // 分享图（为空时使用项目头像）\n  ogImage        String?  @db.VarChar(500)\n  // 创建时间\n  createdAt      DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt      DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted      Boolean  @default(false)\n\n  // 项目版本列表\n  versions ProjectVersion[]\n  // 项目菜单列表\n  menus    ProjectMenu[]\n  // 项目首页（一对一）\n  home     ProjectHome?\n\n  @@schema(\"collections\")\n}\n\n/// 项目菜单表：项目顶部导航菜单，支持二级层级结构（schema: collections）\nmodel ProjectMenu {\n  // 菜单ID\n  id                BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID（外键）\n  projectId         BigInt   @db.BigInt\n  // 父级菜单ID（NULL表示一级菜单）\n  parentId          BigInt?  @db.BigInt\n  // 菜单文本\n  label             String   @db.VarChar(64)\n  // 菜单文本译文：{ \"en\": \"Docs\" }，缺少的语言使用菜单文本\n  labelTranslations Json?\n  // 跳转链接（支持站内/站外）\n  url               String?  @db.VarChar(2048)\n  // 是否外链（true=新窗口打开）\n  isExternal        Boolean  @default(false)\n  // 权重/排序（数值越大越靠前）\n  weight            Int      @default(0)\n  // 状态（1=启用，0=禁用）\n  status            Int      @default(1) @db.SmallInt\n  // 创建时间\n  createdAt         DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt         DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted         Boolean  @default(false)\n\n  // 关联项目\n  project  Project       @relation(fields: [projectId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_menu_project\")\n  // 父级菜单（自引用）\n  parent   ProjectMenu?  @relation(\"MenuHierarchy\", fields: [parentId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_menu_parent\")\n  // 子级菜单列表\n  children ProjectMenu[] @relation(\"MenuHierarchy\")\n\n  @@index([projectId], map: \"idx_project_menu_projectid\")\n  @@index([parentId], map: \"idx_project_menu_parentid\")\n  @@schema(\"collections\")\n}\n\n/// 项目首页表：存储项目首页的 Markdown 内容（schema: collections）\nmodel ProjectHome {\n  // 首页ID\n  id        BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID（外键，唯一约束保证一对一）\n  projectId BigInt   @unique @db.BigInt\n  // Markdown 内容\n  content   String   @db.Text\n  // 状态（1=启用，0=禁用）\n  status    Int      @default(1) @db.SmallInt\n  // 创建时间\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted Boolean  @default(false)\n\n  // 关联项目\n  project      Project                  @relation(fields: [projectId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_home_project\")\n  // 译文列表\n  translations ProjectHomeTranslation[]\n\n  @@index([projectId], map: \"idx_project_home_projectid\")\n  @@schema(\"collections\")\n}\n\n/// 项目首页译文表：每种语言一条，缺少的语言使用首页原文（schema: collections）\nmodel ProjectHomeTranslation {\n  // 译文ID\n  id            BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目首页ID\n  projectHomeId BigInt   @db.BigInt\n  // 语言\n  locale        String   @db.VarChar(16)\n  // Markdown 内容\n  content       String   @db.Text\n  // 创建时间\n  createdAt     DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt     DateTime @default(now()) @db.Timestamptz(6)\n\n  // 关联项目首页\n  projectHome ProjectHome @relation(fields: [projectHomeId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_project_home_translation_home\")\n\n  @@unique([projectHomeId, locale], map: \"uq_project_home_translation\")\n  @@schema(\"collections\")\n}\n\n/// 项目版本表：关联项目，包含版本号、简介、权重、状态、时间戳与软删除（schema: collections）\nmodel ProjectVersion {\n  // 项目版本ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目ID\n  projectId   BigInt   @db.BigInt\n  // 版本号\n  version     String   @db.VarChar(64)\n  // URL 别名（项目内唯一，为空时使用 ID）\n  slug        String?  @db.VarChar(128)\n  // 版本简介\n  description String?  @db.Text\n  // 权重/排序\n  weight      Int\n  // 状态\n  status      Int      @db.SmallInt\n  // 创建时间\n  createdAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted   Boolean  @default(false)\n\n  // 关联项目\n  project    Project    @relation(fields: [projectId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_project_version_project\")\n  // 分类列表\n  categories Category[]\n\n  @@unique([projectId, slug], map: \"uq_project_version_slug\")\n  @@index([projectId], map: \"idx_project_version_projectid\")\n  @@schema(\"collections\")\n}\n\n/// URL 别名跳转表：别名修改后保留旧别名，访问旧链接时 301 跳转到当前地址（schema: collections）\nmodel SlugRedirect {\n  // 记录ID\n  id         BigInt   @id @default(autoincrement()) @db.BigInt\n  // 类型：project / version / note\n  entityType String   @db.VarChar(16)\n  // 别名所在范围：项目为 0，版本为项目ID，笔记为版本ID\n  scopeId    BigInt   @db.BigInt\n  // 旧别名\n  oldSlug    String   @db.VarChar(128)\n  // 跳转目标ID\n  targetId   BigInt   @db.BigInt\n  // 创建时间\n  createdAt  DateTime @default(now()) @db.Timestamptz(6)\n\n  @@unique([entityType, scopeId, oldSlug], map: \"uq_slug_redirect\")\n  @@index([entityType, targetId], map: \"idx_slug_redirect_target\")\n  @@schema(\"collections\")\n}\n\n/// 分类表：关联项目版本，包含分类名称、权重、状态、时间戳与软删除（schema: collections）\nmodel Category {\n  // 分类ID\n  id               BigInt   @id @default(autoincrement()) @db.BigInt\n  // 项目版本ID\n  projectVersionId BigInt   @db.BigInt\n  // 分类名称\n  categoryName     String   @db.VarChar(64)\n  // 权重/排序\n  weight           Int\n  // 状态\n  status           Int      @db.SmallInt\n  // 访问级别：inherit=继承项目 public=公开 wallet=需持有 cNFT admin=仅管理员\n  accessLevel      String   @default(\"inherit\") @db.VarChar(16)\n  // 分类名称译文：{ \"en\": \"Guide\" }，缺少的语言使用分类名称\n  nameTranslations Json?\n  // 创建时间\n  createdAt        DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt        DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted        Boolean  @default(false)\n\n  // 关联项目版本\n  projectVersion ProjectVersion @relation(fields: [projectVersionId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_category_project_version\")\n  // 笔记信息列表\n  noteInfos      NoteInfo[]\n\n  @@index([projectVersionId], map: \"idx_category_projectversionid\")\n  @@schema(\"collections\")\n}\n\n/// 笔记信息表：关联分类，包含笔记标题、权重、状态、时间戳与软删除（schema: docs）\nmodel NoteInfo {\n  // 笔记信息ID\n  id             BigInt   @id @default(autoincrement()) @db.BigInt\n  // 分类ID\n  categoryId     BigInt   @db.BigInt\n  // 笔记标题\n  noteTitle      String   @db.VarChar(255)\n  // URL 别名（版本内唯一，由应用层校验；为空时使用 ID）\n  slug           String?  @db.VarChar(128)\n  // 权重/排序\n  weight         Int\n  // 状态\n  status         Int      @db.SmallInt\n  // 访问级别：inherit=继承分类 public=公开 wallet=需持有 cNFT admin=仅管理员\n  accessLevel    String   @default(\"inherit\") @db.VarChar(16)\n  // SEO 标题（为空时使用笔记标题）\n  seoTitle       String?  @db.VarChar(255)\n  // SEO 描述（为空时取公开笔记正文首段）\n  seoDescription String?  @db.VarChar(512)\n  // SEO 关键词（逗号分隔）\n  seoKeywords    String?  @db.VarChar(255)\n  // 规范地址（为空时使用笔记当前地址）\n  canonicalUrl   String?  @db.VarChar(500)\n  // 分享图（为空时使用项目分享图或头像）\n  ogImage        String?  @db.VarChar(500)\n  // 创建时间\n  createdAt      DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt      DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted      Boolean  @default(false)\n\n  // 关联分类\n  category        Category             @relation(fields: [categoryId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_noteinfo_category\")\n  // 内容版本列表\n  contents        NoteContent[]\n  // 全文检索索引（一对一）\n  searchIndex     NoteSearchIndex?\n  // 语义检索向量分块列表\n  embeddingChunks NoteEmbeddingChunk[]\n  // 定时发布 / 下线计划列表\n  schedules       NoteSchedule[]\n\n  @@index([categoryId], map: \"idx_noteinfo_categoryid\")\n  @@index([slug], map: \"idx_noteinfo_slug\")\n  @@schema(\"docs\")\n}\n\n/// 笔记内容表：一对多多版本，包含正文内容、类型、版本备注、主显示标记、状态、时间戳与软删除（schema: docs）\nmodel NoteContent {\n  // 笔记内容ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 笔记信息ID\n  noteInfoId  BigInt   @db.BigInt\n  // 正文内容\n  content     String   @db.Text\n  // 版本备注\n  versionNote String?  @db.VarChar(255)\n  // 是否主显示版本（同一语言内唯一）\n  isPrimary   Boolean  @default(false)\n  // 语言：为空表示原文（回退语言），否则为该语言的译文\n  locale      String?  @db.VarChar(16)\n  // 译文标题（为空时使用笔记标题）\n  title       String?  @db.VarChar(255)\n  // 状态\n  status      Int      @db.SmallInt\n  // 创建时间\n  createdAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted   Boolean  @default(false)\n\n  // 关联笔记信息\n  noteInfo  NoteInfo              @relation(fields: [noteInfoId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_notecontent_noteinfo\")\n  // 修订历史列表\n  revisions NoteContentRevision[]\n  // 定时发布 / 下线计划列表\n  schedules NoteSchedule[]\n\n  @@index([noteInfoId], map: \"idx_notecontent_noteinfoid\")\n  @@index([noteInfoId, locale], map: \"idx_notecontent_noteinfoid_locale\")\n  @@schema(\"docs\")\n}\n\n/// 笔记内容修订表：每次修改正文前保存旧正文快照，只追加不修改（schema: docs）\nmodel NoteContentRevision {\n  // 修订ID\n  id            BigInt   @id @default(autoincrement()) @db.BigInt\n  // 笔记内容ID\n  noteContentId BigInt   @db.BigInt\n  // 笔记信息ID（冗余，便于按笔记查询）\n  noteInfoId    BigInt   @db.BigInt\n  // 修改前的正文内容\n  content       String   @db.Text\n  // 修改前正文的 SHA-256 哈希\n  contentHash   String   @db.Char(64)\n  // 操作类型（update: 编辑保存，rollback: 回滚，import: 导入）\n  action        String   @default(\"update\") @db.VarChar(20)\n  // 操作用户ID\n  userId        Int?\n  // 操作用户名（快照，用户删除后仍可追溯）\n  username      String?  @db.VarChar(255)\n  // 创建时间\n  createdAt     DateTime @default(now()) @db.Timestamptz(6)\n\n  // 关联笔记内容\n  noteContent NoteContent @relation(fields: [noteContentId], references: [id], onDelete: NoAction, onUpdate: NoAction, map: \"fk_note_revision_notecontent\")\n\n  @@index([noteContentId, createdAt], map: \"idx_note_revision_content_created\")\n  @@index([noteInfoId], map: \"idx_note_revision_noteinfoid\")\n  @@schema(\"docs\")\n}\n\n/// 笔记定时计划表：到达执行时间后由定时任务将内容版本设为主版本，或下线内容版本 / 整篇笔记（schema: docs）\nmodel NoteSchedule {\n  // 计划ID\n  id            BigInt    @id @default(autoincrement()) @db.BigInt\n  // 笔记信息ID\n  noteInfoId    BigInt    @db.BigInt\n  // 笔记内容ID（下线整篇笔记时为空）\n  noteContentId BigInt?   @db.BigInt\n  // 操作类型（publish: 设为主版本并启用，unpublish: 停用内容版本或笔记）\n  action        String    @db.VarChar(20)\n  // 计划执行时间\n  runAt         DateTime  @db.Timestamptz(6)\n  // 状态（pending: 待执行，done: 已执行，failed: 执行失败，cancelled: 已取消）\n  status        String    @default(\"pending\") @db.VarChar(20)\n  // 失败原因\n  error         String?   @db.VarChar(500)\n  // 创建计划的用户ID\n  userId        Int?\n  // 创建计划的用户名（快照，用户删除后仍可追溯）\n  username      String?   @db.VarChar(255)\n  // 实际执行时间\n  executedAt    DateTime? @db.Timestamptz(6)\n  // 创建时间\n  createdAt     DateTime  @default(now()) @db.Timestamptz(6)\n  // 更新时间\n  updatedAt     DateTime  @default(now()) @db.Timestamptz(6)\n\n  // 关联笔记信息\n  noteInfo    NoteInfo     @relation(fields: [noteInfoId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_note_schedule_noteinfo\")\n  // 关联笔记内容\n  noteContent NoteContent? @relation(fields: [noteContentId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_note_schedule_notecontent\")\n\n  @@index([status, runAt], map: \"idx_note_schedule_status_runat\")\n  @@index([noteInfoId], map: \"idx_note_schedule_noteinfoid\")\n  @@schema(\"docs\")\n}\n\n/// 笔记全文检索索引表：存储笔记标题与主显示版本正文的分词向量（schema: docs）\n/// 中文按二元组（bigram）预分词后使用 simple 配置生成 tsvector，由应用层维护\nmodel NoteSearchIndex {\n  // 笔记信息ID（主键，一对一）\n  noteInfoId    BigInt                  @id @db.BigInt\n  // 索引来源的笔记内容ID\n  noteContentId BigInt?                 @db.BigInt\n  // 笔记标题\n  title         String                  @db.VarChar(255)\n  // 纯文本正文（去除 Markdown 标记，用于生成摘要）\n  body          String                  @db.Text\n  // 分词向量（标题权重 A，正文权重 B）\n  searchVector  Unsupported(\"tsvector\")\n  // 更新时间\n  updatedAt     DateTime                @default(now()) @db.Timestamptz(6)\n\n  // 关联笔记信息\n  noteInfo NoteInfo @relation(fields: [noteInfoId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_note_search_noteinfo\")\n\n  @@index([searchVector], map: \"idx_note_search_vector\", type: Gin)\n  @@schema(\"docs\")\n}\n\n/// 笔记向量分块表：按标题切分主显示版本正文并存储 pgvector 向量，用于语义检索（schema: docs）\nmodel NoteEmbeddingChunk {\n  // 分块ID\n  id            BigInt                      @id @default(autoincrement()) @db.BigInt\n  // 笔记信息ID\n  noteInfoId    BigInt                      @db.BigInt\n  // 来源笔记内容ID\n  noteContentId BigInt                      @db.BigInt\n  // 分块序号（从0开始）\n  chunkIndex    Int\n  // 分块所在标题路径（如：安装 / 环境要求）\n  heading       String?                     @db.VarChar(500)\n  // 分块文本\n  content       String                      @db.Text\n  // 向量（维度需与 server/utils/embedding.ts 中 EMBEDDING_DIMENSIONS 一致）\n  embedding     Unsupported(\"vector(1024)\")\n  // 向量化提供者名称\n  provider      String                      @db.VarChar(100)\n  // 创建时间\n  createdAt     DateTime                    @default(now()) @db.Timestamptz(6)\n\n  // 关联笔记信息\n  noteInfo NoteInfo @relation(fields: [noteInfoId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_note_embedding_noteinfo\")\n\n  @@index([noteInfoId], map: \"idx_note_embedding_noteinfoid\")\n  @@schema(\"docs\")\n}\n\n/// 文件管理表：存储上传文件的原始信息、服务器落盘信息与业务类型（schema: public）\nmodel FileManagement {\n  // 文件ID\n  id BigInt @id @default(autoincrement()) @db.BigInt\n\n  // 原始文件名\n  originalName String @map(\"original_name\") @db.VarChar(255)\n  // 服务器文件名\n  fileName     String @map(\"file_name\") @db.VarChar(255)\n  // 相对路径\n  filePath     String @map(\"file_path\") @db.VarChar(500)\n  // 文件大小(byte)\n  fileSize     BigInt @map(\"file_size\") @db.BigInt\n\n  //  avatar/homework/attachment\n  businessType String @map(\"business_type\") @db.VarChar(50)\n\n  // 存储驱动（local: 本地磁盘，s3: S3 兼容对象存储）\n  storageDriver String  @default(\"local\") @map(\"storage_driver\") @db.VarChar(20)\n  // 文件内容 SHA-256（用于去重）\n  sha256        String? @db.Char(64)\n\n  // 1正常 0删除\n  status     Int      @default(1) @db.SmallInt\n  createTime DateTime @default(now()) @map(\"create_time\") @db.Timestamp(6)\n\n  // 引用索引列表\n  references FileReference[]\n\n  @@index([filePath], map: \"idx_file_management_file_path\")\n  @@index([sha256], map: \"idx_file_management_sha256\")\n  @@map(\"file_management\")\n  @@schema(\"public\")\n}\n\n/// 文件引用索引表：记录笔记正文、项目首页、项目头像、cNFT 等对上传文件的引用，由扫描重建（schema: public）\nmodel FileReference {\n  // 引用ID\n  id        BigInt   @id @default(autoincrement()) @db.BigInt\n  // 文件ID\n  fileId    BigInt   @map(\"file_id\") @db.BigInt\n  // 引用方类型（NoteContent / NoteContentRevision / ProjectHome / ProjectAvatar / CompressedNft）\n  refType   String   @map(\"ref_type\") @db.VarChar(30)\n  // 引用方ID\n  refId     BigInt   @map(\"ref_id\") @db.BigInt\n  // 索引时间\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n\n  // 关联文件\n  file FileManagement @relation(fields: [fileId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_file_reference_file\")\n\n  @@unique([fileId, refType, refId], map: \"uq_file_reference\")\n  @@index([refType, refId], map: \"idx_file_reference_ref\")\n  @@map(\"file_reference\")\n  @@schema(\"public\")\n}\n\n/// 系统配置表：存储系统级配置项（schema: public）\nmodel SystemConfig {\n  // 配置ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 配置键（唯一）\n  configKey   String   @unique @map(\"config_key\") @db.VarChar(100)\n  // 配置值\n  configValue String   @map(\"config_value\") @db.VarChar(500)\n  // 配置描述\n  description String?  @db.VarChar(255)\n  // 创建时间\n  createdAt   DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  @@map(\"system_config\")\n  @@schema(\"public\")\n}\n\n/// Merkle Tree 表：存储系统级 cNFT Merkle Tree 信息（schema: public）\nmodel MerkleTree {\n  // 树ID\n  id             BigInt   @id @default(autoincrement()) @db.BigInt\n  // 树名称\n  name           String   @db.VarChar(128)\n  // 链上树地址\n  treeAddress    String   @unique @map(\"tree_address\") @db.VarChar(64)\n  // 树权限地址（公钥）\n  treeAuthority  String   @map(\"tree_authority\") @db.VarChar(64)\n  // 加密后的树权限私钥（AES-256-GCM 加密）用于解密铸造\n  encryptedKey   String   @map(\"encrypted_key\") @db.Text\n  // 创建者钱包地址\n  creatorAddress String   @map(\"creator_address\") @db.VarChar(64)\n  // 最大深度（决定容量：2^maxDepth）\n  maxDepth       Int      @map(\"max_depth\") @db.SmallInt\n  // 最大缓冲区大小\n  maxBufferSize  Int      @map(\"max_buffer_size\") @db.SmallInt\n  // 树冠深度（减少证明大小）\n  canopyDepth    Int      @map(\"canopy_depth\") @db.SmallInt\n  // 网络类型：mainnet / devnet\n  network        String   @default(\"devnet\") @db.VarChar(20)\n  // 已铸造数量\n  totalMinted    Int      @default(0) @map(\"total_minted\")\n  // 最大容量\n  maxCapacity    BigInt   @map(\"max_capacity\") @db.BigInt\n  // 创建成本（lamports）\n  creationCost   BigInt   @map(\"creation_cost\") @db.BigInt\n  // 创建交易签名\n  txSignature    String?  @map(\"tx_signature\") @db.VarChar(128)\n  // 优先级（数值越大越优先使用，用于多树冗余）\n  priority       Int      @default(0)\n  // 状态：0=创建中 1=正常 2=已满 -1=失败\n  status         Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt      DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt      DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n  // 软删除标记\n  isDeleted      Boolean  @default(false) @map(\"is_deleted\")\n\n  // 关联的 cNFT 列表\n  cnfts CompressedNft[]\n\n  @@index([network, status], map: \"idx_merkle_tree_network_status\")\n  @@index([creatorAddress], map: \"idx_merkle_tree_creator\")\n  @@map(\"merkle_tree\")\n  @@schema(\"public\")\n}\n\n/// Solana 交易会话表：保存树创建与 cNFT 铸造在 prepare 与 submit 之间的上下文，多实例共享（schema: public）\n/// 仅保存公钥、参数与加密后的私钥引用，不保存明文 Keypair\nmodel SolanaSession {\n  // 会话ID（32 字节随机数 hex）\n  id           String   @id @db.VarChar(64)\n  // 会话类型：tree=树创建 mint=cNFT 铸造 batch=批量铸造交易 operation=cNFT 转移/销毁/委托 purchase=读者购买\n  kind         String   @db.VarChar(10)\n  // 会话数据（公钥、参数、关联记录ID，不含私钥）\n  payload      Json\n  // 加密后的私钥（AES-256-GCM），铸造会话为空，通过 merkleTreeId 引用树记录中的加密私钥\n  encryptedKey String?  @map(\"encrypted_key\") @db.Text\n  // 创建时间\n  createdAt    DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 过期时间\n  expiresAt    DateTime @map(\"expires_at\") @db.Timestamptz(6)\n\n  @@index([expiresAt], map: \"idx_solana_session_expires_at\")\n  @@map(\"solana_session\")\n  @@schema(\"public\")\n}\n\n/// 压缩 NFT 表：存储 cNFT 元数据，关联项目用于鉴权（schema: public）\nmodel CompressedNft {\n  // cNFT ID\n  id              BigInt    @id @default(autoincrement()) @db.BigInt\n  // 所属 Merkle Tree ID\n  merkleTreeId    BigInt    @map(\"merkle_tree_id\") @db.BigInt\n  // 关联项目 ID（用于鉴权，哪个项目的访问权限）\n  projectId       BigInt    @map(\"project_id\") @db.BigInt\n  // 资产 ID（链上唯一标识）\n  assetId         String    @unique @map(\"asset_id\") @db.VarChar(64)\n  // 叶子索引\n  leafIndex       Int       @map(\"leaf_index\")\n  // NFT 名称\n  name            String    @db.VarChar(128)\n  // NFT 符号\n  symbol          String?   @db.VarChar(32)\n  // NFT 描述\n  description     String?   @db.Text\n  // 元数据 URI（ipfs://CID 格式）\n  metadataUri     String?   @map(\"metadata_uri\") @db.VarChar(500)\n  // 图片 IPFS CID\n  imageCid        String?   @map(\"image_cid\") @db.VarChar(128)\n  // 元数据 IPFS CID\n  metadataCid     String?   @map(\"metadata_cid\") @db.VarChar(128)\n  // 原始图片文件 ID（关联 FileManagement）\n  originalImageId BigInt?   @map(\"original_image_id\") @db.BigInt\n  // 当前持有者地址\n  ownerAddress    String    @map(\"owner_address\") @db.VarChar(64)\n  // 当前委托地址（未委托时为空，链上委托者等于持有者）\n  delegateAddress String?   @map(\"delegate_address\") @db.VarChar(64)\n  // 铸造交易签名\n  mintTxSignature String?   @map(\"mint_tx_signature\") @db.VarChar(128)\n  // 状态：0=铸造中 1=正常 2=已销毁 -1=失败\n  status          Int       @default(0) @db.SmallInt\n  // 最近一次与链上索引同步持有者的时间\n  ownerSyncedAt   DateTime? @map(\"owner_synced_at\") @db.Timestamptz(6)\n  // 创建时间\n  createdAt       DateTime  @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt       DateTime  @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 关联 Merkle Tree\n  merkleTree MerkleTree     @relation(fields: [merkleTreeId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_cnft_merkle_tree\")\n  // 持有者变更记录\n  transfers  CnftTransfer[]\n\n  @@index([merkleTreeId], map: \"idx_cnft_merkle_tree_id\")\n  @@index([projectId], map: \"idx_cnft_project_id\")\n  @@index([ownerAddress], map: \"idx_cnft_owner\")\n  @@index([projectId, ownerAddress], map: \"idx_cnft_project_owner\")\n  @@map(\"compressed_nft\")\n  @@schema(\"public\")\n}\n\n/// cNFT 批量铸造任务表：一次为一批接收者铸造同一项目的访问凭证（schema: public）\nmodel CnftMintJob {\n  // 任务ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 关联项目 ID\n  projectId   BigInt   @map(\"project_id\") @db.BigInt\n  // 网络类型：mainnet / devnet\n  network     String   @default(\"devnet\") @db.VarChar(20)\n  // 默认 NFT 名称（接收者未单独指定时使用）\n  name        String   @db.VarChar(128)\n  // NFT 符号\n  symbol      String?  @db.VarChar(32)\n  // 元数据 URI\n  metadataUri String?  @map(\"metadata_uri\") @db.VarChar(500)\n  // 接收者总数\n  total       Int      @default(0)\n  // 状态：0=进行中 1=已完成\n  status      Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt   DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt   DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 接收者列表\n  items CnftMintJobItem[]\n\n  @@index([network, createdAt], map: \"idx_cnft_mint_job_network\")\n  @@map(\"cnft_mint_job\")\n  @@schema(\"public\")\n}\n\n/// cNFT 批量铸造明细表：记录每个接收者的铸造进度、失败原因与重试次数（schema: public）\nmodel CnftMintJobItem {\n  // 明细ID\n  id           BigInt   @id @default(autoincrement()) @db.BigInt\n  // 所属任务ID\n  jobId        BigInt   @map(\"job_id\") @db.BigInt\n  // 行号（导入列表中的顺序，从 1 开始）\n  rowNumber    Int      @map(\"row_number\")\n  // 接收者地址\n  ownerAddress String   @map(\"owner_address\") @db.VarChar(64)\n  // NFT 名称（覆盖任务默认名称）\n  name         String?  @db.VarChar(128)\n  // 关联的 cNFT 记录ID（最近一次尝试）\n  cnftId       BigInt?  @map(\"cnft_id\") @db.BigInt\n  // 交易签名（最近一次尝试）\n  txSignature  String?  @map(\"tx_signature\") @db.VarChar(128)\n  // 尝试次数\n  attempts     Int      @default(0)\n  // 最近一次失败原因\n  errorMessage String?  @map(\"error_message\") @db.VarChar(500)\n  // 状态：0=待铸造 1=铸造中 2=成功 -1=失败\n  status       Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt    DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt    DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 关联任务\n  job CnftMintJob @relation(fields: [jobId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_cnft_mint_job_item_job\")\n\n  @@index([jobId, status], map: \"idx_cnft_mint_job_item_job_status\")\n  @@index([cnftId], map: \"idx_cnft_mint_job_item_cnft\")\n  @@map(\"cnft_mint_job_item\")\n  @@schema(\"public\")\n}\n\n/// cNFT 持有者变更记录表：链上转移与销毁的历史（schema: public）\nmodel CnftTransfer {\n  // 记录ID\n  id          BigInt   @id @default(autoincrement()) @db.BigInt\n  // 关联 cNFT ID\n  cnftId      BigInt   @map(\"cnft_id\") @db.BigInt\n  // 变更类型：transfer=转移 burn=销毁 delegate=委托（toAddress 为新委托者）\n  event       String   @db.VarChar(16)\n  // 原持有者地址\n  fromAddress String   @map(\"from_address\") @db.VarChar(64)\n  // 新持有者或新委托者地址（销毁时为空）\n  toAddress   String?  @map(\"to_address\") @db.VarChar(64)\n  // 来源：sync=索引同步发现 proof=读者提交 Merkle 证明 admin=后台操作\n  source      String   @default(\"sync\") @db.VarChar(16)\n  // 交易签名（已知时记录）\n  txSignature String?  @map(\"tx_signature\") @db.VarChar(128)\n  // 记录时间\n  createdAt   DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n\n  // 关联 cNFT\n  cnft CompressedNft @relation(fields: [cnftId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_cnft_transfer_cnft\")\n\n  @@index([cnftId, createdAt], map: \"idx_cnft_transfer_cnft\")\n  @@map(\"cnft_transfer\")\n  @@schema(\"public\")\n}\n\n/// 项目售卖配置表：读者自助付费购买阅读凭证，款项直接转入版权方钱包（schema: public）\nmodel ProjectSale {\n  // 配置ID\n  id              BigInt   @id @default(autoincrement()) @db.BigInt\n  // 关联项目 ID（每个项目一条配置）\n  projectId       BigInt   @unique @map(\"project_id\") @db.BigInt\n  // 网络类型：mainnet / devnet\n  network         String   @default(\"devnet\") @db.VarChar(20)\n  // 价格（lamports）\n  priceLamports   BigInt   @map(\"price_lamports\") @db.BigInt\n  // 收款钱包地址（版权方）\n  receiverAddress String   @map(\"receiver_address\") @db.VarChar(64)\n  // 发售上限（为空表示不限量）\n  supplyCap       Int?     @map(\"supply_cap\")\n  // NFT 名称\n  name            String   @db.VarChar(128)\n  // NFT 符号\n  symbol          String?  @db.VarChar(32)\n  // 元数据 URI\n  metadataUri     String?  @map(\"metadata_uri\") @db.VarChar(500)\n  // 是否开放购买\n  enabled         Boolean  @default(false)\n  // 创建时间\n  createdAt       DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt       DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 购买记录\n  purchases CnftPurchase[]\n\n  @@map(\"project_sale\")\n  @@schema(\"public\")\n}\n\n/// cNFT 购买记录表：每个钱包在每个售卖配置下一条记录，失败后可重新购买（schema: public）\nmodel CnftPurchase {\n  // 记录ID\n  id              BigInt   @id @default(autoincrement()) @db.BigInt\n  // 所属售卖配置ID\n  saleId          BigInt   @map(\"sale_id\") @db.BigInt\n  // 关联项目 ID\n  projectId       BigInt   @map(\"project_id\") @db.BigInt\n  // 购买者钱包地址（即 cNFT 接收者与付款方）\n  buyerAddress    String   @map(\"buyer_address\") @db.VarChar(64)\n  // 关联的 cNFT 记录ID（最近一次尝试）\n  cnftId          BigInt?  @map(\"cnft_id\") @db.BigInt\n  // 实付价格（lamports，下单时的价格）\n  priceLamports   BigInt   @map(\"price_lamports\") @db.BigInt\n  // 收款钱包地址（下单时的地址）\n  receiverAddress String   @map(\"receiver_address\") @db.VarChar(64)\n  // 交易签名（最近一次尝试）\n  txSignature     String?  @map(\"tx_signature\") @db.VarChar(128)\n  // 最近一次失败原因\n  errorMessage    String?  @map(\"error_message\") @db.VarChar(500)\n  // 状态：0=处理中 1=已完成 -1=失败\n  status          Int      @default(0) @db.SmallInt\n  // 创建时间\n  createdAt       DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt       DateTime @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 关联售卖配置\n  sale ProjectSale @relation(fields: [saleId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_cnft_purchase_sale\")\n\n  @@unique([saleId, buyerAddress], map: \"uq_cnft_purchase_buyer\")\n  @@index([saleId, status], map: \"idx_cnft_purchase_sale_status\")\n  @@index([cnftId], map: \"idx_cnft_purchase_cnft\")\n  @@map(\"cnft_purchase\")\n  @@schema(\"public\")\n}\n\n/// 访问授权表：试用、赞助、工单等场景无需 cNFT 即可阅读，可设置有效期并随时撤销；授权只撤销不删除（schema: public）\nmodel AccessGrant {\n  // 授权ID\n  id            BigInt    @id @default(autoincrement()) @db.BigInt\n  // 关联项目 ID\n  projectId     BigInt    @map(\"project_id\") @db.BigInt\n  // 被授权的钱包地址\n  walletAddress String    @map(\"wallet_address\") @db.VarChar(64)\n  // 联系邮箱（可选，便于追溯）\n  email         String?   @db.VarChar(255)\n  // 授权类型：trial=试用 sponsor=赞助 support=工单 other=其他\n  grantType     String    @default(\"trial\") @map(\"grant_type\") @db.VarChar(20)\n  // 授权原因\n  reason        String    @db.VarChar(500)\n  // 生效时间\n  startsAt      DateTime  @default(now()) @map(\"starts_at\") @db.Timestamptz(6)\n  // 过期时间（为空表示长期有效）\n  expiresAt     DateTime? @map(\"expires_at\") @db.Timestamptz(6)\n  // 撤销时间\n  revokedAt     DateTime? @map(\"revoked_at\") @db.Timestamptz(6)\n  // 撤销原因\n  revokeReason  String?   @map(\"revoke_reason\") @db.VarChar(500)\n  // 授权人用户ID\n  issuedById    Int?      @map(\"issued_by_id\")\n  // 授权人用户名（快照，用户删除后仍可追溯）\n  issuedByName  String?   @map(\"issued_by_name\") @db.VarChar(255)\n  // 撤销人用户ID\n  revokedById   Int?      @map(\"revoked_by_id\")\n  // 撤销人用户名（快照）\n  revokedByName String?   @map(\"revoked_by_name\") @db.VarChar(255)\n  // 创建时间\n  createdAt     DateTime  @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n  // 更新时间\n  updatedAt     DateTime  @default(now()) @map(\"updated_at\") @db.Timestamptz(6)\n\n  // 操作记录\n  logs AccessGrantLog[]\n\n  @@index([projectId, walletAddress], map: \"idx_access_grant_project_wallet\")\n  @@index([walletAddress], map: \"idx_access_grant_wallet\")\n  @@map(\"access_grant\")\n  @@schema(\"public\")\n}\n\n/// 访问授权操作记录表：记录授权的创建、修改与撤销，只追加（schema: public）\nmodel AccessGrantLog {\n  // 记录ID\n  id        BigInt   @id @default(autoincrement()) @db.BigInt\n  // 所属授权ID\n  grantId   BigInt   @map(\"grant_id\") @db.BigInt\n  // 操作类型：create / update / revoke\n  action    String   @db.VarChar(20)\n  // 变更内容（字段 → [修改前, 修改后]）\n  changes   Json?\n  // 操作说明\n  reason    String?  @db.VarChar(500)\n  // 操作用户ID\n  userId    Int?     @map(\"user_id\")\n  // 操作用户名（快照）\n  username  String?  @db.VarChar(255)\n  // 创建时间\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamptz(6)\n\n  // 关联授权\n  grant AccessGrant @relation(fields: [grantId], references: [id], onDelete: Cascade, onUpdate: NoAction, map: \"fk_access_grant_log_grant\")\n\n  @@index([grantId, createdAt], map: \"idx_access_grant_log_grant_created\")\n  @@map(\"access_grant_log\")\n  @@schema(\"public\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Session\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"requireAuth\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"ProjectVersion\",\"relationName\":\"ProjectToProjectVersion\"},{\"name\":\"menus\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"ProjectToProjectMenu\"},{\"name\":\"home\",\"kind\":\"object\",\"type\":\"ProjectHome\",\"relationName\":\"ProjectToProjectHome\"}],\"dbName\":null},\"ProjectMenu\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isExternal\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectMenu\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"MenuHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"MenuHierarchy\"}],\"dbName\":null},\"ProjectHome\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectHome\"}],\"dbName\":null},\"ProjectVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectVersion\"},{\"name\":\"categories\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProjectVersion\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectVersionId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"categoryName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"projectVersion\",\"kind\":\"object\",\"type\":\"ProjectVersion\",\"relationName\":\"CategoryToProjectVersion\"},{\"name\":\"noteInfos\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"CategoryToNoteInfo\"}],\"dbName\":null},\"NoteInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToNoteInfo\"},{\"name\":\"contents\",\"kind\":\"object\",\"type\":\"NoteContent\",\"relationName\":\"NoteContentToNoteInfo\"}],\"dbName\":null},\"NoteContent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"versionNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"noteInfo\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"NoteContentToNoteInfo\"}],\"dbName\":null},\"FileManagement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"original_name\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_name\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_path\"},{\"name\":\"fileSize\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"file_size\"},{\"name\":\"businessType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"business_type\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createTime\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"create_time\"}],\"dbName\":\"file_management\"},\"SystemConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"configKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"config_key\"},{\"name\":\"configValue\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"config_value\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"system_config\"},\"MerkleTree\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"treeAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tree_address\"},{\"name\":\"treeAuthority\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tree_authority\"},{\"name\":\"encryptedKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"encrypted_key\"},{\"name\":\"creatorAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"creator_address\"},{\"name\":\"maxDepth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_depth\"},{\"name\":\"maxBufferSize\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_buffer_size\"},{\"name\":\"canopyDepth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"canopy_depth\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalMinted\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"total_minted\"},{\"name\":\"maxCapacity\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"max_capacity\"},{\"name\":\"creationCost\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"creation_cost\"},{\"name\":\"txSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tx_signature\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_deleted\"},{\"name\":\"cnfts\",\"kind\":\"object\",\"type\":\"CompressedNft\",\"relationName\":\"CompressedNftToMerkleTree\"}],\"dbName\":\"merkle_tree\"},\"CompressedNft\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"merkleTreeId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"merkle_tree_id\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"assetId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"asset_id\"},{\"name\":\"leafIndex\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"leaf_index\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadataUri\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_uri\"},{\"name\":\"imageCid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"image_cid\"},{\"name\":\"metadataCid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_cid\"},{\"name\":\"originalImageId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"original_image_id\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"owner_address\"},{\"name\":\"mintTxSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"mint_tx_signature\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"merkleTree\",\"kind\":\"object\",\"type\":\"MerkleTree\",\"relationName\":\"CompressedNftToMerkleTree\"}],\"dbName\":\"compressed_nft\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Session\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"ReaderSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"ReaderNonce\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nonce\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"requireAuth\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"seoTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seoDescription\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seoKeywords\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"canonicalUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ogImage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"ProjectVersion\",\"relationName\":\"ProjectToProjectVersion\"},{\"name\":\"menus\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"ProjectToProjectMenu\"},{\"name\":\"home\",\"kind\":\"object\",\"type\":\"ProjectHome\",\"relationName\":\"ProjectToProjectHome\"}],\"dbName\":null},\"ProjectMenu\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"labelTranslations\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isExternal\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectMenu\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"MenuHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectMenu\",\"relationName\":\"MenuHierarchy\"}],\"dbName\":null},\"ProjectHome\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectHome\"},{\"name\":\"translations\",\"kind\":\"object\",\"type\":\"ProjectHomeTranslation\",\"relationName\":\"ProjectHomeToProjectHomeTranslation\"}],\"dbName\":null},\"ProjectHomeTranslation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectHomeId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"locale\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"projectHome\",\"kind\":\"object\",\"type\":\"ProjectHome\",\"relationName\":\"ProjectHomeToProjectHomeTranslation\"}],\"dbName\":null},\"ProjectVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectVersion\"},{\"name\":\"categories\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProjectVersion\"}],\"dbName\":null},\"SlugRedirect\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"entityType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopeId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"oldSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectVersionId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"categoryName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"accessLevel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nameTranslations\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"projectVersion\",\"kind\":\"object\",\"type\":\"ProjectVersion\",\"relationName\":\"CategoryToProjectVersion\"},{\"name\":\"noteInfos\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"CategoryToNoteInfo\"}],\"dbName\":null},\"NoteInfo\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"accessLevel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seoTitle\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seoDescription\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seoKeywords\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"canonicalUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ogImage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToNoteInfo\"},{\"name\":\"contents\",\"kind\":\"object\",\"type\":\"NoteContent\",\"relationName\":\"NoteContentToNoteInfo\"},{\"name\":\"searchIndex\",\"kind\":\"object\",\"type\":\"NoteSearchIndex\",\"relationName\":\"NoteInfoToNoteSearchIndex\"},{\"name\":\"embeddingChunks\",\"kind\":\"object\",\"type\":\"NoteEmbeddingChunk\",\"relationName\":\"NoteEmbeddingChunkToNoteInfo\"},{\"name\":\"schedules\",\"kind\":\"object\",\"type\":\"NoteSchedule\",\"relationName\":\"NoteInfoToNoteSchedule\"}],\"dbName\":null},\"NoteContent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"versionNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPrimary\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"locale\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"noteInfo\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"NoteContentToNoteInfo\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"NoteContentRevision\",\"relationName\":\"NoteContentToNoteContentRevision\"},{\"name\":\"schedules\",\"kind\":\"object\",\"type\":\"NoteSchedule\",\"relationName\":\"NoteContentToNoteSchedule\"}],\"dbName\":null},\"NoteContentRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteContentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"noteContent\",\"kind\":\"object\",\"type\":\"NoteContent\",\"relationName\":\"NoteContentToNoteContentRevision\"}],\"dbName\":null},\"NoteSchedule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteContentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"executedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"noteInfo\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"NoteInfoToNoteSchedule\"},{\"name\":\"noteContent\",\"kind\":\"object\",\"type\":\"NoteContent\",\"relationName\":\"NoteContentToNoteSchedule\"}],\"dbName\":null},\"NoteSearchIndex\":{\"fields\":[{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteContentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"noteInfo\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"NoteInfoToNoteSearchIndex\"}],\"dbName\":null},\"NoteEmbeddingChunk\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteInfoId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"noteContentId\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"chunkIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"heading\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"noteInfo\",\"kind\":\"object\",\"type\":\"NoteInfo\",\"relationName\":\"NoteEmbeddingChunkToNoteInfo\"}],\"dbName\":null},\"FileManagement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"original_name\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_name\"},{\"name\":\"filePath\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_path\"},{\"name\":\"fileSize\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"file_size\"},{\"name\":\"businessType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"business_type\"},{\"name\":\"storageDriver\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"storage_driver\"},{\"name\":\"sha256\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createTime\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"create_time\"},{\"name\":\"references\",\"kind\":\"object\",\"type\":\"FileReference\",\"relationName\":\"FileManagementToFileReference\"}],\"dbName\":\"file_management\"},\"FileReference\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"file_id\"},{\"name\":\"refType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"ref_type\"},{\"name\":\"refId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"ref_id\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"file\",\"kind\":\"object\",\"type\":\"FileManagement\",\"relationName\":\"FileManagementToFileReference\"}],\"dbName\":\"file_reference\"},\"SystemConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"configKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"config_key\"},{\"name\":\"configValue\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"config_value\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"system_config\"},\"MerkleTree\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"treeAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tree_address\"},{\"name\":\"treeAuthority\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tree_authority\"},{\"name\":\"encryptedKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"encrypted_key\"},{\"name\":\"creatorAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"creator_address\"},{\"name\":\"maxDepth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_depth\"},{\"name\":\"maxBufferSize\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_buffer_size\"},{\"name\":\"canopyDepth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"canopy_depth\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalMinted\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"total_minted\"},{\"name\":\"maxCapacity\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"max_capacity\"},{\"name\":\"creationCost\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"creation_cost\"},{\"name\":\"txSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tx_signature\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_deleted\"},{\"name\":\"cnfts\",\"kind\":\"object\",\"type\":\"CompressedNft\",\"relationName\":\"CompressedNftToMerkleTree\"}],\"dbName\":\"merkle_tree\"},\"SolanaSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"encryptedKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"encrypted_key\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"}],\"dbName\":\"solana_session\"},\"CompressedNft\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"merkleTreeId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"merkle_tree_id\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"assetId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"asset_id\"},{\"name\":\"leafIndex\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"leaf_index\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadataUri\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_uri\"},{\"name\":\"imageCid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"image_cid\"},{\"name\":\"metadataCid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_cid\"},{\"name\":\"originalImageId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"original_image_id\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"owner_address\"},{\"name\":\"delegateAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"delegate_address\"},{\"name\":\"mintTxSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"mint_tx_signature\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownerSyncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"owner_synced_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"merkleTree\",\"kind\":\"object\",\"type\":\"MerkleTree\",\"relationName\":\"CompressedNftToMerkleTree\"},{\"name\":\"transfers\",\"kind\":\"object\",\"type\":\"CnftTransfer\",\"relationName\":\"CnftTransferToCompressedNft\"}],\"dbName\":\"compressed_nft\"},\"CnftMintJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadataUri\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_uri\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"CnftMintJobItem\",\"relationName\":\"CnftMintJobToCnftMintJobItem\"}],\"dbName\":\"cnft_mint_job\"},\"CnftMintJobItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"jobId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"job_id\"},{\"name\":\"rowNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"row_number\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"owner_address\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cnftId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"cnft_id\"},{\"name\":\"txSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tx_signature\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"error_message\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"CnftMintJob\",\"relationName\":\"CnftMintJobToCnftMintJobItem\"}],\"dbName\":\"cnft_mint_job_item\"},\"CnftTransfer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"cnftId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"cnft_id\"},{\"name\":\"event\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"from_address\"},{\"name\":\"toAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_address\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tx_signature\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"cnft\",\"kind\":\"object\",\"type\":\"CompressedNft\",\"relationName\":\"CnftTransferToCompressedNft\"}],\"dbName\":\"cnft_transfer\"},\"ProjectSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceLamports\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"price_lamports\"},{\"name\":\"receiverAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"receiver_address\"},{\"name\":\"supplyCap\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"supply_cap\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadataUri\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"metadata_uri\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"purchases\",\"kind\":\"object\",\"type\":\"CnftPurchase\",\"relationName\":\"CnftPurchaseToProjectSale\"}],\"dbName\":\"project_sale\"},\"CnftPurchase\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"saleId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"sale_id\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"buyerAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"buyer_address\"},{\"name\":\"cnftId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"cnft_id\"},{\"name\":\"priceLamports\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"price_lamports\"},{\"name\":\"receiverAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"receiver_address\"},{\"name\":\"txSignature\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tx_signature\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"error_message\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"sale\",\"kind\":\"object\",\"type\":\"ProjectSale\",\"relationName\":\"CnftPurchaseToProjectSale\"}],\"dbName\":\"cnft_purchase\"},\"AccessGrant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"project_id\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"wallet_address\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"grantType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"grant_type\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"starts_at\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"revoked_at\"},{\"name\":\"revokeReason\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"revoke_reason\"},{\"name\":\"issuedById\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"issued_by_id\"},{\"name\":\"issuedByName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"issued_by_name\"},{\"name\":\"revokedById\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"revoked_by_id\"},{\"name\":\"revokedByName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"revoked_by_name\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"AccessGrantLog\",\"relationName\":\"AccessGrantToAccessGrantLog\"}],\"dbName\":\"access_grant\"},\"AccessGrantLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"BigInt\"},{\"name\":\"grantId\",\"kind\":\"scalar\",\"type\":\"BigInt\",\"dbName\":\"grant_id\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"user_id\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"grant\",\"kind\":\"object\",\"type\":\"AccessGrant\",\"relationName\":\"AccessGrantToAccessGrantLog\"}],\"dbName\":\"access_grant_log\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -194,6 +194,26 @@ export interface PrismaClient<
     */
   get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.readerSession`: Exposes CRUD operations for the **ReaderSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReaderSessions
+    * const readerSessions = await prisma.readerSession.findMany()
+    * ```
+    */
+  get readerSession(): Prisma.ReaderSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.readerNonce`: Exposes CRUD operations for the **ReaderNonce** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReaderNonces
+    * const readerNonces = await prisma.readerNonce.findMany()
+    * ```
+    */
+  get readerNonce(): Prisma.ReaderNonceDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.project`: Exposes CRUD operations for the **Project** model.
     * Example usage:
@@ -224,6 +244,16 @@ export interface PrismaClient<
     */
   get projectHome(): Prisma.ProjectHomeDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.projectHomeTranslation`: Exposes CRUD operations for the **ProjectHomeTranslation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectHomeTranslations
+    * const projectHomeTranslations = await prisma.projectHomeTranslation.findMany()
+    * ```
+    */
+  get projectHomeTranslation(): Prisma.ProjectHomeTranslationDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.projectVersion`: Exposes CRUD operations for the **ProjectVersion** model.
     * Example usage:
@@ -234,6 +264,16 @@ export interface PrismaClient<
     */
   get projectVersion(): Prisma.ProjectVersionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.slugRedirect`: Exposes CRUD operations for the **SlugRedirect** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SlugRedirects
+    * const slugRedirects = await prisma.slugRedirect.findMany()
+    * ```
+    */
+  get slugRedirect(): Prisma.SlugRedirectDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.category`: Exposes CRUD operations for the **Category** model.
     * Example usage:
@@ -264,6 +304,46 @@ export interface PrismaClient<
     */
   get noteContent(): Prisma.NoteContentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.noteContentRevision`: Exposes CRUD operations for the **NoteContentRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NoteContentRevisions
+    * const noteContentRevisions = await prisma.noteContentRevision.findMany()
+    * ```
+    */
+  get noteContentRevision(): Prisma.NoteContentRevisionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.noteSchedule`: Exposes CRUD operations for the **NoteSchedule** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NoteSchedules
+    * const noteSchedules = await prisma.noteSchedule.findMany()
+    * ```
+    */
+  get noteSchedule(): Prisma.NoteScheduleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.noteSearchIndex`: Exposes CRUD operations for the **NoteSearchIndex** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NoteSearchIndices
+    * const noteSearchIndices = await prisma.noteSearchIndex.findMany()
+    * ```
+    */
+  get noteSearchIndex(): Prisma.NoteSearchIndexDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.noteEmbeddingChunk`: Exposes CRUD operations for the **NoteEmbeddingChunk** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NoteEmbeddingChunks
+    * const noteEmbeddingChunks = await prisma.noteEmbeddingChunk.findMany()
+    * ```
+    */
+  get noteEmbeddingChunk(): Prisma.NoteEmbeddingChunkDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.fileManagement`: Exposes CRUD operations for the **FileManagement** model.
     * Example usage:
@@ -274,6 +354,16 @@ export interface PrismaClient<
     */
   get fileManagement(): Prisma.FileManagementDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.fileReference`: Exposes CRUD operations for the **FileReference** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more FileReferences
+    * const fileReferences = await prisma.fileReference.findMany()
+    * ```
+    */
+  get fileReference(): Prisma.FileReferenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.systemConfig`: Exposes CRUD operations for the **SystemConfig** model.
     * Example usage:
@@ -294,6 +384,16 @@ export interface PrismaClient<
     */
   get merkleTree(): Prisma.MerkleTreeDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.solanaSession`: Exposes CRUD operations for the **SolanaSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SolanaSessions
+    * const solanaSessions = await prisma.solanaSession.findMany()
+    * ```
+    */
+  get solanaSession(): Prisma.SolanaSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.compressedNft`: Exposes CRUD operations for the **CompressedNft** model.
     * Example usage:
@@ -303,6 +403,76 @@ export interface PrismaClient<
     * ```
     */
   get compressedNft(): Prisma.CompressedNftDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cnftMintJob`: Exposes CRUD operations for the **CnftMintJob** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CnftMintJobs
+    * const cnftMintJobs = await prisma.cnftMintJob.findMany()
+    * ```
+    */
+  get cnftMintJob(): Prisma.CnftMintJobDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cnftMintJobItem`: Exposes CRUD operations for the **CnftMintJobItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CnftMintJobItems
+    * const cnftMintJobItems = await prisma.cnftMintJobItem.findMany()
+    * ```
+    */
+  get cnftMintJobItem(): Prisma.CnftMintJobItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cnftTransfer`: Exposes CRUD operations for the **CnftTransfer** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CnftTransfers
+    * const cnftTransfers = await prisma.cnftTransfer.findMany()
+    * ```
+    */
+  get cnftTransfer(): Prisma.CnftTransferDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.projectSale`: Exposes CRUD operations for the **ProjectSale** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectSales
+    * const projectSales = await prisma.projectSale.findMany()
+    * ```
+    */
+  get projectSale(): Prisma.ProjectSaleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cnftPurchase`: Exposes CRUD operations for the **CnftPurchase** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CnftPurchases
+    * const cnftPurchases = await prisma.cnftPurchase.findMany()
+    * ```
+    */
+  get cnftPurchase(): Prisma.CnftPurchaseDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.accessGrant`: Exposes CRUD operations for the **AccessGrant** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AccessGrants
+    * const accessGrants = await prisma.accessGrant.findMany()
+    * ```
+    */
+  get accessGrant(): Prisma.AccessGrantDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.accessGrantLog`: Exposes CRUD operations for the **AccessGrantLog** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AccessGrantLogs
+    * const accessGrantLogs = await prisma.accessGrantLog.findMany()
+    * ```
+    */
+  get accessGrantLog(): Prisma.AccessGrantLogDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
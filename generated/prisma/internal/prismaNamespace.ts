@@ -386,17 +386,34 @@ type FieldRefInputType<Model, FieldType> = Model extends never ? never : FieldRe
 export const ModelName = {
   Session: 'Session',
   User: 'User',
+  ReaderSession: 'ReaderSession',
+  ReaderNonce: 'ReaderNonce',
   Project: 'Project',
   ProjectMenu: 'ProjectMenu',
   ProjectHome: 'ProjectHome',
+  ProjectHomeTranslation: 'ProjectHomeTranslation',
   ProjectVersion: 'ProjectVersion',
+  SlugRedirect: 'SlugRedirect',
   Category: 'Category',
   NoteInfo: 'NoteInfo',
   NoteContent: 'NoteContent',
+  NoteContentRevision: 'NoteContentRevision',
+  NoteSchedule: 'NoteSchedule',
+  NoteSearchIndex: 'NoteSearchIndex',
+  NoteEmbeddingChunk: 'NoteEmbeddingChunk',
   FileManagement: 'FileManagement',
+  FileReference: 'FileReference',
   SystemConfig: 'SystemConfig',
   MerkleTree: 'MerkleTree',
-  CompressedNft: 'CompressedNft'
+  SolanaSession: 'SolanaSession',
+  CompressedNft: 'CompressedNft',
+  CnftMintJob: 'CnftMintJob',
+  CnftMintJobItem: 'CnftMintJobItem',
+  CnftTransfer: 'CnftTransfer',
+  ProjectSale: 'ProjectSale',
+  CnftPurchase: 'CnftPurchase',
+  AccessGrant: 'AccessGrant',
+  AccessGrantLog: 'AccessGrantLog'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -412,7 +429,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "session" | "user" | "project" | "projectMenu" | "projectHome" | "projectVersion" | "category" | "noteInfo" | "noteContent" | "fileManagement" | "systemConfig" | "merkleTree" | "compressedNft"
+    modelProps: "session" | "user" | "readerSession" | "readerNonce" | "project" | "projectMenu" | "projectHome" | "projectHomeTranslation" | "projectVersion" | "slugRedirect" | "category" | "noteInfo" | "noteContent" | "noteContentRevision" | "noteSchedule" | "noteSearchIndex" | "noteEmbeddingChunk" | "fileManagement" | "fileReference" | "systemConfig" | "merkleTree" | "solanaSession" | "compressedNft" | "cnftMintJob" | "cnftMintJobItem" | "cnftTransfer" | "projectSale" | "cnftPurchase" | "accessGrant" | "accessGrantLog"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -564,6 +581,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ReaderSession: {
+      payload: Prisma.$ReaderSessionPayload<ExtArgs>
+      fields: Prisma.ReaderSessionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ReaderSessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ReaderSessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        findFirst: {
+          args: Prisma.ReaderSessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ReaderSessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        findMany: {
+          args: Prisma.ReaderSessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>[]
+        }
+        create: {
+          args: Prisma.ReaderSessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        createMany: {
+          args: Prisma.ReaderSessionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ReaderSessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>[]
+        }
+        delete: {
+          args: Prisma.ReaderSessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        update: {
+          args: Prisma.ReaderSessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ReaderSessionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ReaderSessionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ReaderSessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ReaderSessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderSessionPayload>
+        }
+        aggregate: {
+          args: Prisma.ReaderSessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReaderSession>
+        }
+        groupBy: {
+          args: Prisma.ReaderSessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReaderSessionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ReaderSessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReaderSessionCountAggregateOutputType> | number
+        }
+      }
+    }
+    ReaderNonce: {
+      payload: Prisma.$ReaderNoncePayload<ExtArgs>
+      fields: Prisma.ReaderNonceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ReaderNonceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ReaderNonceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        findFirst: {
+          args: Prisma.ReaderNonceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ReaderNonceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        findMany: {
+          args: Prisma.ReaderNonceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>[]
+        }
+        create: {
+          args: Prisma.ReaderNonceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        createMany: {
+          args: Prisma.ReaderNonceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ReaderNonceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>[]
+        }
+        delete: {
+          args: Prisma.ReaderNonceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        update: {
+          args: Prisma.ReaderNonceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        deleteMany: {
+          args: Prisma.ReaderNonceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ReaderNonceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ReaderNonceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>[]
+        }
+        upsert: {
+          args: Prisma.ReaderNonceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ReaderNoncePayload>
+        }
+        aggregate: {
+          args: Prisma.ReaderNonceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateReaderNonce>
+        }
+        groupBy: {
+          args: Prisma.ReaderNonceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReaderNonceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ReaderNonceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ReaderNonceCountAggregateOutputType> | number
+        }
+      }
+    }
     Project: {
       payload: Prisma.$ProjectPayload<ExtArgs>
       fields: Prisma.ProjectFieldRefs
@@ -786,6 +951,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ProjectHomeTranslation: {
+      payload: Prisma.$ProjectHomeTranslationPayload<ExtArgs>
+      fields: Prisma.ProjectHomeTranslationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProjectHomeTranslationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProjectHomeTranslationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        findFirst: {
+          args: Prisma.ProjectHomeTranslationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProjectHomeTranslationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        findMany: {
+          args: Prisma.ProjectHomeTranslationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>[]
+        }
+        create: {
+          args: Prisma.ProjectHomeTranslationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        createMany: {
+          args: Prisma.ProjectHomeTranslationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProjectHomeTranslationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>[]
+        }
+        delete: {
+          args: Prisma.ProjectHomeTranslationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        update: {
+          args: Prisma.ProjectHomeTranslationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProjectHomeTranslationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProjectHomeTranslationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProjectHomeTranslationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProjectHomeTranslationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectHomeTranslationPayload>
+        }
+        aggregate: {
+          args: Prisma.ProjectHomeTranslationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProjectHomeTranslation>
+        }
+        groupBy: {
+          args: Prisma.ProjectHomeTranslationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectHomeTranslationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProjectHomeTranslationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectHomeTranslationCountAggregateOutputType> | number
+        }
+      }
+    }
     ProjectVersion: {
       payload: Prisma.$ProjectVersionPayload<ExtArgs>
       fields: Prisma.ProjectVersionFieldRefs
@@ -860,6 +1099,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    SlugRedirect: {
+      payload: Prisma.$SlugRedirectPayload<ExtArgs>
+      fields: Prisma.SlugRedirectFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SlugRedirectFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SlugRedirectFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        findFirst: {
+          args: Prisma.SlugRedirectFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SlugRedirectFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        findMany: {
+          args: Prisma.SlugRedirectFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>[]
+        }
+        create: {
+          args: Prisma.SlugRedirectCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        createMany: {
+          args: Prisma.SlugRedirectCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SlugRedirectCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>[]
+        }
+        delete: {
+          args: Prisma.SlugRedirectDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        update: {
+          args: Prisma.SlugRedirectUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        deleteMany: {
+          args: Prisma.SlugRedirectDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SlugRedirectUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SlugRedirectUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>[]
+        }
+        upsert: {
+          args: Prisma.SlugRedirectUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SlugRedirectPayload>
+        }
+        aggregate: {
+          args: Prisma.SlugRedirectAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSlugRedirect>
+        }
+        groupBy: {
+          args: Prisma.SlugRedirectGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SlugRedirectGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SlugRedirectCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SlugRedirectCountAggregateOutputType> | number
+        }
+      }
+    }
     Category: {
       payload: Prisma.$CategoryPayload<ExtArgs>
       fields: Prisma.CategoryFieldRefs
@@ -1082,299 +1395,1229 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    FileManagement: {
-      payload: Prisma.$FileManagementPayload<ExtArgs>
-      fields: Prisma.FileManagementFieldRefs
+    NoteContentRevision: {
+      payload: Prisma.$NoteContentRevisionPayload<ExtArgs>
+      fields: Prisma.NoteContentRevisionFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.FileManagementFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload> | null
+          args: Prisma.NoteContentRevisionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.FileManagementFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         findFirst: {
-          args: Prisma.FileManagementFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload> | null
+          args: Prisma.NoteContentRevisionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.FileManagementFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         findMany: {
-          args: Prisma.FileManagementFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+          args: Prisma.NoteContentRevisionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>[]
         }
         create: {
-          args: Prisma.FileManagementCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         createMany: {
-          args: Prisma.FileManagementCreateManyArgs<ExtArgs>
+          args: Prisma.NoteContentRevisionCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.FileManagementCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+          args: Prisma.NoteContentRevisionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>[]
         }
         delete: {
-          args: Prisma.FileManagementDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         update: {
-          args: Prisma.FileManagementUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         deleteMany: {
-          args: Prisma.FileManagementDeleteManyArgs<ExtArgs>
+          args: Prisma.NoteContentRevisionDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.FileManagementUpdateManyArgs<ExtArgs>
+          args: Prisma.NoteContentRevisionUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.FileManagementUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+          args: Prisma.NoteContentRevisionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>[]
         }
         upsert: {
-          args: Prisma.FileManagementUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+          args: Prisma.NoteContentRevisionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteContentRevisionPayload>
         }
         aggregate: {
-          args: Prisma.FileManagementAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateFileManagement>
+          args: Prisma.NoteContentRevisionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNoteContentRevision>
         }
         groupBy: {
-          args: Prisma.FileManagementGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.FileManagementGroupByOutputType>[]
+          args: Prisma.NoteContentRevisionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteContentRevisionGroupByOutputType>[]
         }
         count: {
-          args: Prisma.FileManagementCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.FileManagementCountAggregateOutputType> | number
+          args: Prisma.NoteContentRevisionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteContentRevisionCountAggregateOutputType> | number
         }
       }
     }
-    SystemConfig: {
-      payload: Prisma.$SystemConfigPayload<ExtArgs>
-      fields: Prisma.SystemConfigFieldRefs
+    NoteSchedule: {
+      payload: Prisma.$NoteSchedulePayload<ExtArgs>
+      fields: Prisma.NoteScheduleFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SystemConfigFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload> | null
+          args: Prisma.NoteScheduleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SystemConfigFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         findFirst: {
-          args: Prisma.SystemConfigFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload> | null
+          args: Prisma.NoteScheduleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SystemConfigFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         findMany: {
-          args: Prisma.SystemConfigFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+          args: Prisma.NoteScheduleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>[]
         }
         create: {
-          args: Prisma.SystemConfigCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         createMany: {
-          args: Prisma.SystemConfigCreateManyArgs<ExtArgs>
+          args: Prisma.NoteScheduleCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SystemConfigCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+          args: Prisma.NoteScheduleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>[]
         }
         delete: {
-          args: Prisma.SystemConfigDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         update: {
-          args: Prisma.SystemConfigUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         deleteMany: {
-          args: Prisma.SystemConfigDeleteManyArgs<ExtArgs>
+          args: Prisma.NoteScheduleDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SystemConfigUpdateManyArgs<ExtArgs>
+          args: Prisma.NoteScheduleUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SystemConfigUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+          args: Prisma.NoteScheduleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>[]
         }
         upsert: {
-          args: Prisma.SystemConfigUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+          args: Prisma.NoteScheduleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSchedulePayload>
         }
         aggregate: {
-          args: Prisma.SystemConfigAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSystemConfig>
+          args: Prisma.NoteScheduleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNoteSchedule>
         }
         groupBy: {
-          args: Prisma.SystemConfigGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SystemConfigGroupByOutputType>[]
+          args: Prisma.NoteScheduleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteScheduleGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SystemConfigCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SystemConfigCountAggregateOutputType> | number
+          args: Prisma.NoteScheduleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteScheduleCountAggregateOutputType> | number
         }
       }
     }
-    MerkleTree: {
-      payload: Prisma.$MerkleTreePayload<ExtArgs>
-      fields: Prisma.MerkleTreeFieldRefs
+    NoteSearchIndex: {
+      payload: Prisma.$NoteSearchIndexPayload<ExtArgs>
+      fields: Prisma.NoteSearchIndexFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.MerkleTreeFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload> | null
+          args: Prisma.NoteSearchIndexFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.MerkleTreeFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+          args: Prisma.NoteSearchIndexFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>
         }
         findFirst: {
-          args: Prisma.MerkleTreeFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload> | null
+          args: Prisma.NoteSearchIndexFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.MerkleTreeFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+          args: Prisma.NoteSearchIndexFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>
         }
         findMany: {
-          args: Prisma.MerkleTreeFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+          args: Prisma.NoteSearchIndexFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>[]
         }
-        create: {
-          args: Prisma.MerkleTreeCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        delete: {
+          args: Prisma.NoteSearchIndexDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>
         }
-        createMany: {
-          args: Prisma.MerkleTreeCreateManyArgs<ExtArgs>
+        update: {
+          args: Prisma.NoteSearchIndexUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>
+        }
+        deleteMany: {
+          args: Prisma.NoteSearchIndexDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
-        createManyAndReturn: {
-          args: Prisma.MerkleTreeCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+        updateMany: {
+          args: Prisma.NoteSearchIndexUpdateManyArgs<ExtArgs>
+          result: BatchPayload
         }
-        delete: {
-          args: Prisma.MerkleTreeDeleteArgs<ExtArgs>
+        updateManyAndReturn: {
+          args: Prisma.NoteSearchIndexUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteSearchIndexPayload>[]
+        }
+        aggregate: {
+          args: Prisma.NoteSearchIndexAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNoteSearchIndex>
+        }
+        groupBy: {
+          args: Prisma.NoteSearchIndexGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteSearchIndexGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.NoteSearchIndexCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteSearchIndexCountAggregateOutputType> | number
+        }
+      }
+    }
+    NoteEmbeddingChunk: {
+      payload: Prisma.$NoteEmbeddingChunkPayload<ExtArgs>
+      fields: Prisma.NoteEmbeddingChunkFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.NoteEmbeddingChunkFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.NoteEmbeddingChunkFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>
+        }
+        findFirst: {
+          args: Prisma.NoteEmbeddingChunkFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.NoteEmbeddingChunkFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>
+        }
+        findMany: {
+          args: Prisma.NoteEmbeddingChunkFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>[]
+        }
+        delete: {
+          args: Prisma.NoteEmbeddingChunkDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>
+        }
+        update: {
+          args: Prisma.NoteEmbeddingChunkUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>
+        }
+        deleteMany: {
+          args: Prisma.NoteEmbeddingChunkDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.NoteEmbeddingChunkUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.NoteEmbeddingChunkUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NoteEmbeddingChunkPayload>[]
+        }
+        aggregate: {
+          args: Prisma.NoteEmbeddingChunkAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNoteEmbeddingChunk>
+        }
+        groupBy: {
+          args: Prisma.NoteEmbeddingChunkGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteEmbeddingChunkGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.NoteEmbeddingChunkCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NoteEmbeddingChunkCountAggregateOutputType> | number
+        }
+      }
+    }
+    FileManagement: {
+      payload: Prisma.$FileManagementPayload<ExtArgs>
+      fields: Prisma.FileManagementFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.FileManagementFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.FileManagementFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        findFirst: {
+          args: Prisma.FileManagementFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.FileManagementFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        findMany: {
+          args: Prisma.FileManagementFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+        }
+        create: {
+          args: Prisma.FileManagementCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        createMany: {
+          args: Prisma.FileManagementCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.FileManagementCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+        }
+        delete: {
+          args: Prisma.FileManagementDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        update: {
+          args: Prisma.FileManagementUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        deleteMany: {
+          args: Prisma.FileManagementDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.FileManagementUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.FileManagementUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>[]
+        }
+        upsert: {
+          args: Prisma.FileManagementUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileManagementPayload>
+        }
+        aggregate: {
+          args: Prisma.FileManagementAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFileManagement>
+        }
+        groupBy: {
+          args: Prisma.FileManagementGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FileManagementGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.FileManagementCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FileManagementCountAggregateOutputType> | number
+        }
+      }
+    }
+    FileReference: {
+      payload: Prisma.$FileReferencePayload<ExtArgs>
+      fields: Prisma.FileReferenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.FileReferenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.FileReferenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        findFirst: {
+          args: Prisma.FileReferenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.FileReferenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        findMany: {
+          args: Prisma.FileReferenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>[]
+        }
+        create: {
+          args: Prisma.FileReferenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        createMany: {
+          args: Prisma.FileReferenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.FileReferenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>[]
+        }
+        delete: {
+          args: Prisma.FileReferenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        update: {
+          args: Prisma.FileReferenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        deleteMany: {
+          args: Prisma.FileReferenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.FileReferenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.FileReferenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>[]
+        }
+        upsert: {
+          args: Prisma.FileReferenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$FileReferencePayload>
+        }
+        aggregate: {
+          args: Prisma.FileReferenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateFileReference>
+        }
+        groupBy: {
+          args: Prisma.FileReferenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FileReferenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.FileReferenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.FileReferenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    SystemConfig: {
+      payload: Prisma.$SystemConfigPayload<ExtArgs>
+      fields: Prisma.SystemConfigFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SystemConfigFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SystemConfigFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        findFirst: {
+          args: Prisma.SystemConfigFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SystemConfigFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        findMany: {
+          args: Prisma.SystemConfigFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+        }
+        create: {
+          args: Prisma.SystemConfigCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        createMany: {
+          args: Prisma.SystemConfigCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SystemConfigCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+        }
+        delete: {
+          args: Prisma.SystemConfigDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        update: {
+          args: Prisma.SystemConfigUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        deleteMany: {
+          args: Prisma.SystemConfigDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SystemConfigUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SystemConfigUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>[]
+        }
+        upsert: {
+          args: Prisma.SystemConfigUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SystemConfigPayload>
+        }
+        aggregate: {
+          args: Prisma.SystemConfigAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSystemConfig>
+        }
+        groupBy: {
+          args: Prisma.SystemConfigGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SystemConfigGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SystemConfigCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SystemConfigCountAggregateOutputType> | number
+        }
+      }
+    }
+    MerkleTree: {
+      payload: Prisma.$MerkleTreePayload<ExtArgs>
+      fields: Prisma.MerkleTreeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.MerkleTreeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.MerkleTreeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        }
+        findFirst: {
+          args: Prisma.MerkleTreeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.MerkleTreeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        }
+        findMany: {
+          args: Prisma.MerkleTreeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+        }
+        create: {
+          args: Prisma.MerkleTreeCreateArgs<ExtArgs>
           result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
         }
+        createMany: {
+          args: Prisma.MerkleTreeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.MerkleTreeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+        }
+        delete: {
+          args: Prisma.MerkleTreeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        }
+        update: {
+          args: Prisma.MerkleTreeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        }
+        deleteMany: {
+          args: Prisma.MerkleTreeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.MerkleTreeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.MerkleTreeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+        }
+        upsert: {
+          args: Prisma.MerkleTreeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+        }
+        aggregate: {
+          args: Prisma.MerkleTreeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateMerkleTree>
+        }
+        groupBy: {
+          args: Prisma.MerkleTreeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MerkleTreeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.MerkleTreeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.MerkleTreeCountAggregateOutputType> | number
+        }
+      }
+    }
+    SolanaSession: {
+      payload: Prisma.$SolanaSessionPayload<ExtArgs>
+      fields: Prisma.SolanaSessionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SolanaSessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SolanaSessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        findFirst: {
+          args: Prisma.SolanaSessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SolanaSessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        findMany: {
+          args: Prisma.SolanaSessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>[]
+        }
+        create: {
+          args: Prisma.SolanaSessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        createMany: {
+          args: Prisma.SolanaSessionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SolanaSessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>[]
+        }
+        delete: {
+          args: Prisma.SolanaSessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        update: {
+          args: Prisma.SolanaSessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        deleteMany: {
+          args: Prisma.SolanaSessionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SolanaSessionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SolanaSessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>[]
+        }
+        upsert: {
+          args: Prisma.SolanaSessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SolanaSessionPayload>
+        }
+        aggregate: {
+          args: Prisma.SolanaSessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSolanaSession>
+        }
+        groupBy: {
+          args: Prisma.SolanaSessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SolanaSessionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SolanaSessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SolanaSessionCountAggregateOutputType> | number
+        }
+      }
+    }
+    CompressedNft: {
+      payload: Prisma.$CompressedNftPayload<ExtArgs>
+      fields: Prisma.CompressedNftFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CompressedNftFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CompressedNftFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        findFirst: {
+          args: Prisma.CompressedNftFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CompressedNftFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        findMany: {
+          args: Prisma.CompressedNftFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+        }
+        create: {
+          args: Prisma.CompressedNftCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        createMany: {
+          args: Prisma.CompressedNftCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CompressedNftCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+        }
+        delete: {
+          args: Prisma.CompressedNftDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        update: {
+          args: Prisma.CompressedNftUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        deleteMany: {
+          args: Prisma.CompressedNftDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CompressedNftUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CompressedNftUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+        }
+        upsert: {
+          args: Prisma.CompressedNftUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+        }
+        aggregate: {
+          args: Prisma.CompressedNftAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCompressedNft>
+        }
+        groupBy: {
+          args: Prisma.CompressedNftGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CompressedNftGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CompressedNftCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CompressedNftCountAggregateOutputType> | number
+        }
+      }
+    }
+    CnftMintJob: {
+      payload: Prisma.$CnftMintJobPayload<ExtArgs>
+      fields: Prisma.CnftMintJobFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CnftMintJobFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CnftMintJobFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        findFirst: {
+          args: Prisma.CnftMintJobFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CnftMintJobFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        findMany: {
+          args: Prisma.CnftMintJobFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>[]
+        }
+        create: {
+          args: Prisma.CnftMintJobCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        createMany: {
+          args: Prisma.CnftMintJobCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CnftMintJobCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>[]
+        }
+        delete: {
+          args: Prisma.CnftMintJobDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        update: {
+          args: Prisma.CnftMintJobUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        deleteMany: {
+          args: Prisma.CnftMintJobDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CnftMintJobUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CnftMintJobUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>[]
+        }
+        upsert: {
+          args: Prisma.CnftMintJobUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobPayload>
+        }
+        aggregate: {
+          args: Prisma.CnftMintJobAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCnftMintJob>
+        }
+        groupBy: {
+          args: Prisma.CnftMintJobGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftMintJobGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CnftMintJobCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftMintJobCountAggregateOutputType> | number
+        }
+      }
+    }
+    CnftMintJobItem: {
+      payload: Prisma.$CnftMintJobItemPayload<ExtArgs>
+      fields: Prisma.CnftMintJobItemFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CnftMintJobItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CnftMintJobItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        findFirst: {
+          args: Prisma.CnftMintJobItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CnftMintJobItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        findMany: {
+          args: Prisma.CnftMintJobItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>[]
+        }
+        create: {
+          args: Prisma.CnftMintJobItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        createMany: {
+          args: Prisma.CnftMintJobItemCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CnftMintJobItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>[]
+        }
+        delete: {
+          args: Prisma.CnftMintJobItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        update: {
+          args: Prisma.CnftMintJobItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        deleteMany: {
+          args: Prisma.CnftMintJobItemDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CnftMintJobItemUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CnftMintJobItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>[]
+        }
+        upsert: {
+          args: Prisma.CnftMintJobItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftMintJobItemPayload>
+        }
+        aggregate: {
+          args: Prisma.CnftMintJobItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCnftMintJobItem>
+        }
+        groupBy: {
+          args: Prisma.CnftMintJobItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftMintJobItemGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CnftMintJobItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftMintJobItemCountAggregateOutputType> | number
+        }
+      }
+    }
+    CnftTransfer: {
+      payload: Prisma.$CnftTransferPayload<ExtArgs>
+      fields: Prisma.CnftTransferFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CnftTransferFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CnftTransferFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        findFirst: {
+          args: Prisma.CnftTransferFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CnftTransferFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        findMany: {
+          args: Prisma.CnftTransferFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>[]
+        }
+        create: {
+          args: Prisma.CnftTransferCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        createMany: {
+          args: Prisma.CnftTransferCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CnftTransferCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>[]
+        }
+        delete: {
+          args: Prisma.CnftTransferDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        update: {
+          args: Prisma.CnftTransferUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        deleteMany: {
+          args: Prisma.CnftTransferDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CnftTransferUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CnftTransferUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>[]
+        }
+        upsert: {
+          args: Prisma.CnftTransferUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftTransferPayload>
+        }
+        aggregate: {
+          args: Prisma.CnftTransferAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCnftTransfer>
+        }
+        groupBy: {
+          args: Prisma.CnftTransferGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftTransferGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CnftTransferCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftTransferCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProjectSale: {
+      payload: Prisma.$ProjectSalePayload<ExtArgs>
+      fields: Prisma.ProjectSaleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProjectSaleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProjectSaleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        findFirst: {
+          args: Prisma.ProjectSaleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProjectSaleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        findMany: {
+          args: Prisma.ProjectSaleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>[]
+        }
+        create: {
+          args: Prisma.ProjectSaleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        createMany: {
+          args: Prisma.ProjectSaleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProjectSaleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>[]
+        }
+        delete: {
+          args: Prisma.ProjectSaleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        update: {
+          args: Prisma.ProjectSaleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        deleteMany: {
+          args: Prisma.ProjectSaleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProjectSaleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProjectSaleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>[]
+        }
+        upsert: {
+          args: Prisma.ProjectSaleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProjectSalePayload>
+        }
+        aggregate: {
+          args: Prisma.ProjectSaleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProjectSale>
+        }
+        groupBy: {
+          args: Prisma.ProjectSaleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectSaleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProjectSaleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProjectSaleCountAggregateOutputType> | number
+        }
+      }
+    }
+    CnftPurchase: {
+      payload: Prisma.$CnftPurchasePayload<ExtArgs>
+      fields: Prisma.CnftPurchaseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CnftPurchaseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CnftPurchaseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
+        }
+        findFirst: {
+          args: Prisma.CnftPurchaseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CnftPurchaseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
+        }
+        findMany: {
+          args: Prisma.CnftPurchaseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>[]
+        }
+        create: {
+          args: Prisma.CnftPurchaseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
+        }
+        createMany: {
+          args: Prisma.CnftPurchaseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CnftPurchaseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>[]
+        }
+        delete: {
+          args: Prisma.CnftPurchaseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
+        }
         update: {
-          args: Prisma.MerkleTreeUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+          args: Prisma.CnftPurchaseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
         }
         deleteMany: {
-          args: Prisma.MerkleTreeDeleteManyArgs<ExtArgs>
+          args: Prisma.CnftPurchaseDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.MerkleTreeUpdateManyArgs<ExtArgs>
+          args: Prisma.CnftPurchaseUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.MerkleTreeUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>[]
+          args: Prisma.CnftPurchaseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>[]
         }
         upsert: {
-          args: Prisma.MerkleTreeUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MerkleTreePayload>
+          args: Prisma.CnftPurchaseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CnftPurchasePayload>
         }
         aggregate: {
-          args: Prisma.MerkleTreeAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateMerkleTree>
+          args: Prisma.CnftPurchaseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCnftPurchase>
         }
         groupBy: {
-          args: Prisma.MerkleTreeGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.MerkleTreeGroupByOutputType>[]
+          args: Prisma.CnftPurchaseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftPurchaseGroupByOutputType>[]
         }
         count: {
-          args: Prisma.MerkleTreeCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.MerkleTreeCountAggregateOutputType> | number
+          args: Prisma.CnftPurchaseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CnftPurchaseCountAggregateOutputType> | number
         }
       }
     }
-    CompressedNft: {
-      payload: Prisma.$CompressedNftPayload<ExtArgs>
-      fields: Prisma.CompressedNftFieldRefs
+    AccessGrant: {
+      payload: Prisma.$AccessGrantPayload<ExtArgs>
+      fields: Prisma.AccessGrantFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.CompressedNftFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload> | null
+          args: Prisma.AccessGrantFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.CompressedNftFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         findFirst: {
-          args: Prisma.CompressedNftFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload> | null
+          args: Prisma.AccessGrantFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.CompressedNftFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         findMany: {
-          args: Prisma.CompressedNftFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+          args: Prisma.AccessGrantFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>[]
         }
         create: {
-          args: Prisma.CompressedNftCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         createMany: {
-          args: Prisma.CompressedNftCreateManyArgs<ExtArgs>
+          args: Prisma.AccessGrantCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.CompressedNftCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+          args: Prisma.AccessGrantCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>[]
         }
         delete: {
-          args: Prisma.CompressedNftDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         update: {
-          args: Prisma.CompressedNftUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         deleteMany: {
-          args: Prisma.CompressedNftDeleteManyArgs<ExtArgs>
+          args: Prisma.AccessGrantDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.CompressedNftUpdateManyArgs<ExtArgs>
+          args: Prisma.AccessGrantUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.CompressedNftUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>[]
+          args: Prisma.AccessGrantUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>[]
         }
         upsert: {
-          args: Prisma.CompressedNftUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$CompressedNftPayload>
+          args: Prisma.AccessGrantUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantPayload>
         }
         aggregate: {
-          args: Prisma.CompressedNftAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateCompressedNft>
+          args: Prisma.AccessGrantAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAccessGrant>
         }
         groupBy: {
-          args: Prisma.CompressedNftGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CompressedNftGroupByOutputType>[]
+          args: Prisma.AccessGrantGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AccessGrantGroupByOutputType>[]
         }
         count: {
-          args: Prisma.CompressedNftCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.CompressedNftCountAggregateOutputType> | number
+          args: Prisma.AccessGrantCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AccessGrantCountAggregateOutputType> | number
+        }
+      }
+    }
+    AccessGrantLog: {
+      payload: Prisma.$AccessGrantLogPayload<ExtArgs>
+      fields: Prisma.AccessGrantLogFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AccessGrantLogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AccessGrantLogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        findFirst: {
+          args: Prisma.AccessGrantLogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AccessGrantLogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        findMany: {
+          args: Prisma.AccessGrantLogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>[]
+        }
+        create: {
+          args: Prisma.AccessGrantLogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        createMany: {
+          args: Prisma.AccessGrantLogCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AccessGrantLogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>[]
+        }
+        delete: {
+          args: Prisma.AccessGrantLogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        update: {
+          args: Prisma.AccessGrantLogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        deleteMany: {
+          args: Prisma.AccessGrantLogDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AccessGrantLogUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AccessGrantLogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>[]
+        }
+        upsert: {
+          args: Prisma.AccessGrantLogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AccessGrantLogPayload>
+        }
+        aggregate: {
+          args: Prisma.AccessGrantLogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAccessGrantLog>
+        }
+        groupBy: {
+          args: Prisma.AccessGrantLogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AccessGrantLogGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AccessGrantLogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AccessGrantLogCountAggregateOutputType> | number
         }
       }
     }
@@ -1443,13 +2686,46 @@ export const UserScalarFieldEnum = {
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
 
 
+export const ReaderSessionScalarFieldEnum = {
+  id: 'id',
+  walletAddress: 'walletAddress',
+  tokenHash: 'tokenHash',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  ip: 'ip',
+  userAgent: 'userAgent'
+} as const
+
+export type ReaderSessionScalarFieldEnum = (typeof ReaderSessionScalarFieldEnum)[keyof typeof ReaderSessionScalarFieldEnum]
+
+
+export const ReaderNonceScalarFieldEnum = {
+  id: 'id',
+  walletAddress: 'walletAddress',
+  nonce: 'nonce',
+  message: 'message',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt'
+} as const
+
+export type ReaderNonceScalarFieldEnum = (typeof ReaderNonceScalarFieldEnum)[keyof typeof ReaderNonceScalarFieldEnum]
+
+
 export const ProjectScalarFieldEnum = {
   id: 'id',
   projectName: 'projectName',
+  slug: 'slug',
   avatar: 'avatar',
   weight: 'weight',
   status: 'status',
   requireAuth: 'requireAuth',
+  seoTitle: 'seoTitle',
+  seoDescription: 'seoDescription',
+  seoKeywords: 'seoKeywords',
+  canonicalUrl: 'canonicalUrl',
+  ogImage: 'ogImage',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -1463,6 +2739,7 @@ export const ProjectMenuScalarFieldEnum = {
   projectId: 'projectId',
   parentId: 'parentId',
   label: 'label',
+  labelTranslations: 'labelTranslations',
   url: 'url',
   isExternal: 'isExternal',
   weight: 'weight',
@@ -1488,10 +2765,23 @@ export const ProjectHomeScalarFieldEnum = {
 export type ProjectHomeScalarFieldEnum = (typeof ProjectHomeScalarFieldEnum)[keyof typeof ProjectHomeScalarFieldEnum]
 
 
+export const ProjectHomeTranslationScalarFieldEnum = {
+  id: 'id',
+  projectHomeId: 'projectHomeId',
+  locale: 'locale',
+  content: 'content',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectHomeTranslationScalarFieldEnum = (typeof ProjectHomeTranslationScalarFieldEnum)[keyof typeof ProjectHomeTranslationScalarFieldEnum]
+
+
 export const ProjectVersionScalarFieldEnum = {
   id: 'id',
   projectId: 'projectId',
   version: 'version',
+  slug: 'slug',
   description: 'description',
   weight: 'weight',
   status: 'status',
@@ -1503,12 +2793,26 @@ export const ProjectVersionScalarFieldEnum = {
 export type ProjectVersionScalarFieldEnum = (typeof ProjectVersionScalarFieldEnum)[keyof typeof ProjectVersionScalarFieldEnum]
 
 
+export const SlugRedirectScalarFieldEnum = {
+  id: 'id',
+  entityType: 'entityType',
+  scopeId: 'scopeId',
+  oldSlug: 'oldSlug',
+  targetId: 'targetId',
+  createdAt: 'createdAt'
+} as const
+
+export type SlugRedirectScalarFieldEnum = (typeof SlugRedirectScalarFieldEnum)[keyof typeof SlugRedirectScalarFieldEnum]
+
+
 export const CategoryScalarFieldEnum = {
   id: 'id',
   projectVersionId: 'projectVersionId',
   categoryName: 'categoryName',
   weight: 'weight',
   status: 'status',
+  accessLevel: 'accessLevel',
+  nameTranslations: 'nameTranslations',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -1521,8 +2825,15 @@ export const NoteInfoScalarFieldEnum = {
   id: 'id',
   categoryId: 'categoryId',
   noteTitle: 'noteTitle',
+  slug: 'slug',
   weight: 'weight',
   status: 'status',
+  accessLevel: 'accessLevel',
+  seoTitle: 'seoTitle',
+  seoDescription: 'seoDescription',
+  seoKeywords: 'seoKeywords',
+  canonicalUrl: 'canonicalUrl',
+  ogImage: 'ogImage',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -1537,6 +2848,8 @@ export const NoteContentScalarFieldEnum = {
   content: 'content',
   versionNote: 'versionNote',
   isPrimary: 'isPrimary',
+  locale: 'locale',
+  title: 'title',
   status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
@@ -1546,6 +2859,64 @@ export const NoteContentScalarFieldEnum = {
 export type NoteContentScalarFieldEnum = (typeof NoteContentScalarFieldEnum)[keyof typeof NoteContentScalarFieldEnum]
 
 
+export const NoteContentRevisionScalarFieldEnum = {
+  id: 'id',
+  noteContentId: 'noteContentId',
+  noteInfoId: 'noteInfoId',
+  content: 'content',
+  contentHash: 'contentHash',
+  action: 'action',
+  userId: 'userId',
+  username: 'username',
+  createdAt: 'createdAt'
+} as const
+
+export type NoteContentRevisionScalarFieldEnum = (typeof NoteContentRevisionScalarFieldEnum)[keyof typeof NoteContentRevisionScalarFieldEnum]
+
+
+export const NoteScheduleScalarFieldEnum = {
+  id: 'id',
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  action: 'action',
+  runAt: 'runAt',
+  status: 'status',
+  error: 'error',
+  userId: 'userId',
+  username: 'username',
+  executedAt: 'executedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type NoteScheduleScalarFieldEnum = (typeof NoteScheduleScalarFieldEnum)[keyof typeof NoteScheduleScalarFieldEnum]
+
+
+export const NoteSearchIndexScalarFieldEnum = {
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  title: 'title',
+  body: 'body',
+  updatedAt: 'updatedAt'
+} as const
+
+export type NoteSearchIndexScalarFieldEnum = (typeof NoteSearchIndexScalarFieldEnum)[keyof typeof NoteSearchIndexScalarFieldEnum]
+
+
+export const NoteEmbeddingChunkScalarFieldEnum = {
+  id: 'id',
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  chunkIndex: 'chunkIndex',
+  heading: 'heading',
+  content: 'content',
+  provider: 'provider',
+  createdAt: 'createdAt'
+} as const
+
+export type NoteEmbeddingChunkScalarFieldEnum = (typeof NoteEmbeddingChunkScalarFieldEnum)[keyof typeof NoteEmbeddingChunkScalarFieldEnum]
+
+
 export const FileManagementScalarFieldEnum = {
   id: 'id',
   originalName: 'originalName',
@@ -1553,6 +2924,8 @@ export const FileManagementScalarFieldEnum = {
   filePath: 'filePath',
   fileSize: 'fileSize',
   businessType: 'businessType',
+  storageDriver: 'storageDriver',
+  sha256: 'sha256',
   status: 'status',
   createTime: 'createTime'
 } as const
@@ -1560,6 +2933,17 @@ export const FileManagementScalarFieldEnum = {
 export type FileManagementScalarFieldEnum = (typeof FileManagementScalarFieldEnum)[keyof typeof FileManagementScalarFieldEnum]
 
 
+export const FileReferenceScalarFieldEnum = {
+  id: 'id',
+  fileId: 'fileId',
+  refType: 'refType',
+  refId: 'refId',
+  createdAt: 'createdAt'
+} as const
+
+export type FileReferenceScalarFieldEnum = (typeof FileReferenceScalarFieldEnum)[keyof typeof FileReferenceScalarFieldEnum]
+
+
 export const SystemConfigScalarFieldEnum = {
   id: 'id',
   configKey: 'configKey',
@@ -1597,6 +2981,18 @@ export const MerkleTreeScalarFieldEnum = {
 export type MerkleTreeScalarFieldEnum = (typeof MerkleTreeScalarFieldEnum)[keyof typeof MerkleTreeScalarFieldEnum]
 
 
+export const SolanaSessionScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  payload: 'payload',
+  encryptedKey: 'encryptedKey',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+} as const
+
+export type SolanaSessionScalarFieldEnum = (typeof SolanaSessionScalarFieldEnum)[keyof typeof SolanaSessionScalarFieldEnum]
+
+
 export const CompressedNftScalarFieldEnum = {
   id: 'id',
   merkleTreeId: 'merkleTreeId',
@@ -1611,8 +3007,10 @@ export const CompressedNftScalarFieldEnum = {
   metadataCid: 'metadataCid',
   originalImageId: 'originalImageId',
   ownerAddress: 'ownerAddress',
+  delegateAddress: 'delegateAddress',
   mintTxSignature: 'mintTxSignature',
   status: 'status',
+  ownerSyncedAt: 'ownerSyncedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1620,6 +3018,126 @@ export const CompressedNftScalarFieldEnum = {
 export type CompressedNftScalarFieldEnum = (typeof CompressedNftScalarFieldEnum)[keyof typeof CompressedNftScalarFieldEnum]
 
 
+export const CnftMintJobScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  network: 'network',
+  name: 'name',
+  symbol: 'symbol',
+  metadataUri: 'metadataUri',
+  total: 'total',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftMintJobScalarFieldEnum = (typeof CnftMintJobScalarFieldEnum)[keyof typeof CnftMintJobScalarFieldEnum]
+
+
+export const CnftMintJobItemScalarFieldEnum = {
+  id: 'id',
+  jobId: 'jobId',
+  rowNumber: 'rowNumber',
+  ownerAddress: 'ownerAddress',
+  name: 'name',
+  cnftId: 'cnftId',
+  txSignature: 'txSignature',
+  attempts: 'attempts',
+  errorMessage: 'errorMessage',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftMintJobItemScalarFieldEnum = (typeof CnftMintJobItemScalarFieldEnum)[keyof typeof CnftMintJobItemScalarFieldEnum]
+
+
+export const CnftTransferScalarFieldEnum = {
+  id: 'id',
+  cnftId: 'cnftId',
+  event: 'event',
+  fromAddress: 'fromAddress',
+  toAddress: 'toAddress',
+  source: 'source',
+  txSignature: 'txSignature',
+  createdAt: 'createdAt'
+} as const
+
+export type CnftTransferScalarFieldEnum = (typeof CnftTransferScalarFieldEnum)[keyof typeof CnftTransferScalarFieldEnum]
+
+
+export const ProjectSaleScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  network: 'network',
+  priceLamports: 'priceLamports',
+  receiverAddress: 'receiverAddress',
+  supplyCap: 'supplyCap',
+  name: 'name',
+  symbol: 'symbol',
+  metadataUri: 'metadataUri',
+  enabled: 'enabled',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectSaleScalarFieldEnum = (typeof ProjectSaleScalarFieldEnum)[keyof typeof ProjectSaleScalarFieldEnum]
+
+
+export const CnftPurchaseScalarFieldEnum = {
+  id: 'id',
+  saleId: 'saleId',
+  projectId: 'projectId',
+  buyerAddress: 'buyerAddress',
+  cnftId: 'cnftId',
+  priceLamports: 'priceLamports',
+  receiverAddress: 'receiverAddress',
+  txSignature: 'txSignature',
+  errorMessage: 'errorMessage',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftPurchaseScalarFieldEnum = (typeof CnftPurchaseScalarFieldEnum)[keyof typeof CnftPurchaseScalarFieldEnum]
+
+
+export const AccessGrantScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  walletAddress: 'walletAddress',
+  email: 'email',
+  grantType: 'grantType',
+  reason: 'reason',
+  startsAt: 'startsAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokeReason: 'revokeReason',
+  issuedById: 'issuedById',
+  issuedByName: 'issuedByName',
+  revokedById: 'revokedById',
+  revokedByName: 'revokedByName',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AccessGrantScalarFieldEnum = (typeof AccessGrantScalarFieldEnum)[keyof typeof AccessGrantScalarFieldEnum]
+
+
+export const AccessGrantLogScalarFieldEnum = {
+  id: 'id',
+  grantId: 'grantId',
+  action: 'action',
+  changes: 'changes',
+  reason: 'reason',
+  userId: 'userId',
+  username: 'username',
+  createdAt: 'createdAt'
+} as const
+
+export type AccessGrantLogScalarFieldEnum = (typeof AccessGrantLogScalarFieldEnum)[keyof typeof AccessGrantLogScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1628,6 +3146,21 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -1644,6 +3177,15 @@ export const NullsOrder = {
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
 
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
+
 
 /**
  * Field references
@@ -1713,6 +3255,20 @@ export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
     
 
 
+/**
+ * Reference to a field of type 'Json'
+ */
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryMode'
+ */
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+    
+
+
 /**
  * Reference to a field of type 'Float'
  */
@@ -1823,17 +3379,34 @@ export type PrismaClientOptions = ({
 export type GlobalOmitConfig = {
   session?: Prisma.SessionOmit
   user?: Prisma.UserOmit
+  readerSession?: Prisma.ReaderSessionOmit
+  readerNonce?: Prisma.ReaderNonceOmit
   project?: Prisma.ProjectOmit
   projectMenu?: Prisma.ProjectMenuOmit
   projectHome?: Prisma.ProjectHomeOmit
+  projectHomeTranslation?: Prisma.ProjectHomeTranslationOmit
   projectVersion?: Prisma.ProjectVersionOmit
+  slugRedirect?: Prisma.SlugRedirectOmit
   category?: Prisma.CategoryOmit
   noteInfo?: Prisma.NoteInfoOmit
   noteContent?: Prisma.NoteContentOmit
+  noteContentRevision?: Prisma.NoteContentRevisionOmit
+  noteSchedule?: Prisma.NoteScheduleOmit
+  noteSearchIndex?: Prisma.NoteSearchIndexOmit
+  noteEmbeddingChunk?: Prisma.NoteEmbeddingChunkOmit
   fileManagement?: Prisma.FileManagementOmit
+  fileReference?: Prisma.FileReferenceOmit
   systemConfig?: Prisma.SystemConfigOmit
   merkleTree?: Prisma.MerkleTreeOmit
+  solanaSession?: Prisma.SolanaSessionOmit
   compressedNft?: Prisma.CompressedNftOmit
+  cnftMintJob?: Prisma.CnftMintJobOmit
+  cnftMintJobItem?: Prisma.CnftMintJobItemOmit
+  cnftTransfer?: Prisma.CnftTransferOmit
+  projectSale?: Prisma.ProjectSaleOmit
+  cnftPurchase?: Prisma.CnftPurchaseOmit
+  accessGrant?: Prisma.AccessGrantOmit
+  accessGrantLog?: Prisma.AccessGrantLogOmit
 }
 
 /* Types for Logging */
@@ -53,17 +53,34 @@ export const AnyNull = runtime.AnyNull
 export const ModelName = {
   Session: 'Session',
   User: 'User',
+  ReaderSession: 'ReaderSession',
+  ReaderNonce: 'ReaderNonce',
   Project: 'Project',
   ProjectMenu: 'ProjectMenu',
   ProjectHome: 'ProjectHome',
+  ProjectHomeTranslation: 'ProjectHomeTranslation',
   ProjectVersion: 'ProjectVersion',
+  SlugRedirect: 'SlugRedirect',
   Category: 'Category',
   NoteInfo: 'NoteInfo',
   NoteContent: 'NoteContent',
+  NoteContentRevision: 'NoteContentRevision',
+  NoteSchedule: 'NoteSchedule',
+  NoteSearchIndex: 'NoteSearchIndex',
+  NoteEmbeddingChunk: 'NoteEmbeddingChunk',
   FileManagement: 'FileManagement',
+  FileReference: 'FileReference',
   SystemConfig: 'SystemConfig',
   MerkleTree: 'MerkleTree',
-  CompressedNft: 'CompressedNft'
+  SolanaSession: 'SolanaSession',
+  CompressedNft: 'CompressedNft',
+  CnftMintJob: 'CnftMintJob',
+  CnftMintJobItem: 'CnftMintJobItem',
+  CnftTransfer: 'CnftTransfer',
+  ProjectSale: 'ProjectSale',
+  CnftPurchase: 'CnftPurchase',
+  AccessGrant: 'AccessGrant',
+  AccessGrantLog: 'AccessGrantLog'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -108,13 +125,46 @@ export const UserScalarFieldEnum = {
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
 
 
+export const ReaderSessionScalarFieldEnum = {
+  id: 'id',
+  walletAddress: 'walletAddress',
+  tokenHash: 'tokenHash',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  ip: 'ip',
+  userAgent: 'userAgent'
+} as const
+
+export type ReaderSessionScalarFieldEnum = (typeof ReaderSessionScalarFieldEnum)[keyof typeof ReaderSessionScalarFieldEnum]
+
+
+export const ReaderNonceScalarFieldEnum = {
+  id: 'id',
+  walletAddress: 'walletAddress',
+  nonce: 'nonce',
+  message: 'message',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt'
+} as const
+
+export type ReaderNonceScalarFieldEnum = (typeof ReaderNonceScalarFieldEnum)[keyof typeof ReaderNonceScalarFieldEnum]
+
+
 export const ProjectScalarFieldEnum = {
   id: 'id',
   projectName: 'projectName',
+  slug: 'slug',
   avatar: 'avatar',
   weight: 'weight',
   status: 'status',
   requireAuth: 'requireAuth',
+  seoTitle: 'seoTitle',
+  seoDescription: 'seoDescription',
+  seoKeywords: 'seoKeywords',
+  canonicalUrl: 'canonicalUrl',
+  ogImage: 'ogImage',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -128,6 +178,7 @@ export const ProjectMenuScalarFieldEnum = {
   projectId: 'projectId',
   parentId: 'parentId',
   label: 'label',
+  labelTranslations: 'labelTranslations',
   url: 'url',
   isExternal: 'isExternal',
   weight: 'weight',
@@ -153,10 +204,23 @@ export const ProjectHomeScalarFieldEnum = {
 export type ProjectHomeScalarFieldEnum = (typeof ProjectHomeScalarFieldEnum)[keyof typeof ProjectHomeScalarFieldEnum]
 
 
+export const ProjectHomeTranslationScalarFieldEnum = {
+  id: 'id',
+  projectHomeId: 'projectHomeId',
+  locale: 'locale',
+  content: 'content',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectHomeTranslationScalarFieldEnum = (typeof ProjectHomeTranslationScalarFieldEnum)[keyof typeof ProjectHomeTranslationScalarFieldEnum]
+
+
 export const ProjectVersionScalarFieldEnum = {
   id: 'id',
   projectId: 'projectId',
   version: 'version',
+  slug: 'slug',
   description: 'description',
   weight: 'weight',
   status: 'status',
@@ -168,12 +232,26 @@ export const ProjectVersionScalarFieldEnum = {
 export type ProjectVersionScalarFieldEnum = (typeof ProjectVersionScalarFieldEnum)[keyof typeof ProjectVersionScalarFieldEnum]
 
 
+export const SlugRedirectScalarFieldEnum = {
+  id: 'id',
+  entityType: 'entityType',
+  scopeId: 'scopeId',
+  oldSlug: 'oldSlug',
+  targetId: 'targetId',
+  createdAt: 'createdAt'
+} as const
+
+export type SlugRedirectScalarFieldEnum = (typeof SlugRedirectScalarFieldEnum)[keyof typeof SlugRedirectScalarFieldEnum]
+
+
 export const CategoryScalarFieldEnum = {
   id: 'id',
   projectVersionId: 'projectVersionId',
   categoryName: 'categoryName',
   weight: 'weight',
   status: 'status',
+  accessLevel: 'accessLevel',
+  nameTranslations: 'nameTranslations',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -186,8 +264,15 @@ export const NoteInfoScalarFieldEnum = {
   id: 'id',
   categoryId: 'categoryId',
   noteTitle: 'noteTitle',
+  slug: 'slug',
   weight: 'weight',
   status: 'status',
+  accessLevel: 'accessLevel',
+  seoTitle: 'seoTitle',
+  seoDescription: 'seoDescription',
+  seoKeywords: 'seoKeywords',
+  canonicalUrl: 'canonicalUrl',
+  ogImage: 'ogImage',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   isDeleted: 'isDeleted'
@@ -202,6 +287,8 @@ export const NoteContentScalarFieldEnum = {
   content: 'content',
   versionNote: 'versionNote',
   isPrimary: 'isPrimary',
+  locale: 'locale',
+  title: 'title',
   status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
@@ -211,6 +298,64 @@ export const NoteContentScalarFieldEnum = {
 export type NoteContentScalarFieldEnum = (typeof NoteContentScalarFieldEnum)[keyof typeof NoteContentScalarFieldEnum]
 
 
+export const NoteContentRevisionScalarFieldEnum = {
+  id: 'id',
+  noteContentId: 'noteContentId',
+  noteInfoId: 'noteInfoId',
+  content: 'content',
+  contentHash: 'contentHash',
+  action: 'action',
+  userId: 'userId',
+  username: 'username',
+  createdAt: 'createdAt'
+} as const
+
+export type NoteContentRevisionScalarFieldEnum = (typeof NoteContentRevisionScalarFieldEnum)[keyof typeof NoteContentRevisionScalarFieldEnum]
+
+
+export const NoteScheduleScalarFieldEnum = {
+  id: 'id',
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  action: 'action',
+  runAt: 'runAt',
+  status: 'status',
+  error: 'error',
+  userId: 'userId',
+  username: 'username',
+  executedAt: 'executedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type NoteScheduleScalarFieldEnum = (typeof NoteScheduleScalarFieldEnum)[keyof typeof NoteScheduleScalarFieldEnum]
+
+
+export const NoteSearchIndexScalarFieldEnum = {
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  title: 'title',
+  body: 'body',
+  updatedAt: 'updatedAt'
+} as const
+
+export type NoteSearchIndexScalarFieldEnum = (typeof NoteSearchIndexScalarFieldEnum)[keyof typeof NoteSearchIndexScalarFieldEnum]
+
+
+export const NoteEmbeddingChunkScalarFieldEnum = {
+  id: 'id',
+  noteInfoId: 'noteInfoId',
+  noteContentId: 'noteContentId',
+  chunkIndex: 'chunkIndex',
+  heading: 'heading',
+  content: 'content',
+  provider: 'provider',
+  createdAt: 'createdAt'
+} as const
+
+export type NoteEmbeddingChunkScalarFieldEnum = (typeof NoteEmbeddingChunkScalarFieldEnum)[keyof typeof NoteEmbeddingChunkScalarFieldEnum]
+
+
 export const FileManagementScalarFieldEnum = {
   id: 'id',
   originalName: 'originalName',
@@ -218,6 +363,8 @@ export const FileManagementScalarFieldEnum = {
   filePath: 'filePath',
   fileSize: 'fileSize',
   businessType: 'businessType',
+  storageDriver: 'storageDriver',
+  sha256: 'sha256',
   status: 'status',
   createTime: 'createTime'
 } as const
@@ -225,6 +372,17 @@ export const FileManagementScalarFieldEnum = {
 export type FileManagementScalarFieldEnum = (typeof FileManagementScalarFieldEnum)[keyof typeof FileManagementScalarFieldEnum]
 
 
+export const FileReferenceScalarFieldEnum = {
+  id: 'id',
+  fileId: 'fileId',
+  refType: 'refType',
+  refId: 'refId',
+  createdAt: 'createdAt'
+} as const
+
+export type FileReferenceScalarFieldEnum = (typeof FileReferenceScalarFieldEnum)[keyof typeof FileReferenceScalarFieldEnum]
+
+
 export const SystemConfigScalarFieldEnum = {
   id: 'id',
   configKey: 'configKey',
@@ -262,6 +420,18 @@ export const MerkleTreeScalarFieldEnum = {
 export type MerkleTreeScalarFieldEnum = (typeof MerkleTreeScalarFieldEnum)[keyof typeof MerkleTreeScalarFieldEnum]
 
 
+export const SolanaSessionScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  payload: 'payload',
+  encryptedKey: 'encryptedKey',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+} as const
+
+export type SolanaSessionScalarFieldEnum = (typeof SolanaSessionScalarFieldEnum)[keyof typeof SolanaSessionScalarFieldEnum]
+
+
 export const CompressedNftScalarFieldEnum = {
   id: 'id',
   merkleTreeId: 'merkleTreeId',
@@ -276,8 +446,10 @@ export const CompressedNftScalarFieldEnum = {
   metadataCid: 'metadataCid',
   originalImageId: 'originalImageId',
   ownerAddress: 'ownerAddress',
+  delegateAddress: 'delegateAddress',
   mintTxSignature: 'mintTxSignature',
   status: 'status',
+  ownerSyncedAt: 'ownerSyncedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -285,6 +457,126 @@ export const CompressedNftScalarFieldEnum = {
 export type CompressedNftScalarFieldEnum = (typeof CompressedNftScalarFieldEnum)[keyof typeof CompressedNftScalarFieldEnum]
 
 
+export const CnftMintJobScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  network: 'network',
+  name: 'name',
+  symbol: 'symbol',
+  metadataUri: 'metadataUri',
+  total: 'total',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftMintJobScalarFieldEnum = (typeof CnftMintJobScalarFieldEnum)[keyof typeof CnftMintJobScalarFieldEnum]
+
+
+export const CnftMintJobItemScalarFieldEnum = {
+  id: 'id',
+  jobId: 'jobId',
+  rowNumber: 'rowNumber',
+  ownerAddress: 'ownerAddress',
+  name: 'name',
+  cnftId: 'cnftId',
+  txSignature: 'txSignature',
+  attempts: 'attempts',
+  errorMessage: 'errorMessage',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftMintJobItemScalarFieldEnum = (typeof CnftMintJobItemScalarFieldEnum)[keyof typeof CnftMintJobItemScalarFieldEnum]
+
+
+export const CnftTransferScalarFieldEnum = {
+  id: 'id',
+  cnftId: 'cnftId',
+  event: 'event',
+  fromAddress: 'fromAddress',
+  toAddress: 'toAddress',
+  source: 'source',
+  txSignature: 'txSignature',
+  createdAt: 'createdAt'
+} as const
+
+export type CnftTransferScalarFieldEnum = (typeof CnftTransferScalarFieldEnum)[keyof typeof CnftTransferScalarFieldEnum]
+
+
+export const ProjectSaleScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  network: 'network',
+  priceLamports: 'priceLamports',
+  receiverAddress: 'receiverAddress',
+  supplyCap: 'supplyCap',
+  name: 'name',
+  symbol: 'symbol',
+  metadataUri: 'metadataUri',
+  enabled: 'enabled',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProjectSaleScalarFieldEnum = (typeof ProjectSaleScalarFieldEnum)[keyof typeof ProjectSaleScalarFieldEnum]
+
+
+export const CnftPurchaseScalarFieldEnum = {
+  id: 'id',
+  saleId: 'saleId',
+  projectId: 'projectId',
+  buyerAddress: 'buyerAddress',
+  cnftId: 'cnftId',
+  priceLamports: 'priceLamports',
+  receiverAddress: 'receiverAddress',
+  txSignature: 'txSignature',
+  errorMessage: 'errorMessage',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CnftPurchaseScalarFieldEnum = (typeof CnftPurchaseScalarFieldEnum)[keyof typeof CnftPurchaseScalarFieldEnum]
+
+
+export const AccessGrantScalarFieldEnum = {
+  id: 'id',
+  projectId: 'projectId',
+  walletAddress: 'walletAddress',
+  email: 'email',
+  grantType: 'grantType',
+  reason: 'reason',
+  startsAt: 'startsAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokeReason: 'revokeReason',
+  issuedById: 'issuedById',
+  issuedByName: 'issuedByName',
+  revokedById: 'revokedById',
+  revokedByName: 'revokedByName',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AccessGrantScalarFieldEnum = (typeof AccessGrantScalarFieldEnum)[keyof typeof AccessGrantScalarFieldEnum]
+
+
+export const AccessGrantLogScalarFieldEnum = {
+  id: 'id',
+  grantId: 'grantId',
+  action: 'action',
+  changes: 'changes',
+  reason: 'reason',
+  userId: 'userId',
+  username: 'username',
+  createdAt: 'createdAt'
+} as const
+
+export type AccessGrantLogScalarFieldEnum = (typeof AccessGrantLogScalarFieldEnum)[keyof typeof AccessGrantLogScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -293,6 +585,21 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: 'DbNull',
+  JsonNull: 'JsonNull'
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const JsonNullValueInput = {
+  JsonNull: 'JsonNull'
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -308,3 +615,12 @@ export const NullsOrder = {
 
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
+
+export const JsonNullValueFilter = {
+  DbNull: 'DbNull',
+  JsonNull: 'JsonNull',
+  AnyNull: 'AnyNull'
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
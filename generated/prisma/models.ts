@@ -10,15 +10,32 @@
  */
 export type * from './models/Session.js'
 export type * from './models/User.js'
+export type * from './models/ReaderSession.js'
+export type * from './models/ReaderNonce.js'
 export type * from './models/Project.js'
 export type * from './models/ProjectMenu.js'
 export type * from './models/ProjectHome.js'
+export type * from './models/ProjectHomeTranslation.js'
 export type * from './models/ProjectVersion.js'
+export type * from './models/SlugRedirect.js'
 export type * from './models/Category.js'
 export type * from './models/NoteInfo.js'
 export type * from './models/NoteContent.js'
+export type * from './models/NoteContentRevision.js'
+export type * from './models/NoteSchedule.js'
+export type * from './models/NoteSearchIndex.js'
+export type * from './models/NoteEmbeddingChunk.js'
 export type * from './models/FileManagement.js'
+export type * from './models/FileReference.js'
 export type * from './models/SystemConfig.js'
 export type * from './models/MerkleTree.js'
+export type * from './models/SolanaSession.js'
 export type * from './models/CompressedNft.js'
+export type * from './models/CnftMintJob.js'
+export type * from './models/CnftMintJobItem.js'
+export type * from './models/CnftTransfer.js'
+export type * from './models/ProjectSale.js'
+export type * from './models/CnftPurchase.js'
+export type * from './models/AccessGrant.js'
+export type * from './models/AccessGrantLog.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
@@ -0,0 +1,1736 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AccessGrant` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model AccessGrant
+ * 访问授权表：试用、赞助、工单等场景无需 cNFT 即可阅读，可设置有效期并随时撤销；授权只撤销不删除（schema: public）
+ */
+export type AccessGrantModel = runtime.Types.Result.DefaultSelection<Prisma.$AccessGrantPayload>
+
+export type AggregateAccessGrant = {
+  _count: AccessGrantCountAggregateOutputType | null
+  _avg: AccessGrantAvgAggregateOutputType | null
+  _sum: AccessGrantSumAggregateOutputType | null
+  _min: AccessGrantMinAggregateOutputType | null
+  _max: AccessGrantMaxAggregateOutputType | null
+}
+
+export type AccessGrantAvgAggregateOutputType = {
+  id: number | null
+  projectId: number | null
+  issuedById: number | null
+  revokedById: number | null
+}
+
+export type AccessGrantSumAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  issuedById: number | null
+  revokedById: number | null
+}
+
+export type AccessGrantMinAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  walletAddress: string | null
+  email: string | null
+  grantType: string | null
+  reason: string | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  revokeReason: string | null
+  issuedById: number | null
+  issuedByName: string | null
+  revokedById: number | null
+  revokedByName: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AccessGrantMaxAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  walletAddress: string | null
+  email: string | null
+  grantType: string | null
+  reason: string | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  revokeReason: string | null
+  issuedById: number | null
+  issuedByName: string | null
+  revokedById: number | null
+  revokedByName: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AccessGrantCountAggregateOutputType = {
+  id: number
+  projectId: number
+  walletAddress: number
+  email: number
+  grantType: number
+  reason: number
+  startsAt: number
+  expiresAt: number
+  revokedAt: number
+  revokeReason: number
+  issuedById: number
+  issuedByName: number
+  revokedById: number
+  revokedByName: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type AccessGrantAvgAggregateInputType = {
+  id?: true
+  projectId?: true
+  issuedById?: true
+  revokedById?: true
+}
+
+export type AccessGrantSumAggregateInputType = {
+  id?: true
+  projectId?: true
+  issuedById?: true
+  revokedById?: true
+}
+
+export type AccessGrantMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  walletAddress?: true
+  email?: true
+  grantType?: true
+  reason?: true
+  startsAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  revokeReason?: true
+  issuedById?: true
+  issuedByName?: true
+  revokedById?: true
+  revokedByName?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AccessGrantMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  walletAddress?: true
+  email?: true
+  grantType?: true
+  reason?: true
+  startsAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  revokeReason?: true
+  issuedById?: true
+  issuedByName?: true
+  revokedById?: true
+  revokedByName?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AccessGrantCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  walletAddress?: true
+  email?: true
+  grantType?: true
+  reason?: true
+  startsAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  revokeReason?: true
+  issuedById?: true
+  issuedByName?: true
+  revokedById?: true
+  revokedByName?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type AccessGrantAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AccessGrant to aggregate.
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrants to fetch.
+   */
+  orderBy?: Prisma.AccessGrantOrderByWithRelationInput | Prisma.AccessGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AccessGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AccessGrants
+  **/
+  _count?: true | AccessGrantCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AccessGrantAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AccessGrantSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AccessGrantMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AccessGrantMaxAggregateInputType
+}
+
+export type GetAccessGrantAggregateType<T extends AccessGrantAggregateArgs> = {
+      [P in keyof T & keyof AggregateAccessGrant]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAccessGrant[P]>
+    : Prisma.GetScalarType<T[P], AggregateAccessGrant[P]>
+}
+
+
+
+
+export type AccessGrantGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AccessGrantWhereInput
+  orderBy?: Prisma.AccessGrantOrderByWithAggregationInput | Prisma.AccessGrantOrderByWithAggregationInput[]
+  by: Prisma.AccessGrantScalarFieldEnum[] | Prisma.AccessGrantScalarFieldEnum
+  having?: Prisma.AccessGrantScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AccessGrantCountAggregateInputType | true
+  _avg?: AccessGrantAvgAggregateInputType
+  _sum?: AccessGrantSumAggregateInputType
+  _min?: AccessGrantMinAggregateInputType
+  _max?: AccessGrantMaxAggregateInputType
+}
+
+export type AccessGrantGroupByOutputType = {
+  id: bigint
+  projectId: bigint
+  walletAddress: string
+  email: string | null
+  grantType: string
+  reason: string
+  startsAt: Date
+  expiresAt: Date | null
+  revokedAt: Date | null
+  revokeReason: string | null
+  issuedById: number | null
+  issuedByName: string | null
+  revokedById: number | null
+  revokedByName: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: AccessGrantCountAggregateOutputType | null
+  _avg: AccessGrantAvgAggregateOutputType | null
+  _sum: AccessGrantSumAggregateOutputType | null
+  _min: AccessGrantMinAggregateOutputType | null
+  _max: AccessGrantMaxAggregateOutputType | null
+}
+
+type GetAccessGrantGroupByPayload<T extends AccessGrantGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AccessGrantGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AccessGrantGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AccessGrantGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AccessGrantGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AccessGrantWhereInput = {
+  AND?: Prisma.AccessGrantWhereInput | Prisma.AccessGrantWhereInput[]
+  OR?: Prisma.AccessGrantWhereInput[]
+  NOT?: Prisma.AccessGrantWhereInput | Prisma.AccessGrantWhereInput[]
+  id?: Prisma.BigIntFilter<"AccessGrant"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"AccessGrant"> | bigint | number
+  walletAddress?: Prisma.StringFilter<"AccessGrant"> | string
+  email?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  grantType?: Prisma.StringFilter<"AccessGrant"> | string
+  reason?: Prisma.StringFilter<"AccessGrant"> | string
+  startsAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  expiresAt?: Prisma.DateTimeNullableFilter<"AccessGrant"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"AccessGrant"> | Date | string | null
+  revokeReason?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  issuedById?: Prisma.IntNullableFilter<"AccessGrant"> | number | null
+  issuedByName?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  revokedById?: Prisma.IntNullableFilter<"AccessGrant"> | number | null
+  revokedByName?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  logs?: Prisma.AccessGrantLogListRelationFilter
+}
+
+export type AccessGrantOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  email?: Prisma.SortOrderInput | Prisma.SortOrder
+  grantType?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokeReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  issuedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  issuedByName?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedByName?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  logs?: Prisma.AccessGrantLogOrderByRelationAggregateInput
+}
+
+export type AccessGrantWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.AccessGrantWhereInput | Prisma.AccessGrantWhereInput[]
+  OR?: Prisma.AccessGrantWhereInput[]
+  NOT?: Prisma.AccessGrantWhereInput | Prisma.AccessGrantWhereInput[]
+  projectId?: Prisma.BigIntFilter<"AccessGrant"> | bigint | number
+  walletAddress?: Prisma.StringFilter<"AccessGrant"> | string
+  email?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  grantType?: Prisma.StringFilter<"AccessGrant"> | string
+  reason?: Prisma.StringFilter<"AccessGrant"> | string
+  startsAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  expiresAt?: Prisma.DateTimeNullableFilter<"AccessGrant"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"AccessGrant"> | Date | string | null
+  revokeReason?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  issuedById?: Prisma.IntNullableFilter<"AccessGrant"> | number | null
+  issuedByName?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  revokedById?: Prisma.IntNullableFilter<"AccessGrant"> | number | null
+  revokedByName?: Prisma.StringNullableFilter<"AccessGrant"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"AccessGrant"> | Date | string
+  logs?: Prisma.AccessGrantLogListRelationFilter
+}, "id">
+
+export type AccessGrantOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  email?: Prisma.SortOrderInput | Prisma.SortOrder
+  grantType?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokeReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  issuedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  issuedByName?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedByName?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.AccessGrantCountOrderByAggregateInput
+  _avg?: Prisma.AccessGrantAvgOrderByAggregateInput
+  _max?: Prisma.AccessGrantMaxOrderByAggregateInput
+  _min?: Prisma.AccessGrantMinOrderByAggregateInput
+  _sum?: Prisma.AccessGrantSumOrderByAggregateInput
+}
+
+export type AccessGrantScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AccessGrantScalarWhereWithAggregatesInput | Prisma.AccessGrantScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AccessGrantScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AccessGrantScalarWhereWithAggregatesInput | Prisma.AccessGrantScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"AccessGrant"> | bigint | number
+  projectId?: Prisma.BigIntWithAggregatesFilter<"AccessGrant"> | bigint | number
+  walletAddress?: Prisma.StringWithAggregatesFilter<"AccessGrant"> | string
+  email?: Prisma.StringNullableWithAggregatesFilter<"AccessGrant"> | string | null
+  grantType?: Prisma.StringWithAggregatesFilter<"AccessGrant"> | string
+  reason?: Prisma.StringWithAggregatesFilter<"AccessGrant"> | string
+  startsAt?: Prisma.DateTimeWithAggregatesFilter<"AccessGrant"> | Date | string
+  expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AccessGrant"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AccessGrant"> | Date | string | null
+  revokeReason?: Prisma.StringNullableWithAggregatesFilter<"AccessGrant"> | string | null
+  issuedById?: Prisma.IntNullableWithAggregatesFilter<"AccessGrant"> | number | null
+  issuedByName?: Prisma.StringNullableWithAggregatesFilter<"AccessGrant"> | string | null
+  revokedById?: Prisma.IntNullableWithAggregatesFilter<"AccessGrant"> | number | null
+  revokedByName?: Prisma.StringNullableWithAggregatesFilter<"AccessGrant"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AccessGrant"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"AccessGrant"> | Date | string
+}
+
+export type AccessGrantCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  walletAddress: string
+  email?: string | null
+  grantType?: string
+  reason: string
+  startsAt?: Date | string
+  expiresAt?: Date | string | null
+  revokedAt?: Date | string | null
+  revokeReason?: string | null
+  issuedById?: number | null
+  issuedByName?: string | null
+  revokedById?: number | null
+  revokedByName?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  logs?: Prisma.AccessGrantLogCreateNestedManyWithoutGrantInput
+}
+
+export type AccessGrantUncheckedCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  walletAddress: string
+  email?: string | null
+  grantType?: string
+  reason: string
+  startsAt?: Date | string
+  expiresAt?: Date | string | null
+  revokedAt?: Date | string | null
+  revokeReason?: string | null
+  issuedById?: number | null
+  issuedByName?: string | null
+  revokedById?: number | null
+  revokedByName?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  logs?: Prisma.AccessGrantLogUncheckedCreateNestedManyWithoutGrantInput
+}
+
+export type AccessGrantUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  logs?: Prisma.AccessGrantLogUpdateManyWithoutGrantNestedInput
+}
+
+export type AccessGrantUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  logs?: Prisma.AccessGrantLogUncheckedUpdateManyWithoutGrantNestedInput
+}
+
+export type AccessGrantCreateManyInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  walletAddress: string
+  email?: string | null
+  grantType?: string
+  reason: string
+  startsAt?: Date | string
+  expiresAt?: Date | string | null
+  revokedAt?: Date | string | null
+  revokeReason?: string | null
+  issuedById?: number | null
+  issuedByName?: string | null
+  revokedById?: number | null
+  revokedByName?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AccessGrantUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  grantType?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  revokeReason?: Prisma.SortOrder
+  issuedById?: Prisma.SortOrder
+  issuedByName?: Prisma.SortOrder
+  revokedById?: Prisma.SortOrder
+  revokedByName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AccessGrantAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  issuedById?: Prisma.SortOrder
+  revokedById?: Prisma.SortOrder
+}
+
+export type AccessGrantMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  grantType?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  revokeReason?: Prisma.SortOrder
+  issuedById?: Prisma.SortOrder
+  issuedByName?: Prisma.SortOrder
+  revokedById?: Prisma.SortOrder
+  revokedByName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AccessGrantMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  grantType?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  revokeReason?: Prisma.SortOrder
+  issuedById?: Prisma.SortOrder
+  issuedByName?: Prisma.SortOrder
+  revokedById?: Prisma.SortOrder
+  revokedByName?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AccessGrantSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  issuedById?: Prisma.SortOrder
+  revokedById?: Prisma.SortOrder
+}
+
+export type AccessGrantScalarRelationFilter = {
+  is?: Prisma.AccessGrantWhereInput
+  isNot?: Prisma.AccessGrantWhereInput
+}
+
+export type AccessGrantCreateNestedOneWithoutLogsInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantCreateWithoutLogsInput, Prisma.AccessGrantUncheckedCreateWithoutLogsInput>
+  connectOrCreate?: Prisma.AccessGrantCreateOrConnectWithoutLogsInput
+  connect?: Prisma.AccessGrantWhereUniqueInput
+}
+
+export type AccessGrantUpdateOneRequiredWithoutLogsNestedInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantCreateWithoutLogsInput, Prisma.AccessGrantUncheckedCreateWithoutLogsInput>
+  connectOrCreate?: Prisma.AccessGrantCreateOrConnectWithoutLogsInput
+  upsert?: Prisma.AccessGrantUpsertWithoutLogsInput
+  connect?: Prisma.AccessGrantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AccessGrantUpdateToOneWithWhereWithoutLogsInput, Prisma.AccessGrantUpdateWithoutLogsInput>, Prisma.AccessGrantUncheckedUpdateWithoutLogsInput>
+}
+
+export type AccessGrantCreateWithoutLogsInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  walletAddress: string
+  email?: string | null
+  grantType?: string
+  reason: string
+  startsAt?: Date | string
+  expiresAt?: Date | string | null
+  revokedAt?: Date | string | null
+  revokeReason?: string | null
+  issuedById?: number | null
+  issuedByName?: string | null
+  revokedById?: number | null
+  revokedByName?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AccessGrantUncheckedCreateWithoutLogsInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  walletAddress: string
+  email?: string | null
+  grantType?: string
+  reason: string
+  startsAt?: Date | string
+  expiresAt?: Date | string | null
+  revokedAt?: Date | string | null
+  revokeReason?: string | null
+  issuedById?: number | null
+  issuedByName?: string | null
+  revokedById?: number | null
+  revokedByName?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AccessGrantCreateOrConnectWithoutLogsInput = {
+  where: Prisma.AccessGrantWhereUniqueInput
+  create: Prisma.XOR<Prisma.AccessGrantCreateWithoutLogsInput, Prisma.AccessGrantUncheckedCreateWithoutLogsInput>
+}
+
+export type AccessGrantUpsertWithoutLogsInput = {
+  update: Prisma.XOR<Prisma.AccessGrantUpdateWithoutLogsInput, Prisma.AccessGrantUncheckedUpdateWithoutLogsInput>
+  create: Prisma.XOR<Prisma.AccessGrantCreateWithoutLogsInput, Prisma.AccessGrantUncheckedCreateWithoutLogsInput>
+  where?: Prisma.AccessGrantWhereInput
+}
+
+export type AccessGrantUpdateToOneWithWhereWithoutLogsInput = {
+  where?: Prisma.AccessGrantWhereInput
+  data: Prisma.XOR<Prisma.AccessGrantUpdateWithoutLogsInput, Prisma.AccessGrantUncheckedUpdateWithoutLogsInput>
+}
+
+export type AccessGrantUpdateWithoutLogsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantUncheckedUpdateWithoutLogsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  grantType?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokeReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  issuedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  revokedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  revokedByName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type AccessGrantCountOutputType
+ */
+
+export type AccessGrantCountOutputType = {
+  logs: number
+}
+
+export type AccessGrantCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  logs?: boolean | AccessGrantCountOutputTypeCountLogsArgs
+}
+
+/**
+ * AccessGrantCountOutputType without action
+ */
+export type AccessGrantCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantCountOutputType
+   */
+  select?: Prisma.AccessGrantCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AccessGrantCountOutputType without action
+ */
+export type AccessGrantCountOutputTypeCountLogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AccessGrantLogWhereInput
+}
+
+
+export type AccessGrantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  walletAddress?: boolean
+  email?: boolean
+  grantType?: boolean
+  reason?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  revokeReason?: boolean
+  issuedById?: boolean
+  issuedByName?: boolean
+  revokedById?: boolean
+  revokedByName?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  logs?: boolean | Prisma.AccessGrant$logsArgs<ExtArgs>
+  _count?: boolean | Prisma.AccessGrantCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["accessGrant"]>
+
+export type AccessGrantSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  walletAddress?: boolean
+  email?: boolean
+  grantType?: boolean
+  reason?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  revokeReason?: boolean
+  issuedById?: boolean
+  issuedByName?: boolean
+  revokedById?: boolean
+  revokedByName?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["accessGrant"]>
+
+export type AccessGrantSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  walletAddress?: boolean
+  email?: boolean
+  grantType?: boolean
+  reason?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  revokeReason?: boolean
+  issuedById?: boolean
+  issuedByName?: boolean
+  revokedById?: boolean
+  revokedByName?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["accessGrant"]>
+
+export type AccessGrantSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  walletAddress?: boolean
+  email?: boolean
+  grantType?: boolean
+  reason?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  revokeReason?: boolean
+  issuedById?: boolean
+  issuedByName?: boolean
+  revokedById?: boolean
+  revokedByName?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type AccessGrantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "walletAddress" | "email" | "grantType" | "reason" | "startsAt" | "expiresAt" | "revokedAt" | "revokeReason" | "issuedById" | "issuedByName" | "revokedById" | "revokedByName" | "createdAt" | "updatedAt", ExtArgs["result"]["accessGrant"]>
+export type AccessGrantInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  logs?: boolean | Prisma.AccessGrant$logsArgs<ExtArgs>
+  _count?: boolean | Prisma.AccessGrantCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type AccessGrantIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type AccessGrantIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $AccessGrantPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AccessGrant"
+  objects: {
+    logs: Prisma.$AccessGrantLogPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    projectId: bigint
+    walletAddress: string
+    email: string | null
+    grantType: string
+    reason: string
+    startsAt: Date
+    expiresAt: Date | null
+    revokedAt: Date | null
+    revokeReason: string | null
+    issuedById: number | null
+    issuedByName: string | null
+    revokedById: number | null
+    revokedByName: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["accessGrant"]>
+  composites: {}
+}
+
+export type AccessGrantGetPayload<S extends boolean | null | undefined | AccessGrantDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload, S>
+
+export type AccessGrantCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AccessGrantFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AccessGrantCountAggregateInputType | true
+  }
+
+export interface AccessGrantDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AccessGrant'], meta: { name: 'AccessGrant' } }
+  /**
+   * Find zero or one AccessGrant that matches the filter.
+   * @param {AccessGrantFindUniqueArgs} args - Arguments to find a AccessGrant
+   * @example
+   * // Get one AccessGrant
+   * const accessGrant = await prisma.accessGrant.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AccessGrantFindUniqueArgs>(args: Prisma.SelectSubset<T, AccessGrantFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AccessGrant that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AccessGrantFindUniqueOrThrowArgs} args - Arguments to find a AccessGrant
+   * @example
+   * // Get one AccessGrant
+   * const accessGrant = await prisma.accessGrant.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AccessGrantFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AccessGrantFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AccessGrant that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantFindFirstArgs} args - Arguments to find a AccessGrant
+   * @example
+   * // Get one AccessGrant
+   * const accessGrant = await prisma.accessGrant.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AccessGrantFindFirstArgs>(args?: Prisma.SelectSubset<T, AccessGrantFindFirstArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AccessGrant that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantFindFirstOrThrowArgs} args - Arguments to find a AccessGrant
+   * @example
+   * // Get one AccessGrant
+   * const accessGrant = await prisma.accessGrant.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AccessGrantFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AccessGrantFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AccessGrants that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AccessGrants
+   * const accessGrants = await prisma.accessGrant.findMany()
+   * 
+   * // Get first 10 AccessGrants
+   * const accessGrants = await prisma.accessGrant.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const accessGrantWithIdOnly = await prisma.accessGrant.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AccessGrantFindManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AccessGrant.
+   * @param {AccessGrantCreateArgs} args - Arguments to create a AccessGrant.
+   * @example
+   * // Create one AccessGrant
+   * const AccessGrant = await prisma.accessGrant.create({
+   *   data: {
+   *     // ... data to create a AccessGrant
+   *   }
+   * })
+   * 
+   */
+  create<T extends AccessGrantCreateArgs>(args: Prisma.SelectSubset<T, AccessGrantCreateArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AccessGrants.
+   * @param {AccessGrantCreateManyArgs} args - Arguments to create many AccessGrants.
+   * @example
+   * // Create many AccessGrants
+   * const accessGrant = await prisma.accessGrant.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AccessGrantCreateManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AccessGrants and returns the data saved in the database.
+   * @param {AccessGrantCreateManyAndReturnArgs} args - Arguments to create many AccessGrants.
+   * @example
+   * // Create many AccessGrants
+   * const accessGrant = await prisma.accessGrant.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AccessGrants and only return the `id`
+   * const accessGrantWithIdOnly = await prisma.accessGrant.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AccessGrantCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AccessGrantCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AccessGrant.
+   * @param {AccessGrantDeleteArgs} args - Arguments to delete one AccessGrant.
+   * @example
+   * // Delete one AccessGrant
+   * const AccessGrant = await prisma.accessGrant.delete({
+   *   where: {
+   *     // ... filter to delete one AccessGrant
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AccessGrantDeleteArgs>(args: Prisma.SelectSubset<T, AccessGrantDeleteArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AccessGrant.
+   * @param {AccessGrantUpdateArgs} args - Arguments to update one AccessGrant.
+   * @example
+   * // Update one AccessGrant
+   * const accessGrant = await prisma.accessGrant.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AccessGrantUpdateArgs>(args: Prisma.SelectSubset<T, AccessGrantUpdateArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AccessGrants.
+   * @param {AccessGrantDeleteManyArgs} args - Arguments to filter AccessGrants to delete.
+   * @example
+   * // Delete a few AccessGrants
+   * const { count } = await prisma.accessGrant.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AccessGrantDeleteManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AccessGrants.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AccessGrants
+   * const accessGrant = await prisma.accessGrant.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AccessGrantUpdateManyArgs>(args: Prisma.SelectSubset<T, AccessGrantUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AccessGrants and returns the data updated in the database.
+   * @param {AccessGrantUpdateManyAndReturnArgs} args - Arguments to update many AccessGrants.
+   * @example
+   * // Update many AccessGrants
+   * const accessGrant = await prisma.accessGrant.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AccessGrants and only return the `id`
+   * const accessGrantWithIdOnly = await prisma.accessGrant.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AccessGrantUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AccessGrantUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AccessGrant.
+   * @param {AccessGrantUpsertArgs} args - Arguments to update or create a AccessGrant.
+   * @example
+   * // Update or create a AccessGrant
+   * const accessGrant = await prisma.accessGrant.upsert({
+   *   create: {
+   *     // ... data to create a AccessGrant
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AccessGrant we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AccessGrantUpsertArgs>(args: Prisma.SelectSubset<T, AccessGrantUpsertArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AccessGrants.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantCountArgs} args - Arguments to filter AccessGrants to count.
+   * @example
+   * // Count the number of AccessGrants
+   * const count = await prisma.accessGrant.count({
+   *   where: {
+   *     // ... the filter for the AccessGrants we want to count
+   *   }
+   * })
+  **/
+  count<T extends AccessGrantCountArgs>(
+    args?: Prisma.Subset<T, AccessGrantCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AccessGrantCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AccessGrant.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AccessGrantAggregateArgs>(args: Prisma.Subset<T, AccessGrantAggregateArgs>): Prisma.PrismaPromise<GetAccessGrantAggregateType<T>>
+
+  /**
+   * Group by AccessGrant.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AccessGrantGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AccessGrantGroupByArgs['orderBy'] }
+      : { orderBy?: AccessGrantGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AccessGrantGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAccessGrantGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AccessGrant model
+ */
+readonly fields: AccessGrantFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AccessGrant.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AccessGrantClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  logs<T extends Prisma.AccessGrant$logsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AccessGrant$logsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AccessGrant model
+ */
+export interface AccessGrantFieldRefs {
+  readonly id: Prisma.FieldRef<"AccessGrant", 'BigInt'>
+  readonly projectId: Prisma.FieldRef<"AccessGrant", 'BigInt'>
+  readonly walletAddress: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly email: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly grantType: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly reason: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly startsAt: Prisma.FieldRef<"AccessGrant", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"AccessGrant", 'DateTime'>
+  readonly revokedAt: Prisma.FieldRef<"AccessGrant", 'DateTime'>
+  readonly revokeReason: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly issuedById: Prisma.FieldRef<"AccessGrant", 'Int'>
+  readonly issuedByName: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly revokedById: Prisma.FieldRef<"AccessGrant", 'Int'>
+  readonly revokedByName: Prisma.FieldRef<"AccessGrant", 'String'>
+  readonly createdAt: Prisma.FieldRef<"AccessGrant", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"AccessGrant", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AccessGrant findUnique
+ */
+export type AccessGrantFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrant to fetch.
+   */
+  where: Prisma.AccessGrantWhereUniqueInput
+}
+
+/**
+ * AccessGrant findUniqueOrThrow
+ */
+export type AccessGrantFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrant to fetch.
+   */
+  where: Prisma.AccessGrantWhereUniqueInput
+}
+
+/**
+ * AccessGrant findFirst
+ */
+export type AccessGrantFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrant to fetch.
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrants to fetch.
+   */
+  orderBy?: Prisma.AccessGrantOrderByWithRelationInput | Prisma.AccessGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AccessGrants.
+   */
+  cursor?: Prisma.AccessGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AccessGrants.
+   */
+  distinct?: Prisma.AccessGrantScalarFieldEnum | Prisma.AccessGrantScalarFieldEnum[]
+}
+
+/**
+ * AccessGrant findFirstOrThrow
+ */
+export type AccessGrantFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrant to fetch.
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrants to fetch.
+   */
+  orderBy?: Prisma.AccessGrantOrderByWithRelationInput | Prisma.AccessGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AccessGrants.
+   */
+  cursor?: Prisma.AccessGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AccessGrants.
+   */
+  distinct?: Prisma.AccessGrantScalarFieldEnum | Prisma.AccessGrantScalarFieldEnum[]
+}
+
+/**
+ * AccessGrant findMany
+ */
+export type AccessGrantFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrants to fetch.
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrants to fetch.
+   */
+  orderBy?: Prisma.AccessGrantOrderByWithRelationInput | Prisma.AccessGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AccessGrants.
+   */
+  cursor?: Prisma.AccessGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrants.
+   */
+  skip?: number
+  distinct?: Prisma.AccessGrantScalarFieldEnum | Prisma.AccessGrantScalarFieldEnum[]
+}
+
+/**
+ * AccessGrant create
+ */
+export type AccessGrantCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AccessGrant.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantCreateInput, Prisma.AccessGrantUncheckedCreateInput>
+}
+
+/**
+ * AccessGrant createMany
+ */
+export type AccessGrantCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AccessGrants.
+   */
+  data: Prisma.AccessGrantCreateManyInput | Prisma.AccessGrantCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AccessGrant createManyAndReturn
+ */
+export type AccessGrantCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * The data used to create many AccessGrants.
+   */
+  data: Prisma.AccessGrantCreateManyInput | Prisma.AccessGrantCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AccessGrant update
+ */
+export type AccessGrantUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AccessGrant.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantUpdateInput, Prisma.AccessGrantUncheckedUpdateInput>
+  /**
+   * Choose, which AccessGrant to update.
+   */
+  where: Prisma.AccessGrantWhereUniqueInput
+}
+
+/**
+ * AccessGrant updateMany
+ */
+export type AccessGrantUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AccessGrants.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantUpdateManyMutationInput, Prisma.AccessGrantUncheckedUpdateManyInput>
+  /**
+   * Filter which AccessGrants to update
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * Limit how many AccessGrants to update.
+   */
+  limit?: number
+}
+
+/**
+ * AccessGrant updateManyAndReturn
+ */
+export type AccessGrantUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * The data used to update AccessGrants.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantUpdateManyMutationInput, Prisma.AccessGrantUncheckedUpdateManyInput>
+  /**
+   * Filter which AccessGrants to update
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * Limit how many AccessGrants to update.
+   */
+  limit?: number
+}
+
+/**
+ * AccessGrant upsert
+ */
+export type AccessGrantUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AccessGrant to update in case it exists.
+   */
+  where: Prisma.AccessGrantWhereUniqueInput
+  /**
+   * In case the AccessGrant found by the `where` argument doesn't exist, create a new AccessGrant with this data.
+   */
+  create: Prisma.XOR<Prisma.AccessGrantCreateInput, Prisma.AccessGrantUncheckedCreateInput>
+  /**
+   * In case the AccessGrant was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AccessGrantUpdateInput, Prisma.AccessGrantUncheckedUpdateInput>
+}
+
+/**
+ * AccessGrant delete
+ */
+export type AccessGrantDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+  /**
+   * Filter which AccessGrant to delete.
+   */
+  where: Prisma.AccessGrantWhereUniqueInput
+}
+
+/**
+ * AccessGrant deleteMany
+ */
+export type AccessGrantDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AccessGrants to delete
+   */
+  where?: Prisma.AccessGrantWhereInput
+  /**
+   * Limit how many AccessGrants to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AccessGrant.logs
+ */
+export type AccessGrant$logsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  where?: Prisma.AccessGrantLogWhereInput
+  orderBy?: Prisma.AccessGrantLogOrderByWithRelationInput | Prisma.AccessGrantLogOrderByWithRelationInput[]
+  cursor?: Prisma.AccessGrantLogWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AccessGrantLogScalarFieldEnum | Prisma.AccessGrantLogScalarFieldEnum[]
+}
+
+/**
+ * AccessGrant without action
+ */
+export type AccessGrantDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrant
+   */
+  select?: Prisma.AccessGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrant
+   */
+  omit?: Prisma.AccessGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantInclude<ExtArgs> | null
+}
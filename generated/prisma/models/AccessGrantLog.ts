@@ -0,0 +1,1495 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AccessGrantLog` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model AccessGrantLog
+ * 访问授权操作记录表：记录授权的创建、修改与撤销，只追加（schema: public）
+ */
+export type AccessGrantLogModel = runtime.Types.Result.DefaultSelection<Prisma.$AccessGrantLogPayload>
+
+export type AggregateAccessGrantLog = {
+  _count: AccessGrantLogCountAggregateOutputType | null
+  _avg: AccessGrantLogAvgAggregateOutputType | null
+  _sum: AccessGrantLogSumAggregateOutputType | null
+  _min: AccessGrantLogMinAggregateOutputType | null
+  _max: AccessGrantLogMaxAggregateOutputType | null
+}
+
+export type AccessGrantLogAvgAggregateOutputType = {
+  id: number | null
+  grantId: number | null
+  userId: number | null
+}
+
+export type AccessGrantLogSumAggregateOutputType = {
+  id: bigint | null
+  grantId: bigint | null
+  userId: number | null
+}
+
+export type AccessGrantLogMinAggregateOutputType = {
+  id: bigint | null
+  grantId: bigint | null
+  action: string | null
+  reason: string | null
+  userId: number | null
+  username: string | null
+  createdAt: Date | null
+}
+
+export type AccessGrantLogMaxAggregateOutputType = {
+  id: bigint | null
+  grantId: bigint | null
+  action: string | null
+  reason: string | null
+  userId: number | null
+  username: string | null
+  createdAt: Date | null
+}
+
+export type AccessGrantLogCountAggregateOutputType = {
+  id: number
+  grantId: number
+  action: number
+  changes: number
+  reason: number
+  userId: number
+  username: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AccessGrantLogAvgAggregateInputType = {
+  id?: true
+  grantId?: true
+  userId?: true
+}
+
+export type AccessGrantLogSumAggregateInputType = {
+  id?: true
+  grantId?: true
+  userId?: true
+}
+
+export type AccessGrantLogMinAggregateInputType = {
+  id?: true
+  grantId?: true
+  action?: true
+  reason?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+}
+
+export type AccessGrantLogMaxAggregateInputType = {
+  id?: true
+  grantId?: true
+  action?: true
+  reason?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+}
+
+export type AccessGrantLogCountAggregateInputType = {
+  id?: true
+  grantId?: true
+  action?: true
+  changes?: true
+  reason?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AccessGrantLogAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AccessGrantLog to aggregate.
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrantLogs to fetch.
+   */
+  orderBy?: Prisma.AccessGrantLogOrderByWithRelationInput | Prisma.AccessGrantLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AccessGrantLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrantLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrantLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AccessGrantLogs
+  **/
+  _count?: true | AccessGrantLogCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AccessGrantLogAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AccessGrantLogSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AccessGrantLogMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AccessGrantLogMaxAggregateInputType
+}
+
+export type GetAccessGrantLogAggregateType<T extends AccessGrantLogAggregateArgs> = {
+      [P in keyof T & keyof AggregateAccessGrantLog]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAccessGrantLog[P]>
+    : Prisma.GetScalarType<T[P], AggregateAccessGrantLog[P]>
+}
+
+
+
+
+export type AccessGrantLogGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AccessGrantLogWhereInput
+  orderBy?: Prisma.AccessGrantLogOrderByWithAggregationInput | Prisma.AccessGrantLogOrderByWithAggregationInput[]
+  by: Prisma.AccessGrantLogScalarFieldEnum[] | Prisma.AccessGrantLogScalarFieldEnum
+  having?: Prisma.AccessGrantLogScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AccessGrantLogCountAggregateInputType | true
+  _avg?: AccessGrantLogAvgAggregateInputType
+  _sum?: AccessGrantLogSumAggregateInputType
+  _min?: AccessGrantLogMinAggregateInputType
+  _max?: AccessGrantLogMaxAggregateInputType
+}
+
+export type AccessGrantLogGroupByOutputType = {
+  id: bigint
+  grantId: bigint
+  action: string
+  changes: runtime.JsonValue | null
+  reason: string | null
+  userId: number | null
+  username: string | null
+  createdAt: Date
+  _count: AccessGrantLogCountAggregateOutputType | null
+  _avg: AccessGrantLogAvgAggregateOutputType | null
+  _sum: AccessGrantLogSumAggregateOutputType | null
+  _min: AccessGrantLogMinAggregateOutputType | null
+  _max: AccessGrantLogMaxAggregateOutputType | null
+}
+
+type GetAccessGrantLogGroupByPayload<T extends AccessGrantLogGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AccessGrantLogGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AccessGrantLogGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AccessGrantLogGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AccessGrantLogGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AccessGrantLogWhereInput = {
+  AND?: Prisma.AccessGrantLogWhereInput | Prisma.AccessGrantLogWhereInput[]
+  OR?: Prisma.AccessGrantLogWhereInput[]
+  NOT?: Prisma.AccessGrantLogWhereInput | Prisma.AccessGrantLogWhereInput[]
+  id?: Prisma.BigIntFilter<"AccessGrantLog"> | bigint | number
+  grantId?: Prisma.BigIntFilter<"AccessGrantLog"> | bigint | number
+  action?: Prisma.StringFilter<"AccessGrantLog"> | string
+  changes?: Prisma.JsonNullableFilter<"AccessGrantLog">
+  reason?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  userId?: Prisma.IntNullableFilter<"AccessGrantLog"> | number | null
+  username?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AccessGrantLog"> | Date | string
+  grant?: Prisma.XOR<Prisma.AccessGrantScalarRelationFilter, Prisma.AccessGrantWhereInput>
+}
+
+export type AccessGrantLogOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  changes?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  grant?: Prisma.AccessGrantOrderByWithRelationInput
+}
+
+export type AccessGrantLogWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.AccessGrantLogWhereInput | Prisma.AccessGrantLogWhereInput[]
+  OR?: Prisma.AccessGrantLogWhereInput[]
+  NOT?: Prisma.AccessGrantLogWhereInput | Prisma.AccessGrantLogWhereInput[]
+  grantId?: Prisma.BigIntFilter<"AccessGrantLog"> | bigint | number
+  action?: Prisma.StringFilter<"AccessGrantLog"> | string
+  changes?: Prisma.JsonNullableFilter<"AccessGrantLog">
+  reason?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  userId?: Prisma.IntNullableFilter<"AccessGrantLog"> | number | null
+  username?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AccessGrantLog"> | Date | string
+  grant?: Prisma.XOR<Prisma.AccessGrantScalarRelationFilter, Prisma.AccessGrantWhereInput>
+}, "id">
+
+export type AccessGrantLogOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  changes?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AccessGrantLogCountOrderByAggregateInput
+  _avg?: Prisma.AccessGrantLogAvgOrderByAggregateInput
+  _max?: Prisma.AccessGrantLogMaxOrderByAggregateInput
+  _min?: Prisma.AccessGrantLogMinOrderByAggregateInput
+  _sum?: Prisma.AccessGrantLogSumOrderByAggregateInput
+}
+
+export type AccessGrantLogScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AccessGrantLogScalarWhereWithAggregatesInput | Prisma.AccessGrantLogScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AccessGrantLogScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AccessGrantLogScalarWhereWithAggregatesInput | Prisma.AccessGrantLogScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"AccessGrantLog"> | bigint | number
+  grantId?: Prisma.BigIntWithAggregatesFilter<"AccessGrantLog"> | bigint | number
+  action?: Prisma.StringWithAggregatesFilter<"AccessGrantLog"> | string
+  changes?: Prisma.JsonNullableWithAggregatesFilter<"AccessGrantLog">
+  reason?: Prisma.StringNullableWithAggregatesFilter<"AccessGrantLog"> | string | null
+  userId?: Prisma.IntNullableWithAggregatesFilter<"AccessGrantLog"> | number | null
+  username?: Prisma.StringNullableWithAggregatesFilter<"AccessGrantLog"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AccessGrantLog"> | Date | string
+}
+
+export type AccessGrantLogCreateInput = {
+  id?: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+  grant: Prisma.AccessGrantCreateNestedOneWithoutLogsInput
+}
+
+export type AccessGrantLogUncheckedCreateInput = {
+  id?: bigint | number
+  grantId: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type AccessGrantLogUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  grant?: Prisma.AccessGrantUpdateOneRequiredWithoutLogsNestedInput
+}
+
+export type AccessGrantLogUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  grantId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantLogCreateManyInput = {
+  id?: bigint | number
+  grantId: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type AccessGrantLogUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantLogUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  grantId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantLogListRelationFilter = {
+  every?: Prisma.AccessGrantLogWhereInput
+  some?: Prisma.AccessGrantLogWhereInput
+  none?: Prisma.AccessGrantLogWhereInput
+}
+
+export type AccessGrantLogOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AccessGrantLogCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AccessGrantLogAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type AccessGrantLogMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AccessGrantLogMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AccessGrantLogSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  grantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type AccessGrantLogCreateNestedManyWithoutGrantInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput> | Prisma.AccessGrantLogCreateWithoutGrantInput[] | Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput[]
+  connectOrCreate?: Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput | Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput[]
+  createMany?: Prisma.AccessGrantLogCreateManyGrantInputEnvelope
+  connect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+}
+
+export type AccessGrantLogUncheckedCreateNestedManyWithoutGrantInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput> | Prisma.AccessGrantLogCreateWithoutGrantInput[] | Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput[]
+  connectOrCreate?: Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput | Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput[]
+  createMany?: Prisma.AccessGrantLogCreateManyGrantInputEnvelope
+  connect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+}
+
+export type AccessGrantLogUpdateManyWithoutGrantNestedInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput> | Prisma.AccessGrantLogCreateWithoutGrantInput[] | Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput[]
+  connectOrCreate?: Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput | Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput[]
+  upsert?: Prisma.AccessGrantLogUpsertWithWhereUniqueWithoutGrantInput | Prisma.AccessGrantLogUpsertWithWhereUniqueWithoutGrantInput[]
+  createMany?: Prisma.AccessGrantLogCreateManyGrantInputEnvelope
+  set?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  disconnect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  delete?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  connect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  update?: Prisma.AccessGrantLogUpdateWithWhereUniqueWithoutGrantInput | Prisma.AccessGrantLogUpdateWithWhereUniqueWithoutGrantInput[]
+  updateMany?: Prisma.AccessGrantLogUpdateManyWithWhereWithoutGrantInput | Prisma.AccessGrantLogUpdateManyWithWhereWithoutGrantInput[]
+  deleteMany?: Prisma.AccessGrantLogScalarWhereInput | Prisma.AccessGrantLogScalarWhereInput[]
+}
+
+export type AccessGrantLogUncheckedUpdateManyWithoutGrantNestedInput = {
+  create?: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput> | Prisma.AccessGrantLogCreateWithoutGrantInput[] | Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput[]
+  connectOrCreate?: Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput | Prisma.AccessGrantLogCreateOrConnectWithoutGrantInput[]
+  upsert?: Prisma.AccessGrantLogUpsertWithWhereUniqueWithoutGrantInput | Prisma.AccessGrantLogUpsertWithWhereUniqueWithoutGrantInput[]
+  createMany?: Prisma.AccessGrantLogCreateManyGrantInputEnvelope
+  set?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  disconnect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  delete?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  connect?: Prisma.AccessGrantLogWhereUniqueInput | Prisma.AccessGrantLogWhereUniqueInput[]
+  update?: Prisma.AccessGrantLogUpdateWithWhereUniqueWithoutGrantInput | Prisma.AccessGrantLogUpdateWithWhereUniqueWithoutGrantInput[]
+  updateMany?: Prisma.AccessGrantLogUpdateManyWithWhereWithoutGrantInput | Prisma.AccessGrantLogUpdateManyWithWhereWithoutGrantInput[]
+  deleteMany?: Prisma.AccessGrantLogScalarWhereInput | Prisma.AccessGrantLogScalarWhereInput[]
+}
+
+export type AccessGrantLogCreateWithoutGrantInput = {
+  id?: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type AccessGrantLogUncheckedCreateWithoutGrantInput = {
+  id?: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type AccessGrantLogCreateOrConnectWithoutGrantInput = {
+  where: Prisma.AccessGrantLogWhereUniqueInput
+  create: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput>
+}
+
+export type AccessGrantLogCreateManyGrantInputEnvelope = {
+  data: Prisma.AccessGrantLogCreateManyGrantInput | Prisma.AccessGrantLogCreateManyGrantInput[]
+  skipDuplicates?: boolean
+}
+
+export type AccessGrantLogUpsertWithWhereUniqueWithoutGrantInput = {
+  where: Prisma.AccessGrantLogWhereUniqueInput
+  update: Prisma.XOR<Prisma.AccessGrantLogUpdateWithoutGrantInput, Prisma.AccessGrantLogUncheckedUpdateWithoutGrantInput>
+  create: Prisma.XOR<Prisma.AccessGrantLogCreateWithoutGrantInput, Prisma.AccessGrantLogUncheckedCreateWithoutGrantInput>
+}
+
+export type AccessGrantLogUpdateWithWhereUniqueWithoutGrantInput = {
+  where: Prisma.AccessGrantLogWhereUniqueInput
+  data: Prisma.XOR<Prisma.AccessGrantLogUpdateWithoutGrantInput, Prisma.AccessGrantLogUncheckedUpdateWithoutGrantInput>
+}
+
+export type AccessGrantLogUpdateManyWithWhereWithoutGrantInput = {
+  where: Prisma.AccessGrantLogScalarWhereInput
+  data: Prisma.XOR<Prisma.AccessGrantLogUpdateManyMutationInput, Prisma.AccessGrantLogUncheckedUpdateManyWithoutGrantInput>
+}
+
+export type AccessGrantLogScalarWhereInput = {
+  AND?: Prisma.AccessGrantLogScalarWhereInput | Prisma.AccessGrantLogScalarWhereInput[]
+  OR?: Prisma.AccessGrantLogScalarWhereInput[]
+  NOT?: Prisma.AccessGrantLogScalarWhereInput | Prisma.AccessGrantLogScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"AccessGrantLog"> | bigint | number
+  grantId?: Prisma.BigIntFilter<"AccessGrantLog"> | bigint | number
+  action?: Prisma.StringFilter<"AccessGrantLog"> | string
+  changes?: Prisma.JsonNullableFilter<"AccessGrantLog">
+  reason?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  userId?: Prisma.IntNullableFilter<"AccessGrantLog"> | number | null
+  username?: Prisma.StringNullableFilter<"AccessGrantLog"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AccessGrantLog"> | Date | string
+}
+
+export type AccessGrantLogCreateManyGrantInput = {
+  id?: bigint | number
+  action: string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type AccessGrantLogUpdateWithoutGrantInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantLogUncheckedUpdateWithoutGrantInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AccessGrantLogUncheckedUpdateManyWithoutGrantInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type AccessGrantLogSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  grantId?: boolean
+  action?: boolean
+  changes?: boolean
+  reason?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["accessGrantLog"]>
+
+export type AccessGrantLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  grantId?: boolean
+  action?: boolean
+  changes?: boolean
+  reason?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["accessGrantLog"]>
+
+export type AccessGrantLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  grantId?: boolean
+  action?: boolean
+  changes?: boolean
+  reason?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["accessGrantLog"]>
+
+export type AccessGrantLogSelectScalar = {
+  id?: boolean
+  grantId?: boolean
+  action?: boolean
+  changes?: boolean
+  reason?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+}
+
+export type AccessGrantLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "grantId" | "action" | "changes" | "reason" | "userId" | "username" | "createdAt", ExtArgs["result"]["accessGrantLog"]>
+export type AccessGrantLogInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}
+export type AccessGrantLogIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}
+export type AccessGrantLogIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  grant?: boolean | Prisma.AccessGrantDefaultArgs<ExtArgs>
+}
+
+export type $AccessGrantLogPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AccessGrantLog"
+  objects: {
+    grant: Prisma.$AccessGrantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    grantId: bigint
+    action: string
+    changes: runtime.JsonValue | null
+    reason: string | null
+    userId: number | null
+    username: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["accessGrantLog"]>
+  composites: {}
+}
+
+export type AccessGrantLogGetPayload<S extends boolean | null | undefined | AccessGrantLogDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload, S>
+
+export type AccessGrantLogCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AccessGrantLogFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AccessGrantLogCountAggregateInputType | true
+  }
+
+export interface AccessGrantLogDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AccessGrantLog'], meta: { name: 'AccessGrantLog' } }
+  /**
+   * Find zero or one AccessGrantLog that matches the filter.
+   * @param {AccessGrantLogFindUniqueArgs} args - Arguments to find a AccessGrantLog
+   * @example
+   * // Get one AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AccessGrantLogFindUniqueArgs>(args: Prisma.SelectSubset<T, AccessGrantLogFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AccessGrantLog that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AccessGrantLogFindUniqueOrThrowArgs} args - Arguments to find a AccessGrantLog
+   * @example
+   * // Get one AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AccessGrantLogFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AccessGrantLogFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AccessGrantLog that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogFindFirstArgs} args - Arguments to find a AccessGrantLog
+   * @example
+   * // Get one AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AccessGrantLogFindFirstArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogFindFirstArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AccessGrantLog that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogFindFirstOrThrowArgs} args - Arguments to find a AccessGrantLog
+   * @example
+   * // Get one AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AccessGrantLogFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AccessGrantLogs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AccessGrantLogs
+   * const accessGrantLogs = await prisma.accessGrantLog.findMany()
+   * 
+   * // Get first 10 AccessGrantLogs
+   * const accessGrantLogs = await prisma.accessGrantLog.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const accessGrantLogWithIdOnly = await prisma.accessGrantLog.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AccessGrantLogFindManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AccessGrantLog.
+   * @param {AccessGrantLogCreateArgs} args - Arguments to create a AccessGrantLog.
+   * @example
+   * // Create one AccessGrantLog
+   * const AccessGrantLog = await prisma.accessGrantLog.create({
+   *   data: {
+   *     // ... data to create a AccessGrantLog
+   *   }
+   * })
+   * 
+   */
+  create<T extends AccessGrantLogCreateArgs>(args: Prisma.SelectSubset<T, AccessGrantLogCreateArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AccessGrantLogs.
+   * @param {AccessGrantLogCreateManyArgs} args - Arguments to create many AccessGrantLogs.
+   * @example
+   * // Create many AccessGrantLogs
+   * const accessGrantLog = await prisma.accessGrantLog.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AccessGrantLogCreateManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AccessGrantLogs and returns the data saved in the database.
+   * @param {AccessGrantLogCreateManyAndReturnArgs} args - Arguments to create many AccessGrantLogs.
+   * @example
+   * // Create many AccessGrantLogs
+   * const accessGrantLog = await prisma.accessGrantLog.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AccessGrantLogs and only return the `id`
+   * const accessGrantLogWithIdOnly = await prisma.accessGrantLog.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AccessGrantLogCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AccessGrantLog.
+   * @param {AccessGrantLogDeleteArgs} args - Arguments to delete one AccessGrantLog.
+   * @example
+   * // Delete one AccessGrantLog
+   * const AccessGrantLog = await prisma.accessGrantLog.delete({
+   *   where: {
+   *     // ... filter to delete one AccessGrantLog
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AccessGrantLogDeleteArgs>(args: Prisma.SelectSubset<T, AccessGrantLogDeleteArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AccessGrantLog.
+   * @param {AccessGrantLogUpdateArgs} args - Arguments to update one AccessGrantLog.
+   * @example
+   * // Update one AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AccessGrantLogUpdateArgs>(args: Prisma.SelectSubset<T, AccessGrantLogUpdateArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AccessGrantLogs.
+   * @param {AccessGrantLogDeleteManyArgs} args - Arguments to filter AccessGrantLogs to delete.
+   * @example
+   * // Delete a few AccessGrantLogs
+   * const { count } = await prisma.accessGrantLog.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AccessGrantLogDeleteManyArgs>(args?: Prisma.SelectSubset<T, AccessGrantLogDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AccessGrantLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AccessGrantLogs
+   * const accessGrantLog = await prisma.accessGrantLog.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AccessGrantLogUpdateManyArgs>(args: Prisma.SelectSubset<T, AccessGrantLogUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AccessGrantLogs and returns the data updated in the database.
+   * @param {AccessGrantLogUpdateManyAndReturnArgs} args - Arguments to update many AccessGrantLogs.
+   * @example
+   * // Update many AccessGrantLogs
+   * const accessGrantLog = await prisma.accessGrantLog.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AccessGrantLogs and only return the `id`
+   * const accessGrantLogWithIdOnly = await prisma.accessGrantLog.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AccessGrantLogUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AccessGrantLogUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AccessGrantLog.
+   * @param {AccessGrantLogUpsertArgs} args - Arguments to update or create a AccessGrantLog.
+   * @example
+   * // Update or create a AccessGrantLog
+   * const accessGrantLog = await prisma.accessGrantLog.upsert({
+   *   create: {
+   *     // ... data to create a AccessGrantLog
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AccessGrantLog we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AccessGrantLogUpsertArgs>(args: Prisma.SelectSubset<T, AccessGrantLogUpsertArgs<ExtArgs>>): Prisma.Prisma__AccessGrantLogClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantLogPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AccessGrantLogs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogCountArgs} args - Arguments to filter AccessGrantLogs to count.
+   * @example
+   * // Count the number of AccessGrantLogs
+   * const count = await prisma.accessGrantLog.count({
+   *   where: {
+   *     // ... the filter for the AccessGrantLogs we want to count
+   *   }
+   * })
+  **/
+  count<T extends AccessGrantLogCountArgs>(
+    args?: Prisma.Subset<T, AccessGrantLogCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AccessGrantLogCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AccessGrantLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AccessGrantLogAggregateArgs>(args: Prisma.Subset<T, AccessGrantLogAggregateArgs>): Prisma.PrismaPromise<GetAccessGrantLogAggregateType<T>>
+
+  /**
+   * Group by AccessGrantLog.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AccessGrantLogGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AccessGrantLogGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AccessGrantLogGroupByArgs['orderBy'] }
+      : { orderBy?: AccessGrantLogGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AccessGrantLogGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAccessGrantLogGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AccessGrantLog model
+ */
+readonly fields: AccessGrantLogFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AccessGrantLog.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AccessGrantLogClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  grant<T extends Prisma.AccessGrantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AccessGrantDefaultArgs<ExtArgs>>): Prisma.Prisma__AccessGrantClient<runtime.Types.Result.GetResult<Prisma.$AccessGrantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AccessGrantLog model
+ */
+export interface AccessGrantLogFieldRefs {
+  readonly id: Prisma.FieldRef<"AccessGrantLog", 'BigInt'>
+  readonly grantId: Prisma.FieldRef<"AccessGrantLog", 'BigInt'>
+  readonly action: Prisma.FieldRef<"AccessGrantLog", 'String'>
+  readonly changes: Prisma.FieldRef<"AccessGrantLog", 'Json'>
+  readonly reason: Prisma.FieldRef<"AccessGrantLog", 'String'>
+  readonly userId: Prisma.FieldRef<"AccessGrantLog", 'Int'>
+  readonly username: Prisma.FieldRef<"AccessGrantLog", 'String'>
+  readonly createdAt: Prisma.FieldRef<"AccessGrantLog", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AccessGrantLog findUnique
+ */
+export type AccessGrantLogFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrantLog to fetch.
+   */
+  where: Prisma.AccessGrantLogWhereUniqueInput
+}
+
+/**
+ * AccessGrantLog findUniqueOrThrow
+ */
+export type AccessGrantLogFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrantLog to fetch.
+   */
+  where: Prisma.AccessGrantLogWhereUniqueInput
+}
+
+/**
+ * AccessGrantLog findFirst
+ */
+export type AccessGrantLogFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrantLog to fetch.
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrantLogs to fetch.
+   */
+  orderBy?: Prisma.AccessGrantLogOrderByWithRelationInput | Prisma.AccessGrantLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AccessGrantLogs.
+   */
+  cursor?: Prisma.AccessGrantLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrantLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrantLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AccessGrantLogs.
+   */
+  distinct?: Prisma.AccessGrantLogScalarFieldEnum | Prisma.AccessGrantLogScalarFieldEnum[]
+}
+
+/**
+ * AccessGrantLog findFirstOrThrow
+ */
+export type AccessGrantLogFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrantLog to fetch.
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrantLogs to fetch.
+   */
+  orderBy?: Prisma.AccessGrantLogOrderByWithRelationInput | Prisma.AccessGrantLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AccessGrantLogs.
+   */
+  cursor?: Prisma.AccessGrantLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrantLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrantLogs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AccessGrantLogs.
+   */
+  distinct?: Prisma.AccessGrantLogScalarFieldEnum | Prisma.AccessGrantLogScalarFieldEnum[]
+}
+
+/**
+ * AccessGrantLog findMany
+ */
+export type AccessGrantLogFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter, which AccessGrantLogs to fetch.
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AccessGrantLogs to fetch.
+   */
+  orderBy?: Prisma.AccessGrantLogOrderByWithRelationInput | Prisma.AccessGrantLogOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AccessGrantLogs.
+   */
+  cursor?: Prisma.AccessGrantLogWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AccessGrantLogs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AccessGrantLogs.
+   */
+  skip?: number
+  distinct?: Prisma.AccessGrantLogScalarFieldEnum | Prisma.AccessGrantLogScalarFieldEnum[]
+}
+
+/**
+ * AccessGrantLog create
+ */
+export type AccessGrantLogCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AccessGrantLog.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantLogCreateInput, Prisma.AccessGrantLogUncheckedCreateInput>
+}
+
+/**
+ * AccessGrantLog createMany
+ */
+export type AccessGrantLogCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AccessGrantLogs.
+   */
+  data: Prisma.AccessGrantLogCreateManyInput | Prisma.AccessGrantLogCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AccessGrantLog createManyAndReturn
+ */
+export type AccessGrantLogCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * The data used to create many AccessGrantLogs.
+   */
+  data: Prisma.AccessGrantLogCreateManyInput | Prisma.AccessGrantLogCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AccessGrantLog update
+ */
+export type AccessGrantLogUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AccessGrantLog.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantLogUpdateInput, Prisma.AccessGrantLogUncheckedUpdateInput>
+  /**
+   * Choose, which AccessGrantLog to update.
+   */
+  where: Prisma.AccessGrantLogWhereUniqueInput
+}
+
+/**
+ * AccessGrantLog updateMany
+ */
+export type AccessGrantLogUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AccessGrantLogs.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantLogUpdateManyMutationInput, Prisma.AccessGrantLogUncheckedUpdateManyInput>
+  /**
+   * Filter which AccessGrantLogs to update
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * Limit how many AccessGrantLogs to update.
+   */
+  limit?: number
+}
+
+/**
+ * AccessGrantLog updateManyAndReturn
+ */
+export type AccessGrantLogUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * The data used to update AccessGrantLogs.
+   */
+  data: Prisma.XOR<Prisma.AccessGrantLogUpdateManyMutationInput, Prisma.AccessGrantLogUncheckedUpdateManyInput>
+  /**
+   * Filter which AccessGrantLogs to update
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * Limit how many AccessGrantLogs to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AccessGrantLog upsert
+ */
+export type AccessGrantLogUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AccessGrantLog to update in case it exists.
+   */
+  where: Prisma.AccessGrantLogWhereUniqueInput
+  /**
+   * In case the AccessGrantLog found by the `where` argument doesn't exist, create a new AccessGrantLog with this data.
+   */
+  create: Prisma.XOR<Prisma.AccessGrantLogCreateInput, Prisma.AccessGrantLogUncheckedCreateInput>
+  /**
+   * In case the AccessGrantLog was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AccessGrantLogUpdateInput, Prisma.AccessGrantLogUncheckedUpdateInput>
+}
+
+/**
+ * AccessGrantLog delete
+ */
+export type AccessGrantLogDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+  /**
+   * Filter which AccessGrantLog to delete.
+   */
+  where: Prisma.AccessGrantLogWhereUniqueInput
+}
+
+/**
+ * AccessGrantLog deleteMany
+ */
+export type AccessGrantLogDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AccessGrantLogs to delete
+   */
+  where?: Prisma.AccessGrantLogWhereInput
+  /**
+   * Limit how many AccessGrantLogs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AccessGrantLog without action
+ */
+export type AccessGrantLogDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AccessGrantLog
+   */
+  select?: Prisma.AccessGrantLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AccessGrantLog
+   */
+  omit?: Prisma.AccessGrantLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccessGrantLogInclude<ExtArgs> | null
+}
@@ -46,6 +46,7 @@ export type CategoryMinAggregateOutputType = {
   categoryName: string | null
   weight: number | null
   status: number | null
+  accessLevel: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -57,6 +58,7 @@ export type CategoryMaxAggregateOutputType = {
   categoryName: string | null
   weight: number | null
   status: number | null
+  accessLevel: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -68,6 +70,8 @@ export type CategoryCountAggregateOutputType = {
   categoryName: number
   weight: number
   status: number
+  accessLevel: number
+  nameTranslations: number
   createdAt: number
   updatedAt: number
   isDeleted: number
@@ -95,6 +99,7 @@ export type CategoryMinAggregateInputType = {
   categoryName?: true
   weight?: true
   status?: true
+  accessLevel?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -106,6 +111,7 @@ export type CategoryMaxAggregateInputType = {
   categoryName?: true
   weight?: true
   status?: true
+  accessLevel?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -117,6 +123,8 @@ export type CategoryCountAggregateInputType = {
   categoryName?: true
   weight?: true
   status?: true
+  accessLevel?: true
+  nameTranslations?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -215,6 +223,8 @@ export type CategoryGroupByOutputType = {
   categoryName: string
   weight: number
   status: number
+  accessLevel: string
+  nameTranslations: runtime.JsonValue | null
   createdAt: Date
   updatedAt: Date
   isDeleted: boolean
@@ -249,6 +259,8 @@ export type CategoryWhereInput = {
   categoryName?: Prisma.StringFilter<"Category"> | string
   weight?: Prisma.IntFilter<"Category"> | number
   status?: Prisma.IntFilter<"Category"> | number
+  accessLevel?: Prisma.StringFilter<"Category"> | string
+  nameTranslations?: Prisma.JsonNullableFilter<"Category">
   createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   isDeleted?: Prisma.BoolFilter<"Category"> | boolean
@@ -262,6 +274,8 @@ export type CategoryOrderByWithRelationInput = {
   categoryName?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  nameTranslations?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -278,6 +292,8 @@ export type CategoryWhereUniqueInput = Prisma.AtLeast<{
   categoryName?: Prisma.StringFilter<"Category"> | string
   weight?: Prisma.IntFilter<"Category"> | number
   status?: Prisma.IntFilter<"Category"> | number
+  accessLevel?: Prisma.StringFilter<"Category"> | string
+  nameTranslations?: Prisma.JsonNullableFilter<"Category">
   createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   isDeleted?: Prisma.BoolFilter<"Category"> | boolean
@@ -291,6 +307,8 @@ export type CategoryOrderByWithAggregationInput = {
   categoryName?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  nameTranslations?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -310,6 +328,8 @@ export type CategoryScalarWhereWithAggregatesInput = {
   categoryName?: Prisma.StringWithAggregatesFilter<"Category"> | string
   weight?: Prisma.IntWithAggregatesFilter<"Category"> | number
   status?: Prisma.IntWithAggregatesFilter<"Category"> | number
+  accessLevel?: Prisma.StringWithAggregatesFilter<"Category"> | string
+  nameTranslations?: Prisma.JsonNullableWithAggregatesFilter<"Category">
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Category"> | Date | string
   isDeleted?: Prisma.BoolWithAggregatesFilter<"Category"> | boolean
@@ -320,6 +340,8 @@ export type CategoryCreateInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -333,6 +355,8 @@ export type CategoryUncheckedCreateInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -344,6 +368,8 @@ export type CategoryUpdateInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -357,6 +383,8 @@ export type CategoryUncheckedUpdateInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -369,6 +397,8 @@ export type CategoryCreateManyInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -379,6 +409,8 @@ export type CategoryUpdateManyMutationInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -390,6 +422,8 @@ export type CategoryUncheckedUpdateManyInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -411,6 +445,8 @@ export type CategoryCountOrderByAggregateInput = {
   categoryName?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  nameTranslations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -429,6 +465,7 @@ export type CategoryMaxOrderByAggregateInput = {
   categoryName?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -440,6 +477,7 @@ export type CategoryMinOrderByAggregateInput = {
   categoryName?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -518,6 +556,8 @@ export type CategoryCreateWithoutProjectVersionInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -529,6 +569,8 @@ export type CategoryUncheckedCreateWithoutProjectVersionInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -570,6 +612,8 @@ export type CategoryScalarWhereInput = {
   categoryName?: Prisma.StringFilter<"Category"> | string
   weight?: Prisma.IntFilter<"Category"> | number
   status?: Prisma.IntFilter<"Category"> | number
+  accessLevel?: Prisma.StringFilter<"Category"> | string
+  nameTranslations?: Prisma.JsonNullableFilter<"Category">
   createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   isDeleted?: Prisma.BoolFilter<"Category"> | boolean
@@ -580,6 +624,8 @@ export type CategoryCreateWithoutNoteInfosInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -592,6 +638,8 @@ export type CategoryUncheckedCreateWithoutNoteInfosInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -618,6 +666,8 @@ export type CategoryUpdateWithoutNoteInfosInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -630,6 +680,8 @@ export type CategoryUncheckedUpdateWithoutNoteInfosInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -640,6 +692,8 @@ export type CategoryCreateManyProjectVersionInput = {
   categoryName: string
   weight: number
   status: number
+  accessLevel?: string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -650,6 +704,8 @@ export type CategoryUpdateWithoutProjectVersionInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -661,6 +717,8 @@ export type CategoryUncheckedUpdateWithoutProjectVersionInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -672,6 +730,8 @@ export type CategoryUncheckedUpdateManyWithoutProjectVersionInput = {
   categoryName?: Prisma.StringFieldUpdateOperationsInput | string
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  nameTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -714,6 +774,8 @@ export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   categoryName?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  nameTranslations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -728,6 +790,8 @@ export type CategorySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   categoryName?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  nameTranslations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -740,6 +804,8 @@ export type CategorySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   categoryName?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  nameTranslations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -752,12 +818,14 @@ export type CategorySelectScalar = {
   categoryName?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  nameTranslations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
 }
 
-export type CategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectVersionId" | "categoryName" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["category"]>
+export type CategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectVersionId" | "categoryName" | "weight" | "status" | "accessLevel" | "nameTranslations" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["category"]>
 export type CategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   projectVersion?: boolean | Prisma.ProjectVersionDefaultArgs<ExtArgs>
   noteInfos?: boolean | Prisma.Category$noteInfosArgs<ExtArgs>
@@ -782,6 +850,8 @@ export type $CategoryPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     categoryName: string
     weight: number
     status: number
+    accessLevel: string
+    nameTranslations: runtime.JsonValue | null
     createdAt: Date
     updatedAt: Date
     isDeleted: boolean
@@ -1215,6 +1285,8 @@ export interface CategoryFieldRefs {
   readonly categoryName: Prisma.FieldRef<"Category", 'String'>
   readonly weight: Prisma.FieldRef<"Category", 'Int'>
   readonly status: Prisma.FieldRef<"Category", 'Int'>
+  readonly accessLevel: Prisma.FieldRef<"Category", 'String'>
+  readonly nameTranslations: Prisma.FieldRef<"Category", 'Json'>
   readonly createdAt: Prisma.FieldRef<"Category", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Category", 'DateTime'>
   readonly isDeleted: Prisma.FieldRef<"Category", 'Boolean'>
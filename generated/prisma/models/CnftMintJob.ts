@@ -0,0 +1,1544 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CnftMintJob` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CnftMintJob
+ * cNFT 批量铸造任务表：一次为一批接收者铸造同一项目的访问凭证（schema: public）
+ */
+export type CnftMintJobModel = runtime.Types.Result.DefaultSelection<Prisma.$CnftMintJobPayload>
+
+export type AggregateCnftMintJob = {
+  _count: CnftMintJobCountAggregateOutputType | null
+  _avg: CnftMintJobAvgAggregateOutputType | null
+  _sum: CnftMintJobSumAggregateOutputType | null
+  _min: CnftMintJobMinAggregateOutputType | null
+  _max: CnftMintJobMaxAggregateOutputType | null
+}
+
+export type CnftMintJobAvgAggregateOutputType = {
+  id: number | null
+  projectId: number | null
+  total: number | null
+  status: number | null
+}
+
+export type CnftMintJobSumAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  total: number | null
+  status: number | null
+}
+
+export type CnftMintJobMinAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  network: string | null
+  name: string | null
+  symbol: string | null
+  metadataUri: string | null
+  total: number | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftMintJobMaxAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  network: string | null
+  name: string | null
+  symbol: string | null
+  metadataUri: string | null
+  total: number | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftMintJobCountAggregateOutputType = {
+  id: number
+  projectId: number
+  network: number
+  name: number
+  symbol: number
+  metadataUri: number
+  total: number
+  status: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CnftMintJobAvgAggregateInputType = {
+  id?: true
+  projectId?: true
+  total?: true
+  status?: true
+}
+
+export type CnftMintJobSumAggregateInputType = {
+  id?: true
+  projectId?: true
+  total?: true
+  status?: true
+}
+
+export type CnftMintJobMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  total?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftMintJobMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  total?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftMintJobCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  total?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CnftMintJobAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftMintJob to aggregate.
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobs to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobOrderByWithRelationInput | Prisma.CnftMintJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CnftMintJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CnftMintJobs
+  **/
+  _count?: true | CnftMintJobCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CnftMintJobAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CnftMintJobSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CnftMintJobMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CnftMintJobMaxAggregateInputType
+}
+
+export type GetCnftMintJobAggregateType<T extends CnftMintJobAggregateArgs> = {
+      [P in keyof T & keyof AggregateCnftMintJob]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCnftMintJob[P]>
+    : Prisma.GetScalarType<T[P], AggregateCnftMintJob[P]>
+}
+
+
+
+
+export type CnftMintJobGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftMintJobWhereInput
+  orderBy?: Prisma.CnftMintJobOrderByWithAggregationInput | Prisma.CnftMintJobOrderByWithAggregationInput[]
+  by: Prisma.CnftMintJobScalarFieldEnum[] | Prisma.CnftMintJobScalarFieldEnum
+  having?: Prisma.CnftMintJobScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CnftMintJobCountAggregateInputType | true
+  _avg?: CnftMintJobAvgAggregateInputType
+  _sum?: CnftMintJobSumAggregateInputType
+  _min?: CnftMintJobMinAggregateInputType
+  _max?: CnftMintJobMaxAggregateInputType
+}
+
+export type CnftMintJobGroupByOutputType = {
+  id: bigint
+  projectId: bigint
+  network: string
+  name: string
+  symbol: string | null
+  metadataUri: string | null
+  total: number
+  status: number
+  createdAt: Date
+  updatedAt: Date
+  _count: CnftMintJobCountAggregateOutputType | null
+  _avg: CnftMintJobAvgAggregateOutputType | null
+  _sum: CnftMintJobSumAggregateOutputType | null
+  _min: CnftMintJobMinAggregateOutputType | null
+  _max: CnftMintJobMaxAggregateOutputType | null
+}
+
+type GetCnftMintJobGroupByPayload<T extends CnftMintJobGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CnftMintJobGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CnftMintJobGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CnftMintJobGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CnftMintJobGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CnftMintJobWhereInput = {
+  AND?: Prisma.CnftMintJobWhereInput | Prisma.CnftMintJobWhereInput[]
+  OR?: Prisma.CnftMintJobWhereInput[]
+  NOT?: Prisma.CnftMintJobWhereInput | Prisma.CnftMintJobWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftMintJob"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"CnftMintJob"> | bigint | number
+  network?: Prisma.StringFilter<"CnftMintJob"> | string
+  name?: Prisma.StringFilter<"CnftMintJob"> | string
+  symbol?: Prisma.StringNullableFilter<"CnftMintJob"> | string | null
+  metadataUri?: Prisma.StringNullableFilter<"CnftMintJob"> | string | null
+  total?: Prisma.IntFilter<"CnftMintJob"> | number
+  status?: Prisma.IntFilter<"CnftMintJob"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftMintJob"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftMintJob"> | Date | string
+  items?: Prisma.CnftMintJobItemListRelationFilter
+}
+
+export type CnftMintJobOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadataUri?: Prisma.SortOrderInput | Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  items?: Prisma.CnftMintJobItemOrderByRelationAggregateInput
+}
+
+export type CnftMintJobWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.CnftMintJobWhereInput | Prisma.CnftMintJobWhereInput[]
+  OR?: Prisma.CnftMintJobWhereInput[]
+  NOT?: Prisma.CnftMintJobWhereInput | Prisma.CnftMintJobWhereInput[]
+  projectId?: Prisma.BigIntFilter<"CnftMintJob"> | bigint | number
+  network?: Prisma.StringFilter<"CnftMintJob"> | string
+  name?: Prisma.StringFilter<"CnftMintJob"> | string
+  symbol?: Prisma.StringNullableFilter<"CnftMintJob"> | string | null
+  metadataUri?: Prisma.StringNullableFilter<"CnftMintJob"> | string | null
+  total?: Prisma.IntFilter<"CnftMintJob"> | number
+  status?: Prisma.IntFilter<"CnftMintJob"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftMintJob"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftMintJob"> | Date | string
+  items?: Prisma.CnftMintJobItemListRelationFilter
+}, "id">
+
+export type CnftMintJobOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadataUri?: Prisma.SortOrderInput | Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CnftMintJobCountOrderByAggregateInput
+  _avg?: Prisma.CnftMintJobAvgOrderByAggregateInput
+  _max?: Prisma.CnftMintJobMaxOrderByAggregateInput
+  _min?: Prisma.CnftMintJobMinOrderByAggregateInput
+  _sum?: Prisma.CnftMintJobSumOrderByAggregateInput
+}
+
+export type CnftMintJobScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CnftMintJobScalarWhereWithAggregatesInput | Prisma.CnftMintJobScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CnftMintJobScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CnftMintJobScalarWhereWithAggregatesInput | Prisma.CnftMintJobScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"CnftMintJob"> | bigint | number
+  projectId?: Prisma.BigIntWithAggregatesFilter<"CnftMintJob"> | bigint | number
+  network?: Prisma.StringWithAggregatesFilter<"CnftMintJob"> | string
+  name?: Prisma.StringWithAggregatesFilter<"CnftMintJob"> | string
+  symbol?: Prisma.StringNullableWithAggregatesFilter<"CnftMintJob"> | string | null
+  metadataUri?: Prisma.StringNullableWithAggregatesFilter<"CnftMintJob"> | string | null
+  total?: Prisma.IntWithAggregatesFilter<"CnftMintJob"> | number
+  status?: Prisma.IntWithAggregatesFilter<"CnftMintJob"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CnftMintJob"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CnftMintJob"> | Date | string
+}
+
+export type CnftMintJobCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  total?: number
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.CnftMintJobItemCreateNestedManyWithoutJobInput
+}
+
+export type CnftMintJobUncheckedCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  total?: number
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.CnftMintJobItemUncheckedCreateNestedManyWithoutJobInput
+}
+
+export type CnftMintJobUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.CnftMintJobItemUpdateManyWithoutJobNestedInput
+}
+
+export type CnftMintJobUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.CnftMintJobItemUncheckedUpdateManyWithoutJobNestedInput
+}
+
+export type CnftMintJobCreateManyInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  total?: number
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftMintJobMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  total?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftMintJobScalarRelationFilter = {
+  is?: Prisma.CnftMintJobWhereInput
+  isNot?: Prisma.CnftMintJobWhereInput
+}
+
+export type CnftMintJobCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobCreateWithoutItemsInput, Prisma.CnftMintJobUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.CnftMintJobCreateOrConnectWithoutItemsInput
+  connect?: Prisma.CnftMintJobWhereUniqueInput
+}
+
+export type CnftMintJobUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobCreateWithoutItemsInput, Prisma.CnftMintJobUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.CnftMintJobCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.CnftMintJobUpsertWithoutItemsInput
+  connect?: Prisma.CnftMintJobWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CnftMintJobUpdateToOneWithWhereWithoutItemsInput, Prisma.CnftMintJobUpdateWithoutItemsInput>, Prisma.CnftMintJobUncheckedUpdateWithoutItemsInput>
+}
+
+export type CnftMintJobCreateWithoutItemsInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  total?: number
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobUncheckedCreateWithoutItemsInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  total?: number
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobCreateOrConnectWithoutItemsInput = {
+  where: Prisma.CnftMintJobWhereUniqueInput
+  create: Prisma.XOR<Prisma.CnftMintJobCreateWithoutItemsInput, Prisma.CnftMintJobUncheckedCreateWithoutItemsInput>
+}
+
+export type CnftMintJobUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.CnftMintJobUpdateWithoutItemsInput, Prisma.CnftMintJobUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.CnftMintJobCreateWithoutItemsInput, Prisma.CnftMintJobUncheckedCreateWithoutItemsInput>
+  where?: Prisma.CnftMintJobWhereInput
+}
+
+export type CnftMintJobUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.CnftMintJobWhereInput
+  data: Prisma.XOR<Prisma.CnftMintJobUpdateWithoutItemsInput, Prisma.CnftMintJobUncheckedUpdateWithoutItemsInput>
+}
+
+export type CnftMintJobUpdateWithoutItemsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  total?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type CnftMintJobCountOutputType
+ */
+
+export type CnftMintJobCountOutputType = {
+  items: number
+}
+
+export type CnftMintJobCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | CnftMintJobCountOutputTypeCountItemsArgs
+}
+
+/**
+ * CnftMintJobCountOutputType without action
+ */
+export type CnftMintJobCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobCountOutputType
+   */
+  select?: Prisma.CnftMintJobCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CnftMintJobCountOutputType without action
+ */
+export type CnftMintJobCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftMintJobItemWhereInput
+}
+
+
+export type CnftMintJobSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  total?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  items?: boolean | Prisma.CnftMintJob$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.CnftMintJobCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftMintJob"]>
+
+export type CnftMintJobSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  total?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["cnftMintJob"]>
+
+export type CnftMintJobSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  total?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["cnftMintJob"]>
+
+export type CnftMintJobSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  total?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CnftMintJobOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "network" | "name" | "symbol" | "metadataUri" | "total" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["cnftMintJob"]>
+export type CnftMintJobInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | Prisma.CnftMintJob$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.CnftMintJobCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CnftMintJobIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type CnftMintJobIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $CnftMintJobPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CnftMintJob"
+  objects: {
+    items: Prisma.$CnftMintJobItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    projectId: bigint
+    network: string
+    name: string
+    symbol: string | null
+    metadataUri: string | null
+    total: number
+    status: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["cnftMintJob"]>
+  composites: {}
+}
+
+export type CnftMintJobGetPayload<S extends boolean | null | undefined | CnftMintJobDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload, S>
+
+export type CnftMintJobCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CnftMintJobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CnftMintJobCountAggregateInputType | true
+  }
+
+export interface CnftMintJobDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CnftMintJob'], meta: { name: 'CnftMintJob' } }
+  /**
+   * Find zero or one CnftMintJob that matches the filter.
+   * @param {CnftMintJobFindUniqueArgs} args - Arguments to find a CnftMintJob
+   * @example
+   * // Get one CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CnftMintJobFindUniqueArgs>(args: Prisma.SelectSubset<T, CnftMintJobFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CnftMintJob that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CnftMintJobFindUniqueOrThrowArgs} args - Arguments to find a CnftMintJob
+   * @example
+   * // Get one CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CnftMintJobFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CnftMintJobFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftMintJob that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobFindFirstArgs} args - Arguments to find a CnftMintJob
+   * @example
+   * // Get one CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CnftMintJobFindFirstArgs>(args?: Prisma.SelectSubset<T, CnftMintJobFindFirstArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftMintJob that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobFindFirstOrThrowArgs} args - Arguments to find a CnftMintJob
+   * @example
+   * // Get one CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CnftMintJobFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CnftMintJobFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CnftMintJobs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CnftMintJobs
+   * const cnftMintJobs = await prisma.cnftMintJob.findMany()
+   * 
+   * // Get first 10 CnftMintJobs
+   * const cnftMintJobs = await prisma.cnftMintJob.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cnftMintJobWithIdOnly = await prisma.cnftMintJob.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CnftMintJobFindManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CnftMintJob.
+   * @param {CnftMintJobCreateArgs} args - Arguments to create a CnftMintJob.
+   * @example
+   * // Create one CnftMintJob
+   * const CnftMintJob = await prisma.cnftMintJob.create({
+   *   data: {
+   *     // ... data to create a CnftMintJob
+   *   }
+   * })
+   * 
+   */
+  create<T extends CnftMintJobCreateArgs>(args: Prisma.SelectSubset<T, CnftMintJobCreateArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CnftMintJobs.
+   * @param {CnftMintJobCreateManyArgs} args - Arguments to create many CnftMintJobs.
+   * @example
+   * // Create many CnftMintJobs
+   * const cnftMintJob = await prisma.cnftMintJob.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CnftMintJobCreateManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CnftMintJobs and returns the data saved in the database.
+   * @param {CnftMintJobCreateManyAndReturnArgs} args - Arguments to create many CnftMintJobs.
+   * @example
+   * // Create many CnftMintJobs
+   * const cnftMintJob = await prisma.cnftMintJob.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CnftMintJobs and only return the `id`
+   * const cnftMintJobWithIdOnly = await prisma.cnftMintJob.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CnftMintJobCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CnftMintJobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CnftMintJob.
+   * @param {CnftMintJobDeleteArgs} args - Arguments to delete one CnftMintJob.
+   * @example
+   * // Delete one CnftMintJob
+   * const CnftMintJob = await prisma.cnftMintJob.delete({
+   *   where: {
+   *     // ... filter to delete one CnftMintJob
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CnftMintJobDeleteArgs>(args: Prisma.SelectSubset<T, CnftMintJobDeleteArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CnftMintJob.
+   * @param {CnftMintJobUpdateArgs} args - Arguments to update one CnftMintJob.
+   * @example
+   * // Update one CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CnftMintJobUpdateArgs>(args: Prisma.SelectSubset<T, CnftMintJobUpdateArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CnftMintJobs.
+   * @param {CnftMintJobDeleteManyArgs} args - Arguments to filter CnftMintJobs to delete.
+   * @example
+   * // Delete a few CnftMintJobs
+   * const { count } = await prisma.cnftMintJob.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CnftMintJobDeleteManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftMintJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CnftMintJobs
+   * const cnftMintJob = await prisma.cnftMintJob.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CnftMintJobUpdateManyArgs>(args: Prisma.SelectSubset<T, CnftMintJobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftMintJobs and returns the data updated in the database.
+   * @param {CnftMintJobUpdateManyAndReturnArgs} args - Arguments to update many CnftMintJobs.
+   * @example
+   * // Update many CnftMintJobs
+   * const cnftMintJob = await prisma.cnftMintJob.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CnftMintJobs and only return the `id`
+   * const cnftMintJobWithIdOnly = await prisma.cnftMintJob.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CnftMintJobUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CnftMintJobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CnftMintJob.
+   * @param {CnftMintJobUpsertArgs} args - Arguments to update or create a CnftMintJob.
+   * @example
+   * // Update or create a CnftMintJob
+   * const cnftMintJob = await prisma.cnftMintJob.upsert({
+   *   create: {
+   *     // ... data to create a CnftMintJob
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CnftMintJob we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CnftMintJobUpsertArgs>(args: Prisma.SelectSubset<T, CnftMintJobUpsertArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CnftMintJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobCountArgs} args - Arguments to filter CnftMintJobs to count.
+   * @example
+   * // Count the number of CnftMintJobs
+   * const count = await prisma.cnftMintJob.count({
+   *   where: {
+   *     // ... the filter for the CnftMintJobs we want to count
+   *   }
+   * })
+  **/
+  count<T extends CnftMintJobCountArgs>(
+    args?: Prisma.Subset<T, CnftMintJobCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CnftMintJobCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CnftMintJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CnftMintJobAggregateArgs>(args: Prisma.Subset<T, CnftMintJobAggregateArgs>): Prisma.PrismaPromise<GetCnftMintJobAggregateType<T>>
+
+  /**
+   * Group by CnftMintJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CnftMintJobGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CnftMintJobGroupByArgs['orderBy'] }
+      : { orderBy?: CnftMintJobGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CnftMintJobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCnftMintJobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CnftMintJob model
+ */
+readonly fields: CnftMintJobFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CnftMintJob.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CnftMintJobClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  items<T extends Prisma.CnftMintJob$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CnftMintJob$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CnftMintJob model
+ */
+export interface CnftMintJobFieldRefs {
+  readonly id: Prisma.FieldRef<"CnftMintJob", 'BigInt'>
+  readonly projectId: Prisma.FieldRef<"CnftMintJob", 'BigInt'>
+  readonly network: Prisma.FieldRef<"CnftMintJob", 'String'>
+  readonly name: Prisma.FieldRef<"CnftMintJob", 'String'>
+  readonly symbol: Prisma.FieldRef<"CnftMintJob", 'String'>
+  readonly metadataUri: Prisma.FieldRef<"CnftMintJob", 'String'>
+  readonly total: Prisma.FieldRef<"CnftMintJob", 'Int'>
+  readonly status: Prisma.FieldRef<"CnftMintJob", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"CnftMintJob", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CnftMintJob", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CnftMintJob findUnique
+ */
+export type CnftMintJobFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJob to fetch.
+   */
+  where: Prisma.CnftMintJobWhereUniqueInput
+}
+
+/**
+ * CnftMintJob findUniqueOrThrow
+ */
+export type CnftMintJobFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJob to fetch.
+   */
+  where: Prisma.CnftMintJobWhereUniqueInput
+}
+
+/**
+ * CnftMintJob findFirst
+ */
+export type CnftMintJobFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJob to fetch.
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobs to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobOrderByWithRelationInput | Prisma.CnftMintJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftMintJobs.
+   */
+  cursor?: Prisma.CnftMintJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftMintJobs.
+   */
+  distinct?: Prisma.CnftMintJobScalarFieldEnum | Prisma.CnftMintJobScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJob findFirstOrThrow
+ */
+export type CnftMintJobFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJob to fetch.
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobs to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobOrderByWithRelationInput | Prisma.CnftMintJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftMintJobs.
+   */
+  cursor?: Prisma.CnftMintJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftMintJobs.
+   */
+  distinct?: Prisma.CnftMintJobScalarFieldEnum | Prisma.CnftMintJobScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJob findMany
+ */
+export type CnftMintJobFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobs to fetch.
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobs to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobOrderByWithRelationInput | Prisma.CnftMintJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CnftMintJobs.
+   */
+  cursor?: Prisma.CnftMintJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobs.
+   */
+  skip?: number
+  distinct?: Prisma.CnftMintJobScalarFieldEnum | Prisma.CnftMintJobScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJob create
+ */
+export type CnftMintJobCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CnftMintJob.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobCreateInput, Prisma.CnftMintJobUncheckedCreateInput>
+}
+
+/**
+ * CnftMintJob createMany
+ */
+export type CnftMintJobCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CnftMintJobs.
+   */
+  data: Prisma.CnftMintJobCreateManyInput | Prisma.CnftMintJobCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CnftMintJob createManyAndReturn
+ */
+export type CnftMintJobCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * The data used to create many CnftMintJobs.
+   */
+  data: Prisma.CnftMintJobCreateManyInput | Prisma.CnftMintJobCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CnftMintJob update
+ */
+export type CnftMintJobUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CnftMintJob.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobUpdateInput, Prisma.CnftMintJobUncheckedUpdateInput>
+  /**
+   * Choose, which CnftMintJob to update.
+   */
+  where: Prisma.CnftMintJobWhereUniqueInput
+}
+
+/**
+ * CnftMintJob updateMany
+ */
+export type CnftMintJobUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CnftMintJobs.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobUpdateManyMutationInput, Prisma.CnftMintJobUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftMintJobs to update
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * Limit how many CnftMintJobs to update.
+   */
+  limit?: number
+}
+
+/**
+ * CnftMintJob updateManyAndReturn
+ */
+export type CnftMintJobUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * The data used to update CnftMintJobs.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobUpdateManyMutationInput, Prisma.CnftMintJobUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftMintJobs to update
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * Limit how many CnftMintJobs to update.
+   */
+  limit?: number
+}
+
+/**
+ * CnftMintJob upsert
+ */
+export type CnftMintJobUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CnftMintJob to update in case it exists.
+   */
+  where: Prisma.CnftMintJobWhereUniqueInput
+  /**
+   * In case the CnftMintJob found by the `where` argument doesn't exist, create a new CnftMintJob with this data.
+   */
+  create: Prisma.XOR<Prisma.CnftMintJobCreateInput, Prisma.CnftMintJobUncheckedCreateInput>
+  /**
+   * In case the CnftMintJob was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CnftMintJobUpdateInput, Prisma.CnftMintJobUncheckedUpdateInput>
+}
+
+/**
+ * CnftMintJob delete
+ */
+export type CnftMintJobDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+  /**
+   * Filter which CnftMintJob to delete.
+   */
+  where: Prisma.CnftMintJobWhereUniqueInput
+}
+
+/**
+ * CnftMintJob deleteMany
+ */
+export type CnftMintJobDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftMintJobs to delete
+   */
+  where?: Prisma.CnftMintJobWhereInput
+  /**
+   * Limit how many CnftMintJobs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CnftMintJob.items
+ */
+export type CnftMintJob$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  where?: Prisma.CnftMintJobItemWhereInput
+  orderBy?: Prisma.CnftMintJobItemOrderByWithRelationInput | Prisma.CnftMintJobItemOrderByWithRelationInput[]
+  cursor?: Prisma.CnftMintJobItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CnftMintJobItemScalarFieldEnum | Prisma.CnftMintJobItemScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJob without action
+ */
+export type CnftMintJobDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJob
+   */
+  select?: Prisma.CnftMintJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJob
+   */
+  omit?: Prisma.CnftMintJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobInclude<ExtArgs> | null
+}
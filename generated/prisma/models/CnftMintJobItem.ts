@@ -0,0 +1,1659 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CnftMintJobItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CnftMintJobItem
+ * cNFT 批量铸造明细表：记录每个接收者的铸造进度、失败原因与重试次数（schema: public）
+ */
+export type CnftMintJobItemModel = runtime.Types.Result.DefaultSelection<Prisma.$CnftMintJobItemPayload>
+
+export type AggregateCnftMintJobItem = {
+  _count: CnftMintJobItemCountAggregateOutputType | null
+  _avg: CnftMintJobItemAvgAggregateOutputType | null
+  _sum: CnftMintJobItemSumAggregateOutputType | null
+  _min: CnftMintJobItemMinAggregateOutputType | null
+  _max: CnftMintJobItemMaxAggregateOutputType | null
+}
+
+export type CnftMintJobItemAvgAggregateOutputType = {
+  id: number | null
+  jobId: number | null
+  rowNumber: number | null
+  cnftId: number | null
+  attempts: number | null
+  status: number | null
+}
+
+export type CnftMintJobItemSumAggregateOutputType = {
+  id: bigint | null
+  jobId: bigint | null
+  rowNumber: number | null
+  cnftId: bigint | null
+  attempts: number | null
+  status: number | null
+}
+
+export type CnftMintJobItemMinAggregateOutputType = {
+  id: bigint | null
+  jobId: bigint | null
+  rowNumber: number | null
+  ownerAddress: string | null
+  name: string | null
+  cnftId: bigint | null
+  txSignature: string | null
+  attempts: number | null
+  errorMessage: string | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftMintJobItemMaxAggregateOutputType = {
+  id: bigint | null
+  jobId: bigint | null
+  rowNumber: number | null
+  ownerAddress: string | null
+  name: string | null
+  cnftId: bigint | null
+  txSignature: string | null
+  attempts: number | null
+  errorMessage: string | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftMintJobItemCountAggregateOutputType = {
+  id: number
+  jobId: number
+  rowNumber: number
+  ownerAddress: number
+  name: number
+  cnftId: number
+  txSignature: number
+  attempts: number
+  errorMessage: number
+  status: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CnftMintJobItemAvgAggregateInputType = {
+  id?: true
+  jobId?: true
+  rowNumber?: true
+  cnftId?: true
+  attempts?: true
+  status?: true
+}
+
+export type CnftMintJobItemSumAggregateInputType = {
+  id?: true
+  jobId?: true
+  rowNumber?: true
+  cnftId?: true
+  attempts?: true
+  status?: true
+}
+
+export type CnftMintJobItemMinAggregateInputType = {
+  id?: true
+  jobId?: true
+  rowNumber?: true
+  ownerAddress?: true
+  name?: true
+  cnftId?: true
+  txSignature?: true
+  attempts?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftMintJobItemMaxAggregateInputType = {
+  id?: true
+  jobId?: true
+  rowNumber?: true
+  ownerAddress?: true
+  name?: true
+  cnftId?: true
+  txSignature?: true
+  attempts?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftMintJobItemCountAggregateInputType = {
+  id?: true
+  jobId?: true
+  rowNumber?: true
+  ownerAddress?: true
+  name?: true
+  cnftId?: true
+  txSignature?: true
+  attempts?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CnftMintJobItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftMintJobItem to aggregate.
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobItems to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobItemOrderByWithRelationInput | Prisma.CnftMintJobItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CnftMintJobItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CnftMintJobItems
+  **/
+  _count?: true | CnftMintJobItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CnftMintJobItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CnftMintJobItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CnftMintJobItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CnftMintJobItemMaxAggregateInputType
+}
+
+export type GetCnftMintJobItemAggregateType<T extends CnftMintJobItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateCnftMintJobItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCnftMintJobItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateCnftMintJobItem[P]>
+}
+
+
+
+
+export type CnftMintJobItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftMintJobItemWhereInput
+  orderBy?: Prisma.CnftMintJobItemOrderByWithAggregationInput | Prisma.CnftMintJobItemOrderByWithAggregationInput[]
+  by: Prisma.CnftMintJobItemScalarFieldEnum[] | Prisma.CnftMintJobItemScalarFieldEnum
+  having?: Prisma.CnftMintJobItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CnftMintJobItemCountAggregateInputType | true
+  _avg?: CnftMintJobItemAvgAggregateInputType
+  _sum?: CnftMintJobItemSumAggregateInputType
+  _min?: CnftMintJobItemMinAggregateInputType
+  _max?: CnftMintJobItemMaxAggregateInputType
+}
+
+export type CnftMintJobItemGroupByOutputType = {
+  id: bigint
+  jobId: bigint
+  rowNumber: number
+  ownerAddress: string
+  name: string | null
+  cnftId: bigint | null
+  txSignature: string | null
+  attempts: number
+  errorMessage: string | null
+  status: number
+  createdAt: Date
+  updatedAt: Date
+  _count: CnftMintJobItemCountAggregateOutputType | null
+  _avg: CnftMintJobItemAvgAggregateOutputType | null
+  _sum: CnftMintJobItemSumAggregateOutputType | null
+  _min: CnftMintJobItemMinAggregateOutputType | null
+  _max: CnftMintJobItemMaxAggregateOutputType | null
+}
+
+type GetCnftMintJobItemGroupByPayload<T extends CnftMintJobItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CnftMintJobItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CnftMintJobItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CnftMintJobItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CnftMintJobItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CnftMintJobItemWhereInput = {
+  AND?: Prisma.CnftMintJobItemWhereInput | Prisma.CnftMintJobItemWhereInput[]
+  OR?: Prisma.CnftMintJobItemWhereInput[]
+  NOT?: Prisma.CnftMintJobItemWhereInput | Prisma.CnftMintJobItemWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftMintJobItem"> | bigint | number
+  jobId?: Prisma.BigIntFilter<"CnftMintJobItem"> | bigint | number
+  rowNumber?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  ownerAddress?: Prisma.StringFilter<"CnftMintJobItem"> | string
+  name?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  cnftId?: Prisma.BigIntNullableFilter<"CnftMintJobItem"> | bigint | number | null
+  txSignature?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  attempts?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  errorMessage?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  status?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+  job?: Prisma.XOR<Prisma.CnftMintJobScalarRelationFilter, Prisma.CnftMintJobWhereInput>
+}
+
+export type CnftMintJobItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  cnftId?: Prisma.SortOrderInput | Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  job?: Prisma.CnftMintJobOrderByWithRelationInput
+}
+
+export type CnftMintJobItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.CnftMintJobItemWhereInput | Prisma.CnftMintJobItemWhereInput[]
+  OR?: Prisma.CnftMintJobItemWhereInput[]
+  NOT?: Prisma.CnftMintJobItemWhereInput | Prisma.CnftMintJobItemWhereInput[]
+  jobId?: Prisma.BigIntFilter<"CnftMintJobItem"> | bigint | number
+  rowNumber?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  ownerAddress?: Prisma.StringFilter<"CnftMintJobItem"> | string
+  name?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  cnftId?: Prisma.BigIntNullableFilter<"CnftMintJobItem"> | bigint | number | null
+  txSignature?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  attempts?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  errorMessage?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  status?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+  job?: Prisma.XOR<Prisma.CnftMintJobScalarRelationFilter, Prisma.CnftMintJobWhereInput>
+}, "id">
+
+export type CnftMintJobItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  cnftId?: Prisma.SortOrderInput | Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CnftMintJobItemCountOrderByAggregateInput
+  _avg?: Prisma.CnftMintJobItemAvgOrderByAggregateInput
+  _max?: Prisma.CnftMintJobItemMaxOrderByAggregateInput
+  _min?: Prisma.CnftMintJobItemMinOrderByAggregateInput
+  _sum?: Prisma.CnftMintJobItemSumOrderByAggregateInput
+}
+
+export type CnftMintJobItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CnftMintJobItemScalarWhereWithAggregatesInput | Prisma.CnftMintJobItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CnftMintJobItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CnftMintJobItemScalarWhereWithAggregatesInput | Prisma.CnftMintJobItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"CnftMintJobItem"> | bigint | number
+  jobId?: Prisma.BigIntWithAggregatesFilter<"CnftMintJobItem"> | bigint | number
+  rowNumber?: Prisma.IntWithAggregatesFilter<"CnftMintJobItem"> | number
+  ownerAddress?: Prisma.StringWithAggregatesFilter<"CnftMintJobItem"> | string
+  name?: Prisma.StringNullableWithAggregatesFilter<"CnftMintJobItem"> | string | null
+  cnftId?: Prisma.BigIntNullableWithAggregatesFilter<"CnftMintJobItem"> | bigint | number | null
+  txSignature?: Prisma.StringNullableWithAggregatesFilter<"CnftMintJobItem"> | string | null
+  attempts?: Prisma.IntWithAggregatesFilter<"CnftMintJobItem"> | number
+  errorMessage?: Prisma.StringNullableWithAggregatesFilter<"CnftMintJobItem"> | string | null
+  status?: Prisma.IntWithAggregatesFilter<"CnftMintJobItem"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CnftMintJobItem"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CnftMintJobItem"> | Date | string
+}
+
+export type CnftMintJobItemCreateInput = {
+  id?: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  job: Prisma.CnftMintJobCreateNestedOneWithoutItemsInput
+}
+
+export type CnftMintJobItemUncheckedCreateInput = {
+  id?: bigint | number
+  jobId: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobItemUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  job?: Prisma.CnftMintJobUpdateOneRequiredWithoutItemsNestedInput
+}
+
+export type CnftMintJobItemUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  jobId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobItemCreateManyInput = {
+  id?: bigint | number
+  jobId: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobItemUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobItemUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  jobId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobItemListRelationFilter = {
+  every?: Prisma.CnftMintJobItemWhereInput
+  some?: Prisma.CnftMintJobItemWhereInput
+  none?: Prisma.CnftMintJobItemWhereInput
+}
+
+export type CnftMintJobItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  ownerAddress?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  rowNumber?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftMintJobItemCreateNestedManyWithoutJobInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput> | Prisma.CnftMintJobItemCreateWithoutJobInput[] | Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput[]
+  connectOrCreate?: Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput | Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput[]
+  createMany?: Prisma.CnftMintJobItemCreateManyJobInputEnvelope
+  connect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+}
+
+export type CnftMintJobItemUncheckedCreateNestedManyWithoutJobInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput> | Prisma.CnftMintJobItemCreateWithoutJobInput[] | Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput[]
+  connectOrCreate?: Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput | Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput[]
+  createMany?: Prisma.CnftMintJobItemCreateManyJobInputEnvelope
+  connect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+}
+
+export type CnftMintJobItemUpdateManyWithoutJobNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput> | Prisma.CnftMintJobItemCreateWithoutJobInput[] | Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput[]
+  connectOrCreate?: Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput | Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput[]
+  upsert?: Prisma.CnftMintJobItemUpsertWithWhereUniqueWithoutJobInput | Prisma.CnftMintJobItemUpsertWithWhereUniqueWithoutJobInput[]
+  createMany?: Prisma.CnftMintJobItemCreateManyJobInputEnvelope
+  set?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  disconnect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  delete?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  connect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  update?: Prisma.CnftMintJobItemUpdateWithWhereUniqueWithoutJobInput | Prisma.CnftMintJobItemUpdateWithWhereUniqueWithoutJobInput[]
+  updateMany?: Prisma.CnftMintJobItemUpdateManyWithWhereWithoutJobInput | Prisma.CnftMintJobItemUpdateManyWithWhereWithoutJobInput[]
+  deleteMany?: Prisma.CnftMintJobItemScalarWhereInput | Prisma.CnftMintJobItemScalarWhereInput[]
+}
+
+export type CnftMintJobItemUncheckedUpdateManyWithoutJobNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput> | Prisma.CnftMintJobItemCreateWithoutJobInput[] | Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput[]
+  connectOrCreate?: Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput | Prisma.CnftMintJobItemCreateOrConnectWithoutJobInput[]
+  upsert?: Prisma.CnftMintJobItemUpsertWithWhereUniqueWithoutJobInput | Prisma.CnftMintJobItemUpsertWithWhereUniqueWithoutJobInput[]
+  createMany?: Prisma.CnftMintJobItemCreateManyJobInputEnvelope
+  set?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  disconnect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  delete?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  connect?: Prisma.CnftMintJobItemWhereUniqueInput | Prisma.CnftMintJobItemWhereUniqueInput[]
+  update?: Prisma.CnftMintJobItemUpdateWithWhereUniqueWithoutJobInput | Prisma.CnftMintJobItemUpdateWithWhereUniqueWithoutJobInput[]
+  updateMany?: Prisma.CnftMintJobItemUpdateManyWithWhereWithoutJobInput | Prisma.CnftMintJobItemUpdateManyWithWhereWithoutJobInput[]
+  deleteMany?: Prisma.CnftMintJobItemScalarWhereInput | Prisma.CnftMintJobItemScalarWhereInput[]
+}
+
+export type CnftMintJobItemCreateWithoutJobInput = {
+  id?: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobItemUncheckedCreateWithoutJobInput = {
+  id?: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobItemCreateOrConnectWithoutJobInput = {
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput>
+}
+
+export type CnftMintJobItemCreateManyJobInputEnvelope = {
+  data: Prisma.CnftMintJobItemCreateManyJobInput | Prisma.CnftMintJobItemCreateManyJobInput[]
+  skipDuplicates?: boolean
+}
+
+export type CnftMintJobItemUpsertWithWhereUniqueWithoutJobInput = {
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.CnftMintJobItemUpdateWithoutJobInput, Prisma.CnftMintJobItemUncheckedUpdateWithoutJobInput>
+  create: Prisma.XOR<Prisma.CnftMintJobItemCreateWithoutJobInput, Prisma.CnftMintJobItemUncheckedCreateWithoutJobInput>
+}
+
+export type CnftMintJobItemUpdateWithWhereUniqueWithoutJobInput = {
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.CnftMintJobItemUpdateWithoutJobInput, Prisma.CnftMintJobItemUncheckedUpdateWithoutJobInput>
+}
+
+export type CnftMintJobItemUpdateManyWithWhereWithoutJobInput = {
+  where: Prisma.CnftMintJobItemScalarWhereInput
+  data: Prisma.XOR<Prisma.CnftMintJobItemUpdateManyMutationInput, Prisma.CnftMintJobItemUncheckedUpdateManyWithoutJobInput>
+}
+
+export type CnftMintJobItemScalarWhereInput = {
+  AND?: Prisma.CnftMintJobItemScalarWhereInput | Prisma.CnftMintJobItemScalarWhereInput[]
+  OR?: Prisma.CnftMintJobItemScalarWhereInput[]
+  NOT?: Prisma.CnftMintJobItemScalarWhereInput | Prisma.CnftMintJobItemScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftMintJobItem"> | bigint | number
+  jobId?: Prisma.BigIntFilter<"CnftMintJobItem"> | bigint | number
+  rowNumber?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  ownerAddress?: Prisma.StringFilter<"CnftMintJobItem"> | string
+  name?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  cnftId?: Prisma.BigIntNullableFilter<"CnftMintJobItem"> | bigint | number | null
+  txSignature?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  attempts?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  errorMessage?: Prisma.StringNullableFilter<"CnftMintJobItem"> | string | null
+  status?: Prisma.IntFilter<"CnftMintJobItem"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftMintJobItem"> | Date | string
+}
+
+export type CnftMintJobItemCreateManyJobInput = {
+  id?: bigint | number
+  rowNumber: number
+  ownerAddress: string
+  name?: string | null
+  cnftId?: bigint | number | null
+  txSignature?: string | null
+  attempts?: number
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftMintJobItemUpdateWithoutJobInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobItemUncheckedUpdateWithoutJobInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftMintJobItemUncheckedUpdateManyWithoutJobInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  rowNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CnftMintJobItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  jobId?: boolean
+  rowNumber?: boolean
+  ownerAddress?: boolean
+  name?: boolean
+  cnftId?: boolean
+  txSignature?: boolean
+  attempts?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftMintJobItem"]>
+
+export type CnftMintJobItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  jobId?: boolean
+  rowNumber?: boolean
+  ownerAddress?: boolean
+  name?: boolean
+  cnftId?: boolean
+  txSignature?: boolean
+  attempts?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftMintJobItem"]>
+
+export type CnftMintJobItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  jobId?: boolean
+  rowNumber?: boolean
+  ownerAddress?: boolean
+  name?: boolean
+  cnftId?: boolean
+  txSignature?: boolean
+  attempts?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftMintJobItem"]>
+
+export type CnftMintJobItemSelectScalar = {
+  id?: boolean
+  jobId?: boolean
+  rowNumber?: boolean
+  ownerAddress?: boolean
+  name?: boolean
+  cnftId?: boolean
+  txSignature?: boolean
+  attempts?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CnftMintJobItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "jobId" | "rowNumber" | "ownerAddress" | "name" | "cnftId" | "txSignature" | "attempts" | "errorMessage" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["cnftMintJobItem"]>
+export type CnftMintJobItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}
+export type CnftMintJobItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}
+export type CnftMintJobItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  job?: boolean | Prisma.CnftMintJobDefaultArgs<ExtArgs>
+}
+
+export type $CnftMintJobItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CnftMintJobItem"
+  objects: {
+    job: Prisma.$CnftMintJobPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    jobId: bigint
+    rowNumber: number
+    ownerAddress: string
+    name: string | null
+    cnftId: bigint | null
+    txSignature: string | null
+    attempts: number
+    errorMessage: string | null
+    status: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["cnftMintJobItem"]>
+  composites: {}
+}
+
+export type CnftMintJobItemGetPayload<S extends boolean | null | undefined | CnftMintJobItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload, S>
+
+export type CnftMintJobItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CnftMintJobItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CnftMintJobItemCountAggregateInputType | true
+  }
+
+export interface CnftMintJobItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CnftMintJobItem'], meta: { name: 'CnftMintJobItem' } }
+  /**
+   * Find zero or one CnftMintJobItem that matches the filter.
+   * @param {CnftMintJobItemFindUniqueArgs} args - Arguments to find a CnftMintJobItem
+   * @example
+   * // Get one CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CnftMintJobItemFindUniqueArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CnftMintJobItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CnftMintJobItemFindUniqueOrThrowArgs} args - Arguments to find a CnftMintJobItem
+   * @example
+   * // Get one CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CnftMintJobItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftMintJobItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemFindFirstArgs} args - Arguments to find a CnftMintJobItem
+   * @example
+   * // Get one CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CnftMintJobItemFindFirstArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftMintJobItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemFindFirstOrThrowArgs} args - Arguments to find a CnftMintJobItem
+   * @example
+   * // Get one CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CnftMintJobItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CnftMintJobItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CnftMintJobItems
+   * const cnftMintJobItems = await prisma.cnftMintJobItem.findMany()
+   * 
+   * // Get first 10 CnftMintJobItems
+   * const cnftMintJobItems = await prisma.cnftMintJobItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cnftMintJobItemWithIdOnly = await prisma.cnftMintJobItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CnftMintJobItemFindManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CnftMintJobItem.
+   * @param {CnftMintJobItemCreateArgs} args - Arguments to create a CnftMintJobItem.
+   * @example
+   * // Create one CnftMintJobItem
+   * const CnftMintJobItem = await prisma.cnftMintJobItem.create({
+   *   data: {
+   *     // ... data to create a CnftMintJobItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends CnftMintJobItemCreateArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemCreateArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CnftMintJobItems.
+   * @param {CnftMintJobItemCreateManyArgs} args - Arguments to create many CnftMintJobItems.
+   * @example
+   * // Create many CnftMintJobItems
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CnftMintJobItemCreateManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CnftMintJobItems and returns the data saved in the database.
+   * @param {CnftMintJobItemCreateManyAndReturnArgs} args - Arguments to create many CnftMintJobItems.
+   * @example
+   * // Create many CnftMintJobItems
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CnftMintJobItems and only return the `id`
+   * const cnftMintJobItemWithIdOnly = await prisma.cnftMintJobItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CnftMintJobItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CnftMintJobItem.
+   * @param {CnftMintJobItemDeleteArgs} args - Arguments to delete one CnftMintJobItem.
+   * @example
+   * // Delete one CnftMintJobItem
+   * const CnftMintJobItem = await prisma.cnftMintJobItem.delete({
+   *   where: {
+   *     // ... filter to delete one CnftMintJobItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CnftMintJobItemDeleteArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemDeleteArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CnftMintJobItem.
+   * @param {CnftMintJobItemUpdateArgs} args - Arguments to update one CnftMintJobItem.
+   * @example
+   * // Update one CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CnftMintJobItemUpdateArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemUpdateArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CnftMintJobItems.
+   * @param {CnftMintJobItemDeleteManyArgs} args - Arguments to filter CnftMintJobItems to delete.
+   * @example
+   * // Delete a few CnftMintJobItems
+   * const { count } = await prisma.cnftMintJobItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CnftMintJobItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, CnftMintJobItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftMintJobItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CnftMintJobItems
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CnftMintJobItemUpdateManyArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftMintJobItems and returns the data updated in the database.
+   * @param {CnftMintJobItemUpdateManyAndReturnArgs} args - Arguments to update many CnftMintJobItems.
+   * @example
+   * // Update many CnftMintJobItems
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CnftMintJobItems and only return the `id`
+   * const cnftMintJobItemWithIdOnly = await prisma.cnftMintJobItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CnftMintJobItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CnftMintJobItem.
+   * @param {CnftMintJobItemUpsertArgs} args - Arguments to update or create a CnftMintJobItem.
+   * @example
+   * // Update or create a CnftMintJobItem
+   * const cnftMintJobItem = await prisma.cnftMintJobItem.upsert({
+   *   create: {
+   *     // ... data to create a CnftMintJobItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CnftMintJobItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CnftMintJobItemUpsertArgs>(args: Prisma.SelectSubset<T, CnftMintJobItemUpsertArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobItemClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CnftMintJobItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemCountArgs} args - Arguments to filter CnftMintJobItems to count.
+   * @example
+   * // Count the number of CnftMintJobItems
+   * const count = await prisma.cnftMintJobItem.count({
+   *   where: {
+   *     // ... the filter for the CnftMintJobItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends CnftMintJobItemCountArgs>(
+    args?: Prisma.Subset<T, CnftMintJobItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CnftMintJobItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CnftMintJobItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CnftMintJobItemAggregateArgs>(args: Prisma.Subset<T, CnftMintJobItemAggregateArgs>): Prisma.PrismaPromise<GetCnftMintJobItemAggregateType<T>>
+
+  /**
+   * Group by CnftMintJobItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftMintJobItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CnftMintJobItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CnftMintJobItemGroupByArgs['orderBy'] }
+      : { orderBy?: CnftMintJobItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CnftMintJobItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCnftMintJobItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CnftMintJobItem model
+ */
+readonly fields: CnftMintJobItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CnftMintJobItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CnftMintJobItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  job<T extends Prisma.CnftMintJobDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CnftMintJobDefaultArgs<ExtArgs>>): Prisma.Prisma__CnftMintJobClient<runtime.Types.Result.GetResult<Prisma.$CnftMintJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CnftMintJobItem model
+ */
+export interface CnftMintJobItemFieldRefs {
+  readonly id: Prisma.FieldRef<"CnftMintJobItem", 'BigInt'>
+  readonly jobId: Prisma.FieldRef<"CnftMintJobItem", 'BigInt'>
+  readonly rowNumber: Prisma.FieldRef<"CnftMintJobItem", 'Int'>
+  readonly ownerAddress: Prisma.FieldRef<"CnftMintJobItem", 'String'>
+  readonly name: Prisma.FieldRef<"CnftMintJobItem", 'String'>
+  readonly cnftId: Prisma.FieldRef<"CnftMintJobItem", 'BigInt'>
+  readonly txSignature: Prisma.FieldRef<"CnftMintJobItem", 'String'>
+  readonly attempts: Prisma.FieldRef<"CnftMintJobItem", 'Int'>
+  readonly errorMessage: Prisma.FieldRef<"CnftMintJobItem", 'String'>
+  readonly status: Prisma.FieldRef<"CnftMintJobItem", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"CnftMintJobItem", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CnftMintJobItem", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CnftMintJobItem findUnique
+ */
+export type CnftMintJobItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobItem to fetch.
+   */
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+}
+
+/**
+ * CnftMintJobItem findUniqueOrThrow
+ */
+export type CnftMintJobItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobItem to fetch.
+   */
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+}
+
+/**
+ * CnftMintJobItem findFirst
+ */
+export type CnftMintJobItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobItem to fetch.
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobItems to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobItemOrderByWithRelationInput | Prisma.CnftMintJobItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftMintJobItems.
+   */
+  cursor?: Prisma.CnftMintJobItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftMintJobItems.
+   */
+  distinct?: Prisma.CnftMintJobItemScalarFieldEnum | Prisma.CnftMintJobItemScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJobItem findFirstOrThrow
+ */
+export type CnftMintJobItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobItem to fetch.
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobItems to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobItemOrderByWithRelationInput | Prisma.CnftMintJobItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftMintJobItems.
+   */
+  cursor?: Prisma.CnftMintJobItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftMintJobItems.
+   */
+  distinct?: Prisma.CnftMintJobItemScalarFieldEnum | Prisma.CnftMintJobItemScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJobItem findMany
+ */
+export type CnftMintJobItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftMintJobItems to fetch.
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftMintJobItems to fetch.
+   */
+  orderBy?: Prisma.CnftMintJobItemOrderByWithRelationInput | Prisma.CnftMintJobItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CnftMintJobItems.
+   */
+  cursor?: Prisma.CnftMintJobItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftMintJobItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftMintJobItems.
+   */
+  skip?: number
+  distinct?: Prisma.CnftMintJobItemScalarFieldEnum | Prisma.CnftMintJobItemScalarFieldEnum[]
+}
+
+/**
+ * CnftMintJobItem create
+ */
+export type CnftMintJobItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CnftMintJobItem.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobItemCreateInput, Prisma.CnftMintJobItemUncheckedCreateInput>
+}
+
+/**
+ * CnftMintJobItem createMany
+ */
+export type CnftMintJobItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CnftMintJobItems.
+   */
+  data: Prisma.CnftMintJobItemCreateManyInput | Prisma.CnftMintJobItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CnftMintJobItem createManyAndReturn
+ */
+export type CnftMintJobItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many CnftMintJobItems.
+   */
+  data: Prisma.CnftMintJobItemCreateManyInput | Prisma.CnftMintJobItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftMintJobItem update
+ */
+export type CnftMintJobItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CnftMintJobItem.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobItemUpdateInput, Prisma.CnftMintJobItemUncheckedUpdateInput>
+  /**
+   * Choose, which CnftMintJobItem to update.
+   */
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+}
+
+/**
+ * CnftMintJobItem updateMany
+ */
+export type CnftMintJobItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CnftMintJobItems.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobItemUpdateManyMutationInput, Prisma.CnftMintJobItemUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftMintJobItems to update
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * Limit how many CnftMintJobItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * CnftMintJobItem updateManyAndReturn
+ */
+export type CnftMintJobItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * The data used to update CnftMintJobItems.
+   */
+  data: Prisma.XOR<Prisma.CnftMintJobItemUpdateManyMutationInput, Prisma.CnftMintJobItemUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftMintJobItems to update
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * Limit how many CnftMintJobItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftMintJobItem upsert
+ */
+export type CnftMintJobItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CnftMintJobItem to update in case it exists.
+   */
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+  /**
+   * In case the CnftMintJobItem found by the `where` argument doesn't exist, create a new CnftMintJobItem with this data.
+   */
+  create: Prisma.XOR<Prisma.CnftMintJobItemCreateInput, Prisma.CnftMintJobItemUncheckedCreateInput>
+  /**
+   * In case the CnftMintJobItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CnftMintJobItemUpdateInput, Prisma.CnftMintJobItemUncheckedUpdateInput>
+}
+
+/**
+ * CnftMintJobItem delete
+ */
+export type CnftMintJobItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+  /**
+   * Filter which CnftMintJobItem to delete.
+   */
+  where: Prisma.CnftMintJobItemWhereUniqueInput
+}
+
+/**
+ * CnftMintJobItem deleteMany
+ */
+export type CnftMintJobItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftMintJobItems to delete
+   */
+  where?: Prisma.CnftMintJobItemWhereInput
+  /**
+   * Limit how many CnftMintJobItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CnftMintJobItem without action
+ */
+export type CnftMintJobItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftMintJobItem
+   */
+  select?: Prisma.CnftMintJobItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftMintJobItem
+   */
+  omit?: Prisma.CnftMintJobItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftMintJobItemInclude<ExtArgs> | null
+}
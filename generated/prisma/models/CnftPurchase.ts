@@ -0,0 +1,1665 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CnftPurchase` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CnftPurchase
+ * cNFT 购买记录表：每个钱包在每个售卖配置下一条记录，失败后可重新购买（schema: public）
+ */
+export type CnftPurchaseModel = runtime.Types.Result.DefaultSelection<Prisma.$CnftPurchasePayload>
+
+export type AggregateCnftPurchase = {
+  _count: CnftPurchaseCountAggregateOutputType | null
+  _avg: CnftPurchaseAvgAggregateOutputType | null
+  _sum: CnftPurchaseSumAggregateOutputType | null
+  _min: CnftPurchaseMinAggregateOutputType | null
+  _max: CnftPurchaseMaxAggregateOutputType | null
+}
+
+export type CnftPurchaseAvgAggregateOutputType = {
+  id: number | null
+  saleId: number | null
+  projectId: number | null
+  cnftId: number | null
+  priceLamports: number | null
+  status: number | null
+}
+
+export type CnftPurchaseSumAggregateOutputType = {
+  id: bigint | null
+  saleId: bigint | null
+  projectId: bigint | null
+  cnftId: bigint | null
+  priceLamports: bigint | null
+  status: number | null
+}
+
+export type CnftPurchaseMinAggregateOutputType = {
+  id: bigint | null
+  saleId: bigint | null
+  projectId: bigint | null
+  buyerAddress: string | null
+  cnftId: bigint | null
+  priceLamports: bigint | null
+  receiverAddress: string | null
+  txSignature: string | null
+  errorMessage: string | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftPurchaseMaxAggregateOutputType = {
+  id: bigint | null
+  saleId: bigint | null
+  projectId: bigint | null
+  buyerAddress: string | null
+  cnftId: bigint | null
+  priceLamports: bigint | null
+  receiverAddress: string | null
+  txSignature: string | null
+  errorMessage: string | null
+  status: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CnftPurchaseCountAggregateOutputType = {
+  id: number
+  saleId: number
+  projectId: number
+  buyerAddress: number
+  cnftId: number
+  priceLamports: number
+  receiverAddress: number
+  txSignature: number
+  errorMessage: number
+  status: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CnftPurchaseAvgAggregateInputType = {
+  id?: true
+  saleId?: true
+  projectId?: true
+  cnftId?: true
+  priceLamports?: true
+  status?: true
+}
+
+export type CnftPurchaseSumAggregateInputType = {
+  id?: true
+  saleId?: true
+  projectId?: true
+  cnftId?: true
+  priceLamports?: true
+  status?: true
+}
+
+export type CnftPurchaseMinAggregateInputType = {
+  id?: true
+  saleId?: true
+  projectId?: true
+  buyerAddress?: true
+  cnftId?: true
+  priceLamports?: true
+  receiverAddress?: true
+  txSignature?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftPurchaseMaxAggregateInputType = {
+  id?: true
+  saleId?: true
+  projectId?: true
+  buyerAddress?: true
+  cnftId?: true
+  priceLamports?: true
+  receiverAddress?: true
+  txSignature?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CnftPurchaseCountAggregateInputType = {
+  id?: true
+  saleId?: true
+  projectId?: true
+  buyerAddress?: true
+  cnftId?: true
+  priceLamports?: true
+  receiverAddress?: true
+  txSignature?: true
+  errorMessage?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CnftPurchaseAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftPurchase to aggregate.
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftPurchases to fetch.
+   */
+  orderBy?: Prisma.CnftPurchaseOrderByWithRelationInput | Prisma.CnftPurchaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CnftPurchaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftPurchases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftPurchases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CnftPurchases
+  **/
+  _count?: true | CnftPurchaseCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CnftPurchaseAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CnftPurchaseSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CnftPurchaseMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CnftPurchaseMaxAggregateInputType
+}
+
+export type GetCnftPurchaseAggregateType<T extends CnftPurchaseAggregateArgs> = {
+      [P in keyof T & keyof AggregateCnftPurchase]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCnftPurchase[P]>
+    : Prisma.GetScalarType<T[P], AggregateCnftPurchase[P]>
+}
+
+
+
+
+export type CnftPurchaseGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftPurchaseWhereInput
+  orderBy?: Prisma.CnftPurchaseOrderByWithAggregationInput | Prisma.CnftPurchaseOrderByWithAggregationInput[]
+  by: Prisma.CnftPurchaseScalarFieldEnum[] | Prisma.CnftPurchaseScalarFieldEnum
+  having?: Prisma.CnftPurchaseScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CnftPurchaseCountAggregateInputType | true
+  _avg?: CnftPurchaseAvgAggregateInputType
+  _sum?: CnftPurchaseSumAggregateInputType
+  _min?: CnftPurchaseMinAggregateInputType
+  _max?: CnftPurchaseMaxAggregateInputType
+}
+
+export type CnftPurchaseGroupByOutputType = {
+  id: bigint
+  saleId: bigint
+  projectId: bigint
+  buyerAddress: string
+  cnftId: bigint | null
+  priceLamports: bigint
+  receiverAddress: string
+  txSignature: string | null
+  errorMessage: string | null
+  status: number
+  createdAt: Date
+  updatedAt: Date
+  _count: CnftPurchaseCountAggregateOutputType | null
+  _avg: CnftPurchaseAvgAggregateOutputType | null
+  _sum: CnftPurchaseSumAggregateOutputType | null
+  _min: CnftPurchaseMinAggregateOutputType | null
+  _max: CnftPurchaseMaxAggregateOutputType | null
+}
+
+type GetCnftPurchaseGroupByPayload<T extends CnftPurchaseGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CnftPurchaseGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CnftPurchaseGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CnftPurchaseGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CnftPurchaseGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CnftPurchaseWhereInput = {
+  AND?: Prisma.CnftPurchaseWhereInput | Prisma.CnftPurchaseWhereInput[]
+  OR?: Prisma.CnftPurchaseWhereInput[]
+  NOT?: Prisma.CnftPurchaseWhereInput | Prisma.CnftPurchaseWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  saleId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  buyerAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  cnftId?: Prisma.BigIntNullableFilter<"CnftPurchase"> | bigint | number | null
+  priceLamports?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  receiverAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  status?: Prisma.IntFilter<"CnftPurchase"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+  sale?: Prisma.XOR<Prisma.ProjectSaleScalarRelationFilter, Prisma.ProjectSaleWhereInput>
+}
+
+export type CnftPurchaseOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  buyerAddress?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  sale?: Prisma.ProjectSaleOrderByWithRelationInput
+}
+
+export type CnftPurchaseWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  saleId_buyerAddress?: Prisma.CnftPurchaseSaleIdBuyerAddressCompoundUniqueInput
+  AND?: Prisma.CnftPurchaseWhereInput | Prisma.CnftPurchaseWhereInput[]
+  OR?: Prisma.CnftPurchaseWhereInput[]
+  NOT?: Prisma.CnftPurchaseWhereInput | Prisma.CnftPurchaseWhereInput[]
+  saleId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  buyerAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  cnftId?: Prisma.BigIntNullableFilter<"CnftPurchase"> | bigint | number | null
+  priceLamports?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  receiverAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  status?: Prisma.IntFilter<"CnftPurchase"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+  sale?: Prisma.XOR<Prisma.ProjectSaleScalarRelationFilter, Prisma.ProjectSaleWhereInput>
+}, "id" | "saleId_buyerAddress">
+
+export type CnftPurchaseOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  buyerAddress?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrderInput | Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CnftPurchaseCountOrderByAggregateInput
+  _avg?: Prisma.CnftPurchaseAvgOrderByAggregateInput
+  _max?: Prisma.CnftPurchaseMaxOrderByAggregateInput
+  _min?: Prisma.CnftPurchaseMinOrderByAggregateInput
+  _sum?: Prisma.CnftPurchaseSumOrderByAggregateInput
+}
+
+export type CnftPurchaseScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CnftPurchaseScalarWhereWithAggregatesInput | Prisma.CnftPurchaseScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CnftPurchaseScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CnftPurchaseScalarWhereWithAggregatesInput | Prisma.CnftPurchaseScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"CnftPurchase"> | bigint | number
+  saleId?: Prisma.BigIntWithAggregatesFilter<"CnftPurchase"> | bigint | number
+  projectId?: Prisma.BigIntWithAggregatesFilter<"CnftPurchase"> | bigint | number
+  buyerAddress?: Prisma.StringWithAggregatesFilter<"CnftPurchase"> | string
+  cnftId?: Prisma.BigIntNullableWithAggregatesFilter<"CnftPurchase"> | bigint | number | null
+  priceLamports?: Prisma.BigIntWithAggregatesFilter<"CnftPurchase"> | bigint | number
+  receiverAddress?: Prisma.StringWithAggregatesFilter<"CnftPurchase"> | string
+  txSignature?: Prisma.StringNullableWithAggregatesFilter<"CnftPurchase"> | string | null
+  errorMessage?: Prisma.StringNullableWithAggregatesFilter<"CnftPurchase"> | string | null
+  status?: Prisma.IntWithAggregatesFilter<"CnftPurchase"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CnftPurchase"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CnftPurchase"> | Date | string
+}
+
+export type CnftPurchaseCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  sale: Prisma.ProjectSaleCreateNestedOneWithoutPurchasesInput
+}
+
+export type CnftPurchaseUncheckedCreateInput = {
+  id?: bigint | number
+  saleId: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftPurchaseUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sale?: Prisma.ProjectSaleUpdateOneRequiredWithoutPurchasesNestedInput
+}
+
+export type CnftPurchaseUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  saleId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftPurchaseCreateManyInput = {
+  id?: bigint | number
+  saleId: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftPurchaseUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftPurchaseUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  saleId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftPurchaseListRelationFilter = {
+  every?: Prisma.CnftPurchaseWhereInput
+  some?: Prisma.CnftPurchaseWhereInput
+  none?: Prisma.CnftPurchaseWhereInput
+}
+
+export type CnftPurchaseOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CnftPurchaseSaleIdBuyerAddressCompoundUniqueInput = {
+  saleId: bigint | number
+  buyerAddress: string
+}
+
+export type CnftPurchaseCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  buyerAddress?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftPurchaseAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftPurchaseMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  buyerAddress?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftPurchaseMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  buyerAddress?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  errorMessage?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CnftPurchaseSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  saleId?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+}
+
+export type CnftPurchaseCreateNestedManyWithoutSaleInput = {
+  create?: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput> | Prisma.CnftPurchaseCreateWithoutSaleInput[] | Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput[]
+  connectOrCreate?: Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput | Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput[]
+  createMany?: Prisma.CnftPurchaseCreateManySaleInputEnvelope
+  connect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+}
+
+export type CnftPurchaseUncheckedCreateNestedManyWithoutSaleInput = {
+  create?: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput> | Prisma.CnftPurchaseCreateWithoutSaleInput[] | Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput[]
+  connectOrCreate?: Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput | Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput[]
+  createMany?: Prisma.CnftPurchaseCreateManySaleInputEnvelope
+  connect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+}
+
+export type CnftPurchaseUpdateManyWithoutSaleNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput> | Prisma.CnftPurchaseCreateWithoutSaleInput[] | Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput[]
+  connectOrCreate?: Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput | Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput[]
+  upsert?: Prisma.CnftPurchaseUpsertWithWhereUniqueWithoutSaleInput | Prisma.CnftPurchaseUpsertWithWhereUniqueWithoutSaleInput[]
+  createMany?: Prisma.CnftPurchaseCreateManySaleInputEnvelope
+  set?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  disconnect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  delete?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  connect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  update?: Prisma.CnftPurchaseUpdateWithWhereUniqueWithoutSaleInput | Prisma.CnftPurchaseUpdateWithWhereUniqueWithoutSaleInput[]
+  updateMany?: Prisma.CnftPurchaseUpdateManyWithWhereWithoutSaleInput | Prisma.CnftPurchaseUpdateManyWithWhereWithoutSaleInput[]
+  deleteMany?: Prisma.CnftPurchaseScalarWhereInput | Prisma.CnftPurchaseScalarWhereInput[]
+}
+
+export type CnftPurchaseUncheckedUpdateManyWithoutSaleNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput> | Prisma.CnftPurchaseCreateWithoutSaleInput[] | Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput[]
+  connectOrCreate?: Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput | Prisma.CnftPurchaseCreateOrConnectWithoutSaleInput[]
+  upsert?: Prisma.CnftPurchaseUpsertWithWhereUniqueWithoutSaleInput | Prisma.CnftPurchaseUpsertWithWhereUniqueWithoutSaleInput[]
+  createMany?: Prisma.CnftPurchaseCreateManySaleInputEnvelope
+  set?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  disconnect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  delete?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  connect?: Prisma.CnftPurchaseWhereUniqueInput | Prisma.CnftPurchaseWhereUniqueInput[]
+  update?: Prisma.CnftPurchaseUpdateWithWhereUniqueWithoutSaleInput | Prisma.CnftPurchaseUpdateWithWhereUniqueWithoutSaleInput[]
+  updateMany?: Prisma.CnftPurchaseUpdateManyWithWhereWithoutSaleInput | Prisma.CnftPurchaseUpdateManyWithWhereWithoutSaleInput[]
+  deleteMany?: Prisma.CnftPurchaseScalarWhereInput | Prisma.CnftPurchaseScalarWhereInput[]
+}
+
+export type CnftPurchaseCreateWithoutSaleInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftPurchaseUncheckedCreateWithoutSaleInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftPurchaseCreateOrConnectWithoutSaleInput = {
+  where: Prisma.CnftPurchaseWhereUniqueInput
+  create: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput>
+}
+
+export type CnftPurchaseCreateManySaleInputEnvelope = {
+  data: Prisma.CnftPurchaseCreateManySaleInput | Prisma.CnftPurchaseCreateManySaleInput[]
+  skipDuplicates?: boolean
+}
+
+export type CnftPurchaseUpsertWithWhereUniqueWithoutSaleInput = {
+  where: Prisma.CnftPurchaseWhereUniqueInput
+  update: Prisma.XOR<Prisma.CnftPurchaseUpdateWithoutSaleInput, Prisma.CnftPurchaseUncheckedUpdateWithoutSaleInput>
+  create: Prisma.XOR<Prisma.CnftPurchaseCreateWithoutSaleInput, Prisma.CnftPurchaseUncheckedCreateWithoutSaleInput>
+}
+
+export type CnftPurchaseUpdateWithWhereUniqueWithoutSaleInput = {
+  where: Prisma.CnftPurchaseWhereUniqueInput
+  data: Prisma.XOR<Prisma.CnftPurchaseUpdateWithoutSaleInput, Prisma.CnftPurchaseUncheckedUpdateWithoutSaleInput>
+}
+
+export type CnftPurchaseUpdateManyWithWhereWithoutSaleInput = {
+  where: Prisma.CnftPurchaseScalarWhereInput
+  data: Prisma.XOR<Prisma.CnftPurchaseUpdateManyMutationInput, Prisma.CnftPurchaseUncheckedUpdateManyWithoutSaleInput>
+}
+
+export type CnftPurchaseScalarWhereInput = {
+  AND?: Prisma.CnftPurchaseScalarWhereInput | Prisma.CnftPurchaseScalarWhereInput[]
+  OR?: Prisma.CnftPurchaseScalarWhereInput[]
+  NOT?: Prisma.CnftPurchaseScalarWhereInput | Prisma.CnftPurchaseScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  saleId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  buyerAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  cnftId?: Prisma.BigIntNullableFilter<"CnftPurchase"> | bigint | number | null
+  priceLamports?: Prisma.BigIntFilter<"CnftPurchase"> | bigint | number
+  receiverAddress?: Prisma.StringFilter<"CnftPurchase"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  errorMessage?: Prisma.StringNullableFilter<"CnftPurchase"> | string | null
+  status?: Prisma.IntFilter<"CnftPurchase"> | number
+  createdAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CnftPurchase"> | Date | string
+}
+
+export type CnftPurchaseCreateManySaleInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  buyerAddress: string
+  cnftId?: bigint | number | null
+  priceLamports: bigint | number
+  receiverAddress: string
+  txSignature?: string | null
+  errorMessage?: string | null
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CnftPurchaseUpdateWithoutSaleInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftPurchaseUncheckedUpdateWithoutSaleInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftPurchaseUncheckedUpdateManyWithoutSaleInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  buyerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  cnftId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CnftPurchaseSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  saleId?: boolean
+  projectId?: boolean
+  buyerAddress?: boolean
+  cnftId?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  txSignature?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftPurchase"]>
+
+export type CnftPurchaseSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  saleId?: boolean
+  projectId?: boolean
+  buyerAddress?: boolean
+  cnftId?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  txSignature?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftPurchase"]>
+
+export type CnftPurchaseSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  saleId?: boolean
+  projectId?: boolean
+  buyerAddress?: boolean
+  cnftId?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  txSignature?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftPurchase"]>
+
+export type CnftPurchaseSelectScalar = {
+  id?: boolean
+  saleId?: boolean
+  projectId?: boolean
+  buyerAddress?: boolean
+  cnftId?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  txSignature?: boolean
+  errorMessage?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CnftPurchaseOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "saleId" | "projectId" | "buyerAddress" | "cnftId" | "priceLamports" | "receiverAddress" | "txSignature" | "errorMessage" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["cnftPurchase"]>
+export type CnftPurchaseInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}
+export type CnftPurchaseIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}
+export type CnftPurchaseIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  sale?: boolean | Prisma.ProjectSaleDefaultArgs<ExtArgs>
+}
+
+export type $CnftPurchasePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CnftPurchase"
+  objects: {
+    sale: Prisma.$ProjectSalePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    saleId: bigint
+    projectId: bigint
+    buyerAddress: string
+    cnftId: bigint | null
+    priceLamports: bigint
+    receiverAddress: string
+    txSignature: string | null
+    errorMessage: string | null
+    status: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["cnftPurchase"]>
+  composites: {}
+}
+
+export type CnftPurchaseGetPayload<S extends boolean | null | undefined | CnftPurchaseDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload, S>
+
+export type CnftPurchaseCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CnftPurchaseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CnftPurchaseCountAggregateInputType | true
+  }
+
+export interface CnftPurchaseDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CnftPurchase'], meta: { name: 'CnftPurchase' } }
+  /**
+   * Find zero or one CnftPurchase that matches the filter.
+   * @param {CnftPurchaseFindUniqueArgs} args - Arguments to find a CnftPurchase
+   * @example
+   * // Get one CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CnftPurchaseFindUniqueArgs>(args: Prisma.SelectSubset<T, CnftPurchaseFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CnftPurchase that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CnftPurchaseFindUniqueOrThrowArgs} args - Arguments to find a CnftPurchase
+   * @example
+   * // Get one CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CnftPurchaseFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CnftPurchaseFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftPurchase that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseFindFirstArgs} args - Arguments to find a CnftPurchase
+   * @example
+   * // Get one CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CnftPurchaseFindFirstArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseFindFirstArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftPurchase that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseFindFirstOrThrowArgs} args - Arguments to find a CnftPurchase
+   * @example
+   * // Get one CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CnftPurchaseFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CnftPurchases that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CnftPurchases
+   * const cnftPurchases = await prisma.cnftPurchase.findMany()
+   * 
+   * // Get first 10 CnftPurchases
+   * const cnftPurchases = await prisma.cnftPurchase.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cnftPurchaseWithIdOnly = await prisma.cnftPurchase.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CnftPurchaseFindManyArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CnftPurchase.
+   * @param {CnftPurchaseCreateArgs} args - Arguments to create a CnftPurchase.
+   * @example
+   * // Create one CnftPurchase
+   * const CnftPurchase = await prisma.cnftPurchase.create({
+   *   data: {
+   *     // ... data to create a CnftPurchase
+   *   }
+   * })
+   * 
+   */
+  create<T extends CnftPurchaseCreateArgs>(args: Prisma.SelectSubset<T, CnftPurchaseCreateArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CnftPurchases.
+   * @param {CnftPurchaseCreateManyArgs} args - Arguments to create many CnftPurchases.
+   * @example
+   * // Create many CnftPurchases
+   * const cnftPurchase = await prisma.cnftPurchase.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CnftPurchaseCreateManyArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CnftPurchases and returns the data saved in the database.
+   * @param {CnftPurchaseCreateManyAndReturnArgs} args - Arguments to create many CnftPurchases.
+   * @example
+   * // Create many CnftPurchases
+   * const cnftPurchase = await prisma.cnftPurchase.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CnftPurchases and only return the `id`
+   * const cnftPurchaseWithIdOnly = await prisma.cnftPurchase.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CnftPurchaseCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CnftPurchase.
+   * @param {CnftPurchaseDeleteArgs} args - Arguments to delete one CnftPurchase.
+   * @example
+   * // Delete one CnftPurchase
+   * const CnftPurchase = await prisma.cnftPurchase.delete({
+   *   where: {
+   *     // ... filter to delete one CnftPurchase
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CnftPurchaseDeleteArgs>(args: Prisma.SelectSubset<T, CnftPurchaseDeleteArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CnftPurchase.
+   * @param {CnftPurchaseUpdateArgs} args - Arguments to update one CnftPurchase.
+   * @example
+   * // Update one CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CnftPurchaseUpdateArgs>(args: Prisma.SelectSubset<T, CnftPurchaseUpdateArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CnftPurchases.
+   * @param {CnftPurchaseDeleteManyArgs} args - Arguments to filter CnftPurchases to delete.
+   * @example
+   * // Delete a few CnftPurchases
+   * const { count } = await prisma.cnftPurchase.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CnftPurchaseDeleteManyArgs>(args?: Prisma.SelectSubset<T, CnftPurchaseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftPurchases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CnftPurchases
+   * const cnftPurchase = await prisma.cnftPurchase.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CnftPurchaseUpdateManyArgs>(args: Prisma.SelectSubset<T, CnftPurchaseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftPurchases and returns the data updated in the database.
+   * @param {CnftPurchaseUpdateManyAndReturnArgs} args - Arguments to update many CnftPurchases.
+   * @example
+   * // Update many CnftPurchases
+   * const cnftPurchase = await prisma.cnftPurchase.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CnftPurchases and only return the `id`
+   * const cnftPurchaseWithIdOnly = await prisma.cnftPurchase.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CnftPurchaseUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CnftPurchaseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CnftPurchase.
+   * @param {CnftPurchaseUpsertArgs} args - Arguments to update or create a CnftPurchase.
+   * @example
+   * // Update or create a CnftPurchase
+   * const cnftPurchase = await prisma.cnftPurchase.upsert({
+   *   create: {
+   *     // ... data to create a CnftPurchase
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CnftPurchase we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CnftPurchaseUpsertArgs>(args: Prisma.SelectSubset<T, CnftPurchaseUpsertArgs<ExtArgs>>): Prisma.Prisma__CnftPurchaseClient<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CnftPurchases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseCountArgs} args - Arguments to filter CnftPurchases to count.
+   * @example
+   * // Count the number of CnftPurchases
+   * const count = await prisma.cnftPurchase.count({
+   *   where: {
+   *     // ... the filter for the CnftPurchases we want to count
+   *   }
+   * })
+  **/
+  count<T extends CnftPurchaseCountArgs>(
+    args?: Prisma.Subset<T, CnftPurchaseCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CnftPurchaseCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CnftPurchase.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CnftPurchaseAggregateArgs>(args: Prisma.Subset<T, CnftPurchaseAggregateArgs>): Prisma.PrismaPromise<GetCnftPurchaseAggregateType<T>>
+
+  /**
+   * Group by CnftPurchase.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftPurchaseGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CnftPurchaseGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CnftPurchaseGroupByArgs['orderBy'] }
+      : { orderBy?: CnftPurchaseGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CnftPurchaseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCnftPurchaseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CnftPurchase model
+ */
+readonly fields: CnftPurchaseFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CnftPurchase.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CnftPurchaseClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  sale<T extends Prisma.ProjectSaleDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectSaleDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CnftPurchase model
+ */
+export interface CnftPurchaseFieldRefs {
+  readonly id: Prisma.FieldRef<"CnftPurchase", 'BigInt'>
+  readonly saleId: Prisma.FieldRef<"CnftPurchase", 'BigInt'>
+  readonly projectId: Prisma.FieldRef<"CnftPurchase", 'BigInt'>
+  readonly buyerAddress: Prisma.FieldRef<"CnftPurchase", 'String'>
+  readonly cnftId: Prisma.FieldRef<"CnftPurchase", 'BigInt'>
+  readonly priceLamports: Prisma.FieldRef<"CnftPurchase", 'BigInt'>
+  readonly receiverAddress: Prisma.FieldRef<"CnftPurchase", 'String'>
+  readonly txSignature: Prisma.FieldRef<"CnftPurchase", 'String'>
+  readonly errorMessage: Prisma.FieldRef<"CnftPurchase", 'String'>
+  readonly status: Prisma.FieldRef<"CnftPurchase", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"CnftPurchase", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CnftPurchase", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CnftPurchase findUnique
+ */
+export type CnftPurchaseFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftPurchase to fetch.
+   */
+  where: Prisma.CnftPurchaseWhereUniqueInput
+}
+
+/**
+ * CnftPurchase findUniqueOrThrow
+ */
+export type CnftPurchaseFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftPurchase to fetch.
+   */
+  where: Prisma.CnftPurchaseWhereUniqueInput
+}
+
+/**
+ * CnftPurchase findFirst
+ */
+export type CnftPurchaseFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftPurchase to fetch.
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftPurchases to fetch.
+   */
+  orderBy?: Prisma.CnftPurchaseOrderByWithRelationInput | Prisma.CnftPurchaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftPurchases.
+   */
+  cursor?: Prisma.CnftPurchaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftPurchases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftPurchases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftPurchases.
+   */
+  distinct?: Prisma.CnftPurchaseScalarFieldEnum | Prisma.CnftPurchaseScalarFieldEnum[]
+}
+
+/**
+ * CnftPurchase findFirstOrThrow
+ */
+export type CnftPurchaseFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftPurchase to fetch.
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftPurchases to fetch.
+   */
+  orderBy?: Prisma.CnftPurchaseOrderByWithRelationInput | Prisma.CnftPurchaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftPurchases.
+   */
+  cursor?: Prisma.CnftPurchaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftPurchases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftPurchases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftPurchases.
+   */
+  distinct?: Prisma.CnftPurchaseScalarFieldEnum | Prisma.CnftPurchaseScalarFieldEnum[]
+}
+
+/**
+ * CnftPurchase findMany
+ */
+export type CnftPurchaseFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftPurchases to fetch.
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftPurchases to fetch.
+   */
+  orderBy?: Prisma.CnftPurchaseOrderByWithRelationInput | Prisma.CnftPurchaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CnftPurchases.
+   */
+  cursor?: Prisma.CnftPurchaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftPurchases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftPurchases.
+   */
+  skip?: number
+  distinct?: Prisma.CnftPurchaseScalarFieldEnum | Prisma.CnftPurchaseScalarFieldEnum[]
+}
+
+/**
+ * CnftPurchase create
+ */
+export type CnftPurchaseCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CnftPurchase.
+   */
+  data: Prisma.XOR<Prisma.CnftPurchaseCreateInput, Prisma.CnftPurchaseUncheckedCreateInput>
+}
+
+/**
+ * CnftPurchase createMany
+ */
+export type CnftPurchaseCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CnftPurchases.
+   */
+  data: Prisma.CnftPurchaseCreateManyInput | Prisma.CnftPurchaseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CnftPurchase createManyAndReturn
+ */
+export type CnftPurchaseCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * The data used to create many CnftPurchases.
+   */
+  data: Prisma.CnftPurchaseCreateManyInput | Prisma.CnftPurchaseCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftPurchase update
+ */
+export type CnftPurchaseUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CnftPurchase.
+   */
+  data: Prisma.XOR<Prisma.CnftPurchaseUpdateInput, Prisma.CnftPurchaseUncheckedUpdateInput>
+  /**
+   * Choose, which CnftPurchase to update.
+   */
+  where: Prisma.CnftPurchaseWhereUniqueInput
+}
+
+/**
+ * CnftPurchase updateMany
+ */
+export type CnftPurchaseUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CnftPurchases.
+   */
+  data: Prisma.XOR<Prisma.CnftPurchaseUpdateManyMutationInput, Prisma.CnftPurchaseUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftPurchases to update
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * Limit how many CnftPurchases to update.
+   */
+  limit?: number
+}
+
+/**
+ * CnftPurchase updateManyAndReturn
+ */
+export type CnftPurchaseUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * The data used to update CnftPurchases.
+   */
+  data: Prisma.XOR<Prisma.CnftPurchaseUpdateManyMutationInput, Prisma.CnftPurchaseUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftPurchases to update
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * Limit how many CnftPurchases to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftPurchase upsert
+ */
+export type CnftPurchaseUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CnftPurchase to update in case it exists.
+   */
+  where: Prisma.CnftPurchaseWhereUniqueInput
+  /**
+   * In case the CnftPurchase found by the `where` argument doesn't exist, create a new CnftPurchase with this data.
+   */
+  create: Prisma.XOR<Prisma.CnftPurchaseCreateInput, Prisma.CnftPurchaseUncheckedCreateInput>
+  /**
+   * In case the CnftPurchase was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CnftPurchaseUpdateInput, Prisma.CnftPurchaseUncheckedUpdateInput>
+}
+
+/**
+ * CnftPurchase delete
+ */
+export type CnftPurchaseDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  /**
+   * Filter which CnftPurchase to delete.
+   */
+  where: Prisma.CnftPurchaseWhereUniqueInput
+}
+
+/**
+ * CnftPurchase deleteMany
+ */
+export type CnftPurchaseDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftPurchases to delete
+   */
+  where?: Prisma.CnftPurchaseWhereInput
+  /**
+   * Limit how many CnftPurchases to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CnftPurchase without action
+ */
+export type CnftPurchaseDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+}
@@ -0,0 +1,1495 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CnftTransfer` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CnftTransfer
+ * cNFT 持有者变更记录表：链上转移与销毁的历史（schema: public）
+ */
+export type CnftTransferModel = runtime.Types.Result.DefaultSelection<Prisma.$CnftTransferPayload>
+
+export type AggregateCnftTransfer = {
+  _count: CnftTransferCountAggregateOutputType | null
+  _avg: CnftTransferAvgAggregateOutputType | null
+  _sum: CnftTransferSumAggregateOutputType | null
+  _min: CnftTransferMinAggregateOutputType | null
+  _max: CnftTransferMaxAggregateOutputType | null
+}
+
+export type CnftTransferAvgAggregateOutputType = {
+  id: number | null
+  cnftId: number | null
+}
+
+export type CnftTransferSumAggregateOutputType = {
+  id: bigint | null
+  cnftId: bigint | null
+}
+
+export type CnftTransferMinAggregateOutputType = {
+  id: bigint | null
+  cnftId: bigint | null
+  event: string | null
+  fromAddress: string | null
+  toAddress: string | null
+  source: string | null
+  txSignature: string | null
+  createdAt: Date | null
+}
+
+export type CnftTransferMaxAggregateOutputType = {
+  id: bigint | null
+  cnftId: bigint | null
+  event: string | null
+  fromAddress: string | null
+  toAddress: string | null
+  source: string | null
+  txSignature: string | null
+  createdAt: Date | null
+}
+
+export type CnftTransferCountAggregateOutputType = {
+  id: number
+  cnftId: number
+  event: number
+  fromAddress: number
+  toAddress: number
+  source: number
+  txSignature: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CnftTransferAvgAggregateInputType = {
+  id?: true
+  cnftId?: true
+}
+
+export type CnftTransferSumAggregateInputType = {
+  id?: true
+  cnftId?: true
+}
+
+export type CnftTransferMinAggregateInputType = {
+  id?: true
+  cnftId?: true
+  event?: true
+  fromAddress?: true
+  toAddress?: true
+  source?: true
+  txSignature?: true
+  createdAt?: true
+}
+
+export type CnftTransferMaxAggregateInputType = {
+  id?: true
+  cnftId?: true
+  event?: true
+  fromAddress?: true
+  toAddress?: true
+  source?: true
+  txSignature?: true
+  createdAt?: true
+}
+
+export type CnftTransferCountAggregateInputType = {
+  id?: true
+  cnftId?: true
+  event?: true
+  fromAddress?: true
+  toAddress?: true
+  source?: true
+  txSignature?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CnftTransferAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftTransfer to aggregate.
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftTransfers to fetch.
+   */
+  orderBy?: Prisma.CnftTransferOrderByWithRelationInput | Prisma.CnftTransferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CnftTransferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftTransfers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftTransfers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CnftTransfers
+  **/
+  _count?: true | CnftTransferCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CnftTransferAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CnftTransferSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CnftTransferMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CnftTransferMaxAggregateInputType
+}
+
+export type GetCnftTransferAggregateType<T extends CnftTransferAggregateArgs> = {
+      [P in keyof T & keyof AggregateCnftTransfer]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCnftTransfer[P]>
+    : Prisma.GetScalarType<T[P], AggregateCnftTransfer[P]>
+}
+
+
+
+
+export type CnftTransferGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftTransferWhereInput
+  orderBy?: Prisma.CnftTransferOrderByWithAggregationInput | Prisma.CnftTransferOrderByWithAggregationInput[]
+  by: Prisma.CnftTransferScalarFieldEnum[] | Prisma.CnftTransferScalarFieldEnum
+  having?: Prisma.CnftTransferScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CnftTransferCountAggregateInputType | true
+  _avg?: CnftTransferAvgAggregateInputType
+  _sum?: CnftTransferSumAggregateInputType
+  _min?: CnftTransferMinAggregateInputType
+  _max?: CnftTransferMaxAggregateInputType
+}
+
+export type CnftTransferGroupByOutputType = {
+  id: bigint
+  cnftId: bigint
+  event: string
+  fromAddress: string
+  toAddress: string | null
+  source: string
+  txSignature: string | null
+  createdAt: Date
+  _count: CnftTransferCountAggregateOutputType | null
+  _avg: CnftTransferAvgAggregateOutputType | null
+  _sum: CnftTransferSumAggregateOutputType | null
+  _min: CnftTransferMinAggregateOutputType | null
+  _max: CnftTransferMaxAggregateOutputType | null
+}
+
+type GetCnftTransferGroupByPayload<T extends CnftTransferGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CnftTransferGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CnftTransferGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CnftTransferGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CnftTransferGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CnftTransferWhereInput = {
+  AND?: Prisma.CnftTransferWhereInput | Prisma.CnftTransferWhereInput[]
+  OR?: Prisma.CnftTransferWhereInput[]
+  NOT?: Prisma.CnftTransferWhereInput | Prisma.CnftTransferWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftTransfer"> | bigint | number
+  cnftId?: Prisma.BigIntFilter<"CnftTransfer"> | bigint | number
+  event?: Prisma.StringFilter<"CnftTransfer"> | string
+  fromAddress?: Prisma.StringFilter<"CnftTransfer"> | string
+  toAddress?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  source?: Prisma.StringFilter<"CnftTransfer"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CnftTransfer"> | Date | string
+  cnft?: Prisma.XOR<Prisma.CompressedNftScalarRelationFilter, Prisma.CompressedNftWhereInput>
+}
+
+export type CnftTransferOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  fromAddress?: Prisma.SortOrder
+  toAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  cnft?: Prisma.CompressedNftOrderByWithRelationInput
+}
+
+export type CnftTransferWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.CnftTransferWhereInput | Prisma.CnftTransferWhereInput[]
+  OR?: Prisma.CnftTransferWhereInput[]
+  NOT?: Prisma.CnftTransferWhereInput | Prisma.CnftTransferWhereInput[]
+  cnftId?: Prisma.BigIntFilter<"CnftTransfer"> | bigint | number
+  event?: Prisma.StringFilter<"CnftTransfer"> | string
+  fromAddress?: Prisma.StringFilter<"CnftTransfer"> | string
+  toAddress?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  source?: Prisma.StringFilter<"CnftTransfer"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CnftTransfer"> | Date | string
+  cnft?: Prisma.XOR<Prisma.CompressedNftScalarRelationFilter, Prisma.CompressedNftWhereInput>
+}, "id">
+
+export type CnftTransferOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  fromAddress?: Prisma.SortOrder
+  toAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CnftTransferCountOrderByAggregateInput
+  _avg?: Prisma.CnftTransferAvgOrderByAggregateInput
+  _max?: Prisma.CnftTransferMaxOrderByAggregateInput
+  _min?: Prisma.CnftTransferMinOrderByAggregateInput
+  _sum?: Prisma.CnftTransferSumOrderByAggregateInput
+}
+
+export type CnftTransferScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CnftTransferScalarWhereWithAggregatesInput | Prisma.CnftTransferScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CnftTransferScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CnftTransferScalarWhereWithAggregatesInput | Prisma.CnftTransferScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"CnftTransfer"> | bigint | number
+  cnftId?: Prisma.BigIntWithAggregatesFilter<"CnftTransfer"> | bigint | number
+  event?: Prisma.StringWithAggregatesFilter<"CnftTransfer"> | string
+  fromAddress?: Prisma.StringWithAggregatesFilter<"CnftTransfer"> | string
+  toAddress?: Prisma.StringNullableWithAggregatesFilter<"CnftTransfer"> | string | null
+  source?: Prisma.StringWithAggregatesFilter<"CnftTransfer"> | string
+  txSignature?: Prisma.StringNullableWithAggregatesFilter<"CnftTransfer"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CnftTransfer"> | Date | string
+}
+
+export type CnftTransferCreateInput = {
+  id?: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+  cnft: Prisma.CompressedNftCreateNestedOneWithoutTransfersInput
+}
+
+export type CnftTransferUncheckedCreateInput = {
+  id?: bigint | number
+  cnftId: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+}
+
+export type CnftTransferUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cnft?: Prisma.CompressedNftUpdateOneRequiredWithoutTransfersNestedInput
+}
+
+export type CnftTransferUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  cnftId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftTransferCreateManyInput = {
+  id?: bigint | number
+  cnftId: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+}
+
+export type CnftTransferUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftTransferUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  cnftId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftTransferListRelationFilter = {
+  every?: Prisma.CnftTransferWhereInput
+  some?: Prisma.CnftTransferWhereInput
+  none?: Prisma.CnftTransferWhereInput
+}
+
+export type CnftTransferOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CnftTransferCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  fromAddress?: Prisma.SortOrder
+  toAddress?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CnftTransferAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+}
+
+export type CnftTransferMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  fromAddress?: Prisma.SortOrder
+  toAddress?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CnftTransferMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  fromAddress?: Prisma.SortOrder
+  toAddress?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  txSignature?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CnftTransferSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  cnftId?: Prisma.SortOrder
+}
+
+export type CnftTransferCreateNestedManyWithoutCnftInput = {
+  create?: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput> | Prisma.CnftTransferCreateWithoutCnftInput[] | Prisma.CnftTransferUncheckedCreateWithoutCnftInput[]
+  connectOrCreate?: Prisma.CnftTransferCreateOrConnectWithoutCnftInput | Prisma.CnftTransferCreateOrConnectWithoutCnftInput[]
+  createMany?: Prisma.CnftTransferCreateManyCnftInputEnvelope
+  connect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+}
+
+export type CnftTransferUncheckedCreateNestedManyWithoutCnftInput = {
+  create?: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput> | Prisma.CnftTransferCreateWithoutCnftInput[] | Prisma.CnftTransferUncheckedCreateWithoutCnftInput[]
+  connectOrCreate?: Prisma.CnftTransferCreateOrConnectWithoutCnftInput | Prisma.CnftTransferCreateOrConnectWithoutCnftInput[]
+  createMany?: Prisma.CnftTransferCreateManyCnftInputEnvelope
+  connect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+}
+
+export type CnftTransferUpdateManyWithoutCnftNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput> | Prisma.CnftTransferCreateWithoutCnftInput[] | Prisma.CnftTransferUncheckedCreateWithoutCnftInput[]
+  connectOrCreate?: Prisma.CnftTransferCreateOrConnectWithoutCnftInput | Prisma.CnftTransferCreateOrConnectWithoutCnftInput[]
+  upsert?: Prisma.CnftTransferUpsertWithWhereUniqueWithoutCnftInput | Prisma.CnftTransferUpsertWithWhereUniqueWithoutCnftInput[]
+  createMany?: Prisma.CnftTransferCreateManyCnftInputEnvelope
+  set?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  disconnect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  delete?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  connect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  update?: Prisma.CnftTransferUpdateWithWhereUniqueWithoutCnftInput | Prisma.CnftTransferUpdateWithWhereUniqueWithoutCnftInput[]
+  updateMany?: Prisma.CnftTransferUpdateManyWithWhereWithoutCnftInput | Prisma.CnftTransferUpdateManyWithWhereWithoutCnftInput[]
+  deleteMany?: Prisma.CnftTransferScalarWhereInput | Prisma.CnftTransferScalarWhereInput[]
+}
+
+export type CnftTransferUncheckedUpdateManyWithoutCnftNestedInput = {
+  create?: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput> | Prisma.CnftTransferCreateWithoutCnftInput[] | Prisma.CnftTransferUncheckedCreateWithoutCnftInput[]
+  connectOrCreate?: Prisma.CnftTransferCreateOrConnectWithoutCnftInput | Prisma.CnftTransferCreateOrConnectWithoutCnftInput[]
+  upsert?: Prisma.CnftTransferUpsertWithWhereUniqueWithoutCnftInput | Prisma.CnftTransferUpsertWithWhereUniqueWithoutCnftInput[]
+  createMany?: Prisma.CnftTransferCreateManyCnftInputEnvelope
+  set?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  disconnect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  delete?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  connect?: Prisma.CnftTransferWhereUniqueInput | Prisma.CnftTransferWhereUniqueInput[]
+  update?: Prisma.CnftTransferUpdateWithWhereUniqueWithoutCnftInput | Prisma.CnftTransferUpdateWithWhereUniqueWithoutCnftInput[]
+  updateMany?: Prisma.CnftTransferUpdateManyWithWhereWithoutCnftInput | Prisma.CnftTransferUpdateManyWithWhereWithoutCnftInput[]
+  deleteMany?: Prisma.CnftTransferScalarWhereInput | Prisma.CnftTransferScalarWhereInput[]
+}
+
+export type CnftTransferCreateWithoutCnftInput = {
+  id?: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+}
+
+export type CnftTransferUncheckedCreateWithoutCnftInput = {
+  id?: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+}
+
+export type CnftTransferCreateOrConnectWithoutCnftInput = {
+  where: Prisma.CnftTransferWhereUniqueInput
+  create: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput>
+}
+
+export type CnftTransferCreateManyCnftInputEnvelope = {
+  data: Prisma.CnftTransferCreateManyCnftInput | Prisma.CnftTransferCreateManyCnftInput[]
+  skipDuplicates?: boolean
+}
+
+export type CnftTransferUpsertWithWhereUniqueWithoutCnftInput = {
+  where: Prisma.CnftTransferWhereUniqueInput
+  update: Prisma.XOR<Prisma.CnftTransferUpdateWithoutCnftInput, Prisma.CnftTransferUncheckedUpdateWithoutCnftInput>
+  create: Prisma.XOR<Prisma.CnftTransferCreateWithoutCnftInput, Prisma.CnftTransferUncheckedCreateWithoutCnftInput>
+}
+
+export type CnftTransferUpdateWithWhereUniqueWithoutCnftInput = {
+  where: Prisma.CnftTransferWhereUniqueInput
+  data: Prisma.XOR<Prisma.CnftTransferUpdateWithoutCnftInput, Prisma.CnftTransferUncheckedUpdateWithoutCnftInput>
+}
+
+export type CnftTransferUpdateManyWithWhereWithoutCnftInput = {
+  where: Prisma.CnftTransferScalarWhereInput
+  data: Prisma.XOR<Prisma.CnftTransferUpdateManyMutationInput, Prisma.CnftTransferUncheckedUpdateManyWithoutCnftInput>
+}
+
+export type CnftTransferScalarWhereInput = {
+  AND?: Prisma.CnftTransferScalarWhereInput | Prisma.CnftTransferScalarWhereInput[]
+  OR?: Prisma.CnftTransferScalarWhereInput[]
+  NOT?: Prisma.CnftTransferScalarWhereInput | Prisma.CnftTransferScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"CnftTransfer"> | bigint | number
+  cnftId?: Prisma.BigIntFilter<"CnftTransfer"> | bigint | number
+  event?: Prisma.StringFilter<"CnftTransfer"> | string
+  fromAddress?: Prisma.StringFilter<"CnftTransfer"> | string
+  toAddress?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  source?: Prisma.StringFilter<"CnftTransfer"> | string
+  txSignature?: Prisma.StringNullableFilter<"CnftTransfer"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"CnftTransfer"> | Date | string
+}
+
+export type CnftTransferCreateManyCnftInput = {
+  id?: bigint | number
+  event: string
+  fromAddress: string
+  toAddress?: string | null
+  source?: string
+  txSignature?: string | null
+  createdAt?: Date | string
+}
+
+export type CnftTransferUpdateWithoutCnftInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftTransferUncheckedUpdateWithoutCnftInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CnftTransferUncheckedUpdateManyWithoutCnftInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  toAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.StringFieldUpdateOperationsInput | string
+  txSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CnftTransferSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cnftId?: boolean
+  event?: boolean
+  fromAddress?: boolean
+  toAddress?: boolean
+  source?: boolean
+  txSignature?: boolean
+  createdAt?: boolean
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftTransfer"]>
+
+export type CnftTransferSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cnftId?: boolean
+  event?: boolean
+  fromAddress?: boolean
+  toAddress?: boolean
+  source?: boolean
+  txSignature?: boolean
+  createdAt?: boolean
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftTransfer"]>
+
+export type CnftTransferSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  cnftId?: boolean
+  event?: boolean
+  fromAddress?: boolean
+  toAddress?: boolean
+  source?: boolean
+  txSignature?: boolean
+  createdAt?: boolean
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cnftTransfer"]>
+
+export type CnftTransferSelectScalar = {
+  id?: boolean
+  cnftId?: boolean
+  event?: boolean
+  fromAddress?: boolean
+  toAddress?: boolean
+  source?: boolean
+  txSignature?: boolean
+  createdAt?: boolean
+}
+
+export type CnftTransferOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "cnftId" | "event" | "fromAddress" | "toAddress" | "source" | "txSignature" | "createdAt", ExtArgs["result"]["cnftTransfer"]>
+export type CnftTransferInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}
+export type CnftTransferIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}
+export type CnftTransferIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  cnft?: boolean | Prisma.CompressedNftDefaultArgs<ExtArgs>
+}
+
+export type $CnftTransferPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CnftTransfer"
+  objects: {
+    cnft: Prisma.$CompressedNftPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    cnftId: bigint
+    event: string
+    fromAddress: string
+    toAddress: string | null
+    source: string
+    txSignature: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["cnftTransfer"]>
+  composites: {}
+}
+
+export type CnftTransferGetPayload<S extends boolean | null | undefined | CnftTransferDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload, S>
+
+export type CnftTransferCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CnftTransferFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CnftTransferCountAggregateInputType | true
+  }
+
+export interface CnftTransferDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CnftTransfer'], meta: { name: 'CnftTransfer' } }
+  /**
+   * Find zero or one CnftTransfer that matches the filter.
+   * @param {CnftTransferFindUniqueArgs} args - Arguments to find a CnftTransfer
+   * @example
+   * // Get one CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CnftTransferFindUniqueArgs>(args: Prisma.SelectSubset<T, CnftTransferFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CnftTransfer that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CnftTransferFindUniqueOrThrowArgs} args - Arguments to find a CnftTransfer
+   * @example
+   * // Get one CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CnftTransferFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CnftTransferFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftTransfer that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferFindFirstArgs} args - Arguments to find a CnftTransfer
+   * @example
+   * // Get one CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CnftTransferFindFirstArgs>(args?: Prisma.SelectSubset<T, CnftTransferFindFirstArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CnftTransfer that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferFindFirstOrThrowArgs} args - Arguments to find a CnftTransfer
+   * @example
+   * // Get one CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CnftTransferFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CnftTransferFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CnftTransfers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CnftTransfers
+   * const cnftTransfers = await prisma.cnftTransfer.findMany()
+   * 
+   * // Get first 10 CnftTransfers
+   * const cnftTransfers = await prisma.cnftTransfer.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cnftTransferWithIdOnly = await prisma.cnftTransfer.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CnftTransferFindManyArgs>(args?: Prisma.SelectSubset<T, CnftTransferFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CnftTransfer.
+   * @param {CnftTransferCreateArgs} args - Arguments to create a CnftTransfer.
+   * @example
+   * // Create one CnftTransfer
+   * const CnftTransfer = await prisma.cnftTransfer.create({
+   *   data: {
+   *     // ... data to create a CnftTransfer
+   *   }
+   * })
+   * 
+   */
+  create<T extends CnftTransferCreateArgs>(args: Prisma.SelectSubset<T, CnftTransferCreateArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CnftTransfers.
+   * @param {CnftTransferCreateManyArgs} args - Arguments to create many CnftTransfers.
+   * @example
+   * // Create many CnftTransfers
+   * const cnftTransfer = await prisma.cnftTransfer.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CnftTransferCreateManyArgs>(args?: Prisma.SelectSubset<T, CnftTransferCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CnftTransfers and returns the data saved in the database.
+   * @param {CnftTransferCreateManyAndReturnArgs} args - Arguments to create many CnftTransfers.
+   * @example
+   * // Create many CnftTransfers
+   * const cnftTransfer = await prisma.cnftTransfer.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CnftTransfers and only return the `id`
+   * const cnftTransferWithIdOnly = await prisma.cnftTransfer.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CnftTransferCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CnftTransferCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CnftTransfer.
+   * @param {CnftTransferDeleteArgs} args - Arguments to delete one CnftTransfer.
+   * @example
+   * // Delete one CnftTransfer
+   * const CnftTransfer = await prisma.cnftTransfer.delete({
+   *   where: {
+   *     // ... filter to delete one CnftTransfer
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CnftTransferDeleteArgs>(args: Prisma.SelectSubset<T, CnftTransferDeleteArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CnftTransfer.
+   * @param {CnftTransferUpdateArgs} args - Arguments to update one CnftTransfer.
+   * @example
+   * // Update one CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CnftTransferUpdateArgs>(args: Prisma.SelectSubset<T, CnftTransferUpdateArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CnftTransfers.
+   * @param {CnftTransferDeleteManyArgs} args - Arguments to filter CnftTransfers to delete.
+   * @example
+   * // Delete a few CnftTransfers
+   * const { count } = await prisma.cnftTransfer.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CnftTransferDeleteManyArgs>(args?: Prisma.SelectSubset<T, CnftTransferDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftTransfers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CnftTransfers
+   * const cnftTransfer = await prisma.cnftTransfer.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CnftTransferUpdateManyArgs>(args: Prisma.SelectSubset<T, CnftTransferUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CnftTransfers and returns the data updated in the database.
+   * @param {CnftTransferUpdateManyAndReturnArgs} args - Arguments to update many CnftTransfers.
+   * @example
+   * // Update many CnftTransfers
+   * const cnftTransfer = await prisma.cnftTransfer.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CnftTransfers and only return the `id`
+   * const cnftTransferWithIdOnly = await prisma.cnftTransfer.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CnftTransferUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CnftTransferUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CnftTransfer.
+   * @param {CnftTransferUpsertArgs} args - Arguments to update or create a CnftTransfer.
+   * @example
+   * // Update or create a CnftTransfer
+   * const cnftTransfer = await prisma.cnftTransfer.upsert({
+   *   create: {
+   *     // ... data to create a CnftTransfer
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CnftTransfer we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CnftTransferUpsertArgs>(args: Prisma.SelectSubset<T, CnftTransferUpsertArgs<ExtArgs>>): Prisma.Prisma__CnftTransferClient<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CnftTransfers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferCountArgs} args - Arguments to filter CnftTransfers to count.
+   * @example
+   * // Count the number of CnftTransfers
+   * const count = await prisma.cnftTransfer.count({
+   *   where: {
+   *     // ... the filter for the CnftTransfers we want to count
+   *   }
+   * })
+  **/
+  count<T extends CnftTransferCountArgs>(
+    args?: Prisma.Subset<T, CnftTransferCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CnftTransferCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CnftTransfer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CnftTransferAggregateArgs>(args: Prisma.Subset<T, CnftTransferAggregateArgs>): Prisma.PrismaPromise<GetCnftTransferAggregateType<T>>
+
+  /**
+   * Group by CnftTransfer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CnftTransferGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CnftTransferGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CnftTransferGroupByArgs['orderBy'] }
+      : { orderBy?: CnftTransferGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CnftTransferGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCnftTransferGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CnftTransfer model
+ */
+readonly fields: CnftTransferFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CnftTransfer.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CnftTransferClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  cnft<T extends Prisma.CompressedNftDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CompressedNftDefaultArgs<ExtArgs>>): Prisma.Prisma__CompressedNftClient<runtime.Types.Result.GetResult<Prisma.$CompressedNftPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CnftTransfer model
+ */
+export interface CnftTransferFieldRefs {
+  readonly id: Prisma.FieldRef<"CnftTransfer", 'BigInt'>
+  readonly cnftId: Prisma.FieldRef<"CnftTransfer", 'BigInt'>
+  readonly event: Prisma.FieldRef<"CnftTransfer", 'String'>
+  readonly fromAddress: Prisma.FieldRef<"CnftTransfer", 'String'>
+  readonly toAddress: Prisma.FieldRef<"CnftTransfer", 'String'>
+  readonly source: Prisma.FieldRef<"CnftTransfer", 'String'>
+  readonly txSignature: Prisma.FieldRef<"CnftTransfer", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CnftTransfer", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CnftTransfer findUnique
+ */
+export type CnftTransferFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftTransfer to fetch.
+   */
+  where: Prisma.CnftTransferWhereUniqueInput
+}
+
+/**
+ * CnftTransfer findUniqueOrThrow
+ */
+export type CnftTransferFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftTransfer to fetch.
+   */
+  where: Prisma.CnftTransferWhereUniqueInput
+}
+
+/**
+ * CnftTransfer findFirst
+ */
+export type CnftTransferFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftTransfer to fetch.
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftTransfers to fetch.
+   */
+  orderBy?: Prisma.CnftTransferOrderByWithRelationInput | Prisma.CnftTransferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftTransfers.
+   */
+  cursor?: Prisma.CnftTransferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftTransfers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftTransfers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftTransfers.
+   */
+  distinct?: Prisma.CnftTransferScalarFieldEnum | Prisma.CnftTransferScalarFieldEnum[]
+}
+
+/**
+ * CnftTransfer findFirstOrThrow
+ */
+export type CnftTransferFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftTransfer to fetch.
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftTransfers to fetch.
+   */
+  orderBy?: Prisma.CnftTransferOrderByWithRelationInput | Prisma.CnftTransferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CnftTransfers.
+   */
+  cursor?: Prisma.CnftTransferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftTransfers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftTransfers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CnftTransfers.
+   */
+  distinct?: Prisma.CnftTransferScalarFieldEnum | Prisma.CnftTransferScalarFieldEnum[]
+}
+
+/**
+ * CnftTransfer findMany
+ */
+export type CnftTransferFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter, which CnftTransfers to fetch.
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CnftTransfers to fetch.
+   */
+  orderBy?: Prisma.CnftTransferOrderByWithRelationInput | Prisma.CnftTransferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CnftTransfers.
+   */
+  cursor?: Prisma.CnftTransferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CnftTransfers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CnftTransfers.
+   */
+  skip?: number
+  distinct?: Prisma.CnftTransferScalarFieldEnum | Prisma.CnftTransferScalarFieldEnum[]
+}
+
+/**
+ * CnftTransfer create
+ */
+export type CnftTransferCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CnftTransfer.
+   */
+  data: Prisma.XOR<Prisma.CnftTransferCreateInput, Prisma.CnftTransferUncheckedCreateInput>
+}
+
+/**
+ * CnftTransfer createMany
+ */
+export type CnftTransferCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CnftTransfers.
+   */
+  data: Prisma.CnftTransferCreateManyInput | Prisma.CnftTransferCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CnftTransfer createManyAndReturn
+ */
+export type CnftTransferCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * The data used to create many CnftTransfers.
+   */
+  data: Prisma.CnftTransferCreateManyInput | Prisma.CnftTransferCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftTransfer update
+ */
+export type CnftTransferUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CnftTransfer.
+   */
+  data: Prisma.XOR<Prisma.CnftTransferUpdateInput, Prisma.CnftTransferUncheckedUpdateInput>
+  /**
+   * Choose, which CnftTransfer to update.
+   */
+  where: Prisma.CnftTransferWhereUniqueInput
+}
+
+/**
+ * CnftTransfer updateMany
+ */
+export type CnftTransferUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CnftTransfers.
+   */
+  data: Prisma.XOR<Prisma.CnftTransferUpdateManyMutationInput, Prisma.CnftTransferUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftTransfers to update
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * Limit how many CnftTransfers to update.
+   */
+  limit?: number
+}
+
+/**
+ * CnftTransfer updateManyAndReturn
+ */
+export type CnftTransferUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * The data used to update CnftTransfers.
+   */
+  data: Prisma.XOR<Prisma.CnftTransferUpdateManyMutationInput, Prisma.CnftTransferUncheckedUpdateManyInput>
+  /**
+   * Filter which CnftTransfers to update
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * Limit how many CnftTransfers to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CnftTransfer upsert
+ */
+export type CnftTransferUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CnftTransfer to update in case it exists.
+   */
+  where: Prisma.CnftTransferWhereUniqueInput
+  /**
+   * In case the CnftTransfer found by the `where` argument doesn't exist, create a new CnftTransfer with this data.
+   */
+  create: Prisma.XOR<Prisma.CnftTransferCreateInput, Prisma.CnftTransferUncheckedCreateInput>
+  /**
+   * In case the CnftTransfer was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CnftTransferUpdateInput, Prisma.CnftTransferUncheckedUpdateInput>
+}
+
+/**
+ * CnftTransfer delete
+ */
+export type CnftTransferDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  /**
+   * Filter which CnftTransfer to delete.
+   */
+  where: Prisma.CnftTransferWhereUniqueInput
+}
+
+/**
+ * CnftTransfer deleteMany
+ */
+export type CnftTransferDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CnftTransfers to delete
+   */
+  where?: Prisma.CnftTransferWhereInput
+  /**
+   * Limit how many CnftTransfers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CnftTransfer without action
+ */
+export type CnftTransferDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+}
@@ -58,8 +58,10 @@ export type CompressedNftMinAggregateOutputType = {
   metadataCid: string | null
   originalImageId: bigint | null
   ownerAddress: string | null
+  delegateAddress: string | null
   mintTxSignature: string | null
   status: number | null
+  ownerSyncedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -78,8 +80,10 @@ export type CompressedNftMaxAggregateOutputType = {
   metadataCid: string | null
   originalImageId: bigint | null
   ownerAddress: string | null
+  delegateAddress: string | null
   mintTxSignature: string | null
   status: number | null
+  ownerSyncedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -98,8 +102,10 @@ export type CompressedNftCountAggregateOutputType = {
   metadataCid: number
   originalImageId: number
   ownerAddress: number
+  delegateAddress: number
   mintTxSignature: number
   status: number
+  ownerSyncedAt: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -138,8 +144,10 @@ export type CompressedNftMinAggregateInputType = {
   metadataCid?: true
   originalImageId?: true
   ownerAddress?: true
+  delegateAddress?: true
   mintTxSignature?: true
   status?: true
+  ownerSyncedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -158,8 +166,10 @@ export type CompressedNftMaxAggregateInputType = {
   metadataCid?: true
   originalImageId?: true
   ownerAddress?: true
+  delegateAddress?: true
   mintTxSignature?: true
   status?: true
+  ownerSyncedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -178,8 +188,10 @@ export type CompressedNftCountAggregateInputType = {
   metadataCid?: true
   originalImageId?: true
   ownerAddress?: true
+  delegateAddress?: true
   mintTxSignature?: true
   status?: true
+  ownerSyncedAt?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -285,8 +297,10 @@ export type CompressedNftGroupByOutputType = {
   metadataCid: string | null
   originalImageId: bigint | null
   ownerAddress: string
+  delegateAddress: string | null
   mintTxSignature: string | null
   status: number
+  ownerSyncedAt: Date | null
   createdAt: Date
   updatedAt: Date
   _count: CompressedNftCountAggregateOutputType | null
@@ -328,11 +342,14 @@ export type CompressedNftWhereInput = {
   metadataCid?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   originalImageId?: Prisma.BigIntNullableFilter<"CompressedNft"> | bigint | number | null
   ownerAddress?: Prisma.StringFilter<"CompressedNft"> | string
+  delegateAddress?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   mintTxSignature?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   status?: Prisma.IntFilter<"CompressedNft"> | number
+  ownerSyncedAt?: Prisma.DateTimeNullableFilter<"CompressedNft"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
   merkleTree?: Prisma.XOR<Prisma.MerkleTreeScalarRelationFilter, Prisma.MerkleTreeWhereInput>
+  transfers?: Prisma.CnftTransferListRelationFilter
 }
 
 export type CompressedNftOrderByWithRelationInput = {
@@ -349,11 +366,14 @@ export type CompressedNftOrderByWithRelationInput = {
   metadataCid?: Prisma.SortOrderInput | Prisma.SortOrder
   originalImageId?: Prisma.SortOrderInput | Prisma.SortOrder
   ownerAddress?: Prisma.SortOrder
+  delegateAddress?: Prisma.SortOrderInput | Prisma.SortOrder
   mintTxSignature?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  ownerSyncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   merkleTree?: Prisma.MerkleTreeOrderByWithRelationInput
+  transfers?: Prisma.CnftTransferOrderByRelationAggregateInput
 }
 
 export type CompressedNftWhereUniqueInput = Prisma.AtLeast<{
@@ -373,11 +393,14 @@ export type CompressedNftWhereUniqueInput = Prisma.AtLeast<{
   metadataCid?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   originalImageId?: Prisma.BigIntNullableFilter<"CompressedNft"> | bigint | number | null
   ownerAddress?: Prisma.StringFilter<"CompressedNft"> | string
+  delegateAddress?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   mintTxSignature?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   status?: Prisma.IntFilter<"CompressedNft"> | number
+  ownerSyncedAt?: Prisma.DateTimeNullableFilter<"CompressedNft"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
   merkleTree?: Prisma.XOR<Prisma.MerkleTreeScalarRelationFilter, Prisma.MerkleTreeWhereInput>
+  transfers?: Prisma.CnftTransferListRelationFilter
 }, "id" | "assetId">
 
 export type CompressedNftOrderByWithAggregationInput = {
@@ -394,8 +417,10 @@ export type CompressedNftOrderByWithAggregationInput = {
   metadataCid?: Prisma.SortOrderInput | Prisma.SortOrder
   originalImageId?: Prisma.SortOrderInput | Prisma.SortOrder
   ownerAddress?: Prisma.SortOrder
+  delegateAddress?: Prisma.SortOrderInput | Prisma.SortOrder
   mintTxSignature?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  ownerSyncedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.CompressedNftCountOrderByAggregateInput
@@ -422,8 +447,10 @@ export type CompressedNftScalarWhereWithAggregatesInput = {
   metadataCid?: Prisma.StringNullableWithAggregatesFilter<"CompressedNft"> | string | null
   originalImageId?: Prisma.BigIntNullableWithAggregatesFilter<"CompressedNft"> | bigint | number | null
   ownerAddress?: Prisma.StringWithAggregatesFilter<"CompressedNft"> | string
+  delegateAddress?: Prisma.StringNullableWithAggregatesFilter<"CompressedNft"> | string | null
   mintTxSignature?: Prisma.StringNullableWithAggregatesFilter<"CompressedNft"> | string | null
   status?: Prisma.IntWithAggregatesFilter<"CompressedNft"> | number
+  ownerSyncedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CompressedNft"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"CompressedNft"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CompressedNft"> | Date | string
 }
@@ -441,11 +468,14 @@ export type CompressedNftCreateInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   merkleTree: Prisma.MerkleTreeCreateNestedOneWithoutCnftsInput
+  transfers?: Prisma.CnftTransferCreateNestedManyWithoutCnftInput
 }
 
 export type CompressedNftUncheckedCreateInput = {
@@ -462,10 +492,13 @@ export type CompressedNftUncheckedCreateInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  transfers?: Prisma.CnftTransferUncheckedCreateNestedManyWithoutCnftInput
 }
 
 export type CompressedNftUpdateInput = {
@@ -481,11 +514,14 @@ export type CompressedNftUpdateInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   merkleTree?: Prisma.MerkleTreeUpdateOneRequiredWithoutCnftsNestedInput
+  transfers?: Prisma.CnftTransferUpdateManyWithoutCnftNestedInput
 }
 
 export type CompressedNftUncheckedUpdateInput = {
@@ -502,10 +538,13 @@ export type CompressedNftUncheckedUpdateInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transfers?: Prisma.CnftTransferUncheckedUpdateManyWithoutCnftNestedInput
 }
 
 export type CompressedNftCreateManyInput = {
@@ -522,8 +561,10 @@ export type CompressedNftCreateManyInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -541,8 +582,10 @@ export type CompressedNftUpdateManyMutationInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -561,8 +604,10 @@ export type CompressedNftUncheckedUpdateManyInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -591,8 +636,10 @@ export type CompressedNftCountOrderByAggregateInput = {
   metadataCid?: Prisma.SortOrder
   originalImageId?: Prisma.SortOrder
   ownerAddress?: Prisma.SortOrder
+  delegateAddress?: Prisma.SortOrder
   mintTxSignature?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  ownerSyncedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -620,8 +667,10 @@ export type CompressedNftMaxOrderByAggregateInput = {
   metadataCid?: Prisma.SortOrder
   originalImageId?: Prisma.SortOrder
   ownerAddress?: Prisma.SortOrder
+  delegateAddress?: Prisma.SortOrder
   mintTxSignature?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  ownerSyncedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -640,8 +689,10 @@ export type CompressedNftMinOrderByAggregateInput = {
   metadataCid?: Prisma.SortOrder
   originalImageId?: Prisma.SortOrder
   ownerAddress?: Prisma.SortOrder
+  delegateAddress?: Prisma.SortOrder
   mintTxSignature?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  ownerSyncedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -655,6 +706,11 @@ export type CompressedNftSumOrderByAggregateInput = {
   status?: Prisma.SortOrder
 }
 
+export type CompressedNftScalarRelationFilter = {
+  is?: Prisma.CompressedNftWhereInput
+  isNot?: Prisma.CompressedNftWhereInput
+}
+
 export type CompressedNftCreateNestedManyWithoutMerkleTreeInput = {
   create?: Prisma.XOR<Prisma.CompressedNftCreateWithoutMerkleTreeInput, Prisma.CompressedNftUncheckedCreateWithoutMerkleTreeInput> | Prisma.CompressedNftCreateWithoutMerkleTreeInput[] | Prisma.CompressedNftUncheckedCreateWithoutMerkleTreeInput[]
   connectOrCreate?: Prisma.CompressedNftCreateOrConnectWithoutMerkleTreeInput | Prisma.CompressedNftCreateOrConnectWithoutMerkleTreeInput[]
@@ -697,6 +753,20 @@ export type CompressedNftUncheckedUpdateManyWithoutMerkleTreeNestedInput = {
   deleteMany?: Prisma.CompressedNftScalarWhereInput | Prisma.CompressedNftScalarWhereInput[]
 }
 
+export type CompressedNftCreateNestedOneWithoutTransfersInput = {
+  create?: Prisma.XOR<Prisma.CompressedNftCreateWithoutTransfersInput, Prisma.CompressedNftUncheckedCreateWithoutTransfersInput>
+  connectOrCreate?: Prisma.CompressedNftCreateOrConnectWithoutTransfersInput
+  connect?: Prisma.CompressedNftWhereUniqueInput
+}
+
+export type CompressedNftUpdateOneRequiredWithoutTransfersNestedInput = {
+  create?: Prisma.XOR<Prisma.CompressedNftCreateWithoutTransfersInput, Prisma.CompressedNftUncheckedCreateWithoutTransfersInput>
+  connectOrCreate?: Prisma.CompressedNftCreateOrConnectWithoutTransfersInput
+  upsert?: Prisma.CompressedNftUpsertWithoutTransfersInput
+  connect?: Prisma.CompressedNftWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompressedNftUpdateToOneWithWhereWithoutTransfersInput, Prisma.CompressedNftUpdateWithoutTransfersInput>, Prisma.CompressedNftUncheckedUpdateWithoutTransfersInput>
+}
+
 export type CompressedNftCreateWithoutMerkleTreeInput = {
   id?: bigint | number
   projectId: bigint | number
@@ -710,10 +780,13 @@ export type CompressedNftCreateWithoutMerkleTreeInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  transfers?: Prisma.CnftTransferCreateNestedManyWithoutCnftInput
 }
 
 export type CompressedNftUncheckedCreateWithoutMerkleTreeInput = {
@@ -729,10 +802,13 @@ export type CompressedNftUncheckedCreateWithoutMerkleTreeInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  transfers?: Prisma.CnftTransferUncheckedCreateNestedManyWithoutCnftInput
 }
 
 export type CompressedNftCreateOrConnectWithoutMerkleTreeInput = {
@@ -778,12 +854,118 @@ export type CompressedNftScalarWhereInput = {
   metadataCid?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   originalImageId?: Prisma.BigIntNullableFilter<"CompressedNft"> | bigint | number | null
   ownerAddress?: Prisma.StringFilter<"CompressedNft"> | string
+  delegateAddress?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   mintTxSignature?: Prisma.StringNullableFilter<"CompressedNft"> | string | null
   status?: Prisma.IntFilter<"CompressedNft"> | number
+  ownerSyncedAt?: Prisma.DateTimeNullableFilter<"CompressedNft"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"CompressedNft"> | Date | string
 }
 
+export type CompressedNftCreateWithoutTransfersInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  assetId: string
+  leafIndex: number
+  name: string
+  symbol?: string | null
+  description?: string | null
+  metadataUri?: string | null
+  imageCid?: string | null
+  metadataCid?: string | null
+  originalImageId?: bigint | number | null
+  ownerAddress: string
+  delegateAddress?: string | null
+  mintTxSignature?: string | null
+  status?: number
+  ownerSyncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  merkleTree: Prisma.MerkleTreeCreateNestedOneWithoutCnftsInput
+}
+
+export type CompressedNftUncheckedCreateWithoutTransfersInput = {
+  id?: bigint | number
+  merkleTreeId: bigint | number
+  projectId: bigint | number
+  assetId: string
+  leafIndex: number
+  name: string
+  symbol?: string | null
+  description?: string | null
+  metadataUri?: string | null
+  imageCid?: string | null
+  metadataCid?: string | null
+  originalImageId?: bigint | number | null
+  ownerAddress: string
+  delegateAddress?: string | null
+  mintTxSignature?: string | null
+  status?: number
+  ownerSyncedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CompressedNftCreateOrConnectWithoutTransfersInput = {
+  where: Prisma.CompressedNftWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompressedNftCreateWithoutTransfersInput, Prisma.CompressedNftUncheckedCreateWithoutTransfersInput>
+}
+
+export type CompressedNftUpsertWithoutTransfersInput = {
+  update: Prisma.XOR<Prisma.CompressedNftUpdateWithoutTransfersInput, Prisma.CompressedNftUncheckedUpdateWithoutTransfersInput>
+  create: Prisma.XOR<Prisma.CompressedNftCreateWithoutTransfersInput, Prisma.CompressedNftUncheckedCreateWithoutTransfersInput>
+  where?: Prisma.CompressedNftWhereInput
+}
+
+export type CompressedNftUpdateToOneWithWhereWithoutTransfersInput = {
+  where?: Prisma.CompressedNftWhereInput
+  data: Prisma.XOR<Prisma.CompressedNftUpdateWithoutTransfersInput, Prisma.CompressedNftUncheckedUpdateWithoutTransfersInput>
+}
+
+export type CompressedNftUpdateWithoutTransfersInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  assetId?: Prisma.StringFieldUpdateOperationsInput | string
+  leafIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  merkleTree?: Prisma.MerkleTreeUpdateOneRequiredWithoutCnftsNestedInput
+}
+
+export type CompressedNftUncheckedUpdateWithoutTransfersInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  merkleTreeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  assetId?: Prisma.StringFieldUpdateOperationsInput | string
+  leafIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type CompressedNftCreateManyMerkleTreeInput = {
   id?: bigint | number
   projectId: bigint | number
@@ -797,8 +979,10 @@ export type CompressedNftCreateManyMerkleTreeInput = {
   metadataCid?: string | null
   originalImageId?: bigint | number | null
   ownerAddress: string
+  delegateAddress?: string | null
   mintTxSignature?: string | null
   status?: number
+  ownerSyncedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -816,10 +1000,13 @@ export type CompressedNftUpdateWithoutMerkleTreeInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transfers?: Prisma.CnftTransferUpdateManyWithoutCnftNestedInput
 }
 
 export type CompressedNftUncheckedUpdateWithoutMerkleTreeInput = {
@@ -835,10 +1022,13 @@ export type CompressedNftUncheckedUpdateWithoutMerkleTreeInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transfers?: Prisma.CnftTransferUncheckedUpdateManyWithoutCnftNestedInput
 }
 
 export type CompressedNftUncheckedUpdateManyWithoutMerkleTreeInput = {
@@ -854,13 +1044,44 @@ export type CompressedNftUncheckedUpdateManyWithoutMerkleTreeInput = {
   metadataCid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   originalImageId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   ownerAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  delegateAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   mintTxSignature?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerSyncedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type CompressedNftCountOutputType
+ */
+
+export type CompressedNftCountOutputType = {
+  transfers: number
+}
+
+export type CompressedNftCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transfers?: boolean | CompressedNftCountOutputTypeCountTransfersArgs
+}
+
+/**
+ * CompressedNftCountOutputType without action
+ */
+export type CompressedNftCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CompressedNftCountOutputType
+   */
+  select?: Prisma.CompressedNftCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CompressedNftCountOutputType without action
+ */
+export type CompressedNftCountOutputTypeCountTransfersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftTransferWhereInput
+}
+
 
 export type CompressedNftSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -876,11 +1097,15 @@ export type CompressedNftSelect<ExtArgs extends runtime.Types.Extensions.Interna
   metadataCid?: boolean
   originalImageId?: boolean
   ownerAddress?: boolean
+  delegateAddress?: boolean
   mintTxSignature?: boolean
   status?: boolean
+  ownerSyncedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   merkleTree?: boolean | Prisma.MerkleTreeDefaultArgs<ExtArgs>
+  transfers?: boolean | Prisma.CompressedNft$transfersArgs<ExtArgs>
+  _count?: boolean | Prisma.CompressedNftCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["compressedNft"]>
 
 export type CompressedNftSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -897,8 +1122,10 @@ export type CompressedNftSelectCreateManyAndReturn<ExtArgs extends runtime.Types
   metadataCid?: boolean
   originalImageId?: boolean
   ownerAddress?: boolean
+  delegateAddress?: boolean
   mintTxSignature?: boolean
   status?: boolean
+  ownerSyncedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   merkleTree?: boolean | Prisma.MerkleTreeDefaultArgs<ExtArgs>
@@ -918,8 +1145,10 @@ export type CompressedNftSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   metadataCid?: boolean
   originalImageId?: boolean
   ownerAddress?: boolean
+  delegateAddress?: boolean
   mintTxSignature?: boolean
   status?: boolean
+  ownerSyncedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   merkleTree?: boolean | Prisma.MerkleTreeDefaultArgs<ExtArgs>
@@ -939,15 +1168,19 @@ export type CompressedNftSelectScalar = {
   metadataCid?: boolean
   originalImageId?: boolean
   ownerAddress?: boolean
+  delegateAddress?: boolean
   mintTxSignature?: boolean
   status?: boolean
+  ownerSyncedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type CompressedNftOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "merkleTreeId" | "projectId" | "assetId" | "leafIndex" | "name" | "symbol" | "description" | "metadataUri" | "imageCid" | "metadataCid" | "originalImageId" | "ownerAddress" | "mintTxSignature" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["compressedNft"]>
+export type CompressedNftOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "merkleTreeId" | "projectId" | "assetId" | "leafIndex" | "name" | "symbol" | "description" | "metadataUri" | "imageCid" | "metadataCid" | "originalImageId" | "ownerAddress" | "delegateAddress" | "mintTxSignature" | "status" | "ownerSyncedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["compressedNft"]>
 export type CompressedNftInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   merkleTree?: boolean | Prisma.MerkleTreeDefaultArgs<ExtArgs>
+  transfers?: boolean | Prisma.CompressedNft$transfersArgs<ExtArgs>
+  _count?: boolean | Prisma.CompressedNftCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CompressedNftIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   merkleTree?: boolean | Prisma.MerkleTreeDefaultArgs<ExtArgs>
@@ -960,6 +1193,7 @@ export type $CompressedNftPayload<ExtArgs extends runtime.Types.Extensions.Inter
   name: "CompressedNft"
   objects: {
     merkleTree: Prisma.$MerkleTreePayload<ExtArgs>
+    transfers: Prisma.$CnftTransferPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
@@ -975,8 +1209,10 @@ export type $CompressedNftPayload<ExtArgs extends runtime.Types.Extensions.Inter
     metadataCid: string | null
     originalImageId: bigint | null
     ownerAddress: string
+    delegateAddress: string | null
     mintTxSignature: string | null
     status: number
+    ownerSyncedAt: Date | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["compressedNft"]>
@@ -1374,6 +1610,7 @@ readonly fields: CompressedNftFieldRefs;
 export interface Prisma__CompressedNftClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   merkleTree<T extends Prisma.MerkleTreeDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MerkleTreeDefaultArgs<ExtArgs>>): Prisma.Prisma__MerkleTreeClient<runtime.Types.Result.GetResult<Prisma.$MerkleTreePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  transfers<T extends Prisma.CompressedNft$transfersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CompressedNft$transfersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftTransferPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1416,8 +1653,10 @@ export interface CompressedNftFieldRefs {
   readonly metadataCid: Prisma.FieldRef<"CompressedNft", 'String'>
   readonly originalImageId: Prisma.FieldRef<"CompressedNft", 'BigInt'>
   readonly ownerAddress: Prisma.FieldRef<"CompressedNft", 'String'>
+  readonly delegateAddress: Prisma.FieldRef<"CompressedNft", 'String'>
   readonly mintTxSignature: Prisma.FieldRef<"CompressedNft", 'String'>
   readonly status: Prisma.FieldRef<"CompressedNft", 'Int'>
+  readonly ownerSyncedAt: Prisma.FieldRef<"CompressedNft", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"CompressedNft", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"CompressedNft", 'DateTime'>
 }
@@ -1815,6 +2054,30 @@ export type CompressedNftDeleteManyArgs<ExtArgs extends runtime.Types.Extensions
   limit?: number
 }
 
+/**
+ * CompressedNft.transfers
+ */
+export type CompressedNft$transfersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftTransfer
+   */
+  select?: Prisma.CnftTransferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftTransfer
+   */
+  omit?: Prisma.CnftTransferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftTransferInclude<ExtArgs> | null
+  where?: Prisma.CnftTransferWhereInput
+  orderBy?: Prisma.CnftTransferOrderByWithRelationInput | Prisma.CnftTransferOrderByWithRelationInput[]
+  cursor?: Prisma.CnftTransferWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CnftTransferScalarFieldEnum | Prisma.CnftTransferScalarFieldEnum[]
+}
+
 /**
  * CompressedNft without action
  */
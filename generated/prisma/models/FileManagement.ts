@@ -45,6 +45,8 @@ export type FileManagementMinAggregateOutputType = {
   filePath: string | null
   fileSize: bigint | null
   businessType: string | null
+  storageDriver: string | null
+  sha256: string | null
   status: number | null
   createTime: Date | null
 }
@@ -56,6 +58,8 @@ export type FileManagementMaxAggregateOutputType = {
   filePath: string | null
   fileSize: bigint | null
   businessType: string | null
+  storageDriver: string | null
+  sha256: string | null
   status: number | null
   createTime: Date | null
 }
@@ -67,6 +71,8 @@ export type FileManagementCountAggregateOutputType = {
   filePath: number
   fileSize: number
   businessType: number
+  storageDriver: number
+  sha256: number
   status: number
   createTime: number
   _all: number
@@ -92,6 +98,8 @@ export type FileManagementMinAggregateInputType = {
   filePath?: true
   fileSize?: true
   businessType?: true
+  storageDriver?: true
+  sha256?: true
   status?: true
   createTime?: true
 }
@@ -103,6 +111,8 @@ export type FileManagementMaxAggregateInputType = {
   filePath?: true
   fileSize?: true
   businessType?: true
+  storageDriver?: true
+  sha256?: true
   status?: true
   createTime?: true
 }
@@ -114,6 +124,8 @@ export type FileManagementCountAggregateInputType = {
   filePath?: true
   fileSize?: true
   businessType?: true
+  storageDriver?: true
+  sha256?: true
   status?: true
   createTime?: true
   _all?: true
@@ -212,6 +224,8 @@ export type FileManagementGroupByOutputType = {
   filePath: string
   fileSize: bigint
   businessType: string
+  storageDriver: string
+  sha256: string | null
   status: number
   createTime: Date
   _count: FileManagementCountAggregateOutputType | null
@@ -246,8 +260,11 @@ export type FileManagementWhereInput = {
   filePath?: Prisma.StringFilter<"FileManagement"> | string
   fileSize?: Prisma.BigIntFilter<"FileManagement"> | bigint | number
   businessType?: Prisma.StringFilter<"FileManagement"> | string
+  storageDriver?: Prisma.StringFilter<"FileManagement"> | string
+  sha256?: Prisma.StringNullableFilter<"FileManagement"> | string | null
   status?: Prisma.IntFilter<"FileManagement"> | number
   createTime?: Prisma.DateTimeFilter<"FileManagement"> | Date | string
+  references?: Prisma.FileReferenceListRelationFilter
 }
 
 export type FileManagementOrderByWithRelationInput = {
@@ -257,8 +274,11 @@ export type FileManagementOrderByWithRelationInput = {
   filePath?: Prisma.SortOrder
   fileSize?: Prisma.SortOrder
   businessType?: Prisma.SortOrder
+  storageDriver?: Prisma.SortOrder
+  sha256?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   createTime?: Prisma.SortOrder
+  references?: Prisma.FileReferenceOrderByRelationAggregateInput
 }
 
 export type FileManagementWhereUniqueInput = Prisma.AtLeast<{
@@ -271,8 +291,11 @@ export type FileManagementWhereUniqueInput = Prisma.AtLeast<{
   filePath?: Prisma.StringFilter<"FileManagement"> | string
   fileSize?: Prisma.BigIntFilter<"FileManagement"> | bigint | number
   businessType?: Prisma.StringFilter<"FileManagement"> | string
+  storageDriver?: Prisma.StringFilter<"FileManagement"> | string
+  sha256?: Prisma.StringNullableFilter<"FileManagement"> | string | null
   status?: Prisma.IntFilter<"FileManagement"> | number
   createTime?: Prisma.DateTimeFilter<"FileManagement"> | Date | string
+  references?: Prisma.FileReferenceListRelationFilter
 }, "id">
 
 export type FileManagementOrderByWithAggregationInput = {
@@ -282,6 +305,8 @@ export type FileManagementOrderByWithAggregationInput = {
   filePath?: Prisma.SortOrder
   fileSize?: Prisma.SortOrder
   businessType?: Prisma.SortOrder
+  storageDriver?: Prisma.SortOrder
+  sha256?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   createTime?: Prisma.SortOrder
   _count?: Prisma.FileManagementCountOrderByAggregateInput
@@ -301,6 +326,8 @@ export type FileManagementScalarWhereWithAggregatesInput = {
   filePath?: Prisma.StringWithAggregatesFilter<"FileManagement"> | string
   fileSize?: Prisma.BigIntWithAggregatesFilter<"FileManagement"> | bigint | number
   businessType?: Prisma.StringWithAggregatesFilter<"FileManagement"> | string
+  storageDriver?: Prisma.StringWithAggregatesFilter<"FileManagement"> | string
+  sha256?: Prisma.StringNullableWithAggregatesFilter<"FileManagement"> | string | null
   status?: Prisma.IntWithAggregatesFilter<"FileManagement"> | number
   createTime?: Prisma.DateTimeWithAggregatesFilter<"FileManagement"> | Date | string
 }
@@ -312,8 +339,11 @@ export type FileManagementCreateInput = {
   filePath: string
   fileSize: bigint | number
   businessType: string
+  storageDriver?: string
+  sha256?: string | null
   status?: number
   createTime?: Date | string
+  references?: Prisma.FileReferenceCreateNestedManyWithoutFileInput
 }
 
 export type FileManagementUncheckedCreateInput = {
@@ -323,8 +353,11 @@ export type FileManagementUncheckedCreateInput = {
   filePath: string
   fileSize: bigint | number
   businessType: string
+  storageDriver?: string
+  sha256?: string | null
   status?: number
   createTime?: Date | string
+  references?: Prisma.FileReferenceUncheckedCreateNestedManyWithoutFileInput
 }
 
 export type FileManagementUpdateInput = {
@@ -334,8 +367,11 @@ export type FileManagementUpdateInput = {
   filePath?: Prisma.StringFieldUpdateOperationsInput | string
   fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.FileReferenceUpdateManyWithoutFileNestedInput
 }
 
 export type FileManagementUncheckedUpdateInput = {
@@ -345,8 +381,11 @@ export type FileManagementUncheckedUpdateInput = {
   filePath?: Prisma.StringFieldUpdateOperationsInput | string
   fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.FileReferenceUncheckedUpdateManyWithoutFileNestedInput
 }
 
 export type FileManagementCreateManyInput = {
@@ -356,6 +395,8 @@ export type FileManagementCreateManyInput = {
   filePath: string
   fileSize: bigint | number
   businessType: string
+  storageDriver?: string
+  sha256?: string | null
   status?: number
   createTime?: Date | string
 }
@@ -367,6 +408,8 @@ export type FileManagementUpdateManyMutationInput = {
   filePath?: Prisma.StringFieldUpdateOperationsInput | string
   fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -378,6 +421,8 @@ export type FileManagementUncheckedUpdateManyInput = {
   filePath?: Prisma.StringFieldUpdateOperationsInput | string
   fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -389,6 +434,8 @@ export type FileManagementCountOrderByAggregateInput = {
   filePath?: Prisma.SortOrder
   fileSize?: Prisma.SortOrder
   businessType?: Prisma.SortOrder
+  storageDriver?: Prisma.SortOrder
+  sha256?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createTime?: Prisma.SortOrder
 }
@@ -406,6 +453,8 @@ export type FileManagementMaxOrderByAggregateInput = {
   filePath?: Prisma.SortOrder
   fileSize?: Prisma.SortOrder
   businessType?: Prisma.SortOrder
+  storageDriver?: Prisma.SortOrder
+  sha256?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createTime?: Prisma.SortOrder
 }
@@ -417,6 +466,8 @@ export type FileManagementMinOrderByAggregateInput = {
   filePath?: Prisma.SortOrder
   fileSize?: Prisma.SortOrder
   businessType?: Prisma.SortOrder
+  storageDriver?: Prisma.SortOrder
+  sha256?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createTime?: Prisma.SortOrder
 }
@@ -427,6 +478,122 @@ export type FileManagementSumOrderByAggregateInput = {
   status?: Prisma.SortOrder
 }
 
+export type FileManagementScalarRelationFilter = {
+  is?: Prisma.FileManagementWhereInput
+  isNot?: Prisma.FileManagementWhereInput
+}
+
+export type FileManagementCreateNestedOneWithoutReferencesInput = {
+  create?: Prisma.XOR<Prisma.FileManagementCreateWithoutReferencesInput, Prisma.FileManagementUncheckedCreateWithoutReferencesInput>
+  connectOrCreate?: Prisma.FileManagementCreateOrConnectWithoutReferencesInput
+  connect?: Prisma.FileManagementWhereUniqueInput
+}
+
+export type FileManagementUpdateOneRequiredWithoutReferencesNestedInput = {
+  create?: Prisma.XOR<Prisma.FileManagementCreateWithoutReferencesInput, Prisma.FileManagementUncheckedCreateWithoutReferencesInput>
+  connectOrCreate?: Prisma.FileManagementCreateOrConnectWithoutReferencesInput
+  upsert?: Prisma.FileManagementUpsertWithoutReferencesInput
+  connect?: Prisma.FileManagementWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.FileManagementUpdateToOneWithWhereWithoutReferencesInput, Prisma.FileManagementUpdateWithoutReferencesInput>, Prisma.FileManagementUncheckedUpdateWithoutReferencesInput>
+}
+
+export type FileManagementCreateWithoutReferencesInput = {
+  id?: bigint | number
+  originalName: string
+  fileName: string
+  filePath: string
+  fileSize: bigint | number
+  businessType: string
+  storageDriver?: string
+  sha256?: string | null
+  status?: number
+  createTime?: Date | string
+}
+
+export type FileManagementUncheckedCreateWithoutReferencesInput = {
+  id?: bigint | number
+  originalName: string
+  fileName: string
+  filePath: string
+  fileSize: bigint | number
+  businessType: string
+  storageDriver?: string
+  sha256?: string | null
+  status?: number
+  createTime?: Date | string
+}
+
+export type FileManagementCreateOrConnectWithoutReferencesInput = {
+  where: Prisma.FileManagementWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileManagementCreateWithoutReferencesInput, Prisma.FileManagementUncheckedCreateWithoutReferencesInput>
+}
+
+export type FileManagementUpsertWithoutReferencesInput = {
+  update: Prisma.XOR<Prisma.FileManagementUpdateWithoutReferencesInput, Prisma.FileManagementUncheckedUpdateWithoutReferencesInput>
+  create: Prisma.XOR<Prisma.FileManagementCreateWithoutReferencesInput, Prisma.FileManagementUncheckedCreateWithoutReferencesInput>
+  where?: Prisma.FileManagementWhereInput
+}
+
+export type FileManagementUpdateToOneWithWhereWithoutReferencesInput = {
+  where?: Prisma.FileManagementWhereInput
+  data: Prisma.XOR<Prisma.FileManagementUpdateWithoutReferencesInput, Prisma.FileManagementUncheckedUpdateWithoutReferencesInput>
+}
+
+export type FileManagementUpdateWithoutReferencesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileManagementUncheckedUpdateWithoutReferencesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  originalName?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  filePath?: Prisma.StringFieldUpdateOperationsInput | string
+  fileSize?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  businessType?: Prisma.StringFieldUpdateOperationsInput | string
+  storageDriver?: Prisma.StringFieldUpdateOperationsInput | string
+  sha256?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type FileManagementCountOutputType
+ */
+
+export type FileManagementCountOutputType = {
+  references: number
+}
+
+export type FileManagementCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  references?: boolean | FileManagementCountOutputTypeCountReferencesArgs
+}
+
+/**
+ * FileManagementCountOutputType without action
+ */
+export type FileManagementCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileManagementCountOutputType
+   */
+  select?: Prisma.FileManagementCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * FileManagementCountOutputType without action
+ */
+export type FileManagementCountOutputTypeCountReferencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FileReferenceWhereInput
+}
 
 
 export type FileManagementSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -436,8 +603,12 @@ export type FileManagementSelect<ExtArgs extends runtime.Types.Extensions.Intern
   filePath?: boolean
   fileSize?: boolean
   businessType?: boolean
+  storageDriver?: boolean
+  sha256?: boolean
   status?: boolean
   createTime?: boolean
+  references?: boolean | Prisma.FileManagement$referencesArgs<ExtArgs>
+  _count?: boolean | Prisma.FileManagementCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["fileManagement"]>
 
 export type FileManagementSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -447,6 +618,8 @@ export type FileManagementSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   filePath?: boolean
   fileSize?: boolean
   businessType?: boolean
+  storageDriver?: boolean
+  sha256?: boolean
   status?: boolean
   createTime?: boolean
 }, ExtArgs["result"]["fileManagement"]>
@@ -458,6 +631,8 @@ export type FileManagementSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   filePath?: boolean
   fileSize?: boolean
   businessType?: boolean
+  storageDriver?: boolean
+  sha256?: boolean
   status?: boolean
   createTime?: boolean
 }, ExtArgs["result"]["fileManagement"]>
@@ -469,15 +644,25 @@ export type FileManagementSelectScalar = {
   filePath?: boolean
   fileSize?: boolean
   businessType?: boolean
+  storageDriver?: boolean
+  sha256?: boolean
   status?: boolean
   createTime?: boolean
 }
 
-export type FileManagementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "originalName" | "fileName" | "filePath" | "fileSize" | "businessType" | "status" | "createTime", ExtArgs["result"]["fileManagement"]>
+export type FileManagementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "originalName" | "fileName" | "filePath" | "fileSize" | "businessType" | "storageDriver" | "sha256" | "status" | "createTime", ExtArgs["result"]["fileManagement"]>
+export type FileManagementInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  references?: boolean | Prisma.FileManagement$referencesArgs<ExtArgs>
+  _count?: boolean | Prisma.FileManagementCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type FileManagementIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type FileManagementIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
 
 export type $FileManagementPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "FileManagement"
-  objects: {}
+  objects: {
+    references: Prisma.$FileReferencePayload<ExtArgs>[]
+  }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
     originalName: string
@@ -485,6 +670,8 @@ export type $FileManagementPayload<ExtArgs extends runtime.Types.Extensions.Inte
     filePath: string
     fileSize: bigint
     businessType: string
+    storageDriver: string
+    sha256: string | null
     status: number
     createTime: Date
   }, ExtArgs["result"]["fileManagement"]>
@@ -881,6 +1068,7 @@ readonly fields: FileManagementFieldRefs;
  */
 export interface Prisma__FileManagementClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  references<T extends Prisma.FileManagement$referencesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FileManagement$referencesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -916,6 +1104,8 @@ export interface FileManagementFieldRefs {
   readonly filePath: Prisma.FieldRef<"FileManagement", 'String'>
   readonly fileSize: Prisma.FieldRef<"FileManagement", 'BigInt'>
   readonly businessType: Prisma.FieldRef<"FileManagement", 'String'>
+  readonly storageDriver: Prisma.FieldRef<"FileManagement", 'String'>
+  readonly sha256: Prisma.FieldRef<"FileManagement", 'String'>
   readonly status: Prisma.FieldRef<"FileManagement", 'Int'>
   readonly createTime: Prisma.FieldRef<"FileManagement", 'DateTime'>
 }
@@ -934,6 +1124,10 @@ export type FileManagementFindUniqueArgs<ExtArgs extends runtime.Types.Extension
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter, which FileManagement to fetch.
    */
@@ -952,6 +1146,10 @@ export type FileManagementFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Ex
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter, which FileManagement to fetch.
    */
@@ -970,6 +1168,10 @@ export type FileManagementFindFirstArgs<ExtArgs extends runtime.Types.Extensions
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter, which FileManagement to fetch.
    */
@@ -1018,6 +1220,10 @@ export type FileManagementFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Ext
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter, which FileManagement to fetch.
    */
@@ -1066,6 +1272,10 @@ export type FileManagementFindManyArgs<ExtArgs extends runtime.Types.Extensions.
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter, which FileManagements to fetch.
    */
@@ -1109,6 +1319,10 @@ export type FileManagementCreateArgs<ExtArgs extends runtime.Types.Extensions.In
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * The data needed to create a FileManagement.
    */
@@ -1157,6 +1371,10 @@ export type FileManagementUpdateArgs<ExtArgs extends runtime.Types.Extensions.In
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * The data needed to update a FileManagement.
    */
@@ -1223,6 +1441,10 @@ export type FileManagementUpsertArgs<ExtArgs extends runtime.Types.Extensions.In
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * The filter to search for the FileManagement to update in case it exists.
    */
@@ -1249,6 +1471,10 @@ export type FileManagementDeleteArgs<ExtArgs extends runtime.Types.Extensions.In
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
   /**
    * Filter which FileManagement to delete.
    */
@@ -1269,6 +1495,30 @@ export type FileManagementDeleteManyArgs<ExtArgs extends runtime.Types.Extension
   limit?: number
 }
 
+/**
+ * FileManagement.references
+ */
+export type FileManagement$referencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  where?: Prisma.FileReferenceWhereInput
+  orderBy?: Prisma.FileReferenceOrderByWithRelationInput | Prisma.FileReferenceOrderByWithRelationInput[]
+  cursor?: Prisma.FileReferenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.FileReferenceScalarFieldEnum | Prisma.FileReferenceScalarFieldEnum[]
+}
+
 /**
  * FileManagement without action
  */
@@ -1281,4 +1531,8 @@ export type FileManagementDefaultArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the FileManagement
    */
   omit?: Prisma.FileManagementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileManagementInclude<ExtArgs> | null
 }
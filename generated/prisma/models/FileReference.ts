@@ -0,0 +1,1403 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `FileReference` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model FileReference
+ * 文件引用索引表：记录笔记正文、项目首页、项目头像、cNFT 等对上传文件的引用，由扫描重建（schema: public）
+ */
+export type FileReferenceModel = runtime.Types.Result.DefaultSelection<Prisma.$FileReferencePayload>
+
+export type AggregateFileReference = {
+  _count: FileReferenceCountAggregateOutputType | null
+  _avg: FileReferenceAvgAggregateOutputType | null
+  _sum: FileReferenceSumAggregateOutputType | null
+  _min: FileReferenceMinAggregateOutputType | null
+  _max: FileReferenceMaxAggregateOutputType | null
+}
+
+export type FileReferenceAvgAggregateOutputType = {
+  id: number | null
+  fileId: number | null
+  refId: number | null
+}
+
+export type FileReferenceSumAggregateOutputType = {
+  id: bigint | null
+  fileId: bigint | null
+  refId: bigint | null
+}
+
+export type FileReferenceMinAggregateOutputType = {
+  id: bigint | null
+  fileId: bigint | null
+  refType: string | null
+  refId: bigint | null
+  createdAt: Date | null
+}
+
+export type FileReferenceMaxAggregateOutputType = {
+  id: bigint | null
+  fileId: bigint | null
+  refType: string | null
+  refId: bigint | null
+  createdAt: Date | null
+}
+
+export type FileReferenceCountAggregateOutputType = {
+  id: number
+  fileId: number
+  refType: number
+  refId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type FileReferenceAvgAggregateInputType = {
+  id?: true
+  fileId?: true
+  refId?: true
+}
+
+export type FileReferenceSumAggregateInputType = {
+  id?: true
+  fileId?: true
+  refId?: true
+}
+
+export type FileReferenceMinAggregateInputType = {
+  id?: true
+  fileId?: true
+  refType?: true
+  refId?: true
+  createdAt?: true
+}
+
+export type FileReferenceMaxAggregateInputType = {
+  id?: true
+  fileId?: true
+  refType?: true
+  refId?: true
+  createdAt?: true
+}
+
+export type FileReferenceCountAggregateInputType = {
+  id?: true
+  fileId?: true
+  refType?: true
+  refId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type FileReferenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FileReference to aggregate.
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FileReferences to fetch.
+   */
+  orderBy?: Prisma.FileReferenceOrderByWithRelationInput | Prisma.FileReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.FileReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FileReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FileReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned FileReferences
+  **/
+  _count?: true | FileReferenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: FileReferenceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: FileReferenceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: FileReferenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: FileReferenceMaxAggregateInputType
+}
+
+export type GetFileReferenceAggregateType<T extends FileReferenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateFileReference]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateFileReference[P]>
+    : Prisma.GetScalarType<T[P], AggregateFileReference[P]>
+}
+
+
+
+
+export type FileReferenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.FileReferenceWhereInput
+  orderBy?: Prisma.FileReferenceOrderByWithAggregationInput | Prisma.FileReferenceOrderByWithAggregationInput[]
+  by: Prisma.FileReferenceScalarFieldEnum[] | Prisma.FileReferenceScalarFieldEnum
+  having?: Prisma.FileReferenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: FileReferenceCountAggregateInputType | true
+  _avg?: FileReferenceAvgAggregateInputType
+  _sum?: FileReferenceSumAggregateInputType
+  _min?: FileReferenceMinAggregateInputType
+  _max?: FileReferenceMaxAggregateInputType
+}
+
+export type FileReferenceGroupByOutputType = {
+  id: bigint
+  fileId: bigint
+  refType: string
+  refId: bigint
+  createdAt: Date
+  _count: FileReferenceCountAggregateOutputType | null
+  _avg: FileReferenceAvgAggregateOutputType | null
+  _sum: FileReferenceSumAggregateOutputType | null
+  _min: FileReferenceMinAggregateOutputType | null
+  _max: FileReferenceMaxAggregateOutputType | null
+}
+
+type GetFileReferenceGroupByPayload<T extends FileReferenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<FileReferenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof FileReferenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], FileReferenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], FileReferenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type FileReferenceWhereInput = {
+  AND?: Prisma.FileReferenceWhereInput | Prisma.FileReferenceWhereInput[]
+  OR?: Prisma.FileReferenceWhereInput[]
+  NOT?: Prisma.FileReferenceWhereInput | Prisma.FileReferenceWhereInput[]
+  id?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  fileId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  refType?: Prisma.StringFilter<"FileReference"> | string
+  refId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"FileReference"> | Date | string
+  file?: Prisma.XOR<Prisma.FileManagementScalarRelationFilter, Prisma.FileManagementWhereInput>
+}
+
+export type FileReferenceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refType?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  file?: Prisma.FileManagementOrderByWithRelationInput
+}
+
+export type FileReferenceWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  fileId_refType_refId?: Prisma.FileReferenceFileIdRefTypeRefIdCompoundUniqueInput
+  AND?: Prisma.FileReferenceWhereInput | Prisma.FileReferenceWhereInput[]
+  OR?: Prisma.FileReferenceWhereInput[]
+  NOT?: Prisma.FileReferenceWhereInput | Prisma.FileReferenceWhereInput[]
+  fileId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  refType?: Prisma.StringFilter<"FileReference"> | string
+  refId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"FileReference"> | Date | string
+  file?: Prisma.XOR<Prisma.FileManagementScalarRelationFilter, Prisma.FileManagementWhereInput>
+}, "id" | "fileId_refType_refId">
+
+export type FileReferenceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refType?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.FileReferenceCountOrderByAggregateInput
+  _avg?: Prisma.FileReferenceAvgOrderByAggregateInput
+  _max?: Prisma.FileReferenceMaxOrderByAggregateInput
+  _min?: Prisma.FileReferenceMinOrderByAggregateInput
+  _sum?: Prisma.FileReferenceSumOrderByAggregateInput
+}
+
+export type FileReferenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.FileReferenceScalarWhereWithAggregatesInput | Prisma.FileReferenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.FileReferenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.FileReferenceScalarWhereWithAggregatesInput | Prisma.FileReferenceScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"FileReference"> | bigint | number
+  fileId?: Prisma.BigIntWithAggregatesFilter<"FileReference"> | bigint | number
+  refType?: Prisma.StringWithAggregatesFilter<"FileReference"> | string
+  refId?: Prisma.BigIntWithAggregatesFilter<"FileReference"> | bigint | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"FileReference"> | Date | string
+}
+
+export type FileReferenceCreateInput = {
+  id?: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+  file: Prisma.FileManagementCreateNestedOneWithoutReferencesInput
+}
+
+export type FileReferenceUncheckedCreateInput = {
+  id?: bigint | number
+  fileId: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+}
+
+export type FileReferenceUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  file?: Prisma.FileManagementUpdateOneRequiredWithoutReferencesNestedInput
+}
+
+export type FileReferenceUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileReferenceCreateManyInput = {
+  id?: bigint | number
+  fileId: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+}
+
+export type FileReferenceUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileReferenceUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  fileId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileReferenceListRelationFilter = {
+  every?: Prisma.FileReferenceWhereInput
+  some?: Prisma.FileReferenceWhereInput
+  none?: Prisma.FileReferenceWhereInput
+}
+
+export type FileReferenceOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type FileReferenceFileIdRefTypeRefIdCompoundUniqueInput = {
+  fileId: bigint | number
+  refType: string
+  refId: bigint | number
+}
+
+export type FileReferenceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refType?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FileReferenceAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+}
+
+export type FileReferenceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refType?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FileReferenceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refType?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type FileReferenceSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fileId?: Prisma.SortOrder
+  refId?: Prisma.SortOrder
+}
+
+export type FileReferenceCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput> | Prisma.FileReferenceCreateWithoutFileInput[] | Prisma.FileReferenceUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.FileReferenceCreateOrConnectWithoutFileInput | Prisma.FileReferenceCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.FileReferenceCreateManyFileInputEnvelope
+  connect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+}
+
+export type FileReferenceUncheckedCreateNestedManyWithoutFileInput = {
+  create?: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput> | Prisma.FileReferenceCreateWithoutFileInput[] | Prisma.FileReferenceUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.FileReferenceCreateOrConnectWithoutFileInput | Prisma.FileReferenceCreateOrConnectWithoutFileInput[]
+  createMany?: Prisma.FileReferenceCreateManyFileInputEnvelope
+  connect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+}
+
+export type FileReferenceUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput> | Prisma.FileReferenceCreateWithoutFileInput[] | Prisma.FileReferenceUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.FileReferenceCreateOrConnectWithoutFileInput | Prisma.FileReferenceCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.FileReferenceUpsertWithWhereUniqueWithoutFileInput | Prisma.FileReferenceUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.FileReferenceCreateManyFileInputEnvelope
+  set?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  disconnect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  delete?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  connect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  update?: Prisma.FileReferenceUpdateWithWhereUniqueWithoutFileInput | Prisma.FileReferenceUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.FileReferenceUpdateManyWithWhereWithoutFileInput | Prisma.FileReferenceUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.FileReferenceScalarWhereInput | Prisma.FileReferenceScalarWhereInput[]
+}
+
+export type FileReferenceUncheckedUpdateManyWithoutFileNestedInput = {
+  create?: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput> | Prisma.FileReferenceCreateWithoutFileInput[] | Prisma.FileReferenceUncheckedCreateWithoutFileInput[]
+  connectOrCreate?: Prisma.FileReferenceCreateOrConnectWithoutFileInput | Prisma.FileReferenceCreateOrConnectWithoutFileInput[]
+  upsert?: Prisma.FileReferenceUpsertWithWhereUniqueWithoutFileInput | Prisma.FileReferenceUpsertWithWhereUniqueWithoutFileInput[]
+  createMany?: Prisma.FileReferenceCreateManyFileInputEnvelope
+  set?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  disconnect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  delete?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  connect?: Prisma.FileReferenceWhereUniqueInput | Prisma.FileReferenceWhereUniqueInput[]
+  update?: Prisma.FileReferenceUpdateWithWhereUniqueWithoutFileInput | Prisma.FileReferenceUpdateWithWhereUniqueWithoutFileInput[]
+  updateMany?: Prisma.FileReferenceUpdateManyWithWhereWithoutFileInput | Prisma.FileReferenceUpdateManyWithWhereWithoutFileInput[]
+  deleteMany?: Prisma.FileReferenceScalarWhereInput | Prisma.FileReferenceScalarWhereInput[]
+}
+
+export type FileReferenceCreateWithoutFileInput = {
+  id?: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+}
+
+export type FileReferenceUncheckedCreateWithoutFileInput = {
+  id?: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+}
+
+export type FileReferenceCreateOrConnectWithoutFileInput = {
+  where: Prisma.FileReferenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput>
+}
+
+export type FileReferenceCreateManyFileInputEnvelope = {
+  data: Prisma.FileReferenceCreateManyFileInput | Prisma.FileReferenceCreateManyFileInput[]
+  skipDuplicates?: boolean
+}
+
+export type FileReferenceUpsertWithWhereUniqueWithoutFileInput = {
+  where: Prisma.FileReferenceWhereUniqueInput
+  update: Prisma.XOR<Prisma.FileReferenceUpdateWithoutFileInput, Prisma.FileReferenceUncheckedUpdateWithoutFileInput>
+  create: Prisma.XOR<Prisma.FileReferenceCreateWithoutFileInput, Prisma.FileReferenceUncheckedCreateWithoutFileInput>
+}
+
+export type FileReferenceUpdateWithWhereUniqueWithoutFileInput = {
+  where: Prisma.FileReferenceWhereUniqueInput
+  data: Prisma.XOR<Prisma.FileReferenceUpdateWithoutFileInput, Prisma.FileReferenceUncheckedUpdateWithoutFileInput>
+}
+
+export type FileReferenceUpdateManyWithWhereWithoutFileInput = {
+  where: Prisma.FileReferenceScalarWhereInput
+  data: Prisma.XOR<Prisma.FileReferenceUpdateManyMutationInput, Prisma.FileReferenceUncheckedUpdateManyWithoutFileInput>
+}
+
+export type FileReferenceScalarWhereInput = {
+  AND?: Prisma.FileReferenceScalarWhereInput | Prisma.FileReferenceScalarWhereInput[]
+  OR?: Prisma.FileReferenceScalarWhereInput[]
+  NOT?: Prisma.FileReferenceScalarWhereInput | Prisma.FileReferenceScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  fileId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  refType?: Prisma.StringFilter<"FileReference"> | string
+  refId?: Prisma.BigIntFilter<"FileReference"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"FileReference"> | Date | string
+}
+
+export type FileReferenceCreateManyFileInput = {
+  id?: bigint | number
+  refType: string
+  refId: bigint | number
+  createdAt?: Date | string
+}
+
+export type FileReferenceUpdateWithoutFileInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileReferenceUncheckedUpdateWithoutFileInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type FileReferenceUncheckedUpdateManyWithoutFileInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  refType?: Prisma.StringFieldUpdateOperationsInput | string
+  refId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type FileReferenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fileId?: boolean
+  refType?: boolean
+  refId?: boolean
+  createdAt?: boolean
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fileReference"]>
+
+export type FileReferenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fileId?: boolean
+  refType?: boolean
+  refId?: boolean
+  createdAt?: boolean
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fileReference"]>
+
+export type FileReferenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fileId?: boolean
+  refType?: boolean
+  refId?: boolean
+  createdAt?: boolean
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["fileReference"]>
+
+export type FileReferenceSelectScalar = {
+  id?: boolean
+  fileId?: boolean
+  refType?: boolean
+  refId?: boolean
+  createdAt?: boolean
+}
+
+export type FileReferenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "fileId" | "refType" | "refId" | "createdAt", ExtArgs["result"]["fileReference"]>
+export type FileReferenceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}
+export type FileReferenceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}
+export type FileReferenceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  file?: boolean | Prisma.FileManagementDefaultArgs<ExtArgs>
+}
+
+export type $FileReferencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "FileReference"
+  objects: {
+    file: Prisma.$FileManagementPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    fileId: bigint
+    refType: string
+    refId: bigint
+    createdAt: Date
+  }, ExtArgs["result"]["fileReference"]>
+  composites: {}
+}
+
+export type FileReferenceGetPayload<S extends boolean | null | undefined | FileReferenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$FileReferencePayload, S>
+
+export type FileReferenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<FileReferenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: FileReferenceCountAggregateInputType | true
+  }
+
+export interface FileReferenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['FileReference'], meta: { name: 'FileReference' } }
+  /**
+   * Find zero or one FileReference that matches the filter.
+   * @param {FileReferenceFindUniqueArgs} args - Arguments to find a FileReference
+   * @example
+   * // Get one FileReference
+   * const fileReference = await prisma.fileReference.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends FileReferenceFindUniqueArgs>(args: Prisma.SelectSubset<T, FileReferenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one FileReference that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {FileReferenceFindUniqueOrThrowArgs} args - Arguments to find a FileReference
+   * @example
+   * // Get one FileReference
+   * const fileReference = await prisma.fileReference.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends FileReferenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, FileReferenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FileReference that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceFindFirstArgs} args - Arguments to find a FileReference
+   * @example
+   * // Get one FileReference
+   * const fileReference = await prisma.fileReference.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends FileReferenceFindFirstArgs>(args?: Prisma.SelectSubset<T, FileReferenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first FileReference that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceFindFirstOrThrowArgs} args - Arguments to find a FileReference
+   * @example
+   * // Get one FileReference
+   * const fileReference = await prisma.fileReference.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends FileReferenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, FileReferenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more FileReferences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all FileReferences
+   * const fileReferences = await prisma.fileReference.findMany()
+   * 
+   * // Get first 10 FileReferences
+   * const fileReferences = await prisma.fileReference.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const fileReferenceWithIdOnly = await prisma.fileReference.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends FileReferenceFindManyArgs>(args?: Prisma.SelectSubset<T, FileReferenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a FileReference.
+   * @param {FileReferenceCreateArgs} args - Arguments to create a FileReference.
+   * @example
+   * // Create one FileReference
+   * const FileReference = await prisma.fileReference.create({
+   *   data: {
+   *     // ... data to create a FileReference
+   *   }
+   * })
+   * 
+   */
+  create<T extends FileReferenceCreateArgs>(args: Prisma.SelectSubset<T, FileReferenceCreateArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many FileReferences.
+   * @param {FileReferenceCreateManyArgs} args - Arguments to create many FileReferences.
+   * @example
+   * // Create many FileReferences
+   * const fileReference = await prisma.fileReference.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends FileReferenceCreateManyArgs>(args?: Prisma.SelectSubset<T, FileReferenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many FileReferences and returns the data saved in the database.
+   * @param {FileReferenceCreateManyAndReturnArgs} args - Arguments to create many FileReferences.
+   * @example
+   * // Create many FileReferences
+   * const fileReference = await prisma.fileReference.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many FileReferences and only return the `id`
+   * const fileReferenceWithIdOnly = await prisma.fileReference.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends FileReferenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, FileReferenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a FileReference.
+   * @param {FileReferenceDeleteArgs} args - Arguments to delete one FileReference.
+   * @example
+   * // Delete one FileReference
+   * const FileReference = await prisma.fileReference.delete({
+   *   where: {
+   *     // ... filter to delete one FileReference
+   *   }
+   * })
+   * 
+   */
+  delete<T extends FileReferenceDeleteArgs>(args: Prisma.SelectSubset<T, FileReferenceDeleteArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one FileReference.
+   * @param {FileReferenceUpdateArgs} args - Arguments to update one FileReference.
+   * @example
+   * // Update one FileReference
+   * const fileReference = await prisma.fileReference.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends FileReferenceUpdateArgs>(args: Prisma.SelectSubset<T, FileReferenceUpdateArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more FileReferences.
+   * @param {FileReferenceDeleteManyArgs} args - Arguments to filter FileReferences to delete.
+   * @example
+   * // Delete a few FileReferences
+   * const { count } = await prisma.fileReference.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends FileReferenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, FileReferenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FileReferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many FileReferences
+   * const fileReference = await prisma.fileReference.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends FileReferenceUpdateManyArgs>(args: Prisma.SelectSubset<T, FileReferenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more FileReferences and returns the data updated in the database.
+   * @param {FileReferenceUpdateManyAndReturnArgs} args - Arguments to update many FileReferences.
+   * @example
+   * // Update many FileReferences
+   * const fileReference = await prisma.fileReference.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more FileReferences and only return the `id`
+   * const fileReferenceWithIdOnly = await prisma.fileReference.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends FileReferenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, FileReferenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one FileReference.
+   * @param {FileReferenceUpsertArgs} args - Arguments to update or create a FileReference.
+   * @example
+   * // Update or create a FileReference
+   * const fileReference = await prisma.fileReference.upsert({
+   *   create: {
+   *     // ... data to create a FileReference
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the FileReference we want to update
+   *   }
+   * })
+   */
+  upsert<T extends FileReferenceUpsertArgs>(args: Prisma.SelectSubset<T, FileReferenceUpsertArgs<ExtArgs>>): Prisma.Prisma__FileReferenceClient<runtime.Types.Result.GetResult<Prisma.$FileReferencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of FileReferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceCountArgs} args - Arguments to filter FileReferences to count.
+   * @example
+   * // Count the number of FileReferences
+   * const count = await prisma.fileReference.count({
+   *   where: {
+   *     // ... the filter for the FileReferences we want to count
+   *   }
+   * })
+  **/
+  count<T extends FileReferenceCountArgs>(
+    args?: Prisma.Subset<T, FileReferenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], FileReferenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a FileReference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends FileReferenceAggregateArgs>(args: Prisma.Subset<T, FileReferenceAggregateArgs>): Prisma.PrismaPromise<GetFileReferenceAggregateType<T>>
+
+  /**
+   * Group by FileReference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {FileReferenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends FileReferenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: FileReferenceGroupByArgs['orderBy'] }
+      : { orderBy?: FileReferenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, FileReferenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetFileReferenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the FileReference model
+ */
+readonly fields: FileReferenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for FileReference.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__FileReferenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  file<T extends Prisma.FileManagementDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FileManagementDefaultArgs<ExtArgs>>): Prisma.Prisma__FileManagementClient<runtime.Types.Result.GetResult<Prisma.$FileManagementPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the FileReference model
+ */
+export interface FileReferenceFieldRefs {
+  readonly id: Prisma.FieldRef<"FileReference", 'BigInt'>
+  readonly fileId: Prisma.FieldRef<"FileReference", 'BigInt'>
+  readonly refType: Prisma.FieldRef<"FileReference", 'String'>
+  readonly refId: Prisma.FieldRef<"FileReference", 'BigInt'>
+  readonly createdAt: Prisma.FieldRef<"FileReference", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * FileReference findUnique
+ */
+export type FileReferenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which FileReference to fetch.
+   */
+  where: Prisma.FileReferenceWhereUniqueInput
+}
+
+/**
+ * FileReference findUniqueOrThrow
+ */
+export type FileReferenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which FileReference to fetch.
+   */
+  where: Prisma.FileReferenceWhereUniqueInput
+}
+
+/**
+ * FileReference findFirst
+ */
+export type FileReferenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which FileReference to fetch.
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FileReferences to fetch.
+   */
+  orderBy?: Prisma.FileReferenceOrderByWithRelationInput | Prisma.FileReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FileReferences.
+   */
+  cursor?: Prisma.FileReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FileReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FileReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FileReferences.
+   */
+  distinct?: Prisma.FileReferenceScalarFieldEnum | Prisma.FileReferenceScalarFieldEnum[]
+}
+
+/**
+ * FileReference findFirstOrThrow
+ */
+export type FileReferenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which FileReference to fetch.
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FileReferences to fetch.
+   */
+  orderBy?: Prisma.FileReferenceOrderByWithRelationInput | Prisma.FileReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for FileReferences.
+   */
+  cursor?: Prisma.FileReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FileReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FileReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of FileReferences.
+   */
+  distinct?: Prisma.FileReferenceScalarFieldEnum | Prisma.FileReferenceScalarFieldEnum[]
+}
+
+/**
+ * FileReference findMany
+ */
+export type FileReferenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which FileReferences to fetch.
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of FileReferences to fetch.
+   */
+  orderBy?: Prisma.FileReferenceOrderByWithRelationInput | Prisma.FileReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing FileReferences.
+   */
+  cursor?: Prisma.FileReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` FileReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` FileReferences.
+   */
+  skip?: number
+  distinct?: Prisma.FileReferenceScalarFieldEnum | Prisma.FileReferenceScalarFieldEnum[]
+}
+
+/**
+ * FileReference create
+ */
+export type FileReferenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a FileReference.
+   */
+  data: Prisma.XOR<Prisma.FileReferenceCreateInput, Prisma.FileReferenceUncheckedCreateInput>
+}
+
+/**
+ * FileReference createMany
+ */
+export type FileReferenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many FileReferences.
+   */
+  data: Prisma.FileReferenceCreateManyInput | Prisma.FileReferenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * FileReference createManyAndReturn
+ */
+export type FileReferenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many FileReferences.
+   */
+  data: Prisma.FileReferenceCreateManyInput | Prisma.FileReferenceCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FileReference update
+ */
+export type FileReferenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a FileReference.
+   */
+  data: Prisma.XOR<Prisma.FileReferenceUpdateInput, Prisma.FileReferenceUncheckedUpdateInput>
+  /**
+   * Choose, which FileReference to update.
+   */
+  where: Prisma.FileReferenceWhereUniqueInput
+}
+
+/**
+ * FileReference updateMany
+ */
+export type FileReferenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update FileReferences.
+   */
+  data: Prisma.XOR<Prisma.FileReferenceUpdateManyMutationInput, Prisma.FileReferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which FileReferences to update
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * Limit how many FileReferences to update.
+   */
+  limit?: number
+}
+
+/**
+ * FileReference updateManyAndReturn
+ */
+export type FileReferenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * The data used to update FileReferences.
+   */
+  data: Prisma.XOR<Prisma.FileReferenceUpdateManyMutationInput, Prisma.FileReferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which FileReferences to update
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * Limit how many FileReferences to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * FileReference upsert
+ */
+export type FileReferenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the FileReference to update in case it exists.
+   */
+  where: Prisma.FileReferenceWhereUniqueInput
+  /**
+   * In case the FileReference found by the `where` argument doesn't exist, create a new FileReference with this data.
+   */
+  create: Prisma.XOR<Prisma.FileReferenceCreateInput, Prisma.FileReferenceUncheckedCreateInput>
+  /**
+   * In case the FileReference was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.FileReferenceUpdateInput, Prisma.FileReferenceUncheckedUpdateInput>
+}
+
+/**
+ * FileReference delete
+ */
+export type FileReferenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+  /**
+   * Filter which FileReference to delete.
+   */
+  where: Prisma.FileReferenceWhereUniqueInput
+}
+
+/**
+ * FileReference deleteMany
+ */
+export type FileReferenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which FileReferences to delete
+   */
+  where?: Prisma.FileReferenceWhereInput
+  /**
+   * Limit how many FileReferences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * FileReference without action
+ */
+export type FileReferenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the FileReference
+   */
+  select?: Prisma.FileReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the FileReference
+   */
+  omit?: Prisma.FileReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.FileReferenceInclude<ExtArgs> | null
+}
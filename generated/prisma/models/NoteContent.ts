@@ -44,6 +44,8 @@ export type NoteContentMinAggregateOutputType = {
   content: string | null
   versionNote: string | null
   isPrimary: boolean | null
+  locale: string | null
+  title: string | null
   status: number | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -56,6 +58,8 @@ export type NoteContentMaxAggregateOutputType = {
   content: string | null
   versionNote: string | null
   isPrimary: boolean | null
+  locale: string | null
+  title: string | null
   status: number | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -68,6 +72,8 @@ export type NoteContentCountAggregateOutputType = {
   content: number
   versionNote: number
   isPrimary: number
+  locale: number
+  title: number
   status: number
   createdAt: number
   updatedAt: number
@@ -94,6 +100,8 @@ export type NoteContentMinAggregateInputType = {
   content?: true
   versionNote?: true
   isPrimary?: true
+  locale?: true
+  title?: true
   status?: true
   createdAt?: true
   updatedAt?: true
@@ -106,6 +114,8 @@ export type NoteContentMaxAggregateInputType = {
   content?: true
   versionNote?: true
   isPrimary?: true
+  locale?: true
+  title?: true
   status?: true
   createdAt?: true
   updatedAt?: true
@@ -118,6 +128,8 @@ export type NoteContentCountAggregateInputType = {
   content?: true
   versionNote?: true
   isPrimary?: true
+  locale?: true
+  title?: true
   status?: true
   createdAt?: true
   updatedAt?: true
@@ -217,6 +229,8 @@ export type NoteContentGroupByOutputType = {
   content: string
   versionNote: string | null
   isPrimary: boolean
+  locale: string | null
+  title: string | null
   status: number
   createdAt: Date
   updatedAt: Date
@@ -252,11 +266,15 @@ export type NoteContentWhereInput = {
   content?: Prisma.StringFilter<"NoteContent"> | string
   versionNote?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   isPrimary?: Prisma.BoolFilter<"NoteContent"> | boolean
+  locale?: Prisma.StringNullableFilter<"NoteContent"> | string | null
+  title?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   status?: Prisma.IntFilter<"NoteContent"> | number
   createdAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteContent"> | boolean
   noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+  revisions?: Prisma.NoteContentRevisionListRelationFilter
+  schedules?: Prisma.NoteScheduleListRelationFilter
 }
 
 export type NoteContentOrderByWithRelationInput = {
@@ -265,11 +283,15 @@ export type NoteContentOrderByWithRelationInput = {
   content?: Prisma.SortOrder
   versionNote?: Prisma.SortOrderInput | Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  locale?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
   noteInfo?: Prisma.NoteInfoOrderByWithRelationInput
+  revisions?: Prisma.NoteContentRevisionOrderByRelationAggregateInput
+  schedules?: Prisma.NoteScheduleOrderByRelationAggregateInput
 }
 
 export type NoteContentWhereUniqueInput = Prisma.AtLeast<{
@@ -281,11 +303,15 @@ export type NoteContentWhereUniqueInput = Prisma.AtLeast<{
   content?: Prisma.StringFilter<"NoteContent"> | string
   versionNote?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   isPrimary?: Prisma.BoolFilter<"NoteContent"> | boolean
+  locale?: Prisma.StringNullableFilter<"NoteContent"> | string | null
+  title?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   status?: Prisma.IntFilter<"NoteContent"> | number
   createdAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteContent"> | boolean
   noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+  revisions?: Prisma.NoteContentRevisionListRelationFilter
+  schedules?: Prisma.NoteScheduleListRelationFilter
 }, "id">
 
 export type NoteContentOrderByWithAggregationInput = {
@@ -294,6 +320,8 @@ export type NoteContentOrderByWithAggregationInput = {
   content?: Prisma.SortOrder
   versionNote?: Prisma.SortOrderInput | Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  locale?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -314,6 +342,8 @@ export type NoteContentScalarWhereWithAggregatesInput = {
   content?: Prisma.StringWithAggregatesFilter<"NoteContent"> | string
   versionNote?: Prisma.StringNullableWithAggregatesFilter<"NoteContent"> | string | null
   isPrimary?: Prisma.BoolWithAggregatesFilter<"NoteContent"> | boolean
+  locale?: Prisma.StringNullableWithAggregatesFilter<"NoteContent"> | string | null
+  title?: Prisma.StringNullableWithAggregatesFilter<"NoteContent"> | string | null
   status?: Prisma.IntWithAggregatesFilter<"NoteContent"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"NoteContent"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"NoteContent"> | Date | string
@@ -325,11 +355,15 @@ export type NoteContentCreateInput = {
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   noteInfo: Prisma.NoteInfoCreateNestedOneWithoutContentsInput
+  revisions?: Prisma.NoteContentRevisionCreateNestedManyWithoutNoteContentInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteContentInput
 }
 
 export type NoteContentUncheckedCreateInput = {
@@ -338,10 +372,14 @@ export type NoteContentUncheckedCreateInput = {
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedCreateNestedManyWithoutNoteContentInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteContentInput
 }
 
 export type NoteContentUpdateInput = {
@@ -349,11 +387,15 @@ export type NoteContentUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutContentsNestedInput
+  revisions?: Prisma.NoteContentRevisionUpdateManyWithoutNoteContentNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteContentNestedInput
 }
 
 export type NoteContentUncheckedUpdateInput = {
@@ -362,10 +404,14 @@ export type NoteContentUncheckedUpdateInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedUpdateManyWithoutNoteContentNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteContentNestedInput
 }
 
 export type NoteContentCreateManyInput = {
@@ -374,6 +420,8 @@ export type NoteContentCreateManyInput = {
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -385,6 +433,8 @@ export type NoteContentUpdateManyMutationInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -397,6 +447,8 @@ export type NoteContentUncheckedUpdateManyInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -419,6 +471,8 @@ export type NoteContentCountOrderByAggregateInput = {
   content?: Prisma.SortOrder
   versionNote?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  title?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -437,6 +491,8 @@ export type NoteContentMaxOrderByAggregateInput = {
   content?: Prisma.SortOrder
   versionNote?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  title?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -449,6 +505,8 @@ export type NoteContentMinOrderByAggregateInput = {
   content?: Prisma.SortOrder
   versionNote?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  title?: Prisma.SortOrder
   status?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -461,6 +519,16 @@ export type NoteContentSumOrderByAggregateInput = {
   status?: Prisma.SortOrder
 }
 
+export type NoteContentScalarRelationFilter = {
+  is?: Prisma.NoteContentWhereInput
+  isNot?: Prisma.NoteContentWhereInput
+}
+
+export type NoteContentNullableScalarRelationFilter = {
+  is?: Prisma.NoteContentWhereInput | null
+  isNot?: Prisma.NoteContentWhereInput | null
+}
+
 export type NoteContentCreateNestedManyWithoutNoteInfoInput = {
   create?: Prisma.XOR<Prisma.NoteContentCreateWithoutNoteInfoInput, Prisma.NoteContentUncheckedCreateWithoutNoteInfoInput> | Prisma.NoteContentCreateWithoutNoteInfoInput[] | Prisma.NoteContentUncheckedCreateWithoutNoteInfoInput[]
   connectOrCreate?: Prisma.NoteContentCreateOrConnectWithoutNoteInfoInput | Prisma.NoteContentCreateOrConnectWithoutNoteInfoInput[]
@@ -503,15 +571,49 @@ export type NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput = {
   deleteMany?: Prisma.NoteContentScalarWhereInput | Prisma.NoteContentScalarWhereInput[]
 }
 
+export type NoteContentCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.NoteContentCreateWithoutRevisionsInput, Prisma.NoteContentUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.NoteContentCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.NoteContentWhereUniqueInput
+}
+
+export type NoteContentUpdateOneRequiredWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteContentCreateWithoutRevisionsInput, Prisma.NoteContentUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.NoteContentCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.NoteContentUpsertWithoutRevisionsInput
+  connect?: Prisma.NoteContentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteContentUpdateToOneWithWhereWithoutRevisionsInput, Prisma.NoteContentUpdateWithoutRevisionsInput>, Prisma.NoteContentUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type NoteContentCreateNestedOneWithoutSchedulesInput = {
+  create?: Prisma.XOR<Prisma.NoteContentCreateWithoutSchedulesInput, Prisma.NoteContentUncheckedCreateWithoutSchedulesInput>
+  connectOrCreate?: Prisma.NoteContentCreateOrConnectWithoutSchedulesInput
+  connect?: Prisma.NoteContentWhereUniqueInput
+}
+
+export type NoteContentUpdateOneWithoutSchedulesNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteContentCreateWithoutSchedulesInput, Prisma.NoteContentUncheckedCreateWithoutSchedulesInput>
+  connectOrCreate?: Prisma.NoteContentCreateOrConnectWithoutSchedulesInput
+  upsert?: Prisma.NoteContentUpsertWithoutSchedulesInput
+  disconnect?: Prisma.NoteContentWhereInput | boolean
+  delete?: Prisma.NoteContentWhereInput | boolean
+  connect?: Prisma.NoteContentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteContentUpdateToOneWithWhereWithoutSchedulesInput, Prisma.NoteContentUpdateWithoutSchedulesInput>, Prisma.NoteContentUncheckedUpdateWithoutSchedulesInput>
+}
+
 export type NoteContentCreateWithoutNoteInfoInput = {
   id?: bigint | number
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  revisions?: Prisma.NoteContentRevisionCreateNestedManyWithoutNoteContentInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteContentInput
 }
 
 export type NoteContentUncheckedCreateWithoutNoteInfoInput = {
@@ -519,10 +621,14 @@ export type NoteContentUncheckedCreateWithoutNoteInfoInput = {
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedCreateNestedManyWithoutNoteContentInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteContentInput
 }
 
 export type NoteContentCreateOrConnectWithoutNoteInfoInput = {
@@ -560,17 +666,173 @@ export type NoteContentScalarWhereInput = {
   content?: Prisma.StringFilter<"NoteContent"> | string
   versionNote?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   isPrimary?: Prisma.BoolFilter<"NoteContent"> | boolean
+  locale?: Prisma.StringNullableFilter<"NoteContent"> | string | null
+  title?: Prisma.StringNullableFilter<"NoteContent"> | string | null
   status?: Prisma.IntFilter<"NoteContent"> | number
   createdAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteContent"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteContent"> | boolean
 }
 
+export type NoteContentCreateWithoutRevisionsInput = {
+  id?: bigint | number
+  content: string
+  versionNote?: string | null
+  isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
+  status: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  noteInfo: Prisma.NoteInfoCreateNestedOneWithoutContentsInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteContentInput
+}
+
+export type NoteContentUncheckedCreateWithoutRevisionsInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  versionNote?: string | null
+  isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
+  status: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteContentInput
+}
+
+export type NoteContentCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.NoteContentWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteContentCreateWithoutRevisionsInput, Prisma.NoteContentUncheckedCreateWithoutRevisionsInput>
+}
+
+export type NoteContentUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.NoteContentUpdateWithoutRevisionsInput, Prisma.NoteContentUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.NoteContentCreateWithoutRevisionsInput, Prisma.NoteContentUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.NoteContentWhereInput
+}
+
+export type NoteContentUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.NoteContentWhereInput
+  data: Prisma.XOR<Prisma.NoteContentUpdateWithoutRevisionsInput, Prisma.NoteContentUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type NoteContentUpdateWithoutRevisionsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutContentsNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteContentNestedInput
+}
+
+export type NoteContentUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteContentNestedInput
+}
+
+export type NoteContentCreateWithoutSchedulesInput = {
+  id?: bigint | number
+  content: string
+  versionNote?: string | null
+  isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
+  status: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  noteInfo: Prisma.NoteInfoCreateNestedOneWithoutContentsInput
+  revisions?: Prisma.NoteContentRevisionCreateNestedManyWithoutNoteContentInput
+}
+
+export type NoteContentUncheckedCreateWithoutSchedulesInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  versionNote?: string | null
+  isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
+  status: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedCreateNestedManyWithoutNoteContentInput
+}
+
+export type NoteContentCreateOrConnectWithoutSchedulesInput = {
+  where: Prisma.NoteContentWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteContentCreateWithoutSchedulesInput, Prisma.NoteContentUncheckedCreateWithoutSchedulesInput>
+}
+
+export type NoteContentUpsertWithoutSchedulesInput = {
+  update: Prisma.XOR<Prisma.NoteContentUpdateWithoutSchedulesInput, Prisma.NoteContentUncheckedUpdateWithoutSchedulesInput>
+  create: Prisma.XOR<Prisma.NoteContentCreateWithoutSchedulesInput, Prisma.NoteContentUncheckedCreateWithoutSchedulesInput>
+  where?: Prisma.NoteContentWhereInput
+}
+
+export type NoteContentUpdateToOneWithWhereWithoutSchedulesInput = {
+  where?: Prisma.NoteContentWhereInput
+  data: Prisma.XOR<Prisma.NoteContentUpdateWithoutSchedulesInput, Prisma.NoteContentUncheckedUpdateWithoutSchedulesInput>
+}
+
+export type NoteContentUpdateWithoutSchedulesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutContentsNestedInput
+  revisions?: Prisma.NoteContentRevisionUpdateManyWithoutNoteContentNestedInput
+}
+
+export type NoteContentUncheckedUpdateWithoutSchedulesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedUpdateManyWithoutNoteContentNestedInput
+}
+
 export type NoteContentCreateManyNoteInfoInput = {
   id?: bigint | number
   content: string
   versionNote?: string | null
   isPrimary?: boolean
+  locale?: string | null
+  title?: string | null
   status: number
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -582,10 +844,14 @@ export type NoteContentUpdateWithoutNoteInfoInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  revisions?: Prisma.NoteContentRevisionUpdateManyWithoutNoteContentNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteContentNestedInput
 }
 
 export type NoteContentUncheckedUpdateWithoutNoteInfoInput = {
@@ -593,10 +859,14 @@ export type NoteContentUncheckedUpdateWithoutNoteInfoInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  revisions?: Prisma.NoteContentRevisionUncheckedUpdateManyWithoutNoteContentNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteContentNestedInput
 }
 
 export type NoteContentUncheckedUpdateManyWithoutNoteInfoInput = {
@@ -604,6 +874,8 @@ export type NoteContentUncheckedUpdateManyWithoutNoteInfoInput = {
   content?: Prisma.StringFieldUpdateOperationsInput | string
   versionNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  locale?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -611,6 +883,44 @@ export type NoteContentUncheckedUpdateManyWithoutNoteInfoInput = {
 }
 
 
+/**
+ * Count Type NoteContentCountOutputType
+ */
+
+export type NoteContentCountOutputType = {
+  revisions: number
+  schedules: number
+}
+
+export type NoteContentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  revisions?: boolean | NoteContentCountOutputTypeCountRevisionsArgs
+  schedules?: boolean | NoteContentCountOutputTypeCountSchedulesArgs
+}
+
+/**
+ * NoteContentCountOutputType without action
+ */
+export type NoteContentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentCountOutputType
+   */
+  select?: Prisma.NoteContentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * NoteContentCountOutputType without action
+ */
+export type NoteContentCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteContentRevisionWhereInput
+}
+
+/**
+ * NoteContentCountOutputType without action
+ */
+export type NoteContentCountOutputTypeCountSchedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteScheduleWhereInput
+}
+
 
 export type NoteContentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -618,11 +928,16 @@ export type NoteContentSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   content?: boolean
   versionNote?: boolean
   isPrimary?: boolean
+  locale?: boolean
+  title?: boolean
   status?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
   noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  revisions?: boolean | Prisma.NoteContent$revisionsArgs<ExtArgs>
+  schedules?: boolean | Prisma.NoteContent$schedulesArgs<ExtArgs>
+  _count?: boolean | Prisma.NoteContentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["noteContent"]>
 
 export type NoteContentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -631,6 +946,8 @@ export type NoteContentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   content?: boolean
   versionNote?: boolean
   isPrimary?: boolean
+  locale?: boolean
+  title?: boolean
   status?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -644,6 +961,8 @@ export type NoteContentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   content?: boolean
   versionNote?: boolean
   isPrimary?: boolean
+  locale?: boolean
+  title?: boolean
   status?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -657,15 +976,20 @@ export type NoteContentSelectScalar = {
   content?: boolean
   versionNote?: boolean
   isPrimary?: boolean
+  locale?: boolean
+  title?: boolean
   status?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
 }
 
-export type NoteContentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "noteInfoId" | "content" | "versionNote" | "isPrimary" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["noteContent"]>
+export type NoteContentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "noteInfoId" | "content" | "versionNote" | "isPrimary" | "locale" | "title" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["noteContent"]>
 export type NoteContentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  revisions?: boolean | Prisma.NoteContent$revisionsArgs<ExtArgs>
+  schedules?: boolean | Prisma.NoteContent$schedulesArgs<ExtArgs>
+  _count?: boolean | Prisma.NoteContentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type NoteContentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
@@ -678,6 +1002,8 @@ export type $NoteContentPayload<ExtArgs extends runtime.Types.Extensions.Interna
   name: "NoteContent"
   objects: {
     noteInfo: Prisma.$NoteInfoPayload<ExtArgs>
+    revisions: Prisma.$NoteContentRevisionPayload<ExtArgs>[]
+    schedules: Prisma.$NoteSchedulePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
@@ -685,6 +1011,8 @@ export type $NoteContentPayload<ExtArgs extends runtime.Types.Extensions.Interna
     content: string
     versionNote: string | null
     isPrimary: boolean
+    locale: string | null
+    title: string | null
     status: number
     createdAt: Date
     updatedAt: Date
@@ -1084,6 +1412,8 @@ readonly fields: NoteContentFieldRefs;
 export interface Prisma__NoteContentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   noteInfo<T extends Prisma.NoteInfoDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfoDefaultArgs<ExtArgs>>): Prisma.Prisma__NoteInfoClient<runtime.Types.Result.GetResult<Prisma.$NoteInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  revisions<T extends Prisma.NoteContent$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteContent$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  schedules<T extends Prisma.NoteContent$schedulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteContent$schedulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1118,6 +1448,8 @@ export interface NoteContentFieldRefs {
   readonly content: Prisma.FieldRef<"NoteContent", 'String'>
   readonly versionNote: Prisma.FieldRef<"NoteContent", 'String'>
   readonly isPrimary: Prisma.FieldRef<"NoteContent", 'Boolean'>
+  readonly locale: Prisma.FieldRef<"NoteContent", 'String'>
+  readonly title: Prisma.FieldRef<"NoteContent", 'String'>
   readonly status: Prisma.FieldRef<"NoteContent", 'Int'>
   readonly createdAt: Prisma.FieldRef<"NoteContent", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"NoteContent", 'DateTime'>
@@ -1517,6 +1849,54 @@ export type NoteContentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.I
   limit?: number
 }
 
+/**
+ * NoteContent.revisions
+ */
+export type NoteContent$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  where?: Prisma.NoteContentRevisionWhereInput
+  orderBy?: Prisma.NoteContentRevisionOrderByWithRelationInput | Prisma.NoteContentRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.NoteContentRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NoteContentRevisionScalarFieldEnum | Prisma.NoteContentRevisionScalarFieldEnum[]
+}
+
+/**
+ * NoteContent.schedules
+ */
+export type NoteContent$schedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  where?: Prisma.NoteScheduleWhereInput
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NoteScheduleScalarFieldEnum | Prisma.NoteScheduleScalarFieldEnum[]
+}
+
 /**
  * NoteContent without action
  */
@@ -0,0 +1,1550 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `NoteContentRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model NoteContentRevision
+ * 笔记内容修订表：每次修改正文前保存旧正文快照，只追加不修改（schema: docs）
+ */
+export type NoteContentRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$NoteContentRevisionPayload>
+
+export type AggregateNoteContentRevision = {
+  _count: NoteContentRevisionCountAggregateOutputType | null
+  _avg: NoteContentRevisionAvgAggregateOutputType | null
+  _sum: NoteContentRevisionSumAggregateOutputType | null
+  _min: NoteContentRevisionMinAggregateOutputType | null
+  _max: NoteContentRevisionMaxAggregateOutputType | null
+}
+
+export type NoteContentRevisionAvgAggregateOutputType = {
+  id: number | null
+  noteContentId: number | null
+  noteInfoId: number | null
+  userId: number | null
+}
+
+export type NoteContentRevisionSumAggregateOutputType = {
+  id: bigint | null
+  noteContentId: bigint | null
+  noteInfoId: bigint | null
+  userId: number | null
+}
+
+export type NoteContentRevisionMinAggregateOutputType = {
+  id: bigint | null
+  noteContentId: bigint | null
+  noteInfoId: bigint | null
+  content: string | null
+  contentHash: string | null
+  action: string | null
+  userId: number | null
+  username: string | null
+  createdAt: Date | null
+}
+
+export type NoteContentRevisionMaxAggregateOutputType = {
+  id: bigint | null
+  noteContentId: bigint | null
+  noteInfoId: bigint | null
+  content: string | null
+  contentHash: string | null
+  action: string | null
+  userId: number | null
+  username: string | null
+  createdAt: Date | null
+}
+
+export type NoteContentRevisionCountAggregateOutputType = {
+  id: number
+  noteContentId: number
+  noteInfoId: number
+  content: number
+  contentHash: number
+  action: number
+  userId: number
+  username: number
+  createdAt: number
+  _all: number
+}
+
+
+export type NoteContentRevisionAvgAggregateInputType = {
+  id?: true
+  noteContentId?: true
+  noteInfoId?: true
+  userId?: true
+}
+
+export type NoteContentRevisionSumAggregateInputType = {
+  id?: true
+  noteContentId?: true
+  noteInfoId?: true
+  userId?: true
+}
+
+export type NoteContentRevisionMinAggregateInputType = {
+  id?: true
+  noteContentId?: true
+  noteInfoId?: true
+  content?: true
+  contentHash?: true
+  action?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+}
+
+export type NoteContentRevisionMaxAggregateInputType = {
+  id?: true
+  noteContentId?: true
+  noteInfoId?: true
+  content?: true
+  contentHash?: true
+  action?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+}
+
+export type NoteContentRevisionCountAggregateInputType = {
+  id?: true
+  noteContentId?: true
+  noteInfoId?: true
+  content?: true
+  contentHash?: true
+  action?: true
+  userId?: true
+  username?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type NoteContentRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteContentRevision to aggregate.
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteContentRevisions to fetch.
+   */
+  orderBy?: Prisma.NoteContentRevisionOrderByWithRelationInput | Prisma.NoteContentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.NoteContentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteContentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteContentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned NoteContentRevisions
+  **/
+  _count?: true | NoteContentRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: NoteContentRevisionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: NoteContentRevisionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: NoteContentRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: NoteContentRevisionMaxAggregateInputType
+}
+
+export type GetNoteContentRevisionAggregateType<T extends NoteContentRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateNoteContentRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateNoteContentRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateNoteContentRevision[P]>
+}
+
+
+
+
+export type NoteContentRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteContentRevisionWhereInput
+  orderBy?: Prisma.NoteContentRevisionOrderByWithAggregationInput | Prisma.NoteContentRevisionOrderByWithAggregationInput[]
+  by: Prisma.NoteContentRevisionScalarFieldEnum[] | Prisma.NoteContentRevisionScalarFieldEnum
+  having?: Prisma.NoteContentRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: NoteContentRevisionCountAggregateInputType | true
+  _avg?: NoteContentRevisionAvgAggregateInputType
+  _sum?: NoteContentRevisionSumAggregateInputType
+  _min?: NoteContentRevisionMinAggregateInputType
+  _max?: NoteContentRevisionMaxAggregateInputType
+}
+
+export type NoteContentRevisionGroupByOutputType = {
+  id: bigint
+  noteContentId: bigint
+  noteInfoId: bigint
+  content: string
+  contentHash: string
+  action: string
+  userId: number | null
+  username: string | null
+  createdAt: Date
+  _count: NoteContentRevisionCountAggregateOutputType | null
+  _avg: NoteContentRevisionAvgAggregateOutputType | null
+  _sum: NoteContentRevisionSumAggregateOutputType | null
+  _min: NoteContentRevisionMinAggregateOutputType | null
+  _max: NoteContentRevisionMaxAggregateOutputType | null
+}
+
+type GetNoteContentRevisionGroupByPayload<T extends NoteContentRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<NoteContentRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof NoteContentRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], NoteContentRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], NoteContentRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type NoteContentRevisionWhereInput = {
+  AND?: Prisma.NoteContentRevisionWhereInput | Prisma.NoteContentRevisionWhereInput[]
+  OR?: Prisma.NoteContentRevisionWhereInput[]
+  NOT?: Prisma.NoteContentRevisionWhereInput | Prisma.NoteContentRevisionWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  noteContentId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  content?: Prisma.StringFilter<"NoteContentRevision"> | string
+  contentHash?: Prisma.StringFilter<"NoteContentRevision"> | string
+  action?: Prisma.StringFilter<"NoteContentRevision"> | string
+  userId?: Prisma.IntNullableFilter<"NoteContentRevision"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteContentRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteContentRevision"> | Date | string
+  noteContent?: Prisma.XOR<Prisma.NoteContentScalarRelationFilter, Prisma.NoteContentWhereInput>
+}
+
+export type NoteContentRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  noteContent?: Prisma.NoteContentOrderByWithRelationInput
+}
+
+export type NoteContentRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.NoteContentRevisionWhereInput | Prisma.NoteContentRevisionWhereInput[]
+  OR?: Prisma.NoteContentRevisionWhereInput[]
+  NOT?: Prisma.NoteContentRevisionWhereInput | Prisma.NoteContentRevisionWhereInput[]
+  noteContentId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  content?: Prisma.StringFilter<"NoteContentRevision"> | string
+  contentHash?: Prisma.StringFilter<"NoteContentRevision"> | string
+  action?: Prisma.StringFilter<"NoteContentRevision"> | string
+  userId?: Prisma.IntNullableFilter<"NoteContentRevision"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteContentRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteContentRevision"> | Date | string
+  noteContent?: Prisma.XOR<Prisma.NoteContentScalarRelationFilter, Prisma.NoteContentWhereInput>
+}, "id">
+
+export type NoteContentRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.NoteContentRevisionCountOrderByAggregateInput
+  _avg?: Prisma.NoteContentRevisionAvgOrderByAggregateInput
+  _max?: Prisma.NoteContentRevisionMaxOrderByAggregateInput
+  _min?: Prisma.NoteContentRevisionMinOrderByAggregateInput
+  _sum?: Prisma.NoteContentRevisionSumOrderByAggregateInput
+}
+
+export type NoteContentRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.NoteContentRevisionScalarWhereWithAggregatesInput | Prisma.NoteContentRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.NoteContentRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.NoteContentRevisionScalarWhereWithAggregatesInput | Prisma.NoteContentRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"NoteContentRevision"> | bigint | number
+  noteContentId?: Prisma.BigIntWithAggregatesFilter<"NoteContentRevision"> | bigint | number
+  noteInfoId?: Prisma.BigIntWithAggregatesFilter<"NoteContentRevision"> | bigint | number
+  content?: Prisma.StringWithAggregatesFilter<"NoteContentRevision"> | string
+  contentHash?: Prisma.StringWithAggregatesFilter<"NoteContentRevision"> | string
+  action?: Prisma.StringWithAggregatesFilter<"NoteContentRevision"> | string
+  userId?: Prisma.IntNullableWithAggregatesFilter<"NoteContentRevision"> | number | null
+  username?: Prisma.StringNullableWithAggregatesFilter<"NoteContentRevision"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"NoteContentRevision"> | Date | string
+}
+
+export type NoteContentRevisionCreateInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+  noteContent: Prisma.NoteContentCreateNestedOneWithoutRevisionsInput
+}
+
+export type NoteContentRevisionUncheckedCreateInput = {
+  id?: bigint | number
+  noteContentId: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type NoteContentRevisionUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteContent?: Prisma.NoteContentUpdateOneRequiredWithoutRevisionsNestedInput
+}
+
+export type NoteContentRevisionUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteContentRevisionCreateManyInput = {
+  id?: bigint | number
+  noteContentId: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type NoteContentRevisionUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteContentRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteContentRevisionListRelationFilter = {
+  every?: Prisma.NoteContentRevisionWhereInput
+  some?: Prisma.NoteContentRevisionWhereInput
+  none?: Prisma.NoteContentRevisionWhereInput
+}
+
+export type NoteContentRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type NoteContentRevisionCreateNestedManyWithoutNoteContentInput = {
+  create?: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput> | Prisma.NoteContentRevisionCreateWithoutNoteContentInput[] | Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput | Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput[]
+  createMany?: Prisma.NoteContentRevisionCreateManyNoteContentInputEnvelope
+  connect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+}
+
+export type NoteContentRevisionUncheckedCreateNestedManyWithoutNoteContentInput = {
+  create?: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput> | Prisma.NoteContentRevisionCreateWithoutNoteContentInput[] | Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput | Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput[]
+  createMany?: Prisma.NoteContentRevisionCreateManyNoteContentInputEnvelope
+  connect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+}
+
+export type NoteContentRevisionUpdateManyWithoutNoteContentNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput> | Prisma.NoteContentRevisionCreateWithoutNoteContentInput[] | Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput | Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput[]
+  upsert?: Prisma.NoteContentRevisionUpsertWithWhereUniqueWithoutNoteContentInput | Prisma.NoteContentRevisionUpsertWithWhereUniqueWithoutNoteContentInput[]
+  createMany?: Prisma.NoteContentRevisionCreateManyNoteContentInputEnvelope
+  set?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  delete?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  connect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  update?: Prisma.NoteContentRevisionUpdateWithWhereUniqueWithoutNoteContentInput | Prisma.NoteContentRevisionUpdateWithWhereUniqueWithoutNoteContentInput[]
+  updateMany?: Prisma.NoteContentRevisionUpdateManyWithWhereWithoutNoteContentInput | Prisma.NoteContentRevisionUpdateManyWithWhereWithoutNoteContentInput[]
+  deleteMany?: Prisma.NoteContentRevisionScalarWhereInput | Prisma.NoteContentRevisionScalarWhereInput[]
+}
+
+export type NoteContentRevisionUncheckedUpdateManyWithoutNoteContentNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput> | Prisma.NoteContentRevisionCreateWithoutNoteContentInput[] | Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput | Prisma.NoteContentRevisionCreateOrConnectWithoutNoteContentInput[]
+  upsert?: Prisma.NoteContentRevisionUpsertWithWhereUniqueWithoutNoteContentInput | Prisma.NoteContentRevisionUpsertWithWhereUniqueWithoutNoteContentInput[]
+  createMany?: Prisma.NoteContentRevisionCreateManyNoteContentInputEnvelope
+  set?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  delete?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  connect?: Prisma.NoteContentRevisionWhereUniqueInput | Prisma.NoteContentRevisionWhereUniqueInput[]
+  update?: Prisma.NoteContentRevisionUpdateWithWhereUniqueWithoutNoteContentInput | Prisma.NoteContentRevisionUpdateWithWhereUniqueWithoutNoteContentInput[]
+  updateMany?: Prisma.NoteContentRevisionUpdateManyWithWhereWithoutNoteContentInput | Prisma.NoteContentRevisionUpdateManyWithWhereWithoutNoteContentInput[]
+  deleteMany?: Prisma.NoteContentRevisionScalarWhereInput | Prisma.NoteContentRevisionScalarWhereInput[]
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type NoteContentRevisionCreateWithoutNoteContentInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type NoteContentRevisionUncheckedCreateWithoutNoteContentInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type NoteContentRevisionCreateOrConnectWithoutNoteContentInput = {
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput>
+}
+
+export type NoteContentRevisionCreateManyNoteContentInputEnvelope = {
+  data: Prisma.NoteContentRevisionCreateManyNoteContentInput | Prisma.NoteContentRevisionCreateManyNoteContentInput[]
+  skipDuplicates?: boolean
+}
+
+export type NoteContentRevisionUpsertWithWhereUniqueWithoutNoteContentInput = {
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.NoteContentRevisionUpdateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedUpdateWithoutNoteContentInput>
+  create: Prisma.XOR<Prisma.NoteContentRevisionCreateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedCreateWithoutNoteContentInput>
+}
+
+export type NoteContentRevisionUpdateWithWhereUniqueWithoutNoteContentInput = {
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.NoteContentRevisionUpdateWithoutNoteContentInput, Prisma.NoteContentRevisionUncheckedUpdateWithoutNoteContentInput>
+}
+
+export type NoteContentRevisionUpdateManyWithWhereWithoutNoteContentInput = {
+  where: Prisma.NoteContentRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.NoteContentRevisionUpdateManyMutationInput, Prisma.NoteContentRevisionUncheckedUpdateManyWithoutNoteContentInput>
+}
+
+export type NoteContentRevisionScalarWhereInput = {
+  AND?: Prisma.NoteContentRevisionScalarWhereInput | Prisma.NoteContentRevisionScalarWhereInput[]
+  OR?: Prisma.NoteContentRevisionScalarWhereInput[]
+  NOT?: Prisma.NoteContentRevisionScalarWhereInput | Prisma.NoteContentRevisionScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  noteContentId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteContentRevision"> | bigint | number
+  content?: Prisma.StringFilter<"NoteContentRevision"> | string
+  contentHash?: Prisma.StringFilter<"NoteContentRevision"> | string
+  action?: Prisma.StringFilter<"NoteContentRevision"> | string
+  userId?: Prisma.IntNullableFilter<"NoteContentRevision"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteContentRevision"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteContentRevision"> | Date | string
+}
+
+export type NoteContentRevisionCreateManyNoteContentInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  content: string
+  contentHash: string
+  action?: string
+  userId?: number | null
+  username?: string | null
+  createdAt?: Date | string
+}
+
+export type NoteContentRevisionUpdateWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteContentRevisionUncheckedUpdateWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteContentRevisionUncheckedUpdateManyWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type NoteContentRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteContentId?: boolean
+  noteInfoId?: boolean
+  content?: boolean
+  contentHash?: boolean
+  action?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteContentRevision"]>
+
+export type NoteContentRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteContentId?: boolean
+  noteInfoId?: boolean
+  content?: boolean
+  contentHash?: boolean
+  action?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteContentRevision"]>
+
+export type NoteContentRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteContentId?: boolean
+  noteInfoId?: boolean
+  content?: boolean
+  contentHash?: boolean
+  action?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteContentRevision"]>
+
+export type NoteContentRevisionSelectScalar = {
+  id?: boolean
+  noteContentId?: boolean
+  noteInfoId?: boolean
+  content?: boolean
+  contentHash?: boolean
+  action?: boolean
+  userId?: boolean
+  username?: boolean
+  createdAt?: boolean
+}
+
+export type NoteContentRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "noteContentId" | "noteInfoId" | "content" | "contentHash" | "action" | "userId" | "username" | "createdAt", ExtArgs["result"]["noteContentRevision"]>
+export type NoteContentRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}
+export type NoteContentRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}
+export type NoteContentRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteContent?: boolean | Prisma.NoteContentDefaultArgs<ExtArgs>
+}
+
+export type $NoteContentRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "NoteContentRevision"
+  objects: {
+    noteContent: Prisma.$NoteContentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    noteContentId: bigint
+    noteInfoId: bigint
+    content: string
+    contentHash: string
+    action: string
+    userId: number | null
+    username: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["noteContentRevision"]>
+  composites: {}
+}
+
+export type NoteContentRevisionGetPayload<S extends boolean | null | undefined | NoteContentRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload, S>
+
+export type NoteContentRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<NoteContentRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: NoteContentRevisionCountAggregateInputType | true
+  }
+
+export interface NoteContentRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['NoteContentRevision'], meta: { name: 'NoteContentRevision' } }
+  /**
+   * Find zero or one NoteContentRevision that matches the filter.
+   * @param {NoteContentRevisionFindUniqueArgs} args - Arguments to find a NoteContentRevision
+   * @example
+   * // Get one NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends NoteContentRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one NoteContentRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {NoteContentRevisionFindUniqueOrThrowArgs} args - Arguments to find a NoteContentRevision
+   * @example
+   * // Get one NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends NoteContentRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteContentRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionFindFirstArgs} args - Arguments to find a NoteContentRevision
+   * @example
+   * // Get one NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends NoteContentRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteContentRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionFindFirstOrThrowArgs} args - Arguments to find a NoteContentRevision
+   * @example
+   * // Get one NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends NoteContentRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more NoteContentRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all NoteContentRevisions
+   * const noteContentRevisions = await prisma.noteContentRevision.findMany()
+   * 
+   * // Get first 10 NoteContentRevisions
+   * const noteContentRevisions = await prisma.noteContentRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const noteContentRevisionWithIdOnly = await prisma.noteContentRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends NoteContentRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a NoteContentRevision.
+   * @param {NoteContentRevisionCreateArgs} args - Arguments to create a NoteContentRevision.
+   * @example
+   * // Create one NoteContentRevision
+   * const NoteContentRevision = await prisma.noteContentRevision.create({
+   *   data: {
+   *     // ... data to create a NoteContentRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends NoteContentRevisionCreateArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many NoteContentRevisions.
+   * @param {NoteContentRevisionCreateManyArgs} args - Arguments to create many NoteContentRevisions.
+   * @example
+   * // Create many NoteContentRevisions
+   * const noteContentRevision = await prisma.noteContentRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends NoteContentRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many NoteContentRevisions and returns the data saved in the database.
+   * @param {NoteContentRevisionCreateManyAndReturnArgs} args - Arguments to create many NoteContentRevisions.
+   * @example
+   * // Create many NoteContentRevisions
+   * const noteContentRevision = await prisma.noteContentRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many NoteContentRevisions and only return the `id`
+   * const noteContentRevisionWithIdOnly = await prisma.noteContentRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends NoteContentRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a NoteContentRevision.
+   * @param {NoteContentRevisionDeleteArgs} args - Arguments to delete one NoteContentRevision.
+   * @example
+   * // Delete one NoteContentRevision
+   * const NoteContentRevision = await prisma.noteContentRevision.delete({
+   *   where: {
+   *     // ... filter to delete one NoteContentRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends NoteContentRevisionDeleteArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one NoteContentRevision.
+   * @param {NoteContentRevisionUpdateArgs} args - Arguments to update one NoteContentRevision.
+   * @example
+   * // Update one NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends NoteContentRevisionUpdateArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more NoteContentRevisions.
+   * @param {NoteContentRevisionDeleteManyArgs} args - Arguments to filter NoteContentRevisions to delete.
+   * @example
+   * // Delete a few NoteContentRevisions
+   * const { count } = await prisma.noteContentRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends NoteContentRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, NoteContentRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteContentRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many NoteContentRevisions
+   * const noteContentRevision = await prisma.noteContentRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends NoteContentRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteContentRevisions and returns the data updated in the database.
+   * @param {NoteContentRevisionUpdateManyAndReturnArgs} args - Arguments to update many NoteContentRevisions.
+   * @example
+   * // Update many NoteContentRevisions
+   * const noteContentRevision = await prisma.noteContentRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more NoteContentRevisions and only return the `id`
+   * const noteContentRevisionWithIdOnly = await prisma.noteContentRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends NoteContentRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one NoteContentRevision.
+   * @param {NoteContentRevisionUpsertArgs} args - Arguments to update or create a NoteContentRevision.
+   * @example
+   * // Update or create a NoteContentRevision
+   * const noteContentRevision = await prisma.noteContentRevision.upsert({
+   *   create: {
+   *     // ... data to create a NoteContentRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the NoteContentRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends NoteContentRevisionUpsertArgs>(args: Prisma.SelectSubset<T, NoteContentRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__NoteContentRevisionClient<runtime.Types.Result.GetResult<Prisma.$NoteContentRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of NoteContentRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionCountArgs} args - Arguments to filter NoteContentRevisions to count.
+   * @example
+   * // Count the number of NoteContentRevisions
+   * const count = await prisma.noteContentRevision.count({
+   *   where: {
+   *     // ... the filter for the NoteContentRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends NoteContentRevisionCountArgs>(
+    args?: Prisma.Subset<T, NoteContentRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], NoteContentRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a NoteContentRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends NoteContentRevisionAggregateArgs>(args: Prisma.Subset<T, NoteContentRevisionAggregateArgs>): Prisma.PrismaPromise<GetNoteContentRevisionAggregateType<T>>
+
+  /**
+   * Group by NoteContentRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteContentRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends NoteContentRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: NoteContentRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: NoteContentRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, NoteContentRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetNoteContentRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the NoteContentRevision model
+ */
+readonly fields: NoteContentRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for NoteContentRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__NoteContentRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  noteContent<T extends Prisma.NoteContentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteContentDefaultArgs<ExtArgs>>): Prisma.Prisma__NoteContentClient<runtime.Types.Result.GetResult<Prisma.$NoteContentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the NoteContentRevision model
+ */
+export interface NoteContentRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"NoteContentRevision", 'BigInt'>
+  readonly noteContentId: Prisma.FieldRef<"NoteContentRevision", 'BigInt'>
+  readonly noteInfoId: Prisma.FieldRef<"NoteContentRevision", 'BigInt'>
+  readonly content: Prisma.FieldRef<"NoteContentRevision", 'String'>
+  readonly contentHash: Prisma.FieldRef<"NoteContentRevision", 'String'>
+  readonly action: Prisma.FieldRef<"NoteContentRevision", 'String'>
+  readonly userId: Prisma.FieldRef<"NoteContentRevision", 'Int'>
+  readonly username: Prisma.FieldRef<"NoteContentRevision", 'String'>
+  readonly createdAt: Prisma.FieldRef<"NoteContentRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * NoteContentRevision findUnique
+ */
+export type NoteContentRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteContentRevision to fetch.
+   */
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+}
+
+/**
+ * NoteContentRevision findUniqueOrThrow
+ */
+export type NoteContentRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteContentRevision to fetch.
+   */
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+}
+
+/**
+ * NoteContentRevision findFirst
+ */
+export type NoteContentRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteContentRevision to fetch.
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteContentRevisions to fetch.
+   */
+  orderBy?: Prisma.NoteContentRevisionOrderByWithRelationInput | Prisma.NoteContentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteContentRevisions.
+   */
+  cursor?: Prisma.NoteContentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteContentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteContentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteContentRevisions.
+   */
+  distinct?: Prisma.NoteContentRevisionScalarFieldEnum | Prisma.NoteContentRevisionScalarFieldEnum[]
+}
+
+/**
+ * NoteContentRevision findFirstOrThrow
+ */
+export type NoteContentRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteContentRevision to fetch.
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteContentRevisions to fetch.
+   */
+  orderBy?: Prisma.NoteContentRevisionOrderByWithRelationInput | Prisma.NoteContentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteContentRevisions.
+   */
+  cursor?: Prisma.NoteContentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteContentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteContentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteContentRevisions.
+   */
+  distinct?: Prisma.NoteContentRevisionScalarFieldEnum | Prisma.NoteContentRevisionScalarFieldEnum[]
+}
+
+/**
+ * NoteContentRevision findMany
+ */
+export type NoteContentRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteContentRevisions to fetch.
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteContentRevisions to fetch.
+   */
+  orderBy?: Prisma.NoteContentRevisionOrderByWithRelationInput | Prisma.NoteContentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing NoteContentRevisions.
+   */
+  cursor?: Prisma.NoteContentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteContentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteContentRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.NoteContentRevisionScalarFieldEnum | Prisma.NoteContentRevisionScalarFieldEnum[]
+}
+
+/**
+ * NoteContentRevision create
+ */
+export type NoteContentRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a NoteContentRevision.
+   */
+  data: Prisma.XOR<Prisma.NoteContentRevisionCreateInput, Prisma.NoteContentRevisionUncheckedCreateInput>
+}
+
+/**
+ * NoteContentRevision createMany
+ */
+export type NoteContentRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many NoteContentRevisions.
+   */
+  data: Prisma.NoteContentRevisionCreateManyInput | Prisma.NoteContentRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * NoteContentRevision createManyAndReturn
+ */
+export type NoteContentRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many NoteContentRevisions.
+   */
+  data: Prisma.NoteContentRevisionCreateManyInput | Prisma.NoteContentRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteContentRevision update
+ */
+export type NoteContentRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a NoteContentRevision.
+   */
+  data: Prisma.XOR<Prisma.NoteContentRevisionUpdateInput, Prisma.NoteContentRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which NoteContentRevision to update.
+   */
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+}
+
+/**
+ * NoteContentRevision updateMany
+ */
+export type NoteContentRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update NoteContentRevisions.
+   */
+  data: Prisma.XOR<Prisma.NoteContentRevisionUpdateManyMutationInput, Prisma.NoteContentRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteContentRevisions to update
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * Limit how many NoteContentRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * NoteContentRevision updateManyAndReturn
+ */
+export type NoteContentRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update NoteContentRevisions.
+   */
+  data: Prisma.XOR<Prisma.NoteContentRevisionUpdateManyMutationInput, Prisma.NoteContentRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteContentRevisions to update
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * Limit how many NoteContentRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteContentRevision upsert
+ */
+export type NoteContentRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the NoteContentRevision to update in case it exists.
+   */
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+  /**
+   * In case the NoteContentRevision found by the `where` argument doesn't exist, create a new NoteContentRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.NoteContentRevisionCreateInput, Prisma.NoteContentRevisionUncheckedCreateInput>
+  /**
+   * In case the NoteContentRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.NoteContentRevisionUpdateInput, Prisma.NoteContentRevisionUncheckedUpdateInput>
+}
+
+/**
+ * NoteContentRevision delete
+ */
+export type NoteContentRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which NoteContentRevision to delete.
+   */
+  where: Prisma.NoteContentRevisionWhereUniqueInput
+}
+
+/**
+ * NoteContentRevision deleteMany
+ */
+export type NoteContentRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteContentRevisions to delete
+   */
+  where?: Prisma.NoteContentRevisionWhereInput
+  /**
+   * Limit how many NoteContentRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * NoteContentRevision without action
+ */
+export type NoteContentRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContentRevision
+   */
+  select?: Prisma.NoteContentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContentRevision
+   */
+  omit?: Prisma.NoteContentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentRevisionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1243 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `NoteEmbeddingChunk` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model NoteEmbeddingChunk
+ * 笔记向量分块表：按标题切分主显示版本正文并存储 pgvector 向量，用于语义检索（schema: docs）
+ */
+export type NoteEmbeddingChunkModel = runtime.Types.Result.DefaultSelection<Prisma.$NoteEmbeddingChunkPayload>
+
+export type AggregateNoteEmbeddingChunk = {
+  _count: NoteEmbeddingChunkCountAggregateOutputType | null
+  _avg: NoteEmbeddingChunkAvgAggregateOutputType | null
+  _sum: NoteEmbeddingChunkSumAggregateOutputType | null
+  _min: NoteEmbeddingChunkMinAggregateOutputType | null
+  _max: NoteEmbeddingChunkMaxAggregateOutputType | null
+}
+
+export type NoteEmbeddingChunkAvgAggregateOutputType = {
+  id: number | null
+  noteInfoId: number | null
+  noteContentId: number | null
+  chunkIndex: number | null
+}
+
+export type NoteEmbeddingChunkSumAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  chunkIndex: number | null
+}
+
+export type NoteEmbeddingChunkMinAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  chunkIndex: number | null
+  heading: string | null
+  content: string | null
+  provider: string | null
+  createdAt: Date | null
+}
+
+export type NoteEmbeddingChunkMaxAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  chunkIndex: number | null
+  heading: string | null
+  content: string | null
+  provider: string | null
+  createdAt: Date | null
+}
+
+export type NoteEmbeddingChunkCountAggregateOutputType = {
+  id: number
+  noteInfoId: number
+  noteContentId: number
+  chunkIndex: number
+  heading: number
+  content: number
+  provider: number
+  createdAt: number
+  _all: number
+}
+
+
+export type NoteEmbeddingChunkAvgAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  chunkIndex?: true
+}
+
+export type NoteEmbeddingChunkSumAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  chunkIndex?: true
+}
+
+export type NoteEmbeddingChunkMinAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  chunkIndex?: true
+  heading?: true
+  content?: true
+  provider?: true
+  createdAt?: true
+}
+
+export type NoteEmbeddingChunkMaxAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  chunkIndex?: true
+  heading?: true
+  content?: true
+  provider?: true
+  createdAt?: true
+}
+
+export type NoteEmbeddingChunkCountAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  chunkIndex?: true
+  heading?: true
+  content?: true
+  provider?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type NoteEmbeddingChunkAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteEmbeddingChunk to aggregate.
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteEmbeddingChunks to fetch.
+   */
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithRelationInput | Prisma.NoteEmbeddingChunkOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteEmbeddingChunks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteEmbeddingChunks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned NoteEmbeddingChunks
+  **/
+  _count?: true | NoteEmbeddingChunkCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: NoteEmbeddingChunkAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: NoteEmbeddingChunkSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: NoteEmbeddingChunkMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: NoteEmbeddingChunkMaxAggregateInputType
+}
+
+export type GetNoteEmbeddingChunkAggregateType<T extends NoteEmbeddingChunkAggregateArgs> = {
+      [P in keyof T & keyof AggregateNoteEmbeddingChunk]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateNoteEmbeddingChunk[P]>
+    : Prisma.GetScalarType<T[P], AggregateNoteEmbeddingChunk[P]>
+}
+
+
+
+
+export type NoteEmbeddingChunkGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithAggregationInput | Prisma.NoteEmbeddingChunkOrderByWithAggregationInput[]
+  by: Prisma.NoteEmbeddingChunkScalarFieldEnum[] | Prisma.NoteEmbeddingChunkScalarFieldEnum
+  having?: Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: NoteEmbeddingChunkCountAggregateInputType | true
+  _avg?: NoteEmbeddingChunkAvgAggregateInputType
+  _sum?: NoteEmbeddingChunkSumAggregateInputType
+  _min?: NoteEmbeddingChunkMinAggregateInputType
+  _max?: NoteEmbeddingChunkMaxAggregateInputType
+}
+
+export type NoteEmbeddingChunkGroupByOutputType = {
+  id: bigint
+  noteInfoId: bigint
+  noteContentId: bigint
+  chunkIndex: number
+  heading: string | null
+  content: string
+  provider: string
+  createdAt: Date
+  _count: NoteEmbeddingChunkCountAggregateOutputType | null
+  _avg: NoteEmbeddingChunkAvgAggregateOutputType | null
+  _sum: NoteEmbeddingChunkSumAggregateOutputType | null
+  _min: NoteEmbeddingChunkMinAggregateOutputType | null
+  _max: NoteEmbeddingChunkMaxAggregateOutputType | null
+}
+
+type GetNoteEmbeddingChunkGroupByPayload<T extends NoteEmbeddingChunkGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<NoteEmbeddingChunkGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof NoteEmbeddingChunkGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], NoteEmbeddingChunkGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], NoteEmbeddingChunkGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type NoteEmbeddingChunkWhereInput = {
+  AND?: Prisma.NoteEmbeddingChunkWhereInput | Prisma.NoteEmbeddingChunkWhereInput[]
+  OR?: Prisma.NoteEmbeddingChunkWhereInput[]
+  NOT?: Prisma.NoteEmbeddingChunkWhereInput | Prisma.NoteEmbeddingChunkWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteContentId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  chunkIndex?: Prisma.IntFilter<"NoteEmbeddingChunk"> | number
+  heading?: Prisma.StringNullableFilter<"NoteEmbeddingChunk"> | string | null
+  content?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  provider?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  createdAt?: Prisma.DateTimeFilter<"NoteEmbeddingChunk"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+}
+
+export type NoteEmbeddingChunkOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+  heading?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  noteInfo?: Prisma.NoteInfoOrderByWithRelationInput
+}
+
+export type NoteEmbeddingChunkWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.NoteEmbeddingChunkWhereInput | Prisma.NoteEmbeddingChunkWhereInput[]
+  OR?: Prisma.NoteEmbeddingChunkWhereInput[]
+  NOT?: Prisma.NoteEmbeddingChunkWhereInput | Prisma.NoteEmbeddingChunkWhereInput[]
+  noteInfoId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteContentId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  chunkIndex?: Prisma.IntFilter<"NoteEmbeddingChunk"> | number
+  heading?: Prisma.StringNullableFilter<"NoteEmbeddingChunk"> | string | null
+  content?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  provider?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  createdAt?: Prisma.DateTimeFilter<"NoteEmbeddingChunk"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+}, "id">
+
+export type NoteEmbeddingChunkOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+  heading?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.NoteEmbeddingChunkCountOrderByAggregateInput
+  _avg?: Prisma.NoteEmbeddingChunkAvgOrderByAggregateInput
+  _max?: Prisma.NoteEmbeddingChunkMaxOrderByAggregateInput
+  _min?: Prisma.NoteEmbeddingChunkMinOrderByAggregateInput
+  _sum?: Prisma.NoteEmbeddingChunkSumOrderByAggregateInput
+}
+
+export type NoteEmbeddingChunkScalarWhereWithAggregatesInput = {
+  AND?: Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput | Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput[]
+  OR?: Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput | Prisma.NoteEmbeddingChunkScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteInfoId?: Prisma.BigIntWithAggregatesFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteContentId?: Prisma.BigIntWithAggregatesFilter<"NoteEmbeddingChunk"> | bigint | number
+  chunkIndex?: Prisma.IntWithAggregatesFilter<"NoteEmbeddingChunk"> | number
+  heading?: Prisma.StringNullableWithAggregatesFilter<"NoteEmbeddingChunk"> | string | null
+  content?: Prisma.StringWithAggregatesFilter<"NoteEmbeddingChunk"> | string
+  provider?: Prisma.StringWithAggregatesFilter<"NoteEmbeddingChunk"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"NoteEmbeddingChunk"> | Date | string
+}
+
+export type NoteEmbeddingChunkUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutEmbeddingChunksNestedInput
+}
+
+export type NoteEmbeddingChunkUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteEmbeddingChunkUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteEmbeddingChunkUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteEmbeddingChunkListRelationFilter = {
+  every?: Prisma.NoteEmbeddingChunkWhereInput
+  some?: Prisma.NoteEmbeddingChunkWhereInput
+  none?: Prisma.NoteEmbeddingChunkWhereInput
+}
+
+export type NoteEmbeddingChunkOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+  heading?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+  heading?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+  heading?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  chunkIndex?: Prisma.SortOrder
+}
+
+export type NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput = {
+  connect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+}
+
+export type NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput = {
+  connect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+}
+
+export type NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput = {
+  set?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  disconnect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  delete?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  connect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  update?: Prisma.NoteEmbeddingChunkUpdateWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteEmbeddingChunkUpdateWithWhereUniqueWithoutNoteInfoInput[]
+  updateMany?: Prisma.NoteEmbeddingChunkUpdateManyWithWhereWithoutNoteInfoInput | Prisma.NoteEmbeddingChunkUpdateManyWithWhereWithoutNoteInfoInput[]
+  deleteMany?: Prisma.NoteEmbeddingChunkScalarWhereInput | Prisma.NoteEmbeddingChunkScalarWhereInput[]
+}
+
+export type NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput = {
+  set?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  disconnect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  delete?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  connect?: Prisma.NoteEmbeddingChunkWhereUniqueInput | Prisma.NoteEmbeddingChunkWhereUniqueInput[]
+  update?: Prisma.NoteEmbeddingChunkUpdateWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteEmbeddingChunkUpdateWithWhereUniqueWithoutNoteInfoInput[]
+  updateMany?: Prisma.NoteEmbeddingChunkUpdateManyWithWhereWithoutNoteInfoInput | Prisma.NoteEmbeddingChunkUpdateManyWithWhereWithoutNoteInfoInput[]
+  deleteMany?: Prisma.NoteEmbeddingChunkScalarWhereInput | Prisma.NoteEmbeddingChunkScalarWhereInput[]
+}
+
+export type NoteEmbeddingChunkUpdateWithWhereUniqueWithoutNoteInfoInput = {
+  where: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  data: Prisma.XOR<Prisma.NoteEmbeddingChunkUpdateWithoutNoteInfoInput, Prisma.NoteEmbeddingChunkUncheckedUpdateWithoutNoteInfoInput>
+}
+
+export type NoteEmbeddingChunkUpdateManyWithWhereWithoutNoteInfoInput = {
+  where: Prisma.NoteEmbeddingChunkScalarWhereInput
+  data: Prisma.XOR<Prisma.NoteEmbeddingChunkUpdateManyMutationInput, Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoInput>
+}
+
+export type NoteEmbeddingChunkScalarWhereInput = {
+  AND?: Prisma.NoteEmbeddingChunkScalarWhereInput | Prisma.NoteEmbeddingChunkScalarWhereInput[]
+  OR?: Prisma.NoteEmbeddingChunkScalarWhereInput[]
+  NOT?: Prisma.NoteEmbeddingChunkScalarWhereInput | Prisma.NoteEmbeddingChunkScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  noteContentId?: Prisma.BigIntFilter<"NoteEmbeddingChunk"> | bigint | number
+  chunkIndex?: Prisma.IntFilter<"NoteEmbeddingChunk"> | number
+  heading?: Prisma.StringNullableFilter<"NoteEmbeddingChunk"> | string | null
+  content?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  provider?: Prisma.StringFilter<"NoteEmbeddingChunk"> | string
+  createdAt?: Prisma.DateTimeFilter<"NoteEmbeddingChunk"> | Date | string
+}
+
+export type NoteEmbeddingChunkUpdateWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteEmbeddingChunkUncheckedUpdateWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  chunkIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  heading?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type NoteEmbeddingChunkSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  chunkIndex?: boolean
+  heading?: boolean
+  content?: boolean
+  provider?: boolean
+  createdAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteEmbeddingChunk"]>
+
+
+export type NoteEmbeddingChunkSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  chunkIndex?: boolean
+  heading?: boolean
+  content?: boolean
+  provider?: boolean
+  createdAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteEmbeddingChunk"]>
+
+export type NoteEmbeddingChunkSelectScalar = {
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  chunkIndex?: boolean
+  heading?: boolean
+  content?: boolean
+  provider?: boolean
+  createdAt?: boolean
+}
+
+export type NoteEmbeddingChunkOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "noteInfoId" | "noteContentId" | "chunkIndex" | "heading" | "content" | "provider" | "createdAt", ExtArgs["result"]["noteEmbeddingChunk"]>
+export type NoteEmbeddingChunkInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}
+export type NoteEmbeddingChunkIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}
+
+export type $NoteEmbeddingChunkPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "NoteEmbeddingChunk"
+  objects: {
+    noteInfo: Prisma.$NoteInfoPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    noteInfoId: bigint
+    noteContentId: bigint
+    chunkIndex: number
+    heading: string | null
+    content: string
+    provider: string
+    createdAt: Date
+  }, ExtArgs["result"]["noteEmbeddingChunk"]>
+  composites: {}
+}
+
+export type NoteEmbeddingChunkGetPayload<S extends boolean | null | undefined | NoteEmbeddingChunkDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload, S>
+
+export type NoteEmbeddingChunkCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<NoteEmbeddingChunkFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: NoteEmbeddingChunkCountAggregateInputType | true
+  }
+
+export interface NoteEmbeddingChunkDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['NoteEmbeddingChunk'], meta: { name: 'NoteEmbeddingChunk' } }
+  /**
+   * Find zero or one NoteEmbeddingChunk that matches the filter.
+   * @param {NoteEmbeddingChunkFindUniqueArgs} args - Arguments to find a NoteEmbeddingChunk
+   * @example
+   * // Get one NoteEmbeddingChunk
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends NoteEmbeddingChunkFindUniqueArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkFindUniqueArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one NoteEmbeddingChunk that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {NoteEmbeddingChunkFindUniqueOrThrowArgs} args - Arguments to find a NoteEmbeddingChunk
+   * @example
+   * // Get one NoteEmbeddingChunk
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends NoteEmbeddingChunkFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteEmbeddingChunk that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkFindFirstArgs} args - Arguments to find a NoteEmbeddingChunk
+   * @example
+   * // Get one NoteEmbeddingChunk
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends NoteEmbeddingChunkFindFirstArgs>(args?: Prisma.SelectSubset<T, NoteEmbeddingChunkFindFirstArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteEmbeddingChunk that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkFindFirstOrThrowArgs} args - Arguments to find a NoteEmbeddingChunk
+   * @example
+   * // Get one NoteEmbeddingChunk
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends NoteEmbeddingChunkFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, NoteEmbeddingChunkFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more NoteEmbeddingChunks that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all NoteEmbeddingChunks
+   * const noteEmbeddingChunks = await prisma.noteEmbeddingChunk.findMany()
+   * 
+   * // Get first 10 NoteEmbeddingChunks
+   * const noteEmbeddingChunks = await prisma.noteEmbeddingChunk.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const noteEmbeddingChunkWithIdOnly = await prisma.noteEmbeddingChunk.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends NoteEmbeddingChunkFindManyArgs>(args?: Prisma.SelectSubset<T, NoteEmbeddingChunkFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Delete a NoteEmbeddingChunk.
+   * @param {NoteEmbeddingChunkDeleteArgs} args - Arguments to delete one NoteEmbeddingChunk.
+   * @example
+   * // Delete one NoteEmbeddingChunk
+   * const NoteEmbeddingChunk = await prisma.noteEmbeddingChunk.delete({
+   *   where: {
+   *     // ... filter to delete one NoteEmbeddingChunk
+   *   }
+   * })
+   * 
+   */
+  delete<T extends NoteEmbeddingChunkDeleteArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkDeleteArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one NoteEmbeddingChunk.
+   * @param {NoteEmbeddingChunkUpdateArgs} args - Arguments to update one NoteEmbeddingChunk.
+   * @example
+   * // Update one NoteEmbeddingChunk
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends NoteEmbeddingChunkUpdateArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkUpdateArgs<ExtArgs>>): Prisma.Prisma__NoteEmbeddingChunkClient<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more NoteEmbeddingChunks.
+   * @param {NoteEmbeddingChunkDeleteManyArgs} args - Arguments to filter NoteEmbeddingChunks to delete.
+   * @example
+   * // Delete a few NoteEmbeddingChunks
+   * const { count } = await prisma.noteEmbeddingChunk.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends NoteEmbeddingChunkDeleteManyArgs>(args?: Prisma.SelectSubset<T, NoteEmbeddingChunkDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteEmbeddingChunks.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many NoteEmbeddingChunks
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends NoteEmbeddingChunkUpdateManyArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteEmbeddingChunks and returns the data updated in the database.
+   * @param {NoteEmbeddingChunkUpdateManyAndReturnArgs} args - Arguments to update many NoteEmbeddingChunks.
+   * @example
+   * // Update many NoteEmbeddingChunks
+   * const noteEmbeddingChunk = await prisma.noteEmbeddingChunk.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more NoteEmbeddingChunks and only return the `id`
+   * const noteEmbeddingChunkWithIdOnly = await prisma.noteEmbeddingChunk.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends NoteEmbeddingChunkUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, NoteEmbeddingChunkUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+
+  /**
+   * Count the number of NoteEmbeddingChunks.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkCountArgs} args - Arguments to filter NoteEmbeddingChunks to count.
+   * @example
+   * // Count the number of NoteEmbeddingChunks
+   * const count = await prisma.noteEmbeddingChunk.count({
+   *   where: {
+   *     // ... the filter for the NoteEmbeddingChunks we want to count
+   *   }
+   * })
+  **/
+  count<T extends NoteEmbeddingChunkCountArgs>(
+    args?: Prisma.Subset<T, NoteEmbeddingChunkCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], NoteEmbeddingChunkCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a NoteEmbeddingChunk.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends NoteEmbeddingChunkAggregateArgs>(args: Prisma.Subset<T, NoteEmbeddingChunkAggregateArgs>): Prisma.PrismaPromise<GetNoteEmbeddingChunkAggregateType<T>>
+
+  /**
+   * Group by NoteEmbeddingChunk.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteEmbeddingChunkGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends NoteEmbeddingChunkGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: NoteEmbeddingChunkGroupByArgs['orderBy'] }
+      : { orderBy?: NoteEmbeddingChunkGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, NoteEmbeddingChunkGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetNoteEmbeddingChunkGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the NoteEmbeddingChunk model
+ */
+readonly fields: NoteEmbeddingChunkFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for NoteEmbeddingChunk.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__NoteEmbeddingChunkClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  noteInfo<T extends Prisma.NoteInfoDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfoDefaultArgs<ExtArgs>>): Prisma.Prisma__NoteInfoClient<runtime.Types.Result.GetResult<Prisma.$NoteInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the NoteEmbeddingChunk model
+ */
+export interface NoteEmbeddingChunkFieldRefs {
+  readonly id: Prisma.FieldRef<"NoteEmbeddingChunk", 'BigInt'>
+  readonly noteInfoId: Prisma.FieldRef<"NoteEmbeddingChunk", 'BigInt'>
+  readonly noteContentId: Prisma.FieldRef<"NoteEmbeddingChunk", 'BigInt'>
+  readonly chunkIndex: Prisma.FieldRef<"NoteEmbeddingChunk", 'Int'>
+  readonly heading: Prisma.FieldRef<"NoteEmbeddingChunk", 'String'>
+  readonly content: Prisma.FieldRef<"NoteEmbeddingChunk", 'String'>
+  readonly provider: Prisma.FieldRef<"NoteEmbeddingChunk", 'String'>
+  readonly createdAt: Prisma.FieldRef<"NoteEmbeddingChunk", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * NoteEmbeddingChunk findUnique
+ */
+export type NoteEmbeddingChunkFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteEmbeddingChunk to fetch.
+   */
+  where: Prisma.NoteEmbeddingChunkWhereUniqueInput
+}
+
+/**
+ * NoteEmbeddingChunk findUniqueOrThrow
+ */
+export type NoteEmbeddingChunkFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteEmbeddingChunk to fetch.
+   */
+  where: Prisma.NoteEmbeddingChunkWhereUniqueInput
+}
+
+/**
+ * NoteEmbeddingChunk findFirst
+ */
+export type NoteEmbeddingChunkFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteEmbeddingChunk to fetch.
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteEmbeddingChunks to fetch.
+   */
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithRelationInput | Prisma.NoteEmbeddingChunkOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteEmbeddingChunks.
+   */
+  cursor?: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteEmbeddingChunks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteEmbeddingChunks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteEmbeddingChunks.
+   */
+  distinct?: Prisma.NoteEmbeddingChunkScalarFieldEnum | Prisma.NoteEmbeddingChunkScalarFieldEnum[]
+}
+
+/**
+ * NoteEmbeddingChunk findFirstOrThrow
+ */
+export type NoteEmbeddingChunkFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteEmbeddingChunk to fetch.
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteEmbeddingChunks to fetch.
+   */
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithRelationInput | Prisma.NoteEmbeddingChunkOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteEmbeddingChunks.
+   */
+  cursor?: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteEmbeddingChunks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteEmbeddingChunks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteEmbeddingChunks.
+   */
+  distinct?: Prisma.NoteEmbeddingChunkScalarFieldEnum | Prisma.NoteEmbeddingChunkScalarFieldEnum[]
+}
+
+/**
+ * NoteEmbeddingChunk findMany
+ */
+export type NoteEmbeddingChunkFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteEmbeddingChunks to fetch.
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteEmbeddingChunks to fetch.
+   */
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithRelationInput | Prisma.NoteEmbeddingChunkOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing NoteEmbeddingChunks.
+   */
+  cursor?: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteEmbeddingChunks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteEmbeddingChunks.
+   */
+  skip?: number
+  distinct?: Prisma.NoteEmbeddingChunkScalarFieldEnum | Prisma.NoteEmbeddingChunkScalarFieldEnum[]
+}
+
+/**
+ * NoteEmbeddingChunk update
+ */
+export type NoteEmbeddingChunkUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * The data needed to update a NoteEmbeddingChunk.
+   */
+  data: Prisma.XOR<Prisma.NoteEmbeddingChunkUpdateInput, Prisma.NoteEmbeddingChunkUncheckedUpdateInput>
+  /**
+   * Choose, which NoteEmbeddingChunk to update.
+   */
+  where: Prisma.NoteEmbeddingChunkWhereUniqueInput
+}
+
+/**
+ * NoteEmbeddingChunk updateMany
+ */
+export type NoteEmbeddingChunkUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update NoteEmbeddingChunks.
+   */
+  data: Prisma.XOR<Prisma.NoteEmbeddingChunkUpdateManyMutationInput, Prisma.NoteEmbeddingChunkUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteEmbeddingChunks to update
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * Limit how many NoteEmbeddingChunks to update.
+   */
+  limit?: number
+}
+
+/**
+ * NoteEmbeddingChunk updateManyAndReturn
+ */
+export type NoteEmbeddingChunkUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * The data used to update NoteEmbeddingChunks.
+   */
+  data: Prisma.XOR<Prisma.NoteEmbeddingChunkUpdateManyMutationInput, Prisma.NoteEmbeddingChunkUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteEmbeddingChunks to update
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * Limit how many NoteEmbeddingChunks to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteEmbeddingChunk delete
+ */
+export type NoteEmbeddingChunkDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  /**
+   * Filter which NoteEmbeddingChunk to delete.
+   */
+  where: Prisma.NoteEmbeddingChunkWhereUniqueInput
+}
+
+/**
+ * NoteEmbeddingChunk deleteMany
+ */
+export type NoteEmbeddingChunkDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteEmbeddingChunks to delete
+   */
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  /**
+   * Limit how many NoteEmbeddingChunks to delete.
+   */
+  limit?: number
+}
+
+/**
+ * NoteEmbeddingChunk without action
+ */
+export type NoteEmbeddingChunkDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+}
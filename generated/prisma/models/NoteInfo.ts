@@ -44,8 +44,15 @@ export type NoteInfoMinAggregateOutputType = {
   id: bigint | null
   categoryId: bigint | null
   noteTitle: string | null
+  slug: string | null
   weight: number | null
   status: number | null
+  accessLevel: string | null
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -55,8 +62,15 @@ export type NoteInfoMaxAggregateOutputType = {
   id: bigint | null
   categoryId: bigint | null
   noteTitle: string | null
+  slug: string | null
   weight: number | null
   status: number | null
+  accessLevel: string | null
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -66,8 +80,15 @@ export type NoteInfoCountAggregateOutputType = {
   id: number
   categoryId: number
   noteTitle: number
+  slug: number
   weight: number
   status: number
+  accessLevel: number
+  seoTitle: number
+  seoDescription: number
+  seoKeywords: number
+  canonicalUrl: number
+  ogImage: number
   createdAt: number
   updatedAt: number
   isDeleted: number
@@ -93,8 +114,15 @@ export type NoteInfoMinAggregateInputType = {
   id?: true
   categoryId?: true
   noteTitle?: true
+  slug?: true
   weight?: true
   status?: true
+  accessLevel?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -104,8 +132,15 @@ export type NoteInfoMaxAggregateInputType = {
   id?: true
   categoryId?: true
   noteTitle?: true
+  slug?: true
   weight?: true
   status?: true
+  accessLevel?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -115,8 +150,15 @@ export type NoteInfoCountAggregateInputType = {
   id?: true
   categoryId?: true
   noteTitle?: true
+  slug?: true
   weight?: true
   status?: true
+  accessLevel?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -213,8 +255,15 @@ export type NoteInfoGroupByOutputType = {
   id: bigint
   categoryId: bigint
   noteTitle: string
+  slug: string | null
   weight: number
   status: number
+  accessLevel: string
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date
   updatedAt: Date
   isDeleted: boolean
@@ -247,26 +296,46 @@ export type NoteInfoWhereInput = {
   id?: Prisma.BigIntFilter<"NoteInfo"> | bigint | number
   categoryId?: Prisma.BigIntFilter<"NoteInfo"> | bigint | number
   noteTitle?: Prisma.StringFilter<"NoteInfo"> | string
+  slug?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   weight?: Prisma.IntFilter<"NoteInfo"> | number
   status?: Prisma.IntFilter<"NoteInfo"> | number
+  accessLevel?: Prisma.StringFilter<"NoteInfo"> | string
+  seoTitle?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoDescription?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoKeywords?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  canonicalUrl?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  ogImage?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   createdAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteInfo"> | boolean
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   contents?: Prisma.NoteContentListRelationFilter
+  searchIndex?: Prisma.XOR<Prisma.NoteSearchIndexNullableScalarRelationFilter, Prisma.NoteSearchIndexWhereInput> | null
+  embeddingChunks?: Prisma.NoteEmbeddingChunkListRelationFilter
+  schedules?: Prisma.NoteScheduleListRelationFilter
 }
 
 export type NoteInfoOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   noteTitle?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoDescription?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrderInput | Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  ogImage?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
   category?: Prisma.CategoryOrderByWithRelationInput
   contents?: Prisma.NoteContentOrderByRelationAggregateInput
+  searchIndex?: Prisma.NoteSearchIndexOrderByWithRelationInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkOrderByRelationAggregateInput
+  schedules?: Prisma.NoteScheduleOrderByRelationAggregateInput
 }
 
 export type NoteInfoWhereUniqueInput = Prisma.AtLeast<{
@@ -276,21 +345,38 @@ export type NoteInfoWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.NoteInfoWhereInput | Prisma.NoteInfoWhereInput[]
   categoryId?: Prisma.BigIntFilter<"NoteInfo"> | bigint | number
   noteTitle?: Prisma.StringFilter<"NoteInfo"> | string
+  slug?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   weight?: Prisma.IntFilter<"NoteInfo"> | number
   status?: Prisma.IntFilter<"NoteInfo"> | number
+  accessLevel?: Prisma.StringFilter<"NoteInfo"> | string
+  seoTitle?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoDescription?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoKeywords?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  canonicalUrl?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  ogImage?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   createdAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteInfo"> | boolean
   category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   contents?: Prisma.NoteContentListRelationFilter
+  searchIndex?: Prisma.XOR<Prisma.NoteSearchIndexNullableScalarRelationFilter, Prisma.NoteSearchIndexWhereInput> | null
+  embeddingChunks?: Prisma.NoteEmbeddingChunkListRelationFilter
+  schedules?: Prisma.NoteScheduleListRelationFilter
 }, "id">
 
 export type NoteInfoOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   noteTitle?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoDescription?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrderInput | Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  ogImage?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -308,8 +394,15 @@ export type NoteInfoScalarWhereWithAggregatesInput = {
   id?: Prisma.BigIntWithAggregatesFilter<"NoteInfo"> | bigint | number
   categoryId?: Prisma.BigIntWithAggregatesFilter<"NoteInfo"> | bigint | number
   noteTitle?: Prisma.StringWithAggregatesFilter<"NoteInfo"> | string
+  slug?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
   weight?: Prisma.IntWithAggregatesFilter<"NoteInfo"> | number
   status?: Prisma.IntWithAggregatesFilter<"NoteInfo"> | number
+  accessLevel?: Prisma.StringWithAggregatesFilter<"NoteInfo"> | string
+  seoTitle?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
+  seoDescription?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
+  seoKeywords?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
+  canonicalUrl?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
+  ogImage?: Prisma.StringNullableWithAggregatesFilter<"NoteInfo"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"NoteInfo"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"NoteInfo"> | Date | string
   isDeleted?: Prisma.BoolWithAggregatesFilter<"NoteInfo"> | boolean
@@ -318,57 +411,104 @@ export type NoteInfoScalarWhereWithAggregatesInput = {
 export type NoteInfoCreateInput = {
   id?: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   category: Prisma.CategoryCreateNestedOneWithoutNoteInfosInput
   contents?: Prisma.NoteContentCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoUncheckedCreateInput = {
   id?: bigint | number
   categoryId: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   contents?: Prisma.NoteContentUncheckedCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   category?: Prisma.CategoryUpdateOneRequiredWithoutNoteInfosNestedInput
   contents?: Prisma.NoteContentUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoUncheckedUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   contents?: Prisma.NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoCreateManyInput = {
   id?: bigint | number
   categoryId: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -377,8 +517,15 @@ export type NoteInfoCreateManyInput = {
 export type NoteInfoUpdateManyMutationInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -388,8 +535,15 @@ export type NoteInfoUncheckedUpdateManyInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -409,8 +563,15 @@ export type NoteInfoCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   noteTitle?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -427,8 +588,15 @@ export type NoteInfoMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   noteTitle?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -438,8 +606,15 @@ export type NoteInfoMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
   noteTitle?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  accessLevel?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -513,26 +688,76 @@ export type NoteInfoUpdateOneRequiredWithoutContentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.NoteInfoUpdateToOneWithWhereWithoutContentsInput, Prisma.NoteInfoUpdateWithoutContentsInput>, Prisma.NoteInfoUncheckedUpdateWithoutContentsInput>
 }
 
+export type NoteInfoCreateNestedOneWithoutSchedulesInput = {
+  create?: Prisma.XOR<Prisma.NoteInfoCreateWithoutSchedulesInput, Prisma.NoteInfoUncheckedCreateWithoutSchedulesInput>
+  connectOrCreate?: Prisma.NoteInfoCreateOrConnectWithoutSchedulesInput
+  connect?: Prisma.NoteInfoWhereUniqueInput
+}
+
+export type NoteInfoUpdateOneRequiredWithoutSchedulesNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteInfoCreateWithoutSchedulesInput, Prisma.NoteInfoUncheckedCreateWithoutSchedulesInput>
+  connectOrCreate?: Prisma.NoteInfoCreateOrConnectWithoutSchedulesInput
+  upsert?: Prisma.NoteInfoUpsertWithoutSchedulesInput
+  connect?: Prisma.NoteInfoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteInfoUpdateToOneWithWhereWithoutSchedulesInput, Prisma.NoteInfoUpdateWithoutSchedulesInput>, Prisma.NoteInfoUncheckedUpdateWithoutSchedulesInput>
+}
+
+export type NoteInfoUpdateOneRequiredWithoutSearchIndexNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteInfoCreateWithoutSearchIndexInput, Prisma.NoteInfoUncheckedCreateWithoutSearchIndexInput>
+  connectOrCreate?: Prisma.NoteInfoCreateOrConnectWithoutSearchIndexInput
+  upsert?: Prisma.NoteInfoUpsertWithoutSearchIndexInput
+  connect?: Prisma.NoteInfoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteInfoUpdateToOneWithWhereWithoutSearchIndexInput, Prisma.NoteInfoUpdateWithoutSearchIndexInput>, Prisma.NoteInfoUncheckedUpdateWithoutSearchIndexInput>
+}
+
+export type NoteInfoUpdateOneRequiredWithoutEmbeddingChunksNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteInfoCreateWithoutEmbeddingChunksInput, Prisma.NoteInfoUncheckedCreateWithoutEmbeddingChunksInput>
+  connectOrCreate?: Prisma.NoteInfoCreateOrConnectWithoutEmbeddingChunksInput
+  upsert?: Prisma.NoteInfoUpsertWithoutEmbeddingChunksInput
+  connect?: Prisma.NoteInfoWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteInfoUpdateToOneWithWhereWithoutEmbeddingChunksInput, Prisma.NoteInfoUpdateWithoutEmbeddingChunksInput>, Prisma.NoteInfoUncheckedUpdateWithoutEmbeddingChunksInput>
+}
+
 export type NoteInfoCreateWithoutCategoryInput = {
   id?: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   contents?: Prisma.NoteContentCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoUncheckedCreateWithoutCategoryInput = {
   id?: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   contents?: Prisma.NoteContentUncheckedCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoCreateOrConnectWithoutCategoryInput = {
@@ -568,8 +793,15 @@ export type NoteInfoScalarWhereInput = {
   id?: Prisma.BigIntFilter<"NoteInfo"> | bigint | number
   categoryId?: Prisma.BigIntFilter<"NoteInfo"> | bigint | number
   noteTitle?: Prisma.StringFilter<"NoteInfo"> | string
+  slug?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   weight?: Prisma.IntFilter<"NoteInfo"> | number
   status?: Prisma.IntFilter<"NoteInfo"> | number
+  accessLevel?: Prisma.StringFilter<"NoteInfo"> | string
+  seoTitle?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoDescription?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  seoKeywords?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  canonicalUrl?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
+  ogImage?: Prisma.StringNullableFilter<"NoteInfo"> | string | null
   createdAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NoteInfo"> | Date | string
   isDeleted?: Prisma.BoolFilter<"NoteInfo"> | boolean
@@ -578,23 +810,43 @@ export type NoteInfoScalarWhereInput = {
 export type NoteInfoCreateWithoutContentsInput = {
   id?: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
   category: Prisma.CategoryCreateNestedOneWithoutNoteInfosInput
+  searchIndex?: Prisma.NoteSearchIndexCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoUncheckedCreateWithoutContentsInput = {
   id?: bigint | number
   categoryId: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  searchIndex?: Prisma.NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput
 }
 
 export type NoteInfoCreateOrConnectWithoutContentsInput = {
@@ -616,30 +868,357 @@ export type NoteInfoUpdateToOneWithWhereWithoutContentsInput = {
 export type NoteInfoUpdateWithoutContentsInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   category?: Prisma.CategoryUpdateOneRequiredWithoutNoteInfosNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoUncheckedUpdateWithoutContentsInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  searchIndex?: Prisma.NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoCreateWithoutSchedulesInput = {
+  id?: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  category: Prisma.CategoryCreateNestedOneWithoutNoteInfosInput
+  contents?: Prisma.NoteContentCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoUncheckedCreateWithoutSchedulesInput = {
+  id?: bigint | number
+  categoryId: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  contents?: Prisma.NoteContentUncheckedCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoCreateOrConnectWithoutSchedulesInput = {
+  where: Prisma.NoteInfoWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutSchedulesInput, Prisma.NoteInfoUncheckedCreateWithoutSchedulesInput>
+}
+
+export type NoteInfoUpsertWithoutSchedulesInput = {
+  update: Prisma.XOR<Prisma.NoteInfoUpdateWithoutSchedulesInput, Prisma.NoteInfoUncheckedUpdateWithoutSchedulesInput>
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutSchedulesInput, Prisma.NoteInfoUncheckedCreateWithoutSchedulesInput>
+  where?: Prisma.NoteInfoWhereInput
+}
+
+export type NoteInfoUpdateToOneWithWhereWithoutSchedulesInput = {
+  where?: Prisma.NoteInfoWhereInput
+  data: Prisma.XOR<Prisma.NoteInfoUpdateWithoutSchedulesInput, Prisma.NoteInfoUncheckedUpdateWithoutSchedulesInput>
+}
+
+export type NoteInfoUpdateWithoutSchedulesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  category?: Prisma.CategoryUpdateOneRequiredWithoutNoteInfosNestedInput
+  contents?: Prisma.NoteContentUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoUncheckedUpdateWithoutSchedulesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  contents?: Prisma.NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoCreateWithoutSearchIndexInput = {
+  id?: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  category: Prisma.CategoryCreateNestedOneWithoutNoteInfosInput
+  contents?: Prisma.NoteContentCreateNestedManyWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoUncheckedCreateWithoutSearchIndexInput = {
+  id?: bigint | number
+  categoryId: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  contents?: Prisma.NoteContentUncheckedCreateNestedManyWithoutNoteInfoInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedCreateNestedManyWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoCreateOrConnectWithoutSearchIndexInput = {
+  where: Prisma.NoteInfoWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutSearchIndexInput, Prisma.NoteInfoUncheckedCreateWithoutSearchIndexInput>
+}
+
+export type NoteInfoUpsertWithoutSearchIndexInput = {
+  update: Prisma.XOR<Prisma.NoteInfoUpdateWithoutSearchIndexInput, Prisma.NoteInfoUncheckedUpdateWithoutSearchIndexInput>
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutSearchIndexInput, Prisma.NoteInfoUncheckedCreateWithoutSearchIndexInput>
+  where?: Prisma.NoteInfoWhereInput
+}
+
+export type NoteInfoUpdateToOneWithWhereWithoutSearchIndexInput = {
+  where?: Prisma.NoteInfoWhereInput
+  data: Prisma.XOR<Prisma.NoteInfoUpdateWithoutSearchIndexInput, Prisma.NoteInfoUncheckedUpdateWithoutSearchIndexInput>
+}
+
+export type NoteInfoUpdateWithoutSearchIndexInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  category?: Prisma.CategoryUpdateOneRequiredWithoutNoteInfosNestedInput
+  contents?: Prisma.NoteContentUpdateManyWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoUncheckedUpdateWithoutSearchIndexInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  contents?: Prisma.NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoCreateWithoutEmbeddingChunksInput = {
+  id?: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  category: Prisma.CategoryCreateNestedOneWithoutNoteInfosInput
+  contents?: Prisma.NoteContentCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexCreateNestedOneWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoUncheckedCreateWithoutEmbeddingChunksInput = {
+  id?: bigint | number
+  categoryId: bigint | number
+  noteTitle: string
+  slug?: string | null
+  weight: number
+  status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  contents?: Prisma.NoteContentUncheckedCreateNestedManyWithoutNoteInfoInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput
+  schedules?: Prisma.NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput
+}
+
+export type NoteInfoCreateOrConnectWithoutEmbeddingChunksInput = {
+  where: Prisma.NoteInfoWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutEmbeddingChunksInput, Prisma.NoteInfoUncheckedCreateWithoutEmbeddingChunksInput>
+}
+
+export type NoteInfoUpsertWithoutEmbeddingChunksInput = {
+  update: Prisma.XOR<Prisma.NoteInfoUpdateWithoutEmbeddingChunksInput, Prisma.NoteInfoUncheckedUpdateWithoutEmbeddingChunksInput>
+  create: Prisma.XOR<Prisma.NoteInfoCreateWithoutEmbeddingChunksInput, Prisma.NoteInfoUncheckedCreateWithoutEmbeddingChunksInput>
+  where?: Prisma.NoteInfoWhereInput
+}
+
+export type NoteInfoUpdateToOneWithWhereWithoutEmbeddingChunksInput = {
+  where?: Prisma.NoteInfoWhereInput
+  data: Prisma.XOR<Prisma.NoteInfoUpdateWithoutEmbeddingChunksInput, Prisma.NoteInfoUncheckedUpdateWithoutEmbeddingChunksInput>
+}
+
+export type NoteInfoUpdateWithoutEmbeddingChunksInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  category?: Prisma.CategoryUpdateOneRequiredWithoutNoteInfosNestedInput
+  contents?: Prisma.NoteContentUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteInfoNestedInput
+}
+
+export type NoteInfoUncheckedUpdateWithoutEmbeddingChunksInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  categoryId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  weight?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  contents?: Prisma.NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoCreateManyCategoryInput = {
   id?: bigint | number
   noteTitle: string
+  slug?: string | null
   weight: number
   status: number
+  accessLevel?: string
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -648,30 +1227,57 @@ export type NoteInfoCreateManyCategoryInput = {
 export type NoteInfoUpdateWithoutCategoryInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   contents?: Prisma.NoteContentUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoUncheckedUpdateWithoutCategoryInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   contents?: Prisma.NoteContentUncheckedUpdateManyWithoutNoteInfoNestedInput
+  searchIndex?: Prisma.NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput
+  embeddingChunks?: Prisma.NoteEmbeddingChunkUncheckedUpdateManyWithoutNoteInfoNestedInput
+  schedules?: Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput
 }
 
 export type NoteInfoUncheckedUpdateManyWithoutCategoryInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   noteTitle?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
+  accessLevel?: Prisma.StringFieldUpdateOperationsInput | string
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -684,10 +1290,14 @@ export type NoteInfoUncheckedUpdateManyWithoutCategoryInput = {
 
 export type NoteInfoCountOutputType = {
   contents: number
+  embeddingChunks: number
+  schedules: number
 }
 
 export type NoteInfoCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   contents?: boolean | NoteInfoCountOutputTypeCountContentsArgs
+  embeddingChunks?: boolean | NoteInfoCountOutputTypeCountEmbeddingChunksArgs
+  schedules?: boolean | NoteInfoCountOutputTypeCountSchedulesArgs
 }
 
 /**
@@ -707,18 +1317,42 @@ export type NoteInfoCountOutputTypeCountContentsArgs<ExtArgs extends runtime.Typ
   where?: Prisma.NoteContentWhereInput
 }
 
+/**
+ * NoteInfoCountOutputType without action
+ */
+export type NoteInfoCountOutputTypeCountEmbeddingChunksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+}
+
+/**
+ * NoteInfoCountOutputType without action
+ */
+export type NoteInfoCountOutputTypeCountSchedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteScheduleWhereInput
+}
+
 
 export type NoteInfoSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   categoryId?: boolean
   noteTitle?: boolean
+  slug?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   contents?: boolean | Prisma.NoteInfo$contentsArgs<ExtArgs>
+  searchIndex?: boolean | Prisma.NoteInfo$searchIndexArgs<ExtArgs>
+  embeddingChunks?: boolean | Prisma.NoteInfo$embeddingChunksArgs<ExtArgs>
+  schedules?: boolean | Prisma.NoteInfo$schedulesArgs<ExtArgs>
   _count?: boolean | Prisma.NoteInfoCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["noteInfo"]>
 
@@ -726,8 +1360,15 @@ export type NoteInfoSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   id?: boolean
   categoryId?: boolean
   noteTitle?: boolean
+  slug?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -738,8 +1379,15 @@ export type NoteInfoSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   id?: boolean
   categoryId?: boolean
   noteTitle?: boolean
+  slug?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -750,17 +1398,27 @@ export type NoteInfoSelectScalar = {
   id?: boolean
   categoryId?: boolean
   noteTitle?: boolean
+  slug?: boolean
   weight?: boolean
   status?: boolean
+  accessLevel?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
 }
 
-export type NoteInfoOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "categoryId" | "noteTitle" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["noteInfo"]>
+export type NoteInfoOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "categoryId" | "noteTitle" | "slug" | "weight" | "status" | "accessLevel" | "seoTitle" | "seoDescription" | "seoKeywords" | "canonicalUrl" | "ogImage" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["noteInfo"]>
 export type NoteInfoInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   contents?: boolean | Prisma.NoteInfo$contentsArgs<ExtArgs>
+  searchIndex?: boolean | Prisma.NoteInfo$searchIndexArgs<ExtArgs>
+  embeddingChunks?: boolean | Prisma.NoteInfo$embeddingChunksArgs<ExtArgs>
+  schedules?: boolean | Prisma.NoteInfo$schedulesArgs<ExtArgs>
   _count?: boolean | Prisma.NoteInfoCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type NoteInfoIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -775,13 +1433,23 @@ export type $NoteInfoPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   objects: {
     category: Prisma.$CategoryPayload<ExtArgs>
     contents: Prisma.$NoteContentPayload<ExtArgs>[]
+    searchIndex: Prisma.$NoteSearchIndexPayload<ExtArgs> | null
+    embeddingChunks: Prisma.$NoteEmbeddingChunkPayload<ExtArgs>[]
+    schedules: Prisma.$NoteSchedulePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
     categoryId: bigint
     noteTitle: string
+    slug: string | null
     weight: number
     status: number
+    accessLevel: string
+    seoTitle: string | null
+    seoDescription: string | null
+    seoKeywords: string | null
+    canonicalUrl: string | null
+    ogImage: string | null
     createdAt: Date
     updatedAt: Date
     isDeleted: boolean
@@ -1181,6 +1849,9 @@ export interface Prisma__NoteInfoClient<T, Null = never, ExtArgs extends runtime
   readonly [Symbol.toStringTag]: "PrismaPromise"
   category<T extends Prisma.CategoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CategoryDefaultArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   contents<T extends Prisma.NoteInfo$contentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfo$contentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteContentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  searchIndex<T extends Prisma.NoteInfo$searchIndexArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfo$searchIndexArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  embeddingChunks<T extends Prisma.NoteInfo$embeddingChunksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfo$embeddingChunksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteEmbeddingChunkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  schedules<T extends Prisma.NoteInfo$schedulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfo$schedulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1213,8 +1884,15 @@ export interface NoteInfoFieldRefs {
   readonly id: Prisma.FieldRef<"NoteInfo", 'BigInt'>
   readonly categoryId: Prisma.FieldRef<"NoteInfo", 'BigInt'>
   readonly noteTitle: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly slug: Prisma.FieldRef<"NoteInfo", 'String'>
   readonly weight: Prisma.FieldRef<"NoteInfo", 'Int'>
   readonly status: Prisma.FieldRef<"NoteInfo", 'Int'>
+  readonly accessLevel: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly seoTitle: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly seoDescription: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly seoKeywords: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly canonicalUrl: Prisma.FieldRef<"NoteInfo", 'String'>
+  readonly ogImage: Prisma.FieldRef<"NoteInfo", 'String'>
   readonly createdAt: Prisma.FieldRef<"NoteInfo", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"NoteInfo", 'DateTime'>
   readonly isDeleted: Prisma.FieldRef<"NoteInfo", 'Boolean'>
@@ -1637,6 +2315,73 @@ export type NoteInfo$contentsArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.NoteContentScalarFieldEnum | Prisma.NoteContentScalarFieldEnum[]
 }
 
+/**
+ * NoteInfo.searchIndex
+ */
+export type NoteInfo$searchIndexArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  where?: Prisma.NoteSearchIndexWhereInput
+}
+
+/**
+ * NoteInfo.embeddingChunks
+ */
+export type NoteInfo$embeddingChunksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteEmbeddingChunk
+   */
+  select?: Prisma.NoteEmbeddingChunkSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteEmbeddingChunk
+   */
+  omit?: Prisma.NoteEmbeddingChunkOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteEmbeddingChunkInclude<ExtArgs> | null
+  where?: Prisma.NoteEmbeddingChunkWhereInput
+  orderBy?: Prisma.NoteEmbeddingChunkOrderByWithRelationInput | Prisma.NoteEmbeddingChunkOrderByWithRelationInput[]
+  cursor?: Prisma.NoteEmbeddingChunkWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NoteEmbeddingChunkScalarFieldEnum | Prisma.NoteEmbeddingChunkScalarFieldEnum[]
+}
+
+/**
+ * NoteInfo.schedules
+ */
+export type NoteInfo$schedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  where?: Prisma.NoteScheduleWhereInput
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NoteScheduleScalarFieldEnum | Prisma.NoteScheduleScalarFieldEnum[]
+}
+
 /**
  * NoteInfo without action
  */
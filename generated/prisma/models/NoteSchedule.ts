@@ -0,0 +1,1828 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `NoteSchedule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model NoteSchedule
+ * 笔记定时计划表：到达执行时间后由定时任务将内容版本设为主版本，或下线内容版本 / 整篇笔记（schema: docs）
+ */
+export type NoteScheduleModel = runtime.Types.Result.DefaultSelection<Prisma.$NoteSchedulePayload>
+
+export type AggregateNoteSchedule = {
+  _count: NoteScheduleCountAggregateOutputType | null
+  _avg: NoteScheduleAvgAggregateOutputType | null
+  _sum: NoteScheduleSumAggregateOutputType | null
+  _min: NoteScheduleMinAggregateOutputType | null
+  _max: NoteScheduleMaxAggregateOutputType | null
+}
+
+export type NoteScheduleAvgAggregateOutputType = {
+  id: number | null
+  noteInfoId: number | null
+  noteContentId: number | null
+  userId: number | null
+}
+
+export type NoteScheduleSumAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  userId: number | null
+}
+
+export type NoteScheduleMinAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  action: string | null
+  runAt: Date | null
+  status: string | null
+  error: string | null
+  userId: number | null
+  username: string | null
+  executedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type NoteScheduleMaxAggregateOutputType = {
+  id: bigint | null
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  action: string | null
+  runAt: Date | null
+  status: string | null
+  error: string | null
+  userId: number | null
+  username: string | null
+  executedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type NoteScheduleCountAggregateOutputType = {
+  id: number
+  noteInfoId: number
+  noteContentId: number
+  action: number
+  runAt: number
+  status: number
+  error: number
+  userId: number
+  username: number
+  executedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type NoteScheduleAvgAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  userId?: true
+}
+
+export type NoteScheduleSumAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  userId?: true
+}
+
+export type NoteScheduleMinAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  action?: true
+  runAt?: true
+  status?: true
+  error?: true
+  userId?: true
+  username?: true
+  executedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type NoteScheduleMaxAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  action?: true
+  runAt?: true
+  status?: true
+  error?: true
+  userId?: true
+  username?: true
+  executedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type NoteScheduleCountAggregateInputType = {
+  id?: true
+  noteInfoId?: true
+  noteContentId?: true
+  action?: true
+  runAt?: true
+  status?: true
+  error?: true
+  userId?: true
+  username?: true
+  executedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type NoteScheduleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteSchedule to aggregate.
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSchedules to fetch.
+   */
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSchedules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSchedules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned NoteSchedules
+  **/
+  _count?: true | NoteScheduleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: NoteScheduleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: NoteScheduleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: NoteScheduleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: NoteScheduleMaxAggregateInputType
+}
+
+export type GetNoteScheduleAggregateType<T extends NoteScheduleAggregateArgs> = {
+      [P in keyof T & keyof AggregateNoteSchedule]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateNoteSchedule[P]>
+    : Prisma.GetScalarType<T[P], AggregateNoteSchedule[P]>
+}
+
+
+
+
+export type NoteScheduleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteScheduleWhereInput
+  orderBy?: Prisma.NoteScheduleOrderByWithAggregationInput | Prisma.NoteScheduleOrderByWithAggregationInput[]
+  by: Prisma.NoteScheduleScalarFieldEnum[] | Prisma.NoteScheduleScalarFieldEnum
+  having?: Prisma.NoteScheduleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: NoteScheduleCountAggregateInputType | true
+  _avg?: NoteScheduleAvgAggregateInputType
+  _sum?: NoteScheduleSumAggregateInputType
+  _min?: NoteScheduleMinAggregateInputType
+  _max?: NoteScheduleMaxAggregateInputType
+}
+
+export type NoteScheduleGroupByOutputType = {
+  id: bigint
+  noteInfoId: bigint
+  noteContentId: bigint | null
+  action: string
+  runAt: Date
+  status: string
+  error: string | null
+  userId: number | null
+  username: string | null
+  executedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: NoteScheduleCountAggregateOutputType | null
+  _avg: NoteScheduleAvgAggregateOutputType | null
+  _sum: NoteScheduleSumAggregateOutputType | null
+  _min: NoteScheduleMinAggregateOutputType | null
+  _max: NoteScheduleMaxAggregateOutputType | null
+}
+
+type GetNoteScheduleGroupByPayload<T extends NoteScheduleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<NoteScheduleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof NoteScheduleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], NoteScheduleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], NoteScheduleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type NoteScheduleWhereInput = {
+  AND?: Prisma.NoteScheduleWhereInput | Prisma.NoteScheduleWhereInput[]
+  OR?: Prisma.NoteScheduleWhereInput[]
+  NOT?: Prisma.NoteScheduleWhereInput | Prisma.NoteScheduleWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteSchedule"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteSchedule"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableFilter<"NoteSchedule"> | bigint | number | null
+  action?: Prisma.StringFilter<"NoteSchedule"> | string
+  runAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  status?: Prisma.StringFilter<"NoteSchedule"> | string
+  error?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  userId?: Prisma.IntNullableFilter<"NoteSchedule"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  executedAt?: Prisma.DateTimeNullableFilter<"NoteSchedule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+  noteContent?: Prisma.XOR<Prisma.NoteContentNullableScalarRelationFilter, Prisma.NoteContentWhereInput> | null
+}
+
+export type NoteScheduleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  executedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  noteInfo?: Prisma.NoteInfoOrderByWithRelationInput
+  noteContent?: Prisma.NoteContentOrderByWithRelationInput
+}
+
+export type NoteScheduleWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  AND?: Prisma.NoteScheduleWhereInput | Prisma.NoteScheduleWhereInput[]
+  OR?: Prisma.NoteScheduleWhereInput[]
+  NOT?: Prisma.NoteScheduleWhereInput | Prisma.NoteScheduleWhereInput[]
+  noteInfoId?: Prisma.BigIntFilter<"NoteSchedule"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableFilter<"NoteSchedule"> | bigint | number | null
+  action?: Prisma.StringFilter<"NoteSchedule"> | string
+  runAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  status?: Prisma.StringFilter<"NoteSchedule"> | string
+  error?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  userId?: Prisma.IntNullableFilter<"NoteSchedule"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  executedAt?: Prisma.DateTimeNullableFilter<"NoteSchedule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+  noteContent?: Prisma.XOR<Prisma.NoteContentNullableScalarRelationFilter, Prisma.NoteContentWhereInput> | null
+}, "id">
+
+export type NoteScheduleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  executedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.NoteScheduleCountOrderByAggregateInput
+  _avg?: Prisma.NoteScheduleAvgOrderByAggregateInput
+  _max?: Prisma.NoteScheduleMaxOrderByAggregateInput
+  _min?: Prisma.NoteScheduleMinOrderByAggregateInput
+  _sum?: Prisma.NoteScheduleSumOrderByAggregateInput
+}
+
+export type NoteScheduleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.NoteScheduleScalarWhereWithAggregatesInput | Prisma.NoteScheduleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.NoteScheduleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.NoteScheduleScalarWhereWithAggregatesInput | Prisma.NoteScheduleScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"NoteSchedule"> | bigint | number
+  noteInfoId?: Prisma.BigIntWithAggregatesFilter<"NoteSchedule"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableWithAggregatesFilter<"NoteSchedule"> | bigint | number | null
+  action?: Prisma.StringWithAggregatesFilter<"NoteSchedule"> | string
+  runAt?: Prisma.DateTimeWithAggregatesFilter<"NoteSchedule"> | Date | string
+  status?: Prisma.StringWithAggregatesFilter<"NoteSchedule"> | string
+  error?: Prisma.StringNullableWithAggregatesFilter<"NoteSchedule"> | string | null
+  userId?: Prisma.IntNullableWithAggregatesFilter<"NoteSchedule"> | number | null
+  username?: Prisma.StringNullableWithAggregatesFilter<"NoteSchedule"> | string | null
+  executedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"NoteSchedule"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"NoteSchedule"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"NoteSchedule"> | Date | string
+}
+
+export type NoteScheduleCreateInput = {
+  id?: bigint | number
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  noteInfo: Prisma.NoteInfoCreateNestedOneWithoutSchedulesInput
+  noteContent?: Prisma.NoteContentCreateNestedOneWithoutSchedulesInput
+}
+
+export type NoteScheduleUncheckedCreateInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  noteContentId?: bigint | number | null
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutSchedulesNestedInput
+  noteContent?: Prisma.NoteContentUpdateOneWithoutSchedulesNestedInput
+}
+
+export type NoteScheduleUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleCreateManyInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  noteContentId?: bigint | number | null
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleListRelationFilter = {
+  every?: Prisma.NoteScheduleWhereInput
+  some?: Prisma.NoteScheduleWhereInput
+  none?: Prisma.NoteScheduleWhereInput
+}
+
+export type NoteScheduleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NoteScheduleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  executedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteScheduleAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type NoteScheduleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  executedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteScheduleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  executedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteScheduleSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type NoteScheduleCreateNestedManyWithoutNoteInfoInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput> | Prisma.NoteScheduleCreateWithoutNoteInfoInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteInfoInputEnvelope
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+}
+
+export type NoteScheduleUncheckedCreateNestedManyWithoutNoteInfoInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput> | Prisma.NoteScheduleCreateWithoutNoteInfoInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteInfoInputEnvelope
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+}
+
+export type NoteScheduleUpdateManyWithoutNoteInfoNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput> | Prisma.NoteScheduleCreateWithoutNoteInfoInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput[]
+  upsert?: Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteInfoInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteInfoInputEnvelope
+  set?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  disconnect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  delete?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  update?: Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteInfoInput[]
+  updateMany?: Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteInfoInput | Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteInfoInput[]
+  deleteMany?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+}
+
+export type NoteScheduleUncheckedUpdateManyWithoutNoteInfoNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput> | Prisma.NoteScheduleCreateWithoutNoteInfoInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteInfoInput[]
+  upsert?: Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteInfoInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteInfoInputEnvelope
+  set?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  disconnect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  delete?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  update?: Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteInfoInput | Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteInfoInput[]
+  updateMany?: Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteInfoInput | Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteInfoInput[]
+  deleteMany?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+}
+
+export type NoteScheduleCreateNestedManyWithoutNoteContentInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput> | Prisma.NoteScheduleCreateWithoutNoteContentInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteContentInputEnvelope
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+}
+
+export type NoteScheduleUncheckedCreateNestedManyWithoutNoteContentInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput> | Prisma.NoteScheduleCreateWithoutNoteContentInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteContentInputEnvelope
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+}
+
+export type NoteScheduleUpdateManyWithoutNoteContentNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput> | Prisma.NoteScheduleCreateWithoutNoteContentInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput[]
+  upsert?: Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteContentInput | Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteContentInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteContentInputEnvelope
+  set?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  disconnect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  delete?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  update?: Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteContentInput | Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteContentInput[]
+  updateMany?: Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteContentInput | Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteContentInput[]
+  deleteMany?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+}
+
+export type NoteScheduleUncheckedUpdateManyWithoutNoteContentNestedInput = {
+  create?: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput> | Prisma.NoteScheduleCreateWithoutNoteContentInput[] | Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput[]
+  connectOrCreate?: Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput | Prisma.NoteScheduleCreateOrConnectWithoutNoteContentInput[]
+  upsert?: Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteContentInput | Prisma.NoteScheduleUpsertWithWhereUniqueWithoutNoteContentInput[]
+  createMany?: Prisma.NoteScheduleCreateManyNoteContentInputEnvelope
+  set?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  disconnect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  delete?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  connect?: Prisma.NoteScheduleWhereUniqueInput | Prisma.NoteScheduleWhereUniqueInput[]
+  update?: Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteContentInput | Prisma.NoteScheduleUpdateWithWhereUniqueWithoutNoteContentInput[]
+  updateMany?: Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteContentInput | Prisma.NoteScheduleUpdateManyWithWhereWithoutNoteContentInput[]
+  deleteMany?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+}
+
+export type NoteScheduleCreateWithoutNoteInfoInput = {
+  id?: bigint | number
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  noteContent?: Prisma.NoteContentCreateNestedOneWithoutSchedulesInput
+}
+
+export type NoteScheduleUncheckedCreateWithoutNoteInfoInput = {
+  id?: bigint | number
+  noteContentId?: bigint | number | null
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleCreateOrConnectWithoutNoteInfoInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput>
+}
+
+export type NoteScheduleCreateManyNoteInfoInputEnvelope = {
+  data: Prisma.NoteScheduleCreateManyNoteInfoInput | Prisma.NoteScheduleCreateManyNoteInfoInput[]
+  skipDuplicates?: boolean
+}
+
+export type NoteScheduleUpsertWithWhereUniqueWithoutNoteInfoInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  update: Prisma.XOR<Prisma.NoteScheduleUpdateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedUpdateWithoutNoteInfoInput>
+  create: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteInfoInput>
+}
+
+export type NoteScheduleUpdateWithWhereUniqueWithoutNoteInfoInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateWithoutNoteInfoInput, Prisma.NoteScheduleUncheckedUpdateWithoutNoteInfoInput>
+}
+
+export type NoteScheduleUpdateManyWithWhereWithoutNoteInfoInput = {
+  where: Prisma.NoteScheduleScalarWhereInput
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateManyMutationInput, Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteInfoInput>
+}
+
+export type NoteScheduleScalarWhereInput = {
+  AND?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+  OR?: Prisma.NoteScheduleScalarWhereInput[]
+  NOT?: Prisma.NoteScheduleScalarWhereInput | Prisma.NoteScheduleScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"NoteSchedule"> | bigint | number
+  noteInfoId?: Prisma.BigIntFilter<"NoteSchedule"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableFilter<"NoteSchedule"> | bigint | number | null
+  action?: Prisma.StringFilter<"NoteSchedule"> | string
+  runAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  status?: Prisma.StringFilter<"NoteSchedule"> | string
+  error?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  userId?: Prisma.IntNullableFilter<"NoteSchedule"> | number | null
+  username?: Prisma.StringNullableFilter<"NoteSchedule"> | string | null
+  executedAt?: Prisma.DateTimeNullableFilter<"NoteSchedule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"NoteSchedule"> | Date | string
+}
+
+export type NoteScheduleCreateWithoutNoteContentInput = {
+  id?: bigint | number
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  noteInfo: Prisma.NoteInfoCreateNestedOneWithoutSchedulesInput
+}
+
+export type NoteScheduleUncheckedCreateWithoutNoteContentInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleCreateOrConnectWithoutNoteContentInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  create: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput>
+}
+
+export type NoteScheduleCreateManyNoteContentInputEnvelope = {
+  data: Prisma.NoteScheduleCreateManyNoteContentInput | Prisma.NoteScheduleCreateManyNoteContentInput[]
+  skipDuplicates?: boolean
+}
+
+export type NoteScheduleUpsertWithWhereUniqueWithoutNoteContentInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  update: Prisma.XOR<Prisma.NoteScheduleUpdateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedUpdateWithoutNoteContentInput>
+  create: Prisma.XOR<Prisma.NoteScheduleCreateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedCreateWithoutNoteContentInput>
+}
+
+export type NoteScheduleUpdateWithWhereUniqueWithoutNoteContentInput = {
+  where: Prisma.NoteScheduleWhereUniqueInput
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateWithoutNoteContentInput, Prisma.NoteScheduleUncheckedUpdateWithoutNoteContentInput>
+}
+
+export type NoteScheduleUpdateManyWithWhereWithoutNoteContentInput = {
+  where: Prisma.NoteScheduleScalarWhereInput
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateManyMutationInput, Prisma.NoteScheduleUncheckedUpdateManyWithoutNoteContentInput>
+}
+
+export type NoteScheduleCreateManyNoteInfoInput = {
+  id?: bigint | number
+  noteContentId?: bigint | number | null
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleUpdateWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteContent?: Prisma.NoteContentUpdateOneWithoutSchedulesNestedInput
+}
+
+export type NoteScheduleUncheckedUpdateWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleUncheckedUpdateManyWithoutNoteInfoInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleCreateManyNoteContentInput = {
+  id?: bigint | number
+  noteInfoId: bigint | number
+  action: string
+  runAt: Date | string
+  status?: string
+  error?: string | null
+  userId?: number | null
+  username?: string | null
+  executedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type NoteScheduleUpdateWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutSchedulesNestedInput
+}
+
+export type NoteScheduleUncheckedUpdateWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteScheduleUncheckedUpdateManyWithoutNoteContentInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  action?: Prisma.StringFieldUpdateOperationsInput | string
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.StringFieldUpdateOperationsInput | string
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  executedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type NoteScheduleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  action?: boolean
+  runAt?: boolean
+  status?: boolean
+  error?: boolean
+  userId?: boolean
+  username?: boolean
+  executedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}, ExtArgs["result"]["noteSchedule"]>
+
+export type NoteScheduleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  action?: boolean
+  runAt?: boolean
+  status?: boolean
+  error?: boolean
+  userId?: boolean
+  username?: boolean
+  executedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}, ExtArgs["result"]["noteSchedule"]>
+
+export type NoteScheduleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  action?: boolean
+  runAt?: boolean
+  status?: boolean
+  error?: boolean
+  userId?: boolean
+  username?: boolean
+  executedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}, ExtArgs["result"]["noteSchedule"]>
+
+export type NoteScheduleSelectScalar = {
+  id?: boolean
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  action?: boolean
+  runAt?: boolean
+  status?: boolean
+  error?: boolean
+  userId?: boolean
+  username?: boolean
+  executedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type NoteScheduleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "noteInfoId" | "noteContentId" | "action" | "runAt" | "status" | "error" | "userId" | "username" | "executedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["noteSchedule"]>
+export type NoteScheduleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}
+export type NoteScheduleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}
+export type NoteScheduleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+  noteContent?: boolean | Prisma.NoteSchedule$noteContentArgs<ExtArgs>
+}
+
+export type $NoteSchedulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "NoteSchedule"
+  objects: {
+    noteInfo: Prisma.$NoteInfoPayload<ExtArgs>
+    noteContent: Prisma.$NoteContentPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    noteInfoId: bigint
+    noteContentId: bigint | null
+    action: string
+    runAt: Date
+    status: string
+    error: string | null
+    userId: number | null
+    username: string | null
+    executedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["noteSchedule"]>
+  composites: {}
+}
+
+export type NoteScheduleGetPayload<S extends boolean | null | undefined | NoteScheduleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload, S>
+
+export type NoteScheduleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<NoteScheduleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: NoteScheduleCountAggregateInputType | true
+  }
+
+export interface NoteScheduleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['NoteSchedule'], meta: { name: 'NoteSchedule' } }
+  /**
+   * Find zero or one NoteSchedule that matches the filter.
+   * @param {NoteScheduleFindUniqueArgs} args - Arguments to find a NoteSchedule
+   * @example
+   * // Get one NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends NoteScheduleFindUniqueArgs>(args: Prisma.SelectSubset<T, NoteScheduleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one NoteSchedule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {NoteScheduleFindUniqueOrThrowArgs} args - Arguments to find a NoteSchedule
+   * @example
+   * // Get one NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends NoteScheduleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, NoteScheduleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteSchedule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleFindFirstArgs} args - Arguments to find a NoteSchedule
+   * @example
+   * // Get one NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends NoteScheduleFindFirstArgs>(args?: Prisma.SelectSubset<T, NoteScheduleFindFirstArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteSchedule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleFindFirstOrThrowArgs} args - Arguments to find a NoteSchedule
+   * @example
+   * // Get one NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends NoteScheduleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, NoteScheduleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more NoteSchedules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all NoteSchedules
+   * const noteSchedules = await prisma.noteSchedule.findMany()
+   * 
+   * // Get first 10 NoteSchedules
+   * const noteSchedules = await prisma.noteSchedule.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const noteScheduleWithIdOnly = await prisma.noteSchedule.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends NoteScheduleFindManyArgs>(args?: Prisma.SelectSubset<T, NoteScheduleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a NoteSchedule.
+   * @param {NoteScheduleCreateArgs} args - Arguments to create a NoteSchedule.
+   * @example
+   * // Create one NoteSchedule
+   * const NoteSchedule = await prisma.noteSchedule.create({
+   *   data: {
+   *     // ... data to create a NoteSchedule
+   *   }
+   * })
+   * 
+   */
+  create<T extends NoteScheduleCreateArgs>(args: Prisma.SelectSubset<T, NoteScheduleCreateArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many NoteSchedules.
+   * @param {NoteScheduleCreateManyArgs} args - Arguments to create many NoteSchedules.
+   * @example
+   * // Create many NoteSchedules
+   * const noteSchedule = await prisma.noteSchedule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends NoteScheduleCreateManyArgs>(args?: Prisma.SelectSubset<T, NoteScheduleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many NoteSchedules and returns the data saved in the database.
+   * @param {NoteScheduleCreateManyAndReturnArgs} args - Arguments to create many NoteSchedules.
+   * @example
+   * // Create many NoteSchedules
+   * const noteSchedule = await prisma.noteSchedule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many NoteSchedules and only return the `id`
+   * const noteScheduleWithIdOnly = await prisma.noteSchedule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends NoteScheduleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, NoteScheduleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a NoteSchedule.
+   * @param {NoteScheduleDeleteArgs} args - Arguments to delete one NoteSchedule.
+   * @example
+   * // Delete one NoteSchedule
+   * const NoteSchedule = await prisma.noteSchedule.delete({
+   *   where: {
+   *     // ... filter to delete one NoteSchedule
+   *   }
+   * })
+   * 
+   */
+  delete<T extends NoteScheduleDeleteArgs>(args: Prisma.SelectSubset<T, NoteScheduleDeleteArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one NoteSchedule.
+   * @param {NoteScheduleUpdateArgs} args - Arguments to update one NoteSchedule.
+   * @example
+   * // Update one NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends NoteScheduleUpdateArgs>(args: Prisma.SelectSubset<T, NoteScheduleUpdateArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more NoteSchedules.
+   * @param {NoteScheduleDeleteManyArgs} args - Arguments to filter NoteSchedules to delete.
+   * @example
+   * // Delete a few NoteSchedules
+   * const { count } = await prisma.noteSchedule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends NoteScheduleDeleteManyArgs>(args?: Prisma.SelectSubset<T, NoteScheduleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteSchedules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many NoteSchedules
+   * const noteSchedule = await prisma.noteSchedule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends NoteScheduleUpdateManyArgs>(args: Prisma.SelectSubset<T, NoteScheduleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteSchedules and returns the data updated in the database.
+   * @param {NoteScheduleUpdateManyAndReturnArgs} args - Arguments to update many NoteSchedules.
+   * @example
+   * // Update many NoteSchedules
+   * const noteSchedule = await prisma.noteSchedule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more NoteSchedules and only return the `id`
+   * const noteScheduleWithIdOnly = await prisma.noteSchedule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends NoteScheduleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, NoteScheduleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one NoteSchedule.
+   * @param {NoteScheduleUpsertArgs} args - Arguments to update or create a NoteSchedule.
+   * @example
+   * // Update or create a NoteSchedule
+   * const noteSchedule = await prisma.noteSchedule.upsert({
+   *   create: {
+   *     // ... data to create a NoteSchedule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the NoteSchedule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends NoteScheduleUpsertArgs>(args: Prisma.SelectSubset<T, NoteScheduleUpsertArgs<ExtArgs>>): Prisma.Prisma__NoteScheduleClient<runtime.Types.Result.GetResult<Prisma.$NoteSchedulePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of NoteSchedules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleCountArgs} args - Arguments to filter NoteSchedules to count.
+   * @example
+   * // Count the number of NoteSchedules
+   * const count = await prisma.noteSchedule.count({
+   *   where: {
+   *     // ... the filter for the NoteSchedules we want to count
+   *   }
+   * })
+  **/
+  count<T extends NoteScheduleCountArgs>(
+    args?: Prisma.Subset<T, NoteScheduleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], NoteScheduleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a NoteSchedule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends NoteScheduleAggregateArgs>(args: Prisma.Subset<T, NoteScheduleAggregateArgs>): Prisma.PrismaPromise<GetNoteScheduleAggregateType<T>>
+
+  /**
+   * Group by NoteSchedule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteScheduleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends NoteScheduleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: NoteScheduleGroupByArgs['orderBy'] }
+      : { orderBy?: NoteScheduleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, NoteScheduleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetNoteScheduleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the NoteSchedule model
+ */
+readonly fields: NoteScheduleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for NoteSchedule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__NoteScheduleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  noteInfo<T extends Prisma.NoteInfoDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfoDefaultArgs<ExtArgs>>): Prisma.Prisma__NoteInfoClient<runtime.Types.Result.GetResult<Prisma.$NoteInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  noteContent<T extends Prisma.NoteSchedule$noteContentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteSchedule$noteContentArgs<ExtArgs>>): Prisma.Prisma__NoteContentClient<runtime.Types.Result.GetResult<Prisma.$NoteContentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the NoteSchedule model
+ */
+export interface NoteScheduleFieldRefs {
+  readonly id: Prisma.FieldRef<"NoteSchedule", 'BigInt'>
+  readonly noteInfoId: Prisma.FieldRef<"NoteSchedule", 'BigInt'>
+  readonly noteContentId: Prisma.FieldRef<"NoteSchedule", 'BigInt'>
+  readonly action: Prisma.FieldRef<"NoteSchedule", 'String'>
+  readonly runAt: Prisma.FieldRef<"NoteSchedule", 'DateTime'>
+  readonly status: Prisma.FieldRef<"NoteSchedule", 'String'>
+  readonly error: Prisma.FieldRef<"NoteSchedule", 'String'>
+  readonly userId: Prisma.FieldRef<"NoteSchedule", 'Int'>
+  readonly username: Prisma.FieldRef<"NoteSchedule", 'String'>
+  readonly executedAt: Prisma.FieldRef<"NoteSchedule", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"NoteSchedule", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"NoteSchedule", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * NoteSchedule findUnique
+ */
+export type NoteScheduleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSchedule to fetch.
+   */
+  where: Prisma.NoteScheduleWhereUniqueInput
+}
+
+/**
+ * NoteSchedule findUniqueOrThrow
+ */
+export type NoteScheduleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSchedule to fetch.
+   */
+  where: Prisma.NoteScheduleWhereUniqueInput
+}
+
+/**
+ * NoteSchedule findFirst
+ */
+export type NoteScheduleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSchedule to fetch.
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSchedules to fetch.
+   */
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteSchedules.
+   */
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSchedules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSchedules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteSchedules.
+   */
+  distinct?: Prisma.NoteScheduleScalarFieldEnum | Prisma.NoteScheduleScalarFieldEnum[]
+}
+
+/**
+ * NoteSchedule findFirstOrThrow
+ */
+export type NoteScheduleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSchedule to fetch.
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSchedules to fetch.
+   */
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteSchedules.
+   */
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSchedules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSchedules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteSchedules.
+   */
+  distinct?: Prisma.NoteScheduleScalarFieldEnum | Prisma.NoteScheduleScalarFieldEnum[]
+}
+
+/**
+ * NoteSchedule findMany
+ */
+export type NoteScheduleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSchedules to fetch.
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSchedules to fetch.
+   */
+  orderBy?: Prisma.NoteScheduleOrderByWithRelationInput | Prisma.NoteScheduleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing NoteSchedules.
+   */
+  cursor?: Prisma.NoteScheduleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSchedules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSchedules.
+   */
+  skip?: number
+  distinct?: Prisma.NoteScheduleScalarFieldEnum | Prisma.NoteScheduleScalarFieldEnum[]
+}
+
+/**
+ * NoteSchedule create
+ */
+export type NoteScheduleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a NoteSchedule.
+   */
+  data: Prisma.XOR<Prisma.NoteScheduleCreateInput, Prisma.NoteScheduleUncheckedCreateInput>
+}
+
+/**
+ * NoteSchedule createMany
+ */
+export type NoteScheduleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many NoteSchedules.
+   */
+  data: Prisma.NoteScheduleCreateManyInput | Prisma.NoteScheduleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * NoteSchedule createManyAndReturn
+ */
+export type NoteScheduleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * The data used to create many NoteSchedules.
+   */
+  data: Prisma.NoteScheduleCreateManyInput | Prisma.NoteScheduleCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteSchedule update
+ */
+export type NoteScheduleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a NoteSchedule.
+   */
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateInput, Prisma.NoteScheduleUncheckedUpdateInput>
+  /**
+   * Choose, which NoteSchedule to update.
+   */
+  where: Prisma.NoteScheduleWhereUniqueInput
+}
+
+/**
+ * NoteSchedule updateMany
+ */
+export type NoteScheduleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update NoteSchedules.
+   */
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateManyMutationInput, Prisma.NoteScheduleUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteSchedules to update
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * Limit how many NoteSchedules to update.
+   */
+  limit?: number
+}
+
+/**
+ * NoteSchedule updateManyAndReturn
+ */
+export type NoteScheduleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * The data used to update NoteSchedules.
+   */
+  data: Prisma.XOR<Prisma.NoteScheduleUpdateManyMutationInput, Prisma.NoteScheduleUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteSchedules to update
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * Limit how many NoteSchedules to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteSchedule upsert
+ */
+export type NoteScheduleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the NoteSchedule to update in case it exists.
+   */
+  where: Prisma.NoteScheduleWhereUniqueInput
+  /**
+   * In case the NoteSchedule found by the `where` argument doesn't exist, create a new NoteSchedule with this data.
+   */
+  create: Prisma.XOR<Prisma.NoteScheduleCreateInput, Prisma.NoteScheduleUncheckedCreateInput>
+  /**
+   * In case the NoteSchedule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.NoteScheduleUpdateInput, Prisma.NoteScheduleUncheckedUpdateInput>
+}
+
+/**
+ * NoteSchedule delete
+ */
+export type NoteScheduleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+  /**
+   * Filter which NoteSchedule to delete.
+   */
+  where: Prisma.NoteScheduleWhereUniqueInput
+}
+
+/**
+ * NoteSchedule deleteMany
+ */
+export type NoteScheduleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteSchedules to delete
+   */
+  where?: Prisma.NoteScheduleWhereInput
+  /**
+   * Limit how many NoteSchedules to delete.
+   */
+  limit?: number
+}
+
+/**
+ * NoteSchedule.noteContent
+ */
+export type NoteSchedule$noteContentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteContent
+   */
+  select?: Prisma.NoteContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteContent
+   */
+  omit?: Prisma.NoteContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteContentInclude<ExtArgs> | null
+  where?: Prisma.NoteContentWhereInput
+}
+
+/**
+ * NoteSchedule without action
+ */
+export type NoteScheduleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSchedule
+   */
+  select?: Prisma.NoteScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSchedule
+   */
+  omit?: Prisma.NoteScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteScheduleInclude<ExtArgs> | null
+}
@@ -0,0 +1,1114 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `NoteSearchIndex` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model NoteSearchIndex
+ * 笔记全文检索索引表：存储笔记标题与主显示版本正文的分词向量（schema: docs）
+ * 中文按二元组（bigram）预分词后使用 simple 配置生成 tsvector，由应用层维护
+ */
+export type NoteSearchIndexModel = runtime.Types.Result.DefaultSelection<Prisma.$NoteSearchIndexPayload>
+
+export type AggregateNoteSearchIndex = {
+  _count: NoteSearchIndexCountAggregateOutputType | null
+  _avg: NoteSearchIndexAvgAggregateOutputType | null
+  _sum: NoteSearchIndexSumAggregateOutputType | null
+  _min: NoteSearchIndexMinAggregateOutputType | null
+  _max: NoteSearchIndexMaxAggregateOutputType | null
+}
+
+export type NoteSearchIndexAvgAggregateOutputType = {
+  noteInfoId: number | null
+  noteContentId: number | null
+}
+
+export type NoteSearchIndexSumAggregateOutputType = {
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+}
+
+export type NoteSearchIndexMinAggregateOutputType = {
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  title: string | null
+  body: string | null
+  updatedAt: Date | null
+}
+
+export type NoteSearchIndexMaxAggregateOutputType = {
+  noteInfoId: bigint | null
+  noteContentId: bigint | null
+  title: string | null
+  body: string | null
+  updatedAt: Date | null
+}
+
+export type NoteSearchIndexCountAggregateOutputType = {
+  noteInfoId: number
+  noteContentId: number
+  title: number
+  body: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type NoteSearchIndexAvgAggregateInputType = {
+  noteInfoId?: true
+  noteContentId?: true
+}
+
+export type NoteSearchIndexSumAggregateInputType = {
+  noteInfoId?: true
+  noteContentId?: true
+}
+
+export type NoteSearchIndexMinAggregateInputType = {
+  noteInfoId?: true
+  noteContentId?: true
+  title?: true
+  body?: true
+  updatedAt?: true
+}
+
+export type NoteSearchIndexMaxAggregateInputType = {
+  noteInfoId?: true
+  noteContentId?: true
+  title?: true
+  body?: true
+  updatedAt?: true
+}
+
+export type NoteSearchIndexCountAggregateInputType = {
+  noteInfoId?: true
+  noteContentId?: true
+  title?: true
+  body?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type NoteSearchIndexAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteSearchIndex to aggregate.
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSearchIndices to fetch.
+   */
+  orderBy?: Prisma.NoteSearchIndexOrderByWithRelationInput | Prisma.NoteSearchIndexOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.NoteSearchIndexWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSearchIndices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSearchIndices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned NoteSearchIndices
+  **/
+  _count?: true | NoteSearchIndexCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: NoteSearchIndexAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: NoteSearchIndexSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: NoteSearchIndexMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: NoteSearchIndexMaxAggregateInputType
+}
+
+export type GetNoteSearchIndexAggregateType<T extends NoteSearchIndexAggregateArgs> = {
+      [P in keyof T & keyof AggregateNoteSearchIndex]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateNoteSearchIndex[P]>
+    : Prisma.GetScalarType<T[P], AggregateNoteSearchIndex[P]>
+}
+
+
+
+
+export type NoteSearchIndexGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NoteSearchIndexWhereInput
+  orderBy?: Prisma.NoteSearchIndexOrderByWithAggregationInput | Prisma.NoteSearchIndexOrderByWithAggregationInput[]
+  by: Prisma.NoteSearchIndexScalarFieldEnum[] | Prisma.NoteSearchIndexScalarFieldEnum
+  having?: Prisma.NoteSearchIndexScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: NoteSearchIndexCountAggregateInputType | true
+  _avg?: NoteSearchIndexAvgAggregateInputType
+  _sum?: NoteSearchIndexSumAggregateInputType
+  _min?: NoteSearchIndexMinAggregateInputType
+  _max?: NoteSearchIndexMaxAggregateInputType
+}
+
+export type NoteSearchIndexGroupByOutputType = {
+  noteInfoId: bigint
+  noteContentId: bigint | null
+  title: string
+  body: string
+  updatedAt: Date
+  _count: NoteSearchIndexCountAggregateOutputType | null
+  _avg: NoteSearchIndexAvgAggregateOutputType | null
+  _sum: NoteSearchIndexSumAggregateOutputType | null
+  _min: NoteSearchIndexMinAggregateOutputType | null
+  _max: NoteSearchIndexMaxAggregateOutputType | null
+}
+
+type GetNoteSearchIndexGroupByPayload<T extends NoteSearchIndexGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<NoteSearchIndexGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof NoteSearchIndexGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], NoteSearchIndexGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], NoteSearchIndexGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type NoteSearchIndexWhereInput = {
+  AND?: Prisma.NoteSearchIndexWhereInput | Prisma.NoteSearchIndexWhereInput[]
+  OR?: Prisma.NoteSearchIndexWhereInput[]
+  NOT?: Prisma.NoteSearchIndexWhereInput | Prisma.NoteSearchIndexWhereInput[]
+  noteInfoId?: Prisma.BigIntFilter<"NoteSearchIndex"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableFilter<"NoteSearchIndex"> | bigint | number | null
+  title?: Prisma.StringFilter<"NoteSearchIndex"> | string
+  body?: Prisma.StringFilter<"NoteSearchIndex"> | string
+  updatedAt?: Prisma.DateTimeFilter<"NoteSearchIndex"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+}
+
+export type NoteSearchIndexOrderByWithRelationInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  noteInfo?: Prisma.NoteInfoOrderByWithRelationInput
+}
+
+export type NoteSearchIndexWhereUniqueInput = Prisma.AtLeast<{
+  noteInfoId?: bigint | number
+  AND?: Prisma.NoteSearchIndexWhereInput | Prisma.NoteSearchIndexWhereInput[]
+  OR?: Prisma.NoteSearchIndexWhereInput[]
+  NOT?: Prisma.NoteSearchIndexWhereInput | Prisma.NoteSearchIndexWhereInput[]
+  noteContentId?: Prisma.BigIntNullableFilter<"NoteSearchIndex"> | bigint | number | null
+  title?: Prisma.StringFilter<"NoteSearchIndex"> | string
+  body?: Prisma.StringFilter<"NoteSearchIndex"> | string
+  updatedAt?: Prisma.DateTimeFilter<"NoteSearchIndex"> | Date | string
+  noteInfo?: Prisma.XOR<Prisma.NoteInfoScalarRelationFilter, Prisma.NoteInfoWhereInput>
+}, "noteInfoId">
+
+export type NoteSearchIndexOrderByWithAggregationInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.NoteSearchIndexCountOrderByAggregateInput
+  _avg?: Prisma.NoteSearchIndexAvgOrderByAggregateInput
+  _max?: Prisma.NoteSearchIndexMaxOrderByAggregateInput
+  _min?: Prisma.NoteSearchIndexMinOrderByAggregateInput
+  _sum?: Prisma.NoteSearchIndexSumOrderByAggregateInput
+}
+
+export type NoteSearchIndexScalarWhereWithAggregatesInput = {
+  AND?: Prisma.NoteSearchIndexScalarWhereWithAggregatesInput | Prisma.NoteSearchIndexScalarWhereWithAggregatesInput[]
+  OR?: Prisma.NoteSearchIndexScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.NoteSearchIndexScalarWhereWithAggregatesInput | Prisma.NoteSearchIndexScalarWhereWithAggregatesInput[]
+  noteInfoId?: Prisma.BigIntWithAggregatesFilter<"NoteSearchIndex"> | bigint | number
+  noteContentId?: Prisma.BigIntNullableWithAggregatesFilter<"NoteSearchIndex"> | bigint | number | null
+  title?: Prisma.StringWithAggregatesFilter<"NoteSearchIndex"> | string
+  body?: Prisma.StringWithAggregatesFilter<"NoteSearchIndex"> | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"NoteSearchIndex"> | Date | string
+}
+
+export type NoteSearchIndexUpdateInput = {
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  noteInfo?: Prisma.NoteInfoUpdateOneRequiredWithoutSearchIndexNestedInput
+}
+
+export type NoteSearchIndexUncheckedUpdateInput = {
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteSearchIndexUpdateManyMutationInput = {
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteSearchIndexUncheckedUpdateManyInput = {
+  noteInfoId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteSearchIndexNullableScalarRelationFilter = {
+  is?: Prisma.NoteSearchIndexWhereInput | null
+  isNot?: Prisma.NoteSearchIndexWhereInput | null
+}
+
+export type NoteSearchIndexCountOrderByAggregateInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteSearchIndexAvgOrderByAggregateInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+}
+
+export type NoteSearchIndexMaxOrderByAggregateInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteSearchIndexMinOrderByAggregateInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type NoteSearchIndexSumOrderByAggregateInput = {
+  noteInfoId?: Prisma.SortOrder
+  noteContentId?: Prisma.SortOrder
+}
+
+export type NoteSearchIndexCreateNestedOneWithoutNoteInfoInput = {
+  connect?: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+export type NoteSearchIndexUncheckedCreateNestedOneWithoutNoteInfoInput = {
+  connect?: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+export type NoteSearchIndexUpdateOneWithoutNoteInfoNestedInput = {
+  disconnect?: Prisma.NoteSearchIndexWhereInput | boolean
+  delete?: Prisma.NoteSearchIndexWhereInput | boolean
+  connect?: Prisma.NoteSearchIndexWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteSearchIndexUpdateToOneWithWhereWithoutNoteInfoInput, Prisma.NoteSearchIndexUpdateWithoutNoteInfoInput>, Prisma.NoteSearchIndexUncheckedUpdateWithoutNoteInfoInput>
+}
+
+export type NoteSearchIndexUncheckedUpdateOneWithoutNoteInfoNestedInput = {
+  disconnect?: Prisma.NoteSearchIndexWhereInput | boolean
+  delete?: Prisma.NoteSearchIndexWhereInput | boolean
+  connect?: Prisma.NoteSearchIndexWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.NoteSearchIndexUpdateToOneWithWhereWithoutNoteInfoInput, Prisma.NoteSearchIndexUpdateWithoutNoteInfoInput>, Prisma.NoteSearchIndexUncheckedUpdateWithoutNoteInfoInput>
+}
+
+export type NoteSearchIndexUpdateToOneWithWhereWithoutNoteInfoInput = {
+  where?: Prisma.NoteSearchIndexWhereInput
+  data: Prisma.XOR<Prisma.NoteSearchIndexUpdateWithoutNoteInfoInput, Prisma.NoteSearchIndexUncheckedUpdateWithoutNoteInfoInput>
+}
+
+export type NoteSearchIndexUpdateWithoutNoteInfoInput = {
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NoteSearchIndexUncheckedUpdateWithoutNoteInfoInput = {
+  noteContentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type NoteSearchIndexSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  title?: boolean
+  body?: boolean
+  updatedAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteSearchIndex"]>
+
+
+export type NoteSearchIndexSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  title?: boolean
+  body?: boolean
+  updatedAt?: boolean
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["noteSearchIndex"]>
+
+export type NoteSearchIndexSelectScalar = {
+  noteInfoId?: boolean
+  noteContentId?: boolean
+  title?: boolean
+  body?: boolean
+  updatedAt?: boolean
+}
+
+export type NoteSearchIndexOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"noteInfoId" | "noteContentId" | "title" | "body" | "updatedAt", ExtArgs["result"]["noteSearchIndex"]>
+export type NoteSearchIndexInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}
+export type NoteSearchIndexIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  noteInfo?: boolean | Prisma.NoteInfoDefaultArgs<ExtArgs>
+}
+
+export type $NoteSearchIndexPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "NoteSearchIndex"
+  objects: {
+    noteInfo: Prisma.$NoteInfoPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    noteInfoId: bigint
+    noteContentId: bigint | null
+    title: string
+    body: string
+    updatedAt: Date
+  }, ExtArgs["result"]["noteSearchIndex"]>
+  composites: {}
+}
+
+export type NoteSearchIndexGetPayload<S extends boolean | null | undefined | NoteSearchIndexDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload, S>
+
+export type NoteSearchIndexCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<NoteSearchIndexFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: NoteSearchIndexCountAggregateInputType | true
+  }
+
+export interface NoteSearchIndexDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['NoteSearchIndex'], meta: { name: 'NoteSearchIndex' } }
+  /**
+   * Find zero or one NoteSearchIndex that matches the filter.
+   * @param {NoteSearchIndexFindUniqueArgs} args - Arguments to find a NoteSearchIndex
+   * @example
+   * // Get one NoteSearchIndex
+   * const noteSearchIndex = await prisma.noteSearchIndex.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends NoteSearchIndexFindUniqueArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexFindUniqueArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one NoteSearchIndex that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {NoteSearchIndexFindUniqueOrThrowArgs} args - Arguments to find a NoteSearchIndex
+   * @example
+   * // Get one NoteSearchIndex
+   * const noteSearchIndex = await prisma.noteSearchIndex.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends NoteSearchIndexFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteSearchIndex that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexFindFirstArgs} args - Arguments to find a NoteSearchIndex
+   * @example
+   * // Get one NoteSearchIndex
+   * const noteSearchIndex = await prisma.noteSearchIndex.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends NoteSearchIndexFindFirstArgs>(args?: Prisma.SelectSubset<T, NoteSearchIndexFindFirstArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first NoteSearchIndex that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexFindFirstOrThrowArgs} args - Arguments to find a NoteSearchIndex
+   * @example
+   * // Get one NoteSearchIndex
+   * const noteSearchIndex = await prisma.noteSearchIndex.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends NoteSearchIndexFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, NoteSearchIndexFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more NoteSearchIndices that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all NoteSearchIndices
+   * const noteSearchIndices = await prisma.noteSearchIndex.findMany()
+   * 
+   * // Get first 10 NoteSearchIndices
+   * const noteSearchIndices = await prisma.noteSearchIndex.findMany({ take: 10 })
+   * 
+   * // Only select the `noteInfoId`
+   * const noteSearchIndexWithNoteInfoIdOnly = await prisma.noteSearchIndex.findMany({ select: { noteInfoId: true } })
+   * 
+   */
+  findMany<T extends NoteSearchIndexFindManyArgs>(args?: Prisma.SelectSubset<T, NoteSearchIndexFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Delete a NoteSearchIndex.
+   * @param {NoteSearchIndexDeleteArgs} args - Arguments to delete one NoteSearchIndex.
+   * @example
+   * // Delete one NoteSearchIndex
+   * const NoteSearchIndex = await prisma.noteSearchIndex.delete({
+   *   where: {
+   *     // ... filter to delete one NoteSearchIndex
+   *   }
+   * })
+   * 
+   */
+  delete<T extends NoteSearchIndexDeleteArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexDeleteArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one NoteSearchIndex.
+   * @param {NoteSearchIndexUpdateArgs} args - Arguments to update one NoteSearchIndex.
+   * @example
+   * // Update one NoteSearchIndex
+   * const noteSearchIndex = await prisma.noteSearchIndex.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends NoteSearchIndexUpdateArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexUpdateArgs<ExtArgs>>): Prisma.Prisma__NoteSearchIndexClient<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more NoteSearchIndices.
+   * @param {NoteSearchIndexDeleteManyArgs} args - Arguments to filter NoteSearchIndices to delete.
+   * @example
+   * // Delete a few NoteSearchIndices
+   * const { count } = await prisma.noteSearchIndex.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends NoteSearchIndexDeleteManyArgs>(args?: Prisma.SelectSubset<T, NoteSearchIndexDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteSearchIndices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many NoteSearchIndices
+   * const noteSearchIndex = await prisma.noteSearchIndex.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends NoteSearchIndexUpdateManyArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more NoteSearchIndices and returns the data updated in the database.
+   * @param {NoteSearchIndexUpdateManyAndReturnArgs} args - Arguments to update many NoteSearchIndices.
+   * @example
+   * // Update many NoteSearchIndices
+   * const noteSearchIndex = await prisma.noteSearchIndex.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more NoteSearchIndices and only return the `noteInfoId`
+   * const noteSearchIndexWithNoteInfoIdOnly = await prisma.noteSearchIndex.updateManyAndReturn({
+   *   select: { noteInfoId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends NoteSearchIndexUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, NoteSearchIndexUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NoteSearchIndexPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+
+  /**
+   * Count the number of NoteSearchIndices.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexCountArgs} args - Arguments to filter NoteSearchIndices to count.
+   * @example
+   * // Count the number of NoteSearchIndices
+   * const count = await prisma.noteSearchIndex.count({
+   *   where: {
+   *     // ... the filter for the NoteSearchIndices we want to count
+   *   }
+   * })
+  **/
+  count<T extends NoteSearchIndexCountArgs>(
+    args?: Prisma.Subset<T, NoteSearchIndexCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], NoteSearchIndexCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a NoteSearchIndex.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends NoteSearchIndexAggregateArgs>(args: Prisma.Subset<T, NoteSearchIndexAggregateArgs>): Prisma.PrismaPromise<GetNoteSearchIndexAggregateType<T>>
+
+  /**
+   * Group by NoteSearchIndex.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NoteSearchIndexGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends NoteSearchIndexGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: NoteSearchIndexGroupByArgs['orderBy'] }
+      : { orderBy?: NoteSearchIndexGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, NoteSearchIndexGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetNoteSearchIndexGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the NoteSearchIndex model
+ */
+readonly fields: NoteSearchIndexFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for NoteSearchIndex.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__NoteSearchIndexClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  noteInfo<T extends Prisma.NoteInfoDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.NoteInfoDefaultArgs<ExtArgs>>): Prisma.Prisma__NoteInfoClient<runtime.Types.Result.GetResult<Prisma.$NoteInfoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the NoteSearchIndex model
+ */
+export interface NoteSearchIndexFieldRefs {
+  readonly noteInfoId: Prisma.FieldRef<"NoteSearchIndex", 'BigInt'>
+  readonly noteContentId: Prisma.FieldRef<"NoteSearchIndex", 'BigInt'>
+  readonly title: Prisma.FieldRef<"NoteSearchIndex", 'String'>
+  readonly body: Prisma.FieldRef<"NoteSearchIndex", 'String'>
+  readonly updatedAt: Prisma.FieldRef<"NoteSearchIndex", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * NoteSearchIndex findUnique
+ */
+export type NoteSearchIndexFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSearchIndex to fetch.
+   */
+  where: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+/**
+ * NoteSearchIndex findUniqueOrThrow
+ */
+export type NoteSearchIndexFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSearchIndex to fetch.
+   */
+  where: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+/**
+ * NoteSearchIndex findFirst
+ */
+export type NoteSearchIndexFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSearchIndex to fetch.
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSearchIndices to fetch.
+   */
+  orderBy?: Prisma.NoteSearchIndexOrderByWithRelationInput | Prisma.NoteSearchIndexOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteSearchIndices.
+   */
+  cursor?: Prisma.NoteSearchIndexWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSearchIndices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSearchIndices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteSearchIndices.
+   */
+  distinct?: Prisma.NoteSearchIndexScalarFieldEnum | Prisma.NoteSearchIndexScalarFieldEnum[]
+}
+
+/**
+ * NoteSearchIndex findFirstOrThrow
+ */
+export type NoteSearchIndexFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSearchIndex to fetch.
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSearchIndices to fetch.
+   */
+  orderBy?: Prisma.NoteSearchIndexOrderByWithRelationInput | Prisma.NoteSearchIndexOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for NoteSearchIndices.
+   */
+  cursor?: Prisma.NoteSearchIndexWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSearchIndices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSearchIndices.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of NoteSearchIndices.
+   */
+  distinct?: Prisma.NoteSearchIndexScalarFieldEnum | Prisma.NoteSearchIndexScalarFieldEnum[]
+}
+
+/**
+ * NoteSearchIndex findMany
+ */
+export type NoteSearchIndexFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter, which NoteSearchIndices to fetch.
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of NoteSearchIndices to fetch.
+   */
+  orderBy?: Prisma.NoteSearchIndexOrderByWithRelationInput | Prisma.NoteSearchIndexOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing NoteSearchIndices.
+   */
+  cursor?: Prisma.NoteSearchIndexWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` NoteSearchIndices from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` NoteSearchIndices.
+   */
+  skip?: number
+  distinct?: Prisma.NoteSearchIndexScalarFieldEnum | Prisma.NoteSearchIndexScalarFieldEnum[]
+}
+
+/**
+ * NoteSearchIndex update
+ */
+export type NoteSearchIndexUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * The data needed to update a NoteSearchIndex.
+   */
+  data: Prisma.XOR<Prisma.NoteSearchIndexUpdateInput, Prisma.NoteSearchIndexUncheckedUpdateInput>
+  /**
+   * Choose, which NoteSearchIndex to update.
+   */
+  where: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+/**
+ * NoteSearchIndex updateMany
+ */
+export type NoteSearchIndexUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update NoteSearchIndices.
+   */
+  data: Prisma.XOR<Prisma.NoteSearchIndexUpdateManyMutationInput, Prisma.NoteSearchIndexUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteSearchIndices to update
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * Limit how many NoteSearchIndices to update.
+   */
+  limit?: number
+}
+
+/**
+ * NoteSearchIndex updateManyAndReturn
+ */
+export type NoteSearchIndexUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * The data used to update NoteSearchIndices.
+   */
+  data: Prisma.XOR<Prisma.NoteSearchIndexUpdateManyMutationInput, Prisma.NoteSearchIndexUncheckedUpdateManyInput>
+  /**
+   * Filter which NoteSearchIndices to update
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * Limit how many NoteSearchIndices to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * NoteSearchIndex delete
+ */
+export type NoteSearchIndexDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+  /**
+   * Filter which NoteSearchIndex to delete.
+   */
+  where: Prisma.NoteSearchIndexWhereUniqueInput
+}
+
+/**
+ * NoteSearchIndex deleteMany
+ */
+export type NoteSearchIndexDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which NoteSearchIndices to delete
+   */
+  where?: Prisma.NoteSearchIndexWhereInput
+  /**
+   * Limit how many NoteSearchIndices to delete.
+   */
+  limit?: number
+}
+
+/**
+ * NoteSearchIndex without action
+ */
+export type NoteSearchIndexDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NoteSearchIndex
+   */
+  select?: Prisma.NoteSearchIndexSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NoteSearchIndex
+   */
+  omit?: Prisma.NoteSearchIndexOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NoteSearchIndexInclude<ExtArgs> | null
+}
@@ -41,10 +41,16 @@ export type ProjectSumAggregateOutputType = {
 export type ProjectMinAggregateOutputType = {
   id: bigint | null
   projectName: string | null
+  slug: string | null
   avatar: string | null
   weight: number | null
   status: number | null
   requireAuth: boolean | null
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -53,10 +59,16 @@ export type ProjectMinAggregateOutputType = {
 export type ProjectMaxAggregateOutputType = {
   id: bigint | null
   projectName: string | null
+  slug: string | null
   avatar: string | null
   weight: number | null
   status: number | null
   requireAuth: boolean | null
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date | null
   updatedAt: Date | null
   isDeleted: boolean | null
@@ -65,10 +77,16 @@ export type ProjectMaxAggregateOutputType = {
 export type ProjectCountAggregateOutputType = {
   id: number
   projectName: number
+  slug: number
   avatar: number
   weight: number
   status: number
   requireAuth: number
+  seoTitle: number
+  seoDescription: number
+  seoKeywords: number
+  canonicalUrl: number
+  ogImage: number
   createdAt: number
   updatedAt: number
   isDeleted: number
@@ -91,10 +109,16 @@ export type ProjectSumAggregateInputType = {
 export type ProjectMinAggregateInputType = {
   id?: true
   projectName?: true
+  slug?: true
   avatar?: true
   weight?: true
   status?: true
   requireAuth?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -103,10 +127,16 @@ export type ProjectMinAggregateInputType = {
 export type ProjectMaxAggregateInputType = {
   id?: true
   projectName?: true
+  slug?: true
   avatar?: true
   weight?: true
   status?: true
   requireAuth?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -115,10 +145,16 @@ export type ProjectMaxAggregateInputType = {
 export type ProjectCountAggregateInputType = {
   id?: true
   projectName?: true
+  slug?: true
   avatar?: true
   weight?: true
   status?: true
   requireAuth?: true
+  seoTitle?: true
+  seoDescription?: true
+  seoKeywords?: true
+  canonicalUrl?: true
+  ogImage?: true
   createdAt?: true
   updatedAt?: true
   isDeleted?: true
@@ -214,10 +250,16 @@ export type ProjectGroupByArgs<ExtArgs extends runtime.Types.Extensions.Internal
 export type ProjectGroupByOutputType = {
   id: bigint
   projectName: string
+  slug: string | null
   avatar: string | null
   weight: number
   status: number
   requireAuth: boolean
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
   createdAt: Date
   updatedAt: Date
   isDeleted: boolean
@@ -249,10 +291,16 @@ export type ProjectWhereInput = {
   NOT?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
   id?: Prisma.BigIntFilter<"Project"> | bigint | number
   projectName?: Prisma.StringFilter<"Project"> | string
+  slug?: Prisma.StringNullableFilter<"Project"> | string | null
   avatar?: Prisma.StringNullableFilter<"Project"> | string | null
   weight?: Prisma.IntFilter<"Project"> | number
   status?: Prisma.IntFilter<"Project"> | number
   requireAuth?: Prisma.BoolFilter<"Project"> | boolean
+  seoTitle?: Prisma.StringNullableFilter<"Project"> | string | null
+  seoDescription?: Prisma.StringNullableFilter<"Project"> | string | null
+  seoKeywords?: Prisma.StringNullableFilter<"Project"> | string | null
+  canonicalUrl?: Prisma.StringNullableFilter<"Project"> | string | null
+  ogImage?: Prisma.StringNullableFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   isDeleted?: Prisma.BoolFilter<"Project"> | boolean
@@ -264,10 +312,16 @@ export type ProjectWhereInput = {
 export type ProjectOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   projectName?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   avatar?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
   requireAuth?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoDescription?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrderInput | Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  ogImage?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -278,6 +332,7 @@ export type ProjectOrderByWithRelationInput = {
 
 export type ProjectWhereUniqueInput = Prisma.AtLeast<{
   id?: bigint | number
+  slug?: string
   AND?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
   OR?: Prisma.ProjectWhereInput[]
   NOT?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
@@ -286,21 +341,32 @@ export type ProjectWhereUniqueInput = Prisma.AtLeast<{
   weight?: Prisma.IntFilter<"Project"> | number
   status?: Prisma.IntFilter<"Project"> | number
   requireAuth?: Prisma.BoolFilter<"Project"> | boolean
+  seoTitle?: Prisma.StringNullableFilter<"Project"> | string | null
+  seoDescription?: Prisma.StringNullableFilter<"Project"> | string | null
+  seoKeywords?: Prisma.StringNullableFilter<"Project"> | string | null
+  canonicalUrl?: Prisma.StringNullableFilter<"Project"> | string | null
+  ogImage?: Prisma.StringNullableFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
   isDeleted?: Prisma.BoolFilter<"Project"> | boolean
   versions?: Prisma.ProjectVersionListRelationFilter
   menus?: Prisma.ProjectMenuListRelationFilter
   home?: Prisma.XOR<Prisma.ProjectHomeNullableScalarRelationFilter, Prisma.ProjectHomeWhereInput> | null
-}, "id">
+}, "id" | "slug">
 
 export type ProjectOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   projectName?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   avatar?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
   requireAuth?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoDescription?: Prisma.SortOrderInput | Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrderInput | Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  ogImage?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -317,10 +383,16 @@ export type ProjectScalarWhereWithAggregatesInput = {
   NOT?: Prisma.ProjectScalarWhereWithAggregatesInput | Prisma.ProjectScalarWhereWithAggregatesInput[]
   id?: Prisma.BigIntWithAggregatesFilter<"Project"> | bigint | number
   projectName?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  slug?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   avatar?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   weight?: Prisma.IntWithAggregatesFilter<"Project"> | number
   status?: Prisma.IntWithAggregatesFilter<"Project"> | number
   requireAuth?: Prisma.BoolWithAggregatesFilter<"Project"> | boolean
+  seoTitle?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  seoDescription?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  seoKeywords?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  canonicalUrl?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  ogImage?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
   isDeleted?: Prisma.BoolWithAggregatesFilter<"Project"> | boolean
@@ -329,10 +401,16 @@ export type ProjectScalarWhereWithAggregatesInput = {
 export type ProjectCreateInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -344,10 +422,16 @@ export type ProjectCreateInput = {
 export type ProjectUncheckedCreateInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -359,10 +443,16 @@ export type ProjectUncheckedCreateInput = {
 export type ProjectUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -374,10 +464,16 @@ export type ProjectUpdateInput = {
 export type ProjectUncheckedUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -389,10 +485,16 @@ export type ProjectUncheckedUpdateInput = {
 export type ProjectCreateManyInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -401,10 +503,16 @@ export type ProjectCreateManyInput = {
 export type ProjectUpdateManyMutationInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -413,10 +521,16 @@ export type ProjectUpdateManyMutationInput = {
 export type ProjectUncheckedUpdateManyInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -425,10 +539,16 @@ export type ProjectUncheckedUpdateManyInput = {
 export type ProjectCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   avatar?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
   requireAuth?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -443,10 +563,16 @@ export type ProjectAvgOrderByAggregateInput = {
 export type ProjectMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   avatar?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
   requireAuth?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -455,10 +581,16 @@ export type ProjectMaxOrderByAggregateInput = {
 export type ProjectMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectName?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   avatar?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
   requireAuth?: Prisma.SortOrder
+  seoTitle?: Prisma.SortOrder
+  seoDescription?: Prisma.SortOrder
+  seoKeywords?: Prisma.SortOrder
+  canonicalUrl?: Prisma.SortOrder
+  ogImage?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
@@ -532,10 +664,16 @@ export type ProjectUpdateOneRequiredWithoutVersionsNestedInput = {
 export type ProjectCreateWithoutMenusInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -546,10 +684,16 @@ export type ProjectCreateWithoutMenusInput = {
 export type ProjectUncheckedCreateWithoutMenusInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -576,10 +720,16 @@ export type ProjectUpdateToOneWithWhereWithoutMenusInput = {
 export type ProjectUpdateWithoutMenusInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -590,10 +740,16 @@ export type ProjectUpdateWithoutMenusInput = {
 export type ProjectUncheckedUpdateWithoutMenusInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -604,10 +760,16 @@ export type ProjectUncheckedUpdateWithoutMenusInput = {
 export type ProjectCreateWithoutHomeInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -618,10 +780,16 @@ export type ProjectCreateWithoutHomeInput = {
 export type ProjectUncheckedCreateWithoutHomeInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -648,10 +816,16 @@ export type ProjectUpdateToOneWithWhereWithoutHomeInput = {
 export type ProjectUpdateWithoutHomeInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -662,10 +836,16 @@ export type ProjectUpdateWithoutHomeInput = {
 export type ProjectUncheckedUpdateWithoutHomeInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -676,10 +856,16 @@ export type ProjectUncheckedUpdateWithoutHomeInput = {
 export type ProjectCreateWithoutVersionsInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -690,10 +876,16 @@ export type ProjectCreateWithoutVersionsInput = {
 export type ProjectUncheckedCreateWithoutVersionsInput = {
   id?: bigint | number
   projectName: string
+  slug?: string | null
   avatar?: string | null
   weight: number
   status: number
   requireAuth?: boolean
+  seoTitle?: string | null
+  seoDescription?: string | null
+  seoKeywords?: string | null
+  canonicalUrl?: string | null
+  ogImage?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
@@ -720,10 +912,16 @@ export type ProjectUpdateToOneWithWhereWithoutVersionsInput = {
 export type ProjectUpdateWithoutVersionsInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -734,10 +932,16 @@ export type ProjectUpdateWithoutVersionsInput = {
 export type ProjectUncheckedUpdateWithoutVersionsInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectName?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   avatar?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
   requireAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  seoTitle?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoDescription?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  seoKeywords?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  canonicalUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ogImage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
@@ -788,10 +992,16 @@ export type ProjectCountOutputTypeCountMenusArgs<ExtArgs extends runtime.Types.E
 export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   projectName?: boolean
+  slug?: boolean
   avatar?: boolean
   weight?: boolean
   status?: boolean
   requireAuth?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -804,10 +1014,16 @@ export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
 export type ProjectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   projectName?: boolean
+  slug?: boolean
   avatar?: boolean
   weight?: boolean
   status?: boolean
   requireAuth?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -816,10 +1032,16 @@ export type ProjectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
 export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   projectName?: boolean
+  slug?: boolean
   avatar?: boolean
   weight?: boolean
   status?: boolean
   requireAuth?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
@@ -828,16 +1050,22 @@ export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
 export type ProjectSelectScalar = {
   id?: boolean
   projectName?: boolean
+  slug?: boolean
   avatar?: boolean
   weight?: boolean
   status?: boolean
   requireAuth?: boolean
+  seoTitle?: boolean
+  seoDescription?: boolean
+  seoKeywords?: boolean
+  canonicalUrl?: boolean
+  ogImage?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   isDeleted?: boolean
 }
 
-export type ProjectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectName" | "avatar" | "weight" | "status" | "requireAuth" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["project"]>
+export type ProjectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectName" | "slug" | "avatar" | "weight" | "status" | "requireAuth" | "seoTitle" | "seoDescription" | "seoKeywords" | "canonicalUrl" | "ogImage" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["project"]>
 export type ProjectInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   versions?: boolean | Prisma.Project$versionsArgs<ExtArgs>
   menus?: boolean | Prisma.Project$menusArgs<ExtArgs>
@@ -857,10 +1085,16 @@ export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
     projectName: string
+    slug: string | null
     avatar: string | null
     weight: number
     status: number
     requireAuth: boolean
+    seoTitle: string | null
+    seoDescription: string | null
+    seoKeywords: string | null
+    canonicalUrl: string | null
+    ogImage: string | null
     createdAt: Date
     updatedAt: Date
     isDeleted: boolean
@@ -1292,10 +1526,16 @@ export interface Prisma__ProjectClient<T, Null = never, ExtArgs extends runtime.
 export interface ProjectFieldRefs {
   readonly id: Prisma.FieldRef<"Project", 'BigInt'>
   readonly projectName: Prisma.FieldRef<"Project", 'String'>
+  readonly slug: Prisma.FieldRef<"Project", 'String'>
   readonly avatar: Prisma.FieldRef<"Project", 'String'>
   readonly weight: Prisma.FieldRef<"Project", 'Int'>
   readonly status: Prisma.FieldRef<"Project", 'Int'>
   readonly requireAuth: Prisma.FieldRef<"Project", 'Boolean'>
+  readonly seoTitle: Prisma.FieldRef<"Project", 'String'>
+  readonly seoDescription: Prisma.FieldRef<"Project", 'String'>
+  readonly seoKeywords: Prisma.FieldRef<"Project", 'String'>
+  readonly canonicalUrl: Prisma.FieldRef<"Project", 'String'>
+  readonly ogImage: Prisma.FieldRef<"Project", 'String'>
   readonly createdAt: Prisma.FieldRef<"Project", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Project", 'DateTime'>
   readonly isDeleted: Prisma.FieldRef<"Project", 'Boolean'>
@@ -241,6 +241,7 @@ export type ProjectHomeWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"ProjectHome"> | Date | string
   isDeleted?: Prisma.BoolFilter<"ProjectHome"> | boolean
   project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  translations?: Prisma.ProjectHomeTranslationListRelationFilter
 }
 
 export type ProjectHomeOrderByWithRelationInput = {
@@ -252,6 +253,7 @@ export type ProjectHomeOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   isDeleted?: Prisma.SortOrder
   project?: Prisma.ProjectOrderByWithRelationInput
+  translations?: Prisma.ProjectHomeTranslationOrderByRelationAggregateInput
 }
 
 export type ProjectHomeWhereUniqueInput = Prisma.AtLeast<{
@@ -266,6 +268,7 @@ export type ProjectHomeWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"ProjectHome"> | Date | string
   isDeleted?: Prisma.BoolFilter<"ProjectHome"> | boolean
   project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  translations?: Prisma.ProjectHomeTranslationListRelationFilter
 }, "id" | "projectId">
 
 export type ProjectHomeOrderByWithAggregationInput = {
@@ -304,6 +307,7 @@ export type ProjectHomeCreateInput = {
   updatedAt?: Date | string
   isDeleted?: boolean
   project: Prisma.ProjectCreateNestedOneWithoutHomeInput
+  translations?: Prisma.ProjectHomeTranslationCreateNestedManyWithoutProjectHomeInput
 }
 
 export type ProjectHomeUncheckedCreateInput = {
@@ -314,6 +318,7 @@ export type ProjectHomeUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  translations?: Prisma.ProjectHomeTranslationUncheckedCreateNestedManyWithoutProjectHomeInput
 }
 
 export type ProjectHomeUpdateInput = {
@@ -324,6 +329,7 @@ export type ProjectHomeUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
   project?: Prisma.ProjectUpdateOneRequiredWithoutHomeNestedInput
+  translations?: Prisma.ProjectHomeTranslationUpdateManyWithoutProjectHomeNestedInput
 }
 
 export type ProjectHomeUncheckedUpdateInput = {
@@ -334,6 +340,7 @@ export type ProjectHomeUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  translations?: Prisma.ProjectHomeTranslationUncheckedUpdateManyWithoutProjectHomeNestedInput
 }
 
 export type ProjectHomeCreateManyInput = {
@@ -412,6 +419,11 @@ export type ProjectHomeSumOrderByAggregateInput = {
   status?: Prisma.SortOrder
 }
 
+export type ProjectHomeScalarRelationFilter = {
+  is?: Prisma.ProjectHomeWhereInput
+  isNot?: Prisma.ProjectHomeWhereInput
+}
+
 export type ProjectHomeCreateNestedOneWithoutProjectInput = {
   create?: Prisma.XOR<Prisma.ProjectHomeCreateWithoutProjectInput, Prisma.ProjectHomeUncheckedCreateWithoutProjectInput>
   connectOrCreate?: Prisma.ProjectHomeCreateOrConnectWithoutProjectInput
@@ -444,6 +456,20 @@ export type ProjectHomeUncheckedUpdateOneWithoutProjectNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectHomeUpdateToOneWithWhereWithoutProjectInput, Prisma.ProjectHomeUpdateWithoutProjectInput>, Prisma.ProjectHomeUncheckedUpdateWithoutProjectInput>
 }
 
+export type ProjectHomeCreateNestedOneWithoutTranslationsInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeCreateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedCreateWithoutTranslationsInput>
+  connectOrCreate?: Prisma.ProjectHomeCreateOrConnectWithoutTranslationsInput
+  connect?: Prisma.ProjectHomeWhereUniqueInput
+}
+
+export type ProjectHomeUpdateOneRequiredWithoutTranslationsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeCreateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedCreateWithoutTranslationsInput>
+  connectOrCreate?: Prisma.ProjectHomeCreateOrConnectWithoutTranslationsInput
+  upsert?: Prisma.ProjectHomeUpsertWithoutTranslationsInput
+  connect?: Prisma.ProjectHomeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectHomeUpdateToOneWithWhereWithoutTranslationsInput, Prisma.ProjectHomeUpdateWithoutTranslationsInput>, Prisma.ProjectHomeUncheckedUpdateWithoutTranslationsInput>
+}
+
 export type ProjectHomeCreateWithoutProjectInput = {
   id?: bigint | number
   content: string
@@ -451,6 +477,7 @@ export type ProjectHomeCreateWithoutProjectInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  translations?: Prisma.ProjectHomeTranslationCreateNestedManyWithoutProjectHomeInput
 }
 
 export type ProjectHomeUncheckedCreateWithoutProjectInput = {
@@ -460,6 +487,7 @@ export type ProjectHomeUncheckedCreateWithoutProjectInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   isDeleted?: boolean
+  translations?: Prisma.ProjectHomeTranslationUncheckedCreateNestedManyWithoutProjectHomeInput
 }
 
 export type ProjectHomeCreateOrConnectWithoutProjectInput = {
@@ -485,6 +513,7 @@ export type ProjectHomeUpdateWithoutProjectInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  translations?: Prisma.ProjectHomeTranslationUpdateManyWithoutProjectHomeNestedInput
 }
 
 export type ProjectHomeUncheckedUpdateWithoutProjectInput = {
@@ -494,8 +523,94 @@ export type ProjectHomeUncheckedUpdateWithoutProjectInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  translations?: Prisma.ProjectHomeTranslationUncheckedUpdateManyWithoutProjectHomeNestedInput
+}
+
+export type ProjectHomeCreateWithoutTranslationsInput = {
+  id?: bigint | number
+  content: string
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
+  project: Prisma.ProjectCreateNestedOneWithoutHomeInput
+}
+
+export type ProjectHomeUncheckedCreateWithoutTranslationsInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  content: string
+  status?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  isDeleted?: boolean
 }
 
+export type ProjectHomeCreateOrConnectWithoutTranslationsInput = {
+  where: Prisma.ProjectHomeWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectHomeCreateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedCreateWithoutTranslationsInput>
+}
+
+export type ProjectHomeUpsertWithoutTranslationsInput = {
+  update: Prisma.XOR<Prisma.ProjectHomeUpdateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedUpdateWithoutTranslationsInput>
+  create: Prisma.XOR<Prisma.ProjectHomeCreateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedCreateWithoutTranslationsInput>
+  where?: Prisma.ProjectHomeWhereInput
+}
+
+export type ProjectHomeUpdateToOneWithWhereWithoutTranslationsInput = {
+  where?: Prisma.ProjectHomeWhereInput
+  data: Prisma.XOR<Prisma.ProjectHomeUpdateWithoutTranslationsInput, Prisma.ProjectHomeUncheckedUpdateWithoutTranslationsInput>
+}
+
+export type ProjectHomeUpdateWithoutTranslationsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  project?: Prisma.ProjectUpdateOneRequiredWithoutHomeNestedInput
+}
+
+export type ProjectHomeUncheckedUpdateWithoutTranslationsInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isDeleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+}
+
+
+/**
+ * Count Type ProjectHomeCountOutputType
+ */
+
+export type ProjectHomeCountOutputType = {
+  translations: number
+}
+
+export type ProjectHomeCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  translations?: boolean | ProjectHomeCountOutputTypeCountTranslationsArgs
+}
+
+/**
+ * ProjectHomeCountOutputType without action
+ */
+export type ProjectHomeCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeCountOutputType
+   */
+  select?: Prisma.ProjectHomeCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ProjectHomeCountOutputType without action
+ */
+export type ProjectHomeCountOutputTypeCountTranslationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectHomeTranslationWhereInput
+}
 
 
 export type ProjectHomeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -507,6 +622,8 @@ export type ProjectHomeSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   updatedAt?: boolean
   isDeleted?: boolean
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  translations?: boolean | Prisma.ProjectHome$translationsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectHomeCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["projectHome"]>
 
 export type ProjectHomeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -544,6 +661,8 @@ export type ProjectHomeSelectScalar = {
 export type ProjectHomeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "content" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["projectHome"]>
 export type ProjectHomeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  translations?: boolean | Prisma.ProjectHome$translationsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectHomeCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ProjectHomeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
@@ -556,6 +675,7 @@ export type $ProjectHomePayload<ExtArgs extends runtime.Types.Extensions.Interna
   name: "ProjectHome"
   objects: {
     project: Prisma.$ProjectPayload<ExtArgs>
+    translations: Prisma.$ProjectHomeTranslationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: bigint
@@ -960,6 +1080,7 @@ readonly fields: ProjectHomeFieldRefs;
 export interface Prisma__ProjectHomeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   project<T extends Prisma.ProjectDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  translations<T extends Prisma.ProjectHome$translationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectHome$translationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1391,6 +1512,30 @@ export type ProjectHomeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.I
   limit?: number
 }
 
+/**
+ * ProjectHome.translations
+ */
+export type ProjectHome$translationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithRelationInput | Prisma.ProjectHomeTranslationOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectHomeTranslationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectHomeTranslationScalarFieldEnum | Prisma.ProjectHomeTranslationScalarFieldEnum[]
+}
+
 /**
  * ProjectHome without action
  */
@@ -0,0 +1,1431 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectHomeTranslation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ProjectHomeTranslation
+ * 项目首页译文表：每种语言一条，缺少的语言使用首页原文（schema: collections）
+ */
+export type ProjectHomeTranslationModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectHomeTranslationPayload>
+
+export type AggregateProjectHomeTranslation = {
+  _count: ProjectHomeTranslationCountAggregateOutputType | null
+  _avg: ProjectHomeTranslationAvgAggregateOutputType | null
+  _sum: ProjectHomeTranslationSumAggregateOutputType | null
+  _min: ProjectHomeTranslationMinAggregateOutputType | null
+  _max: ProjectHomeTranslationMaxAggregateOutputType | null
+}
+
+export type ProjectHomeTranslationAvgAggregateOutputType = {
+  id: number | null
+  projectHomeId: number | null
+}
+
+export type ProjectHomeTranslationSumAggregateOutputType = {
+  id: bigint | null
+  projectHomeId: bigint | null
+}
+
+export type ProjectHomeTranslationMinAggregateOutputType = {
+  id: bigint | null
+  projectHomeId: bigint | null
+  locale: string | null
+  content: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectHomeTranslationMaxAggregateOutputType = {
+  id: bigint | null
+  projectHomeId: bigint | null
+  locale: string | null
+  content: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectHomeTranslationCountAggregateOutputType = {
+  id: number
+  projectHomeId: number
+  locale: number
+  content: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProjectHomeTranslationAvgAggregateInputType = {
+  id?: true
+  projectHomeId?: true
+}
+
+export type ProjectHomeTranslationSumAggregateInputType = {
+  id?: true
+  projectHomeId?: true
+}
+
+export type ProjectHomeTranslationMinAggregateInputType = {
+  id?: true
+  projectHomeId?: true
+  locale?: true
+  content?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectHomeTranslationMaxAggregateInputType = {
+  id?: true
+  projectHomeId?: true
+  locale?: true
+  content?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectHomeTranslationCountAggregateInputType = {
+  id?: true
+  projectHomeId?: true
+  locale?: true
+  content?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProjectHomeTranslationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectHomeTranslation to aggregate.
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectHomeTranslations to fetch.
+   */
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithRelationInput | Prisma.ProjectHomeTranslationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectHomeTranslationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectHomeTranslations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectHomeTranslations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectHomeTranslations
+  **/
+  _count?: true | ProjectHomeTranslationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectHomeTranslationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectHomeTranslationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectHomeTranslationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectHomeTranslationMaxAggregateInputType
+}
+
+export type GetProjectHomeTranslationAggregateType<T extends ProjectHomeTranslationAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectHomeTranslation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectHomeTranslation[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectHomeTranslation[P]>
+}
+
+
+
+
+export type ProjectHomeTranslationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithAggregationInput | Prisma.ProjectHomeTranslationOrderByWithAggregationInput[]
+  by: Prisma.ProjectHomeTranslationScalarFieldEnum[] | Prisma.ProjectHomeTranslationScalarFieldEnum
+  having?: Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectHomeTranslationCountAggregateInputType | true
+  _avg?: ProjectHomeTranslationAvgAggregateInputType
+  _sum?: ProjectHomeTranslationSumAggregateInputType
+  _min?: ProjectHomeTranslationMinAggregateInputType
+  _max?: ProjectHomeTranslationMaxAggregateInputType
+}
+
+export type ProjectHomeTranslationGroupByOutputType = {
+  id: bigint
+  projectHomeId: bigint
+  locale: string
+  content: string
+  createdAt: Date
+  updatedAt: Date
+  _count: ProjectHomeTranslationCountAggregateOutputType | null
+  _avg: ProjectHomeTranslationAvgAggregateOutputType | null
+  _sum: ProjectHomeTranslationSumAggregateOutputType | null
+  _min: ProjectHomeTranslationMinAggregateOutputType | null
+  _max: ProjectHomeTranslationMaxAggregateOutputType | null
+}
+
+type GetProjectHomeTranslationGroupByPayload<T extends ProjectHomeTranslationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectHomeTranslationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectHomeTranslationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectHomeTranslationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectHomeTranslationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectHomeTranslationWhereInput = {
+  AND?: Prisma.ProjectHomeTranslationWhereInput | Prisma.ProjectHomeTranslationWhereInput[]
+  OR?: Prisma.ProjectHomeTranslationWhereInput[]
+  NOT?: Prisma.ProjectHomeTranslationWhereInput | Prisma.ProjectHomeTranslationWhereInput[]
+  id?: Prisma.BigIntFilter<"ProjectHomeTranslation"> | bigint | number
+  projectHomeId?: Prisma.BigIntFilter<"ProjectHomeTranslation"> | bigint | number
+  locale?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  content?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+  projectHome?: Prisma.XOR<Prisma.ProjectHomeScalarRelationFilter, Prisma.ProjectHomeWhereInput>
+}
+
+export type ProjectHomeTranslationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  projectHome?: Prisma.ProjectHomeOrderByWithRelationInput
+}
+
+export type ProjectHomeTranslationWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  projectHomeId_locale?: Prisma.ProjectHomeTranslationProjectHomeIdLocaleCompoundUniqueInput
+  AND?: Prisma.ProjectHomeTranslationWhereInput | Prisma.ProjectHomeTranslationWhereInput[]
+  OR?: Prisma.ProjectHomeTranslationWhereInput[]
+  NOT?: Prisma.ProjectHomeTranslationWhereInput | Prisma.ProjectHomeTranslationWhereInput[]
+  projectHomeId?: Prisma.BigIntFilter<"ProjectHomeTranslation"> | bigint | number
+  locale?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  content?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+  projectHome?: Prisma.XOR<Prisma.ProjectHomeScalarRelationFilter, Prisma.ProjectHomeWhereInput>
+}, "id" | "projectHomeId_locale">
+
+export type ProjectHomeTranslationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectHomeTranslationCountOrderByAggregateInput
+  _avg?: Prisma.ProjectHomeTranslationAvgOrderByAggregateInput
+  _max?: Prisma.ProjectHomeTranslationMaxOrderByAggregateInput
+  _min?: Prisma.ProjectHomeTranslationMinOrderByAggregateInput
+  _sum?: Prisma.ProjectHomeTranslationSumOrderByAggregateInput
+}
+
+export type ProjectHomeTranslationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput | Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput | Prisma.ProjectHomeTranslationScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"ProjectHomeTranslation"> | bigint | number
+  projectHomeId?: Prisma.BigIntWithAggregatesFilter<"ProjectHomeTranslation"> | bigint | number
+  locale?: Prisma.StringWithAggregatesFilter<"ProjectHomeTranslation"> | string
+  content?: Prisma.StringWithAggregatesFilter<"ProjectHomeTranslation"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectHomeTranslation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectHomeTranslation"> | Date | string
+}
+
+export type ProjectHomeTranslationCreateInput = {
+  id?: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  projectHome: Prisma.ProjectHomeCreateNestedOneWithoutTranslationsInput
+}
+
+export type ProjectHomeTranslationUncheckedCreateInput = {
+  id?: bigint | number
+  projectHomeId: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectHomeTranslationUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projectHome?: Prisma.ProjectHomeUpdateOneRequiredWithoutTranslationsNestedInput
+}
+
+export type ProjectHomeTranslationUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectHomeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectHomeTranslationCreateManyInput = {
+  id?: bigint | number
+  projectHomeId: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectHomeTranslationUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectHomeTranslationUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectHomeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectHomeTranslationListRelationFilter = {
+  every?: Prisma.ProjectHomeTranslationWhereInput
+  some?: Prisma.ProjectHomeTranslationWhereInput
+  none?: Prisma.ProjectHomeTranslationWhereInput
+}
+
+export type ProjectHomeTranslationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationProjectHomeIdLocaleCompoundUniqueInput = {
+  projectHomeId: bigint | number
+  locale: string
+}
+
+export type ProjectHomeTranslationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+  locale?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectHomeId?: Prisma.SortOrder
+}
+
+export type ProjectHomeTranslationCreateNestedManyWithoutProjectHomeInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput> | Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput[] | Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput[]
+  connectOrCreate?: Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput | Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput[]
+  createMany?: Prisma.ProjectHomeTranslationCreateManyProjectHomeInputEnvelope
+  connect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+}
+
+export type ProjectHomeTranslationUncheckedCreateNestedManyWithoutProjectHomeInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput> | Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput[] | Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput[]
+  connectOrCreate?: Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput | Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput[]
+  createMany?: Prisma.ProjectHomeTranslationCreateManyProjectHomeInputEnvelope
+  connect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+}
+
+export type ProjectHomeTranslationUpdateManyWithoutProjectHomeNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput> | Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput[] | Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput[]
+  connectOrCreate?: Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput | Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput[]
+  upsert?: Prisma.ProjectHomeTranslationUpsertWithWhereUniqueWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpsertWithWhereUniqueWithoutProjectHomeInput[]
+  createMany?: Prisma.ProjectHomeTranslationCreateManyProjectHomeInputEnvelope
+  set?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  disconnect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  delete?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  connect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  update?: Prisma.ProjectHomeTranslationUpdateWithWhereUniqueWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpdateWithWhereUniqueWithoutProjectHomeInput[]
+  updateMany?: Prisma.ProjectHomeTranslationUpdateManyWithWhereWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpdateManyWithWhereWithoutProjectHomeInput[]
+  deleteMany?: Prisma.ProjectHomeTranslationScalarWhereInput | Prisma.ProjectHomeTranslationScalarWhereInput[]
+}
+
+export type ProjectHomeTranslationUncheckedUpdateManyWithoutProjectHomeNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput> | Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput[] | Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput[]
+  connectOrCreate?: Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput | Prisma.ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput[]
+  upsert?: Prisma.ProjectHomeTranslationUpsertWithWhereUniqueWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpsertWithWhereUniqueWithoutProjectHomeInput[]
+  createMany?: Prisma.ProjectHomeTranslationCreateManyProjectHomeInputEnvelope
+  set?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  disconnect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  delete?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  connect?: Prisma.ProjectHomeTranslationWhereUniqueInput | Prisma.ProjectHomeTranslationWhereUniqueInput[]
+  update?: Prisma.ProjectHomeTranslationUpdateWithWhereUniqueWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpdateWithWhereUniqueWithoutProjectHomeInput[]
+  updateMany?: Prisma.ProjectHomeTranslationUpdateManyWithWhereWithoutProjectHomeInput | Prisma.ProjectHomeTranslationUpdateManyWithWhereWithoutProjectHomeInput[]
+  deleteMany?: Prisma.ProjectHomeTranslationScalarWhereInput | Prisma.ProjectHomeTranslationScalarWhereInput[]
+}
+
+export type ProjectHomeTranslationCreateWithoutProjectHomeInput = {
+  id?: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput = {
+  id?: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectHomeTranslationCreateOrConnectWithoutProjectHomeInput = {
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput>
+}
+
+export type ProjectHomeTranslationCreateManyProjectHomeInputEnvelope = {
+  data: Prisma.ProjectHomeTranslationCreateManyProjectHomeInput | Prisma.ProjectHomeTranslationCreateManyProjectHomeInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectHomeTranslationUpsertWithWhereUniqueWithoutProjectHomeInput = {
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedUpdateWithoutProjectHomeInput>
+  create: Prisma.XOR<Prisma.ProjectHomeTranslationCreateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedCreateWithoutProjectHomeInput>
+}
+
+export type ProjectHomeTranslationUpdateWithWhereUniqueWithoutProjectHomeInput = {
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateWithoutProjectHomeInput, Prisma.ProjectHomeTranslationUncheckedUpdateWithoutProjectHomeInput>
+}
+
+export type ProjectHomeTranslationUpdateManyWithWhereWithoutProjectHomeInput = {
+  where: Prisma.ProjectHomeTranslationScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateManyMutationInput, Prisma.ProjectHomeTranslationUncheckedUpdateManyWithoutProjectHomeInput>
+}
+
+export type ProjectHomeTranslationScalarWhereInput = {
+  AND?: Prisma.ProjectHomeTranslationScalarWhereInput | Prisma.ProjectHomeTranslationScalarWhereInput[]
+  OR?: Prisma.ProjectHomeTranslationScalarWhereInput[]
+  NOT?: Prisma.ProjectHomeTranslationScalarWhereInput | Prisma.ProjectHomeTranslationScalarWhereInput[]
+  id?: Prisma.BigIntFilter<"ProjectHomeTranslation"> | bigint | number
+  projectHomeId?: Prisma.BigIntFilter<"ProjectHomeTranslation"> | bigint | number
+  locale?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  content?: Prisma.StringFilter<"ProjectHomeTranslation"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectHomeTranslation"> | Date | string
+}
+
+export type ProjectHomeTranslationCreateManyProjectHomeInput = {
+  id?: bigint | number
+  locale: string
+  content: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectHomeTranslationUpdateWithoutProjectHomeInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectHomeTranslationUncheckedUpdateWithoutProjectHomeInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectHomeTranslationUncheckedUpdateManyWithoutProjectHomeInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  locale?: Prisma.StringFieldUpdateOperationsInput | string
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProjectHomeTranslationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectHomeId?: boolean
+  locale?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectHomeTranslation"]>
+
+export type ProjectHomeTranslationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectHomeId?: boolean
+  locale?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectHomeTranslation"]>
+
+export type ProjectHomeTranslationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectHomeId?: boolean
+  locale?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectHomeTranslation"]>
+
+export type ProjectHomeTranslationSelectScalar = {
+  id?: boolean
+  projectHomeId?: boolean
+  locale?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProjectHomeTranslationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectHomeId" | "locale" | "content" | "createdAt" | "updatedAt", ExtArgs["result"]["projectHomeTranslation"]>
+export type ProjectHomeTranslationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}
+export type ProjectHomeTranslationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}
+export type ProjectHomeTranslationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projectHome?: boolean | Prisma.ProjectHomeDefaultArgs<ExtArgs>
+}
+
+export type $ProjectHomeTranslationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectHomeTranslation"
+  objects: {
+    projectHome: Prisma.$ProjectHomePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    projectHomeId: bigint
+    locale: string
+    content: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["projectHomeTranslation"]>
+  composites: {}
+}
+
+export type ProjectHomeTranslationGetPayload<S extends boolean | null | undefined | ProjectHomeTranslationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload, S>
+
+export type ProjectHomeTranslationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectHomeTranslationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectHomeTranslationCountAggregateInputType | true
+  }
+
+export interface ProjectHomeTranslationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectHomeTranslation'], meta: { name: 'ProjectHomeTranslation' } }
+  /**
+   * Find zero or one ProjectHomeTranslation that matches the filter.
+   * @param {ProjectHomeTranslationFindUniqueArgs} args - Arguments to find a ProjectHomeTranslation
+   * @example
+   * // Get one ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectHomeTranslationFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectHomeTranslation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectHomeTranslationFindUniqueOrThrowArgs} args - Arguments to find a ProjectHomeTranslation
+   * @example
+   * // Get one ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectHomeTranslationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectHomeTranslation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationFindFirstArgs} args - Arguments to find a ProjectHomeTranslation
+   * @example
+   * // Get one ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectHomeTranslationFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectHomeTranslation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationFindFirstOrThrowArgs} args - Arguments to find a ProjectHomeTranslation
+   * @example
+   * // Get one ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectHomeTranslationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectHomeTranslations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectHomeTranslations
+   * const projectHomeTranslations = await prisma.projectHomeTranslation.findMany()
+   * 
+   * // Get first 10 ProjectHomeTranslations
+   * const projectHomeTranslations = await prisma.projectHomeTranslation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectHomeTranslationWithIdOnly = await prisma.projectHomeTranslation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectHomeTranslationFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectHomeTranslation.
+   * @param {ProjectHomeTranslationCreateArgs} args - Arguments to create a ProjectHomeTranslation.
+   * @example
+   * // Create one ProjectHomeTranslation
+   * const ProjectHomeTranslation = await prisma.projectHomeTranslation.create({
+   *   data: {
+   *     // ... data to create a ProjectHomeTranslation
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectHomeTranslationCreateArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectHomeTranslations.
+   * @param {ProjectHomeTranslationCreateManyArgs} args - Arguments to create many ProjectHomeTranslations.
+   * @example
+   * // Create many ProjectHomeTranslations
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectHomeTranslationCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectHomeTranslations and returns the data saved in the database.
+   * @param {ProjectHomeTranslationCreateManyAndReturnArgs} args - Arguments to create many ProjectHomeTranslations.
+   * @example
+   * // Create many ProjectHomeTranslations
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectHomeTranslations and only return the `id`
+   * const projectHomeTranslationWithIdOnly = await prisma.projectHomeTranslation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectHomeTranslationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectHomeTranslation.
+   * @param {ProjectHomeTranslationDeleteArgs} args - Arguments to delete one ProjectHomeTranslation.
+   * @example
+   * // Delete one ProjectHomeTranslation
+   * const ProjectHomeTranslation = await prisma.projectHomeTranslation.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectHomeTranslation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectHomeTranslationDeleteArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectHomeTranslation.
+   * @param {ProjectHomeTranslationUpdateArgs} args - Arguments to update one ProjectHomeTranslation.
+   * @example
+   * // Update one ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectHomeTranslationUpdateArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectHomeTranslations.
+   * @param {ProjectHomeTranslationDeleteManyArgs} args - Arguments to filter ProjectHomeTranslations to delete.
+   * @example
+   * // Delete a few ProjectHomeTranslations
+   * const { count } = await prisma.projectHomeTranslation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectHomeTranslationDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectHomeTranslationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectHomeTranslations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectHomeTranslations
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectHomeTranslationUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectHomeTranslations and returns the data updated in the database.
+   * @param {ProjectHomeTranslationUpdateManyAndReturnArgs} args - Arguments to update many ProjectHomeTranslations.
+   * @example
+   * // Update many ProjectHomeTranslations
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectHomeTranslations and only return the `id`
+   * const projectHomeTranslationWithIdOnly = await prisma.projectHomeTranslation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectHomeTranslationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectHomeTranslation.
+   * @param {ProjectHomeTranslationUpsertArgs} args - Arguments to update or create a ProjectHomeTranslation.
+   * @example
+   * // Update or create a ProjectHomeTranslation
+   * const projectHomeTranslation = await prisma.projectHomeTranslation.upsert({
+   *   create: {
+   *     // ... data to create a ProjectHomeTranslation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectHomeTranslation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectHomeTranslationUpsertArgs>(args: Prisma.SelectSubset<T, ProjectHomeTranslationUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeTranslationClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomeTranslationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectHomeTranslations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationCountArgs} args - Arguments to filter ProjectHomeTranslations to count.
+   * @example
+   * // Count the number of ProjectHomeTranslations
+   * const count = await prisma.projectHomeTranslation.count({
+   *   where: {
+   *     // ... the filter for the ProjectHomeTranslations we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectHomeTranslationCountArgs>(
+    args?: Prisma.Subset<T, ProjectHomeTranslationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectHomeTranslationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectHomeTranslation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectHomeTranslationAggregateArgs>(args: Prisma.Subset<T, ProjectHomeTranslationAggregateArgs>): Prisma.PrismaPromise<GetProjectHomeTranslationAggregateType<T>>
+
+  /**
+   * Group by ProjectHomeTranslation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectHomeTranslationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectHomeTranslationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectHomeTranslationGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectHomeTranslationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectHomeTranslationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectHomeTranslationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectHomeTranslation model
+ */
+readonly fields: ProjectHomeTranslationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectHomeTranslation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectHomeTranslationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  projectHome<T extends Prisma.ProjectHomeDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectHomeDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectHomeClient<runtime.Types.Result.GetResult<Prisma.$ProjectHomePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectHomeTranslation model
+ */
+export interface ProjectHomeTranslationFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectHomeTranslation", 'BigInt'>
+  readonly projectHomeId: Prisma.FieldRef<"ProjectHomeTranslation", 'BigInt'>
+  readonly locale: Prisma.FieldRef<"ProjectHomeTranslation", 'String'>
+  readonly content: Prisma.FieldRef<"ProjectHomeTranslation", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ProjectHomeTranslation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProjectHomeTranslation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectHomeTranslation findUnique
+ */
+export type ProjectHomeTranslationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectHomeTranslation to fetch.
+   */
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+}
+
+/**
+ * ProjectHomeTranslation findUniqueOrThrow
+ */
+export type ProjectHomeTranslationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectHomeTranslation to fetch.
+   */
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+}
+
+/**
+ * ProjectHomeTranslation findFirst
+ */
+export type ProjectHomeTranslationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectHomeTranslation to fetch.
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectHomeTranslations to fetch.
+   */
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithRelationInput | Prisma.ProjectHomeTranslationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectHomeTranslations.
+   */
+  cursor?: Prisma.ProjectHomeTranslationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectHomeTranslations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectHomeTranslations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectHomeTranslations.
+   */
+  distinct?: Prisma.ProjectHomeTranslationScalarFieldEnum | Prisma.ProjectHomeTranslationScalarFieldEnum[]
+}
+
+/**
+ * ProjectHomeTranslation findFirstOrThrow
+ */
+export type ProjectHomeTranslationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectHomeTranslation to fetch.
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectHomeTranslations to fetch.
+   */
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithRelationInput | Prisma.ProjectHomeTranslationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectHomeTranslations.
+   */
+  cursor?: Prisma.ProjectHomeTranslationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectHomeTranslations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectHomeTranslations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectHomeTranslations.
+   */
+  distinct?: Prisma.ProjectHomeTranslationScalarFieldEnum | Prisma.ProjectHomeTranslationScalarFieldEnum[]
+}
+
+/**
+ * ProjectHomeTranslation findMany
+ */
+export type ProjectHomeTranslationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectHomeTranslations to fetch.
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectHomeTranslations to fetch.
+   */
+  orderBy?: Prisma.ProjectHomeTranslationOrderByWithRelationInput | Prisma.ProjectHomeTranslationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectHomeTranslations.
+   */
+  cursor?: Prisma.ProjectHomeTranslationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectHomeTranslations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectHomeTranslations.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectHomeTranslationScalarFieldEnum | Prisma.ProjectHomeTranslationScalarFieldEnum[]
+}
+
+/**
+ * ProjectHomeTranslation create
+ */
+export type ProjectHomeTranslationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectHomeTranslation.
+   */
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationCreateInput, Prisma.ProjectHomeTranslationUncheckedCreateInput>
+}
+
+/**
+ * ProjectHomeTranslation createMany
+ */
+export type ProjectHomeTranslationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectHomeTranslations.
+   */
+  data: Prisma.ProjectHomeTranslationCreateManyInput | Prisma.ProjectHomeTranslationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProjectHomeTranslation createManyAndReturn
+ */
+export type ProjectHomeTranslationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectHomeTranslations.
+   */
+  data: Prisma.ProjectHomeTranslationCreateManyInput | Prisma.ProjectHomeTranslationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectHomeTranslation update
+ */
+export type ProjectHomeTranslationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectHomeTranslation.
+   */
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateInput, Prisma.ProjectHomeTranslationUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectHomeTranslation to update.
+   */
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+}
+
+/**
+ * ProjectHomeTranslation updateMany
+ */
+export type ProjectHomeTranslationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectHomeTranslations.
+   */
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateManyMutationInput, Prisma.ProjectHomeTranslationUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectHomeTranslations to update
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * Limit how many ProjectHomeTranslations to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectHomeTranslation updateManyAndReturn
+ */
+export type ProjectHomeTranslationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectHomeTranslations.
+   */
+  data: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateManyMutationInput, Prisma.ProjectHomeTranslationUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectHomeTranslations to update
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * Limit how many ProjectHomeTranslations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectHomeTranslation upsert
+ */
+export type ProjectHomeTranslationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectHomeTranslation to update in case it exists.
+   */
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+  /**
+   * In case the ProjectHomeTranslation found by the `where` argument doesn't exist, create a new ProjectHomeTranslation with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectHomeTranslationCreateInput, Prisma.ProjectHomeTranslationUncheckedCreateInput>
+  /**
+   * In case the ProjectHomeTranslation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectHomeTranslationUpdateInput, Prisma.ProjectHomeTranslationUncheckedUpdateInput>
+}
+
+/**
+ * ProjectHomeTranslation delete
+ */
+export type ProjectHomeTranslationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectHomeTranslation to delete.
+   */
+  where: Prisma.ProjectHomeTranslationWhereUniqueInput
+}
+
+/**
+ * ProjectHomeTranslation deleteMany
+ */
+export type ProjectHomeTranslationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectHomeTranslations to delete
+   */
+  where?: Prisma.ProjectHomeTranslationWhereInput
+  /**
+   * Limit how many ProjectHomeTranslations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectHomeTranslation without action
+ */
+export type ProjectHomeTranslationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectHomeTranslation
+   */
+  select?: Prisma.ProjectHomeTranslationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectHomeTranslation
+   */
+  omit?: Prisma.ProjectHomeTranslationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectHomeTranslationInclude<ExtArgs> | null
+}
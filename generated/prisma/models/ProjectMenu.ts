@@ -75,6 +75,7 @@ export type ProjectMenuCountAggregateOutputType = {
   projectId: number
   parentId: number
   label: number
+  labelTranslations: number
   url: number
   isExternal: number
   weight: number
@@ -135,6 +136,7 @@ export type ProjectMenuCountAggregateInputType = {
   projectId?: true
   parentId?: true
   label?: true
+  labelTranslations?: true
   url?: true
   isExternal?: true
   weight?: true
@@ -236,6 +238,7 @@ export type ProjectMenuGroupByOutputType = {
   projectId: bigint
   parentId: bigint | null
   label: string
+  labelTranslations: runtime.JsonValue | null
   url: string | null
   isExternal: boolean
   weight: number
@@ -273,6 +276,7 @@ export type ProjectMenuWhereInput = {
   projectId?: Prisma.BigIntFilter<"ProjectMenu"> | bigint | number
   parentId?: Prisma.BigIntNullableFilter<"ProjectMenu"> | bigint | number | null
   label?: Prisma.StringFilter<"ProjectMenu"> | string
+  labelTranslations?: Prisma.JsonNullableFilter<"ProjectMenu">
   url?: Prisma.StringNullableFilter<"ProjectMenu"> | string | null
   isExternal?: Prisma.BoolFilter<"ProjectMenu"> | boolean
   weight?: Prisma.IntFilter<"ProjectMenu"> | number
@@ -290,6 +294,7 @@ export type ProjectMenuOrderByWithRelationInput = {
   projectId?: Prisma.SortOrder
   parentId?: Prisma.SortOrderInput | Prisma.SortOrder
   label?: Prisma.SortOrder
+  labelTranslations?: Prisma.SortOrderInput | Prisma.SortOrder
   url?: Prisma.SortOrderInput | Prisma.SortOrder
   isExternal?: Prisma.SortOrder
   weight?: Prisma.SortOrder
@@ -310,6 +315,7 @@ export type ProjectMenuWhereUniqueInput = Prisma.AtLeast<{
   projectId?: Prisma.BigIntFilter<"ProjectMenu"> | bigint | number
   parentId?: Prisma.BigIntNullableFilter<"ProjectMenu"> | bigint | number | null
   label?: Prisma.StringFilter<"ProjectMenu"> | string
+  labelTranslations?: Prisma.JsonNullableFilter<"ProjectMenu">
   url?: Prisma.StringNullableFilter<"ProjectMenu"> | string | null
   isExternal?: Prisma.BoolFilter<"ProjectMenu"> | boolean
   weight?: Prisma.IntFilter<"ProjectMenu"> | number
@@ -327,6 +333,7 @@ export type ProjectMenuOrderByWithAggregationInput = {
   projectId?: Prisma.SortOrder
   parentId?: Prisma.SortOrderInput | Prisma.SortOrder
   label?: Prisma.SortOrder
+  labelTranslations?: Prisma.SortOrderInput | Prisma.SortOrder
   url?: Prisma.SortOrderInput | Prisma.SortOrder
   isExternal?: Prisma.SortOrder
   weight?: Prisma.SortOrder
@@ -349,6 +356,7 @@ export type ProjectMenuScalarWhereWithAggregatesInput = {
   projectId?: Prisma.BigIntWithAggregatesFilter<"ProjectMenu"> | bigint | number
   parentId?: Prisma.BigIntNullableWithAggregatesFilter<"ProjectMenu"> | bigint | number | null
   label?: Prisma.StringWithAggregatesFilter<"ProjectMenu"> | string
+  labelTranslations?: Prisma.JsonNullableWithAggregatesFilter<"ProjectMenu">
   url?: Prisma.StringNullableWithAggregatesFilter<"ProjectMenu"> | string | null
   isExternal?: Prisma.BoolWithAggregatesFilter<"ProjectMenu"> | boolean
   weight?: Prisma.IntWithAggregatesFilter<"ProjectMenu"> | number
@@ -361,6 +369,7 @@ export type ProjectMenuScalarWhereWithAggregatesInput = {
 export type ProjectMenuCreateInput = {
   id?: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -378,6 +387,7 @@ export type ProjectMenuUncheckedCreateInput = {
   projectId: bigint | number
   parentId?: bigint | number | null
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -391,6 +401,7 @@ export type ProjectMenuUncheckedCreateInput = {
 export type ProjectMenuUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -408,6 +419,7 @@ export type ProjectMenuUncheckedUpdateInput = {
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   parentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -423,6 +435,7 @@ export type ProjectMenuCreateManyInput = {
   projectId: bigint | number
   parentId?: bigint | number | null
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -435,6 +448,7 @@ export type ProjectMenuCreateManyInput = {
 export type ProjectMenuUpdateManyMutationInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -449,6 +463,7 @@ export type ProjectMenuUncheckedUpdateManyInput = {
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   parentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -478,6 +493,7 @@ export type ProjectMenuCountOrderByAggregateInput = {
   projectId?: Prisma.SortOrder
   parentId?: Prisma.SortOrder
   label?: Prisma.SortOrder
+  labelTranslations?: Prisma.SortOrder
   url?: Prisma.SortOrder
   isExternal?: Prisma.SortOrder
   weight?: Prisma.SortOrder
@@ -642,6 +658,7 @@ export type ProjectMenuUncheckedUpdateManyWithoutParentNestedInput = {
 export type ProjectMenuCreateWithoutProjectInput = {
   id?: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -657,6 +674,7 @@ export type ProjectMenuUncheckedCreateWithoutProjectInput = {
   id?: bigint | number
   parentId?: bigint | number | null
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -701,6 +719,7 @@ export type ProjectMenuScalarWhereInput = {
   projectId?: Prisma.BigIntFilter<"ProjectMenu"> | bigint | number
   parentId?: Prisma.BigIntNullableFilter<"ProjectMenu"> | bigint | number | null
   label?: Prisma.StringFilter<"ProjectMenu"> | string
+  labelTranslations?: Prisma.JsonNullableFilter<"ProjectMenu">
   url?: Prisma.StringNullableFilter<"ProjectMenu"> | string | null
   isExternal?: Prisma.BoolFilter<"ProjectMenu"> | boolean
   weight?: Prisma.IntFilter<"ProjectMenu"> | number
@@ -713,6 +732,7 @@ export type ProjectMenuScalarWhereInput = {
 export type ProjectMenuCreateWithoutChildrenInput = {
   id?: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -729,6 +749,7 @@ export type ProjectMenuUncheckedCreateWithoutChildrenInput = {
   projectId: bigint | number
   parentId?: bigint | number | null
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -746,6 +767,7 @@ export type ProjectMenuCreateOrConnectWithoutChildrenInput = {
 export type ProjectMenuCreateWithoutParentInput = {
   id?: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -761,6 +783,7 @@ export type ProjectMenuUncheckedCreateWithoutParentInput = {
   id?: bigint | number
   projectId: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -795,6 +818,7 @@ export type ProjectMenuUpdateToOneWithWhereWithoutChildrenInput = {
 export type ProjectMenuUpdateWithoutChildrenInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -811,6 +835,7 @@ export type ProjectMenuUncheckedUpdateWithoutChildrenInput = {
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   parentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -840,6 +865,7 @@ export type ProjectMenuCreateManyProjectInput = {
   id?: bigint | number
   parentId?: bigint | number | null
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -852,6 +878,7 @@ export type ProjectMenuCreateManyProjectInput = {
 export type ProjectMenuUpdateWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -867,6 +894,7 @@ export type ProjectMenuUncheckedUpdateWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   parentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -881,6 +909,7 @@ export type ProjectMenuUncheckedUpdateManyWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   parentId?: Prisma.NullableBigIntFieldUpdateOperationsInput | bigint | number | null
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -894,6 +923,7 @@ export type ProjectMenuCreateManyParentInput = {
   id?: bigint | number
   projectId: bigint | number
   label: string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -906,6 +936,7 @@ export type ProjectMenuCreateManyParentInput = {
 export type ProjectMenuUpdateWithoutParentInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -921,6 +952,7 @@ export type ProjectMenuUncheckedUpdateWithoutParentInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -935,6 +967,7 @@ export type ProjectMenuUncheckedUpdateManyWithoutParentInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   label?: Prisma.StringFieldUpdateOperationsInput | string
+  labelTranslations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   isExternal?: Prisma.BoolFieldUpdateOperationsInput | boolean
   weight?: Prisma.IntFieldUpdateOperationsInput | number
@@ -980,6 +1013,7 @@ export type ProjectMenuSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   projectId?: boolean
   parentId?: boolean
   label?: boolean
+  labelTranslations?: boolean
   url?: boolean
   isExternal?: boolean
   weight?: boolean
@@ -998,6 +1032,7 @@ export type ProjectMenuSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   projectId?: boolean
   parentId?: boolean
   label?: boolean
+  labelTranslations?: boolean
   url?: boolean
   isExternal?: boolean
   weight?: boolean
@@ -1014,6 +1049,7 @@ export type ProjectMenuSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   projectId?: boolean
   parentId?: boolean
   label?: boolean
+  labelTranslations?: boolean
   url?: boolean
   isExternal?: boolean
   weight?: boolean
@@ -1030,6 +1066,7 @@ export type ProjectMenuSelectScalar = {
   projectId?: boolean
   parentId?: boolean
   label?: boolean
+  labelTranslations?: boolean
   url?: boolean
   isExternal?: boolean
   weight?: boolean
@@ -1039,7 +1076,7 @@ export type ProjectMenuSelectScalar = {
   isDeleted?: boolean
 }
 
-export type ProjectMenuOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "parentId" | "label" | "url" | "isExternal" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["projectMenu"]>
+export type ProjectMenuOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "parentId" | "label" | "labelTranslations" | "url" | "isExternal" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["projectMenu"]>
 export type ProjectMenuInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
   parent?: boolean | Prisma.ProjectMenu$parentArgs<ExtArgs>
@@ -1067,6 +1104,7 @@ export type $ProjectMenuPayload<ExtArgs extends runtime.Types.Extensions.Interna
     projectId: bigint
     parentId: bigint | null
     label: string
+    labelTranslations: runtime.JsonValue | null
     url: string | null
     isExternal: boolean
     weight: number
@@ -1504,6 +1542,7 @@ export interface ProjectMenuFieldRefs {
   readonly projectId: Prisma.FieldRef<"ProjectMenu", 'BigInt'>
   readonly parentId: Prisma.FieldRef<"ProjectMenu", 'BigInt'>
   readonly label: Prisma.FieldRef<"ProjectMenu", 'String'>
+  readonly labelTranslations: Prisma.FieldRef<"ProjectMenu", 'Json'>
   readonly url: Prisma.FieldRef<"ProjectMenu", 'String'>
   readonly isExternal: Prisma.FieldRef<"ProjectMenu", 'Boolean'>
   readonly weight: Prisma.FieldRef<"ProjectMenu", 'Int'>
@@ -0,0 +1,1608 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectSale` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ProjectSale
+ * 项目售卖配置表：读者自助付费购买阅读凭证，款项直接转入版权方钱包（schema: public）
+ */
+export type ProjectSaleModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectSalePayload>
+
+export type AggregateProjectSale = {
+  _count: ProjectSaleCountAggregateOutputType | null
+  _avg: ProjectSaleAvgAggregateOutputType | null
+  _sum: ProjectSaleSumAggregateOutputType | null
+  _min: ProjectSaleMinAggregateOutputType | null
+  _max: ProjectSaleMaxAggregateOutputType | null
+}
+
+export type ProjectSaleAvgAggregateOutputType = {
+  id: number | null
+  projectId: number | null
+  priceLamports: number | null
+  supplyCap: number | null
+}
+
+export type ProjectSaleSumAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  priceLamports: bigint | null
+  supplyCap: number | null
+}
+
+export type ProjectSaleMinAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  network: string | null
+  priceLamports: bigint | null
+  receiverAddress: string | null
+  supplyCap: number | null
+  name: string | null
+  symbol: string | null
+  metadataUri: string | null
+  enabled: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectSaleMaxAggregateOutputType = {
+  id: bigint | null
+  projectId: bigint | null
+  network: string | null
+  priceLamports: bigint | null
+  receiverAddress: string | null
+  supplyCap: number | null
+  name: string | null
+  symbol: string | null
+  metadataUri: string | null
+  enabled: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectSaleCountAggregateOutputType = {
+  id: number
+  projectId: number
+  network: number
+  priceLamports: number
+  receiverAddress: number
+  supplyCap: number
+  name: number
+  symbol: number
+  metadataUri: number
+  enabled: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProjectSaleAvgAggregateInputType = {
+  id?: true
+  projectId?: true
+  priceLamports?: true
+  supplyCap?: true
+}
+
+export type ProjectSaleSumAggregateInputType = {
+  id?: true
+  projectId?: true
+  priceLamports?: true
+  supplyCap?: true
+}
+
+export type ProjectSaleMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  priceLamports?: true
+  receiverAddress?: true
+  supplyCap?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  enabled?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectSaleMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  priceLamports?: true
+  receiverAddress?: true
+  supplyCap?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  enabled?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectSaleCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  network?: true
+  priceLamports?: true
+  receiverAddress?: true
+  supplyCap?: true
+  name?: true
+  symbol?: true
+  metadataUri?: true
+  enabled?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProjectSaleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectSale to aggregate.
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectSales to fetch.
+   */
+  orderBy?: Prisma.ProjectSaleOrderByWithRelationInput | Prisma.ProjectSaleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectSaleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectSales from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectSales.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectSales
+  **/
+  _count?: true | ProjectSaleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectSaleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectSaleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectSaleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectSaleMaxAggregateInputType
+}
+
+export type GetProjectSaleAggregateType<T extends ProjectSaleAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectSale]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectSale[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectSale[P]>
+}
+
+
+
+
+export type ProjectSaleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectSaleWhereInput
+  orderBy?: Prisma.ProjectSaleOrderByWithAggregationInput | Prisma.ProjectSaleOrderByWithAggregationInput[]
+  by: Prisma.ProjectSaleScalarFieldEnum[] | Prisma.ProjectSaleScalarFieldEnum
+  having?: Prisma.ProjectSaleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectSaleCountAggregateInputType | true
+  _avg?: ProjectSaleAvgAggregateInputType
+  _sum?: ProjectSaleSumAggregateInputType
+  _min?: ProjectSaleMinAggregateInputType
+  _max?: ProjectSaleMaxAggregateInputType
+}
+
+export type ProjectSaleGroupByOutputType = {
+  id: bigint
+  projectId: bigint
+  network: string
+  priceLamports: bigint
+  receiverAddress: string
+  supplyCap: number | null
+  name: string
+  symbol: string | null
+  metadataUri: string | null
+  enabled: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: ProjectSaleCountAggregateOutputType | null
+  _avg: ProjectSaleAvgAggregateOutputType | null
+  _sum: ProjectSaleSumAggregateOutputType | null
+  _min: ProjectSaleMinAggregateOutputType | null
+  _max: ProjectSaleMaxAggregateOutputType | null
+}
+
+type GetProjectSaleGroupByPayload<T extends ProjectSaleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectSaleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectSaleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectSaleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectSaleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectSaleWhereInput = {
+  AND?: Prisma.ProjectSaleWhereInput | Prisma.ProjectSaleWhereInput[]
+  OR?: Prisma.ProjectSaleWhereInput[]
+  NOT?: Prisma.ProjectSaleWhereInput | Prisma.ProjectSaleWhereInput[]
+  id?: Prisma.BigIntFilter<"ProjectSale"> | bigint | number
+  projectId?: Prisma.BigIntFilter<"ProjectSale"> | bigint | number
+  network?: Prisma.StringFilter<"ProjectSale"> | string
+  priceLamports?: Prisma.BigIntFilter<"ProjectSale"> | bigint | number
+  receiverAddress?: Prisma.StringFilter<"ProjectSale"> | string
+  supplyCap?: Prisma.IntNullableFilter<"ProjectSale"> | number | null
+  name?: Prisma.StringFilter<"ProjectSale"> | string
+  symbol?: Prisma.StringNullableFilter<"ProjectSale"> | string | null
+  metadataUri?: Prisma.StringNullableFilter<"ProjectSale"> | string | null
+  enabled?: Prisma.BoolFilter<"ProjectSale"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ProjectSale"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectSale"> | Date | string
+  purchases?: Prisma.CnftPurchaseListRelationFilter
+}
+
+export type ProjectSaleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadataUri?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  purchases?: Prisma.CnftPurchaseOrderByRelationAggregateInput
+}
+
+export type ProjectSaleWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  projectId?: bigint | number
+  AND?: Prisma.ProjectSaleWhereInput | Prisma.ProjectSaleWhereInput[]
+  OR?: Prisma.ProjectSaleWhereInput[]
+  NOT?: Prisma.ProjectSaleWhereInput | Prisma.ProjectSaleWhereInput[]
+  network?: Prisma.StringFilter<"ProjectSale"> | string
+  priceLamports?: Prisma.BigIntFilter<"ProjectSale"> | bigint | number
+  receiverAddress?: Prisma.StringFilter<"ProjectSale"> | string
+  supplyCap?: Prisma.IntNullableFilter<"ProjectSale"> | number | null
+  name?: Prisma.StringFilter<"ProjectSale"> | string
+  symbol?: Prisma.StringNullableFilter<"ProjectSale"> | string | null
+  metadataUri?: Prisma.StringNullableFilter<"ProjectSale"> | string | null
+  enabled?: Prisma.BoolFilter<"ProjectSale"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"ProjectSale"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectSale"> | Date | string
+  purchases?: Prisma.CnftPurchaseListRelationFilter
+}, "id" | "projectId">
+
+export type ProjectSaleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadataUri?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectSaleCountOrderByAggregateInput
+  _avg?: Prisma.ProjectSaleAvgOrderByAggregateInput
+  _max?: Prisma.ProjectSaleMaxOrderByAggregateInput
+  _min?: Prisma.ProjectSaleMinOrderByAggregateInput
+  _sum?: Prisma.ProjectSaleSumOrderByAggregateInput
+}
+
+export type ProjectSaleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectSaleScalarWhereWithAggregatesInput | Prisma.ProjectSaleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectSaleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectSaleScalarWhereWithAggregatesInput | Prisma.ProjectSaleScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"ProjectSale"> | bigint | number
+  projectId?: Prisma.BigIntWithAggregatesFilter<"ProjectSale"> | bigint | number
+  network?: Prisma.StringWithAggregatesFilter<"ProjectSale"> | string
+  priceLamports?: Prisma.BigIntWithAggregatesFilter<"ProjectSale"> | bigint | number
+  receiverAddress?: Prisma.StringWithAggregatesFilter<"ProjectSale"> | string
+  supplyCap?: Prisma.IntNullableWithAggregatesFilter<"ProjectSale"> | number | null
+  name?: Prisma.StringWithAggregatesFilter<"ProjectSale"> | string
+  symbol?: Prisma.StringNullableWithAggregatesFilter<"ProjectSale"> | string | null
+  metadataUri?: Prisma.StringNullableWithAggregatesFilter<"ProjectSale"> | string | null
+  enabled?: Prisma.BoolWithAggregatesFilter<"ProjectSale"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectSale"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectSale"> | Date | string
+}
+
+export type ProjectSaleCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  priceLamports: bigint | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  purchases?: Prisma.CnftPurchaseCreateNestedManyWithoutSaleInput
+}
+
+export type ProjectSaleUncheckedCreateInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  priceLamports: bigint | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  purchases?: Prisma.CnftPurchaseUncheckedCreateNestedManyWithoutSaleInput
+}
+
+export type ProjectSaleUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchases?: Prisma.CnftPurchaseUpdateManyWithoutSaleNestedInput
+}
+
+export type ProjectSaleUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchases?: Prisma.CnftPurchaseUncheckedUpdateManyWithoutSaleNestedInput
+}
+
+export type ProjectSaleCreateManyInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  priceLamports: bigint | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectSaleUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectSaleUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectSaleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectSaleAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrder
+}
+
+export type ProjectSaleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectSaleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  receiverAddress?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  symbol?: Prisma.SortOrder
+  metadataUri?: Prisma.SortOrder
+  enabled?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectSaleSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  priceLamports?: Prisma.SortOrder
+  supplyCap?: Prisma.SortOrder
+}
+
+export type ProjectSaleScalarRelationFilter = {
+  is?: Prisma.ProjectSaleWhereInput
+  isNot?: Prisma.ProjectSaleWhereInput
+}
+
+export type ProjectSaleCreateNestedOneWithoutPurchasesInput = {
+  create?: Prisma.XOR<Prisma.ProjectSaleCreateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedCreateWithoutPurchasesInput>
+  connectOrCreate?: Prisma.ProjectSaleCreateOrConnectWithoutPurchasesInput
+  connect?: Prisma.ProjectSaleWhereUniqueInput
+}
+
+export type ProjectSaleUpdateOneRequiredWithoutPurchasesNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectSaleCreateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedCreateWithoutPurchasesInput>
+  connectOrCreate?: Prisma.ProjectSaleCreateOrConnectWithoutPurchasesInput
+  upsert?: Prisma.ProjectSaleUpsertWithoutPurchasesInput
+  connect?: Prisma.ProjectSaleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectSaleUpdateToOneWithWhereWithoutPurchasesInput, Prisma.ProjectSaleUpdateWithoutPurchasesInput>, Prisma.ProjectSaleUncheckedUpdateWithoutPurchasesInput>
+}
+
+export type ProjectSaleCreateWithoutPurchasesInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  priceLamports: bigint | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectSaleUncheckedCreateWithoutPurchasesInput = {
+  id?: bigint | number
+  projectId: bigint | number
+  network?: string
+  priceLamports: bigint | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectSaleCreateOrConnectWithoutPurchasesInput = {
+  where: Prisma.ProjectSaleWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectSaleCreateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedCreateWithoutPurchasesInput>
+}
+
+export type ProjectSaleUpsertWithoutPurchasesInput = {
+  update: Prisma.XOR<Prisma.ProjectSaleUpdateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedUpdateWithoutPurchasesInput>
+  create: Prisma.XOR<Prisma.ProjectSaleCreateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedCreateWithoutPurchasesInput>
+  where?: Prisma.ProjectSaleWhereInput
+}
+
+export type ProjectSaleUpdateToOneWithWhereWithoutPurchasesInput = {
+  where?: Prisma.ProjectSaleWhereInput
+  data: Prisma.XOR<Prisma.ProjectSaleUpdateWithoutPurchasesInput, Prisma.ProjectSaleUncheckedUpdateWithoutPurchasesInput>
+}
+
+export type ProjectSaleUpdateWithoutPurchasesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectSaleUncheckedUpdateWithoutPurchasesInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  priceLamports?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  receiverAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  supplyCap?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  symbol?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadataUri?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ProjectSaleCountOutputType
+ */
+
+export type ProjectSaleCountOutputType = {
+  purchases: number
+}
+
+export type ProjectSaleCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  purchases?: boolean | ProjectSaleCountOutputTypeCountPurchasesArgs
+}
+
+/**
+ * ProjectSaleCountOutputType without action
+ */
+export type ProjectSaleCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSaleCountOutputType
+   */
+  select?: Prisma.ProjectSaleCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ProjectSaleCountOutputType without action
+ */
+export type ProjectSaleCountOutputTypeCountPurchasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CnftPurchaseWhereInput
+}
+
+
+export type ProjectSaleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  supplyCap?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  enabled?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  purchases?: boolean | Prisma.ProjectSale$purchasesArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectSaleCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectSale"]>
+
+export type ProjectSaleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  supplyCap?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  enabled?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["projectSale"]>
+
+export type ProjectSaleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  supplyCap?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  enabled?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["projectSale"]>
+
+export type ProjectSaleSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  network?: boolean
+  priceLamports?: boolean
+  receiverAddress?: boolean
+  supplyCap?: boolean
+  name?: boolean
+  symbol?: boolean
+  metadataUri?: boolean
+  enabled?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProjectSaleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "network" | "priceLamports" | "receiverAddress" | "supplyCap" | "name" | "symbol" | "metadataUri" | "enabled" | "createdAt" | "updatedAt", ExtArgs["result"]["projectSale"]>
+export type ProjectSaleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  purchases?: boolean | Prisma.ProjectSale$purchasesArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectSaleCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ProjectSaleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type ProjectSaleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $ProjectSalePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectSale"
+  objects: {
+    purchases: Prisma.$CnftPurchasePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    projectId: bigint
+    network: string
+    priceLamports: bigint
+    receiverAddress: string
+    supplyCap: number | null
+    name: string
+    symbol: string | null
+    metadataUri: string | null
+    enabled: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["projectSale"]>
+  composites: {}
+}
+
+export type ProjectSaleGetPayload<S extends boolean | null | undefined | ProjectSaleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload, S>
+
+export type ProjectSaleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectSaleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectSaleCountAggregateInputType | true
+  }
+
+export interface ProjectSaleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectSale'], meta: { name: 'ProjectSale' } }
+  /**
+   * Find zero or one ProjectSale that matches the filter.
+   * @param {ProjectSaleFindUniqueArgs} args - Arguments to find a ProjectSale
+   * @example
+   * // Get one ProjectSale
+   * const projectSale = await prisma.projectSale.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectSaleFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectSaleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectSale that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectSaleFindUniqueOrThrowArgs} args - Arguments to find a ProjectSale
+   * @example
+   * // Get one ProjectSale
+   * const projectSale = await prisma.projectSale.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectSaleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectSaleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectSale that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleFindFirstArgs} args - Arguments to find a ProjectSale
+   * @example
+   * // Get one ProjectSale
+   * const projectSale = await prisma.projectSale.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectSaleFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectSaleFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectSale that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleFindFirstOrThrowArgs} args - Arguments to find a ProjectSale
+   * @example
+   * // Get one ProjectSale
+   * const projectSale = await prisma.projectSale.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectSaleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectSaleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectSales that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectSales
+   * const projectSales = await prisma.projectSale.findMany()
+   * 
+   * // Get first 10 ProjectSales
+   * const projectSales = await prisma.projectSale.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectSaleWithIdOnly = await prisma.projectSale.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectSaleFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectSaleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectSale.
+   * @param {ProjectSaleCreateArgs} args - Arguments to create a ProjectSale.
+   * @example
+   * // Create one ProjectSale
+   * const ProjectSale = await prisma.projectSale.create({
+   *   data: {
+   *     // ... data to create a ProjectSale
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectSaleCreateArgs>(args: Prisma.SelectSubset<T, ProjectSaleCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectSales.
+   * @param {ProjectSaleCreateManyArgs} args - Arguments to create many ProjectSales.
+   * @example
+   * // Create many ProjectSales
+   * const projectSale = await prisma.projectSale.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectSaleCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectSaleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectSales and returns the data saved in the database.
+   * @param {ProjectSaleCreateManyAndReturnArgs} args - Arguments to create many ProjectSales.
+   * @example
+   * // Create many ProjectSales
+   * const projectSale = await prisma.projectSale.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectSales and only return the `id`
+   * const projectSaleWithIdOnly = await prisma.projectSale.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectSaleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectSaleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectSale.
+   * @param {ProjectSaleDeleteArgs} args - Arguments to delete one ProjectSale.
+   * @example
+   * // Delete one ProjectSale
+   * const ProjectSale = await prisma.projectSale.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectSale
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectSaleDeleteArgs>(args: Prisma.SelectSubset<T, ProjectSaleDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectSale.
+   * @param {ProjectSaleUpdateArgs} args - Arguments to update one ProjectSale.
+   * @example
+   * // Update one ProjectSale
+   * const projectSale = await prisma.projectSale.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectSaleUpdateArgs>(args: Prisma.SelectSubset<T, ProjectSaleUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectSales.
+   * @param {ProjectSaleDeleteManyArgs} args - Arguments to filter ProjectSales to delete.
+   * @example
+   * // Delete a few ProjectSales
+   * const { count } = await prisma.projectSale.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectSaleDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectSaleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectSales.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectSales
+   * const projectSale = await prisma.projectSale.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectSaleUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectSaleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectSales and returns the data updated in the database.
+   * @param {ProjectSaleUpdateManyAndReturnArgs} args - Arguments to update many ProjectSales.
+   * @example
+   * // Update many ProjectSales
+   * const projectSale = await prisma.projectSale.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectSales and only return the `id`
+   * const projectSaleWithIdOnly = await prisma.projectSale.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectSaleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectSaleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectSale.
+   * @param {ProjectSaleUpsertArgs} args - Arguments to update or create a ProjectSale.
+   * @example
+   * // Update or create a ProjectSale
+   * const projectSale = await prisma.projectSale.upsert({
+   *   create: {
+   *     // ... data to create a ProjectSale
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectSale we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectSaleUpsertArgs>(args: Prisma.SelectSubset<T, ProjectSaleUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectSaleClient<runtime.Types.Result.GetResult<Prisma.$ProjectSalePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectSales.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleCountArgs} args - Arguments to filter ProjectSales to count.
+   * @example
+   * // Count the number of ProjectSales
+   * const count = await prisma.projectSale.count({
+   *   where: {
+   *     // ... the filter for the ProjectSales we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectSaleCountArgs>(
+    args?: Prisma.Subset<T, ProjectSaleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectSaleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectSale.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectSaleAggregateArgs>(args: Prisma.Subset<T, ProjectSaleAggregateArgs>): Prisma.PrismaPromise<GetProjectSaleAggregateType<T>>
+
+  /**
+   * Group by ProjectSale.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectSaleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectSaleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectSaleGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectSaleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectSaleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectSaleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectSale model
+ */
+readonly fields: ProjectSaleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectSale.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectSaleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  purchases<T extends Prisma.ProjectSale$purchasesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectSale$purchasesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CnftPurchasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectSale model
+ */
+export interface ProjectSaleFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectSale", 'BigInt'>
+  readonly projectId: Prisma.FieldRef<"ProjectSale", 'BigInt'>
+  readonly network: Prisma.FieldRef<"ProjectSale", 'String'>
+  readonly priceLamports: Prisma.FieldRef<"ProjectSale", 'BigInt'>
+  readonly receiverAddress: Prisma.FieldRef<"ProjectSale", 'String'>
+  readonly supplyCap: Prisma.FieldRef<"ProjectSale", 'Int'>
+  readonly name: Prisma.FieldRef<"ProjectSale", 'String'>
+  readonly symbol: Prisma.FieldRef<"ProjectSale", 'String'>
+  readonly metadataUri: Prisma.FieldRef<"ProjectSale", 'String'>
+  readonly enabled: Prisma.FieldRef<"ProjectSale", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"ProjectSale", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProjectSale", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectSale findUnique
+ */
+export type ProjectSaleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectSale to fetch.
+   */
+  where: Prisma.ProjectSaleWhereUniqueInput
+}
+
+/**
+ * ProjectSale findUniqueOrThrow
+ */
+export type ProjectSaleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectSale to fetch.
+   */
+  where: Prisma.ProjectSaleWhereUniqueInput
+}
+
+/**
+ * ProjectSale findFirst
+ */
+export type ProjectSaleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectSale to fetch.
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectSales to fetch.
+   */
+  orderBy?: Prisma.ProjectSaleOrderByWithRelationInput | Prisma.ProjectSaleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectSales.
+   */
+  cursor?: Prisma.ProjectSaleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectSales from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectSales.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectSales.
+   */
+  distinct?: Prisma.ProjectSaleScalarFieldEnum | Prisma.ProjectSaleScalarFieldEnum[]
+}
+
+/**
+ * ProjectSale findFirstOrThrow
+ */
+export type ProjectSaleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectSale to fetch.
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectSales to fetch.
+   */
+  orderBy?: Prisma.ProjectSaleOrderByWithRelationInput | Prisma.ProjectSaleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectSales.
+   */
+  cursor?: Prisma.ProjectSaleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectSales from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectSales.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectSales.
+   */
+  distinct?: Prisma.ProjectSaleScalarFieldEnum | Prisma.ProjectSaleScalarFieldEnum[]
+}
+
+/**
+ * ProjectSale findMany
+ */
+export type ProjectSaleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectSales to fetch.
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectSales to fetch.
+   */
+  orderBy?: Prisma.ProjectSaleOrderByWithRelationInput | Prisma.ProjectSaleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectSales.
+   */
+  cursor?: Prisma.ProjectSaleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectSales from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectSales.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectSaleScalarFieldEnum | Prisma.ProjectSaleScalarFieldEnum[]
+}
+
+/**
+ * ProjectSale create
+ */
+export type ProjectSaleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectSale.
+   */
+  data: Prisma.XOR<Prisma.ProjectSaleCreateInput, Prisma.ProjectSaleUncheckedCreateInput>
+}
+
+/**
+ * ProjectSale createMany
+ */
+export type ProjectSaleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectSales.
+   */
+  data: Prisma.ProjectSaleCreateManyInput | Prisma.ProjectSaleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProjectSale createManyAndReturn
+ */
+export type ProjectSaleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectSales.
+   */
+  data: Prisma.ProjectSaleCreateManyInput | Prisma.ProjectSaleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProjectSale update
+ */
+export type ProjectSaleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectSale.
+   */
+  data: Prisma.XOR<Prisma.ProjectSaleUpdateInput, Prisma.ProjectSaleUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectSale to update.
+   */
+  where: Prisma.ProjectSaleWhereUniqueInput
+}
+
+/**
+ * ProjectSale updateMany
+ */
+export type ProjectSaleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectSales.
+   */
+  data: Prisma.XOR<Prisma.ProjectSaleUpdateManyMutationInput, Prisma.ProjectSaleUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectSales to update
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * Limit how many ProjectSales to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectSale updateManyAndReturn
+ */
+export type ProjectSaleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectSales.
+   */
+  data: Prisma.XOR<Prisma.ProjectSaleUpdateManyMutationInput, Prisma.ProjectSaleUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectSales to update
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * Limit how many ProjectSales to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectSale upsert
+ */
+export type ProjectSaleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectSale to update in case it exists.
+   */
+  where: Prisma.ProjectSaleWhereUniqueInput
+  /**
+   * In case the ProjectSale found by the `where` argument doesn't exist, create a new ProjectSale with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectSaleCreateInput, Prisma.ProjectSaleUncheckedCreateInput>
+  /**
+   * In case the ProjectSale was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectSaleUpdateInput, Prisma.ProjectSaleUncheckedUpdateInput>
+}
+
+/**
+ * ProjectSale delete
+ */
+export type ProjectSaleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectSale to delete.
+   */
+  where: Prisma.ProjectSaleWhereUniqueInput
+}
+
+/**
+ * ProjectSale deleteMany
+ */
+export type ProjectSaleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectSales to delete
+   */
+  where?: Prisma.ProjectSaleWhereInput
+  /**
+   * Limit how many ProjectSales to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectSale.purchases
+ */
+export type ProjectSale$purchasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CnftPurchase
+   */
+  select?: Prisma.CnftPurchaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CnftPurchase
+   */
+  omit?: Prisma.CnftPurchaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CnftPurchaseInclude<ExtArgs> | null
+  where?: Prisma.CnftPurchaseWhereInput
+  orderBy?: Prisma.CnftPurchaseOrderByWithRelationInput | Prisma.CnftPurchaseOrderByWithRelationInput[]
+  cursor?: Prisma.CnftPurchaseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CnftPurchaseScalarFieldEnum | Prisma.CnftPurchaseScalarFieldEnum[]
+}
+
+/**
+ * ProjectSale without action
+ */
+export type ProjectSaleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectSale
+   */
+  select?: Prisma.ProjectSaleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectSale
+   */
+  omit?: Prisma.ProjectSaleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectSaleInclude<ExtArgs> | null
+}
@@ -44,6 +44,7 @@ export type ProjectVersionMinAggregateOutputType = {
   id: bigint | null
   projectId: bigint | null
   version: string | null
+  slug: string | null
   description: string | null
   weight: number | null
   status: number | null
@@ -56,6 +57,7 @@ export type ProjectVersionMaxAggregateOutputType = {
   id: bigint | null
   projectId: bigint | null
   version: string | null
+  slug: string | null
   description: string | null
   weight: number | null
   status: number | null
@@ -68,6 +70,7 @@ export type ProjectVersionCountAggregateOutputType = {
   id: number
   projectId: number
   version: number
+  slug: number
   description: number
   weight: number
   status: number
@@ -96,6 +99,7 @@ export type ProjectVersionMinAggregateInputType = {
   id?: true
   projectId?: true
   version?: true
+  slug?: true
   description?: true
   weight?: true
   status?: true
@@ -108,6 +112,7 @@ export type ProjectVersionMaxAggregateInputType = {
   id?: true
   projectId?: true
   version?: true
+  slug?: true
   description?: true
   weight?: true
   status?: true
@@ -120,6 +125,7 @@ export type ProjectVersionCountAggregateInputType = {
   id?: true
   projectId?: true
   version?: true
+  slug?: true
   description?: true
   weight?: true
   status?: true
@@ -219,6 +225,7 @@ export type ProjectVersionGroupByOutputType = {
   id: bigint
   projectId: bigint
   version: string
+  slug: string | null
   description: string | null
   weight: number
   status: number
@@ -254,6 +261,7 @@ export type ProjectVersionWhereInput = {
   id?: Prisma.BigIntFilter<"ProjectVersion"> | bigint | number
   projectId?: Prisma.BigIntFilter<"ProjectVersion"> | bigint | number
   version?: Prisma.StringFilter<"ProjectVersion"> | string
+  slug?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   description?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   weight?: Prisma.IntFilter<"ProjectVersion"> | number
   status?: Prisma.IntFilter<"ProjectVersion"> | number
@@ -268,6 +276,7 @@ export type ProjectVersionOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   projectId?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
@@ -280,11 +289,13 @@ export type ProjectVersionOrderByWithRelationInput = {
 
 export type ProjectVersionWhereUniqueInput = Prisma.AtLeast<{
   id?: bigint | number
+  projectId_slug?: Prisma.ProjectVersionProjectIdSlugCompoundUniqueInput
   AND?: Prisma.ProjectVersionWhereInput | Prisma.ProjectVersionWhereInput[]
   OR?: Prisma.ProjectVersionWhereInput[]
   NOT?: Prisma.ProjectVersionWhereInput | Prisma.ProjectVersionWhereInput[]
   projectId?: Prisma.BigIntFilter<"ProjectVersion"> | bigint | number
   version?: Prisma.StringFilter<"ProjectVersion"> | string
+  slug?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   description?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   weight?: Prisma.IntFilter<"ProjectVersion"> | number
   status?: Prisma.IntFilter<"ProjectVersion"> | number
@@ -293,12 +304,13 @@ export type ProjectVersionWhereUniqueInput = Prisma.AtLeast<{
   isDeleted?: Prisma.BoolFilter<"ProjectVersion"> | boolean
   project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
   categories?: Prisma.CategoryListRelationFilter
-}, "id">
+}, "id" | "projectId_slug">
 
 export type ProjectVersionOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   projectId?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  slug?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
@@ -319,6 +331,7 @@ export type ProjectVersionScalarWhereWithAggregatesInput = {
   id?: Prisma.BigIntWithAggregatesFilter<"ProjectVersion"> | bigint | number
   projectId?: Prisma.BigIntWithAggregatesFilter<"ProjectVersion"> | bigint | number
   version?: Prisma.StringWithAggregatesFilter<"ProjectVersion"> | string
+  slug?: Prisma.StringNullableWithAggregatesFilter<"ProjectVersion"> | string | null
   description?: Prisma.StringNullableWithAggregatesFilter<"ProjectVersion"> | string | null
   weight?: Prisma.IntWithAggregatesFilter<"ProjectVersion"> | number
   status?: Prisma.IntWithAggregatesFilter<"ProjectVersion"> | number
@@ -330,6 +343,7 @@ export type ProjectVersionScalarWhereWithAggregatesInput = {
 export type ProjectVersionCreateInput = {
   id?: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -344,6 +358,7 @@ export type ProjectVersionUncheckedCreateInput = {
   id?: bigint | number
   projectId: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -356,6 +371,7 @@ export type ProjectVersionUncheckedCreateInput = {
 export type ProjectVersionUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -370,6 +386,7 @@ export type ProjectVersionUncheckedUpdateInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -383,6 +400,7 @@ export type ProjectVersionCreateManyInput = {
   id?: bigint | number
   projectId: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -394,6 +412,7 @@ export type ProjectVersionCreateManyInput = {
 export type ProjectVersionUpdateManyMutationInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -406,6 +425,7 @@ export type ProjectVersionUncheckedUpdateManyInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -424,10 +444,16 @@ export type ProjectVersionOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type ProjectVersionProjectIdSlugCompoundUniqueInput = {
+  projectId: bigint | number
+  slug: string
+}
+
 export type ProjectVersionCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectId?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
@@ -447,6 +473,7 @@ export type ProjectVersionMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectId?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
@@ -459,6 +486,7 @@ export type ProjectVersionMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   projectId?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  slug?: Prisma.SortOrder
   description?: Prisma.SortOrder
   weight?: Prisma.SortOrder
   status?: Prisma.SortOrder
@@ -538,6 +566,7 @@ export type ProjectVersionUpdateOneRequiredWithoutCategoriesNestedInput = {
 export type ProjectVersionCreateWithoutProjectInput = {
   id?: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -550,6 +579,7 @@ export type ProjectVersionCreateWithoutProjectInput = {
 export type ProjectVersionUncheckedCreateWithoutProjectInput = {
   id?: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -592,6 +622,7 @@ export type ProjectVersionScalarWhereInput = {
   id?: Prisma.BigIntFilter<"ProjectVersion"> | bigint | number
   projectId?: Prisma.BigIntFilter<"ProjectVersion"> | bigint | number
   version?: Prisma.StringFilter<"ProjectVersion"> | string
+  slug?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   description?: Prisma.StringNullableFilter<"ProjectVersion"> | string | null
   weight?: Prisma.IntFilter<"ProjectVersion"> | number
   status?: Prisma.IntFilter<"ProjectVersion"> | number
@@ -603,6 +634,7 @@ export type ProjectVersionScalarWhereInput = {
 export type ProjectVersionCreateWithoutCategoriesInput = {
   id?: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -616,6 +648,7 @@ export type ProjectVersionUncheckedCreateWithoutCategoriesInput = {
   id?: bigint | number
   projectId: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -643,6 +676,7 @@ export type ProjectVersionUpdateToOneWithWhereWithoutCategoriesInput = {
 export type ProjectVersionUpdateWithoutCategoriesInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -656,6 +690,7 @@ export type ProjectVersionUncheckedUpdateWithoutCategoriesInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   projectId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -667,6 +702,7 @@ export type ProjectVersionUncheckedUpdateWithoutCategoriesInput = {
 export type ProjectVersionCreateManyProjectInput = {
   id?: bigint | number
   version: string
+  slug?: string | null
   description?: string | null
   weight: number
   status: number
@@ -678,6 +714,7 @@ export type ProjectVersionCreateManyProjectInput = {
 export type ProjectVersionUpdateWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -690,6 +727,7 @@ export type ProjectVersionUpdateWithoutProjectInput = {
 export type ProjectVersionUncheckedUpdateWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -702,6 +740,7 @@ export type ProjectVersionUncheckedUpdateWithoutProjectInput = {
 export type ProjectVersionUncheckedUpdateManyWithoutProjectInput = {
   id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
   version?: Prisma.StringFieldUpdateOperationsInput | string
+  slug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   weight?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.IntFieldUpdateOperationsInput | number
@@ -745,6 +784,7 @@ export type ProjectVersionSelect<ExtArgs extends runtime.Types.Extensions.Intern
   id?: boolean
   projectId?: boolean
   version?: boolean
+  slug?: boolean
   description?: boolean
   weight?: boolean
   status?: boolean
@@ -760,6 +800,7 @@ export type ProjectVersionSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   id?: boolean
   projectId?: boolean
   version?: boolean
+  slug?: boolean
   description?: boolean
   weight?: boolean
   status?: boolean
@@ -773,6 +814,7 @@ export type ProjectVersionSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   id?: boolean
   projectId?: boolean
   version?: boolean
+  slug?: boolean
   description?: boolean
   weight?: boolean
   status?: boolean
@@ -786,6 +828,7 @@ export type ProjectVersionSelectScalar = {
   id?: boolean
   projectId?: boolean
   version?: boolean
+  slug?: boolean
   description?: boolean
   weight?: boolean
   status?: boolean
@@ -794,7 +837,7 @@ export type ProjectVersionSelectScalar = {
   isDeleted?: boolean
 }
 
-export type ProjectVersionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "version" | "description" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["projectVersion"]>
+export type ProjectVersionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "version" | "slug" | "description" | "weight" | "status" | "createdAt" | "updatedAt" | "isDeleted", ExtArgs["result"]["projectVersion"]>
 export type ProjectVersionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
   categories?: boolean | Prisma.ProjectVersion$categoriesArgs<ExtArgs>
@@ -817,6 +860,7 @@ export type $ProjectVersionPayload<ExtArgs extends runtime.Types.Extensions.Inte
     id: bigint
     projectId: bigint
     version: string
+    slug: string | null
     description: string | null
     weight: number
     status: number
@@ -1251,6 +1295,7 @@ export interface ProjectVersionFieldRefs {
   readonly id: Prisma.FieldRef<"ProjectVersion", 'BigInt'>
   readonly projectId: Prisma.FieldRef<"ProjectVersion", 'BigInt'>
   readonly version: Prisma.FieldRef<"ProjectVersion", 'String'>
+  readonly slug: Prisma.FieldRef<"ProjectVersion", 'String'>
   readonly description: Prisma.FieldRef<"ProjectVersion", 'String'>
   readonly weight: Prisma.FieldRef<"ProjectVersion", 'Int'>
   readonly status: Prisma.FieldRef<"ProjectVersion", 'Int'>
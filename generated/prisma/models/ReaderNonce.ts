@@ -0,0 +1,1200 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReaderNonce` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReaderNonce
+ * 读者登录挑战表：存储签名登录的一次性 nonce 与待签名消息（schema: auth）
+ */
+export type ReaderNonceModel = runtime.Types.Result.DefaultSelection<Prisma.$ReaderNoncePayload>
+
+export type AggregateReaderNonce = {
+  _count: ReaderNonceCountAggregateOutputType | null
+  _min: ReaderNonceMinAggregateOutputType | null
+  _max: ReaderNonceMaxAggregateOutputType | null
+}
+
+export type ReaderNonceMinAggregateOutputType = {
+  id: string | null
+  walletAddress: string | null
+  nonce: string | null
+  message: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+  usedAt: Date | null
+}
+
+export type ReaderNonceMaxAggregateOutputType = {
+  id: string | null
+  walletAddress: string | null
+  nonce: string | null
+  message: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+  usedAt: Date | null
+}
+
+export type ReaderNonceCountAggregateOutputType = {
+  id: number
+  walletAddress: number
+  nonce: number
+  message: number
+  createdAt: number
+  expiresAt: number
+  usedAt: number
+  _all: number
+}
+
+
+export type ReaderNonceMinAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  nonce?: true
+  message?: true
+  createdAt?: true
+  expiresAt?: true
+  usedAt?: true
+}
+
+export type ReaderNonceMaxAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  nonce?: true
+  message?: true
+  createdAt?: true
+  expiresAt?: true
+  usedAt?: true
+}
+
+export type ReaderNonceCountAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  nonce?: true
+  message?: true
+  createdAt?: true
+  expiresAt?: true
+  usedAt?: true
+  _all?: true
+}
+
+export type ReaderNonceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReaderNonce to aggregate.
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderNonces to fetch.
+   */
+  orderBy?: Prisma.ReaderNonceOrderByWithRelationInput | Prisma.ReaderNonceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReaderNonceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderNonces from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderNonces.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReaderNonces
+  **/
+  _count?: true | ReaderNonceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReaderNonceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReaderNonceMaxAggregateInputType
+}
+
+export type GetReaderNonceAggregateType<T extends ReaderNonceAggregateArgs> = {
+      [P in keyof T & keyof AggregateReaderNonce]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReaderNonce[P]>
+    : Prisma.GetScalarType<T[P], AggregateReaderNonce[P]>
+}
+
+
+
+
+export type ReaderNonceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReaderNonceWhereInput
+  orderBy?: Prisma.ReaderNonceOrderByWithAggregationInput | Prisma.ReaderNonceOrderByWithAggregationInput[]
+  by: Prisma.ReaderNonceScalarFieldEnum[] | Prisma.ReaderNonceScalarFieldEnum
+  having?: Prisma.ReaderNonceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReaderNonceCountAggregateInputType | true
+  _min?: ReaderNonceMinAggregateInputType
+  _max?: ReaderNonceMaxAggregateInputType
+}
+
+export type ReaderNonceGroupByOutputType = {
+  id: string
+  walletAddress: string
+  nonce: string
+  message: string
+  createdAt: Date
+  expiresAt: Date
+  usedAt: Date | null
+  _count: ReaderNonceCountAggregateOutputType | null
+  _min: ReaderNonceMinAggregateOutputType | null
+  _max: ReaderNonceMaxAggregateOutputType | null
+}
+
+type GetReaderNonceGroupByPayload<T extends ReaderNonceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReaderNonceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReaderNonceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReaderNonceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReaderNonceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReaderNonceWhereInput = {
+  AND?: Prisma.ReaderNonceWhereInput | Prisma.ReaderNonceWhereInput[]
+  OR?: Prisma.ReaderNonceWhereInput[]
+  NOT?: Prisma.ReaderNonceWhereInput | Prisma.ReaderNonceWhereInput[]
+  id?: Prisma.UuidFilter<"ReaderNonce"> | string
+  walletAddress?: Prisma.StringFilter<"ReaderNonce"> | string
+  nonce?: Prisma.StringFilter<"ReaderNonce"> | string
+  message?: Prisma.StringFilter<"ReaderNonce"> | string
+  createdAt?: Prisma.DateTimeFilter<"ReaderNonce"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"ReaderNonce"> | Date | string
+  usedAt?: Prisma.DateTimeNullableFilter<"ReaderNonce"> | Date | string | null
+}
+
+export type ReaderNonceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  nonce?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+}
+
+export type ReaderNonceWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  nonce?: string
+  AND?: Prisma.ReaderNonceWhereInput | Prisma.ReaderNonceWhereInput[]
+  OR?: Prisma.ReaderNonceWhereInput[]
+  NOT?: Prisma.ReaderNonceWhereInput | Prisma.ReaderNonceWhereInput[]
+  walletAddress?: Prisma.StringFilter<"ReaderNonce"> | string
+  message?: Prisma.StringFilter<"ReaderNonce"> | string
+  createdAt?: Prisma.DateTimeFilter<"ReaderNonce"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"ReaderNonce"> | Date | string
+  usedAt?: Prisma.DateTimeNullableFilter<"ReaderNonce"> | Date | string | null
+}, "id" | "nonce">
+
+export type ReaderNonceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  nonce?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ReaderNonceCountOrderByAggregateInput
+  _max?: Prisma.ReaderNonceMaxOrderByAggregateInput
+  _min?: Prisma.ReaderNonceMinOrderByAggregateInput
+}
+
+export type ReaderNonceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReaderNonceScalarWhereWithAggregatesInput | Prisma.ReaderNonceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReaderNonceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReaderNonceScalarWhereWithAggregatesInput | Prisma.ReaderNonceScalarWhereWithAggregatesInput[]
+  id?: Prisma.UuidWithAggregatesFilter<"ReaderNonce"> | string
+  walletAddress?: Prisma.StringWithAggregatesFilter<"ReaderNonce"> | string
+  nonce?: Prisma.StringWithAggregatesFilter<"ReaderNonce"> | string
+  message?: Prisma.StringWithAggregatesFilter<"ReaderNonce"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReaderNonce"> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"ReaderNonce"> | Date | string
+  usedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReaderNonce"> | Date | string | null
+}
+
+export type ReaderNonceCreateInput = {
+  id?: string
+  walletAddress: string
+  nonce: string
+  message: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+}
+
+export type ReaderNonceUncheckedCreateInput = {
+  id?: string
+  walletAddress: string
+  nonce: string
+  message: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+}
+
+export type ReaderNonceUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  nonce?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ReaderNonceUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  nonce?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ReaderNonceCreateManyInput = {
+  id?: string
+  walletAddress: string
+  nonce: string
+  message: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+}
+
+export type ReaderNonceUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  nonce?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ReaderNonceUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  nonce?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ReaderNonceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  nonce?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+}
+
+export type ReaderNonceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  nonce?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+}
+
+export type ReaderNonceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  nonce?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+}
+
+
+
+export type ReaderNonceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  nonce?: boolean
+  message?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+}, ExtArgs["result"]["readerNonce"]>
+
+export type ReaderNonceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  nonce?: boolean
+  message?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+}, ExtArgs["result"]["readerNonce"]>
+
+export type ReaderNonceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  nonce?: boolean
+  message?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+}, ExtArgs["result"]["readerNonce"]>
+
+export type ReaderNonceSelectScalar = {
+  id?: boolean
+  walletAddress?: boolean
+  nonce?: boolean
+  message?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+}
+
+export type ReaderNonceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "walletAddress" | "nonce" | "message" | "createdAt" | "expiresAt" | "usedAt", ExtArgs["result"]["readerNonce"]>
+
+export type $ReaderNoncePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReaderNonce"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    walletAddress: string
+    nonce: string
+    message: string
+    createdAt: Date
+    expiresAt: Date
+    usedAt: Date | null
+  }, ExtArgs["result"]["readerNonce"]>
+  composites: {}
+}
+
+export type ReaderNonceGetPayload<S extends boolean | null | undefined | ReaderNonceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload, S>
+
+export type ReaderNonceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReaderNonceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReaderNonceCountAggregateInputType | true
+  }
+
+export interface ReaderNonceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReaderNonce'], meta: { name: 'ReaderNonce' } }
+  /**
+   * Find zero or one ReaderNonce that matches the filter.
+   * @param {ReaderNonceFindUniqueArgs} args - Arguments to find a ReaderNonce
+   * @example
+   * // Get one ReaderNonce
+   * const readerNonce = await prisma.readerNonce.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReaderNonceFindUniqueArgs>(args: Prisma.SelectSubset<T, ReaderNonceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReaderNonce that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReaderNonceFindUniqueOrThrowArgs} args - Arguments to find a ReaderNonce
+   * @example
+   * // Get one ReaderNonce
+   * const readerNonce = await prisma.readerNonce.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReaderNonceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReaderNonceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReaderNonce that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceFindFirstArgs} args - Arguments to find a ReaderNonce
+   * @example
+   * // Get one ReaderNonce
+   * const readerNonce = await prisma.readerNonce.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReaderNonceFindFirstArgs>(args?: Prisma.SelectSubset<T, ReaderNonceFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReaderNonce that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceFindFirstOrThrowArgs} args - Arguments to find a ReaderNonce
+   * @example
+   * // Get one ReaderNonce
+   * const readerNonce = await prisma.readerNonce.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReaderNonceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReaderNonceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReaderNonces that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReaderNonces
+   * const readerNonces = await prisma.readerNonce.findMany()
+   * 
+   * // Get first 10 ReaderNonces
+   * const readerNonces = await prisma.readerNonce.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const readerNonceWithIdOnly = await prisma.readerNonce.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReaderNonceFindManyArgs>(args?: Prisma.SelectSubset<T, ReaderNonceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReaderNonce.
+   * @param {ReaderNonceCreateArgs} args - Arguments to create a ReaderNonce.
+   * @example
+   * // Create one ReaderNonce
+   * const ReaderNonce = await prisma.readerNonce.create({
+   *   data: {
+   *     // ... data to create a ReaderNonce
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReaderNonceCreateArgs>(args: Prisma.SelectSubset<T, ReaderNonceCreateArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReaderNonces.
+   * @param {ReaderNonceCreateManyArgs} args - Arguments to create many ReaderNonces.
+   * @example
+   * // Create many ReaderNonces
+   * const readerNonce = await prisma.readerNonce.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReaderNonceCreateManyArgs>(args?: Prisma.SelectSubset<T, ReaderNonceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReaderNonces and returns the data saved in the database.
+   * @param {ReaderNonceCreateManyAndReturnArgs} args - Arguments to create many ReaderNonces.
+   * @example
+   * // Create many ReaderNonces
+   * const readerNonce = await prisma.readerNonce.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReaderNonces and only return the `id`
+   * const readerNonceWithIdOnly = await prisma.readerNonce.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReaderNonceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReaderNonceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReaderNonce.
+   * @param {ReaderNonceDeleteArgs} args - Arguments to delete one ReaderNonce.
+   * @example
+   * // Delete one ReaderNonce
+   * const ReaderNonce = await prisma.readerNonce.delete({
+   *   where: {
+   *     // ... filter to delete one ReaderNonce
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReaderNonceDeleteArgs>(args: Prisma.SelectSubset<T, ReaderNonceDeleteArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReaderNonce.
+   * @param {ReaderNonceUpdateArgs} args - Arguments to update one ReaderNonce.
+   * @example
+   * // Update one ReaderNonce
+   * const readerNonce = await prisma.readerNonce.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReaderNonceUpdateArgs>(args: Prisma.SelectSubset<T, ReaderNonceUpdateArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReaderNonces.
+   * @param {ReaderNonceDeleteManyArgs} args - Arguments to filter ReaderNonces to delete.
+   * @example
+   * // Delete a few ReaderNonces
+   * const { count } = await prisma.readerNonce.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReaderNonceDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReaderNonceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReaderNonces.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReaderNonces
+   * const readerNonce = await prisma.readerNonce.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReaderNonceUpdateManyArgs>(args: Prisma.SelectSubset<T, ReaderNonceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReaderNonces and returns the data updated in the database.
+   * @param {ReaderNonceUpdateManyAndReturnArgs} args - Arguments to update many ReaderNonces.
+   * @example
+   * // Update many ReaderNonces
+   * const readerNonce = await prisma.readerNonce.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReaderNonces and only return the `id`
+   * const readerNonceWithIdOnly = await prisma.readerNonce.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReaderNonceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReaderNonceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReaderNonce.
+   * @param {ReaderNonceUpsertArgs} args - Arguments to update or create a ReaderNonce.
+   * @example
+   * // Update or create a ReaderNonce
+   * const readerNonce = await prisma.readerNonce.upsert({
+   *   create: {
+   *     // ... data to create a ReaderNonce
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReaderNonce we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReaderNonceUpsertArgs>(args: Prisma.SelectSubset<T, ReaderNonceUpsertArgs<ExtArgs>>): Prisma.Prisma__ReaderNonceClient<runtime.Types.Result.GetResult<Prisma.$ReaderNoncePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReaderNonces.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceCountArgs} args - Arguments to filter ReaderNonces to count.
+   * @example
+   * // Count the number of ReaderNonces
+   * const count = await prisma.readerNonce.count({
+   *   where: {
+   *     // ... the filter for the ReaderNonces we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReaderNonceCountArgs>(
+    args?: Prisma.Subset<T, ReaderNonceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReaderNonceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReaderNonce.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReaderNonceAggregateArgs>(args: Prisma.Subset<T, ReaderNonceAggregateArgs>): Prisma.PrismaPromise<GetReaderNonceAggregateType<T>>
+
+  /**
+   * Group by ReaderNonce.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderNonceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReaderNonceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReaderNonceGroupByArgs['orderBy'] }
+      : { orderBy?: ReaderNonceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReaderNonceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReaderNonceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReaderNonce model
+ */
+readonly fields: ReaderNonceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReaderNonce.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReaderNonceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReaderNonce model
+ */
+export interface ReaderNonceFieldRefs {
+  readonly id: Prisma.FieldRef<"ReaderNonce", 'String'>
+  readonly walletAddress: Prisma.FieldRef<"ReaderNonce", 'String'>
+  readonly nonce: Prisma.FieldRef<"ReaderNonce", 'String'>
+  readonly message: Prisma.FieldRef<"ReaderNonce", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ReaderNonce", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"ReaderNonce", 'DateTime'>
+  readonly usedAt: Prisma.FieldRef<"ReaderNonce", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReaderNonce findUnique
+ */
+export type ReaderNonceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderNonce to fetch.
+   */
+  where: Prisma.ReaderNonceWhereUniqueInput
+}
+
+/**
+ * ReaderNonce findUniqueOrThrow
+ */
+export type ReaderNonceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderNonce to fetch.
+   */
+  where: Prisma.ReaderNonceWhereUniqueInput
+}
+
+/**
+ * ReaderNonce findFirst
+ */
+export type ReaderNonceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderNonce to fetch.
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderNonces to fetch.
+   */
+  orderBy?: Prisma.ReaderNonceOrderByWithRelationInput | Prisma.ReaderNonceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReaderNonces.
+   */
+  cursor?: Prisma.ReaderNonceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderNonces from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderNonces.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReaderNonces.
+   */
+  distinct?: Prisma.ReaderNonceScalarFieldEnum | Prisma.ReaderNonceScalarFieldEnum[]
+}
+
+/**
+ * ReaderNonce findFirstOrThrow
+ */
+export type ReaderNonceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderNonce to fetch.
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderNonces to fetch.
+   */
+  orderBy?: Prisma.ReaderNonceOrderByWithRelationInput | Prisma.ReaderNonceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReaderNonces.
+   */
+  cursor?: Prisma.ReaderNonceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderNonces from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderNonces.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReaderNonces.
+   */
+  distinct?: Prisma.ReaderNonceScalarFieldEnum | Prisma.ReaderNonceScalarFieldEnum[]
+}
+
+/**
+ * ReaderNonce findMany
+ */
+export type ReaderNonceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderNonces to fetch.
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderNonces to fetch.
+   */
+  orderBy?: Prisma.ReaderNonceOrderByWithRelationInput | Prisma.ReaderNonceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReaderNonces.
+   */
+  cursor?: Prisma.ReaderNonceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderNonces from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderNonces.
+   */
+  skip?: number
+  distinct?: Prisma.ReaderNonceScalarFieldEnum | Prisma.ReaderNonceScalarFieldEnum[]
+}
+
+/**
+ * ReaderNonce create
+ */
+export type ReaderNonceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * The data needed to create a ReaderNonce.
+   */
+  data: Prisma.XOR<Prisma.ReaderNonceCreateInput, Prisma.ReaderNonceUncheckedCreateInput>
+}
+
+/**
+ * ReaderNonce createMany
+ */
+export type ReaderNonceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReaderNonces.
+   */
+  data: Prisma.ReaderNonceCreateManyInput | Prisma.ReaderNonceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReaderNonce createManyAndReturn
+ */
+export type ReaderNonceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReaderNonces.
+   */
+  data: Prisma.ReaderNonceCreateManyInput | Prisma.ReaderNonceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReaderNonce update
+ */
+export type ReaderNonceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * The data needed to update a ReaderNonce.
+   */
+  data: Prisma.XOR<Prisma.ReaderNonceUpdateInput, Prisma.ReaderNonceUncheckedUpdateInput>
+  /**
+   * Choose, which ReaderNonce to update.
+   */
+  where: Prisma.ReaderNonceWhereUniqueInput
+}
+
+/**
+ * ReaderNonce updateMany
+ */
+export type ReaderNonceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReaderNonces.
+   */
+  data: Prisma.XOR<Prisma.ReaderNonceUpdateManyMutationInput, Prisma.ReaderNonceUncheckedUpdateManyInput>
+  /**
+   * Filter which ReaderNonces to update
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * Limit how many ReaderNonces to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderNonce updateManyAndReturn
+ */
+export type ReaderNonceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * The data used to update ReaderNonces.
+   */
+  data: Prisma.XOR<Prisma.ReaderNonceUpdateManyMutationInput, Prisma.ReaderNonceUncheckedUpdateManyInput>
+  /**
+   * Filter which ReaderNonces to update
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * Limit how many ReaderNonces to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderNonce upsert
+ */
+export type ReaderNonceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * The filter to search for the ReaderNonce to update in case it exists.
+   */
+  where: Prisma.ReaderNonceWhereUniqueInput
+  /**
+   * In case the ReaderNonce found by the `where` argument doesn't exist, create a new ReaderNonce with this data.
+   */
+  create: Prisma.XOR<Prisma.ReaderNonceCreateInput, Prisma.ReaderNonceUncheckedCreateInput>
+  /**
+   * In case the ReaderNonce was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReaderNonceUpdateInput, Prisma.ReaderNonceUncheckedUpdateInput>
+}
+
+/**
+ * ReaderNonce delete
+ */
+export type ReaderNonceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+  /**
+   * Filter which ReaderNonce to delete.
+   */
+  where: Prisma.ReaderNonceWhereUniqueInput
+}
+
+/**
+ * ReaderNonce deleteMany
+ */
+export type ReaderNonceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReaderNonces to delete
+   */
+  where?: Prisma.ReaderNonceWhereInput
+  /**
+   * Limit how many ReaderNonces to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderNonce without action
+ */
+export type ReaderNonceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderNonce
+   */
+  select?: Prisma.ReaderNonceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderNonce
+   */
+  omit?: Prisma.ReaderNonceOmit<ExtArgs> | null
+}
@@ -0,0 +1,1228 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReaderSession` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReaderSession
+ * 读者会话表：存储钱包签名登录（Sign-In-With-Solana）后的会话令牌（schema: auth）
+ */
+export type ReaderSessionModel = runtime.Types.Result.DefaultSelection<Prisma.$ReaderSessionPayload>
+
+export type AggregateReaderSession = {
+  _count: ReaderSessionCountAggregateOutputType | null
+  _min: ReaderSessionMinAggregateOutputType | null
+  _max: ReaderSessionMaxAggregateOutputType | null
+}
+
+export type ReaderSessionMinAggregateOutputType = {
+  id: string | null
+  walletAddress: string | null
+  tokenHash: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  ip: string | null
+  userAgent: string | null
+}
+
+export type ReaderSessionMaxAggregateOutputType = {
+  id: string | null
+  walletAddress: string | null
+  tokenHash: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  ip: string | null
+  userAgent: string | null
+}
+
+export type ReaderSessionCountAggregateOutputType = {
+  id: number
+  walletAddress: number
+  tokenHash: number
+  createdAt: number
+  expiresAt: number
+  revokedAt: number
+  ip: number
+  userAgent: number
+  _all: number
+}
+
+
+export type ReaderSessionMinAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  tokenHash?: true
+  createdAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  ip?: true
+  userAgent?: true
+}
+
+export type ReaderSessionMaxAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  tokenHash?: true
+  createdAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  ip?: true
+  userAgent?: true
+}
+
+export type ReaderSessionCountAggregateInputType = {
+  id?: true
+  walletAddress?: true
+  tokenHash?: true
+  createdAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  ip?: true
+  userAgent?: true
+  _all?: true
+}
+
+export type ReaderSessionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReaderSession to aggregate.
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderSessions to fetch.
+   */
+  orderBy?: Prisma.ReaderSessionOrderByWithRelationInput | Prisma.ReaderSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReaderSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReaderSessions
+  **/
+  _count?: true | ReaderSessionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReaderSessionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReaderSessionMaxAggregateInputType
+}
+
+export type GetReaderSessionAggregateType<T extends ReaderSessionAggregateArgs> = {
+      [P in keyof T & keyof AggregateReaderSession]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReaderSession[P]>
+    : Prisma.GetScalarType<T[P], AggregateReaderSession[P]>
+}
+
+
+
+
+export type ReaderSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReaderSessionWhereInput
+  orderBy?: Prisma.ReaderSessionOrderByWithAggregationInput | Prisma.ReaderSessionOrderByWithAggregationInput[]
+  by: Prisma.ReaderSessionScalarFieldEnum[] | Prisma.ReaderSessionScalarFieldEnum
+  having?: Prisma.ReaderSessionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReaderSessionCountAggregateInputType | true
+  _min?: ReaderSessionMinAggregateInputType
+  _max?: ReaderSessionMaxAggregateInputType
+}
+
+export type ReaderSessionGroupByOutputType = {
+  id: string
+  walletAddress: string
+  tokenHash: string
+  createdAt: Date
+  expiresAt: Date
+  revokedAt: Date | null
+  ip: string | null
+  userAgent: string | null
+  _count: ReaderSessionCountAggregateOutputType | null
+  _min: ReaderSessionMinAggregateOutputType | null
+  _max: ReaderSessionMaxAggregateOutputType | null
+}
+
+type GetReaderSessionGroupByPayload<T extends ReaderSessionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReaderSessionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReaderSessionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReaderSessionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReaderSessionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReaderSessionWhereInput = {
+  AND?: Prisma.ReaderSessionWhereInput | Prisma.ReaderSessionWhereInput[]
+  OR?: Prisma.ReaderSessionWhereInput[]
+  NOT?: Prisma.ReaderSessionWhereInput | Prisma.ReaderSessionWhereInput[]
+  id?: Prisma.UuidFilter<"ReaderSession"> | string
+  walletAddress?: Prisma.StringFilter<"ReaderSession"> | string
+  tokenHash?: Prisma.StringFilter<"ReaderSession"> | string
+  createdAt?: Prisma.DateTimeFilter<"ReaderSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"ReaderSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"ReaderSession"> | Date | string | null
+  ip?: Prisma.StringNullableFilter<"ReaderSession"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"ReaderSession"> | string | null
+}
+
+export type ReaderSessionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+}
+
+export type ReaderSessionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  tokenHash?: string
+  AND?: Prisma.ReaderSessionWhereInput | Prisma.ReaderSessionWhereInput[]
+  OR?: Prisma.ReaderSessionWhereInput[]
+  NOT?: Prisma.ReaderSessionWhereInput | Prisma.ReaderSessionWhereInput[]
+  walletAddress?: Prisma.StringFilter<"ReaderSession"> | string
+  createdAt?: Prisma.DateTimeFilter<"ReaderSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"ReaderSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"ReaderSession"> | Date | string | null
+  ip?: Prisma.StringNullableFilter<"ReaderSession"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"ReaderSession"> | string | null
+}, "id" | "tokenHash">
+
+export type ReaderSessionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ReaderSessionCountOrderByAggregateInput
+  _max?: Prisma.ReaderSessionMaxOrderByAggregateInput
+  _min?: Prisma.ReaderSessionMinOrderByAggregateInput
+}
+
+export type ReaderSessionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReaderSessionScalarWhereWithAggregatesInput | Prisma.ReaderSessionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReaderSessionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReaderSessionScalarWhereWithAggregatesInput | Prisma.ReaderSessionScalarWhereWithAggregatesInput[]
+  id?: Prisma.UuidWithAggregatesFilter<"ReaderSession"> | string
+  walletAddress?: Prisma.StringWithAggregatesFilter<"ReaderSession"> | string
+  tokenHash?: Prisma.StringWithAggregatesFilter<"ReaderSession"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReaderSession"> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"ReaderSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReaderSession"> | Date | string | null
+  ip?: Prisma.StringNullableWithAggregatesFilter<"ReaderSession"> | string | null
+  userAgent?: Prisma.StringNullableWithAggregatesFilter<"ReaderSession"> | string | null
+}
+
+export type ReaderSessionCreateInput = {
+  id?: string
+  walletAddress: string
+  tokenHash: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  ip?: string | null
+  userAgent?: string | null
+}
+
+export type ReaderSessionUncheckedCreateInput = {
+  id?: string
+  walletAddress: string
+  tokenHash: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  ip?: string | null
+  userAgent?: string | null
+}
+
+export type ReaderSessionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ReaderSessionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ReaderSessionCreateManyInput = {
+  id?: string
+  walletAddress: string
+  tokenHash: string
+  createdAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  ip?: string | null
+  userAgent?: string | null
+}
+
+export type ReaderSessionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ReaderSessionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  walletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ReaderSessionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+}
+
+export type ReaderSessionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+}
+
+export type ReaderSessionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  walletAddress?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+}
+
+
+
+export type ReaderSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  tokenHash?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  ip?: boolean
+  userAgent?: boolean
+}, ExtArgs["result"]["readerSession"]>
+
+export type ReaderSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  tokenHash?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  ip?: boolean
+  userAgent?: boolean
+}, ExtArgs["result"]["readerSession"]>
+
+export type ReaderSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  walletAddress?: boolean
+  tokenHash?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  ip?: boolean
+  userAgent?: boolean
+}, ExtArgs["result"]["readerSession"]>
+
+export type ReaderSessionSelectScalar = {
+  id?: boolean
+  walletAddress?: boolean
+  tokenHash?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  ip?: boolean
+  userAgent?: boolean
+}
+
+export type ReaderSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "walletAddress" | "tokenHash" | "createdAt" | "expiresAt" | "revokedAt" | "ip" | "userAgent", ExtArgs["result"]["readerSession"]>
+
+export type $ReaderSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReaderSession"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    walletAddress: string
+    tokenHash: string
+    createdAt: Date
+    expiresAt: Date
+    revokedAt: Date | null
+    ip: string | null
+    userAgent: string | null
+  }, ExtArgs["result"]["readerSession"]>
+  composites: {}
+}
+
+export type ReaderSessionGetPayload<S extends boolean | null | undefined | ReaderSessionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload, S>
+
+export type ReaderSessionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReaderSessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReaderSessionCountAggregateInputType | true
+  }
+
+export interface ReaderSessionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReaderSession'], meta: { name: 'ReaderSession' } }
+  /**
+   * Find zero or one ReaderSession that matches the filter.
+   * @param {ReaderSessionFindUniqueArgs} args - Arguments to find a ReaderSession
+   * @example
+   * // Get one ReaderSession
+   * const readerSession = await prisma.readerSession.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReaderSessionFindUniqueArgs>(args: Prisma.SelectSubset<T, ReaderSessionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReaderSession that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReaderSessionFindUniqueOrThrowArgs} args - Arguments to find a ReaderSession
+   * @example
+   * // Get one ReaderSession
+   * const readerSession = await prisma.readerSession.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReaderSessionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReaderSessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReaderSession that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionFindFirstArgs} args - Arguments to find a ReaderSession
+   * @example
+   * // Get one ReaderSession
+   * const readerSession = await prisma.readerSession.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReaderSessionFindFirstArgs>(args?: Prisma.SelectSubset<T, ReaderSessionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReaderSession that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionFindFirstOrThrowArgs} args - Arguments to find a ReaderSession
+   * @example
+   * // Get one ReaderSession
+   * const readerSession = await prisma.readerSession.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReaderSessionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReaderSessionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReaderSessions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReaderSessions
+   * const readerSessions = await prisma.readerSession.findMany()
+   * 
+   * // Get first 10 ReaderSessions
+   * const readerSessions = await prisma.readerSession.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const readerSessionWithIdOnly = await prisma.readerSession.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReaderSessionFindManyArgs>(args?: Prisma.SelectSubset<T, ReaderSessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReaderSession.
+   * @param {ReaderSessionCreateArgs} args - Arguments to create a ReaderSession.
+   * @example
+   * // Create one ReaderSession
+   * const ReaderSession = await prisma.readerSession.create({
+   *   data: {
+   *     // ... data to create a ReaderSession
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReaderSessionCreateArgs>(args: Prisma.SelectSubset<T, ReaderSessionCreateArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReaderSessions.
+   * @param {ReaderSessionCreateManyArgs} args - Arguments to create many ReaderSessions.
+   * @example
+   * // Create many ReaderSessions
+   * const readerSession = await prisma.readerSession.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReaderSessionCreateManyArgs>(args?: Prisma.SelectSubset<T, ReaderSessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReaderSessions and returns the data saved in the database.
+   * @param {ReaderSessionCreateManyAndReturnArgs} args - Arguments to create many ReaderSessions.
+   * @example
+   * // Create many ReaderSessions
+   * const readerSession = await prisma.readerSession.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReaderSessions and only return the `id`
+   * const readerSessionWithIdOnly = await prisma.readerSession.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReaderSessionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReaderSessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReaderSession.
+   * @param {ReaderSessionDeleteArgs} args - Arguments to delete one ReaderSession.
+   * @example
+   * // Delete one ReaderSession
+   * const ReaderSession = await prisma.readerSession.delete({
+   *   where: {
+   *     // ... filter to delete one ReaderSession
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReaderSessionDeleteArgs>(args: Prisma.SelectSubset<T, ReaderSessionDeleteArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReaderSession.
+   * @param {ReaderSessionUpdateArgs} args - Arguments to update one ReaderSession.
+   * @example
+   * // Update one ReaderSession
+   * const readerSession = await prisma.readerSession.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReaderSessionUpdateArgs>(args: Prisma.SelectSubset<T, ReaderSessionUpdateArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReaderSessions.
+   * @param {ReaderSessionDeleteManyArgs} args - Arguments to filter ReaderSessions to delete.
+   * @example
+   * // Delete a few ReaderSessions
+   * const { count } = await prisma.readerSession.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReaderSessionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReaderSessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReaderSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReaderSessions
+   * const readerSession = await prisma.readerSession.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReaderSessionUpdateManyArgs>(args: Prisma.SelectSubset<T, ReaderSessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReaderSessions and returns the data updated in the database.
+   * @param {ReaderSessionUpdateManyAndReturnArgs} args - Arguments to update many ReaderSessions.
+   * @example
+   * // Update many ReaderSessions
+   * const readerSession = await prisma.readerSession.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReaderSessions and only return the `id`
+   * const readerSessionWithIdOnly = await prisma.readerSession.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReaderSessionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReaderSessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReaderSession.
+   * @param {ReaderSessionUpsertArgs} args - Arguments to update or create a ReaderSession.
+   * @example
+   * // Update or create a ReaderSession
+   * const readerSession = await prisma.readerSession.upsert({
+   *   create: {
+   *     // ... data to create a ReaderSession
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReaderSession we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReaderSessionUpsertArgs>(args: Prisma.SelectSubset<T, ReaderSessionUpsertArgs<ExtArgs>>): Prisma.Prisma__ReaderSessionClient<runtime.Types.Result.GetResult<Prisma.$ReaderSessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReaderSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionCountArgs} args - Arguments to filter ReaderSessions to count.
+   * @example
+   * // Count the number of ReaderSessions
+   * const count = await prisma.readerSession.count({
+   *   where: {
+   *     // ... the filter for the ReaderSessions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReaderSessionCountArgs>(
+    args?: Prisma.Subset<T, ReaderSessionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReaderSessionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReaderSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReaderSessionAggregateArgs>(args: Prisma.Subset<T, ReaderSessionAggregateArgs>): Prisma.PrismaPromise<GetReaderSessionAggregateType<T>>
+
+  /**
+   * Group by ReaderSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReaderSessionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReaderSessionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReaderSessionGroupByArgs['orderBy'] }
+      : { orderBy?: ReaderSessionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReaderSessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReaderSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReaderSession model
+ */
+readonly fields: ReaderSessionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReaderSession.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReaderSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReaderSession model
+ */
+export interface ReaderSessionFieldRefs {
+  readonly id: Prisma.FieldRef<"ReaderSession", 'String'>
+  readonly walletAddress: Prisma.FieldRef<"ReaderSession", 'String'>
+  readonly tokenHash: Prisma.FieldRef<"ReaderSession", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ReaderSession", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"ReaderSession", 'DateTime'>
+  readonly revokedAt: Prisma.FieldRef<"ReaderSession", 'DateTime'>
+  readonly ip: Prisma.FieldRef<"ReaderSession", 'String'>
+  readonly userAgent: Prisma.FieldRef<"ReaderSession", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReaderSession findUnique
+ */
+export type ReaderSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderSession to fetch.
+   */
+  where: Prisma.ReaderSessionWhereUniqueInput
+}
+
+/**
+ * ReaderSession findUniqueOrThrow
+ */
+export type ReaderSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderSession to fetch.
+   */
+  where: Prisma.ReaderSessionWhereUniqueInput
+}
+
+/**
+ * ReaderSession findFirst
+ */
+export type ReaderSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderSession to fetch.
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderSessions to fetch.
+   */
+  orderBy?: Prisma.ReaderSessionOrderByWithRelationInput | Prisma.ReaderSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReaderSessions.
+   */
+  cursor?: Prisma.ReaderSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReaderSessions.
+   */
+  distinct?: Prisma.ReaderSessionScalarFieldEnum | Prisma.ReaderSessionScalarFieldEnum[]
+}
+
+/**
+ * ReaderSession findFirstOrThrow
+ */
+export type ReaderSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderSession to fetch.
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderSessions to fetch.
+   */
+  orderBy?: Prisma.ReaderSessionOrderByWithRelationInput | Prisma.ReaderSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReaderSessions.
+   */
+  cursor?: Prisma.ReaderSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReaderSessions.
+   */
+  distinct?: Prisma.ReaderSessionScalarFieldEnum | Prisma.ReaderSessionScalarFieldEnum[]
+}
+
+/**
+ * ReaderSession findMany
+ */
+export type ReaderSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which ReaderSessions to fetch.
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReaderSessions to fetch.
+   */
+  orderBy?: Prisma.ReaderSessionOrderByWithRelationInput | Prisma.ReaderSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReaderSessions.
+   */
+  cursor?: Prisma.ReaderSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReaderSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReaderSessions.
+   */
+  skip?: number
+  distinct?: Prisma.ReaderSessionScalarFieldEnum | Prisma.ReaderSessionScalarFieldEnum[]
+}
+
+/**
+ * ReaderSession create
+ */
+export type ReaderSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * The data needed to create a ReaderSession.
+   */
+  data: Prisma.XOR<Prisma.ReaderSessionCreateInput, Prisma.ReaderSessionUncheckedCreateInput>
+}
+
+/**
+ * ReaderSession createMany
+ */
+export type ReaderSessionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReaderSessions.
+   */
+  data: Prisma.ReaderSessionCreateManyInput | Prisma.ReaderSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReaderSession createManyAndReturn
+ */
+export type ReaderSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReaderSessions.
+   */
+  data: Prisma.ReaderSessionCreateManyInput | Prisma.ReaderSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReaderSession update
+ */
+export type ReaderSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * The data needed to update a ReaderSession.
+   */
+  data: Prisma.XOR<Prisma.ReaderSessionUpdateInput, Prisma.ReaderSessionUncheckedUpdateInput>
+  /**
+   * Choose, which ReaderSession to update.
+   */
+  where: Prisma.ReaderSessionWhereUniqueInput
+}
+
+/**
+ * ReaderSession updateMany
+ */
+export type ReaderSessionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReaderSessions.
+   */
+  data: Prisma.XOR<Prisma.ReaderSessionUpdateManyMutationInput, Prisma.ReaderSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which ReaderSessions to update
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * Limit how many ReaderSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderSession updateManyAndReturn
+ */
+export type ReaderSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * The data used to update ReaderSessions.
+   */
+  data: Prisma.XOR<Prisma.ReaderSessionUpdateManyMutationInput, Prisma.ReaderSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which ReaderSessions to update
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * Limit how many ReaderSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderSession upsert
+ */
+export type ReaderSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * The filter to search for the ReaderSession to update in case it exists.
+   */
+  where: Prisma.ReaderSessionWhereUniqueInput
+  /**
+   * In case the ReaderSession found by the `where` argument doesn't exist, create a new ReaderSession with this data.
+   */
+  create: Prisma.XOR<Prisma.ReaderSessionCreateInput, Prisma.ReaderSessionUncheckedCreateInput>
+  /**
+   * In case the ReaderSession was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReaderSessionUpdateInput, Prisma.ReaderSessionUncheckedUpdateInput>
+}
+
+/**
+ * ReaderSession delete
+ */
+export type ReaderSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+  /**
+   * Filter which ReaderSession to delete.
+   */
+  where: Prisma.ReaderSessionWhereUniqueInput
+}
+
+/**
+ * ReaderSession deleteMany
+ */
+export type ReaderSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReaderSessions to delete
+   */
+  where?: Prisma.ReaderSessionWhereInput
+  /**
+   * Limit how many ReaderSessions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReaderSession without action
+ */
+export type ReaderSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReaderSession
+   */
+  select?: Prisma.ReaderSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReaderSession
+   */
+  omit?: Prisma.ReaderSessionOmit<ExtArgs> | null
+}
@@ -0,0 +1,1235 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SlugRedirect` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SlugRedirect
+ * URL 别名跳转表：别名修改后保留旧别名，访问旧链接时 301 跳转到当前地址（schema: collections）
+ */
+export type SlugRedirectModel = runtime.Types.Result.DefaultSelection<Prisma.$SlugRedirectPayload>
+
+export type AggregateSlugRedirect = {
+  _count: SlugRedirectCountAggregateOutputType | null
+  _avg: SlugRedirectAvgAggregateOutputType | null
+  _sum: SlugRedirectSumAggregateOutputType | null
+  _min: SlugRedirectMinAggregateOutputType | null
+  _max: SlugRedirectMaxAggregateOutputType | null
+}
+
+export type SlugRedirectAvgAggregateOutputType = {
+  id: number | null
+  scopeId: number | null
+  targetId: number | null
+}
+
+export type SlugRedirectSumAggregateOutputType = {
+  id: bigint | null
+  scopeId: bigint | null
+  targetId: bigint | null
+}
+
+export type SlugRedirectMinAggregateOutputType = {
+  id: bigint | null
+  entityType: string | null
+  scopeId: bigint | null
+  oldSlug: string | null
+  targetId: bigint | null
+  createdAt: Date | null
+}
+
+export type SlugRedirectMaxAggregateOutputType = {
+  id: bigint | null
+  entityType: string | null
+  scopeId: bigint | null
+  oldSlug: string | null
+  targetId: bigint | null
+  createdAt: Date | null
+}
+
+export type SlugRedirectCountAggregateOutputType = {
+  id: number
+  entityType: number
+  scopeId: number
+  oldSlug: number
+  targetId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SlugRedirectAvgAggregateInputType = {
+  id?: true
+  scopeId?: true
+  targetId?: true
+}
+
+export type SlugRedirectSumAggregateInputType = {
+  id?: true
+  scopeId?: true
+  targetId?: true
+}
+
+export type SlugRedirectMinAggregateInputType = {
+  id?: true
+  entityType?: true
+  scopeId?: true
+  oldSlug?: true
+  targetId?: true
+  createdAt?: true
+}
+
+export type SlugRedirectMaxAggregateInputType = {
+  id?: true
+  entityType?: true
+  scopeId?: true
+  oldSlug?: true
+  targetId?: true
+  createdAt?: true
+}
+
+export type SlugRedirectCountAggregateInputType = {
+  id?: true
+  entityType?: true
+  scopeId?: true
+  oldSlug?: true
+  targetId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SlugRedirectAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SlugRedirect to aggregate.
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SlugRedirects to fetch.
+   */
+  orderBy?: Prisma.SlugRedirectOrderByWithRelationInput | Prisma.SlugRedirectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SlugRedirectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SlugRedirects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SlugRedirects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SlugRedirects
+  **/
+  _count?: true | SlugRedirectCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SlugRedirectAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SlugRedirectSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SlugRedirectMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SlugRedirectMaxAggregateInputType
+}
+
+export type GetSlugRedirectAggregateType<T extends SlugRedirectAggregateArgs> = {
+      [P in keyof T & keyof AggregateSlugRedirect]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSlugRedirect[P]>
+    : Prisma.GetScalarType<T[P], AggregateSlugRedirect[P]>
+}
+
+
+
+
+export type SlugRedirectGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SlugRedirectWhereInput
+  orderBy?: Prisma.SlugRedirectOrderByWithAggregationInput | Prisma.SlugRedirectOrderByWithAggregationInput[]
+  by: Prisma.SlugRedirectScalarFieldEnum[] | Prisma.SlugRedirectScalarFieldEnum
+  having?: Prisma.SlugRedirectScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SlugRedirectCountAggregateInputType | true
+  _avg?: SlugRedirectAvgAggregateInputType
+  _sum?: SlugRedirectSumAggregateInputType
+  _min?: SlugRedirectMinAggregateInputType
+  _max?: SlugRedirectMaxAggregateInputType
+}
+
+export type SlugRedirectGroupByOutputType = {
+  id: bigint
+  entityType: string
+  scopeId: bigint
+  oldSlug: string
+  targetId: bigint
+  createdAt: Date
+  _count: SlugRedirectCountAggregateOutputType | null
+  _avg: SlugRedirectAvgAggregateOutputType | null
+  _sum: SlugRedirectSumAggregateOutputType | null
+  _min: SlugRedirectMinAggregateOutputType | null
+  _max: SlugRedirectMaxAggregateOutputType | null
+}
+
+type GetSlugRedirectGroupByPayload<T extends SlugRedirectGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SlugRedirectGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SlugRedirectGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SlugRedirectGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SlugRedirectGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SlugRedirectWhereInput = {
+  AND?: Prisma.SlugRedirectWhereInput | Prisma.SlugRedirectWhereInput[]
+  OR?: Prisma.SlugRedirectWhereInput[]
+  NOT?: Prisma.SlugRedirectWhereInput | Prisma.SlugRedirectWhereInput[]
+  id?: Prisma.BigIntFilter<"SlugRedirect"> | bigint | number
+  entityType?: Prisma.StringFilter<"SlugRedirect"> | string
+  scopeId?: Prisma.BigIntFilter<"SlugRedirect"> | bigint | number
+  oldSlug?: Prisma.StringFilter<"SlugRedirect"> | string
+  targetId?: Prisma.BigIntFilter<"SlugRedirect"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"SlugRedirect"> | Date | string
+}
+
+export type SlugRedirectOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  oldSlug?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SlugRedirectWhereUniqueInput = Prisma.AtLeast<{
+  id?: bigint | number
+  entityType_scopeId_oldSlug?: Prisma.SlugRedirectEntityTypeScopeIdOldSlugCompoundUniqueInput
+  AND?: Prisma.SlugRedirectWhereInput | Prisma.SlugRedirectWhereInput[]
+  OR?: Prisma.SlugRedirectWhereInput[]
+  NOT?: Prisma.SlugRedirectWhereInput | Prisma.SlugRedirectWhereInput[]
+  entityType?: Prisma.StringFilter<"SlugRedirect"> | string
+  scopeId?: Prisma.BigIntFilter<"SlugRedirect"> | bigint | number
+  oldSlug?: Prisma.StringFilter<"SlugRedirect"> | string
+  targetId?: Prisma.BigIntFilter<"SlugRedirect"> | bigint | number
+  createdAt?: Prisma.DateTimeFilter<"SlugRedirect"> | Date | string
+}, "id" | "entityType_scopeId_oldSlug">
+
+export type SlugRedirectOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  oldSlug?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SlugRedirectCountOrderByAggregateInput
+  _avg?: Prisma.SlugRedirectAvgOrderByAggregateInput
+  _max?: Prisma.SlugRedirectMaxOrderByAggregateInput
+  _min?: Prisma.SlugRedirectMinOrderByAggregateInput
+  _sum?: Prisma.SlugRedirectSumOrderByAggregateInput
+}
+
+export type SlugRedirectScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SlugRedirectScalarWhereWithAggregatesInput | Prisma.SlugRedirectScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SlugRedirectScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SlugRedirectScalarWhereWithAggregatesInput | Prisma.SlugRedirectScalarWhereWithAggregatesInput[]
+  id?: Prisma.BigIntWithAggregatesFilter<"SlugRedirect"> | bigint | number
+  entityType?: Prisma.StringWithAggregatesFilter<"SlugRedirect"> | string
+  scopeId?: Prisma.BigIntWithAggregatesFilter<"SlugRedirect"> | bigint | number
+  oldSlug?: Prisma.StringWithAggregatesFilter<"SlugRedirect"> | string
+  targetId?: Prisma.BigIntWithAggregatesFilter<"SlugRedirect"> | bigint | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SlugRedirect"> | Date | string
+}
+
+export type SlugRedirectCreateInput = {
+  id?: bigint | number
+  entityType: string
+  scopeId: bigint | number
+  oldSlug: string
+  targetId: bigint | number
+  createdAt?: Date | string
+}
+
+export type SlugRedirectUncheckedCreateInput = {
+  id?: bigint | number
+  entityType: string
+  scopeId: bigint | number
+  oldSlug: string
+  targetId: bigint | number
+  createdAt?: Date | string
+}
+
+export type SlugRedirectUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  entityType?: Prisma.StringFieldUpdateOperationsInput | string
+  scopeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  oldSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SlugRedirectUncheckedUpdateInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  entityType?: Prisma.StringFieldUpdateOperationsInput | string
+  scopeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  oldSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SlugRedirectCreateManyInput = {
+  id?: bigint | number
+  entityType: string
+  scopeId: bigint | number
+  oldSlug: string
+  targetId: bigint | number
+  createdAt?: Date | string
+}
+
+export type SlugRedirectUpdateManyMutationInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  entityType?: Prisma.StringFieldUpdateOperationsInput | string
+  scopeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  oldSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SlugRedirectUncheckedUpdateManyInput = {
+  id?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  entityType?: Prisma.StringFieldUpdateOperationsInput | string
+  scopeId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  oldSlug?: Prisma.StringFieldUpdateOperationsInput | string
+  targetId?: Prisma.BigIntFieldUpdateOperationsInput | bigint | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SlugRedirectEntityTypeScopeIdOldSlugCompoundUniqueInput = {
+  entityType: string
+  scopeId: bigint | number
+  oldSlug: string
+}
+
+export type SlugRedirectCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  oldSlug?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SlugRedirectAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+}
+
+export type SlugRedirectMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  oldSlug?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SlugRedirectMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  oldSlug?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SlugRedirectSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scopeId?: Prisma.SortOrder
+  targetId?: Prisma.SortOrder
+}
+
+
+
+export type SlugRedirectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entityType?: boolean
+  scopeId?: boolean
+  oldSlug?: boolean
+  targetId?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["slugRedirect"]>
+
+export type SlugRedirectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entityType?: boolean
+  scopeId?: boolean
+  oldSlug?: boolean
+  targetId?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["slugRedirect"]>
+
+export type SlugRedirectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entityType?: boolean
+  scopeId?: boolean
+  oldSlug?: boolean
+  targetId?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["slugRedirect"]>
+
+export type SlugRedirectSelectScalar = {
+  id?: boolean
+  entityType?: boolean
+  scopeId?: boolean
+  oldSlug?: boolean
+  targetId?: boolean
+  createdAt?: boolean
+}
+
+export type SlugRedirectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "entityType" | "scopeId" | "oldSlug" | "targetId" | "createdAt", ExtArgs["result"]["slugRedirect"]>
+
+export type $SlugRedirectPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SlugRedirect"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: bigint
+    entityType: string
+    scopeId: bigint
+    oldSlug: string
+    targetId: bigint
+    createdAt: Date
+  }, ExtArgs["result"]["slugRedirect"]>
+  composites: {}
+}
+
+export type SlugRedirectGetPayload<S extends boolean | null | undefined | SlugRedirectDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload, S>
+
+export type SlugRedirectCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SlugRedirectFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SlugRedirectCountAggregateInputType | true
+  }
+
+export interface SlugRedirectDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SlugRedirect'], meta: { name: 'SlugRedirect' } }
+  /**
+   * Find zero or one SlugRedirect that matches the filter.
+   * @param {SlugRedirectFindUniqueArgs} args - Arguments to find a SlugRedirect
+   * @example
+   * // Get one SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SlugRedirectFindUniqueArgs>(args: Prisma.SelectSubset<T, SlugRedirectFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SlugRedirect that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SlugRedirectFindUniqueOrThrowArgs} args - Arguments to find a SlugRedirect
+   * @example
+   * // Get one SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SlugRedirectFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SlugRedirectFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SlugRedirect that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectFindFirstArgs} args - Arguments to find a SlugRedirect
+   * @example
+   * // Get one SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SlugRedirectFindFirstArgs>(args?: Prisma.SelectSubset<T, SlugRedirectFindFirstArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SlugRedirect that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectFindFirstOrThrowArgs} args - Arguments to find a SlugRedirect
+   * @example
+   * // Get one SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SlugRedirectFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SlugRedirectFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SlugRedirects that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SlugRedirects
+   * const slugRedirects = await prisma.slugRedirect.findMany()
+   * 
+   * // Get first 10 SlugRedirects
+   * const slugRedirects = await prisma.slugRedirect.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const slugRedirectWithIdOnly = await prisma.slugRedirect.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SlugRedirectFindManyArgs>(args?: Prisma.SelectSubset<T, SlugRedirectFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SlugRedirect.
+   * @param {SlugRedirectCreateArgs} args - Arguments to create a SlugRedirect.
+   * @example
+   * // Create one SlugRedirect
+   * const SlugRedirect = await prisma.slugRedirect.create({
+   *   data: {
+   *     // ... data to create a SlugRedirect
+   *   }
+   * })
+   * 
+   */
+  create<T extends SlugRedirectCreateArgs>(args: Prisma.SelectSubset<T, SlugRedirectCreateArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SlugRedirects.
+   * @param {SlugRedirectCreateManyArgs} args - Arguments to create many SlugRedirects.
+   * @example
+   * // Create many SlugRedirects
+   * const slugRedirect = await prisma.slugRedirect.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SlugRedirectCreateManyArgs>(args?: Prisma.SelectSubset<T, SlugRedirectCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SlugRedirects and returns the data saved in the database.
+   * @param {SlugRedirectCreateManyAndReturnArgs} args - Arguments to create many SlugRedirects.
+   * @example
+   * // Create many SlugRedirects
+   * const slugRedirect = await prisma.slugRedirect.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SlugRedirects and only return the `id`
+   * const slugRedirectWithIdOnly = await prisma.slugRedirect.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SlugRedirectCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SlugRedirectCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SlugRedirect.
+   * @param {SlugRedirectDeleteArgs} args - Arguments to delete one SlugRedirect.
+   * @example
+   * // Delete one SlugRedirect
+   * const SlugRedirect = await prisma.slugRedirect.delete({
+   *   where: {
+   *     // ... filter to delete one SlugRedirect
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SlugRedirectDeleteArgs>(args: Prisma.SelectSubset<T, SlugRedirectDeleteArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SlugRedirect.
+   * @param {SlugRedirectUpdateArgs} args - Arguments to update one SlugRedirect.
+   * @example
+   * // Update one SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SlugRedirectUpdateArgs>(args: Prisma.SelectSubset<T, SlugRedirectUpdateArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SlugRedirects.
+   * @param {SlugRedirectDeleteManyArgs} args - Arguments to filter SlugRedirects to delete.
+   * @example
+   * // Delete a few SlugRedirects
+   * const { count } = await prisma.slugRedirect.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SlugRedirectDeleteManyArgs>(args?: Prisma.SelectSubset<T, SlugRedirectDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SlugRedirects.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SlugRedirects
+   * const slugRedirect = await prisma.slugRedirect.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SlugRedirectUpdateManyArgs>(args: Prisma.SelectSubset<T, SlugRedirectUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SlugRedirects and returns the data updated in the database.
+   * @param {SlugRedirectUpdateManyAndReturnArgs} args - Arguments to update many SlugRedirects.
+   * @example
+   * // Update many SlugRedirects
+   * const slugRedirect = await prisma.slugRedirect.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SlugRedirects and only return the `id`
+   * const slugRedirectWithIdOnly = await prisma.slugRedirect.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SlugRedirectUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SlugRedirectUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SlugRedirect.
+   * @param {SlugRedirectUpsertArgs} args - Arguments to update or create a SlugRedirect.
+   * @example
+   * // Update or create a SlugRedirect
+   * const slugRedirect = await prisma.slugRedirect.upsert({
+   *   create: {
+   *     // ... data to create a SlugRedirect
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SlugRedirect we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SlugRedirectUpsertArgs>(args: Prisma.SelectSubset<T, SlugRedirectUpsertArgs<ExtArgs>>): Prisma.Prisma__SlugRedirectClient<runtime.Types.Result.GetResult<Prisma.$SlugRedirectPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SlugRedirects.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectCountArgs} args - Arguments to filter SlugRedirects to count.
+   * @example
+   * // Count the number of SlugRedirects
+   * const count = await prisma.slugRedirect.count({
+   *   where: {
+   *     // ... the filter for the SlugRedirects we want to count
+   *   }
+   * })
+  **/
+  count<T extends SlugRedirectCountArgs>(
+    args?: Prisma.Subset<T, SlugRedirectCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SlugRedirectCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SlugRedirect.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SlugRedirectAggregateArgs>(args: Prisma.Subset<T, SlugRedirectAggregateArgs>): Prisma.PrismaPromise<GetSlugRedirectAggregateType<T>>
+
+  /**
+   * Group by SlugRedirect.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SlugRedirectGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SlugRedirectGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SlugRedirectGroupByArgs['orderBy'] }
+      : { orderBy?: SlugRedirectGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SlugRedirectGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSlugRedirectGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SlugRedirect model
+ */
+readonly fields: SlugRedirectFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SlugRedirect.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SlugRedirectClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SlugRedirect model
+ */
+export interface SlugRedirectFieldRefs {
+  readonly id: Prisma.FieldRef<"SlugRedirect", 'BigInt'>
+  readonly entityType: Prisma.FieldRef<"SlugRedirect", 'String'>
+  readonly scopeId: Prisma.FieldRef<"SlugRedirect", 'BigInt'>
+  readonly oldSlug: Prisma.FieldRef<"SlugRedirect", 'String'>
+  readonly targetId: Prisma.FieldRef<"SlugRedirect", 'BigInt'>
+  readonly createdAt: Prisma.FieldRef<"SlugRedirect", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SlugRedirect findUnique
+ */
+export type SlugRedirectFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter, which SlugRedirect to fetch.
+   */
+  where: Prisma.SlugRedirectWhereUniqueInput
+}
+
+/**
+ * SlugRedirect findUniqueOrThrow
+ */
+export type SlugRedirectFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter, which SlugRedirect to fetch.
+   */
+  where: Prisma.SlugRedirectWhereUniqueInput
+}
+
+/**
+ * SlugRedirect findFirst
+ */
+export type SlugRedirectFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter, which SlugRedirect to fetch.
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SlugRedirects to fetch.
+   */
+  orderBy?: Prisma.SlugRedirectOrderByWithRelationInput | Prisma.SlugRedirectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SlugRedirects.
+   */
+  cursor?: Prisma.SlugRedirectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SlugRedirects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SlugRedirects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SlugRedirects.
+   */
+  distinct?: Prisma.SlugRedirectScalarFieldEnum | Prisma.SlugRedirectScalarFieldEnum[]
+}
+
+/**
+ * SlugRedirect findFirstOrThrow
+ */
+export type SlugRedirectFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter, which SlugRedirect to fetch.
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SlugRedirects to fetch.
+   */
+  orderBy?: Prisma.SlugRedirectOrderByWithRelationInput | Prisma.SlugRedirectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SlugRedirects.
+   */
+  cursor?: Prisma.SlugRedirectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SlugRedirects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SlugRedirects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SlugRedirects.
+   */
+  distinct?: Prisma.SlugRedirectScalarFieldEnum | Prisma.SlugRedirectScalarFieldEnum[]
+}
+
+/**
+ * SlugRedirect findMany
+ */
+export type SlugRedirectFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter, which SlugRedirects to fetch.
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SlugRedirects to fetch.
+   */
+  orderBy?: Prisma.SlugRedirectOrderByWithRelationInput | Prisma.SlugRedirectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SlugRedirects.
+   */
+  cursor?: Prisma.SlugRedirectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SlugRedirects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SlugRedirects.
+   */
+  skip?: number
+  distinct?: Prisma.SlugRedirectScalarFieldEnum | Prisma.SlugRedirectScalarFieldEnum[]
+}
+
+/**
+ * SlugRedirect create
+ */
+export type SlugRedirectCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * The data needed to create a SlugRedirect.
+   */
+  data: Prisma.XOR<Prisma.SlugRedirectCreateInput, Prisma.SlugRedirectUncheckedCreateInput>
+}
+
+/**
+ * SlugRedirect createMany
+ */
+export type SlugRedirectCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SlugRedirects.
+   */
+  data: Prisma.SlugRedirectCreateManyInput | Prisma.SlugRedirectCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SlugRedirect createManyAndReturn
+ */
+export type SlugRedirectCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * The data used to create many SlugRedirects.
+   */
+  data: Prisma.SlugRedirectCreateManyInput | Prisma.SlugRedirectCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SlugRedirect update
+ */
+export type SlugRedirectUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * The data needed to update a SlugRedirect.
+   */
+  data: Prisma.XOR<Prisma.SlugRedirectUpdateInput, Prisma.SlugRedirectUncheckedUpdateInput>
+  /**
+   * Choose, which SlugRedirect to update.
+   */
+  where: Prisma.SlugRedirectWhereUniqueInput
+}
+
+/**
+ * SlugRedirect updateMany
+ */
+export type SlugRedirectUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SlugRedirects.
+   */
+  data: Prisma.XOR<Prisma.SlugRedirectUpdateManyMutationInput, Prisma.SlugRedirectUncheckedUpdateManyInput>
+  /**
+   * Filter which SlugRedirects to update
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * Limit how many SlugRedirects to update.
+   */
+  limit?: number
+}
+
+/**
+ * SlugRedirect updateManyAndReturn
+ */
+export type SlugRedirectUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * The data used to update SlugRedirects.
+   */
+  data: Prisma.XOR<Prisma.SlugRedirectUpdateManyMutationInput, Prisma.SlugRedirectUncheckedUpdateManyInput>
+  /**
+   * Filter which SlugRedirects to update
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * Limit how many SlugRedirects to update.
+   */
+  limit?: number
+}
+
+/**
+ * SlugRedirect upsert
+ */
+export type SlugRedirectUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * The filter to search for the SlugRedirect to update in case it exists.
+   */
+  where: Prisma.SlugRedirectWhereUniqueInput
+  /**
+   * In case the SlugRedirect found by the `where` argument doesn't exist, create a new SlugRedirect with this data.
+   */
+  create: Prisma.XOR<Prisma.SlugRedirectCreateInput, Prisma.SlugRedirectUncheckedCreateInput>
+  /**
+   * In case the SlugRedirect was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SlugRedirectUpdateInput, Prisma.SlugRedirectUncheckedUpdateInput>
+}
+
+/**
+ * SlugRedirect delete
+ */
+export type SlugRedirectDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+  /**
+   * Filter which SlugRedirect to delete.
+   */
+  where: Prisma.SlugRedirectWhereUniqueInput
+}
+
+/**
+ * SlugRedirect deleteMany
+ */
+export type SlugRedirectDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SlugRedirects to delete
+   */
+  where?: Prisma.SlugRedirectWhereInput
+  /**
+   * Limit how many SlugRedirects to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SlugRedirect without action
+ */
+export type SlugRedirectDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SlugRedirect
+   */
+  select?: Prisma.SlugRedirectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SlugRedirect
+   */
+  omit?: Prisma.SlugRedirectOmit<ExtArgs> | null
+}
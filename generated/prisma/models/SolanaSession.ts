@@ -0,0 +1,1167 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SolanaSession` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SolanaSession
+ * Solana 交易会话表：保存树创建与 cNFT 铸造在 prepare 与 submit 之间的上下文，多实例共享（schema: public）
+ * 仅保存公钥、参数与加密后的私钥引用，不保存明文 Keypair
+ */
+export type SolanaSessionModel = runtime.Types.Result.DefaultSelection<Prisma.$SolanaSessionPayload>
+
+export type AggregateSolanaSession = {
+  _count: SolanaSessionCountAggregateOutputType | null
+  _min: SolanaSessionMinAggregateOutputType | null
+  _max: SolanaSessionMaxAggregateOutputType | null
+}
+
+export type SolanaSessionMinAggregateOutputType = {
+  id: string | null
+  kind: string | null
+  encryptedKey: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+}
+
+export type SolanaSessionMaxAggregateOutputType = {
+  id: string | null
+  kind: string | null
+  encryptedKey: string | null
+  createdAt: Date | null
+  expiresAt: Date | null
+}
+
+export type SolanaSessionCountAggregateOutputType = {
+  id: number
+  kind: number
+  payload: number
+  encryptedKey: number
+  createdAt: number
+  expiresAt: number
+  _all: number
+}
+
+
+export type SolanaSessionMinAggregateInputType = {
+  id?: true
+  kind?: true
+  encryptedKey?: true
+  createdAt?: true
+  expiresAt?: true
+}
+
+export type SolanaSessionMaxAggregateInputType = {
+  id?: true
+  kind?: true
+  encryptedKey?: true
+  createdAt?: true
+  expiresAt?: true
+}
+
+export type SolanaSessionCountAggregateInputType = {
+  id?: true
+  kind?: true
+  payload?: true
+  encryptedKey?: true
+  createdAt?: true
+  expiresAt?: true
+  _all?: true
+}
+
+export type SolanaSessionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SolanaSession to aggregate.
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SolanaSessions to fetch.
+   */
+  orderBy?: Prisma.SolanaSessionOrderByWithRelationInput | Prisma.SolanaSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SolanaSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SolanaSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SolanaSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SolanaSessions
+  **/
+  _count?: true | SolanaSessionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SolanaSessionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SolanaSessionMaxAggregateInputType
+}
+
+export type GetSolanaSessionAggregateType<T extends SolanaSessionAggregateArgs> = {
+      [P in keyof T & keyof AggregateSolanaSession]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSolanaSession[P]>
+    : Prisma.GetScalarType<T[P], AggregateSolanaSession[P]>
+}
+
+
+
+
+export type SolanaSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SolanaSessionWhereInput
+  orderBy?: Prisma.SolanaSessionOrderByWithAggregationInput | Prisma.SolanaSessionOrderByWithAggregationInput[]
+  by: Prisma.SolanaSessionScalarFieldEnum[] | Prisma.SolanaSessionScalarFieldEnum
+  having?: Prisma.SolanaSessionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SolanaSessionCountAggregateInputType | true
+  _min?: SolanaSessionMinAggregateInputType
+  _max?: SolanaSessionMaxAggregateInputType
+}
+
+export type SolanaSessionGroupByOutputType = {
+  id: string
+  kind: string
+  payload: runtime.JsonValue
+  encryptedKey: string | null
+  createdAt: Date
+  expiresAt: Date
+  _count: SolanaSessionCountAggregateOutputType | null
+  _min: SolanaSessionMinAggregateOutputType | null
+  _max: SolanaSessionMaxAggregateOutputType | null
+}
+
+type GetSolanaSessionGroupByPayload<T extends SolanaSessionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SolanaSessionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SolanaSessionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SolanaSessionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SolanaSessionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SolanaSessionWhereInput = {
+  AND?: Prisma.SolanaSessionWhereInput | Prisma.SolanaSessionWhereInput[]
+  OR?: Prisma.SolanaSessionWhereInput[]
+  NOT?: Prisma.SolanaSessionWhereInput | Prisma.SolanaSessionWhereInput[]
+  id?: Prisma.StringFilter<"SolanaSession"> | string
+  kind?: Prisma.StringFilter<"SolanaSession"> | string
+  payload?: Prisma.JsonFilter<"SolanaSession">
+  encryptedKey?: Prisma.StringNullableFilter<"SolanaSession"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SolanaSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"SolanaSession"> | Date | string
+}
+
+export type SolanaSessionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  encryptedKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SolanaSessionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SolanaSessionWhereInput | Prisma.SolanaSessionWhereInput[]
+  OR?: Prisma.SolanaSessionWhereInput[]
+  NOT?: Prisma.SolanaSessionWhereInput | Prisma.SolanaSessionWhereInput[]
+  kind?: Prisma.StringFilter<"SolanaSession"> | string
+  payload?: Prisma.JsonFilter<"SolanaSession">
+  encryptedKey?: Prisma.StringNullableFilter<"SolanaSession"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SolanaSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"SolanaSession"> | Date | string
+}, "id">
+
+export type SolanaSessionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  encryptedKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  _count?: Prisma.SolanaSessionCountOrderByAggregateInput
+  _max?: Prisma.SolanaSessionMaxOrderByAggregateInput
+  _min?: Prisma.SolanaSessionMinOrderByAggregateInput
+}
+
+export type SolanaSessionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SolanaSessionScalarWhereWithAggregatesInput | Prisma.SolanaSessionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SolanaSessionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SolanaSessionScalarWhereWithAggregatesInput | Prisma.SolanaSessionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SolanaSession"> | string
+  kind?: Prisma.StringWithAggregatesFilter<"SolanaSession"> | string
+  payload?: Prisma.JsonWithAggregatesFilter<"SolanaSession">
+  encryptedKey?: Prisma.StringNullableWithAggregatesFilter<"SolanaSession"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SolanaSession"> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"SolanaSession"> | Date | string
+}
+
+export type SolanaSessionCreateInput = {
+  id: string
+  kind: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: string | null
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type SolanaSessionUncheckedCreateInput = {
+  id: string
+  kind: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: string | null
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type SolanaSessionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SolanaSessionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SolanaSessionCreateManyInput = {
+  id: string
+  kind: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: string | null
+  createdAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type SolanaSessionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SolanaSessionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  encryptedKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SolanaSessionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  encryptedKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SolanaSessionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  encryptedKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SolanaSessionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  encryptedKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+
+
+export type SolanaSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  payload?: boolean
+  encryptedKey?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["solanaSession"]>
+
+export type SolanaSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  payload?: boolean
+  encryptedKey?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["solanaSession"]>
+
+export type SolanaSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  kind?: boolean
+  payload?: boolean
+  encryptedKey?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["solanaSession"]>
+
+export type SolanaSessionSelectScalar = {
+  id?: boolean
+  kind?: boolean
+  payload?: boolean
+  encryptedKey?: boolean
+  createdAt?: boolean
+  expiresAt?: boolean
+}
+
+export type SolanaSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "kind" | "payload" | "encryptedKey" | "createdAt" | "expiresAt", ExtArgs["result"]["solanaSession"]>
+
+export type $SolanaSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SolanaSession"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    kind: string
+    payload: runtime.JsonValue
+    encryptedKey: string | null
+    createdAt: Date
+    expiresAt: Date
+  }, ExtArgs["result"]["solanaSession"]>
+  composites: {}
+}
+
+export type SolanaSessionGetPayload<S extends boolean | null | undefined | SolanaSessionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload, S>
+
+export type SolanaSessionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SolanaSessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SolanaSessionCountAggregateInputType | true
+  }
+
+export interface SolanaSessionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SolanaSession'], meta: { name: 'SolanaSession' } }
+  /**
+   * Find zero or one SolanaSession that matches the filter.
+   * @param {SolanaSessionFindUniqueArgs} args - Arguments to find a SolanaSession
+   * @example
+   * // Get one SolanaSession
+   * const solanaSession = await prisma.solanaSession.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SolanaSessionFindUniqueArgs>(args: Prisma.SelectSubset<T, SolanaSessionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SolanaSession that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SolanaSessionFindUniqueOrThrowArgs} args - Arguments to find a SolanaSession
+   * @example
+   * // Get one SolanaSession
+   * const solanaSession = await prisma.solanaSession.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SolanaSessionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SolanaSessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SolanaSession that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionFindFirstArgs} args - Arguments to find a SolanaSession
+   * @example
+   * // Get one SolanaSession
+   * const solanaSession = await prisma.solanaSession.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SolanaSessionFindFirstArgs>(args?: Prisma.SelectSubset<T, SolanaSessionFindFirstArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SolanaSession that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionFindFirstOrThrowArgs} args - Arguments to find a SolanaSession
+   * @example
+   * // Get one SolanaSession
+   * const solanaSession = await prisma.solanaSession.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SolanaSessionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SolanaSessionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SolanaSessions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SolanaSessions
+   * const solanaSessions = await prisma.solanaSession.findMany()
+   * 
+   * // Get first 10 SolanaSessions
+   * const solanaSessions = await prisma.solanaSession.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const solanaSessionWithIdOnly = await prisma.solanaSession.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SolanaSessionFindManyArgs>(args?: Prisma.SelectSubset<T, SolanaSessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SolanaSession.
+   * @param {SolanaSessionCreateArgs} args - Arguments to create a SolanaSession.
+   * @example
+   * // Create one SolanaSession
+   * const SolanaSession = await prisma.solanaSession.create({
+   *   data: {
+   *     // ... data to create a SolanaSession
+   *   }
+   * })
+   * 
+   */
+  create<T extends SolanaSessionCreateArgs>(args: Prisma.SelectSubset<T, SolanaSessionCreateArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SolanaSessions.
+   * @param {SolanaSessionCreateManyArgs} args - Arguments to create many SolanaSessions.
+   * @example
+   * // Create many SolanaSessions
+   * const solanaSession = await prisma.solanaSession.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SolanaSessionCreateManyArgs>(args?: Prisma.SelectSubset<T, SolanaSessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SolanaSessions and returns the data saved in the database.
+   * @param {SolanaSessionCreateManyAndReturnArgs} args - Arguments to create many SolanaSessions.
+   * @example
+   * // Create many SolanaSessions
+   * const solanaSession = await prisma.solanaSession.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SolanaSessions and only return the `id`
+   * const solanaSessionWithIdOnly = await prisma.solanaSession.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SolanaSessionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SolanaSessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SolanaSession.
+   * @param {SolanaSessionDeleteArgs} args - Arguments to delete one SolanaSession.
+   * @example
+   * // Delete one SolanaSession
+   * const SolanaSession = await prisma.solanaSession.delete({
+   *   where: {
+   *     // ... filter to delete one SolanaSession
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SolanaSessionDeleteArgs>(args: Prisma.SelectSubset<T, SolanaSessionDeleteArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SolanaSession.
+   * @param {SolanaSessionUpdateArgs} args - Arguments to update one SolanaSession.
+   * @example
+   * // Update one SolanaSession
+   * const solanaSession = await prisma.solanaSession.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SolanaSessionUpdateArgs>(args: Prisma.SelectSubset<T, SolanaSessionUpdateArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SolanaSessions.
+   * @param {SolanaSessionDeleteManyArgs} args - Arguments to filter SolanaSessions to delete.
+   * @example
+   * // Delete a few SolanaSessions
+   * const { count } = await prisma.solanaSession.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SolanaSessionDeleteManyArgs>(args?: Prisma.SelectSubset<T, SolanaSessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SolanaSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SolanaSessions
+   * const solanaSession = await prisma.solanaSession.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SolanaSessionUpdateManyArgs>(args: Prisma.SelectSubset<T, SolanaSessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SolanaSessions and returns the data updated in the database.
+   * @param {SolanaSessionUpdateManyAndReturnArgs} args - Arguments to update many SolanaSessions.
+   * @example
+   * // Update many SolanaSessions
+   * const solanaSession = await prisma.solanaSession.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SolanaSessions and only return the `id`
+   * const solanaSessionWithIdOnly = await prisma.solanaSession.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SolanaSessionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SolanaSessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SolanaSession.
+   * @param {SolanaSessionUpsertArgs} args - Arguments to update or create a SolanaSession.
+   * @example
+   * // Update or create a SolanaSession
+   * const solanaSession = await prisma.solanaSession.upsert({
+   *   create: {
+   *     // ... data to create a SolanaSession
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SolanaSession we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SolanaSessionUpsertArgs>(args: Prisma.SelectSubset<T, SolanaSessionUpsertArgs<ExtArgs>>): Prisma.Prisma__SolanaSessionClient<runtime.Types.Result.GetResult<Prisma.$SolanaSessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SolanaSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionCountArgs} args - Arguments to filter SolanaSessions to count.
+   * @example
+   * // Count the number of SolanaSessions
+   * const count = await prisma.solanaSession.count({
+   *   where: {
+   *     // ... the filter for the SolanaSessions we want to count
+   *   }
+   * })
+  **/
+  count<T extends SolanaSessionCountArgs>(
+    args?: Prisma.Subset<T, SolanaSessionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SolanaSessionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SolanaSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SolanaSessionAggregateArgs>(args: Prisma.Subset<T, SolanaSessionAggregateArgs>): Prisma.PrismaPromise<GetSolanaSessionAggregateType<T>>
+
+  /**
+   * Group by SolanaSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SolanaSessionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SolanaSessionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SolanaSessionGroupByArgs['orderBy'] }
+      : { orderBy?: SolanaSessionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SolanaSessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSolanaSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SolanaSession model
+ */
+readonly fields: SolanaSessionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SolanaSession.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SolanaSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SolanaSession model
+ */
+export interface SolanaSessionFieldRefs {
+  readonly id: Prisma.FieldRef<"SolanaSession", 'String'>
+  readonly kind: Prisma.FieldRef<"SolanaSession", 'String'>
+  readonly payload: Prisma.FieldRef<"SolanaSession", 'Json'>
+  readonly encryptedKey: Prisma.FieldRef<"SolanaSession", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SolanaSession", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"SolanaSession", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SolanaSession findUnique
+ */
+export type SolanaSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which SolanaSession to fetch.
+   */
+  where: Prisma.SolanaSessionWhereUniqueInput
+}
+
+/**
+ * SolanaSession findUniqueOrThrow
+ */
+export type SolanaSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which SolanaSession to fetch.
+   */
+  where: Prisma.SolanaSessionWhereUniqueInput
+}
+
+/**
+ * SolanaSession findFirst
+ */
+export type SolanaSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which SolanaSession to fetch.
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SolanaSessions to fetch.
+   */
+  orderBy?: Prisma.SolanaSessionOrderByWithRelationInput | Prisma.SolanaSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SolanaSessions.
+   */
+  cursor?: Prisma.SolanaSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SolanaSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SolanaSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SolanaSessions.
+   */
+  distinct?: Prisma.SolanaSessionScalarFieldEnum | Prisma.SolanaSessionScalarFieldEnum[]
+}
+
+/**
+ * SolanaSession findFirstOrThrow
+ */
+export type SolanaSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which SolanaSession to fetch.
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SolanaSessions to fetch.
+   */
+  orderBy?: Prisma.SolanaSessionOrderByWithRelationInput | Prisma.SolanaSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SolanaSessions.
+   */
+  cursor?: Prisma.SolanaSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SolanaSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SolanaSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SolanaSessions.
+   */
+  distinct?: Prisma.SolanaSessionScalarFieldEnum | Prisma.SolanaSessionScalarFieldEnum[]
+}
+
+/**
+ * SolanaSession findMany
+ */
+export type SolanaSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter, which SolanaSessions to fetch.
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SolanaSessions to fetch.
+   */
+  orderBy?: Prisma.SolanaSessionOrderByWithRelationInput | Prisma.SolanaSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SolanaSessions.
+   */
+  cursor?: Prisma.SolanaSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SolanaSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SolanaSessions.
+   */
+  skip?: number
+  distinct?: Prisma.SolanaSessionScalarFieldEnum | Prisma.SolanaSessionScalarFieldEnum[]
+}
+
+/**
+ * SolanaSession create
+ */
+export type SolanaSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * The data needed to create a SolanaSession.
+   */
+  data: Prisma.XOR<Prisma.SolanaSessionCreateInput, Prisma.SolanaSessionUncheckedCreateInput>
+}
+
+/**
+ * SolanaSession createMany
+ */
+export type SolanaSessionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SolanaSessions.
+   */
+  data: Prisma.SolanaSessionCreateManyInput | Prisma.SolanaSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SolanaSession createManyAndReturn
+ */
+export type SolanaSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * The data used to create many SolanaSessions.
+   */
+  data: Prisma.SolanaSessionCreateManyInput | Prisma.SolanaSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SolanaSession update
+ */
+export type SolanaSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * The data needed to update a SolanaSession.
+   */
+  data: Prisma.XOR<Prisma.SolanaSessionUpdateInput, Prisma.SolanaSessionUncheckedUpdateInput>
+  /**
+   * Choose, which SolanaSession to update.
+   */
+  where: Prisma.SolanaSessionWhereUniqueInput
+}
+
+/**
+ * SolanaSession updateMany
+ */
+export type SolanaSessionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SolanaSessions.
+   */
+  data: Prisma.XOR<Prisma.SolanaSessionUpdateManyMutationInput, Prisma.SolanaSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which SolanaSessions to update
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * Limit how many SolanaSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * SolanaSession updateManyAndReturn
+ */
+export type SolanaSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * The data used to update SolanaSessions.
+   */
+  data: Prisma.XOR<Prisma.SolanaSessionUpdateManyMutationInput, Prisma.SolanaSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which SolanaSessions to update
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * Limit how many SolanaSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * SolanaSession upsert
+ */
+export type SolanaSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * The filter to search for the SolanaSession to update in case it exists.
+   */
+  where: Prisma.SolanaSessionWhereUniqueInput
+  /**
+   * In case the SolanaSession found by the `where` argument doesn't exist, create a new SolanaSession with this data.
+   */
+  create: Prisma.XOR<Prisma.SolanaSessionCreateInput, Prisma.SolanaSessionUncheckedCreateInput>
+  /**
+   * In case the SolanaSession was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SolanaSessionUpdateInput, Prisma.SolanaSessionUncheckedUpdateInput>
+}
+
+/**
+ * SolanaSession delete
+ */
+export type SolanaSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+  /**
+   * Filter which SolanaSession to delete.
+   */
+  where: Prisma.SolanaSessionWhereUniqueInput
+}
+
+/**
+ * SolanaSession deleteMany
+ */
+export type SolanaSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SolanaSessions to delete
+   */
+  where?: Prisma.SolanaSessionWhereInput
+  /**
+   * Limit how many SolanaSessions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SolanaSession without action
+ */
+export type SolanaSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SolanaSession
+   */
+  select?: Prisma.SolanaSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SolanaSession
+   */
+  omit?: Prisma.SolanaSessionOmit<ExtArgs> | null
+}
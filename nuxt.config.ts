@@ -43,6 +43,16 @@ export default defineNuxtConfig({
 
     // Nitro 服务端配置
     nitro: {
+        // 启用 server/tasks 任务（npx nuxi task run <name>）
+        experimental: {
+            tasks: true,
+        },
+        // 定时任务：对账 prepare/submit 之间会话丢失遗留的 Solana 记录；按 DAS 索引同步 cNFT 持有者；执行到期的笔记定时发布与下线
+        scheduledTasks: {
+            '* * * * *': ['notes:schedule'],
+            '*/10 * * * *': ['solana:recover'],
+            '0 * * * *': ['solana:ownership'],
+        },
         // ESM 兼容性配置
         esbuild: {
             options: {
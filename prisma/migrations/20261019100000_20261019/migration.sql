@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "auth"."ReaderSession" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "walletAddress" VARCHAR(64) NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(6) NOT NULL,
+    "revokedAt" TIMESTAMP(6),
+    "ip" VARCHAR(255),
+    "userAgent" TEXT,
+
+    CONSTRAINT "ReaderSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "auth"."ReaderNonce" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "walletAddress" VARCHAR(64) NOT NULL,
+    "nonce" VARCHAR(64) NOT NULL,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(6) NOT NULL,
+    "usedAt" TIMESTAMP(6),
+
+    CONSTRAINT "ReaderNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReaderSession_tokenHash_key" ON "auth"."ReaderSession"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "idx_reader_session_wallet" ON "auth"."ReaderSession"("walletAddress");
+
+-- CreateIndex
+CREATE INDEX "idx_reader_session_expiresat" ON "auth"."ReaderSession"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReaderNonce_nonce_key" ON "auth"."ReaderNonce"("nonce");
+
+-- CreateIndex
+CREATE INDEX "idx_reader_nonce_expiresat" ON "auth"."ReaderNonce"("expiresAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "docs"."NoteSearchIndex" (
+    "noteInfoId" BIGINT NOT NULL,
+    "noteContentId" BIGINT,
+    "title" VARCHAR(255) NOT NULL,
+    "body" TEXT NOT NULL,
+    "searchVector" tsvector NOT NULL,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteSearchIndex_pkey" PRIMARY KEY ("noteInfoId")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_note_search_vector" ON "docs"."NoteSearchIndex" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "docs"."NoteSearchIndex" ADD CONSTRAINT "fk_note_search_noteinfo" FOREIGN KEY ("noteInfoId") REFERENCES "docs"."NoteInfo"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,23 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+CREATE TABLE "docs"."NoteEmbeddingChunk" (
+    "id" BIGSERIAL NOT NULL,
+    "noteInfoId" BIGINT NOT NULL,
+    "noteContentId" BIGINT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "heading" VARCHAR(500),
+    "content" TEXT NOT NULL,
+    "embedding" vector(1024) NOT NULL,
+    "provider" VARCHAR(100) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteEmbeddingChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_note_embedding_noteinfoid" ON "docs"."NoteEmbeddingChunk"("noteInfoId");
+
+-- AddForeignKey
+ALTER TABLE "docs"."NoteEmbeddingChunk" ADD CONSTRAINT "fk_note_embedding_noteinfo" FOREIGN KEY ("noteInfoId") REFERENCES "docs"."NoteInfo"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "docs"."NoteContentRevision" (
+    "id" BIGSERIAL NOT NULL,
+    "noteContentId" BIGINT NOT NULL,
+    "noteInfoId" BIGINT NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentHash" CHAR(64) NOT NULL,
+    "action" VARCHAR(20) NOT NULL DEFAULT 'update',
+    "userId" INTEGER,
+    "username" VARCHAR(255),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteContentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_note_revision_content_created" ON "docs"."NoteContentRevision"("noteContentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "idx_note_revision_noteinfoid" ON "docs"."NoteContentRevision"("noteInfoId");
+
+-- AddForeignKey
+ALTER TABLE "docs"."NoteContentRevision" ADD CONSTRAINT "fk_note_revision_notecontent" FOREIGN KEY ("noteContentId") REFERENCES "docs"."NoteContent"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."file_management" ADD COLUMN     "storage_driver" VARCHAR(20) NOT NULL DEFAULT 'local';
+
+-- CreateIndex
+CREATE INDEX "idx_file_management_file_path" ON "public"."file_management"("file_path");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."file_management" ADD COLUMN     "sha256" CHAR(64);
+
+-- CreateTable
+CREATE TABLE "public"."file_reference" (
+    "id" BIGSERIAL NOT NULL,
+    "file_id" BIGINT NOT NULL,
+    "ref_type" VARCHAR(30) NOT NULL,
+    "ref_id" BIGINT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "file_reference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_file_management_sha256" ON "public"."file_management"("sha256");
+
+-- CreateIndex
+CREATE INDEX "idx_file_reference_ref" ON "public"."file_reference"("ref_type", "ref_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_file_reference" ON "public"."file_reference"("file_id", "ref_type", "ref_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."file_reference" ADD CONSTRAINT "fk_file_reference_file" FOREIGN KEY ("file_id") REFERENCES "public"."file_management"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."solana_session" (
+    "id" VARCHAR(64) NOT NULL,
+    "kind" VARCHAR(10) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "encrypted_key" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "solana_session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_solana_session_expires_at" ON "public"."solana_session"("expires_at");
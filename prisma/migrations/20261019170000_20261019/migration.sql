@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "public"."cnft_mint_job" (
+    "id" BIGSERIAL NOT NULL,
+    "project_id" BIGINT NOT NULL,
+    "network" VARCHAR(20) NOT NULL DEFAULT 'devnet',
+    "name" VARCHAR(128) NOT NULL,
+    "symbol" VARCHAR(32),
+    "metadata_uri" VARCHAR(500),
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "status" SMALLINT NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cnft_mint_job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."cnft_mint_job_item" (
+    "id" BIGSERIAL NOT NULL,
+    "job_id" BIGINT NOT NULL,
+    "row_number" INTEGER NOT NULL,
+    "owner_address" VARCHAR(64) NOT NULL,
+    "name" VARCHAR(128),
+    "cnft_id" BIGINT,
+    "tx_signature" VARCHAR(128),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error_message" VARCHAR(500),
+    "status" SMALLINT NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cnft_mint_job_item_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_mint_job_network" ON "public"."cnft_mint_job"("network", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_mint_job_item_job_status" ON "public"."cnft_mint_job_item"("job_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_mint_job_item_cnft" ON "public"."cnft_mint_job_item"("cnft_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."cnft_mint_job_item" ADD CONSTRAINT "fk_cnft_mint_job_item_job" FOREIGN KEY ("job_id") REFERENCES "public"."cnft_mint_job"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
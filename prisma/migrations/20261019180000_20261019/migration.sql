@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."compressed_nft" ADD COLUMN     "owner_synced_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "public"."cnft_transfer" (
+    "id" BIGSERIAL NOT NULL,
+    "cnft_id" BIGINT NOT NULL,
+    "event" VARCHAR(16) NOT NULL,
+    "from_address" VARCHAR(64) NOT NULL,
+    "to_address" VARCHAR(64),
+    "source" VARCHAR(16) NOT NULL DEFAULT 'sync',
+    "tx_signature" VARCHAR(128),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cnft_transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_transfer_cnft" ON "public"."cnft_transfer"("cnft_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."cnft_transfer" ADD CONSTRAINT "fk_cnft_transfer_cnft" FOREIGN KEY ("cnft_id") REFERENCES "public"."compressed_nft"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
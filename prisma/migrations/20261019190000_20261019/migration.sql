@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."compressed_nft" ADD COLUMN     "delegate_address" VARCHAR(64);
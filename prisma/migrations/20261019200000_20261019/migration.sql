@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "public"."project_sale" (
+    "id" BIGSERIAL NOT NULL,
+    "project_id" BIGINT NOT NULL,
+    "network" VARCHAR(20) NOT NULL DEFAULT 'devnet',
+    "price_lamports" BIGINT NOT NULL,
+    "receiver_address" VARCHAR(64) NOT NULL,
+    "supply_cap" INTEGER,
+    "name" VARCHAR(128) NOT NULL,
+    "symbol" VARCHAR(32),
+    "metadata_uri" VARCHAR(500),
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_sale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."cnft_purchase" (
+    "id" BIGSERIAL NOT NULL,
+    "sale_id" BIGINT NOT NULL,
+    "project_id" BIGINT NOT NULL,
+    "buyer_address" VARCHAR(64) NOT NULL,
+    "cnft_id" BIGINT,
+    "price_lamports" BIGINT NOT NULL,
+    "receiver_address" VARCHAR(64) NOT NULL,
+    "tx_signature" VARCHAR(128),
+    "error_message" VARCHAR(500),
+    "status" SMALLINT NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cnft_purchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_sale_project_id_key" ON "public"."project_sale"("project_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_cnft_purchase_buyer" ON "public"."cnft_purchase"("sale_id", "buyer_address");
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_purchase_sale_status" ON "public"."cnft_purchase"("sale_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_cnft_purchase_cnft" ON "public"."cnft_purchase"("cnft_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."cnft_purchase" ADD CONSTRAINT "fk_cnft_purchase_sale" FOREIGN KEY ("sale_id") REFERENCES "public"."project_sale"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "collections"."Category" ADD COLUMN     "accessLevel" VARCHAR(16) NOT NULL DEFAULT 'inherit';
+
+-- AlterTable
+ALTER TABLE "docs"."NoteInfo" ADD COLUMN     "accessLevel" VARCHAR(16) NOT NULL DEFAULT 'inherit';
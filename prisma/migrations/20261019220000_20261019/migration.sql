@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "public"."access_grant" (
+    "id" BIGSERIAL NOT NULL,
+    "project_id" BIGINT NOT NULL,
+    "wallet_address" VARCHAR(64) NOT NULL,
+    "email" VARCHAR(255),
+    "grant_type" VARCHAR(20) NOT NULL DEFAULT 'trial',
+    "reason" VARCHAR(500) NOT NULL,
+    "starts_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ(6),
+    "revoked_at" TIMESTAMPTZ(6),
+    "revoke_reason" VARCHAR(500),
+    "issued_by_id" INTEGER,
+    "issued_by_name" VARCHAR(255),
+    "revoked_by_id" INTEGER,
+    "revoked_by_name" VARCHAR(255),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "access_grant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."access_grant_log" (
+    "id" BIGSERIAL NOT NULL,
+    "grant_id" BIGINT NOT NULL,
+    "action" VARCHAR(20) NOT NULL,
+    "changes" JSONB,
+    "reason" VARCHAR(500),
+    "user_id" INTEGER,
+    "username" VARCHAR(255),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "access_grant_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_access_grant_project_wallet" ON "public"."access_grant"("project_id", "wallet_address");
+
+-- CreateIndex
+CREATE INDEX "idx_access_grant_wallet" ON "public"."access_grant"("wallet_address");
+
+-- CreateIndex
+CREATE INDEX "idx_access_grant_log_grant_created" ON "public"."access_grant_log"("grant_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."access_grant_log" ADD CONSTRAINT "fk_access_grant_log_grant" FOREIGN KEY ("grant_id") REFERENCES "public"."access_grant"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
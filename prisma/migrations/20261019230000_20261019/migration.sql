@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "collections"."Project" ADD COLUMN     "slug" VARCHAR(128);
+
+-- AlterTable
+ALTER TABLE "collections"."ProjectVersion" ADD COLUMN     "slug" VARCHAR(128);
+
+-- AlterTable
+ALTER TABLE "docs"."NoteInfo" ADD COLUMN     "slug" VARCHAR(128);
+
+-- CreateTable
+CREATE TABLE "collections"."SlugRedirect" (
+    "id" BIGSERIAL NOT NULL,
+    "entityType" VARCHAR(16) NOT NULL,
+    "scopeId" BIGINT NOT NULL,
+    "oldSlug" VARCHAR(128) NOT NULL,
+    "targetId" BIGINT NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SlugRedirect_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_slug_key" ON "collections"."Project"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_project_version_slug" ON "collections"."ProjectVersion"("projectId", "slug");
+
+-- CreateIndex
+CREATE INDEX "idx_noteinfo_slug" ON "docs"."NoteInfo"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_slug_redirect" ON "collections"."SlugRedirect"("entityType", "scopeId", "oldSlug");
+
+-- CreateIndex
+CREATE INDEX "idx_slug_redirect_target" ON "collections"."SlugRedirect"("entityType", "targetId");
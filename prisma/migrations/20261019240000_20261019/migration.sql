@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "collections"."Project" ADD COLUMN     "canonicalUrl" VARCHAR(500),
+ADD COLUMN     "ogImage" VARCHAR(500),
+ADD COLUMN     "seoDescription" VARCHAR(512),
+ADD COLUMN     "seoKeywords" VARCHAR(255),
+ADD COLUMN     "seoTitle" VARCHAR(255);
+
+-- AlterTable
+ALTER TABLE "docs"."NoteInfo" ADD COLUMN     "canonicalUrl" VARCHAR(500),
+ADD COLUMN     "ogImage" VARCHAR(500),
+ADD COLUMN     "seoDescription" VARCHAR(512),
+ADD COLUMN     "seoKeywords" VARCHAR(255),
+ADD COLUMN     "seoTitle" VARCHAR(255);
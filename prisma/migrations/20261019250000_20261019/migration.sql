@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "collections"."Category" ADD COLUMN     "nameTranslations" JSONB;
+
+-- AlterTable
+ALTER TABLE "collections"."ProjectMenu" ADD COLUMN     "labelTranslations" JSONB;
+
+-- AlterTable
+ALTER TABLE "docs"."NoteContent" ADD COLUMN     "locale" VARCHAR(16),
+ADD COLUMN     "title" VARCHAR(255);
+
+-- CreateTable
+CREATE TABLE "collections"."ProjectHomeTranslation" (
+    "id" BIGSERIAL NOT NULL,
+    "projectHomeId" BIGINT NOT NULL,
+    "locale" VARCHAR(16) NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectHomeTranslation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_project_home_translation" ON "collections"."ProjectHomeTranslation"("projectHomeId", "locale");
+
+-- CreateIndex
+CREATE INDEX "idx_notecontent_noteinfoid_locale" ON "docs"."NoteContent"("noteInfoId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "collections"."ProjectHomeTranslation" ADD CONSTRAINT "fk_project_home_translation_home" FOREIGN KEY ("projectHomeId") REFERENCES "collections"."ProjectHome"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "docs"."NoteSchedule" (
+    "id" BIGSERIAL NOT NULL,
+    "noteInfoId" BIGINT NOT NULL,
+    "noteContentId" BIGINT,
+    "action" VARCHAR(20) NOT NULL,
+    "runAt" TIMESTAMPTZ(6) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "error" VARCHAR(500),
+    "userId" INTEGER,
+    "username" VARCHAR(255),
+    "executedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_note_schedule_status_runat" ON "docs"."NoteSchedule"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "idx_note_schedule_noteinfoid" ON "docs"."NoteSchedule"("noteInfoId");
+
+-- AddForeignKey
+ALTER TABLE "docs"."NoteSchedule" ADD CONSTRAINT "fk_note_schedule_noteinfo" FOREIGN KEY ("noteInfoId") REFERENCES "docs"."NoteInfo"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "docs"."NoteSchedule" ADD CONSTRAINT "fk_note_schedule_notecontent" FOREIGN KEY ("noteContentId") REFERENCES "docs"."NoteContent"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,57 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {accessGrantToDto} from '~~/server/utils/accessGrant'
+import {getRouterParam, setResponseStatus} from 'h3'
+
+/**
+ * 访问授权详情（含操作记录）
+ * GET /api/admin/mm/accessGrant/:id
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    try {
+        const grant = await prisma.accessGrant.findUnique({
+            where: {id},
+            include: {logs: {orderBy: {createdAt: 'desc'}}},
+        })
+        if (!grant) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        const project = await prisma.project.findUnique({
+            where: {id: grant.projectId},
+            select: {id: true, projectName: true},
+        })
+
+        return ok({
+            ...accessGrantToDto({...grant, project}),
+            logs: grant.logs.map((log) => ({
+                id: log.id.toString(),
+                action: log.action,
+                changes: log.changes,
+                reason: log.reason,
+                userId: log.userId,
+                username: log.username,
+                createdAt: log.createdAt,
+            })),
+        })
+    } catch (err) {
+        console.error('Access grant detail error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,142 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {
+    accessGrantToDto,
+    getAccessGrantActor,
+    isAccessGrantType,
+    writeAccessGrantLog,
+} from '~~/server/utils/accessGrant'
+import {getRouterParam, readBody, setResponseStatus} from 'h3'
+
+function toDate(value: unknown) {
+    if (value === undefined || value === null || value === '') return null
+    const date = new Date(value as string | number)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function sameValue(a: unknown, b: unknown) {
+    if (a instanceof Date || b instanceof Date) {
+        return (a as Date | null)?.getTime() === (b as Date | null)?.getTime()
+    }
+    return a === b
+}
+
+/**
+ * 修改访问授权（续期、调整生效时间、类型与联系方式）
+ * PUT /api/admin/mm/accessGrant/:id
+ *
+ * 已撤销的授权不可修改；note 为本次修改的说明，与变更前后的值一起写入操作记录
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    const body = await readBody<{
+        email?: string | null
+        grantType?: string
+        startsAt?: string
+        expiresAt?: string | null
+        note?: string
+    }>(event)
+
+    const data: Record<string, unknown> = {}
+
+    if (body?.email !== undefined) {
+        data.email = typeof body.email === 'string' && body.email.trim() ? body.email.trim() : null
+    }
+
+    if (body?.grantType !== undefined) {
+        if (!isAccessGrantType(body.grantType)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid grantType', 400)
+        }
+        data.grantType = body.grantType
+    }
+
+    if (body?.startsAt !== undefined) {
+        const startsAt = toDate(body.startsAt)
+        if (!startsAt) {
+            setResponseStatus(event, 400)
+            return fail('Invalid startsAt', 400)
+        }
+        data.startsAt = startsAt
+    }
+
+    if (body?.expiresAt !== undefined) {
+        const expiresAt = toDate(body.expiresAt)
+        if (expiresAt === undefined) {
+            setResponseStatus(event, 400)
+            return fail('Invalid expiresAt', 400)
+        }
+        data.expiresAt = expiresAt
+    }
+
+    if (Object.keys(data).length === 0) {
+        setResponseStatus(event, 400)
+        return fail('No fields to update', 400)
+    }
+
+    const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : null
+
+    try {
+        const actor = getAccessGrantActor(event)
+        const result = await prisma.$transaction(async (tx) => {
+            const current = await tx.accessGrant.findUnique({where: {id}})
+            if (!current) return {error: 404 as const}
+            if (current.revokedAt) return {error: 409 as const}
+
+            const startsAt = (data.startsAt as Date | undefined) ?? current.startsAt
+            const expiresAt = data.expiresAt !== undefined ? data.expiresAt as Date | null : current.expiresAt
+            if (expiresAt && expiresAt <= startsAt) return {error: 400 as const}
+
+            // 只记录实际变化的字段
+            const changes: Record<string, [unknown, unknown]> = {}
+            for (const [key, value] of Object.entries(data)) {
+                const before = current[key as keyof typeof current]
+                if (!sameValue(before, value)) changes[key] = [before, value]
+            }
+            if (Object.keys(changes).length === 0) return {grant: current}
+
+            const updated = await tx.accessGrant.update({
+                where: {id},
+                data: {...data, updatedAt: new Date()},
+            })
+            await writeAccessGrantLog(tx, id, 'update', actor, {changes, reason: note})
+            return {grant: updated}
+        })
+
+        if (result.error === 404) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+        if (result.error === 409) {
+            setResponseStatus(event, 409)
+            return fail('Grant has been revoked', 409)
+        }
+        if (result.error === 400 || !result.grant) {
+            setResponseStatus(event, 400)
+            return fail('expiresAt must be later than startsAt', 400)
+        }
+
+        const project = await prisma.project.findUnique({
+            where: {id: result.grant.projectId},
+            select: {id: true, projectName: true},
+        })
+        return ok(accessGrantToDto({...result.grant, project}))
+    } catch (err) {
+        console.error('Access grant update error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,71 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {accessGrantToDto, getAccessGrantActor, writeAccessGrantLog} from '~~/server/utils/accessGrant'
+import {getRouterParam, readBody, setResponseStatus} from 'h3'
+
+/**
+ * 撤销访问授权
+ * POST /api/admin/mm/accessGrant/:id/revoke
+ *
+ * 撤销立即生效且不可恢复，需要重新授权时新建一条授权；reason 必填
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    const body = await readBody<{ reason?: string }>(event)
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() : ''
+    if (!reason) {
+        setResponseStatus(event, 400)
+        return fail('Missing reason', 400)
+    }
+
+    try {
+        const actor = getAccessGrantActor(event)
+        const now = new Date()
+        const grant = await prisma.$transaction(async (tx) => {
+            // 条件更新，避免重复撤销覆盖原撤销人
+            const {count} = await tx.accessGrant.updateMany({
+                where: {id, revokedAt: null},
+                data: {
+                    revokedAt: now,
+                    revokeReason: reason,
+                    revokedById: actor.userId,
+                    revokedByName: actor.username,
+                    updatedAt: now,
+                },
+            })
+            if (count > 0) {
+                await writeAccessGrantLog(tx, id, 'revoke', actor, {reason})
+            }
+            return count > 0 ? tx.accessGrant.findUnique({where: {id}}) : null
+        })
+
+        if (!grant) {
+            const exists = await prisma.accessGrant.count({where: {id}})
+            setResponseStatus(event, exists ? 409 : 404)
+            return exists ? fail('Grant has already been revoked', 409) : fail('Not Found', 404)
+        }
+
+        const project = await prisma.project.findUnique({
+            where: {id: grant.projectId},
+            select: {id: true, projectName: true},
+        })
+        return ok(accessGrantToDto({...grant, project}), 'revoked')
+    } catch (err) {
+        console.error('Access grant revoke error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
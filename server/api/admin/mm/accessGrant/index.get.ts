@@ -0,0 +1,86 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {accessGrantToDto, accessGrantStatusWhere, type AccessGrantStatus} from '~~/server/utils/accessGrant'
+import {getQuery, setResponseStatus} from 'h3'
+
+function toInt(value: unknown, fallback: number) {
+    const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+    return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+const STATUSES = new Set<AccessGrantStatus>(['pending', 'active', 'expired', 'revoked'])
+
+/**
+ * 访问授权列表
+ * GET /api/admin/mm/accessGrant?projectId=&status=&keyword=&page=&pageSize=
+ *
+ * keyword 按钱包地址或邮箱模糊匹配，status 按当前时间计算（pending / active / expired / revoked）
+ */
+export default defineEventHandler(async (event) => {
+    const query = getQuery(event)
+    const page = Math.max(1, toInt(query.page, 1))
+    const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
+
+    const keyword = typeof query.keyword === 'string' ? query.keyword.trim() : ''
+    const status = typeof query.status === 'string' ? query.status : ''
+
+    const where: any = {}
+
+    if (query.projectId !== undefined && query.projectId !== '') {
+        try {
+            where.projectId = BigInt(String(query.projectId))
+        } catch {
+            setResponseStatus(event, 400)
+            return fail('Invalid projectId', 400)
+        }
+    }
+
+    if (keyword) {
+        where.AND = [{
+            OR: [
+                {walletAddress: {contains: keyword, mode: 'insensitive'}},
+                {email: {contains: keyword, mode: 'insensitive'}},
+            ],
+        }]
+    }
+
+    if (status) {
+        if (!STATUSES.has(status as AccessGrantStatus)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid status', 400)
+        }
+        Object.assign(where, accessGrantStatusWhere(status as AccessGrantStatus))
+    }
+
+    const skip = (page - 1) * pageSize
+
+    try {
+        const [total, list] = await Promise.all([
+            prisma.accessGrant.count({where}),
+            prisma.accessGrant.findMany({
+                where,
+                skip,
+                take: pageSize,
+                orderBy: {createdAt: 'desc'},
+            }),
+        ])
+
+        // 授权表与项目表不在同一 schema，项目名称单独查询
+        const projects = await prisma.project.findMany({
+            where: {id: {in: Array.from(new Set(list.map((grant) => grant.projectId)))}},
+            select: {id: true, projectName: true},
+        })
+        const projectMap = new Map(projects.map((project) => [project.id, project]))
+
+        return ok({
+            list: list.map((grant) => accessGrantToDto({...grant, project: projectMap.get(grant.projectId) ?? null})),
+            page,
+            pageSize,
+            total,
+        })
+    } catch (err) {
+        console.error('Access grant list error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,110 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {isValidSolanaAddress} from '~~/server/utils/bubblegum'
+import {
+    accessGrantToDto,
+    getAccessGrantActor,
+    isAccessGrantType,
+    writeAccessGrantLog,
+} from '~~/server/utils/accessGrant'
+import {readBody, setResponseStatus} from 'h3'
+
+function toDate(value: unknown) {
+    if (value === undefined || value === null || value === '') return null
+    const date = new Date(value as string | number)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * 创建访问授权
+ * POST /api/admin/mm/accessGrant
+ *
+ * 授权人取当前管理员会话，reason 必填；startsAt 缺省为立即生效，expiresAt 缺省为长期有效
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{
+        projectId?: string | number
+        walletAddress?: string
+        email?: string
+        grantType?: string
+        reason?: string
+        startsAt?: string
+        expiresAt?: string
+    }>(event)
+
+    let projectId: bigint
+    try {
+        projectId = BigInt(String(body?.projectId ?? ''))
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid projectId', 400)
+    }
+
+    const walletAddress = typeof body?.walletAddress === 'string' ? body.walletAddress.trim() : ''
+    if (!isValidSolanaAddress(walletAddress)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid walletAddress', 400)
+    }
+
+    const email = typeof body?.email === 'string' && body.email.trim() ? body.email.trim() : null
+
+    const grantType = body?.grantType ?? 'trial'
+    if (!isAccessGrantType(grantType)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid grantType', 400)
+    }
+
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() : ''
+    if (!reason) {
+        setResponseStatus(event, 400)
+        return fail('Missing reason', 400)
+    }
+
+    const startsAt = toDate(body?.startsAt)
+    const expiresAt = toDate(body?.expiresAt)
+    if (startsAt === undefined || expiresAt === undefined) {
+        setResponseStatus(event, 400)
+        return fail('Invalid date', 400)
+    }
+    if (expiresAt && expiresAt <= (startsAt ?? new Date())) {
+        setResponseStatus(event, 400)
+        return fail('expiresAt must be later than startsAt', 400)
+    }
+
+    try {
+        const project = await prisma.project.findFirst({
+            where: {id: projectId, isDeleted: false},
+            select: {id: true, projectName: true},
+        })
+        if (!project) {
+            setResponseStatus(event, 404)
+            return fail('Project not found', 404)
+        }
+
+        const actor = getAccessGrantActor(event)
+        const grant = await prisma.$transaction(async (tx) => {
+            const created = await tx.accessGrant.create({
+                data: {
+                    projectId,
+                    walletAddress,
+                    email,
+                    grantType,
+                    reason,
+                    startsAt: startsAt ?? undefined,
+                    expiresAt,
+                    issuedById: actor.userId,
+                    issuedByName: actor.username,
+                },
+            })
+            await writeAccessGrantLog(tx, created.id, 'create', actor, {reason})
+            return created
+        })
+
+        setResponseStatus(event, 201)
+        return ok(accessGrantToDto({...grant, project}), 'created')
+    } catch (err) {
+        console.error('Access grant create error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
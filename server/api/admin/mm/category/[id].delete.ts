@@ -1,15 +1,8 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getRouterParam, setResponseStatus} from 'h3'
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
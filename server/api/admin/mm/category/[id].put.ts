@@ -1,6 +1,8 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {Prisma} from '~~/generated/prisma/client'
+import {readLabelTranslations} from '~~/server/utils/contentLocale'
+import {isAccessLevel} from '~~/server/utils/noteAccess'
 import {getRouterParam, readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown) {
@@ -13,7 +15,9 @@ function categoryToDto(cat: any) {
         id: cat.id.toString(),
         projectVersionId: cat.projectVersionId.toString(),
         categoryName: cat.categoryName,
+        nameTranslations: cat.nameTranslations ?? null,
         weight: cat.weight,
+        accessLevel: cat.accessLevel,
         status: cat.status,
         createdAt: cat.createdAt,
         updatedAt: cat.updatedAt,
@@ -27,12 +31,6 @@ function categoryToDto(cat: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -52,6 +50,8 @@ export default defineEventHandler(async (event) => {
         categoryName?: string
         weight?: number
         status?: number
+        accessLevel?: string
+        nameTranslations?: Record<string, string> | null
     }>(event)
 
     const data: any = {updatedAt: new Date()}
@@ -69,6 +69,23 @@ export default defineEventHandler(async (event) => {
                 return fail('ProjectVersion not found', 404)
             }
             data.projectVersionId = newProjectVersionId
+
+            // 笔记别名在版本内唯一：移动前检查目标版本是否已有同名别名
+            const slugged = await prisma.noteInfo.findMany({
+                where: {categoryId: id, slug: {not: null}},
+                select: {slug: true},
+            })
+            const conflict = slugged.length > 0 && await prisma.noteInfo.findFirst({
+                where: {
+                    category: {projectVersionId: newProjectVersionId, id: {not: id}},
+                    slug: {in: slugged.map((n) => n.slug!)},
+                },
+                select: {id: true},
+            })
+            if (conflict) {
+                setResponseStatus(event, 409)
+                return fail('Note slug already in use in target version', 409)
+            }
         } catch {
             setResponseStatus(event, 400)
             return fail('Invalid projectVersionId', 400)
@@ -90,6 +107,23 @@ export default defineEventHandler(async (event) => {
     const status = toInt(body?.status)
     if (status !== null) data.status = status
 
+    if (body?.accessLevel !== undefined) {
+        if (!isAccessLevel(body.accessLevel)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid accessLevel', 400)
+        }
+        data.accessLevel = body.accessLevel
+    }
+
+    if (body?.nameTranslations !== undefined) {
+        const translations = readLabelTranslations(body.nameTranslations)
+        if ('error' in translations) {
+            setResponseStatus(event, 400)
+            return fail(translations.error, 400)
+        }
+        data.nameTranslations = translations.data ?? Prisma.DbNull
+    }
+
     if (Object.keys(data).length === 1) {
         setResponseStatus(event, 400)
         return fail('No fields to update', 400)
@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getRouterParam, getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -19,7 +18,9 @@ function categoryToDto(cat: any) {
         id: cat.id.toString(),
         projectVersionId: cat.projectVersionId.toString(),
         categoryName: cat.categoryName,
+        nameTranslations: cat.nameTranslations ?? null,
         weight: cat.weight,
+        accessLevel: cat.accessLevel,
         status: cat.status,
         createdAt: cat.createdAt,
         updatedAt: cat.updatedAt,
@@ -42,12 +43,6 @@ function projectVersionToDto(pv: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const projectVersionIdRaw = getRouterParam(event, 'projectVersionId')
     if (!projectVersionIdRaw) {
         setResponseStatus(event, 400)
@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -19,7 +18,9 @@ function categoryToDto(cat: any) {
         id: cat.id.toString(),
         projectVersionId: cat.projectVersionId.toString(),
         categoryName: cat.categoryName,
+        nameTranslations: cat.nameTranslations ?? null,
         weight: cat.weight,
+        accessLevel: cat.accessLevel,
         status: cat.status,
         createdAt: cat.createdAt,
         updatedAt: cat.updatedAt,
@@ -37,12 +38,6 @@ function categoryToDto(cat: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const query = getQuery(event)
     const page = Math.max(1, toInt(query.page, 1))
     const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
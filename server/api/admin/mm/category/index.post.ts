@@ -1,6 +1,7 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {isAccessLevel} from '~~/server/utils/noteAccess'
+import {readLabelTranslations} from '~~/server/utils/contentLocale'
 import {readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -13,7 +14,9 @@ function categoryToDto(cat: any) {
         id: cat.id.toString(),
         projectVersionId: cat.projectVersionId.toString(),
         categoryName: cat.categoryName,
+        nameTranslations: cat.nameTranslations ?? null,
         weight: cat.weight,
+        accessLevel: cat.accessLevel,
         status: cat.status,
         createdAt: cat.createdAt,
         updatedAt: cat.updatedAt,
@@ -27,17 +30,13 @@ function categoryToDto(cat: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         projectVersionId?: string | number
         categoryName?: string
         weight?: number
         status?: number
+        accessLevel?: string
+        nameTranslations?: Record<string, string> | null
     }>(event)
 
     // 验证 projectVersionId
@@ -64,6 +63,19 @@ export default defineEventHandler(async (event) => {
     const weight = toInt(body?.weight, 0)
     const status = toInt(body?.status, 1)
 
+    const accessLevel = body?.accessLevel ?? 'inherit'
+    if (!isAccessLevel(accessLevel)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid accessLevel', 400)
+    }
+
+    const translations = readLabelTranslations(body?.nameTranslations ?? null)
+    if ('error' in translations) {
+        setResponseStatus(event, 400)
+        return fail(translations.error, 400)
+    }
+    const nameTranslations = translations.data
+
     try {
         // 检查项目版本是否存在
         const projectVersion = await prisma.projectVersion.findUnique({
@@ -75,7 +87,7 @@ export default defineEventHandler(async (event) => {
         }
 
         const cat = await prisma.category.create({
-            data: {projectVersionId, categoryName, weight, status},
+            data: {projectVersionId, categoryName, weight, status, accessLevel, ...(nameTranslations ? {nameTranslations} : {})},
             include: {projectVersion: true},
         })
         setResponseStatus(event, 201)
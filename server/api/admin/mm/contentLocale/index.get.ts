@@ -0,0 +1,14 @@
+import {ok} from '~~/server/utils/response'
+import {CONTENT_LOCALES, getFallbackLocale, getTranslationLocales} from '~~/server/utils/contentLocale'
+
+/**
+ * 获取内容语言配置（原文语言与可添加译文的语言）
+ * GET /api/admin/mm/contentLocale
+ */
+export default defineEventHandler(() => {
+    return ok({
+        locales: [...CONTENT_LOCALES],
+        fallbackLocale: getFallbackLocale(),
+        translationLocales: getTranslationLocales(),
+    })
+})
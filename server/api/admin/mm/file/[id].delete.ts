@@ -1,6 +1,5 @@
 import { softDeleteFile, hardDeleteFile } from '~~/server/utils/file'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, getQuery, setResponseStatus } from 'h3'
 
 function toBool(value: unknown) {
@@ -10,12 +9,6 @@ function toBool(value: unknown) {
 }
 
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -45,6 +38,11 @@ export default defineEventHandler(async (event) => {
       setResponseStatus(event, 404)
       return fail('Not Found', 404)
     }
+    // 文件仍被引用
+    if (err?.statusCode === 409) {
+      setResponseStatus(event, 409)
+      return fail(err.message, 409, err.data)
+    }
     setResponseStatus(event, 500)
     return fail('Internal Server Error', 500)
   }
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, setResponseStatus } from 'h3'
 
 function fileToDto(file: any) {
@@ -11,6 +10,7 @@ function fileToDto(file: any) {
     filePath: file.filePath,
     fileSize: file.fileSize.toString(),
     businessType: file.businessType,
+    storageDriver: file.storageDriver,
     status: file.status,
     createTime: file.createTime,
     url: `/${file.filePath}`,
@@ -18,12 +18,6 @@ function fileToDto(file: any) {
 }
 
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, readBody, setResponseStatus } from 'h3'
 import { ValidBusinessTypes, type BusinessType } from '~~/server/utils/file'
 
@@ -12,6 +11,7 @@ function fileToDto(file: any) {
     filePath: file.filePath,
     fileSize: file.fileSize.toString(),
     businessType: file.businessType,
+    storageDriver: file.storageDriver,
     status: file.status,
     createTime: file.createTime,
     url: `/${file.filePath}`,
@@ -19,12 +19,6 @@ function fileToDto(file: any) {
 }
 
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getQuery, setResponseStatus } from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -22,6 +21,7 @@ function fileToDto(file: any) {
     filePath: file.filePath,
     fileSize: file.fileSize.toString(),
     businessType: file.businessType,
+    storageDriver: file.storageDriver,
     status: file.status,
     createTime: file.createTime,
     url: `/${file.filePath}`,
@@ -29,12 +29,6 @@ function fileToDto(file: any) {
 }
 
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const query = getQuery(event)
   const page = Math.max(1, toInt(query.page, 1))
   const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
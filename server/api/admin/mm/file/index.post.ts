@@ -1,6 +1,5 @@
 import { uploadFiles, ValidBusinessTypes, type BusinessType } from '~~/server/utils/file'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getQuery, setResponseStatus } from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -14,12 +13,6 @@ function toInt(value: unknown, fallback: number) {
  * Content-Type: multipart/form-data
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const query = getQuery(event)
   const businessType = (typeof query.businessType === 'string' ? query.businessType : 'Other') as BusinessType
   const maxSize = toInt(query.maxSize, 10 * 1024 * 1024) // 默认 10MB
@@ -49,6 +42,7 @@ export default defineEventHandler(async (event) => {
       filePath: file.filePath,
       fileSize: file.fileSize.toString(),
       businessType: file.businessType,
+      deduplicated: file.deduplicated,
     }))
 
     setResponseStatus(event, 201)
@@ -0,0 +1,18 @@
+import { rebuildFileReferences } from '~~/server/utils/fileReference'
+import { ok, fail } from '~~/server/utils/response'
+import { setResponseStatus } from 'h3'
+
+/**
+ * 重建文件引用索引（扫描笔记正文、修订、项目首页、项目头像与 cNFT）
+ * POST /api/admin/mm/file/reindex
+ */
+export default defineEventHandler(async (event) => {
+  try {
+    const result = await rebuildFileReferences()
+    return ok(result, 'reindexed')
+  } catch (err) {
+    console.error('File reindex error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
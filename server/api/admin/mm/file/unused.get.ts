@@ -0,0 +1,47 @@
+import { queryUnusedFiles } from '~~/server/utils/fileReference'
+import { ok, fail } from '~~/server/utils/response'
+import { getQuery, setResponseStatus } from 'h3'
+
+function toInt(value: unknown, fallback: number) {
+  const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+  return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+/**
+ * 未使用文件报告（基于最近一次重建的引用索引）
+ * GET /api/admin/mm/file/unused
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const page = Math.max(1, toInt(query.page, 1))
+  const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 20)))
+  const businessType = typeof query.businessType === 'string' && query.businessType ? query.businessType : undefined
+
+  try {
+    const result = await queryUnusedFiles({ businessType, page, pageSize })
+    return ok({
+      indexedAt: result.indexedAt,
+      total: result.total,
+      totalSize: result.totalSize.toString(),
+      unindexed: result.unindexed,
+      page: result.page,
+      pageSize: result.pageSize,
+      list: result.list.map((file) => ({
+        id: file.id.toString(),
+        originalName: file.originalName,
+        fileName: file.fileName,
+        filePath: file.filePath,
+        fileSize: file.fileSize.toString(),
+        businessType: file.businessType,
+        storageDriver: file.storageDriver,
+        status: file.status,
+        createTime: file.createTime,
+        url: `/${file.filePath}`,
+      })),
+    })
+  } catch (err) {
+    console.error('Unused files error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, getQuery, setResponseStatus } from 'h3'
 
 function toBool(value: unknown) {
@@ -14,12 +13,6 @@ function toBool(value: unknown) {
  * DELETE /api/admin/mm/home/:id?hard=false
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, setResponseStatus } from 'h3'
 
 function homeToDto(home: any) {
@@ -12,6 +11,11 @@ function homeToDto(home: any) {
     createdAt: home.createdAt,
     updatedAt: home.updatedAt,
     isDeleted: home.isDeleted,
+    translations: (home.translations ?? []).map((t: any) => ({
+      locale: t.locale,
+      content: t.content,
+      updatedAt: t.updatedAt,
+    })),
   }
 }
 
@@ -20,12 +24,6 @@ function homeToDto(home: any) {
  * GET /api/admin/mm/home/:id
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -43,6 +41,7 @@ export default defineEventHandler(async (event) => {
   try {
     const home = await prisma.projectHome.findUnique({
       where: { id },
+      include: { translations: { orderBy: { locale: 'asc' } } },
     })
 
     if (!home) {
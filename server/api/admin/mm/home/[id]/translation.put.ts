@@ -0,0 +1,73 @@
+import { prisma } from '~~/server/utils/prisma'
+import { ok, fail } from '~~/server/utils/response'
+import { readLocaleColumn } from '~~/server/utils/contentLocale'
+import { getRouterParam, readBody, setResponseStatus } from 'h3'
+
+interface UpdateTranslationBody {
+  locale?: string
+  content?: string | null
+}
+
+/**
+ * 保存首页译文（内容为空时删除该语言的译文，页面回退到原文）
+ * PUT /api/admin/mm/home/:id/translation
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+  if (!idRaw) {
+    setResponseStatus(event, 400)
+    return fail('Missing id', 400)
+  }
+
+  let id: bigint
+  try {
+    id = BigInt(idRaw)
+  } catch {
+    setResponseStatus(event, 400)
+    return fail('Invalid id', 400)
+  }
+
+  const body = await readBody<UpdateTranslationBody>(event)
+
+  const localeResult = readLocaleColumn(body?.locale)
+  if ('error' in localeResult || !localeResult.locale) {
+    setResponseStatus(event, 400)
+    return fail('Invalid locale', 400)
+  }
+  const locale = localeResult.locale
+  const content = typeof body?.content === 'string' ? body.content : ''
+
+  try {
+    const home = await prisma.projectHome.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+    if (!home) {
+      setResponseStatus(event, 404)
+      return fail('Not Found', 404)
+    }
+
+    if (!content.trim()) {
+      await prisma.projectHomeTranslation.deleteMany({
+        where: { projectHomeId: id, locale },
+      })
+      return ok(null, 'deleted')
+    }
+
+    const translation = await prisma.projectHomeTranslation.upsert({
+      where: { projectHomeId_locale: { projectHomeId: id, locale } },
+      create: { projectHomeId: id, locale, content },
+      update: { content, updatedAt: new Date() },
+    })
+
+    return ok({
+      locale: translation.locale,
+      content: translation.content,
+      updatedAt: translation.updatedAt,
+    })
+  } catch (err) {
+    console.error('ProjectHome translation error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { readBody, setResponseStatus } from 'h3'
 
 function homeToDto(home: any) {
@@ -26,12 +25,6 @@ interface CreateHomeBody {
  * POST /api/admin/mm/home
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const body = await readBody<CreateHomeBody>(event)
 
   if (!body?.projectId) {
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, setResponseStatus } from 'h3'
 
 function menuToDto(menu: any) {
@@ -9,6 +8,7 @@ function menuToDto(menu: any) {
     projectId: menu.projectId.toString(),
     parentId: menu.parentId?.toString() ?? null,
     label: menu.label,
+    labelTranslations: menu.labelTranslations ?? null,
     url: menu.url,
     isExternal: menu.isExternal,
     weight: menu.weight,
@@ -25,12 +25,6 @@ function menuToDto(menu: any) {
  * GET /api/admin/mm/menu/:id
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -1,6 +1,7 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
+import { Prisma } from '~~/generated/prisma/client'
+import { readLabelTranslations } from '~~/server/utils/contentLocale'
 import { getRouterParam, readBody, setResponseStatus } from 'h3'
 
 function menuToDto(menu: any) {
@@ -9,6 +10,7 @@ function menuToDto(menu: any) {
     projectId: menu.projectId.toString(),
     parentId: menu.parentId?.toString() ?? null,
     label: menu.label,
+    labelTranslations: menu.labelTranslations ?? null,
     url: menu.url,
     isExternal: menu.isExternal,
     weight: menu.weight,
@@ -22,6 +24,7 @@ function menuToDto(menu: any) {
 interface UpdateMenuBody {
   parentId?: string | null
   label?: string
+  labelTranslations?: Record<string, string> | null
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -33,12 +36,6 @@ interface UpdateMenuBody {
  * PUT /api/admin/mm/menu/:id
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
@@ -96,6 +93,15 @@ export default defineEventHandler(async (event) => {
     data.label = body.label.trim()
   }
 
+  if (body?.labelTranslations !== undefined) {
+    const translations = readLabelTranslations(body.labelTranslations)
+    if ('error' in translations) {
+      setResponseStatus(event, 400)
+      return fail(translations.error, 400)
+    }
+    data.labelTranslations = translations.data ?? Prisma.DbNull
+  }
+
   if (body?.url !== undefined) {
     data.url = body.url?.trim() || null
   }
@@ -1,6 +1,5 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getQuery, setResponseStatus } from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -20,6 +19,7 @@ function menuToDto(menu: any) {
     projectId: menu.projectId.toString(),
     parentId: menu.parentId?.toString() ?? null,
     label: menu.label,
+    labelTranslations: menu.labelTranslations ?? null,
     url: menu.url,
     isExternal: menu.isExternal,
     weight: menu.weight,
@@ -36,12 +36,6 @@ function menuToDto(menu: any) {
  * GET /api/admin/mm/menu?projectId=1&tree=true&includeDeleted=false
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const query = getQuery(event)
   const projectIdRaw = query.projectId
   const tree = toBool(query.tree)
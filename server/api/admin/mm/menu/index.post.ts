@@ -1,6 +1,6 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
+import { readLabelTranslations } from '~~/server/utils/contentLocale'
 import { readBody, setResponseStatus } from 'h3'
 
 function menuToDto(menu: any) {
@@ -9,6 +9,7 @@ function menuToDto(menu: any) {
     projectId: menu.projectId.toString(),
     parentId: menu.parentId?.toString() ?? null,
     label: menu.label,
+    labelTranslations: menu.labelTranslations ?? null,
     url: menu.url,
     isExternal: menu.isExternal,
     weight: menu.weight,
@@ -23,6 +24,7 @@ interface CreateMenuBody {
   projectId: string
   parentId?: string | null
   label: string
+  labelTranslations?: Record<string, string> | null
   url?: string | null
   isExternal?: boolean
   weight?: number
@@ -34,12 +36,6 @@ interface CreateMenuBody {
  * POST /api/admin/mm/menu
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const body = await readBody<CreateMenuBody>(event)
 
   if (!body?.projectId) {
@@ -52,6 +48,12 @@ export default defineEventHandler(async (event) => {
     return fail('Missing label', 400)
   }
 
+  const translations = readLabelTranslations(body.labelTranslations ?? null)
+  if ('error' in translations) {
+    setResponseStatus(event, 400)
+    return fail(translations.error, 400)
+  }
+
   let projectId: bigint
   try {
     projectId = BigInt(body.projectId)
@@ -91,6 +93,7 @@ export default defineEventHandler(async (event) => {
         projectId,
         parentId,
         label: body.label.trim(),
+        ...(translations.data ? { labelTranslations: translations.data } : {}),
         url: body.url?.trim() || null,
         isExternal: body.isExternal ?? false,
         weight: body.weight ?? 0,
@@ -1,15 +1,9 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
 import {getRouterParam, setResponseStatus} from 'h3'
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -30,6 +24,7 @@ export default defineEventHandler(async (event) => {
             where: {id},
             data: {isDeleted: true, updatedAt: new Date()},
         })
+        await refreshNoteSearchIndexSafely(id)
         return ok(null, 'deleted')
     } catch (err: any) {
         if (err?.code === 'P2025') {
@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getRouterParam, setResponseStatus} from 'h3'
 
 function noteToDto(note: any) {
@@ -8,7 +7,14 @@ function noteToDto(note: any) {
         id: note.id.toString(),
         categoryId: note.categoryId.toString(),
         noteTitle: note.noteTitle,
+        slug: note.slug,
+        seoTitle: note.seoTitle,
+        seoDescription: note.seoDescription,
+        seoKeywords: note.seoKeywords,
+        canonicalUrl: note.canonicalUrl,
+        ogImage: note.ogImage,
         weight: note.weight,
+        accessLevel: note.accessLevel,
         status: note.status,
         createdAt: note.createdAt,
         updatedAt: note.updatedAt,
@@ -32,12 +38,6 @@ function noteToDto(note: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -1,6 +1,9 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {isAccessLevel} from '~~/server/utils/noteAccess'
+import {normalizeSlug, isValidSlug, isNoteSlugTaken, recordSlugChange} from '~~/server/utils/slug'
+import {readSeoFields} from '~~/server/utils/seo'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
 import {getRouterParam, readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown) {
@@ -13,7 +16,14 @@ function noteToDto(note: any) {
         id: note.id.toString(),
         categoryId: note.categoryId.toString(),
         noteTitle: note.noteTitle,
+        slug: note.slug,
+        seoTitle: note.seoTitle,
+        seoDescription: note.seoDescription,
+        seoKeywords: note.seoKeywords,
+        canonicalUrl: note.canonicalUrl,
+        ogImage: note.ogImage,
         weight: note.weight,
+        accessLevel: note.accessLevel,
         status: note.status,
         createdAt: note.createdAt,
         updatedAt: note.updatedAt,
@@ -27,12 +37,6 @@ function noteToDto(note: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -50,12 +54,20 @@ export default defineEventHandler(async (event) => {
     const body = await readBody<{
         categoryId?: string | number
         noteTitle?: string
+        slug?: string | null
+        seoTitle?: string | null
+        seoDescription?: string | null
+        seoKeywords?: string | null
+        canonicalUrl?: string | null
+        ogImage?: string | null
         weight?: number
         status?: number
+        accessLevel?: string
         isDeleted?: boolean
     }>(event)
 
     const data: any = {updatedAt: new Date()}
+    let targetVersionId: bigint | null = null
 
     // 处理 categoryId 更新
     if (body?.categoryId !== undefined) {
@@ -70,6 +82,7 @@ export default defineEventHandler(async (event) => {
                 return fail('Category not found', 404)
             }
             data.categoryId = newCategoryId
+            targetVersionId = category.projectVersionId
         } catch {
             setResponseStatus(event, 400)
             return fail('Invalid categoryId', 400)
@@ -85,12 +98,38 @@ export default defineEventHandler(async (event) => {
         data.noteTitle = title
     }
 
+    // 别名（传空值清除）；修改后旧别名保留跳转
+    if (body?.slug !== undefined) {
+        const slug = normalizeSlug(body.slug)
+        if (slug && !isValidSlug(slug)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid slug', 400)
+        }
+        data.slug = slug
+    }
+
+    // SEO 信息（传空值清除）
+    const seo = readSeoFields(body)
+    if ('error' in seo) {
+        setResponseStatus(event, 400)
+        return fail(seo.error, 400)
+    }
+    Object.assign(data, seo.data)
+
     const weight = toInt(body?.weight)
     if (weight !== null) data.weight = weight
 
     const status = toInt(body?.status)
     if (status !== null) data.status = status
 
+    if (body?.accessLevel !== undefined) {
+        if (!isAccessLevel(body.accessLevel)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid accessLevel', 400)
+        }
+        data.accessLevel = body.accessLevel
+    }
+
     if (typeof body?.isDeleted === 'boolean') {
         data.isDeleted = body.isDeleted
     }
@@ -101,11 +140,40 @@ export default defineEventHandler(async (event) => {
     }
 
     try {
-        const note = await prisma.noteInfo.update({
+        const current = await prisma.noteInfo.findUnique({
             where: {id},
-            data,
-            include: {category: true},
+            select: {slug: true, category: {select: {projectVersionId: true}}},
+        })
+        if (!current) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        // 别名在版本内唯一：修改别名或移动到其他版本时检查
+        const sourceVersionId = current.category.projectVersionId
+        const versionId = targetVersionId ?? sourceVersionId
+        const slug = data.slug !== undefined ? data.slug as string | null : current.slug
+        if (slug && (slug !== current.slug || versionId !== sourceVersionId)
+            && await isNoteSlugTaken(versionId, slug, id)) {
+            setResponseStatus(event, 409)
+            return fail('Slug already in use', 409)
+        }
+
+        const note = await prisma.$transaction(async (tx) => {
+            const updated = await tx.noteInfo.update({
+                where: {id},
+                data,
+                include: {category: true},
+            })
+            if (versionId === sourceVersionId) {
+                await recordSlugChange(tx, 'note', versionId, id, current.slug, updated.slug)
+            } else {
+                await recordSlugChange(tx, 'note', sourceVersionId, id, current.slug, null)
+                await recordSlugChange(tx, 'note', versionId, id, null, updated.slug)
+            }
+            return updated
         })
+        await refreshNoteSearchIndexSafely(note.id)
         return ok(noteToDto(note))
     } catch (err: any) {
         if (err?.code === 'P2025') {
@@ -1,6 +1,6 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {isContentLocale, toContentLocaleColumn} from '~~/server/utils/contentLocale'
 import {getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -19,7 +19,14 @@ function noteToDto(note: any) {
         id: note.id.toString(),
         categoryId: note.categoryId.toString(),
         noteTitle: note.noteTitle,
+        slug: note.slug,
+        seoTitle: note.seoTitle,
+        seoDescription: note.seoDescription,
+        seoKeywords: note.seoKeywords,
+        canonicalUrl: note.canonicalUrl,
+        ogImage: note.ogImage,
         weight: note.weight,
+        accessLevel: note.accessLevel,
         status: note.status,
         createdAt: note.createdAt,
         updatedAt: note.updatedAt,
@@ -39,16 +46,12 @@ function noteToDto(note: any) {
             } : null,
         } : null,
         contentCount: note._count?.contents ?? 0,
+        // 已有译文的语言
+        translatedLocales: (note.contents ?? []).map((c: any) => c.locale),
     }
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const query = getQuery(event)
     const page = Math.max(1, toInt(query.page, 1))
     const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
@@ -61,6 +64,7 @@ export default defineEventHandler(async (event) => {
     const categoryId = query.categoryId !== undefined ? query.categoryId : undefined
     const projectVersionId = query.projectVersionId !== undefined ? query.projectVersionId : undefined
     const projectId = query.projectId !== undefined ? query.projectId : undefined
+    const untranslated = query.untranslated !== undefined ? query.untranslated : undefined
 
     const orderByField = typeof query.orderBy === 'string' ? query.orderBy : 'weight'
     const order = typeof query.order === 'string' && query.order.toLowerCase() === 'asc' ? 'asc' : 'desc'
@@ -119,6 +123,16 @@ export default defineEventHandler(async (event) => {
         }
     }
 
+    // 按缺少译文的语言过滤
+    if (untranslated !== undefined) {
+        const locale = isContentLocale(untranslated) ? toContentLocaleColumn(untranslated) : null
+        if (!locale) {
+            setResponseStatus(event, 400)
+            return fail('Invalid untranslated locale', 400)
+        }
+        where.contents = {none: {locale, isDeleted: false}}
+    }
+
     const allowedOrderBy = new Set(['id', 'noteTitle', 'weight', 'status', 'createdAt', 'updatedAt'])
     const safeOrderBy = allowedOrderBy.has(orderByField) ? orderByField : 'weight'
 
@@ -145,6 +159,11 @@ export default defineEventHandler(async (event) => {
                     _count: {
                         select: {contents: true},
                     },
+                    contents: {
+                        where: {locale: {not: null}, isDeleted: false},
+                        distinct: ['locale'],
+                        select: {locale: true},
+                    },
                 },
             }),
         ])
@@ -1,6 +1,9 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {isAccessLevel} from '~~/server/utils/noteAccess'
+import {normalizeSlug, isValidSlug, isNoteSlugTaken, recordSlugChange} from '~~/server/utils/slug'
+import {readSeoFields} from '~~/server/utils/seo'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
 import {readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -13,7 +16,14 @@ function noteToDto(note: any) {
         id: note.id.toString(),
         categoryId: note.categoryId.toString(),
         noteTitle: note.noteTitle,
+        slug: note.slug,
+        seoTitle: note.seoTitle,
+        seoDescription: note.seoDescription,
+        seoKeywords: note.seoKeywords,
+        canonicalUrl: note.canonicalUrl,
+        ogImage: note.ogImage,
         weight: note.weight,
+        accessLevel: note.accessLevel,
         status: note.status,
         createdAt: note.createdAt,
         updatedAt: note.updatedAt,
@@ -27,17 +37,18 @@ function noteToDto(note: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         categoryId?: string | number
         noteTitle?: string
+        slug?: string | null
+        seoTitle?: string | null
+        seoDescription?: string | null
+        seoKeywords?: string | null
+        canonicalUrl?: string | null
+        ogImage?: string | null
         weight?: number
         status?: number
+        accessLevel?: string
     }>(event)
 
     // 验证 categoryId
@@ -61,9 +72,27 @@ export default defineEventHandler(async (event) => {
         return fail('Missing noteTitle', 400)
     }
 
+    const slug = normalizeSlug(body?.slug)
+    if (slug && !isValidSlug(slug)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid slug', 400)
+    }
+
+    const seo = readSeoFields(body)
+    if ('error' in seo) {
+        setResponseStatus(event, 400)
+        return fail(seo.error, 400)
+    }
+
     const weight = toInt(body?.weight, 0)
     const status = toInt(body?.status, 1)
 
+    const accessLevel = body?.accessLevel ?? 'inherit'
+    if (!isAccessLevel(accessLevel)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid accessLevel', 400)
+    }
+
     try {
         // 检查分类是否存在
         const category = await prisma.category.findUnique({
@@ -74,10 +103,21 @@ export default defineEventHandler(async (event) => {
             return fail('Category not found', 404)
         }
 
-        const note = await prisma.noteInfo.create({
-            data: {categoryId, noteTitle, weight, status},
-            include: {category: true},
+        // 别名在版本内唯一
+        if (slug && await isNoteSlugTaken(category.projectVersionId, slug)) {
+            setResponseStatus(event, 409)
+            return fail('Slug already in use', 409)
+        }
+
+        const note = await prisma.$transaction(async (tx) => {
+            const created = await tx.noteInfo.create({
+                data: {categoryId, noteTitle, slug, weight, status, accessLevel, ...seo.data},
+                include: {category: true},
+            })
+            await recordSlugChange(tx, 'note', category.projectVersionId, created.id, null, slug)
+            return created
         })
+        await refreshNoteSearchIndexSafely(note.id)
         setResponseStatus(event, 201)
         return ok(noteToDto(note), 'created')
     } catch (err) {
@@ -1,15 +1,10 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
 import {getRouterParam, setResponseStatus} from 'h3'
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -28,7 +23,7 @@ export default defineEventHandler(async (event) => {
         // 获取当前记录
         const current = await prisma.noteContent.findUnique({
             where: {id},
-            select: {noteInfoId: true, isPrimary: true},
+            select: {noteInfoId: true, locale: true, isPrimary: true},
         })
         if (!current) {
             setResponseStatus(event, 404)
@@ -41,10 +36,16 @@ export default defineEventHandler(async (event) => {
             data: {isDeleted: true, isPrimary: false, updatedAt: new Date()},
         })
 
-        // 如果删除的是主版本，自动将最新的一个设为主版本
+        // 取消该版本待执行的定时计划
+        await prisma.noteSchedule.updateMany({
+            where: {noteContentId: id, status: 'pending'},
+            data: {status: 'cancelled', updatedAt: new Date()},
+        })
+
+        // 如果删除的是主版本，自动将同一语言最新的一个设为主版本
         if (current.isPrimary) {
             const latest = await prisma.noteContent.findFirst({
-                where: {noteInfoId: current.noteInfoId, isDeleted: false},
+                where: {noteInfoId: current.noteInfoId, locale: current.locale, isDeleted: false},
                 orderBy: {createdAt: 'desc'},
             })
             if (latest) {
@@ -55,6 +56,8 @@ export default defineEventHandler(async (event) => {
             }
         }
 
+        await refreshNoteSearchIndexSafely(current.noteInfoId)
+        await refreshNoteEmbeddingsSafely(current.noteInfoId)
         return ok(null, 'deleted')
     } catch (err: any) {
         if (err?.code === 'P2025') {
@@ -1,6 +1,8 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
+import {updateContentWithRevision, getRevisionActor} from '~~/server/utils/noteRevision'
 import {getRouterParam, readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown) {
@@ -14,6 +16,8 @@ function contentToDto(item: any) {
         noteInfoId: item.noteInfoId.toString(),
         content: item.content,
         versionNote: item.versionNote,
+        locale: item.locale,
+        title: item.title,
         isPrimary: item.isPrimary,
         status: item.status,
         createdAt: item.createdAt,
@@ -23,12 +27,6 @@ function contentToDto(item: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -46,6 +44,7 @@ export default defineEventHandler(async (event) => {
     const body = await readBody<{
         content?: string
         versionNote?: string
+        title?: string
         isPrimary?: boolean
         status?: number
         isDeleted?: boolean
@@ -61,6 +60,10 @@ export default defineEventHandler(async (event) => {
         data.versionNote = typeof body.versionNote === 'string' ? body.versionNote.trim() || null : null
     }
 
+    if (body?.title !== undefined) {
+        data.title = typeof body.title === 'string' ? body.title.trim().slice(0, 255) || null : null
+    }
+
     const status = toInt(body?.status)
     if (status !== null) data.status = status
 
@@ -70,19 +73,19 @@ export default defineEventHandler(async (event) => {
 
     // 处理设为主版本
     if (body?.isPrimary === true) {
-        // 先获取当前记录的 noteInfoId
+        // 先获取当前记录的 noteInfoId 与语言
         const current = await prisma.noteContent.findUnique({
             where: {id},
-            select: {noteInfoId: true},
+            select: {noteInfoId: true, locale: true},
         })
         if (!current) {
             setResponseStatus(event, 404)
             return fail('Not Found', 404)
         }
 
-        // 取消其他主版本
+        // 取消同一语言的其他主版本
         await prisma.noteContent.updateMany({
-            where: {noteInfoId: current.noteInfoId, isPrimary: true, id: {not: id}},
+            where: {noteInfoId: current.noteInfoId, locale: current.locale, isPrimary: true, id: {not: id}},
             data: {isPrimary: false, updatedAt: new Date()},
         })
         data.isPrimary = true
@@ -94,10 +97,19 @@ export default defineEventHandler(async (event) => {
     }
 
     try {
-        const item = await prisma.noteContent.update({
-            where: {id},
-            data,
-        })
+        // 修改正文时先保存旧正文到修订历史
+        const item = typeof data.content === 'string'
+            ? await updateContentWithRevision(id, data, getRevisionActor(event))
+            : await prisma.noteContent.update({where: {id}, data})
+        if (!item) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+        await refreshNoteSearchIndexSafely(item.noteInfoId)
+        // 设为主版本或修改主版本内容时重新向量化
+        if (item.isPrimary) {
+            await refreshNoteEmbeddingsSafely(item.noteInfoId)
+        }
         return ok(contentToDto(item))
     } catch (err: any) {
         if (err?.code === 'P2025') {
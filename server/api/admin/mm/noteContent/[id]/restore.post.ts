@@ -0,0 +1,84 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
+import {getRouterParam, readBody, setResponseStatus} from 'h3'
+
+function contentToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        content: item.content,
+        versionNote: item.versionNote,
+        locale: item.locale,
+        title: item.title,
+        isPrimary: item.isPrimary,
+        status: item.status,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        isDeleted: item.isDeleted,
+    }
+}
+
+/**
+ * 恢复为新版本
+ * 复制指定版本的内容创建一个新的主版本（同一语言内），原版本保持不变
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    const body = await readBody<{ versionNote?: string }>(event).catch(() => null)
+
+    try {
+        const source = await prisma.noteContent.findUnique({
+            where: {id},
+        })
+        if (!source || source.isDeleted) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        const versionNote = typeof body?.versionNote === 'string' && body.versionNote.trim()
+            ? body.versionNote.trim()
+            : `恢复自「${source.versionNote || `#${source.id}`}」`
+
+        const item = await prisma.$transaction(async (tx) => {
+            await tx.noteContent.updateMany({
+                where: {noteInfoId: source.noteInfoId, locale: source.locale, isPrimary: true},
+                data: {isPrimary: false, updatedAt: new Date()},
+            })
+            return tx.noteContent.create({
+                data: {
+                    noteInfoId: source.noteInfoId,
+                    content: source.content,
+                    versionNote: versionNote.slice(0, 255),
+                    locale: source.locale,
+                    title: source.title,
+                    isPrimary: true,
+                    status: 1,
+                },
+            })
+        })
+
+        await refreshNoteSearchIndexSafely(item.noteInfoId)
+        await refreshNoteEmbeddingsSafely(item.noteInfoId)
+        setResponseStatus(event, 201)
+        return ok(contentToDto(item), 'restored')
+    } catch (err) {
+        console.error('NoteContent restore error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,65 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {diffLines, summarizeDiff} from '~~/server/utils/textDiff'
+import {getQuery, setResponseStatus} from 'h3'
+
+function toBigInt(value: unknown) {
+    if (typeof value !== 'string' && typeof value !== 'number') return null
+    try {
+        return BigInt(value)
+    } catch {
+        return null
+    }
+}
+
+function versionToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        versionNote: item.versionNote,
+        isPrimary: item.isPrimary,
+        status: item.status,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+    }
+}
+
+/**
+ * 对比两个内容版本
+ * from 为旧版本（左侧），to 为新版本（右侧）
+ */
+export default defineEventHandler(async (event) => {
+    const query = getQuery(event)
+    const fromId = toBigInt(query.from)
+    const toId = toBigInt(query.to)
+
+    if (fromId === null || toId === null) {
+        setResponseStatus(event, 400)
+        return fail('Invalid from or to', 400)
+    }
+
+    try {
+        const [from, to] = await Promise.all([
+            prisma.noteContent.findUnique({where: {id: fromId}}),
+            prisma.noteContent.findUnique({where: {id: toId}}),
+        ])
+
+        if (!from || from.isDeleted || !to || to.isDeleted) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        const rows = diffLines(from.content, to.content)
+
+        return ok({
+            from: versionToDto(from),
+            to: versionToDto(to),
+            stats: summarizeDiff(rows),
+            rows,
+        })
+    } catch (err) {
+        console.error('NoteContent diff error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
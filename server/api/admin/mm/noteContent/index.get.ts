@@ -1,6 +1,6 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {readLocaleColumn} from '~~/server/utils/contentLocale'
 import {getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -20,6 +20,8 @@ function contentToDto(item: any) {
         noteInfoId: item.noteInfoId.toString(),
         content: item.content,
         versionNote: item.versionNote,
+        locale: item.locale,
+        title: item.title,
         isPrimary: item.isPrimary,
         status: item.status,
         createdAt: item.createdAt,
@@ -29,12 +31,6 @@ function contentToDto(item: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const query = getQuery(event)
     const noteInfoId = query.noteInfoId
     const includeDeleted = toBool(query.includeDeleted)
@@ -52,8 +48,16 @@ export default defineEventHandler(async (event) => {
         return fail('Invalid noteInfoId', 400)
     }
 
+    // 未传 locale 时返回原文版本，传入译文语言时返回该语言的版本
+    const localeResult = readLocaleColumn(query.locale)
+    if ('error' in localeResult) {
+        setResponseStatus(event, 400)
+        return fail(localeResult.error, 400)
+    }
+
     const where: any = {
         noteInfoId: noteInfoIdBigInt,
+        locale: localeResult.locale,
     }
 
     if (!includeDeleted) {
@@ -1,6 +1,8 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {readLocaleColumn} from '~~/server/utils/contentLocale'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
 import {readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -14,6 +16,8 @@ function contentToDto(item: any) {
         noteInfoId: item.noteInfoId.toString(),
         content: item.content,
         versionNote: item.versionNote,
+        locale: item.locale,
+        title: item.title,
         isPrimary: item.isPrimary,
         status: item.status,
         createdAt: item.createdAt,
@@ -23,16 +27,12 @@ function contentToDto(item: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         noteInfoId?: string | number
         content?: string
         versionNote?: string
+        locale?: string
+        title?: string
         isPrimary?: boolean
         status?: number
     }>(event)
@@ -56,6 +56,15 @@ export default defineEventHandler(async (event) => {
     const isPrimary = body?.isPrimary === true
     const status = toInt(body?.status, 1)
 
+    const localeResult = readLocaleColumn(body?.locale)
+    if ('error' in localeResult) {
+        setResponseStatus(event, 400)
+        return fail(localeResult.error, 400)
+    }
+    const locale = localeResult.locale
+    // 标题仅用于译文，原文标题即笔记标题
+    const title = locale && typeof body?.title === 'string' ? body.title.trim().slice(0, 255) || null : null
+
     try {
         // 检查笔记信息是否存在
         const noteInfo = await prisma.noteInfo.findUnique({
@@ -66,17 +75,17 @@ export default defineEventHandler(async (event) => {
             return fail('NoteInfo not found', 404)
         }
 
-        // 如果设为主版本，先取消其他主版本
+        // 如果设为主版本，先取消同一语言的其他主版本
         if (isPrimary) {
             await prisma.noteContent.updateMany({
-                where: {noteInfoId, isPrimary: true},
+                where: {noteInfoId, locale, isPrimary: true},
                 data: {isPrimary: false, updatedAt: new Date()},
             })
         }
 
-        // 检查是否是第一个版本，如果是则自动设为主版本
+        // 检查是否是该语言的第一个版本，如果是则自动设为主版本
         const existingCount = await prisma.noteContent.count({
-            where: {noteInfoId, isDeleted: false},
+            where: {noteInfoId, locale, isDeleted: false},
         })
         const shouldBePrimary = isPrimary || existingCount === 0
 
@@ -85,11 +94,15 @@ export default defineEventHandler(async (event) => {
                 noteInfoId,
                 content,
                 versionNote,
+                locale,
+                title,
                 isPrimary: shouldBePrimary,
                 status,
             },
         })
 
+        await refreshNoteSearchIndexSafely(noteInfoId)
+        await refreshNoteEmbeddingsSafely(noteInfoId)
         setResponseStatus(event, 201)
         return ok(contentToDto(item), 'created')
     } catch (err) {
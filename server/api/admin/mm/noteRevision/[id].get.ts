@@ -0,0 +1,48 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {getRouterParam, setResponseStatus} from 'h3'
+
+function revisionToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteContentId: item.noteContentId.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        content: item.content,
+        contentHash: item.contentHash,
+        action: item.action,
+        userId: item.userId,
+        username: item.username,
+        createdAt: item.createdAt,
+    }
+}
+
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    try {
+        const item = await prisma.noteContentRevision.findUnique({
+            where: {id},
+        })
+        if (!item) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+        return ok(revisionToDto(item))
+    } catch (err) {
+        console.error('NoteContentRevision get error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
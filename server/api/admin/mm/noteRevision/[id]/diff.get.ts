@@ -0,0 +1,74 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {diffLines, summarizeDiff} from '~~/server/utils/textDiff'
+import {getQuery, getRouterParam, setResponseStatus} from 'h3'
+
+/**
+ * 对比修订与当前正文
+ * 左侧为该修订保存的正文，右侧默认为所属版本的当前正文；
+ * 传入 against 时右侧为另一条修订
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    let againstId: bigint | null = null
+    try {
+        id = BigInt(idRaw)
+        const against = getQuery(event).against
+        if (against !== undefined && against !== '') {
+            againstId = BigInt(String(against))
+        }
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    try {
+        const revision = await prisma.noteContentRevision.findUnique({
+            where: {id},
+        })
+        if (!revision) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        let newText: string
+        if (againstId !== null) {
+            const against = await prisma.noteContentRevision.findUnique({
+                where: {id: againstId},
+                select: {content: true},
+            })
+            if (!against) {
+                setResponseStatus(event, 404)
+                return fail('Not Found', 404)
+            }
+            newText = against.content
+        } else {
+            const current = await prisma.noteContent.findUnique({
+                where: {id: revision.noteContentId},
+                select: {content: true},
+            })
+            if (!current) {
+                setResponseStatus(event, 404)
+                return fail('Not Found', 404)
+            }
+            newText = current.content
+        }
+
+        const rows = diffLines(revision.content, newText)
+
+        return ok({
+            stats: summarizeDiff(rows),
+            rows,
+        })
+    } catch (err) {
+        console.error('NoteContentRevision diff error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,80 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
+import {updateContentWithRevision, getRevisionActor} from '~~/server/utils/noteRevision'
+import {getRouterParam, setResponseStatus} from 'h3'
+
+function contentToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        content: item.content,
+        versionNote: item.versionNote,
+        isPrimary: item.isPrimary,
+        status: item.status,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        isDeleted: item.isDeleted,
+    }
+}
+
+/**
+ * 回滚到指定修订
+ * 当前正文同样会先写入修订历史，回滚操作本身可再次回滚
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    try {
+        const revision = await prisma.noteContentRevision.findUnique({
+            where: {id},
+        })
+        if (!revision) {
+            setResponseStatus(event, 404)
+            return fail('Not Found', 404)
+        }
+
+        const target = await prisma.noteContent.findUnique({
+            where: {id: revision.noteContentId},
+            select: {isDeleted: true},
+        })
+        if (!target || target.isDeleted) {
+            setResponseStatus(event, 404)
+            return fail('NoteContent not found', 404)
+        }
+
+        const item = await updateContentWithRevision(
+            revision.noteContentId,
+            {content: revision.content, updatedAt: new Date()},
+            getRevisionActor(event),
+            'rollback'
+        )
+        if (!item) {
+            setResponseStatus(event, 404)
+            return fail('NoteContent not found', 404)
+        }
+
+        await refreshNoteSearchIndexSafely(item.noteInfoId)
+        if (item.isPrimary) {
+            await refreshNoteEmbeddingsSafely(item.noteInfoId)
+        }
+        return ok(contentToDto(item))
+    } catch (err) {
+        console.error('NoteContentRevision rollback error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,73 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {getQuery, setResponseStatus} from 'h3'
+
+function toInt(value: unknown, fallback: number) {
+    const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+    return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+function revisionToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteContentId: item.noteContentId.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        contentHash: item.contentHash,
+        contentLength: item.content.length,
+        action: item.action,
+        userId: item.userId,
+        username: item.username,
+        createdAt: item.createdAt,
+    }
+}
+
+/**
+ * 修订历史时间线
+ * 按 noteContentId 查询单个版本的修订，或按 noteInfoId 查询笔记下全部修订
+ */
+export default defineEventHandler(async (event) => {
+    const query = getQuery(event)
+    const page = Math.max(1, toInt(query.page, 1))
+    const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 20)))
+
+    const where: any = {}
+
+    try {
+        if (query.noteContentId !== undefined) {
+            where.noteContentId = BigInt(String(query.noteContentId))
+        } else if (query.noteInfoId !== undefined) {
+            where.noteInfoId = BigInt(String(query.noteInfoId))
+        } else {
+            setResponseStatus(event, 400)
+            return fail('Missing noteContentId or noteInfoId', 400)
+        }
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid noteContentId or noteInfoId', 400)
+    }
+
+    const skip = (page - 1) * pageSize
+
+    try {
+        const [total, list] = await Promise.all([
+            prisma.noteContentRevision.count({where}),
+            prisma.noteContentRevision.findMany({
+                where,
+                skip,
+                take: pageSize,
+                orderBy: {id: 'desc'},
+            }),
+        ])
+
+        return ok({
+            list: list.map(revisionToDto),
+            page,
+            pageSize,
+            total,
+        })
+    } catch (err) {
+        console.error('NoteContentRevision list error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
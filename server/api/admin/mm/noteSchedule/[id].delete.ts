@@ -0,0 +1,40 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {getRouterParam, setResponseStatus} from 'h3'
+
+/**
+ * 取消定时计划（仅待执行的计划可以取消，记录保留）
+ */
+export default defineEventHandler(async (event) => {
+    const idRaw = getRouterParam(event, 'id')
+    if (!idRaw) {
+        setResponseStatus(event, 400)
+        return fail('Missing id', 400)
+    }
+
+    let id: bigint
+    try {
+        id = BigInt(idRaw)
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid id', 400)
+    }
+
+    try {
+        const result = await prisma.noteSchedule.updateMany({
+            where: {id, status: 'pending'},
+            data: {status: 'cancelled', updatedAt: new Date()},
+        })
+        if (result.count === 0) {
+            const exists = await prisma.noteSchedule.count({where: {id}})
+            setResponseStatus(event, exists ? 409 : 404)
+            return exists ? fail('Schedule is no longer pending', 409) : fail('Not Found', 404)
+        }
+
+        return ok(null, 'cancelled')
+    } catch (err) {
+        console.error('NoteSchedule cancel error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
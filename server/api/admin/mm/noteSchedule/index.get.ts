@@ -0,0 +1,61 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {getQuery, setResponseStatus} from 'h3'
+
+function scheduleToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        noteContentId: item.noteContentId?.toString() ?? null,
+        action: item.action,
+        runAt: item.runAt,
+        status: item.status,
+        error: item.error,
+        userId: item.userId,
+        username: item.username,
+        executedAt: item.executedAt,
+        createdAt: item.createdAt,
+        noteContent: item.noteContent ? {
+            id: item.noteContent.id.toString(),
+            versionNote: item.noteContent.versionNote,
+            locale: item.noteContent.locale,
+        } : null,
+    }
+}
+
+/**
+ * 笔记定时计划列表
+ * 默认只返回待执行的计划，status=all 返回全部（最近 50 条）
+ */
+export default defineEventHandler(async (event) => {
+    const query = getQuery(event)
+
+    let noteInfoId: bigint
+    try {
+        noteInfoId = BigInt(String(query.noteInfoId ?? ''))
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid noteInfoId', 400)
+    }
+
+    const all = query.status === 'all'
+
+    try {
+        const list = await prisma.noteSchedule.findMany({
+            where: {noteInfoId, ...(all ? {} : {status: 'pending'})},
+            orderBy: all ? {id: 'desc'} : [{runAt: 'asc'}, {id: 'asc'}],
+            take: all ? 50 : undefined,
+            include: {
+                noteContent: {select: {id: true, versionNote: true, locale: true}},
+            },
+        })
+
+        return ok({
+            list: list.map(scheduleToDto),
+        })
+    } catch (err) {
+        console.error('NoteSchedule list error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,127 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {getRevisionActor} from '~~/server/utils/noteRevision'
+import {isNoteScheduleAction} from '~~/server/utils/noteSchedule'
+import {readBody, setResponseStatus} from 'h3'
+
+function toBigInt(value: unknown) {
+    if (typeof value !== 'string' && typeof value !== 'number') return null
+    try {
+        return BigInt(value)
+    } catch {
+        return null
+    }
+}
+
+function scheduleToDto(item: any) {
+    return {
+        id: item.id.toString(),
+        noteInfoId: item.noteInfoId.toString(),
+        noteContentId: item.noteContentId?.toString() ?? null,
+        action: item.action,
+        runAt: item.runAt,
+        status: item.status,
+        error: item.error,
+        userId: item.userId,
+        username: item.username,
+        executedAt: item.executedAt,
+        createdAt: item.createdAt,
+        noteContent: item.noteContent ? {
+            id: item.noteContent.id.toString(),
+            versionNote: item.noteContent.versionNote,
+            locale: item.noteContent.locale,
+        } : null,
+    }
+}
+
+/**
+ * 创建定时计划
+ * publish 必须指定内容版本；unpublish 未指定内容版本时下线整篇笔记
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{
+        noteInfoId?: string | number
+        noteContentId?: string | number | null
+        action?: string
+        runAt?: string
+    }>(event)
+
+    const noteInfoId = toBigInt(body?.noteInfoId)
+    if (noteInfoId === null) {
+        setResponseStatus(event, 400)
+        return fail('Invalid noteInfoId', 400)
+    }
+
+    let noteContentId: bigint | null = null
+    if (body?.noteContentId !== undefined && body.noteContentId !== null && body.noteContentId !== '') {
+        noteContentId = toBigInt(body.noteContentId)
+        if (noteContentId === null) {
+            setResponseStatus(event, 400)
+            return fail('Invalid noteContentId', 400)
+        }
+    }
+
+    const action = body?.action
+    if (!isNoteScheduleAction(action)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid action', 400)
+    }
+    if (action === 'publish' && noteContentId === null) {
+        setResponseStatus(event, 400)
+        return fail('Missing noteContentId', 400)
+    }
+
+    const runAt = typeof body?.runAt === 'string' ? new Date(body.runAt) : null
+    if (!runAt || Number.isNaN(runAt.getTime())) {
+        setResponseStatus(event, 400)
+        return fail('Invalid runAt', 400)
+    }
+    if (runAt.getTime() <= Date.now()) {
+        setResponseStatus(event, 400)
+        return fail('runAt must be in the future', 400)
+    }
+
+    try {
+        const noteInfo = await prisma.noteInfo.findUnique({
+            where: {id: noteInfoId, isDeleted: false},
+            select: {id: true},
+        })
+        if (!noteInfo) {
+            setResponseStatus(event, 404)
+            return fail('NoteInfo not found', 404)
+        }
+
+        if (noteContentId !== null) {
+            const content = await prisma.noteContent.findUnique({
+                where: {id: noteContentId},
+                select: {noteInfoId: true, isDeleted: true},
+            })
+            if (!content || content.isDeleted || content.noteInfoId !== noteInfoId) {
+                setResponseStatus(event, 404)
+                return fail('NoteContent not found', 404)
+            }
+        }
+
+        const actor = getRevisionActor(event)
+        const item = await prisma.noteSchedule.create({
+            data: {
+                noteInfoId,
+                noteContentId,
+                action,
+                runAt,
+                userId: actor.userId,
+                username: actor.username,
+            },
+            include: {
+                noteContent: {select: {id: true, versionNote: true, locale: true}},
+            },
+        })
+
+        setResponseStatus(event, 201)
+        return ok(scheduleToDto(item), 'created')
+    } catch (err) {
+        console.error('NoteSchedule create error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
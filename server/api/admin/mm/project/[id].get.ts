@@ -1,12 +1,17 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { getRouterParam, setResponseStatus } from 'h3'
 
 function projectToDto(project: any) {
   return {
     id: project.id.toString(),
     projectName: project.projectName,
+    slug: project.slug,
+    seoTitle: project.seoTitle,
+    seoDescription: project.seoDescription,
+    seoKeywords: project.seoKeywords,
+    canonicalUrl: project.canonicalUrl,
+    ogImage: project.ogImage,
     avatar: project.avatar,
     weight: project.weight,
     status: project.status,
@@ -22,12 +27,6 @@ function projectToDto(project: any) {
  * GET /api/admin/mm/project/:id
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   const idRaw = getRouterParam(event, 'id')
   if (!idRaw) {
     setResponseStatus(event, 400)
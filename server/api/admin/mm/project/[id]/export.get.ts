@@ -0,0 +1,42 @@
+import { fail } from '~~/server/utils/response'
+import { exportProject } from '~~/server/utils/projectExport'
+import { getRouterParam, setResponseHeaders, setResponseStatus } from 'h3'
+
+/**
+ * 导出项目为 Markdown 内容包（zip）
+ * GET /api/admin/mm/project/:id/export
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+  if (!idRaw) {
+    setResponseStatus(event, 400)
+    return fail('Missing id', 400)
+  }
+
+  let id: bigint
+  try {
+    id = BigInt(idRaw)
+  } catch {
+    setResponseStatus(event, 400)
+    return fail('Invalid id', 400)
+  }
+
+  try {
+    const result = await exportProject(id)
+    if (!result) {
+      setResponseStatus(event, 404)
+      return fail('Not Found', 404)
+    }
+
+    setResponseHeaders(event, {
+      'Content-Type': 'application/zip',
+      'Content-Length': String(result.data.byteLength),
+      'Content-Disposition': `attachment; filename="project-${id}.zip"; filename*=UTF-8''${encodeURIComponent(result.fileName)}`,
+    })
+    return Buffer.from(result.data.buffer, result.data.byteOffset, result.data.byteLength)
+  } catch (err) {
+    console.error('Project export error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
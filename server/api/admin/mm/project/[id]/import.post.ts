@@ -0,0 +1,81 @@
+import { ok, fail } from '~~/server/utils/response'
+import { importProjectBundle, ProjectImportError } from '~~/server/utils/projectImport'
+import { getRevisionActor } from '~~/server/utils/noteRevision'
+import { getRouterParam, readMultipartFormData, setResponseStatus } from 'h3'
+
+/** 内容包最大大小：100MB */
+const MAX_BUNDLE_SIZE = 100 * 1024 * 1024
+
+/**
+ * 从 Markdown 内容包（zip）导入项目内容
+ * POST /api/admin/mm/project/:id/import
+ * Content-Type: multipart/form-data
+ *
+ * 表单字段：
+ * - file: zip 文件（导出的内容包，或任意 Markdown 文件夹打包）
+ * - version: 目标版本号（可选，指定后所有目录均作为该版本下的分类）
+ * - dryRun: 'true' 时仅返回导入预览，不写入
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+  if (!idRaw) {
+    setResponseStatus(event, 400)
+    return fail('Missing id', 400)
+  }
+
+  let id: bigint
+  try {
+    id = BigInt(idRaw)
+  } catch {
+    setResponseStatus(event, 400)
+    return fail('Invalid id', 400)
+  }
+
+  const parts = await readMultipartFormData(event)
+  const file = parts?.find((p) => p.name === 'file' && p.filename)
+  if (!file) {
+    setResponseStatus(event, 400)
+    return fail('未检测到上传文件', 400)
+  }
+  if (!/\.zip$/i.test(file.filename!)) {
+    setResponseStatus(event, 400)
+    return fail('仅支持 zip 文件', 400)
+  }
+  if (file.data.length > MAX_BUNDLE_SIZE) {
+    setResponseStatus(event, 400)
+    return fail('文件大小超过限制（最大 100MB）', 400)
+  }
+
+  const field = (name: string) => parts!.find((p) => p.name === name && !p.filename)?.data.toString('utf8')
+  const version = field('version')?.trim() || null
+  if (version && version.length > 64) {
+    setResponseStatus(event, 400)
+    return fail('版本号不能超过 64 个字符', 400)
+  }
+
+  try {
+    const report = await importProjectBundle(new Uint8Array(file.data), {
+      projectId: id,
+      version,
+      dryRun: field('dryRun') === 'true',
+      actor: getRevisionActor(event),
+    })
+    if (!report) {
+      setResponseStatus(event, 404)
+      return fail('Not Found', 404)
+    }
+    return ok(report)
+  } catch (err: any) {
+    if (err instanceof ProjectImportError) {
+      setResponseStatus(event, 400)
+      return fail(err.message, 400)
+    }
+    if (err?.statusCode) {
+      setResponseStatus(event, err.statusCode)
+      return fail(err.message, err.statusCode)
+    }
+    console.error('Project import error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
@@ -1,6 +1,5 @@
 import { uploadFiles } from '~~/server/utils/file'
 import { ok, fail } from '~~/server/utils/response'
-import { readSession } from '~~/server/utils/session'
 import { setResponseStatus } from 'h3'
 
 /**
@@ -9,12 +8,6 @@ import { setResponseStatus } from 'h3'
  * Content-Type: multipart/form-data
  */
 export default defineEventHandler(async (event) => {
-  const session = await readSession(event)
-  if (!session) {
-    setResponseStatus(event, 401)
-    return fail('Unauthorized', 401)
-  }
-
   try {
     const results = await uploadFiles(event, {
       businessType: 'ProjectAvatar',
@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {readBody, setResponseStatus} from 'h3'
 
 function toBool(value: unknown) {
@@ -39,12 +38,6 @@ function parseIds(ids: unknown): bigint[] | null {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         action?: 'delete' | 'restore' | 'setStatus' | 'setRequireAuth'
         ids?: unknown
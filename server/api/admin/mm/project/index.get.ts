@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -22,6 +21,12 @@ function projectToDto(project: any) {
     return {
         id: project.id.toString(),
         projectName: project.projectName,
+        slug: project.slug,
+        seoTitle: project.seoTitle,
+        seoDescription: project.seoDescription,
+        seoKeywords: project.seoKeywords,
+        canonicalUrl: project.canonicalUrl,
+        ogImage: project.ogImage,
         avatar: project.avatar,
         weight: project.weight,
         status: project.status,
@@ -36,12 +41,6 @@ function projectToDto(project: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const query = getQuery(event)
     const page = Math.max(1, toInt(query.page, 1))
     const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
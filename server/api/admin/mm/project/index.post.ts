@@ -1,6 +1,7 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {normalizeSlug, isValidSlug, recordSlugChange} from '~~/server/utils/slug'
+import {readSeoFields} from '~~/server/utils/seo'
 import {readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -12,6 +13,12 @@ function projectToDto(project: any) {
     return {
         id: project.id.toString(),
         projectName: project.projectName,
+        slug: project.slug,
+        seoTitle: project.seoTitle,
+        seoDescription: project.seoDescription,
+        seoKeywords: project.seoKeywords,
+        canonicalUrl: project.canonicalUrl,
+        ogImage: project.ogImage,
         avatar: project.avatar,
         weight: project.weight,
         status: project.status,
@@ -23,14 +30,14 @@ function projectToDto(project: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         projectName?: string
+        slug?: string | null
+        seoTitle?: string | null
+        seoDescription?: string | null
+        seoKeywords?: string | null
+        canonicalUrl?: string | null
+        ogImage?: string | null
         avatar?: string | null
         weight?: number
         status?: number
@@ -43,18 +50,39 @@ export default defineEventHandler(async (event) => {
         return fail('Missing projectName', 400)
     }
 
+    const slug = normalizeSlug(body?.slug)
+    if (slug && !isValidSlug(slug)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid slug', 400)
+    }
+
+    const seo = readSeoFields(body)
+    if ('error' in seo) {
+        setResponseStatus(event, 400)
+        return fail(seo.error, 400)
+    }
+
     const avatar = typeof body?.avatar === 'string' ? body.avatar : null
     const weight = toInt(body?.weight, 0)
     const status = toInt(body?.status, 1)
     const requireAuth = typeof body?.requireAuth === 'boolean' ? body.requireAuth : false
 
     try {
-        const project = await prisma.project.create({
-            data: {projectName, avatar, weight, status, requireAuth},
+        const project = await prisma.$transaction(async (tx) => {
+            const created = await tx.project.create({
+                data: {projectName, slug, avatar, weight, status, requireAuth, ...seo.data},
+            })
+            // 新别名若是其他项目的旧别名，由新项目接管
+            await recordSlugChange(tx, 'project', 0n, created.id, null, slug)
+            return created
         })
         setResponseStatus(event, 201)
         return ok(projectToDto(project), 'created')
-    } catch (err) {
+    } catch (err: any) {
+        if (err?.code === 'P2002') {
+            setResponseStatus(event, 409)
+            return fail('Slug already in use', 409)
+        }
         setResponseStatus(event, 500)
         return fail('Internal Server Error', 500)
     }
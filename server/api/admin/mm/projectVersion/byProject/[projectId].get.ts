@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getRouterParam, getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -19,6 +18,7 @@ function projectVersionToDto(pv: any) {
         id: pv.id.toString(),
         projectId: pv.projectId.toString(),
         version: pv.version,
+        slug: pv.slug,
         description: pv.description,
         weight: pv.weight,
         status: pv.status,
@@ -42,12 +42,6 @@ function projectToDto(project: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const projectIdRaw = getRouterParam(event, 'projectId')
     if (!projectIdRaw) {
         setResponseStatus(event, 400)
@@ -0,0 +1,223 @@
+import {prisma} from '~~/server/utils/prisma'
+import {Prisma} from '~~/generated/prisma/client'
+import {ok, fail} from '~~/server/utils/response'
+import {refreshNoteSearchIndexSafely} from '~~/server/utils/noteSearch'
+import {refreshNoteEmbeddingsSafely} from '~~/server/utils/noteEmbedding'
+import {readBody, setResponseStatus} from 'h3'
+
+/** 克隆事务超时：5 分钟 */
+const TRANSACTION_TIMEOUT = 5 * 60 * 1000
+
+function toInt(value: unknown, fallback: number) {
+    const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+    return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+function toBool(value: unknown) {
+    if (typeof value === 'boolean') return value
+    if (typeof value !== 'string') return false
+    return value === '1' || value.toLowerCase() === 'true'
+}
+
+function projectVersionToDto(pv: any) {
+    return {
+        id: pv.id.toString(),
+        projectId: pv.projectId.toString(),
+        version: pv.version,
+        slug: pv.slug,
+        description: pv.description,
+        weight: pv.weight,
+        status: pv.status,
+        createdAt: pv.createdAt,
+        updatedAt: pv.updatedAt,
+        isDeleted: pv.isDeleted,
+        project: pv.project ? {
+            id: pv.project.id.toString(),
+            projectName: pv.project.projectName,
+        } : null,
+    }
+}
+
+// 按权重降序、ID 升序排序（与前台展示顺序一致）
+function byWeight<T extends {weight: number; id: bigint}>(a: T, b: T) {
+    if (a.weight !== b.weight) return b.weight - a.weight
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * 克隆项目版本
+ * 将源版本的分类、笔记与内容版本深拷贝到新版本号下
+ *
+ * body:
+ * - sourceVersionId: 源版本ID
+ * - version: 新版本号
+ * - description / weight / status: 新版本信息，description 缺省时沿用源版本
+ * - contentScope: 'primary' 仅复制主显示版本（默认），'all' 复制全部内容版本
+ * - onlyEnabled: 仅复制启用的分类、笔记与内容版本
+ * - resetWeights: 按当前展示顺序重新编号权重（10、20、30…）
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{
+        sourceVersionId?: string | number
+        version?: string
+        description?: string | null
+        weight?: number
+        status?: number
+        contentScope?: 'primary' | 'all'
+        onlyEnabled?: boolean | string
+        resetWeights?: boolean | string
+    }>(event)
+
+    // 验证 sourceVersionId
+    if (body?.sourceVersionId === undefined) {
+        setResponseStatus(event, 400)
+        return fail('Missing sourceVersionId', 400)
+    }
+
+    let sourceVersionId: bigint
+    try {
+        sourceVersionId = BigInt(String(body.sourceVersionId))
+    } catch {
+        setResponseStatus(event, 400)
+        return fail('Invalid sourceVersionId', 400)
+    }
+
+    // 验证 version
+    const version = typeof body?.version === 'string' ? body.version.trim() : ''
+    if (!version) {
+        setResponseStatus(event, 400)
+        return fail('Missing version', 400)
+    }
+    if (version.length > 64) {
+        setResponseStatus(event, 400)
+        return fail('Version too long', 400)
+    }
+
+    const contentScope = body?.contentScope === 'all' ? 'all' : 'primary'
+    const onlyEnabled = toBool(body?.onlyEnabled)
+    const resetWeights = toBool(body?.resetWeights)
+
+    try {
+        const source = await prisma.projectVersion.findUnique({
+            where: {id: sourceVersionId, isDeleted: false},
+            include: {
+                project: true,
+                categories: {
+                    where: {isDeleted: false, ...(onlyEnabled ? {status: 1} : {})},
+                    include: {
+                        noteInfos: {
+                            where: {isDeleted: false, ...(onlyEnabled ? {status: 1} : {})},
+                            include: {
+                                contents: {
+                                    where: {isDeleted: false, ...(onlyEnabled ? {status: 1} : {})},
+                                    orderBy: {createdAt: 'asc'},
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        })
+        if (!source || source.project.isDeleted) {
+            setResponseStatus(event, 404)
+            return fail('Source version not found', 404)
+        }
+
+        // 同一项目下版本号不可重复
+        const duplicate = await prisma.projectVersion.findFirst({
+            where: {projectId: source.projectId, version, isDeleted: false},
+            select: {id: true},
+        })
+        if (duplicate) {
+            setResponseStatus(event, 409)
+            return fail('Version already exists', 409)
+        }
+
+        const description = body?.description === undefined
+            ? source.description
+            : typeof body.description === 'string' ? body.description.trim() || null : null
+
+        const stats = {categories: 0, notes: 0, contents: 0}
+        const noteIds: bigint[] = []
+
+        const pv = await prisma.$transaction(async (tx) => {
+            const created = await tx.projectVersion.create({
+                data: {
+                    projectId: source.projectId,
+                    version,
+                    description,
+                    weight: toInt(body?.weight, source.weight),
+                    status: toInt(body?.status, source.status),
+                },
+                include: {project: true},
+            })
+
+            const categories = [...source.categories].sort(byWeight)
+            for (const [cIndex, category] of categories.entries()) {
+                const newCategory = await tx.category.create({
+                    data: {
+                        projectVersionId: created.id,
+                        categoryName: category.categoryName,
+                        nameTranslations: category.nameTranslations ?? Prisma.DbNull,
+                        weight: resetWeights ? (categories.length - cIndex) * 10 : category.weight,
+                        status: category.status,
+                        accessLevel: category.accessLevel,
+                    },
+                })
+                stats.categories++
+
+                const notes = [...category.noteInfos].sort(byWeight)
+                for (const [nIndex, note] of notes.entries()) {
+                    const newNote = await tx.noteInfo.create({
+                        data: {
+                            categoryId: newCategory.id,
+                            noteTitle: note.noteTitle,
+                            slug: note.slug,
+                            weight: resetWeights ? (notes.length - nIndex) * 10 : note.weight,
+                            status: note.status,
+                            accessLevel: note.accessLevel,
+                        },
+                    })
+                    stats.notes++
+                    noteIds.push(newNote.id)
+
+                    // 仅复制主版本时，原文与每种译文各取主版本，没有主版本则取最新的内容版本作为主版本
+                    const contents = contentScope === 'all'
+                        ? note.contents
+                        : [...new Set(note.contents.map((c) => c.locale))].map((locale) => {
+                            const localeContents = note.contents.filter((c) => c.locale === locale)
+                            return localeContents.find((c) => c.isPrimary) ?? localeContents[localeContents.length - 1]!
+                        })
+                    for (const content of contents) {
+                        await tx.noteContent.create({
+                            data: {
+                                noteInfoId: newNote.id,
+                                content: content.content,
+                                versionNote: content.versionNote,
+                                locale: content.locale,
+                                title: content.title,
+                                isPrimary: contentScope === 'all' ? content.isPrimary : true,
+                                status: content.status,
+                            },
+                        })
+                        stats.contents++
+                    }
+                }
+            }
+
+            return created
+        }, {timeout: TRANSACTION_TIMEOUT})
+
+        for (const noteId of noteIds) {
+            await refreshNoteSearchIndexSafely(noteId)
+            await refreshNoteEmbeddingsSafely(noteId)
+        }
+
+        setResponseStatus(event, 201)
+        return ok({...projectVersionToDto(pv), cloned: stats}, 'created')
+    } catch (err) {
+        console.error('Clone project version error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -1,6 +1,5 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
 import {getQuery, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -19,6 +18,7 @@ function projectVersionToDto(pv: any) {
         id: pv.id.toString(),
         projectId: pv.projectId.toString(),
         version: pv.version,
+        slug: pv.slug,
         description: pv.description,
         weight: pv.weight,
         status: pv.status,
@@ -33,12 +33,6 @@ function projectVersionToDto(pv: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const query = getQuery(event)
     const page = Math.max(1, toInt(query.page, 1))
     const pageSize = Math.min(100, Math.max(1, toInt(query.pageSize, 10)))
@@ -1,6 +1,6 @@
 import {prisma} from '~~/server/utils/prisma'
 import {ok, fail} from '~~/server/utils/response'
-import {readSession} from '~~/server/utils/session'
+import {normalizeSlug, isValidSlug, recordSlugChange} from '~~/server/utils/slug'
 import {readBody, setResponseStatus} from 'h3'
 
 function toInt(value: unknown, fallback: number) {
@@ -13,6 +13,7 @@ function projectVersionToDto(pv: any) {
         id: pv.id.toString(),
         projectId: pv.projectId.toString(),
         version: pv.version,
+        slug: pv.slug,
         description: pv.description,
         weight: pv.weight,
         status: pv.status,
@@ -27,15 +28,10 @@ function projectVersionToDto(pv: any) {
 }
 
 export default defineEventHandler(async (event) => {
-    const session = await readSession(event)
-    if (!session) {
-        setResponseStatus(event, 401)
-        return fail('Unauthorized', 401)
-    }
-
     const body = await readBody<{
         projectId?: string | number
         version?: string
+        slug?: string | null
         description?: string
         weight?: number
         status?: number
@@ -62,6 +58,12 @@ export default defineEventHandler(async (event) => {
         return fail('Missing version', 400)
     }
 
+    const slug = normalizeSlug(body?.slug)
+    if (slug && !isValidSlug(slug)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid slug', 400)
+    }
+
     const description = typeof body?.description === 'string' ? body.description.trim() : null
     const weight = toInt(body?.weight, 0)
     const status = toInt(body?.status, 1)
@@ -76,13 +78,21 @@ export default defineEventHandler(async (event) => {
             return fail('Project not found', 404)
         }
 
-        const pv = await prisma.projectVersion.create({
-            data: {projectId, version, description, weight, status},
-            include: {project: true},
+        const pv = await prisma.$transaction(async (tx) => {
+            const created = await tx.projectVersion.create({
+                data: {projectId, version, slug, description, weight, status},
+                include: {project: true},
+            })
+            await recordSlugChange(tx, 'version', projectId, created.id, null, slug)
+            return created
         })
         setResponseStatus(event, 201)
         return ok(projectVersionToDto(pv), 'created')
-    } catch (err) {
+    } catch (err: any) {
+        if (err?.code === 'P2002') {
+            setResponseStatus(event, 409)
+            return fail('Slug already in use', 409)
+        }
         setResponseStatus(event, 500)
         return fail('Internal Server Error', 500)
     }
@@ -0,0 +1,18 @@
+import {ok, fail} from '~~/server/utils/response'
+import {rebuildNoteEmbeddings} from '~~/server/utils/noteEmbedding'
+import {setResponseStatus} from 'h3'
+
+/**
+ * 重新生成全部笔记的语义检索向量
+ * POST /api/admin/mm/search/embed
+ */
+export default defineEventHandler(async (event) => {
+    try {
+        const result = await rebuildNoteEmbeddings()
+        return ok(result, 'embedded')
+    } catch (err) {
+        console.error('Embedding rebuild error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
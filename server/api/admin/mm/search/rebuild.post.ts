@@ -0,0 +1,18 @@
+import {ok, fail} from '~~/server/utils/response'
+import {rebuildNoteSearchIndex} from '~~/server/utils/noteSearch'
+import {setResponseStatus} from 'h3'
+
+/**
+ * 重建全文检索索引
+ * POST /api/admin/mm/search/rebuild
+ */
+export default defineEventHandler(async (event) => {
+    try {
+        const count = await rebuildNoteSearchIndex()
+        return ok({count}, 'rebuilt')
+    } catch (err) {
+        console.error('Search index rebuild error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,17 @@
+import {ok, fail} from '~~/server/utils/response'
+import {getSiteIndexSettings} from '~~/server/utils/siteIndex'
+import {setResponseStatus} from 'h3'
+
+/**
+ * 获取站点索引配置（站点地图、订阅、robots.txt）
+ * GET /api/admin/mm/seo/config
+ */
+export default defineEventHandler(async (event) => {
+    try {
+        return ok(await getSiteIndexSettings())
+    } catch (err) {
+        console.error('SEO config get error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,45 @@
+import {ok, fail} from '~~/server/utils/response'
+import {ROBOTS_TXT_MAX_LENGTH, saveSiteIndexSettings} from '~~/server/utils/siteIndex'
+import {readBody, setResponseStatus} from 'h3'
+
+/**
+ * 修改站点索引配置
+ * PUT /api/admin/mm/seo/config
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{
+        includeProtected?: boolean
+        robotsTxt?: string | null
+    }>(event)
+
+    const settings: {includeProtected?: boolean; robotsTxt?: string | null} = {}
+
+    if (body?.includeProtected !== undefined) {
+        if (typeof body.includeProtected !== 'boolean') {
+            setResponseStatus(event, 400)
+            return fail('Invalid includeProtected', 400)
+        }
+        settings.includeProtected = body.includeProtected
+    }
+
+    if (body?.robotsTxt !== undefined) {
+        if (body.robotsTxt !== null && (typeof body.robotsTxt !== 'string' || body.robotsTxt.trim().length > ROBOTS_TXT_MAX_LENGTH)) {
+            setResponseStatus(event, 400)
+            return fail('Invalid robotsTxt', 400)
+        }
+        settings.robotsTxt = body.robotsTxt
+    }
+
+    if (Object.keys(settings).length === 0) {
+        setResponseStatus(event, 400)
+        return fail('No fields to update', 400)
+    }
+
+    try {
+        return ok(await saveSiteIndexSettings(settings))
+    } catch (err) {
+        console.error('SEO config update error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
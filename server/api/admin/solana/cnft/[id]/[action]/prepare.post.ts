@@ -0,0 +1,71 @@
+/**
+ * 准备 cNFT 操作交易（转移 / 销毁 / 委托）
+ * POST /api/admin/solana/cnft/:id/:action/prepare  action = transfer | burn | delegate
+ *
+ * 流程：
+ * 1. 验证请求参数
+ * 2. 从 DAS 索引获取 Merkle 证明，并按记录重建叶子校验
+ * 3. 构建交易（委托者为树权限时由服务端部分签名）
+ * 4. 创建操作会话，返回序列化交易供前端钱包签名
+ */
+
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { isCnftOperationAction, prepareCnftOperation } from '~~/server/utils/cnftOperation'
+
+interface PrepareRequest {
+  payerAddress: string
+  /** 转移的新持有者 / 新委托者，销毁时不需要 */
+  targetAddress?: string
+}
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const action = getRouterParam(event, 'action')
+  const body = await readBody<PrepareRequest>(event)
+
+  let cnftId: bigint
+  try {
+    cnftId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 cNFT ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!isCnftOperationAction(action)) {
+    throw createError({
+      statusCode: 404,
+      message: '不支持的操作',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body?.payerAddress || typeof body.payerAddress !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: '缺少必要参数：payerAddress',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (action !== 'burn' && (!body.targetAddress || typeof body.targetAddress !== 'string')) {
+    throw createError({
+      statusCode: 400,
+      message: '缺少必要参数：targetAddress',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const prepared = await prepareCnftOperation(cnftId, action, {
+    payerAddress: body.payerAddress,
+    targetAddress: body.targetAddress,
+  })
+
+  return {
+    code: 0,
+    data: prepared,
+    message: '交易已准备，请在钱包中签名',
+  }
+})
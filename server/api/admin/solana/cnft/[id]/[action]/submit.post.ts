@@ -0,0 +1,68 @@
+/**
+ * 提交已签名的 cNFT 操作交易（转移 / 销毁 / 委托）
+ * POST /api/admin/solana/cnft/:id/:action/submit
+ *
+ * 流程：
+ * 1. 验证会话与交易签名
+ * 2. 发送交易并等待确认
+ * 3. 成功时更新 cNFT 记录（持有者 / 状态 / 委托者）并写入变更历史
+ */
+
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { isCnftOperationAction, submitCnftOperation } from '~~/server/utils/cnftOperation'
+
+interface SubmitRequest {
+  sessionId: string
+  signedTransactionBase64: string
+}
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const action = getRouterParam(event, 'action')
+  const body = await readBody<SubmitRequest>(event)
+
+  let cnftId: bigint
+  try {
+    cnftId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 cNFT ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!isCnftOperationAction(action)) {
+    throw createError({
+      statusCode: 404,
+      message: '不支持的操作',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body?.sessionId || typeof body.sessionId !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: '会话 ID 不能为空',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body.signedTransactionBase64 || typeof body.signedTransactionBase64 !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: '签名交易不能为空',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const result = await submitCnftOperation(cnftId, action, body.sessionId, body.signedTransactionBase64)
+
+  if (result.status === 'failed') {
+    return { code: -1, data: result, message: '链上交易失败' }
+  }
+  if (result.status === 'pending') {
+    return { code: 1, data: result, message: '交易已提交，等待确认中，确认后由持有者同步更新记录' }
+  }
+  return { code: 0, data: result, message: '操作成功' }
+})
@@ -0,0 +1,54 @@
+/**
+ * 获取 cNFT 持有者变更记录（转移与销毁）
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+
+  let cnftId: bigint
+  try {
+    cnftId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 cNFT ID',
+    })
+  }
+
+  const cnft = await prisma.compressedNft.findUnique({
+    where: { id: cnftId },
+    select: { id: true, ownerAddress: true, status: true, ownerSyncedAt: true },
+  })
+  if (!cnft) {
+    throw createError({
+      statusCode: 404,
+      message: 'cNFT 记录不存在',
+    })
+  }
+
+  const transfers = await prisma.cnftTransfer.findMany({
+    where: { cnftId },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  })
+
+  return {
+    code: 0,
+    data: {
+      ownerAddress: cnft.ownerAddress,
+      status: cnft.status,
+      ownerSyncedAt: cnft.ownerSyncedAt,
+      list: transfers.map((t) => ({
+        id: t.id.toString(),
+        event: t.event,
+        fromAddress: t.fromAddress,
+        toAddress: t.toAddress,
+        source: t.source,
+        txSignature: t.txSignature,
+        createdAt: t.createdAt,
+      })),
+    },
+  }
+})
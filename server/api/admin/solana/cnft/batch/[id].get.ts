@@ -0,0 +1,78 @@
+/**
+ * 获取 cNFT 批量铸造任务详情
+ * 包含进度统计与接收者明细（分页，可按状态筛选）
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { getMintJobProgress, mintJobToDto, syncMintJobItems } from '~~/server/utils/cnftBatch'
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const query = getQuery(event)
+  const { status, page = '1', pageSize = '20' } = query
+
+  let jobId: bigint
+  try {
+    jobId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的任务 ID',
+    })
+  }
+
+  const job = await prisma.cnftMintJob.findUnique({ where: { id: jobId } })
+  if (!job) {
+    throw createError({
+      statusCode: 404,
+      message: '批量铸造任务不存在',
+    })
+  }
+
+  // 铸造中的接收者跟随 cNFT 对账结果
+  await syncMintJobItems(jobId)
+
+  const where: any = { jobId }
+  if (status !== undefined && status !== '') {
+    where.status = Number(status)
+  }
+
+  const pageNum = Math.max(1, Number(page) || 1)
+  const pageSizeNum = Math.min(100, Math.max(1, Number(pageSize) || 20))
+
+  const [items, total, progress, project] = await Promise.all([
+    prisma.cnftMintJobItem.findMany({
+      where,
+      orderBy: { rowNumber: 'asc' },
+      skip: (pageNum - 1) * pageSizeNum,
+      take: pageSizeNum,
+    }),
+    prisma.cnftMintJobItem.count({ where }),
+    getMintJobProgress([jobId]),
+    prisma.project.findUnique({ where: { id: job.projectId }, select: { projectName: true } }),
+  ])
+
+  return {
+    code: 0,
+    data: {
+      job: mintJobToDto(job, progress.get(jobId.toString()), project?.projectName ?? null),
+      items: {
+        list: items.map((item) => ({
+          id: item.id.toString(),
+          rowNumber: item.rowNumber,
+          ownerAddress: item.ownerAddress,
+          name: item.name ?? job.name,
+          cnftId: item.cnftId?.toString() ?? null,
+          txSignature: item.txSignature,
+          attempts: item.attempts,
+          errorMessage: item.errorMessage,
+          status: item.status,
+          updatedAt: item.updatedAt,
+        })),
+        total,
+        page: pageNum,
+        pageSize: pageSizeNum,
+      },
+    },
+  }
+})
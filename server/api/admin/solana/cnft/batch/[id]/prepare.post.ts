@@ -0,0 +1,84 @@
+/**
+ * 准备批量铸造交易
+ *
+ * 流程：
+ * 1. 验证任务与支付者地址
+ * 2. 为待铸造的接收者选择可用树，按交易大小打包多条 mintV1 指令
+ * 3. 预占叶子、创建 cNFT 记录（状态：铸造中）并使用树权限部分签名
+ * 4. 返回序列化交易供前端钱包批量签名（signAllTransactions）
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import {
+  SolanaError,
+  SolanaErrorCode,
+  createSolanaHttpError,
+  isRpcConnectionError,
+} from '~~/server/utils/solanaErrors'
+import { getMintJobProgress, prepareMintJobBatch } from '~~/server/utils/cnftBatch'
+
+interface PrepareRequest {
+  payerAddress: string
+  /** 本次最多构建的交易数 */
+  maxTransactions?: number
+}
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const body = await readBody<PrepareRequest>(event)
+
+  let jobId: bigint
+  try {
+    jobId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的任务 ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body?.payerAddress || typeof body.payerAddress !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: '缺少必要参数：payerAddress',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const job = await prisma.cnftMintJob.findUnique({ where: { id: jobId }, select: { id: true } })
+  if (!job) {
+    throw createError({
+      statusCode: 404,
+      message: '批量铸造任务不存在',
+    })
+  }
+
+  let transactions
+  try {
+    transactions = await prepareMintJobBatch(jobId, body.payerAddress, Number(body.maxTransactions) || undefined)
+  } catch (err: any) {
+    if (err.statusCode) throw err
+    console.error('[cNFT Batch] 构建交易失败:', err)
+
+    if (isRpcConnectionError(err)) {
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, undefined, 503)
+      )
+    }
+
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.TRANSACTION_BUILD_FAILED, err.message, 500)
+    )
+  }
+
+  const progress = await getMintJobProgress([jobId])
+
+  return {
+    code: 0,
+    data: {
+      transactions,
+      progress: progress.get(jobId.toString()),
+    },
+  }
+})
@@ -0,0 +1,49 @@
+/**
+ * 重试批量铸造任务中失败的接收者
+ * 不传 itemIds 时重试全部失败项；重试项回到待铸造状态，由下一次 prepare 重新打包
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { getMintJobProgress, retryMintJobItems, syncMintJobItems } from '~~/server/utils/cnftBatch'
+
+interface RetryRequest {
+  itemIds?: (string | number)[]
+}
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const body = await readBody<RetryRequest>(event)
+
+  let jobId: bigint
+  let itemIds: bigint[] | undefined
+  try {
+    jobId = BigInt(id as string)
+    itemIds = Array.isArray(body?.itemIds) ? body.itemIds.map((itemId) => BigInt(itemId)) : undefined
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 ID',
+    })
+  }
+
+  const job = await prisma.cnftMintJob.findUnique({ where: { id: jobId }, select: { id: true } })
+  if (!job) {
+    throw createError({
+      statusCode: 404,
+      message: '批量铸造任务不存在',
+    })
+  }
+
+  await syncMintJobItems(jobId)
+  const count = await retryMintJobItems(jobId, itemIds)
+  const progress = await getMintJobProgress([jobId])
+
+  return {
+    code: 0,
+    data: {
+      count,
+      progress: progress.get(jobId.toString()),
+    },
+    message: count > 0 ? `已重置 ${count} 个失败项` : '没有可重试的失败项',
+  }
+})
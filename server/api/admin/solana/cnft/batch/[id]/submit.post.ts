@@ -0,0 +1,61 @@
+/**
+ * 提交批量铸造交易
+ *
+ * 流程：
+ * 1. 验证请求参数
+ * 2. 按 prepare 返回的顺序逐笔发送已签名交易并等待确认
+ *    （同一棵树上某笔交易失败后，后续交易不再发送，避免叶子索引错位）
+ * 3. 更新 cNFT 记录与接收者状态，返回每笔交易的结果与任务进度
+ */
+
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { getMintJobProgress, submitMintJobBatch } from '~~/server/utils/cnftBatch'
+
+interface SubmitRequest {
+  transactions: {
+    sessionId: string
+    signedTransactionBase64: string
+  }[]
+}
+
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id')
+  const body = await readBody<SubmitRequest>(event)
+
+  let jobId: bigint
+  try {
+    jobId = BigInt(id as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的任务 ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const transactions = Array.isArray(body?.transactions) ? body.transactions : []
+  if (
+    transactions.length === 0 ||
+    !transactions.every((tx) => tx && typeof tx.sessionId === 'string' && typeof tx.signedTransactionBase64 === 'string')
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: '缺少必要参数：transactions',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const results = await submitMintJobBatch(jobId, transactions)
+  const progress = await getMintJobProgress([jobId])
+
+  const minted = results.filter((r) => r.status === 'success').reduce((sum, r) => sum + r.count, 0)
+  console.log(`[cNFT Batch] 任务 ${jobId} 提交 ${results.length} 笔交易，成功铸造 ${minted} 个`)
+
+  return {
+    code: 0,
+    data: {
+      results,
+      progress: progress.get(jobId.toString()),
+    },
+  }
+})
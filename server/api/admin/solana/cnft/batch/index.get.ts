@@ -0,0 +1,68 @@
+/**
+ * 获取 cNFT 批量铸造任务列表
+ * 支持按网络、项目筛选，包含每个任务的进度统计
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { getMintJobProgress, mintJobToDto } from '~~/server/utils/cnftBatch'
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const {
+    projectId,
+    network,
+    page = '1',
+    pageSize = '10',
+  } = query
+
+  // 构建查询条件
+  const where: any = {}
+
+  if (projectId) {
+    where.projectId = BigInt(projectId as string)
+  }
+
+  if (network) {
+    where.network = network as string
+  }
+
+  // 分页参数验证
+  const pageNum = Math.max(1, Number(page) || 1)
+  const pageSizeNum = Math.min(100, Math.max(1, Number(pageSize) || 10))
+
+  const [jobs, total] = await Promise.all([
+    prisma.cnftMintJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (pageNum - 1) * pageSizeNum,
+      take: pageSizeNum,
+    }),
+    prisma.cnftMintJob.count({ where }),
+  ])
+
+  const progress = await getMintJobProgress(jobs.map((job) => job.id))
+
+  // 批量查询项目名称
+  const projectIds = [...new Set(jobs.map((job) => job.projectId))]
+  const projects = projectIds.length > 0
+    ? await prisma.project.findMany({
+        where: { id: { in: projectIds } },
+        select: { id: true, projectName: true },
+      })
+    : []
+  const projectMap = new Map(projects.map((p) => [p.id.toString(), p.projectName]))
+
+  return {
+    code: 0,
+    data: {
+      list: jobs.map((job) => mintJobToDto(
+        job,
+        progress.get(job.id.toString()),
+        projectMap.get(job.projectId.toString()) ?? null
+      )),
+      total,
+      page: pageNum,
+      pageSize: pageSizeNum,
+    },
+  }
+})
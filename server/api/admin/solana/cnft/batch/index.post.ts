@@ -0,0 +1,146 @@
+/**
+ * 创建 cNFT 批量铸造任务
+ *
+ * body:
+ * - projectId: 项目 ID
+ * - network: mainnet / devnet
+ * - name: 默认 NFT 名称（接收者未单独指定时使用）
+ * - symbol / metadataUri: 可选
+ * - content: 接收者列表文件内容（CSV 或 JSON）
+ * - format: csv / json，缺省按内容推断
+ * - dryRun: 只解析校验，不创建任务
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import {
+  createMintJob,
+  mintJobToDto,
+  parseRecipients,
+  validateMintMetadata,
+  type RecipientFormat,
+} from '~~/server/utils/cnftBatch'
+
+interface CreateRequest {
+  projectId: string | number
+  network?: 'mainnet' | 'devnet'
+  name: string
+  symbol?: string
+  metadataUri?: string
+  content: string
+  format?: RecipientFormat
+  dryRun?: boolean
+}
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody<CreateRequest>(event)
+  const network = body?.network ?? 'devnet'
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  const symbol = typeof body?.symbol === 'string' ? body.symbol.trim() : ''
+  const metadataUri = typeof body?.metadataUri === 'string' ? body.metadataUri.trim() : ''
+
+  // 1. 验证参数
+  if (!body?.projectId) {
+    throw createError({
+      statusCode: 400,
+      message: '缺少必要参数：projectId',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (network !== 'mainnet' && network !== 'devnet') {
+    throw createError({
+      statusCode: 400,
+      message: '网络类型必须是 mainnet 或 devnet',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const metadataError = validateMintMetadata(name, symbol, metadataUri)
+  if (metadataError) {
+    throw createError({
+      statusCode: 400,
+      message: metadataError,
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body.content || typeof body.content !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: '接收者列表不能为空',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const format = body.format === 'csv' || body.format === 'json' ? body.format : undefined
+
+  // 2. 验证项目存在
+  let projectId: bigint
+  try {
+    projectId = BigInt(body.projectId)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 projectId',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, isDeleted: false },
+    select: { id: true, projectName: true },
+  })
+  if (!project) {
+    throw createError({
+      statusCode: 400,
+      message: '项目不存在',
+      data: { code: 'PROJECT_NOT_FOUND' },
+    })
+  }
+
+  // 3. 解析接收者列表
+  const { recipients, errors } = parseRecipients(body.content, format)
+
+  if (body.dryRun) {
+    return {
+      code: 0,
+      data: { recipients: recipients.length, errors },
+    }
+  }
+
+  if (errors.length > 0) {
+    throw createError({
+      statusCode: 400,
+      message: `接收者列表有 ${errors.length} 行错误，请修正后重新导入`,
+      data: { code: SolanaErrorCode.INVALID_PARAMS, errors },
+    })
+  }
+
+  if (recipients.length === 0) {
+    throw createError({
+      statusCode: 400,
+      message: '接收者列表为空',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  // 4. 创建任务
+  const job = await createMintJob({
+    projectId,
+    network,
+    name,
+    symbol,
+    metadataUri,
+    recipients,
+  })
+
+  console.log(`[cNFT Batch] 创建任务: id=${job.id}, project=${projectId}, recipients=${recipients.length}`)
+
+  setResponseStatus(event, 201)
+  return {
+    code: 0,
+    data: mintJobToDto(job, undefined, project.projectName),
+    message: '任务已创建',
+  }
+})
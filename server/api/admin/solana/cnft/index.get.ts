@@ -108,8 +108,10 @@ export default defineEventHandler(async (event) => {
           symbol: cnft.symbol,
           metadataUri: cnft.metadataUri,
           ownerAddress: cnft.ownerAddress,
+          delegateAddress: cnft.delegateAddress,
           mintTxSignature: cnft.mintTxSignature,
           status: cnft.status,
+          ownerSyncedAt: cnft.ownerSyncedAt,
           createdAt: cnft.createdAt,
           updatedAt: cnft.updatedAt,
           merkleTree: {
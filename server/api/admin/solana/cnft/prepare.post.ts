@@ -35,9 +35,7 @@ import {
 import { isFilebaseConfigured, uploadImageToFilebase } from '~~/server/utils/filebase'
 import { compressForNft, isValidImage } from '~~/server/utils/imageProcessor'
 import { buildAndUploadMetadata } from '~~/server/utils/nftMetadata'
-import { readFile } from 'fs/promises'
-import { join } from 'path'
-import { existsSync } from 'fs'
+import { findFileByUrl, readUploadedFile } from '~~/server/utils/file'
 
 interface PrepareRequest {
   projectId: string | number
@@ -215,15 +213,14 @@ export default defineEventHandler(async (event) => {
       // 6.1 根据项目头像路径读取文件
       // avatar 格式如: /uploads/project-avatar/xxx.png
       const avatarPath = project.avatar!
-      const absolutePath = join(process.cwd(), 'public', avatarPath.startsWith('/') ? avatarPath.slice(1) : avatarPath)
-      
-      console.log(`[cNFT Prepare] 图片绝对路径: ${absolutePath}`)
-      
-      if (!existsSync(absolutePath)) {
-        console.warn(`[cNFT Prepare] 项目头像文件不存在: ${absolutePath}，跳过图片处理`)
+      const imageBuffer = await readUploadedFile(avatarPath)
+      // 记录原图文件，用于文件引用索引
+      originalImageId = (await findFileByUrl(avatarPath))?.id ?? null
+
+      if (!imageBuffer) {
+        console.warn(`[cNFT Prepare] 项目头像文件不存在: ${avatarPath}，跳过图片处理`)
       } else {
-        // 6.2 读取图片文件
-        const imageBuffer = await readFile(absolutePath)
+        // 6.2 读取图片文件（按文件记录所在的存储驱动读取）
         console.log(`[cNFT Prepare] 读取图片成功: ${imageBuffer.length} bytes`)
 
         // 6.3 验证是否为有效图片
@@ -367,15 +364,24 @@ export default defineEventHandler(async (event) => {
   }
 
   // 10. 创建铸造会话存储上下文 (Requirement 3.5)
-  const sessionId = createMintSession({
-    treeAuthorityKeypair,
-    merkleTreeId: availableTree.id,
-    merkleTreeAddress: availableTree.treeAddress,
-    cnftId: cnft.id,
-    leafIndex,
-    payerAddress,
-    network: networkType,
-  })
+  // 树权限私钥不进入会话，通过 merkleTreeId 引用树记录中的加密私钥
+  let sessionId: string
+  try {
+    sessionId = await createMintSession({
+      merkleTreeId: availableTree.id,
+      merkleTreeAddress: availableTree.treeAddress,
+      cnftId: cnft.id,
+      leafIndex,
+      payerAddress,
+      network: networkType,
+    })
+  } catch (err: any) {
+    // 记录保持铸造中状态，由 solana:recover 任务回收
+    console.error('[cNFT Prepare] 创建会话失败:', err)
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.DATABASE_ERROR, err.message, 500)
+    )
+  }
 
   // 11. 序列化交易（Base64）(Requirement 3.6)
   const transactionBase64 = transaction.serialize({
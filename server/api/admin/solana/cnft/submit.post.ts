@@ -55,7 +55,7 @@ export default defineEventHandler(async (event) => {
   }
 
   // 2. 验证会话有效性 (Requirement 5.1)
-  const session = getMintSession(sessionId)
+  const session = await getMintSession(sessionId)
   if (!session) {
     throw createSolanaHttpError(
       new SolanaError(SolanaErrorCode.SESSION_EXPIRED, '铸造会话已过期，请重新发起铸造', 400)
@@ -126,7 +126,7 @@ export default defineEventHandler(async (event) => {
     // 交易过期
     if (isTransactionExpiredError(err)) {
       // 清理会话
-      deleteMintSession(sessionId)
+      await deleteMintSession(sessionId)
       throw createSolanaHttpError(
         new SolanaError(SolanaErrorCode.TRANSACTION_EXPIRED, '交易已过期，请重新发起铸造', 400)
       )
@@ -225,7 +225,7 @@ export default defineEventHandler(async (event) => {
               updatedAt: new Date(),
             },
           })
-          deleteMintSession(sessionId)
+          await deleteMintSession(sessionId)
           return {
             code: -1,
             data: {
@@ -255,7 +255,7 @@ export default defineEventHandler(async (event) => {
     }
 
     // 清理会话
-    deleteMintSession(sessionId)
+    await deleteMintSession(sessionId)
 
     return {
       code: 0,
@@ -296,7 +296,7 @@ export default defineEventHandler(async (event) => {
     }
 
     // 清理会话
-    deleteMintSession(sessionId)
+    await deleteMintSession(sessionId)
 
     return {
       code: -1,
@@ -324,7 +324,7 @@ export default defineEventHandler(async (event) => {
     }
 
     // 清理会话
-    deleteMintSession(sessionId)
+    await deleteMintSession(sessionId)
 
     return {
       code: 1,
@@ -0,0 +1,91 @@
+/**
+ * 手动同步 cNFT 持有者
+ *
+ * body:
+ * - projectId: 同步项目下的 cNFT（按最久未同步优先）
+ * - ownerAddress: 同步指定钱包的转入/转出（可与 projectId 组合）
+ * - network: mainnet / devnet
+ * - limit: 按项目同步时最多处理的数量（默认 500，最大 2000）
+ * - dryRun: 只检查不写库
+ */
+
+import { isValidSolanaAddress } from '~~/server/utils/bubblegum'
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { syncCnftOwnership, syncOwnerAssets } from '~~/server/utils/cnftOwnership'
+
+interface SyncRequest {
+  projectId?: string | number
+  ownerAddress?: string
+  network?: 'mainnet' | 'devnet'
+  limit?: number
+  dryRun?: boolean
+}
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody<SyncRequest>(event)
+  const network = body?.network ?? 'devnet'
+  const dryRun = body?.dryRun === true
+
+  if (network !== 'mainnet' && network !== 'devnet') {
+    throw createError({
+      statusCode: 400,
+      message: '网络类型必须是 mainnet 或 devnet',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body?.projectId && !body?.ownerAddress) {
+    throw createError({
+      statusCode: 400,
+      message: '请指定 projectId 或 ownerAddress',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  let projectId: bigint | undefined
+  try {
+    projectId = body.projectId ? BigInt(body.projectId) : undefined
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的 projectId',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (body.ownerAddress && !isValidSolanaAddress(body.ownerAddress)) {
+    throw createError({
+      statusCode: 400,
+      message: '无效的钱包地址格式',
+      data: { code: SolanaErrorCode.INVALID_ADDRESS },
+    })
+  }
+
+  try {
+    const report = body.ownerAddress
+      ? await syncOwnerAssets(body.ownerAddress, network, { projectId, dryRun })
+      : await syncCnftOwnership({
+          projectId,
+          network,
+          limit: Math.min(2000, Math.max(1, Number(body.limit) || 500)),
+          dryRun,
+        })
+
+    const transferred = report.changes.filter((c) => c.action === 'transferred').length
+    const burned = report.changes.filter((c) => c.action === 'burned').length
+    console.log(`[cNFT Ownership] 手动同步: project=${projectId ?? '-'}, owner=${body.ownerAddress ?? '-'}, 转移 ${transferred}，销毁 ${burned}`)
+
+    return {
+      code: 0,
+      data: report,
+      message: `已检查 ${report.checked} 个 cNFT：转移 ${transferred} 个，销毁 ${burned} 个`,
+    }
+  } catch (err: any) {
+    console.error('[cNFT Ownership] 同步失败:', err)
+    throw createError({
+      statusCode: 502,
+      message: `查询 DAS 索引失败: ${err.message}`,
+      data: { code: SolanaErrorCode.RPC_CONNECTION_FAILED },
+    })
+  }
+})
@@ -0,0 +1,146 @@
+/**
+ * 保存项目售卖配置（不存在时创建）
+ *
+ * body:
+ * - network: mainnet / devnet
+ * - priceLamports: 价格（lamports，正整数）
+ * - receiverAddress: 收款钱包地址
+ * - supplyCap: 发售上限，为空表示不限量（不能小于已售数量）
+ * - name: NFT 名称
+ * - symbol / metadataUri: 可选
+ * - enabled: 是否开放购买
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { isValidSolanaAddress } from '~~/server/utils/bubblegum'
+import { validateMintMetadata } from '~~/server/utils/cnftBatch'
+import { countSold, saleToDto } from '~~/server/utils/cnftPurchase'
+
+interface SaveRequest {
+  network?: 'mainnet' | 'devnet'
+  priceLamports: string | number
+  receiverAddress: string
+  supplyCap?: number | null
+  name: string
+  symbol?: string
+  metadataUri?: string
+  enabled?: boolean
+}
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody<SaveRequest>(event)
+  const network = body?.network ?? 'devnet'
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  const symbol = typeof body?.symbol === 'string' ? body.symbol.trim() : ''
+  const metadataUri = typeof body?.metadataUri === 'string' ? body.metadataUri.trim() : ''
+
+  // 1. 验证参数
+  let projectId: bigint
+  try {
+    projectId = BigInt(getRouterParam(event, 'projectId') as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的项目 ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (network !== 'mainnet' && network !== 'devnet') {
+    throw createError({
+      statusCode: 400,
+      message: '网络类型必须是 mainnet 或 devnet',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  let priceLamports: bigint
+  try {
+    priceLamports = BigInt(body?.priceLamports as string)
+  } catch {
+    priceLamports = 0n
+  }
+  if (priceLamports <= 0n) {
+    throw createError({
+      statusCode: 400,
+      message: '价格必须是正整数（lamports）',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  if (!body.receiverAddress || !isValidSolanaAddress(body.receiverAddress)) {
+    throw createError({
+      statusCode: 400,
+      message: '无效的收款钱包地址格式',
+      data: { code: SolanaErrorCode.INVALID_ADDRESS },
+    })
+  }
+
+  const supplyCap = body.supplyCap === null || body.supplyCap === undefined ? null : Number(body.supplyCap)
+  if (supplyCap !== null && (!Number.isInteger(supplyCap) || supplyCap <= 0)) {
+    throw createError({
+      statusCode: 400,
+      message: '发售上限必须是正整数',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const metadataError = validateMintMetadata(name, symbol, metadataUri)
+  if (metadataError) {
+    throw createError({
+      statusCode: 400,
+      message: metadataError,
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  // 2. 验证项目存在
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, isDeleted: false },
+    select: { id: true },
+  })
+  if (!project) {
+    throw createError({
+      statusCode: 400,
+      message: '项目不存在',
+      data: { code: 'PROJECT_NOT_FOUND' },
+    })
+  }
+
+  // 3. 上限不能小于已售数量
+  const existing = await prisma.projectSale.findUnique({ where: { projectId } })
+  const soldCount = existing ? (await countSold([existing.id])).get(existing.id.toString()) ?? 0 : 0
+  if (supplyCap !== null && supplyCap < soldCount) {
+    throw createError({
+      statusCode: 400,
+      message: `发售上限不能小于已售数量（${soldCount}）`,
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  // 4. 保存
+  const data = {
+    network,
+    priceLamports,
+    receiverAddress: body.receiverAddress,
+    supplyCap,
+    name,
+    symbol: symbol || null,
+    metadataUri: metadataUri || null,
+    enabled: body.enabled === true,
+  }
+  const sale = await prisma.projectSale.upsert({
+    where: { projectId },
+    create: { ...data, projectId },
+    update: { ...data, updatedAt: new Date() },
+  })
+
+  console.log(`[cNFT Sale] 保存售卖配置: project=${projectId}, price=${priceLamports}, cap=${supplyCap ?? '-'}, enabled=${data.enabled}`)
+
+  return {
+    code: 0,
+    data: saleToDto(sale, soldCount),
+    message: '保存成功',
+  }
+})
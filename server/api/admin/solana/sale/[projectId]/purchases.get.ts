@@ -0,0 +1,64 @@
+/**
+ * 获取项目的购买记录
+ * 支持按状态筛选（0=处理中 1=已完成 -1=失败）与分页
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { SolanaErrorCode } from '~~/server/utils/solanaErrors'
+import { purchaseToDto, syncPendingPurchases } from '~~/server/utils/cnftPurchase'
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const {
+    status,
+    page = '1',
+    pageSize = '10',
+  } = query
+
+  let projectId: bigint
+  try {
+    projectId = BigInt(getRouterParam(event, 'projectId') as string)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的项目 ID',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const sale = await prisma.projectSale.findUnique({ where: { projectId }, select: { id: true } })
+  if (!sale) {
+    return { code: 0, data: { list: [], total: 0, page: 1, pageSize: Number(pageSize) || 10 } }
+  }
+
+  await syncPendingPurchases({ saleId: sale.id })
+
+  const where: any = { saleId: sale.id }
+  if (status !== undefined && status !== '') {
+    where.status = Number(status)
+  }
+
+  // 分页参数验证
+  const pageNum = Math.max(1, Number(page) || 1)
+  const pageSizeNum = Math.min(100, Math.max(1, Number(pageSize) || 10))
+
+  const [purchases, total] = await Promise.all([
+    prisma.cnftPurchase.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (pageNum - 1) * pageSizeNum,
+      take: pageSizeNum,
+    }),
+    prisma.cnftPurchase.count({ where }),
+  ])
+
+  return {
+    code: 0,
+    data: {
+      list: purchases.map(purchaseToDto),
+      total,
+      page: pageNum,
+      pageSize: pageSizeNum,
+    },
+  }
+})
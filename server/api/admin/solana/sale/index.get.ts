@@ -0,0 +1,44 @@
+/**
+ * 获取项目售卖配置列表
+ * 包含项目名称与已售数量（处理中 + 已完成）
+ */
+
+import { prisma } from '~~/server/utils/prisma'
+import { countSold, saleToDto, syncPendingPurchases } from '~~/server/utils/cnftPurchase'
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const { network } = query
+
+  const where: any = {}
+  if (network) {
+    where.network = network as string
+  }
+
+  await syncPendingPurchases()
+
+  const sales = await prisma.projectSale.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const sold = await countSold(sales.map((sale) => sale.id))
+
+  // 批量查询项目名称
+  const projectIds = [...new Set(sales.map((sale) => sale.projectId))]
+  const projects = projectIds.length > 0
+    ? await prisma.project.findMany({
+        where: { id: { in: projectIds } },
+        select: { id: true, projectName: true },
+      })
+    : []
+  const projectMap = new Map(projects.map((p) => [p.id.toString(), p.projectName]))
+
+  return {
+    code: 0,
+    data: sales.map((sale) => ({
+      ...saleToDto(sale, sold.get(sale.id.toString()) ?? 0),
+      projectName: projectMap.get(sale.projectId.toString()) ?? null,
+    })),
+  }
+})
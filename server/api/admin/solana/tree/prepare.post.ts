@@ -201,19 +201,27 @@ export default defineEventHandler(async (event) => {
     )
   }
 
-  // 7. 创建会话存储
-  const sessionId = createTreeSession({
-    treeKeypair,
-    treeAuthorityKeypair,
-    encryptedKey,
-    name: name.trim(),
-    maxDepth,
-    maxBufferSize,
-    canopyDepth,
-    network: networkType,
-    payerAddress,
-    rentLamports,
-  })
+  // 7. 创建会话存储（仅保存公钥与加密私钥，树 Keypair 签名后即丢弃）
+  let sessionId: string
+  try {
+    sessionId = await createTreeSession({
+      treeAddress: treeKeypair.publicKey.toBase58(),
+      treeAuthority: treeAuthorityKeypair.publicKey.toBase58(),
+      encryptedKey,
+      name: name.trim(),
+      maxDepth,
+      maxBufferSize,
+      canopyDepth,
+      network: networkType,
+      payerAddress,
+      rentLamports,
+    })
+  } catch (err: any) {
+    console.error('[Solana] 创建会话失败:', err)
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.DATABASE_ERROR, err.message, 500)
+    )
+  }
 
   // 8. 序列化交易（Base64）
   const transactionBase64 = transaction.serialize({
@@ -51,7 +51,7 @@ export default defineEventHandler(async (event) => {
   }
 
   // 2. 验证会话有效性 (Requirement 10.3 - 会话过期处理)
-  const session = getTreeSession(sessionId)
+  const session = await getTreeSession(sessionId)
   if (!session) {
     throw createSolanaHttpError(
       new SolanaError(SolanaErrorCode.SESSION_EXPIRED, undefined, 400)
@@ -73,7 +73,7 @@ export default defineEventHandler(async (event) => {
 
   // 4. 验证交易签名完整性 (Requirement 10.4 - 签名验证失败)
   // 检查交易是否包含所有必要的签名（树 Keypair 签名 + 支付者签名）
-  const treeAddress = session.treeKeypair.publicKey.toBase58()
+  const treeAddress = session.treeAddress
   
   // 验证签名数量和完整性
   if (!transaction.signatures || transaction.signatures.length < 2) {
@@ -221,7 +221,7 @@ export default defineEventHandler(async (event) => {
         name: session.name,
         treeAddress: treeAddress,
         // treeAuthority 是树的管理权限地址（独立生成的 Keypair）
-        treeAuthority: session.treeAuthorityKeypair.publicKey.toBase58(),
+        treeAuthority: session.treeAuthority,
         encryptedKey: session.encryptedKey,
         creatorAddress: session.payerAddress,
         maxDepth: session.maxDepth,
@@ -236,7 +236,7 @@ export default defineEventHandler(async (event) => {
         status: status,
       },
     })
-    console.log(`[Solana] 树记录已保存: id=${treeRecord.id}, address=${treeAddress}, authority=${session.treeAuthorityKeypair.publicKey.toBase58()}`)
+    console.log(`[Solana] 树记录已保存: id=${treeRecord.id}, address=${treeAddress}, authority=${session.treeAuthority}`)
   } catch (err: any) {
     console.error('[Solana] 数据库保存失败:', err)
     
@@ -253,7 +253,7 @@ export default defineEventHandler(async (event) => {
   }
 
   // 10. 清理会话
-  deleteTreeSession(sessionId)
+  await deleteTreeSession(sessionId)
 
   // 11. 返回结果
   const statusText = status === 1 ? '创建成功' : status === 0 ? '创建中，请稍后验证' : '创建失败'
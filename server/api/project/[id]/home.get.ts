@@ -1,5 +1,7 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
+import { readContentLocale, toContentLocaleColumn } from '~~/server/utils/contentLocale'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 export default defineEventHandler(async (event) => {
@@ -10,13 +12,13 @@ export default defineEventHandler(async (event) => {
     return fail('Missing project id', 400)
   }
 
-  let projectId: bigint
-  try {
-    projectId = BigInt(idRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid project id', 400)
+  // 地址参数可以是项目 ID 或别名
+  const projectRef = await resolveProjectRef(idRaw)
+  if (!projectRef) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
   }
+  const projectId = projectRef.id
 
   try {
     const project = await prisma.project.findFirst({
@@ -32,8 +34,11 @@ export default defineEventHandler(async (event) => {
       return fail('Project not found', 404)
     }
 
+    // 按读者语言取译文，没有译文时使用原文
+    const locale = toContentLocaleColumn(readContentLocale(event))
     const home = await prisma.projectHome.findUnique({
       where: { projectId },
+      include: locale ? { translations: { where: { locale } } } : undefined,
     })
 
     if (!home || home.isDeleted || home.status !== 1) {
@@ -41,11 +46,14 @@ export default defineEventHandler(async (event) => {
       return fail('Home content not found', 404)
     }
 
+    const translation = 'translations' in home ? (home.translations as { content: string; updatedAt: Date }[])[0] : undefined
+
     return ok({
       id: home.id.toString(),
       projectId: home.projectId.toString(),
-      content: home.content,
-      updatedAt: home.updatedAt,
+      content: translation?.content ?? home.content,
+      locale: translation ? locale : null,
+      updatedAt: translation?.updatedAt ?? home.updatedAt,
     })
   } catch (err) {
     setResponseStatus(event, 500)
@@ -1,30 +1,38 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef, toRouteRef } from '~~/server/utils/slug'
+import { buildSeoMeta, extractDescription, getSiteUrl, type SeoMeta } from '~~/server/utils/seo'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 interface ProjectDetailDto {
   id: string
+  /** URL 别名（为空时使用 ID） */
+  slug: string | null
   projectName: string
   avatar: string | null
   requireAuth: boolean
   status: number
   updatedAt: Date
+  /** 项目首页 SEO 信息 */
+  seo: SeoMeta
 }
 
-function projectToDto(project: any): ProjectDetailDto {
+function projectToDto(project: any, seo: SeoMeta): ProjectDetailDto {
   return {
     id: project.id.toString(),
+    slug: project.slug,
     projectName: project.projectName,
     avatar: project.avatar,
     requireAuth: project.requireAuth,
     status: project.status,
     updatedAt: project.updatedAt,
+    seo,
   }
 }
 
 /**
  * 获取单个项目详情
- * GET /api/project/:id
+ * GET /api/project/:id（:id 可以是项目 ID 或别名）
  */
 export default defineEventHandler(async (event) => {
   const idRaw = getRouterParam(event, 'id')
@@ -34,13 +42,13 @@ export default defineEventHandler(async (event) => {
     return fail('Missing project id', 400)
   }
 
-  let projectId: bigint
-  try {
-    projectId = BigInt(idRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid project id', 400)
+  // 地址参数可以是项目 ID 或别名
+  const projectRef = await resolveProjectRef(idRaw)
+  if (!projectRef) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
   }
+  const projectId = projectRef.id
 
   try {
     const project = await prisma.project.findFirst({
@@ -56,7 +64,19 @@ export default defineEventHandler(async (event) => {
       return fail('Project not found', 404)
     }
 
-    return ok(projectToDto(project))
+    // 未设置描述时取项目首页首段（首页对所有访问者公开）
+    const home = await prisma.projectHome.findFirst({
+      where: { projectId, isDeleted: false, status: 1 },
+      select: { content: true },
+    })
+    const seo = buildSeoMeta(getSiteUrl(event), project, {
+      title: project.projectName,
+      description: home ? extractDescription(home.content) : null,
+      path: `/project/${toRouteRef(project)}/home`,
+      ogImage: project.avatar,
+    })
+
+    return ok(projectToDto(project, seo))
   } catch (err) {
     setResponseStatus(event, 500)
     return fail('Internal Server Error', 500)
@@ -1,5 +1,7 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
+import { readContentLocale, translateLabel, type ContentLocale } from '~~/server/utils/contentLocale'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 interface MenuDto {
@@ -11,14 +13,14 @@ interface MenuDto {
   children: MenuDto[]
 }
 
-function menuToDto(menu: any): MenuDto {
+function menuToDto(menu: any, locale: ContentLocale): MenuDto {
   return {
     id: menu.id.toString(),
-    label: menu.label,
+    label: translateLabel(menu.label, menu.labelTranslations, locale),
     url: menu.url,
     isExternal: menu.isExternal,
     weight: menu.weight,
-    children: menu.children?.map(menuToDto) ?? [],
+    children: menu.children?.map((child: any) => menuToDto(child, locale)) ?? [],
   }
 }
 
@@ -34,13 +36,13 @@ export default defineEventHandler(async (event) => {
     return fail('Missing project id', 400)
   }
 
-  let projectId: bigint
-  try {
-    projectId = BigInt(idRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid project id', 400)
+  // 地址参数可以是项目 ID 或别名
+  const projectRef = await resolveProjectRef(idRaw)
+  if (!projectRef) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
   }
+  const projectId = projectRef.id
 
   try {
     // 验证项目存在且启用
@@ -74,7 +76,9 @@ export default defineEventHandler(async (event) => {
       orderBy: { weight: 'desc' },
     })
 
-    return ok(list.map(menuToDto))
+    // 菜单文本按读者语言取译文
+    const locale = readContentLocale(event)
+    return ok(list.map((menu) => menuToDto(menu, locale)))
   } catch (err) {
     setResponseStatus(event, 500)
     return fail('Internal Server Error', 500)
@@ -0,0 +1,58 @@
+import { prisma } from '~~/server/utils/prisma'
+import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
+import { readReaderWallet } from '~~/server/utils/readerSession'
+import { countSold, purchaseToDto, syncPendingPurchases } from '~~/server/utils/cnftPurchase'
+import { setResponseStatus, getRouterParam } from 'h3'
+
+/**
+ * 获取项目的购买信息
+ * GET /api/project/:id/purchase
+ *
+ * 返回价格、收款钱包与剩余数量；已登录的读者钱包同时返回其购买记录。
+ * 项目未开放购买时 sale 为 null。
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+
+  const projectRef = idRaw ? await resolveProjectRef(idRaw) : null
+  const project = projectRef && await prisma.project.findFirst({
+    where: { id: projectRef.id, isDeleted: false, status: 1 },
+    select: { id: true },
+  })
+  if (!project) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
+  }
+  const projectId = project.id
+
+  const sale = await prisma.projectSale.findUnique({ where: { projectId } })
+  if (!sale || !sale.enabled) {
+    return ok({ sale: null, purchase: null })
+  }
+
+  const address = await readReaderWallet(event)
+  if (address) {
+    await syncPendingPurchases({ saleId: sale.id, buyerAddress: address })
+  }
+
+  const [sold, purchase] = await Promise.all([
+    countSold([sale.id]),
+    address
+      ? prisma.cnftPurchase.findUnique({ where: { saleId_buyerAddress: { saleId: sale.id, buyerAddress: address } } })
+      : null,
+  ])
+  const soldCount = sold.get(sale.id.toString()) ?? 0
+
+  return ok({
+    sale: {
+      network: sale.network,
+      priceLamports: sale.priceLamports.toString(),
+      receiverAddress: sale.receiverAddress,
+      name: sale.name,
+      supplyCap: sale.supplyCap,
+      remaining: sale.supplyCap === null ? null : Math.max(0, sale.supplyCap - soldCount),
+    },
+    purchase: purchase ? purchaseToDto(purchase) : null,
+  })
+})
@@ -0,0 +1,35 @@
+import { prisma } from '~~/server/utils/prisma'
+import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
+import { readReaderWallet } from '~~/server/utils/readerSession'
+import { preparePurchase } from '~~/server/utils/cnftPurchase'
+import { setResponseStatus, getRouterParam } from 'h3'
+
+/**
+ * 准备购买交易
+ * POST /api/project/:id/purchase/prepare
+ *
+ * 购买者为读者会话中的钱包。返回的交易同时包含付款（转入收款钱包）与 cNFT 铸造，
+ * 已由树权限部分签名，读者钱包签名后调用 submit。
+ */
+export default defineEventHandler(async (event) => {
+  const address = await readReaderWallet(event)
+  if (!address) {
+    setResponseStatus(event, 401)
+    return fail('Wallet session required', 401)
+  }
+
+  const idRaw = getRouterParam(event, 'id')
+
+  const projectRef = idRaw ? await resolveProjectRef(idRaw) : null
+  const project = projectRef && await prisma.project.findFirst({
+    where: { id: projectRef.id, isDeleted: false, status: 1 },
+    select: { id: true },
+  })
+  if (!project) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
+  }
+
+  return ok(await preparePurchase(project.id, address))
+})
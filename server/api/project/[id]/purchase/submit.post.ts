@@ -0,0 +1,39 @@
+import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
+import { readReaderWallet } from '~~/server/utils/readerSession'
+import { submitPurchase } from '~~/server/utils/cnftPurchase'
+import { setResponseStatus, getRouterParam, readBody } from 'h3'
+
+/**
+ * 提交已签名的购买交易
+ * POST /api/project/:id/purchase/submit
+ *
+ * 发送并确认交易，从链上交易核对付款后标记铸造完成，阅读鉴权随即生效。
+ * 交易状态未知时返回 pending，稍后通过 GET /api/project/:id/purchase 查询结果。
+ */
+export default defineEventHandler(async (event) => {
+  const address = await readReaderWallet(event)
+  if (!address) {
+    setResponseStatus(event, 401)
+    return fail('Wallet session required', 401)
+  }
+
+  const projectRef = await resolveProjectRef(getRouterParam(event, 'id') ?? '')
+  if (!projectRef) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
+  }
+  const projectId = projectRef.id
+
+  const body = await readBody<{ sessionId?: string; signedTransactionBase64?: string }>(event)
+  if (!body?.sessionId || typeof body.sessionId !== 'string') {
+    setResponseStatus(event, 400)
+    return fail('Missing sessionId', 400)
+  }
+  if (!body.signedTransactionBase64 || typeof body.signedTransactionBase64 !== 'string') {
+    setResponseStatus(event, 400)
+    return fail('Missing signed transaction', 400)
+  }
+
+  return ok(await submitPurchase(projectId, address, body.sessionId, body.signedTransactionBase64))
+})
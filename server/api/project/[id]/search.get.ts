@@ -0,0 +1,117 @@
+import { prisma } from '~~/server/utils/prisma'
+import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef, resolveVersionRef } from '~~/server/utils/slug'
+import { resolveReadableLevels, readAccessViewer } from '~~/server/utils/noteAccess'
+import { searchNotes, buildSnippet, highlightText } from '~~/server/utils/noteSearch'
+import { setResponseStatus, getRouterParam, getQuery } from 'h3'
+
+interface SearchHitDto {
+  noteId: string
+  /** 笔记 URL 别名（为空时使用 ID） */
+  noteSlug: string | null
+  noteTitle: string
+  /** 高亮后的标题（HTML，已转义） */
+  highlightedTitle: string
+  /** 高亮后的正文摘要（HTML，已转义；未授权阅读时为 null） */
+  snippet: string | null
+  /** 当前访问者是否无法阅读全文 */
+  locked: boolean
+  rank: number
+  version: { id: string; slug: string | null; version: string }
+  category: { id: string; categoryName: string }
+}
+
+function toInt(value: unknown, fallback: number) {
+  const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+  return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+/**
+ * 全文检索项目笔记（公开接口）
+ * GET /api/project/:id/search?q=<keyword>&versionId=<versionId>
+ *
+ * 当前访问者无法阅读全文的笔记仅匹配标题且不返回正文摘要，仅管理员可见的笔记不参与检索。
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+
+  if (!idRaw) {
+    setResponseStatus(event, 400)
+    return fail('Missing project id', 400)
+  }
+
+  const query = getQuery(event)
+  const keyword = typeof query.q === 'string' ? query.q.trim() : ''
+  const page = Math.max(1, toInt(query.page, 1))
+  const pageSize = Math.min(50, Math.max(1, toInt(query.pageSize, 10)))
+
+  if (!keyword) {
+    setResponseStatus(event, 400)
+    return fail('Missing keyword', 400)
+  }
+
+  try {
+    // 项目与版本参数可以是 ID 或别名
+    const projectRef = await resolveProjectRef(idRaw)
+    if (!projectRef) {
+      setResponseStatus(event, 404)
+      return fail('Project not found', 404)
+    }
+    const projectId = projectRef.id
+
+    let versionId: bigint | null = null
+    if (typeof query.versionId === 'string' && query.versionId) {
+      const versionRef = await resolveVersionRef(projectId, query.versionId)
+      if (!versionRef) {
+        setResponseStatus(event, 404)
+        return fail('Version not found', 404)
+      }
+      versionId = versionRef.id
+    }
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        isDeleted: false,
+        status: 1,
+      },
+      select: { id: true, requireAuth: true },
+    })
+
+    if (!project) {
+      setResponseStatus(event, 404)
+      return fail('Project not found', 404)
+    }
+
+    const viewer = await readAccessViewer(event)
+    const readableLevels = await resolveReadableLevels(project, viewer)
+
+    const { total, list } = await searchNotes({
+      projectId,
+      versionId,
+      query: keyword,
+      project,
+      readableLevels,
+      page,
+      pageSize,
+    })
+
+    const result: SearchHitDto[] = list.map((hit) => ({
+      noteId: hit.noteInfoId.toString(),
+      noteSlug: hit.noteSlug,
+      noteTitle: hit.title,
+      highlightedTitle: highlightText(hit.title, keyword),
+      snippet: readableLevels.includes(hit.accessLevel) ? buildSnippet(hit.body, keyword) : null,
+      locked: !readableLevels.includes(hit.accessLevel),
+      rank: hit.rank,
+      version: { id: hit.projectVersionId.toString(), slug: hit.versionSlug, version: hit.version },
+      category: { id: hit.categoryId.toString(), categoryName: hit.categoryName },
+    }))
+
+    return ok({ total, page, pageSize, locked: result.some((hit) => hit.locked), list: result })
+  } catch (err) {
+    console.error('Search error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
@@ -0,0 +1,103 @@
+import { prisma } from '~~/server/utils/prisma'
+import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef, resolveVersionRef, toRouteRef } from '~~/server/utils/slug'
+import { resolveReadableLevels, readAccessViewer } from '~~/server/utils/noteAccess'
+import { searchNoteChunks } from '~~/server/utils/noteEmbedding'
+import { setResponseStatus, getRouterParam, getQuery } from 'h3'
+
+interface ChunkHitDto {
+  noteId: string
+  noteTitle: string
+  heading: string | null
+  content: string
+  score: number
+  /** 笔记阅读链接 */
+  link: string
+  version: { id: string; slug: string | null; version: string }
+  category: { id: string; categoryName: string }
+}
+
+function toInt(value: unknown, fallback: number) {
+  const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN
+  return Number.isFinite(n) ? Math.trunc(n) : fallback
+}
+
+/**
+ * 语义检索项目笔记（公开接口）
+ * GET /api/project/:id/semantic-search?q=<question>&versionId=<versionId>&limit=<limit>
+ *
+ * 只检索当前访问者可阅读全文的笔记；受保护笔记按标题检索请使用全文检索接口。
+ */
+export default defineEventHandler(async (event) => {
+  const idRaw = getRouterParam(event, 'id')
+
+  if (!idRaw) {
+    setResponseStatus(event, 400)
+    return fail('Missing project id', 400)
+  }
+
+  const query = getQuery(event)
+  const keyword = typeof query.q === 'string' ? query.q.trim() : ''
+  const limit = Math.min(50, Math.max(1, toInt(query.limit, 10)))
+
+  if (!keyword) {
+    setResponseStatus(event, 400)
+    return fail('Missing keyword', 400)
+  }
+
+  try {
+    // 项目与版本参数可以是 ID 或别名
+    const projectRef = await resolveProjectRef(idRaw)
+    if (!projectRef) {
+      setResponseStatus(event, 404)
+      return fail('Project not found', 404)
+    }
+    const projectId = projectRef.id
+
+    let versionId: bigint | null = null
+    if (typeof query.versionId === 'string' && query.versionId) {
+      const versionRef = await resolveVersionRef(projectId, query.versionId)
+      if (!versionRef) {
+        setResponseStatus(event, 404)
+        return fail('Version not found', 404)
+      }
+      versionId = versionRef.id
+    }
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: projectId,
+        isDeleted: false,
+        status: 1,
+      },
+      select: { id: true, slug: true, requireAuth: true },
+    })
+
+    if (!project) {
+      setResponseStatus(event, 404)
+      return fail('Project not found', 404)
+    }
+
+    const viewer = await readAccessViewer(event)
+    const readableLevels = await resolveReadableLevels(project, viewer)
+
+    const hits = await searchNoteChunks({ projectId, versionId, query: keyword, limit, project, readableLevels })
+
+    const result: ChunkHitDto[] = hits.map((hit) => ({
+      noteId: hit.noteInfoId.toString(),
+      noteTitle: hit.noteTitle,
+      heading: hit.heading,
+      content: hit.content,
+      score: hit.score,
+      link: `/project/${toRouteRef(project)}/v/${toRouteRef({ id: hit.projectVersionId, slug: hit.versionSlug })}/docs/${toRouteRef({ id: hit.noteInfoId, slug: hit.noteSlug })}`,
+      version: { id: hit.projectVersionId.toString(), slug: hit.versionSlug, version: hit.version },
+      category: { id: hit.categoryId.toString(), categoryName: hit.categoryName },
+    }))
+
+    return ok({ list: result })
+  } catch (err) {
+    console.error('Semantic search error:', err)
+    setResponseStatus(event, 500)
+    return fail('Internal Server Error', 500)
+  }
+})
@@ -1,19 +1,48 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef, resolveVersionRef, resolveNoteRef, toRouteRef } from '~~/server/utils/slug'
+import { buildSeoMeta, extractDescription, getSiteUrl, type SeoMeta } from '~~/server/utils/seo'
+import { findVisibleContent } from '~~/server/utils/noteSearch'
+import { readContentLocale, toContentLocaleColumn } from '~~/server/utils/contentLocale'
+import {
+  resolveNoteAccess,
+  resolveAccessLevel,
+  readAccessViewer,
+  buildTeaser,
+  type EffectiveAccessLevel,
+  type NoteLockReason,
+} from '~~/server/utils/noteAccess'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 interface NoteContentDto {
   id: string
   noteId: string
+  /** 笔记 URL 别名（为空时使用 ID） */
+  noteSlug: string | null
   noteTitle: string
   content: string
   versionNote: string | null
+  /** 内容语言（为空表示原文） */
+  locale: string | null
   updatedAt: Date
+  /** 解析后的访问级别 */
+  accessLevel: EffectiveAccessLevel
+  /** 是否被锁定（仅返回摘要） */
+  locked: boolean
+  /** 锁定原因 */
+  lockReason: NoteLockReason | null
+  /** 页面 SEO 信息 */
+  seo: SeoMeta
 }
 
 /**
  * 获取笔记内容（公开接口，返回主显示版本）
  * GET /api/project/:id/v/:versionId/note/:noteId
+ *
+ * 访问级别按 笔记 → 分类 → 项目 解析：wallet 级别只有读者会话中已验证的钱包持有该项目 cNFT
+ * 才能获取全文，否则返回摘要并标记 locked；admin 级别对非管理员视为不存在（404）。
+ * 未设置 SEO 描述时，仅 public 级别的笔记从正文生成描述，受保护的笔记不输出正文内容。
+ * 正文与标题按读者语言取译文，该语言没有可展示的版本时返回原文。
  */
 export default defineEventHandler(async (event) => {
   const projectIdRaw = getRouterParam(event, 'id')
@@ -25,19 +54,19 @@ export default defineEventHandler(async (event) => {
     return fail('Missing required parameters', 400)
   }
 
-  let projectId: bigint
-  let versionId: bigint
-  let noteId: bigint
   try {
-    projectId = BigInt(projectIdRaw)
-    versionId = BigInt(versionIdRaw)
-    noteId = BigInt(noteIdRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid parameters', 400)
-  }
+    // 地址参数可以是 ID、别名或旧别名
+    const projectRef = await resolveProjectRef(projectIdRaw)
+    const versionRef = projectRef && await resolveVersionRef(projectRef.id, versionIdRaw)
+    const noteRef = versionRef && await resolveNoteRef(versionRef.id, noteIdRaw)
+    if (!projectRef || !versionRef || !noteRef) {
+      setResponseStatus(event, 404)
+      return fail('Note not found', 404)
+    }
+    const projectId = projectRef.id
+    const versionId = versionRef.id
+    const noteId = noteRef.id
 
-  try {
     // 验证笔记存在且属于正确的版本和项目
     const note = await prisma.noteInfo.findFirst({
       where: {
@@ -61,7 +90,28 @@ export default defineEventHandler(async (event) => {
       },
       select: {
         id: true,
+        slug: true,
         noteTitle: true,
+        accessLevel: true,
+        seoTitle: true,
+        seoDescription: true,
+        seoKeywords: true,
+        canonicalUrl: true,
+        ogImage: true,
+        category: {
+          select: {
+            accessLevel: true,
+            projectVersion: {
+              select: {
+                id: true,
+                slug: true,
+                project: {
+                  select: { id: true, slug: true, projectName: true, avatar: true, ogImage: true, requireAuth: true },
+                },
+              },
+            },
+          },
+        },
       },
     })
 
@@ -70,25 +120,22 @@ export default defineEventHandler(async (event) => {
       return fail('Note not found', 404)
     }
 
-    // 获取主显示版本的内容，如果没有主显示版本则取最新的
-    let content = await prisma.noteContent.findFirst({
-      where: {
-        noteInfoId: noteId,
-        isPrimary: true,
-        isDeleted: false,
-        status: 1,
-      },
-    })
+    // 访问鉴权（钱包地址来自签名登录的读者会话，管理员可阅读全部内容）
+    const project = note.category.projectVersion.project
+    const viewer = await readAccessViewer(event)
+    const accessLevel = resolveAccessLevel(project, note.category, note)
+    const access = await resolveNoteAccess(project, viewer, { category: note.category, note })
 
-    if (!content) {
-      content = await prisma.noteContent.findFirst({
-        where: {
-          noteInfoId: noteId,
-          isDeleted: false,
-          status: 1,
-        },
-        orderBy: { createdAt: 'desc' },
-      })
+    if (access.reason === 'ADMIN_ONLY') {
+      setResponseStatus(event, 404)
+      return fail('Note not found', 404)
+    }
+
+    // 获取读者语言主显示版本的内容，如果没有主显示版本则取最新的；没有译文时回退到原文
+    const locale = toContentLocaleColumn(readContentLocale(event))
+    let content = await findVisibleContent(noteId, locale)
+    if (!content && locale) {
+      content = await findVisibleContent(noteId)
     }
 
     if (!content) {
@@ -96,13 +143,28 @@ export default defineEventHandler(async (event) => {
       return fail('Note content not found', 404)
     }
 
+    const version = note.category.projectVersion
+    const noteTitle = content.title || note.noteTitle
+    const seo = buildSeoMeta(getSiteUrl(event), note, {
+      title: `${noteTitle} - ${project.projectName}`,
+      description: accessLevel === 'public' ? extractDescription(content.content) : null,
+      path: `/project/${toRouteRef(project)}/v/${toRouteRef(version)}/docs/${toRouteRef(note)}`,
+      ogImage: project.ogImage || project.avatar,
+    })
+
     const result: NoteContentDto = {
       id: content.id.toString(),
       noteId: note.id.toString(),
-      noteTitle: note.noteTitle,
-      content: content.content,
+      noteSlug: note.slug,
+      noteTitle,
+      content: access.granted ? content.content : buildTeaser(content.content),
       versionNote: content.versionNote,
+      locale: content.locale,
       updatedAt: content.updatedAt,
+      accessLevel,
+      locked: !access.granted,
+      lockReason: access.reason,
+      seo,
     }
 
     return ok(result)
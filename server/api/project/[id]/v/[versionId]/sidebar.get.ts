@@ -1,23 +1,43 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef, resolveVersionRef } from '~~/server/utils/slug'
+import { readContentLocale, toContentLocaleColumn, translateLabel } from '~~/server/utils/contentLocale'
+import {
+  createAccessChecker,
+  resolveAccessLevel,
+  readAccessViewer,
+  type EffectiveAccessLevel,
+} from '~~/server/utils/noteAccess'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 interface NoteDto {
   id: string
+  /** URL 别名（为空时使用 ID） */
+  slug: string | null
   noteTitle: string
   weight: number
+  /** 解析后的访问级别 */
+  accessLevel: EffectiveAccessLevel
+  /** 当前访问者是否无法阅读全文（用于锁定图标） */
+  locked: boolean
 }
 
 interface CategoryDto {
   id: string
   categoryName: string
   weight: number
+  accessLevel: EffectiveAccessLevel
+  locked: boolean
   notes: NoteDto[]
 }
 
 /**
  * 获取版本下的分类和笔记树（公开接口，用于侧边栏）
  * GET /api/project/:id/v/:versionId/sidebar
+ *
+ * 每个分类与笔记返回解析后的访问级别及当前访问者是否锁定；
+ * 仅管理员可见的分类与笔记对其他访问者隐藏。
+ * 分类名称与笔记标题按读者语言取译文，没有译文时使用原文。
  */
 export default defineEventHandler(async (event) => {
   const projectIdRaw = getRouterParam(event, 'id')
@@ -28,17 +48,17 @@ export default defineEventHandler(async (event) => {
     return fail('Missing required parameters', 400)
   }
 
-  let projectId: bigint
-  let versionId: bigint
   try {
-    projectId = BigInt(projectIdRaw)
-    versionId = BigInt(versionIdRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid parameters', 400)
-  }
+    // 地址参数可以是 ID、别名或旧别名
+    const projectRef = await resolveProjectRef(projectIdRaw)
+    const versionRef = projectRef && await resolveVersionRef(projectRef.id, versionIdRaw)
+    if (!projectRef || !versionRef) {
+      setResponseStatus(event, 404)
+      return fail('Version not found', 404)
+    }
+    const projectId = projectRef.id
+    const versionId = versionRef.id
 
-  try {
     // 验证项目和版本存在且启用
     const version = await prisma.projectVersion.findFirst({
       where: {
@@ -49,7 +69,7 @@ export default defineEventHandler(async (event) => {
       },
       include: {
         project: {
-          select: { isDeleted: true, status: true },
+          select: { id: true, requireAuth: true, isDeleted: true, status: true },
         },
       },
     })
@@ -59,7 +79,10 @@ export default defineEventHandler(async (event) => {
       return fail('Version not found', 404)
     }
 
-    // 获取分类及其下的笔记
+    const locale = readContentLocale(event)
+    const localeColumn = toContentLocaleColumn(locale)
+
+    // 获取分类及其下的笔记（笔记标题取对应语言展示版本的译文标题）
     const categories = await prisma.category.findMany({
       where: {
         projectVersionId: versionId,
@@ -76,23 +99,55 @@ export default defineEventHandler(async (event) => {
           orderBy: { weight: 'desc' },
           select: {
             id: true,
+            slug: true,
             noteTitle: true,
             weight: true,
+            accessLevel: true,
+            contents: {
+              where: { locale: localeColumn, isDeleted: false, status: 1 },
+              orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+              take: 1,
+              select: { title: true },
+            },
           },
         },
       },
     })
 
-    const result: CategoryDto[] = categories.map((cat) => ({
-      id: cat.id.toString(),
-      categoryName: cat.categoryName,
-      weight: cat.weight,
-      notes: cat.noteInfos.map((note) => ({
-        id: note.id.toString(),
-        noteTitle: note.noteTitle,
-        weight: note.weight,
-      })),
-    }))
+    const viewer = await readAccessViewer(event)
+    const checkAccess = createAccessChecker(version.project, viewer)
+
+    const result: CategoryDto[] = []
+    for (const cat of categories) {
+      const notes: NoteDto[] = []
+      for (const note of cat.noteInfos) {
+        const accessLevel = resolveAccessLevel(version.project, cat, note)
+        const access = await checkAccess(accessLevel)
+        if (access.reason === 'ADMIN_ONLY') continue
+        notes.push({
+          id: note.id.toString(),
+          slug: note.slug,
+          noteTitle: note.contents[0]?.title || note.noteTitle,
+          weight: note.weight,
+          accessLevel,
+          locked: !access.granted,
+        })
+      }
+
+      const accessLevel = resolveAccessLevel(version.project, cat)
+      const access = await checkAccess(accessLevel)
+      // 仅管理员可见的分类下没有单独公开的笔记时整体隐藏
+      if (access.reason === 'ADMIN_ONLY' && notes.length === 0) continue
+
+      result.push({
+        id: cat.id.toString(),
+        categoryName: translateLabel(cat.categoryName, cat.nameTranslations, locale),
+        weight: cat.weight,
+        accessLevel,
+        locked: !access.granted,
+        notes,
+      })
+    }
 
     return ok(result)
   } catch (err) {
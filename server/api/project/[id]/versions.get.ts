@@ -1,9 +1,12 @@
 import { prisma } from '~~/server/utils/prisma'
 import { ok, fail } from '~~/server/utils/response'
+import { resolveProjectRef } from '~~/server/utils/slug'
 import { setResponseStatus, getRouterParam } from 'h3'
 
 interface VersionDto {
   id: string
+  /** URL 别名（为空时使用 ID） */
+  slug: string | null
   version: string
   description: string | null
   weight: number
@@ -21,13 +24,13 @@ export default defineEventHandler(async (event) => {
     return fail('Missing project id', 400)
   }
 
-  let projectId: bigint
-  try {
-    projectId = BigInt(idRaw)
-  } catch {
-    setResponseStatus(event, 400)
-    return fail('Invalid project id', 400)
+  // 地址参数可以是项目 ID 或别名
+  const projectRef = await resolveProjectRef(idRaw)
+  if (!projectRef) {
+    setResponseStatus(event, 404)
+    return fail('Project not found', 404)
   }
+  const projectId = projectRef.id
 
   try {
     // 验证项目存在且启用
@@ -53,6 +56,7 @@ export default defineEventHandler(async (event) => {
       orderBy: { weight: 'desc' },
       select: {
         id: true,
+        slug: true,
         version: true,
         description: true,
         weight: true,
@@ -61,6 +65,7 @@ export default defineEventHandler(async (event) => {
 
     const result: VersionDto[] = versions.map((v) => ({
       id: v.id.toString(),
+      slug: v.slug,
       version: v.version,
       description: v.description,
       weight: v.weight,
@@ -4,6 +4,8 @@ import { setResponseStatus } from 'h3'
 
 interface ProjectDto {
   id: string
+  /** URL 别名（为空时使用 ID） */
+  slug: string | null
   projectName: string
   avatar: string | null
   latestVersion: string | null
@@ -17,6 +19,7 @@ function projectToDto(project: any): ProjectDto {
   const latestVersion = project.versions?.[0]
   return {
     id: project.id.toString(),
+    slug: project.slug,
     projectName: project.projectName,
     avatar: project.avatar,
     latestVersion: latestVersion?.version || null,
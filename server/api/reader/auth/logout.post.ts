@@ -0,0 +1,21 @@
+import {ok} from '~~/server/utils/response'
+import {destroyReaderSession, readReaderSession, revokeReaderSessions} from '~~/server/utils/readerSession'
+import {readBody} from 'h3'
+
+/**
+ * 退出读者会话
+ * POST /api/reader/auth/logout
+ *
+ * all = true 时撤销该钱包的全部会话（所有设备）
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{ all?: boolean }>(event).catch(() => null)
+    if (body?.all === true) {
+        const session = await readReaderSession(event)
+        if (session) {
+            await revokeReaderSessions(session.walletAddress)
+        }
+    }
+    await destroyReaderSession(event)
+    return ok(null, 'logged out')
+})
@@ -0,0 +1,30 @@
+import {ok, fail} from '~~/server/utils/response'
+import {createReaderNonce} from '~~/server/utils/readerSession'
+import {isValidSolanaAddress} from '~~/server/utils/bubblegum'
+import {setResponseStatus, readBody} from 'h3'
+
+/**
+ * 获取钱包签名登录挑战
+ * POST /api/reader/auth/nonce
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{ address?: string }>(event)
+    const address = typeof body?.address === 'string' ? body.address.trim() : ''
+    if (!address) {
+        setResponseStatus(event, 400)
+        return fail('Missing address', 400)
+    }
+    if (!isValidSolanaAddress(address)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid address', 400)
+    }
+
+    try {
+        const challenge = await createReaderNonce(event, address)
+        return ok(challenge)
+    } catch (err) {
+        console.error('Reader nonce error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
@@ -0,0 +1,14 @@
+import {ok} from '~~/server/utils/response'
+import {readReaderSession} from '~~/server/utils/readerSession'
+
+/**
+ * 获取当前读者会话
+ * GET /api/reader/auth/session
+ */
+export default defineEventHandler(async (event) => {
+    const session = await readReaderSession(event)
+    if (!session) {
+        return ok({address: null, expiresAt: null})
+    }
+    return ok({address: session.walletAddress, expiresAt: session.expiresAt})
+})
@@ -0,0 +1,45 @@
+import {ok, fail} from '~~/server/utils/response'
+import {consumeReaderNonce, createReaderSession, findReaderNonce, verifyWalletSignature} from '~~/server/utils/readerSession'
+import {setResponseStatus, readBody} from 'h3'
+
+/**
+ * 验证钱包签名并签发读者会话
+ * POST /api/reader/auth/verify
+ *
+ * signature 为 Base64 编码的 ed25519 签名；验签通过后才消费 nonce，
+ * 避免他人用错误签名提前作废挑战
+ */
+export default defineEventHandler(async (event) => {
+    const body = await readBody<{ address?: string; nonce?: string; signature?: string }>(event)
+    if (typeof body?.address !== 'string' || typeof body?.nonce !== 'string' || typeof body?.signature !== 'string'
+        || !body.address || !body.nonce || !body.signature) {
+        setResponseStatus(event, 400)
+        return fail('Missing address, nonce or signature', 400)
+    }
+
+    try {
+        const challenge = await findReaderNonce(body.nonce, body.address)
+        if (!challenge) {
+            setResponseStatus(event, 401)
+            return fail('Invalid or expired nonce', 401)
+        }
+
+        const signature = new Uint8Array(Buffer.from(body.signature, 'base64'))
+        if (!verifyWalletSignature(body.address, challenge.message, signature)) {
+            setResponseStatus(event, 401)
+            return fail('Invalid signature', 401)
+        }
+
+        if (!await consumeReaderNonce(body.nonce, body.address)) {
+            setResponseStatus(event, 401)
+            return fail('Invalid or expired nonce', 401)
+        }
+
+        const session = await createReaderSession(event, body.address)
+        return ok({address: session.walletAddress, expiresAt: session.expiresAt})
+    } catch (err) {
+        console.error('Reader verify error:', err)
+        setResponseStatus(event, 500)
+        return fail('Internal Server Error', 500)
+    }
+})
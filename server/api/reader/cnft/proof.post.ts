@@ -0,0 +1,89 @@
+import {prisma} from '~~/server/utils/prisma'
+import {ok, fail} from '~~/server/utils/response'
+import {readReaderWallet} from '~~/server/utils/readerSession'
+import {parseProofNodes, verifyCnftOwnershipProof} from '~~/server/utils/cnftProof'
+import {isValidSolanaAddress} from '~~/server/utils/bubblegum'
+import {setResponseStatus, readBody} from 'h3'
+
+/**
+ * 提交 cNFT 持有证明
+ * POST /api/reader/cnft/proof
+ *
+ * 读者钱包提交 Merkle 证明（proof 为从叶子向上的节点，Base58 或 Base64 编码，可省略树冠节点），
+ * 服务端按铸造数据重建叶子，直接与链上 Merkle Tree 根比对，不依赖 DAS 索引。
+ * 校验通过且记录的持有者不是当前钱包时，更新持有者并记录转移历史，阅读鉴权随即生效。
+ */
+export default defineEventHandler(async (event) => {
+    const address = await readReaderWallet(event)
+    if (!address) {
+        setResponseStatus(event, 401)
+        return fail('Wallet session required', 401)
+    }
+
+    const body = await readBody<{ assetId?: string; proof?: unknown; delegate?: string }>(event)
+    if (!body?.assetId || !isValidSolanaAddress(body.assetId)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid assetId', 400)
+    }
+    if (body.delegate && !isValidSolanaAddress(body.delegate)) {
+        setResponseStatus(event, 400)
+        return fail('Invalid delegate', 400)
+    }
+
+    const proof = parseProofNodes(body.proof)
+    if (!proof) {
+        setResponseStatus(event, 400)
+        return fail('Invalid proof', 400)
+    }
+
+    let result: Awaited<ReturnType<typeof verifyCnftOwnershipProof>>
+    try {
+        result = await verifyCnftOwnershipProof({
+            assetId: body.assetId,
+            ownerAddress: address,
+            delegateAddress: body.delegate,
+            proof,
+        })
+    } catch (err: any) {
+        console.error('[cNFT Proof] 读取 Merkle Tree 失败:', err)
+        setResponseStatus(event, 502)
+        return fail('Failed to load merkle tree', 502)
+    }
+
+    if (!result) {
+        setResponseStatus(event, 404)
+        return fail('cNFT not found', 404)
+    }
+
+    if (!result.valid) {
+        return ok({valid: false, reason: result.reason, updated: false})
+    }
+
+    // 证明有效：持有者变化时以读取到的持有者为条件更新，避免覆盖并发修改
+    let updated = false
+    if (result.ownerAddress !== address) {
+        const now = new Date()
+        updated = await prisma.$transaction(async (tx) => {
+            const changed = await tx.compressedNft.updateMany({
+                where: {id: result.cnftId, status: 1, ownerAddress: result.ownerAddress},
+                data: {ownerAddress: address, delegateAddress: body.delegate && body.delegate !== address ? body.delegate : null, ownerSyncedAt: now, updatedAt: now},
+            })
+            if (changed.count === 0) return false
+            await tx.cnftTransfer.create({
+                data: {
+                    cnftId: result.cnftId,
+                    event: 'transfer',
+                    fromAddress: result.ownerAddress,
+                    toAddress: address,
+                    source: 'proof',
+                },
+            })
+            return true
+        })
+        if (updated) {
+            console.log(`[cNFT Proof] ${body.assetId} 持有者更新: ${result.ownerAddress} -> ${address}`)
+        }
+    }
+
+    return ok({valid: true, reason: null, updated})
+})
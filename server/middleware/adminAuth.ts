@@ -0,0 +1,41 @@
+import {fail} from '~~/server/utils/response'
+import {readSession} from '~~/server/utils/session'
+import {getRequestURL, setResponseStatus} from 'h3'
+
+/**
+ * 管理端鉴权中间件
+ *
+ * 统一保护 /api/admin/**，校验通过后将会话挂载到 event.context.session。
+ * 白名单内的接口（登录、初始化、初始化检查）无需会话。
+ */
+
+const ADMIN_API_PREFIX = '/api/admin/'
+
+// 无需会话的管理端接口（相对于 /api/admin/）
+const PUBLIC_ADMIN_ROUTES = new Set([
+    'auth/login',
+    'auth/init',
+    'auth/check',
+])
+
+function isAdminApiPath(pathname: string) {
+    return pathname.startsWith(ADMIN_API_PREFIX)
+}
+
+function isPublicAdminRoute(pathname: string) {
+    const route = pathname.slice(ADMIN_API_PREFIX.length).replace(/\/+$/, '')
+    return PUBLIC_ADMIN_ROUTES.has(route)
+}
+
+export default defineEventHandler(async (event) => {
+    const {pathname} = getRequestURL(event)
+    if (!isAdminApiPath(pathname) || isPublicAdminRoute(pathname)) return
+
+    const session = await readSession(event)
+    if (!session) {
+        setResponseStatus(event, 401)
+        return fail('Unauthorized', 401)
+    }
+
+    event.context.session = session
+})
@@ -0,0 +1,63 @@
+import {prisma} from '~~/server/utils/prisma'
+import {resolveProjectRef, resolveVersionRef, resolveNoteRef, toRouteRef} from '~~/server/utils/slug'
+import {getRequestURL, sendRedirect} from 'h3'
+
+/**
+ * 旧别名跳转中间件
+ *
+ * 公开页面 /project/:project[/v/:version[/docs/:note]] 中任一段是修改前的旧别名时，
+ * 301 跳转到当前地址，保证分享出去的链接长期有效。数字 ID 与当前别名不做跳转。
+ */
+
+const PROJECT_PAGE_PATTERN = /^\/project\/([^/]+)(?:\/v\/([^/]+)(?:\/docs\/([^/]+))?)?(\/.*)?$/
+
+function decodeSegment(segment: string) {
+    try {
+        return decodeURIComponent(segment)
+    } catch {
+        return segment
+    }
+}
+
+export default defineEventHandler(async (event) => {
+    if (event.method !== 'GET' && event.method !== 'HEAD') return
+
+    const url = getRequestURL(event)
+    const match = url.pathname.match(PROJECT_PAGE_PATTERN)
+    if (!match) return
+
+    const [, projectSeg, versionSeg, noteSeg, rest] = match
+    const segments = [projectSeg, versionSeg, noteSeg].map((s) => (s ? decodeSegment(s) : undefined))
+    // 全部是数字 ID 时无需查询
+    if (segments.every((s) => s === undefined || /^\d+$/.test(s))) return
+
+    try {
+        const project = await resolveProjectRef(segments[0]!)
+        if (!project) return
+        const version = segments[1] ? await resolveVersionRef(project.id, segments[1]) : null
+        const note = version && segments[2] ? await resolveNoteRef(version.id, segments[2]) : null
+
+        if (!project.redirected && !version?.redirected && !note?.redirected) return
+
+        // 旧别名替换为当前别名（无别名时使用 ID），其余段保持原样
+        let path = `/project/${project.redirected
+            ? toRouteRef(await prisma.project.findUniqueOrThrow({where: {id: project.id}, select: {id: true, slug: true}}))
+            : projectSeg}`
+        if (versionSeg) {
+            path += `/v/${version?.redirected
+                ? toRouteRef(await prisma.projectVersion.findUniqueOrThrow({where: {id: version.id}, select: {id: true, slug: true}}))
+                : versionSeg}`
+        }
+        if (noteSeg) {
+            path += `/docs/${note?.redirected
+                ? toRouteRef(await prisma.noteInfo.findUniqueOrThrow({where: {id: note.id}, select: {id: true, slug: true}}))
+                : noteSeg}`
+        }
+        path += rest ?? ''
+
+        return sendRedirect(event, path + url.search, 301)
+    } catch (err) {
+        // 跳转失败不影响页面访问
+        console.error('Slug redirect error:', err)
+    }
+})
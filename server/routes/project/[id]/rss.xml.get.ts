@@ -0,0 +1,19 @@
+import { getSiteIndexCacheHeaders, loadProjectFeed, renderRssFeed } from '~~/server/utils/siteIndex'
+import { createError, getRouterParam, setResponseHeaders } from 'h3'
+
+/**
+ * 项目 RSS 订阅（最近更新的笔记）
+ * GET /project/:id/rss.xml（:id 可以是项目 ID 或别名）
+ */
+export default defineEventHandler(async (event) => {
+  const feed = await loadProjectFeed(event, getRouterParam(event, 'id') || '')
+  if (!feed) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  setResponseHeaders(event, {
+    'Content-Type': 'application/rss+xml; charset=utf-8',
+    ...getSiteIndexCacheHeaders(900),
+  })
+  return renderRssFeed(feed)
+})
@@ -0,0 +1,19 @@
+import { getSiteUrl } from '~~/server/utils/seo'
+import { getSiteIndexCacheHeaders, getSiteIndexSettings, renderRobotsTxt } from '~~/server/utils/siteIndex'
+import { setResponseHeaders } from 'h3'
+
+/**
+ * 爬虫规则
+ * GET /robots.txt
+ *
+ * 规则可在后台「SEO 设置」中自定义，未包含 Sitemap 时自动附加站点地图地址。
+ */
+export default defineEventHandler(async (event) => {
+  const { robotsTxt } = await getSiteIndexSettings()
+
+  setResponseHeaders(event, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    ...getSiteIndexCacheHeaders(3600),
+  })
+  return renderRobotsTxt(getSiteUrl(event), robotsTxt)
+})
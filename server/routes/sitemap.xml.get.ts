@@ -0,0 +1,21 @@
+import { getSiteUrl } from '~~/server/utils/seo'
+import { getSiteIndexCacheHeaders, getSiteIndexSettings, listPublishedNotes, listPublishedProjects, renderSitemap } from '~~/server/utils/siteIndex'
+import { setResponseHeaders } from 'h3'
+
+/**
+ * 站点地图
+ * GET /sitemap.xml
+ *
+ * 收录已发布项目的首页与笔记页面，笔记 lastmod 取内容更新时间。
+ */
+export default defineEventHandler(async (event) => {
+  const { includeProtected } = await getSiteIndexSettings()
+  const projects = await listPublishedProjects({ includeProtected })
+  const notes = await listPublishedNotes({ includeProtected })
+
+  setResponseHeaders(event, {
+    'Content-Type': 'application/xml; charset=utf-8',
+    ...getSiteIndexCacheHeaders(3600),
+  })
+  return renderSitemap(getSiteUrl(event), [...projects, ...notes])
+})
@@ -0,0 +1,41 @@
+import { prisma } from '~~/server/utils/prisma'
+import { getContentType, getStorageDriver, normalizeStorageKey } from '~~/server/utils/storage'
+import { createError, getRouterParam, sendRedirect, setResponseHeaders } from 'h3'
+
+/**
+ * 上传文件访问
+ * GET /uploads/**
+ *
+ * public 目录中存在的文件由静态资源直接返回，不会进入此路由；
+ * 其余请求按文件记录所在的存储驱动读取（本地）或跳转到签名地址（对象存储）。
+ */
+export default defineEventHandler(async (event) => {
+  const key = normalizeStorageKey(`uploads/${getRouterParam(event, 'path') || ''}`)
+  if (!key) {
+    throw createError({ statusCode: 400, statusMessage: 'Invalid path' })
+  }
+
+  const file = await prisma.fileManagement.findFirst({
+    where: { filePath: key },
+    select: { storageDriver: true },
+    orderBy: { id: 'desc' },
+  })
+  const driver = getStorageDriver(file?.storageDriver ?? 'local')
+
+  if (driver.name !== 'local') {
+    setResponseHeaders(event, { 'Cache-Control': 'private, max-age=300' })
+    return sendRedirect(event, await driver.getSignedUrl(key), 302)
+  }
+
+  const data = await driver.get(key)
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  setResponseHeaders(event, {
+    'Content-Type': getContentType(key),
+    'Content-Length': String(data.byteLength),
+    'Cache-Control': 'public, max-age=86400',
+  })
+  return data
+})
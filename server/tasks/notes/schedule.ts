@@ -0,0 +1,25 @@
+import { runDueNoteSchedules } from '~~/server/utils/noteSchedule'
+
+/**
+ * 笔记定时计划任务：执行到期的内容版本发布与内容版本 / 笔记下线
+ * 已在 nuxt.config.ts 中配置为每分钟执行一次
+ *
+ * 用法：
+ *   npx nuxi task run notes:schedule --payload '{"limit":100}'
+ */
+export default defineTask({
+  meta: {
+    name: 'notes:schedule',
+    description: '执行到期的笔记定时发布与下线计划',
+  },
+  async run({ payload }) {
+    const report = await runDueNoteSchedules({
+      limit: typeof payload?.limit === 'number' && payload.limit > 0 ? Math.trunc(payload.limit) : undefined,
+    })
+    if (report.checked > 0) {
+      const count = (result: string) => report.items.filter((i) => i.result === result).length
+      console.log(`[Note Schedule] 到期 ${report.checked} 个，执行 ${count('done')}，失败 ${count('failed')}，跳过 ${count('skipped')}`)
+    }
+    return { result: report }
+  },
+})
@@ -0,0 +1,30 @@
+import { syncCnftOwnership } from '~~/server/utils/cnftOwnership'
+
+/**
+ * cNFT 持有者同步任务：按 DAS 索引更新转移与销毁
+ * 已在 nuxt.config.ts 中配置为每小时执行一次，每次处理最久未同步的记录
+ *
+ * 用法：
+ *   npx nuxi task run solana:ownership --payload '{"projectId":"1","network":"devnet","limit":200,"dryRun":true}'
+ */
+export default defineTask({
+  meta: {
+    name: 'solana:ownership',
+    description: '通过 DAS 索引同步 cNFT 持有者、转移与销毁记录',
+  },
+  async run({ payload }) {
+    const network = payload?.network === 'mainnet' || payload?.network === 'devnet' ? payload.network : undefined
+    const report = await syncCnftOwnership({
+      projectId: payload?.projectId ? BigInt(payload.projectId as string) : undefined,
+      network,
+      limit: typeof payload?.limit === 'number' && payload.limit > 0 ? Math.trunc(payload.limit) : undefined,
+      dryRun: payload?.dryRun === true,
+    })
+    const count = (action: string) => report.changes.filter((c) => c.action === action).length
+    console.log(
+      `[cNFT Ownership] 检查 ${report.checked} 个，未变化 ${report.unchanged}，` +
+      `转移 ${count('transferred')}，销毁 ${count('burned')}，未收录 ${count('missing')}，失败 ${count('error')}`
+    )
+    return { result: report }
+  },
+})
@@ -0,0 +1,29 @@
+import { recoverSolanaState } from '~~/server/utils/solanaRecovery'
+
+/**
+ * Solana 状态对账任务：清理过期会话，处理遗留的铸造中 cNFT 与创建中的树
+ * 已在 nuxt.config.ts 中配置为每 10 分钟执行一次
+ *
+ * 用法：
+ *   npx nuxi task run solana:recover --payload '{"staleMinutes":10,"limit":100,"dryRun":true}'
+ */
+export default defineTask({
+  meta: {
+    name: 'solana:recover',
+    description: '按链上状态对账遗留的铸造与建树记录',
+  },
+  async run({ payload }) {
+    const report = await recoverSolanaState({
+      staleMinutes: typeof payload?.staleMinutes === 'number' && payload.staleMinutes > 0 ? payload.staleMinutes : undefined,
+      limit: typeof payload?.limit === 'number' && payload.limit > 0 ? Math.trunc(payload.limit) : undefined,
+      dryRun: payload?.dryRun === true,
+    })
+    const count = (items: { action: string }[], action: string) => items.filter((i) => i.action === action).length
+    console.log(
+      `[Solana Recover] 过期会话 ${report.expiredSessions} 个；` +
+      `铸造: 成功 ${count(report.mints, 'minted')}，失败 ${count(report.mints, 'failed')}，跳过 ${count(report.mints, 'skipped')}；` +
+      `建树: 成功 ${count(report.trees, 'created')}，失败 ${count(report.trees, 'failed')}，跳过 ${count(report.trees, 'skipped')}`
+    )
+    return { result: report }
+  },
+})
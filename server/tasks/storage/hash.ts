@@ -0,0 +1,20 @@
+import { backfillFileHashes } from '~~/server/utils/file'
+
+/**
+ * 补算历史文件哈希任务（上传去重依赖 sha256）
+ *
+ * 用法：
+ *   npx nuxi task run storage:hash --payload '{"limit":1000}'
+ */
+export default defineTask({
+  meta: {
+    name: 'storage:hash',
+    description: '补算历史上传文件的 SHA-256',
+  },
+  async run({ payload }) {
+    const limit = typeof payload?.limit === 'number' && payload.limit > 0 ? Math.trunc(payload.limit) : undefined
+    const result = await backfillFileHashes(limit)
+    console.log(`[Storage] 补算哈希: 共 ${result.total} 个，完成 ${result.hashed} 个，缺失 ${result.missing.length} 个`)
+    return { result }
+  },
+})
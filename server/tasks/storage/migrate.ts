@@ -0,0 +1,47 @@
+import { migrateFileStorage, ValidBusinessTypes, type BusinessType } from '~~/server/utils/file'
+import { isStorageDriverName } from '~~/server/utils/storage'
+
+/**
+ * 存储迁移任务：在存储驱动之间迁移已上传文件
+ *
+ * 用法：
+ *   npx nuxi task run storage:migrate --payload '{"from":"local","to":"s3"}'
+ *
+ * payload:
+ * - from / to: 源驱动与目标驱动（local | s3）
+ * - businessType: 仅迁移指定业务类型（可选）
+ * - limit: 最多迁移数量（可选）
+ * - deleteSource: 迁移成功后删除源对象（默认 false）
+ * - dryRun: 仅统计待迁移数量（默认 false）
+ */
+export default defineTask({
+  meta: {
+    name: 'storage:migrate',
+    description: '在存储驱动之间迁移已上传文件',
+  },
+  async run({ payload }) {
+    const { from, to, businessType, limit, deleteSource, dryRun } = payload as Record<string, unknown>
+
+    if (!isStorageDriverName(from) || !isStorageDriverName(to)) {
+      throw new Error('from / to 必须为 local 或 s3')
+    }
+    if (businessType !== undefined && !ValidBusinessTypes.includes(businessType as BusinessType)) {
+      throw new Error(`无效的业务类型: ${businessType}`)
+    }
+
+    const result = await migrateFileStorage({
+      from,
+      to,
+      businessType: businessType as BusinessType | undefined,
+      limit: typeof limit === 'number' && limit > 0 ? Math.trunc(limit) : undefined,
+      deleteSource: deleteSource === true,
+      dryRun: dryRun === true,
+    })
+
+    console.log(
+      `[Storage] ${from} → ${to}: 共 ${result.total} 个，迁移 ${result.migrated} 个，` +
+      `缺失 ${result.missing.length} 个，失败 ${result.failed.length} 个`
+    )
+    return { result }
+  },
+})
@@ -0,0 +1,10 @@
+import type {readSession} from '~~/server/utils/session'
+
+declare module 'h3' {
+    interface H3EventContext {
+        /** 管理员会话（由 server/middleware/adminAuth.ts 挂载，仅 /api/admin/** 可用） */
+        session?: NonNullable<Awaited<ReturnType<typeof readSession>>>
+    }
+}
+
+export {}
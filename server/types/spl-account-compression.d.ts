@@ -39,4 +39,69 @@ declare module '@solana/spl-account-compression' {
     authority: PublicKey,
     depthSizePair: ValidDepthSizePair
   ): TransactionInstruction
+
+  /**
+   * 树最右侧路径（index 为已追加的叶子数量）
+   */
+  export interface Path {
+    proof: PublicKey[]
+    leaf: PublicKey
+    index: number
+    _padding: number
+  }
+
+  /**
+   * 变更日志（每次修改叶子后的新根与路径）
+   */
+  export interface ChangeLog {
+    root: PublicKey
+    pathNodes: PublicKey[]
+    index: number
+    _padding: number
+  }
+
+  /**
+   * 链上并发 Merkle Tree 数据
+   */
+  export interface ConcurrentMerkleTree {
+    sequenceNumber: unknown
+    activeIndex: unknown
+    bufferSize: unknown
+    changeLogs: ChangeLog[]
+    rightMostPath: Path
+  }
+
+  /**
+   * 链上树冠缓存（顶部若干层节点，不含根）
+   */
+  export interface Canopy {
+    canopyBytes: number[]
+  }
+
+  /**
+   * 链上 Merkle Tree 账户
+   */
+  export class ConcurrentMerkleTreeAccount {
+    tree: ConcurrentMerkleTree
+    canopy: Canopy
+    static fromBuffer(buffer: Buffer): ConcurrentMerkleTreeAccount
+    static fromAccountAddress(connection: Connection, publicKey: PublicKey): Promise<ConcurrentMerkleTreeAccount>
+    getMaxDepth(): number
+    getMaxBufferSize(): number
+    getBufferSize(): number
+    getCurrentRoot(): Buffer
+    getCurrentBufferIndex(): number
+    getCanopyDepth(): number
+    getAuthority(): PublicKey
+  }
+
+  /**
+   * 使用链上相同的哈希函数（keccak256）拼接哈希两个节点
+   */
+  export function hash(left: Buffer, right: Buffer): Buffer
+
+  /**
+   * 指定高度的空子树根节点（level 0 为空叶子）
+   */
+  export function emptyNode(level: number): Buffer
 }
@@ -0,0 +1,179 @@
+/**
+ * 访问授权模块
+ *
+ * 试用、赞助、工单等场景由管理员直接为钱包授权阅读，无需持有 cNFT：
+ * - 授权在 [startsAt, expiresAt) 内且未撤销时有效，expiresAt 为空表示长期有效
+ * - 授权只撤销不删除，创建、修改、撤销都写入 AccessGrantLog（操作人与原因）
+ * - 阅读鉴权（noteAccess）在 cNFT 持有之外同时查询有效授权
+ */
+
+import type { H3Event } from 'h3'
+import { Prisma, type AccessGrant } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+
+// ============ 类型定义 ============
+
+/**
+ * 授权类型
+ * - trial: 试用
+ * - sponsor: 赞助
+ * - support: 工单 / 客服
+ * - other: 其他
+ */
+export type AccessGrantType = 'trial' | 'sponsor' | 'support' | 'other'
+
+/** 所有授权类型 */
+export const ACCESS_GRANT_TYPES: AccessGrantType[] = ['trial', 'sponsor', 'support', 'other']
+
+/**
+ * 授权状态（按当前时间计算）
+ * - pending: 未到生效时间
+ * - active: 有效
+ * - expired: 已过期
+ * - revoked: 已撤销
+ */
+export type AccessGrantStatus = 'pending' | 'active' | 'expired' | 'revoked'
+
+/**
+ * 授权操作类型
+ */
+export type AccessGrantAction = 'create' | 'update' | 'revoke'
+
+/**
+ * 授权操作人
+ */
+export interface AccessGrantActor {
+  userId: number | null
+  username: string | null
+}
+
+// ============ 状态判定 ============
+
+/**
+ * 判断是否为有效的授权类型
+ */
+export function isAccessGrantType(value: unknown): value is AccessGrantType {
+  return ACCESS_GRANT_TYPES.includes(value as AccessGrantType)
+}
+
+/**
+ * 计算授权状态
+ */
+export function getAccessGrantStatus(
+  grant: Pick<AccessGrant, 'startsAt' | 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): AccessGrantStatus {
+  if (grant.revokedAt) return 'revoked'
+  if (grant.startsAt > now) return 'pending'
+  if (grant.expiresAt && grant.expiresAt <= now) return 'expired'
+  return 'active'
+}
+
+/**
+ * 按授权状态生成查询条件
+ */
+export function accessGrantStatusWhere(status: AccessGrantStatus, now: Date = new Date()): Prisma.AccessGrantWhereInput {
+  switch (status) {
+    case 'revoked':
+      return { revokedAt: { not: null } }
+    case 'pending':
+      return { revokedAt: null, startsAt: { gt: now } }
+    case 'expired':
+      return { revokedAt: null, startsAt: { lte: now }, expiresAt: { lte: now } }
+    case 'active':
+      return {
+        revokedAt: null,
+        startsAt: { lte: now },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      }
+  }
+}
+
+/**
+ * 检查钱包在项目下是否有有效授权
+ *
+ * @param projectId - 项目 ID
+ * @param walletAddress - 钱包地址
+ */
+export async function hasActiveAccessGrant(projectId: bigint, walletAddress: string): Promise<boolean> {
+  const count = await prisma.accessGrant.count({
+    where: {
+      projectId,
+      walletAddress,
+      ...accessGrantStatusWhere('active'),
+    },
+  })
+  return count > 0
+}
+
+// ============ 操作记录 ============
+
+/**
+ * 从管理员会话中获取操作人
+ */
+export function getAccessGrantActor(event: H3Event): AccessGrantActor {
+  const session = event.context.session
+  return {
+    userId: session?.userId ?? null,
+    username: session?.User?.username ?? null,
+  }
+}
+
+/**
+ * 写入授权操作记录
+ *
+ * @param tx - 事务
+ * @param grantId - 授权 ID
+ * @param action - 操作类型
+ * @param actor - 操作人
+ * @param options - 变更内容与操作说明
+ */
+export async function writeAccessGrantLog(
+  tx: Prisma.TransactionClient,
+  grantId: bigint,
+  action: AccessGrantAction,
+  actor: AccessGrantActor,
+  options: { changes?: Record<string, [unknown, unknown]>; reason?: string | null } = {}
+): Promise<void> {
+  await tx.accessGrantLog.create({
+    data: {
+      grantId,
+      action,
+      changes: options.changes ? (options.changes as Prisma.InputJsonValue) : Prisma.DbNull,
+      reason: options.reason ?? null,
+      userId: actor.userId,
+      username: actor.username,
+    },
+  })
+}
+
+// ============ DTO ============
+
+/**
+ * 授权记录转换为接口返回格式
+ */
+export function accessGrantToDto(grant: AccessGrant & { project?: { id: bigint; projectName: string } | null }) {
+  return {
+    id: grant.id.toString(),
+    projectId: grant.projectId.toString(),
+    walletAddress: grant.walletAddress,
+    email: grant.email,
+    grantType: grant.grantType,
+    reason: grant.reason,
+    startsAt: grant.startsAt,
+    expiresAt: grant.expiresAt,
+    revokedAt: grant.revokedAt,
+    revokeReason: grant.revokeReason,
+    issuedById: grant.issuedById,
+    issuedByName: grant.issuedByName,
+    revokedById: grant.revokedById,
+    revokedByName: grant.revokedByName,
+    status: getAccessGrantStatus(grant),
+    createdAt: grant.createdAt,
+    updatedAt: grant.updatedAt,
+    project: grant.project ? {
+      id: grant.project.id.toString(),
+      projectName: grant.project.projectName,
+    } : null,
+  }
+}
@@ -5,6 +5,7 @@
  * - TreeConfig PDA 计算
  * - Asset ID 计算
  * - mintV1 指令构建
+ * - transfer / burn / delegate 指令构建（需要叶子的 Merkle 证明）
  *
  * Requirements: 3.3, 3.4
  */
@@ -241,6 +242,38 @@ function serializeMetadataArgs(metadata: MetadataArgsInput): Buffer {
   return Buffer.concat(buffers)
 }
 
+/**
+ * 按 mintV1 的规则将 cNFT 元数据转换为 MetadataArgs 并序列化
+ *
+ * 叶子哈希中的 data_hash 基于同一份序列化结果计算，
+ * 校验 Merkle 证明时需与铸造时完全一致
+ *
+ * @param metadata - NFT 元数据
+ * @returns Borsh 序列化的 MetadataArgs
+ */
+export function serializeCnftMetadata(metadata: CnftMetadata): Buffer {
+  const metadataArgs: MetadataArgsInput = {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    uri: metadata.uri,
+    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints,
+    primarySaleHappened: metadata.primarySaleHappened ?? false,
+    isMutable: metadata.isMutable ?? true,
+    editionNonce: null,
+    tokenStandard: 0, // NonFungible = 0（Bubblegum 只支持 NonFungible）
+    collection: metadata.collection ?? null,
+    uses: metadata.uses ?? null,
+    tokenProgramVersion: 0, // Original
+    creators: metadata.creators.map(c => ({
+      address: c.address,
+      verified: c.verified,
+      share: c.share,
+    })),
+  }
+
+  return serializeMetadataArgs(metadataArgs)
+}
+
 /**
  * 创建 mintV1 指令
  *
@@ -266,28 +299,8 @@ export function createMintV1Instruction(
   // 通过 anchor discriminator 计算: sha256("global:mint_v1")[0..8]
   const MINT_V1_DISCRIMINATOR = Buffer.from([145, 98, 192, 118, 184, 147, 118, 104])
 
-  // 构建 MetadataArgs
-  const metadataArgs: MetadataArgsInput = {
-    name: metadata.name,
-    symbol: metadata.symbol,
-    uri: metadata.uri,
-    sellerFeeBasisPoints: metadata.sellerFeeBasisPoints,
-    primarySaleHappened: metadata.primarySaleHappened ?? false,
-    isMutable: metadata.isMutable ?? true,
-    editionNonce: null,
-    tokenStandard: 0, // NonFungible = 0（Bubblegum 只支持 NonFungible）
-    collection: metadata.collection ?? null,
-    uses: metadata.uses ?? null,
-    tokenProgramVersion: 0, // Original
-    creators: metadata.creators.map(c => ({
-      address: c.address,
-      verified: c.verified,
-      share: c.share,
-    })),
-  }
-
   // 序列化指令数据
-  const metadataBuffer = serializeMetadataArgs(metadataArgs)
+  const metadataBuffer = serializeCnftMetadata(metadata)
   const data = Buffer.concat([MINT_V1_DISCRIMINATOR, metadataBuffer])
 
   // 构建账户列表
@@ -412,3 +425,168 @@ export function createDefaultCnftMetadata(
     uses: null,
   }
 }
+
+/**
+ * 叶子操作参数（transfer / burn / delegate 共用）
+ * 链上程序据此重建叶子并用证明校验根
+ */
+export interface LeafOperationArgs {
+  /** 证明对应的树根 */
+  root: Buffer
+  /** 元数据哈希 */
+  dataHash: Buffer
+  /** 创建者哈希 */
+  creatorHash: Buffer
+  /** 叶子序号（mintV1 时等于叶子索引） */
+  nonce: number
+  /** 叶子索引 */
+  index: number
+  /** 证明节点（从叶子向上，已去掉树冠缓存的节点） */
+  proof: PublicKey[]
+}
+
+/**
+ * 序列化叶子操作参数
+ * root: [u8; 32], data_hash: [u8; 32], creator_hash: [u8; 32], nonce: u64, index: u32
+ */
+function serializeLeafOperationArgs(discriminator: Buffer, args: LeafOperationArgs): Buffer {
+  const nonce = Buffer.alloc(8)
+  nonce.writeBigUInt64LE(BigInt(args.nonce))
+  const index = Buffer.alloc(4)
+  index.writeUInt32LE(args.index)
+  return Buffer.concat([discriminator, args.root, args.dataHash, args.creatorHash, nonce, index])
+}
+
+/**
+ * 证明节点作为剩余账户
+ */
+function proofAccounts(proof: PublicKey[]) {
+  return proof.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false }))
+}
+
+/**
+ * 创建 transfer 指令
+ *
+ * 持有者或委托者之一需要签名；转移后委托者重置为新持有者
+ *
+ * @param merkleTree - Merkle Tree 公钥
+ * @param leafOwner - 当前持有者
+ * @param leafDelegate - 当前委托者（未委托时与 leafOwner 相同）
+ * @param newLeafOwner - 新持有者
+ * @param signer - 签名方（leafOwner 或 leafDelegate）
+ * @param args - 叶子操作参数
+ * @returns TransactionInstruction
+ */
+export function createTransferInstruction(
+  merkleTree: PublicKey,
+  leafOwner: PublicKey,
+  leafDelegate: PublicKey,
+  newLeafOwner: PublicKey,
+  signer: PublicKey,
+  args: LeafOperationArgs
+): TransactionInstruction {
+  // sha256("global:transfer")[0..8]
+  const TRANSFER_DISCRIMINATOR = Buffer.from([163, 52, 200, 231, 140, 3, 69, 186])
+  const [treeConfig] = getTreeConfigPda(merkleTree)
+
+  const keys = [
+    { pubkey: treeConfig, isSigner: false, isWritable: false },
+    { pubkey: leafOwner, isSigner: signer.equals(leafOwner), isWritable: false },
+    { pubkey: leafDelegate, isSigner: !signer.equals(leafOwner) && signer.equals(leafDelegate), isWritable: false },
+    { pubkey: newLeafOwner, isSigner: false, isWritable: false },
+    { pubkey: merkleTree, isSigner: false, isWritable: true },
+    { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ...proofAccounts(args.proof),
+  ]
+
+  return new TransactionInstruction({
+    keys,
+    programId: BUBBLEGUM_PROGRAM_ID,
+    data: serializeLeafOperationArgs(TRANSFER_DISCRIMINATOR, args),
+  })
+}
+
+/**
+ * 创建 burn 指令
+ *
+ * 持有者或委托者之一需要签名；销毁后叶子被置空
+ *
+ * @param merkleTree - Merkle Tree 公钥
+ * @param leafOwner - 当前持有者
+ * @param leafDelegate - 当前委托者（未委托时与 leafOwner 相同）
+ * @param signer - 签名方（leafOwner 或 leafDelegate）
+ * @param args - 叶子操作参数
+ * @returns TransactionInstruction
+ */
+export function createBurnInstruction(
+  merkleTree: PublicKey,
+  leafOwner: PublicKey,
+  leafDelegate: PublicKey,
+  signer: PublicKey,
+  args: LeafOperationArgs
+): TransactionInstruction {
+  // sha256("global:burn")[0..8]
+  const BURN_DISCRIMINATOR = Buffer.from([116, 110, 29, 56, 107, 219, 42, 93])
+  const [treeConfig] = getTreeConfigPda(merkleTree)
+
+  const keys = [
+    { pubkey: treeConfig, isSigner: false, isWritable: false },
+    { pubkey: leafOwner, isSigner: signer.equals(leafOwner), isWritable: false },
+    { pubkey: leafDelegate, isSigner: !signer.equals(leafOwner) && signer.equals(leafDelegate), isWritable: false },
+    { pubkey: merkleTree, isSigner: false, isWritable: true },
+    { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ...proofAccounts(args.proof),
+  ]
+
+  return new TransactionInstruction({
+    keys,
+    programId: BUBBLEGUM_PROGRAM_ID,
+    data: serializeLeafOperationArgs(BURN_DISCRIMINATOR, args),
+  })
+}
+
+/**
+ * 创建 delegate 指令
+ *
+ * 只有持有者可以签名；新委托者等于持有者时即撤销委托
+ *
+ * @param merkleTree - Merkle Tree 公钥
+ * @param leafOwner - 当前持有者（签名方）
+ * @param previousLeafDelegate - 当前委托者（未委托时与 leafOwner 相同）
+ * @param newLeafDelegate - 新委托者
+ * @param args - 叶子操作参数
+ * @returns TransactionInstruction
+ */
+export function createDelegateInstruction(
+  merkleTree: PublicKey,
+  leafOwner: PublicKey,
+  previousLeafDelegate: PublicKey,
+  newLeafDelegate: PublicKey,
+  args: LeafOperationArgs
+): TransactionInstruction {
+  // sha256("global:delegate")[0..8]
+  const DELEGATE_DISCRIMINATOR = Buffer.from([90, 147, 75, 178, 85, 88, 4, 137])
+  const [treeConfig] = getTreeConfigPda(merkleTree)
+
+  const keys = [
+    { pubkey: treeConfig, isSigner: false, isWritable: false },
+    { pubkey: leafOwner, isSigner: true, isWritable: false },
+    { pubkey: previousLeafDelegate, isSigner: false, isWritable: false },
+    { pubkey: newLeafDelegate, isSigner: false, isWritable: false },
+    { pubkey: merkleTree, isSigner: false, isWritable: true },
+    { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ...proofAccounts(args.proof),
+  ]
+
+  return new TransactionInstruction({
+    keys,
+    programId: BUBBLEGUM_PROGRAM_ID,
+    data: serializeLeafOperationArgs(DELEGATE_DISCRIMINATOR, args),
+  })
+}
@@ -0,0 +1,848 @@
+/**
+ * cNFT 批量铸造模块
+ *
+ * 为同一项目的一批接收者铸造访问凭证：
+ * 1. 导入接收者列表（CSV / JSON），每行一个 ownerAddress，可单独指定 NFT 名称
+ * 2. prepare: 取待铸造的接收者，按 selectAvailableTree 选树，每笔交易打包多条 mintV1 指令
+ *    （受交易大小限制），预占连续叶子并创建铸造中的 cNFT 记录；凭证委托给树权限，后台可在退款时撤销
+ * 3. 前端钱包一次签名多笔交易（signAllTransactions）
+ * 4. submit: 按顺序发送并确认，逐个接收者记录成功、失败原因与交易签名
+ *
+ * 同一棵树上的交易必须按顺序上链，叶子索引才与预占一致；
+ * 因此某笔交易失败或状态未知时，同一棵树上后续的交易不再发送，直接标记失败并释放叶子。
+ * 失败的接收者可重试，重新进入待铸造状态。
+ */
+
+import { createHash } from 'node:crypto'
+import { Keypair, PACKET_DATA_SIZE, PublicKey, Transaction } from '@solana/web3.js'
+import { prisma } from './prisma'
+import { getConnection, type SolanaNetwork } from './solana'
+import { decryptPrivateKey, stringToSecretKey } from './crypto'
+import { selectAvailableTree, type AvailableTree } from './treeSelector'
+import {
+  createDefaultCnftMetadata,
+  createMintV1Instruction,
+  getAssetId,
+  getTreeConfigPda,
+} from './bubblegum'
+import { createBatchMintSession, deleteMintSession, getBatchMintSession } from './mintSession'
+import { syncTreeMintedCount } from './solanaRecovery'
+import { SolanaErrorCode } from './solanaErrors'
+
+/** 单个任务最多接收者数 */
+const MAX_RECIPIENTS = 1000
+
+/** 每笔交易最多铸造数（同时受交易大小限制） */
+const MAX_MINTS_PER_TRANSACTION = 8
+
+/** 单次 prepare 默认 / 最多构建的交易数（钱包一次签名） */
+const DEFAULT_TRANSACTIONS_PER_PREPARE = 5
+const MAX_TRANSACTIONS_PER_PREPARE = 10
+
+/** NFT 名称与符号的字节上限（Bubblegum 限制） */
+const MAX_NAME_BYTES = 32
+const MAX_SYMBOL_BYTES = 10
+
+// ============ 类型定义 ============
+
+/** 任务状态 */
+export const MintJobStatus = {
+  RUNNING: 0,     // 进行中
+  DONE: 1,        // 已完成
+} as const
+
+/** 接收者状态 */
+export const MintJobItemStatus = {
+  PENDING: 0,     // 待铸造
+  MINTING: 1,     // 铸造中
+  SUCCESS: 2,     // 成功
+  FAILED: -1,     // 失败
+} as const
+
+/** 导入格式 */
+export type RecipientFormat = 'csv' | 'json'
+
+/** 导入的接收者 */
+export interface MintRecipient {
+  /** 行号（从 1 开始） */
+  row: number
+  ownerAddress: string
+  /** 覆盖任务默认名称 */
+  name: string | null
+}
+
+/** 导入错误 */
+export interface RecipientError {
+  row: number
+  message: string
+}
+
+/** 任务进度 */
+export interface MintJobProgress {
+  total: number
+  pending: number
+  minting: number
+  success: number
+  failed: number
+}
+
+/** prepare 生成的交易 */
+export interface PreparedBatchTransaction {
+  sessionId: string
+  transactionBase64: string
+  merkleTree: { id: string; address: string; name: string }
+  itemIds: string[]
+}
+
+/** submit 单笔交易结果 */
+export interface SubmittedBatchTransaction {
+  sessionId: string
+  /** success=已确认 failed=失败 pending=已发送待确认 skipped=未发送 expired=会话过期 */
+  status: 'success' | 'failed' | 'pending' | 'skipped' | 'expired'
+  txSignature: string | null
+  count: number
+  message?: string
+}
+
+// ============ 接收者导入 ============
+
+/**
+ * 拆分一行 CSV（支持双引号包裹与 "" 转义）
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        current += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',' || ch === '\t' || ch === ';') {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+/**
+ * 解析 CSV：第一列为地址，第二列为名称（可选）；首行含 address/owner 时视为表头
+ */
+function parseCsvRows(content: string): { row: number; ownerAddress: string; name: string }[] {
+  const rows: { row: number; ownerAddress: string; name: string }[] = []
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  let addressColumn = 0
+  let nameColumn = 1
+  let headerChecked = false
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return
+    const cells = splitCsvLine(line)
+
+    if (!headerChecked) {
+      headerChecked = true
+      const lower = cells.map((c) => c.toLowerCase())
+      const addressIndex = lower.findIndex((c) => c.includes('address') || c.includes('owner') || c === 'wallet')
+      if (addressIndex >= 0) {
+        addressColumn = addressIndex
+        nameColumn = lower.findIndex((c) => c === 'name' || c.includes('名称'))
+        return
+      }
+    }
+
+    rows.push({
+      row: index + 1,
+      ownerAddress: cells[addressColumn] ?? '',
+      name: nameColumn >= 0 ? cells[nameColumn] ?? '' : '',
+    })
+  })
+  return rows
+}
+
+/**
+ * 解析 JSON：地址字符串数组，或 { ownerAddress, name? } 对象数组（也可包在 recipients 字段中）
+ */
+function parseJsonRows(content: string): { row: number; ownerAddress: string; name: string }[] {
+  let data: any
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: 'JSON 格式错误',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+  const list = Array.isArray(data) ? data : data?.recipients
+  if (!Array.isArray(list)) {
+    throw createError({
+      statusCode: 400,
+      message: 'JSON 需为数组或包含 recipients 数组',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+  return list.map((entry, index) => {
+    if (typeof entry === 'string') return { row: index + 1, ownerAddress: entry.trim(), name: '' }
+    const address = entry?.ownerAddress ?? entry?.address ?? entry?.owner ?? ''
+    return {
+      row: index + 1,
+      ownerAddress: typeof address === 'string' ? address.trim() : '',
+      name: typeof entry?.name === 'string' ? entry.name.trim() : '',
+    }
+  })
+}
+
+/**
+ * 校验 Solana 地址（32 字节公钥）
+ */
+function isValidOwnerAddress(address: string): boolean {
+  try {
+    return new PublicKey(address).toBuffer().length === 32
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 解析并校验接收者列表
+ *
+ * @param content - 文件内容
+ * @param format - 格式，缺省按内容首字符推断
+ */
+export function parseRecipients(content: string, format?: RecipientFormat): {
+  recipients: MintRecipient[]
+  errors: RecipientError[]
+} {
+  const trimmed = content.trim()
+  const resolved = format ?? (trimmed.startsWith('[') || trimmed.startsWith('{') ? 'json' : 'csv')
+  const rows = resolved === 'json' ? parseJsonRows(trimmed) : parseCsvRows(trimmed)
+  if (rows.length > MAX_RECIPIENTS) {
+    throw createError({
+      statusCode: 400,
+      message: `单个任务最多 ${MAX_RECIPIENTS} 个接收者`,
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  const recipients: MintRecipient[] = []
+  const errors: RecipientError[] = []
+  const seen = new Map<string, number>()
+
+  for (const row of rows) {
+    if (!row.ownerAddress) {
+      errors.push({ row: row.row, message: '缺少接收者地址' })
+      continue
+    }
+    if (!isValidOwnerAddress(row.ownerAddress)) {
+      errors.push({ row: row.row, message: `无效的 Solana 地址: ${row.ownerAddress}` })
+      continue
+    }
+    const duplicateRow = seen.get(row.ownerAddress)
+    if (duplicateRow !== undefined) {
+      errors.push({ row: row.row, message: `地址与第 ${duplicateRow} 行重复` })
+      continue
+    }
+    const nameBytes = Buffer.byteLength(row.name, 'utf8')
+    if (nameBytes > MAX_NAME_BYTES) {
+      errors.push({ row: row.row, message: `名称过长（${nameBytes}/${MAX_NAME_BYTES} 字节）` })
+      continue
+    }
+    seen.set(row.ownerAddress, row.row)
+    recipients.push({ row: row.row, ownerAddress: row.ownerAddress, name: row.name || null })
+  }
+
+  return { recipients, errors }
+}
+
+// ============ 任务创建 ============
+
+/** 创建任务参数 */
+export interface CreateMintJobInput {
+  projectId: bigint
+  network: SolanaNetwork
+  name: string
+  symbol?: string | null
+  metadataUri?: string | null
+  recipients: MintRecipient[]
+}
+
+/**
+ * 校验 NFT 名称、符号与元数据 URI
+ */
+export function validateMintMetadata(name: string, symbol?: string | null, metadataUri?: string | null): string | null {
+  if (!name) return '缺少 NFT 名称'
+  if (Buffer.byteLength(name, 'utf8') > MAX_NAME_BYTES) return `NFT 名称过长（最多 ${MAX_NAME_BYTES} 字节）`
+  if (symbol && Buffer.byteLength(symbol, 'utf8') > MAX_SYMBOL_BYTES) return `NFT 符号过长（最多 ${MAX_SYMBOL_BYTES} 字节）`
+  if (metadataUri && metadataUri.length > 200) return '元数据 URI 过长（最多 200 字符）'
+  return null
+}
+
+/**
+ * 创建批量铸造任务
+ */
+export async function createMintJob(input: CreateMintJobInput) {
+  return prisma.cnftMintJob.create({
+    data: {
+      projectId: input.projectId,
+      network: input.network,
+      name: input.name,
+      symbol: input.symbol || null,
+      metadataUri: input.metadataUri || null,
+      total: input.recipients.length,
+      items: {
+        create: input.recipients.map((r) => ({
+          rowNumber: r.row,
+          ownerAddress: r.ownerAddress,
+          name: r.name,
+        })),
+      },
+    },
+  })
+}
+
+// ============ 进度 ============
+
+/**
+ * 同步铸造中接收者的状态
+ * 对应 cNFT 已由 solana:recover 对账或被删除时，更新接收者状态
+ */
+export async function syncMintJobItems(jobId: bigint): Promise<void> {
+  const items = await prisma.cnftMintJobItem.findMany({
+    where: { jobId, status: MintJobItemStatus.MINTING },
+    select: { id: true, cnftId: true },
+  })
+  if (items.length === 0) return
+
+  const cnftIds = items.map((i) => i.cnftId).filter((id): id is bigint => id !== null)
+  const cnfts = await prisma.compressedNft.findMany({
+    where: { id: { in: cnftIds } },
+    select: { id: true, status: true, mintTxSignature: true },
+  })
+  const cnftMap = new Map(cnfts.map((c) => [c.id, c]))
+
+  for (const item of items) {
+    const cnft = item.cnftId !== null ? cnftMap.get(item.cnftId) : undefined
+    if (cnft?.status === 0) continue
+    await prisma.cnftMintJobItem.update({
+      where: { id: item.id },
+      data: cnft?.status === 1
+        ? { status: MintJobItemStatus.SUCCESS, txSignature: cnft.mintTxSignature, errorMessage: null, updatedAt: new Date() }
+        : { status: MintJobItemStatus.FAILED, errorMessage: cnft ? '链上铸造失败' : 'cNFT 记录已删除', updatedAt: new Date() },
+    })
+  }
+}
+
+/**
+ * 统计任务进度
+ */
+export async function getMintJobProgress(jobIds: bigint[]): Promise<Map<string, MintJobProgress>> {
+  const groups = await prisma.cnftMintJobItem.groupBy({
+    by: ['jobId', 'status'],
+    where: { jobId: { in: jobIds } },
+    _count: { _all: true },
+  })
+
+  const result = new Map<string, MintJobProgress>()
+  for (const jobId of jobIds) {
+    result.set(jobId.toString(), { total: 0, pending: 0, minting: 0, success: 0, failed: 0 })
+  }
+  for (const group of groups) {
+    const progress = result.get(group.jobId.toString())!
+    const count = group._count._all
+    progress.total += count
+    if (group.status === MintJobItemStatus.PENDING) progress.pending += count
+    else if (group.status === MintJobItemStatus.MINTING) progress.minting += count
+    else if (group.status === MintJobItemStatus.SUCCESS) progress.success += count
+    else progress.failed += count
+  }
+  return result
+}
+
+/**
+ * 按剩余接收者更新任务状态
+ */
+async function refreshMintJobStatus(jobId: bigint): Promise<void> {
+  const remaining = await prisma.cnftMintJobItem.count({
+    where: { jobId, status: { in: [MintJobItemStatus.PENDING, MintJobItemStatus.MINTING] } },
+  })
+  await prisma.cnftMintJob.update({
+    where: { id: jobId },
+    data: {
+      status: remaining > 0 ? MintJobStatus.RUNNING : MintJobStatus.DONE,
+      updatedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * 将失败的接收者重置为待铸造
+ *
+ * @param itemIds - 指定接收者，缺省为全部失败的接收者
+ * @returns 重置的数量
+ */
+export async function retryMintJobItems(jobId: bigint, itemIds?: bigint[]): Promise<number> {
+  const result = await prisma.cnftMintJobItem.updateMany({
+    where: {
+      jobId,
+      status: MintJobItemStatus.FAILED,
+      ...(itemIds && itemIds.length > 0 ? { id: { in: itemIds } } : {}),
+    },
+    data: { status: MintJobItemStatus.PENDING, updatedAt: new Date() },
+  })
+  if (result.count > 0) await refreshMintJobStatus(jobId)
+  return result.count
+}
+
+// ============ 交易构建 ============
+
+/**
+ * 解密树权限 Keypair 并校验与记录一致
+ */
+export function loadTreeAuthority(tree: Pick<AvailableTree, 'treeAddress' | 'treeAuthority' | 'encryptedKey'>): Keypair {
+  const keypair = Keypair.fromSecretKey(stringToSecretKey(decryptPrivateKey(tree.encryptedKey)))
+  if (keypair.publicKey.toBase58() !== tree.treeAuthority) {
+    throw new Error(`树权限公钥不匹配: ${tree.treeAddress}`)
+  }
+  return keypair
+}
+
+/**
+ * 交易序列化后的字节数（签名数 + 签名 + 消息），无法序列化时返回 null
+ */
+function transactionSize(transaction: Transaction): number | null {
+  try {
+    const message = transaction.serializeMessage()
+    // 消息头首字节为需要的签名数；签名数量的 shortvec 编码在 128 以内为 1 字节
+    return 1 + message[0]! * 64 + message.length
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 交易序列化后是否在大小限制内
+ */
+function fitsPacket(transaction: Transaction): boolean {
+  const size = transactionSize(transaction)
+  return size !== null && size <= PACKET_DATA_SIZE
+}
+
+/**
+ * 为待铸造的接收者构建一批交易
+ *
+ * @param jobId - 任务 ID
+ * @param payerAddress - 支付者（签名钱包）地址
+ * @param maxTransactions - 本次最多构建的交易数
+ */
+export async function prepareMintJobBatch(
+  jobId: bigint,
+  payerAddress: string,
+  maxTransactions: number = DEFAULT_TRANSACTIONS_PER_PREPARE
+): Promise<PreparedBatchTransaction[]> {
+  const job = await prisma.cnftMintJob.findUnique({ where: { id: jobId } })
+  if (!job) {
+    throw createError({ statusCode: 404, message: '批量铸造任务不存在' })
+  }
+
+  let payer: PublicKey
+  try {
+    payer = new PublicKey(payerAddress)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: '无效的支付者地址格式',
+      data: { code: SolanaErrorCode.INVALID_ADDRESS },
+    })
+  }
+
+  await syncMintJobItems(jobId)
+
+  const limit = Math.min(MAX_TRANSACTIONS_PER_PREPARE, Math.max(1, Math.trunc(maxTransactions)))
+  const queue = await prisma.cnftMintJobItem.findMany({
+    where: { jobId, status: MintJobItemStatus.PENDING },
+    orderBy: { rowNumber: 'asc' },
+    take: limit * MAX_MINTS_PER_TRANSACTION,
+  })
+  if (queue.length === 0) {
+    await refreshMintJobStatus(jobId)
+    return []
+  }
+
+  const network = job.network as SolanaNetwork
+  const connection = getConnection(network)
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+
+  const prepared: PreparedBatchTransaction[] = []
+  let conflicts = 0
+
+  while (queue.length > 0 && prepared.length < limit) {
+    const tree = await selectAvailableTree(network)
+    if (!tree) {
+      if (prepared.length > 0) break
+      throw createError({
+        statusCode: 400,
+        message: `没有可用的 Merkle Tree（${network}），请先创建`,
+        data: { code: 'NO_AVAILABLE_TREE' },
+      })
+    }
+
+    // 容量不足单独报错，避免误报为交易大小超限
+    const capacity = Number(tree.maxCapacity) - tree.totalMinted
+    if (capacity <= 0) {
+      if (prepared.length > 0) break
+      throw createError({
+        statusCode: 409,
+        message: `Merkle Tree「${tree.name}」已无可用叶子（已铸造 ${tree.totalMinted} / 容量 ${tree.maxCapacity}），请同步树状态或创建新树`,
+        data: { code: 'NO_AVAILABLE_TREE' },
+      })
+    }
+
+    const authority = loadTreeAuthority(tree)
+    const merkleTree = new PublicKey(tree.treeAddress)
+    const [treeConfig] = getTreeConfigPda(merkleTree)
+
+    // 1. 在大小限制内尽量多地打包 mintV1 指令（同一笔交易只使用一棵树）
+    const transaction = new Transaction()
+    transaction.recentBlockhash = blockhash
+    transaction.lastValidBlockHeight = lastValidBlockHeight
+    transaction.feePayer = payer
+
+    const packed: typeof queue = []
+    let oversize: number | null = null
+    for (const item of queue) {
+      if (packed.length >= Math.min(MAX_MINTS_PER_TRANSACTION, capacity)) break
+      const owner = new PublicKey(item.ownerAddress)
+      const metadata = createDefaultCnftMetadata(item.name || job.name, job.symbol || '', job.metadataUri || '', authority.publicKey)
+      transaction.add(createMintV1Instruction(treeConfig, owner, authority.publicKey, merkleTree, payer, authority.publicKey, metadata))
+      if (!fitsPacket(transaction)) {
+        oversize = transactionSize(transaction)
+        transaction.instructions.pop()
+        break
+      }
+      packed.push(item)
+    }
+    if (packed.length === 0) {
+      throw createError({
+        statusCode: 400,
+        message: oversize !== null
+          ? `单条铸造交易为 ${oversize} 字节，超出交易大小限制 ${PACKET_DATA_SIZE} 字节，请缩短名称或元数据 URI`
+          : '单条铸造交易无法序列化，请检查名称与元数据 URI',
+        data: { code: SolanaErrorCode.TRANSACTION_BUILD_FAILED },
+      })
+    }
+
+    // 2. 预占连续叶子并创建铸造中的 cNFT 记录（以 totalMinted 为条件，防止并发预占）
+    const startIndex = tree.totalMinted
+    const entries = await prisma.$transaction(async (tx) => {
+      const reserved = await tx.merkleTree.updateMany({
+        where: { id: tree.id, totalMinted: startIndex },
+        data: { totalMinted: startIndex + packed.length, updatedAt: new Date() },
+      })
+      if (reserved.count === 0) return null
+
+      const created = []
+      for (const [offset, item] of packed.entries()) {
+        const leafIndex = startIndex + offset
+        const cnft = await tx.compressedNft.create({
+          data: {
+            merkleTreeId: tree.id,
+            projectId: job.projectId,
+            assetId: `pending_${Date.now()}_${tree.id}_${leafIndex}`,
+            leafIndex,
+            name: item.name || job.name,
+            symbol: job.symbol,
+            metadataUri: job.metadataUri,
+            ownerAddress: item.ownerAddress,
+            delegateAddress: tree.treeAuthority,
+            status: 0,
+          },
+        })
+        await tx.cnftMintJobItem.update({
+          where: { id: item.id },
+          data: {
+            status: MintJobItemStatus.MINTING,
+            cnftId: cnft.id,
+            txSignature: null,
+            errorMessage: null,
+            attempts: { increment: 1 },
+            updatedAt: new Date(),
+          },
+        })
+        created.push({ itemId: item.id, cnftId: cnft.id, leafIndex })
+      }
+      return created
+    })
+
+    if (!entries) {
+      // 其他请求同时占用了这棵树，重新选树
+      if (++conflicts > 3) break
+      continue
+    }
+
+    // 3. 树权限部分签名并保存会话
+    transaction.partialSign(authority)
+    const sessionId = await createBatchMintSession({
+      jobId,
+      merkleTreeId: tree.id,
+      merkleTreeAddress: tree.treeAddress,
+      entries,
+      payerAddress,
+      messageHash: hashTransactionMessage(transaction),
+      network,
+    })
+
+    prepared.push({
+      sessionId,
+      transactionBase64: transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64'),
+      merkleTree: { id: tree.id.toString(), address: tree.treeAddress, name: tree.name },
+      itemIds: entries.map((e) => e.itemId.toString()),
+    })
+    queue.splice(0, packed.length)
+  }
+
+  await refreshMintJobStatus(jobId)
+  console.log(`[cNFT Batch] 任务 ${jobId} 准备交易 ${prepared.length} 笔，共 ${prepared.reduce((n, t) => n + t.itemIds.length, 0)} 个接收者`)
+  return prepared
+}
+
+// ============ 交易提交 ============
+
+/**
+ * 将一笔交易中的铸造标记为失败
+ */
+async function failBatchEntries(
+  entries: { itemId: bigint; cnftId: bigint }[],
+  message: string,
+  txSignature: string | null = null
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.compressedNft.updateMany({
+      where: { id: { in: entries.map((e) => e.cnftId) }, status: 0 },
+      data: { status: -1, ...(txSignature ? { mintTxSignature: txSignature } : {}), updatedAt: new Date() },
+    }),
+    prisma.cnftMintJobItem.updateMany({
+      where: { id: { in: entries.map((e) => e.itemId) } },
+      data: { status: MintJobItemStatus.FAILED, errorMessage: message.slice(0, 500), txSignature, updatedAt: new Date() },
+    }),
+  ])
+}
+
+/**
+ * 交易消息哈希（签名前后不变，用于确认提交的是 prepare 构建的交易）
+ */
+export function hashTransactionMessage(transaction: Transaction): string {
+  return createHash('sha256').update(transaction.serializeMessage()).digest('hex')
+}
+
+/**
+ * 发送并确认一笔已签名交易
+ */
+export async function sendAndConfirm(
+  connection: ReturnType<typeof getConnection>,
+  transaction: Transaction
+): Promise<{ txSignature: string; status: 'success' | 'failed' | 'pending'; error?: string }> {
+  const txSignature = await connection.sendRawTransaction(transaction.serialize(), {
+    skipPreflight: false,
+    preflightCommitment: 'confirmed',
+  })
+
+  try {
+    const confirmation = await connection.confirmTransaction(
+      {
+        signature: txSignature,
+        blockhash: transaction.recentBlockhash!,
+        lastValidBlockHeight: transaction.lastValidBlockHeight!,
+      },
+      'confirmed'
+    )
+    if (confirmation.value.err) {
+      return { txSignature, status: 'failed', error: JSON.stringify(confirmation.value.err) }
+    }
+    return { txSignature, status: 'success' }
+  } catch {
+    // blockhash 过期等情况，直接查询交易状态
+    await new Promise(resolve => setTimeout(resolve, 2000))
+    try {
+      const { value } = await connection.getSignatureStatus(txSignature)
+      if (value?.confirmationStatus === 'confirmed' || value?.confirmationStatus === 'finalized') {
+        return value.err
+          ? { txSignature, status: 'failed', error: JSON.stringify(value.err) }
+          : { txSignature, status: 'success' }
+      }
+    } catch (err: any) {
+      console.warn('[cNFT Batch] 无法查询交易状态:', err.message)
+    }
+    return { txSignature, status: 'pending' }
+  }
+}
+
+/**
+ * 按顺序提交已签名的批量铸造交易
+ *
+ * @param jobId - 任务 ID
+ * @param submissions - 与 prepare 返回顺序一致的已签名交易
+ */
+export async function submitMintJobBatch(
+  jobId: bigint,
+  submissions: { sessionId: string; signedTransactionBase64: string }[]
+): Promise<SubmittedBatchTransaction[]> {
+  const results: SubmittedBatchTransaction[] = []
+  // 出现失败或状态未知的树，后续交易不再发送
+  const haltedTrees = new Set<string>()
+  const releasedTrees = new Map<bigint, string>()
+
+  for (const submission of submissions) {
+    const session = await getBatchMintSession(submission.sessionId)
+    if (!session || session.jobId !== jobId) {
+      // 遗留的铸造中记录由 solana:recover 回收
+      results.push({ sessionId: submission.sessionId, status: 'expired', txSignature: null, count: 0, message: '会话已过期' })
+      continue
+    }
+
+    const count = session.entries.length
+    const finish = async (result: SubmittedBatchTransaction) => {
+      await deleteMintSession(submission.sessionId)
+      results.push(result)
+    }
+
+    if (haltedTrees.has(session.merkleTreeAddress)) {
+      const message = '同一棵树上之前的交易未成功，本笔未发送'
+      await failBatchEntries(session.entries, message)
+      releasedTrees.set(session.merkleTreeId, session.network)
+      await finish({ sessionId: submission.sessionId, status: 'skipped', txSignature: null, count, message })
+      continue
+    }
+
+    let transaction: Transaction
+    try {
+      transaction = Transaction.from(Buffer.from(submission.signedTransactionBase64, 'base64'))
+      if (!transaction.signatures.every(sig => sig.signature !== null && sig.signature.length > 0)) {
+        throw new Error('部分签名缺失')
+      }
+      // 只接受 prepare 构建的交易，避免用任意已签名交易标记铸造成功
+      if (hashTransactionMessage(transaction) !== session.messageHash) {
+        throw new Error('交易内容与准备的交易不一致')
+      }
+    } catch (err: any) {
+      const message = `无效的签名交易: ${err.message}`
+      haltedTrees.add(session.merkleTreeAddress)
+      await failBatchEntries(session.entries, message)
+      releasedTrees.set(session.merkleTreeId, session.network)
+      await finish({ sessionId: submission.sessionId, status: 'failed', txSignature: null, count, message })
+      continue
+    }
+
+    const connection = getConnection(session.network as SolanaNetwork)
+    let outcome: Awaited<ReturnType<typeof sendAndConfirm>>
+    try {
+      outcome = await sendAndConfirm(connection, transaction)
+    } catch (err: any) {
+      console.error('[cNFT Batch] 交易发送失败:', err)
+      const message = `交易发送失败: ${err.message || '未知错误'}`
+      haltedTrees.add(session.merkleTreeAddress)
+      await failBatchEntries(session.entries, message)
+      releasedTrees.set(session.merkleTreeId, session.network)
+      await finish({ sessionId: submission.sessionId, status: 'failed', txSignature: null, count, message })
+      continue
+    }
+
+    const { txSignature } = outcome
+    const merkleTree = new PublicKey(session.merkleTreeAddress)
+
+    if (outcome.status === 'failed') {
+      const message = `链上交易失败: ${outcome.error}`
+      haltedTrees.add(session.merkleTreeAddress)
+      await failBatchEntries(session.entries, message, txSignature)
+      releasedTrees.set(session.merkleTreeId, session.network)
+      await finish({ sessionId: submission.sessionId, status: 'failed', txSignature, count, message })
+      continue
+    }
+
+    // 成功或待确认：写入 assetId 与交易签名；待确认的由 solana:recover 对账
+    for (const entry of session.entries) {
+      const assetId = getAssetId(merkleTree, entry.leafIndex)[0].toBase58()
+      try {
+        const conflict = await prisma.compressedNft.findUnique({
+          where: { assetId },
+          select: { id: true, status: true },
+        })
+        if (conflict && conflict.id !== entry.cnftId && conflict.status !== 1) {
+          await prisma.compressedNft.delete({ where: { id: conflict.id } })
+        }
+        await prisma.compressedNft.update({
+          where: { id: entry.cnftId },
+          data: {
+            assetId,
+            mintTxSignature: txSignature,
+            ...(outcome.status === 'success' ? { status: 1 } : {}),
+            updatedAt: new Date(),
+          },
+        })
+      } catch (err: any) {
+        console.error(`[cNFT Batch] 更新 cNFT 记录失败: id=${entry.cnftId}`, err.message)
+      }
+    }
+    await prisma.cnftMintJobItem.updateMany({
+      where: { id: { in: session.entries.map((e) => e.itemId) } },
+      data: {
+        txSignature,
+        ...(outcome.status === 'success' ? { status: MintJobItemStatus.SUCCESS } : {}),
+        updatedAt: new Date(),
+      },
+    })
+
+    if (outcome.status === 'pending') {
+      haltedTrees.add(session.merkleTreeAddress)
+      await finish({ sessionId: submission.sessionId, status: 'pending', txSignature, count, message: '交易已发送，等待确认' })
+    } else {
+      await finish({ sessionId: submission.sessionId, status: 'success', txSignature, count })
+    }
+  }
+
+  // 释放失败交易预占的叶子
+  for (const [treeId, network] of releasedTrees) {
+    await syncTreeMintedCount(treeId, getConnection(network as SolanaNetwork))
+  }
+
+  await refreshMintJobStatus(jobId)
+  return results
+}
+
+// ============ DTO ============
+
+/**
+ * 任务 DTO
+ */
+export function mintJobToDto(
+  job: { id: bigint; projectId: bigint; network: string; name: string; symbol: string | null; metadataUri: string | null; total: number; status: number; createdAt: Date; updatedAt: Date },
+  progress: MintJobProgress | undefined,
+  projectName: string | null = null
+) {
+  return {
+    id: job.id.toString(),
+    projectId: job.projectId.toString(),
+    projectName,
+    network: job.network,
+    name: job.name,
+    symbol: job.symbol,
+    metadataUri: job.metadataUri,
+    total: job.total,
+    status: job.status,
+    progress: progress ?? { total: job.total, pending: job.total, minting: 0, success: 0, failed: 0 },
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  }
+}
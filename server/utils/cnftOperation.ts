@@ -0,0 +1,419 @@
+/**
+ * cNFT 操作模块（转移 / 销毁 / 委托）
+ *
+ * 铸造成功后的 cNFT 通过 Bubblegum 的 transfer / burn / delegate 指令管理，
+ * 与铸造相同分为 prepare / submit 两步：
+ * 1. prepare: 从 DAS 索引获取资产的 Merkle 证明，按数据库记录重建叶子校验证明，
+ *    构建指令并保存操作会话，返回交易供钱包签名
+ * 2. submit: 校验交易与会话一致后发送并确认，更新 cNFT 记录并写入变更历史（source=admin）
+ *
+ * 叶子操作需要持有者或委托者签名（委托只能由持有者签名）：
+ * - 当前钱包是持有者或委托者时，由钱包签名
+ * - 委托者是树权限时，由服务端使用树权限部分签名；
+ *   自助购买与批量铸造的凭证铸造时即委托给树权限，后台可在退款时转移或销毁；
+ *   读者转移或改委托后委托失效，只能由读者重新委托给树权限
+ */
+
+import { PublicKey, Transaction } from '@solana/web3.js'
+import { prisma } from './prisma'
+import { getConnection, type SolanaNetwork } from './solana'
+import {
+  createBurnInstruction,
+  createDefaultCnftMetadata,
+  createDelegateInstruction,
+  createTransferInstruction,
+  isValidSolanaAddress,
+  type LeafOperationArgs,
+} from './bubblegum'
+import { computeLeafHash, computeRoot, hashCnftCreators, hashCnftMetadata } from './cnftProof'
+import { getDasClient } from './das'
+import { hashTransactionMessage, loadTreeAuthority, sendAndConfirm } from './cnftBatch'
+import {
+  createCnftOperationSession,
+  deleteMintSession,
+  getCnftOperationSession,
+  getSessionExpiryMs,
+  type CnftOperationAction,
+} from './mintSession'
+import {
+  SolanaError,
+  SolanaErrorCode,
+  createSolanaHttpError,
+  isInsufficientBalanceError,
+  isRpcConnectionError,
+  isTransactionExpiredError,
+} from './solanaErrors'
+
+/** 支持的操作 */
+export const CNFT_OPERATION_ACTIONS: CnftOperationAction[] = ['transfer', 'burn', 'delegate']
+
+/** 操作名称（日志与提示） */
+const ACTION_LABELS: Record<CnftOperationAction, string> = {
+  transfer: '转移',
+  burn: '销毁',
+  delegate: '委托',
+}
+
+// ============ 类型定义 ============
+
+/**
+ * prepare 参数
+ */
+export interface PrepareCnftOperationInput {
+  /** 支付者（签名钱包）地址 */
+  payerAddress: string
+  /** 转移的新持有者 / 新委托者（等于持有者时撤销委托），销毁时不需要 */
+  targetAddress?: string | null
+}
+
+/**
+ * prepare 结果
+ */
+export interface PreparedCnftOperation {
+  sessionId: string
+  transactionBase64: string
+  /** 叶子操作的签名方：wallet=当前钱包 treeAuthority=服务端树权限 */
+  signer: 'wallet' | 'treeAuthority'
+  expiresAt: number
+}
+
+/**
+ * submit 结果
+ * - success: 已确认并更新记录
+ * - failed: 链上交易失败，记录未变化
+ * - pending: 状态未知，记录未变化，由 solana:ownership 同步
+ */
+export interface SubmittedCnftOperation {
+  status: 'success' | 'failed' | 'pending'
+  txSignature: string
+  /** 记录是否已更新（并发修改时为 false） */
+  updated: boolean
+}
+
+/**
+ * 判断是否为支持的操作
+ */
+export function isCnftOperationAction(value: unknown): value is CnftOperationAction {
+  return CNFT_OPERATION_ACTIONS.includes(value as CnftOperationAction)
+}
+
+// ============ 交易构建 ============
+
+/**
+ * 解析地址参数
+ */
+function parseAddress(value: string | null | undefined, label: string): PublicKey {
+  if (!value || !isValidSolanaAddress(value)) {
+    throw createError({
+      statusCode: 400,
+      message: `无效的${label}地址格式`,
+      data: { code: SolanaErrorCode.INVALID_ADDRESS },
+    })
+  }
+  return new PublicKey(value)
+}
+
+/**
+ * 准备 cNFT 操作交易
+ *
+ * @param cnftId - cNFT 记录 ID
+ * @param action - 操作类型
+ * @param input - 签名钱包与目标地址
+ */
+export async function prepareCnftOperation(
+  cnftId: bigint,
+  action: CnftOperationAction,
+  input: PrepareCnftOperationInput
+): Promise<PreparedCnftOperation> {
+  const cnft = await prisma.compressedNft.findUnique({
+    where: { id: cnftId },
+    include: { merkleTree: true },
+  })
+  if (!cnft) {
+    throw createError({ statusCode: 404, message: 'cNFT 不存在' })
+  }
+  if (cnft.status !== 1) {
+    throw createError({
+      statusCode: 400,
+      message: '只能操作已铸造成功且未销毁的 cNFT',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  // 1. 校验参数
+  const payer = parseAddress(input.payerAddress, '支付者')
+  const owner = new PublicKey(cnft.ownerAddress)
+  const delegate = cnft.delegateAddress ? new PublicKey(cnft.delegateAddress) : owner
+  const target = action === 'burn' ? null : parseAddress(input.targetAddress, action === 'transfer' ? '接收者' : '委托者')
+
+  if (action === 'transfer' && target!.equals(owner)) {
+    throw createError({
+      statusCode: 400,
+      message: '接收者与当前持有者相同',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+  if (action === 'delegate' && target!.equals(delegate)) {
+    throw createError({
+      statusCode: 400,
+      message: '新委托者与当前委托者相同',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+
+  // 2. 确定叶子操作的签名方（委托只能由持有者签名）
+  const authorities = action === 'delegate' ? [owner] : [owner, delegate]
+  const treeAuthority = new PublicKey(cnft.merkleTree.treeAuthority)
+  let signer: PublicKey
+  if (authorities.some((a) => a.equals(payer))) {
+    signer = payer
+  } else if (authorities.some((a) => a.equals(treeAuthority))) {
+    signer = treeAuthority
+  } else {
+    throw createError({
+      statusCode: 403,
+      message: action === 'delegate'
+        ? '委托需要持有者签名，当前钱包不是该 cNFT 的持有者'
+        : '当前钱包不是该 cNFT 的持有者或委托者，且未委托给树权限',
+      data: { code: 'LEAF_AUTHORITY_REQUIRED' },
+    })
+  }
+
+  // 3. 获取 Merkle 证明
+  const network = cnft.merkleTree.network as SolanaNetwork
+  let assetProof
+  try {
+    assetProof = await getDasClient(network).getAssetProof(cnft.assetId)
+  } catch (err: any) {
+    console.error('[cNFT Operation] 获取资产证明失败:', err)
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, err.message, 503)
+    )
+  }
+  if (!assetProof || assetProof.tree !== cnft.merkleTree.treeAddress) {
+    throw createError({
+      statusCode: 400,
+      message: '索引中未找到该资产的 Merkle 证明',
+      data: { code: 'ASSET_PROOF_NOT_FOUND' },
+    })
+  }
+
+  // 4. 按记录重建叶子并校验证明，持有者或委托者与链上不一致时交易必然失败
+  const metadata = createDefaultCnftMetadata(cnft.name, cnft.symbol || '', cnft.metadataUri || '', treeAuthority)
+  const leaf = computeLeafHash({
+    assetId: new PublicKey(cnft.assetId),
+    owner,
+    delegate,
+    nonce: cnft.leafIndex,
+    metadata,
+  })
+  const proof = assetProof.proof.map((node) => new PublicKey(node))
+  const root = new PublicKey(assetProof.root)
+  if (!computeRoot(leaf, cnft.leafIndex, proof.map((p) => p.toBuffer())).equals(root.toBuffer())) {
+    throw createError({
+      statusCode: 409,
+      message: '链上持有者或委托者与记录不一致，请先同步持有者',
+      data: { code: 'OWNER_MISMATCH' },
+    })
+  }
+
+  // 5. 构建指令（树冠已缓存的上层节点不需要传入）
+  const args: LeafOperationArgs = {
+    root: root.toBuffer(),
+    dataHash: hashCnftMetadata(metadata),
+    creatorHash: hashCnftCreators(metadata.creators),
+    nonce: cnft.leafIndex,
+    index: cnft.leafIndex,
+    proof: proof.slice(0, Math.max(0, proof.length - cnft.merkleTree.canopyDepth)),
+  }
+  const merkleTree = new PublicKey(cnft.merkleTree.treeAddress)
+  const instruction = action === 'transfer'
+    ? createTransferInstruction(merkleTree, owner, delegate, target!, signer, args)
+    : action === 'burn'
+      ? createBurnInstruction(merkleTree, owner, delegate, signer, args)
+      : createDelegateInstruction(merkleTree, owner, delegate, target!, args)
+
+  let transactionBase64: string
+  let messageHash: string
+  try {
+    const connection = getConnection(network)
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+    const transaction = new Transaction().add(instruction)
+    transaction.recentBlockhash = blockhash
+    transaction.lastValidBlockHeight = lastValidBlockHeight
+    transaction.feePayer = payer
+
+    // 委托者为树权限时由服务端部分签名
+    if (!signer.equals(payer)) {
+      transaction.partialSign(loadTreeAuthority(cnft.merkleTree))
+    }
+
+    transactionBase64 = transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64')
+    messageHash = hashTransactionMessage(transaction)
+  } catch (err: any) {
+    console.error('[cNFT Operation] 构建交易失败:', err)
+    if (isRpcConnectionError(err)) {
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, undefined, 503)
+      )
+    }
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.TRANSACTION_BUILD_FAILED, err.message, 500)
+    )
+  }
+
+  // 6. 保存会话
+  const sessionId = await createCnftOperationSession({
+    cnftId: cnft.id,
+    action,
+    ownerAddress: cnft.ownerAddress,
+    targetAddress: target ? target.toBase58() : null,
+    payerAddress: input.payerAddress,
+    messageHash,
+    network,
+  })
+
+  console.log(`[cNFT Operation] 准备${ACTION_LABELS[action]}交易: cnft=${cnft.id}, asset=${cnft.assetId}, session=${sessionId.substring(0, 8)}...`)
+
+  return {
+    sessionId,
+    transactionBase64,
+    signer: signer.equals(payer) ? 'wallet' : 'treeAuthority',
+    expiresAt: Date.now() + getSessionExpiryMs(),
+  }
+}
+
+// ============ 交易提交 ============
+
+/**
+ * 按操作更新 cNFT 记录并写入变更历史
+ * 以会话中的持有者为条件更新，避免覆盖并发的同步或操作
+ *
+ * @returns 是否已更新
+ */
+async function applyCnftOperation(
+  session: { cnftId: bigint; action: CnftOperationAction; ownerAddress: string; targetAddress: string | null },
+  txSignature: string
+): Promise<boolean> {
+  const now = new Date()
+  const data = session.action === 'transfer'
+    // 转移后委托者重置为新持有者
+    ? { ownerAddress: session.targetAddress!, delegateAddress: null }
+    : session.action === 'burn'
+      ? { status: 2 }
+      : { delegateAddress: session.targetAddress === session.ownerAddress ? null : session.targetAddress }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.compressedNft.updateMany({
+      where: { id: session.cnftId, status: 1, ownerAddress: session.ownerAddress },
+      data: { ...data, ownerSyncedAt: now, updatedAt: now },
+    })
+    if (updated.count === 0) return false
+    await tx.cnftTransfer.create({
+      data: {
+        cnftId: session.cnftId,
+        event: session.action,
+        fromAddress: session.ownerAddress,
+        toAddress: session.targetAddress,
+        source: 'admin',
+        txSignature,
+      },
+    })
+    return true
+  })
+}
+
+/**
+ * 提交已签名的 cNFT 操作交易
+ *
+ * @param cnftId - cNFT 记录 ID（需与会话一致）
+ * @param action - 操作类型（需与会话一致）
+ * @param sessionId - prepare 返回的会话 ID
+ * @param signedTransactionBase64 - 钱包签名后的交易
+ */
+export async function submitCnftOperation(
+  cnftId: bigint,
+  action: CnftOperationAction,
+  sessionId: string,
+  signedTransactionBase64: string
+): Promise<SubmittedCnftOperation> {
+  const session = await getCnftOperationSession(sessionId)
+  if (!session || session.cnftId !== cnftId || session.action !== action) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SESSION_EXPIRED, '操作会话已过期，请重新发起', 400)
+    )
+  }
+
+  let transaction: Transaction
+  try {
+    transaction = Transaction.from(Buffer.from(signedTransactionBase64, 'base64'))
+  } catch (err: any) {
+    console.error('[cNFT Operation] 交易反序列化失败:', err)
+    throw createError({
+      statusCode: 400,
+      message: '无效的交易数据格式',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+  if (!transaction.signatures.every(sig => sig.signature !== null && sig.signature.length > 0)) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SIGNATURE_INVALID, '部分签名缺失', 400)
+    )
+  }
+  // 只接受 prepare 构建的交易，避免用任意已签名交易修改记录
+  if (hashTransactionMessage(transaction) !== session.messageHash) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SIGNATURE_INVALID, '交易内容与操作会话不一致', 400)
+    )
+  }
+
+  const connection = getConnection(session.network as SolanaNetwork)
+  let outcome: Awaited<ReturnType<typeof sendAndConfirm>>
+  try {
+    outcome = await sendAndConfirm(connection, transaction)
+  } catch (err: any) {
+    console.error('[cNFT Operation] 交易发送失败:', err)
+    if (isInsufficientBalanceError(err)) {
+      throw createError({
+        statusCode: 400,
+        message: '钱包余额不足，请确保有足够的 SOL 支付交易费',
+        data: { code: SolanaErrorCode.INSUFFICIENT_BALANCE },
+      })
+    }
+    if (isTransactionExpiredError(err)) {
+      await deleteMintSession(sessionId)
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.TRANSACTION_EXPIRED, '交易已过期，请重新发起', 400)
+      )
+    }
+    if (isRpcConnectionError(err)) {
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, undefined, 503)
+      )
+    }
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.TRANSACTION_SEND_FAILED, err.message || '', 500)
+    )
+  }
+
+  await deleteMintSession(sessionId)
+  const label = ACTION_LABELS[action]
+
+  if (outcome.status !== 'success') {
+    if (outcome.status === 'failed') {
+      console.error(`[cNFT Operation] ${label}交易失败: cnft=${cnftId}, tx=${outcome.txSignature}, ${outcome.error}`)
+    }
+    return { status: outcome.status, txSignature: outcome.txSignature, updated: false }
+  }
+
+  let updated = false
+  try {
+    updated = await applyCnftOperation(session, outcome.txSignature)
+  } catch (err: any) {
+    // 交易已成功，记录由 solana:ownership 同步修正
+    console.error('[cNFT Operation] 更新 cNFT 记录失败:', err.message)
+  }
+
+  console.log(`[cNFT Operation] ${label}成功: cnft=${cnftId}, ${session.ownerAddress} -> ${session.targetAddress ?? '-'}, tx=${outcome.txSignature}${updated ? '' : '（记录已被并发修改，未更新）'}`)
+  return { status: 'success', txSignature: outcome.txSignature, updated }
+}
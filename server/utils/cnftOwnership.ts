@@ -0,0 +1,267 @@
+/**
+ * cNFT 持有者同步模块
+ *
+ * compressed_nft.owner_address 在铸造时写入，之后链上的转移与销毁不会反映到数据库，
+ * 导致受让人无法阅读、原持有者仍保留权限。
+ *
+ * 本模块通过 DAS 索引（见 das.ts）查询每个资产的当前状态：
+ * - 持有者变化：更新 ownerAddress 并记录转移历史（委托地址同时更新）
+ * - 已销毁：标记 status=2 并记录销毁历史
+ * - 索引中不存在：保持原状（索引可能尚未收录），下次再查
+ *
+ * 由 solana:ownership 定时任务按同步时间轮询，也可以按项目或钱包手动触发。
+ */
+
+import { prisma } from './prisma'
+import type { SolanaNetwork } from './solana'
+import { DAS_MAX_PAGE_LIMIT, getDasClient, type DasAsset } from './das'
+
+/** 单次默认最多同步的记录数 */
+const DEFAULT_SYNC_LIMIT = 200
+
+/** 按钱包同步时最多翻页数 */
+const MAX_OWNER_PAGES = 10
+
+// ============ 类型定义 ============
+
+/** 同步选项 */
+export interface OwnershipSyncOptions {
+  /** 只同步指定项目 */
+  projectId?: bigint
+  /** 只同步指定网络 */
+  network?: SolanaNetwork
+  /** 最多同步的记录数 */
+  limit?: number
+  /** 只检查不写库 */
+  dryRun?: boolean
+}
+
+/** 单条记录的变化 */
+export interface OwnershipChange {
+  id: string
+  assetId: string
+  /** transferred=持有者变化 burned=已销毁 missing=索引中不存在 error=查询失败 */
+  action: 'transferred' | 'burned' | 'missing' | 'error'
+  from: string
+  to: string | null
+  reason?: string
+}
+
+/** 同步报告 */
+export interface OwnershipSyncReport {
+  dryRun: boolean
+  /** 检查的记录数 */
+  checked: number
+  /** 未变化的记录数 */
+  unchanged: number
+  /** 有变化或无法确认的记录 */
+  changes: OwnershipChange[]
+}
+
+/** 参与同步的 cNFT 记录 */
+interface SyncTarget {
+  id: bigint
+  assetId: string
+  ownerAddress: string
+}
+
+// ============ 同步 ============
+
+/**
+ * 记录中的委托地址（委托给持有者自己视为未委托）
+ */
+function delegateOf(asset: DasAsset): string | null {
+  return asset.delegate && asset.delegate !== asset.owner ? asset.delegate : null
+}
+
+/**
+ * 按索引中的资产状态更新一条记录
+ * 以读取时的 ownerAddress 为条件更新，避免覆盖并发的后台操作
+ *
+ * @returns 有变化时返回变化描述，未变化或记录已被并发修改时返回 null
+ */
+async function applyAssetState(cnft: SyncTarget, asset: DasAsset, dryRun: boolean): Promise<OwnershipChange | null> {
+  const now = new Date()
+  const base = { id: cnft.id.toString(), assetId: cnft.assetId, from: cnft.ownerAddress }
+
+  if (asset.burnt) {
+    if (!dryRun) {
+      const applied = await prisma.$transaction(async (tx) => {
+        const updated = await tx.compressedNft.updateMany({
+          where: { id: cnft.id, status: 1, ownerAddress: cnft.ownerAddress },
+          data: { status: 2, ownerSyncedAt: now, updatedAt: now },
+        })
+        if (updated.count === 0) return false
+        await tx.cnftTransfer.create({
+          data: { cnftId: cnft.id, event: 'burn', fromAddress: cnft.ownerAddress, toAddress: null },
+        })
+        return true
+      })
+      // 记录已被其他操作修改
+      if (!applied) return null
+    }
+    return { ...base, action: 'burned', to: null }
+  }
+
+  if (asset.owner && asset.owner !== cnft.ownerAddress) {
+    if (!dryRun) {
+      const applied = await prisma.$transaction(async (tx) => {
+        const updated = await tx.compressedNft.updateMany({
+          where: { id: cnft.id, status: 1, ownerAddress: cnft.ownerAddress },
+          data: { ownerAddress: asset.owner, delegateAddress: delegateOf(asset), ownerSyncedAt: now, updatedAt: now },
+        })
+        if (updated.count === 0) return false
+        await tx.cnftTransfer.create({
+          data: { cnftId: cnft.id, event: 'transfer', fromAddress: cnft.ownerAddress, toAddress: asset.owner },
+        })
+        return true
+      })
+      if (!applied) return null
+    }
+    return { ...base, action: 'transferred', to: asset.owner }
+  }
+
+  if (!dryRun) {
+    await prisma.compressedNft.update({
+      where: { id: cnft.id },
+      data: { delegateAddress: delegateOf(asset), ownerSyncedAt: now },
+    })
+  }
+  return null
+}
+
+/**
+ * 逐个查询资产并同步
+ */
+async function syncTargets(
+  targets: SyncTarget[],
+  network: SolanaNetwork,
+  dryRun: boolean,
+  known: Map<string, DasAsset> = new Map()
+): Promise<OwnershipSyncReport> {
+  const client = getDasClient(network)
+  const report: OwnershipSyncReport = { dryRun, checked: 0, unchanged: 0, changes: [] }
+
+  for (const cnft of targets) {
+    report.checked++
+
+    let asset = known.get(cnft.assetId) ?? null
+    if (!asset) {
+      try {
+        asset = await client.getAsset(cnft.assetId)
+      } catch (err: any) {
+        report.changes.push({ id: cnft.id.toString(), assetId: cnft.assetId, action: 'error', from: cnft.ownerAddress, to: null, reason: err.message })
+        continue
+      }
+    }
+
+    if (!asset) {
+      report.changes.push({ id: cnft.id.toString(), assetId: cnft.assetId, action: 'missing', from: cnft.ownerAddress, to: null, reason: '索引中未找到资产' })
+      continue
+    }
+
+    const change = await applyAssetState(cnft, asset, dryRun)
+    if (change) {
+      report.changes.push(change)
+    } else {
+      report.unchanged++
+    }
+  }
+
+  return report
+}
+
+/**
+ * 合并多个网络的同步报告
+ */
+function mergeReports(dryRun: boolean, reports: OwnershipSyncReport[]): OwnershipSyncReport {
+  return {
+    dryRun,
+    checked: reports.reduce((sum, r) => sum + r.checked, 0),
+    unchanged: reports.reduce((sum, r) => sum + r.unchanged, 0),
+    changes: reports.flatMap((r) => r.changes),
+  }
+}
+
+/**
+ * 同步 cNFT 持有者
+ * 优先处理从未同步或最早同步的记录
+ */
+export async function syncCnftOwnership(options: OwnershipSyncOptions = {}): Promise<OwnershipSyncReport> {
+  const { projectId, network, limit = DEFAULT_SYNC_LIMIT, dryRun = false } = options
+
+  const cnfts = await prisma.compressedNft.findMany({
+    where: {
+      status: 1,
+      ...(projectId ? { projectId } : {}),
+      ...(network ? { merkleTree: { network } } : {}),
+    },
+    select: { id: true, assetId: true, ownerAddress: true, merkleTree: { select: { network: true } } },
+    orderBy: [{ ownerSyncedAt: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }],
+    take: limit,
+  })
+
+  // 按网络分组，各自使用对应的索引客户端
+  const groups = new Map<SolanaNetwork, SyncTarget[]>()
+  for (const cnft of cnfts) {
+    const key = cnft.merkleTree.network as SolanaNetwork
+    const group = groups.get(key) ?? []
+    group.push(cnft)
+    groups.set(key, group)
+  }
+
+  const reports: OwnershipSyncReport[] = []
+  for (const [key, targets] of groups) {
+    reports.push(await syncTargets(targets, key, dryRun))
+  }
+  return mergeReports(dryRun, reports)
+}
+
+/**
+ * 按钱包同步持有者
+ *
+ * 通过 getAssetsByOwner 找出钱包当前持有、但数据库记录为他人持有的 cNFT（转入），
+ * 并逐个核对数据库记录为该钱包持有、但索引中已不在名下的 cNFT（转出或销毁）。
+ */
+export async function syncOwnerAssets(
+  ownerAddress: string,
+  network: SolanaNetwork,
+  options: Pick<OwnershipSyncOptions, 'projectId' | 'dryRun'> = {}
+): Promise<OwnershipSyncReport> {
+  const { projectId, dryRun = false } = options
+  const client = getDasClient(network)
+
+  // 1. 读取钱包在索引中的全部资产
+  const owned = new Map<string, DasAsset>()
+  for (let page = 1; page <= MAX_OWNER_PAGES; page++) {
+    const result = await client.getAssetsByOwner(ownerAddress, page, DAS_MAX_PAGE_LIMIT)
+    for (const asset of result.items) owned.set(asset.assetId, asset)
+    if (result.items.length < DAS_MAX_PAGE_LIMIT) break
+  }
+
+  const scope = {
+    status: 1,
+    merkleTree: { network },
+    ...(projectId ? { projectId } : {}),
+  }
+  const select = { id: true, assetId: true, ownerAddress: true }
+
+  // 2. 转入：索引中属于该钱包的本系统 cNFT
+  const incoming = owned.size > 0
+    ? await prisma.compressedNft.findMany({
+        where: { ...scope, assetId: { in: [...owned.keys()] }, ownerAddress: { not: ownerAddress } },
+        select,
+      })
+    : []
+
+  // 3. 转出：数据库记录为该钱包持有、但不在索引结果中
+  const recorded = await prisma.compressedNft.findMany({
+    where: { ...scope, ownerAddress },
+    select,
+  })
+  const outgoing = recorded.filter((c) => !owned.has(c.assetId))
+  const unchanged = recorded.length - outgoing.length
+
+  const report = await syncTargets([...incoming, ...outgoing], network, dryRun, owned)
+  return { ...report, checked: report.checked + unchanged, unchanged: report.unchanged + unchanged }
+}
@@ -0,0 +1,312 @@
+/**
+ * cNFT 持有证明校验模块
+ *
+ * 不依赖 DAS 索引，直接用链上并发 Merkle Tree 校验持有关系：
+ * 1. 按数据库中的铸造数据（名称、符号、URI、树权限创建者、叶子索引）重建 Bubblegum 叶子哈希
+ * 2. 钱包提供的证明可以省略树冠（canopy）已缓存的上层节点，按链上树冠补齐
+ * 3. 沿证明计算根，与链上当前根或变更日志中的近期根比对；
+ *    匹配到旧根时，要求此后没有修改过该叶子，避免转移前的旧证明继续有效
+ *
+ * 树账户数据默认从 RPC 读取，也可以直接传入账户字节（离线校验、固定数据测试）。
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  ConcurrentMerkleTreeAccount,
+  emptyNode,
+  hash,
+} from '@solana/spl-account-compression'
+import { prisma } from './prisma'
+import { getConnection, type SolanaNetwork } from './solana'
+import { createDefaultCnftMetadata, getAssetId, serializeCnftMetadata, type CnftMetadata } from './bubblegum'
+
+/** Bubblegum LeafSchema 版本（V1） */
+const LEAF_SCHEMA_V1 = 1
+
+/** 节点字节长度 */
+const NODE_SIZE = 32
+
+// ============ 类型定义 ============
+
+/**
+ * 校验所需的树状态快照
+ */
+export interface TreeSnapshot {
+  /** 树深度 */
+  maxDepth: number
+  /** 变更日志（从新到旧）：修改后的根与被修改的叶子索引 */
+  changeLogs: { root: Buffer; index: number }[]
+  /** 树冠节点字节 */
+  canopyBytes: Buffer
+}
+
+/**
+ * 叶子数据
+ */
+export interface LeafInput {
+  /** 资产 ID */
+  assetId: PublicKey
+  /** 持有者 */
+  owner: PublicKey
+  /** 委托者（未委托时等于持有者） */
+  delegate: PublicKey
+  /** 叶子序号（mintV1 时等于叶子索引） */
+  nonce: number
+  /** 铸造时的元数据 */
+  metadata: CnftMetadata
+}
+
+/**
+ * 证明校验结果
+ * - PROOF_TOO_LONG / PROOF_TOO_SHORT: 证明节点数与树深度不符
+ * - ROOT_MISMATCH: 计算出的根不在链上近期根中（叶子数据或证明错误）
+ * - STALE_PROOF: 匹配到旧根，但该叶子此后已被修改（转移、销毁等）
+ */
+export type ProofFailureReason = 'PROOF_TOO_LONG' | 'PROOF_TOO_SHORT' | 'ROOT_MISMATCH' | 'STALE_PROOF'
+
+export interface ProofVerifyResult {
+  valid: boolean
+  reason: ProofFailureReason | null
+  /** 计算出的根（Base58） */
+  root: string
+}
+
+// ============ 叶子哈希 ============
+
+/**
+ * keccak256（与链上 keccak::hashv 一致，拼接后哈希）
+ */
+function keccak256(...parts: Buffer[]): Buffer {
+  return hash(Buffer.concat(parts), Buffer.alloc(0))
+}
+
+/**
+ * 计算元数据哈希（data_hash）
+ * keccak(keccak(MetadataArgs) || seller_fee_basis_points)
+ */
+export function hashCnftMetadata(metadata: CnftMetadata): Buffer {
+  const sellerFee = Buffer.alloc(2)
+  sellerFee.writeUInt16LE(metadata.sellerFeeBasisPoints)
+  return keccak256(keccak256(serializeCnftMetadata(metadata)), sellerFee)
+}
+
+/**
+ * 计算创建者哈希（creator_hash）
+ */
+export function hashCnftCreators(creators: CnftMetadata['creators']): Buffer {
+  return keccak256(
+    ...creators.map((c) => Buffer.concat([c.address.toBuffer(), Buffer.from([c.verified ? 1 : 0, c.share])]))
+  )
+}
+
+/**
+ * 计算 Bubblegum 叶子哈希（LeafSchema V1）
+ */
+export function computeLeafHash(leaf: LeafInput): Buffer {
+  const nonce = Buffer.alloc(8)
+  nonce.writeBigUInt64LE(BigInt(leaf.nonce))
+  return keccak256(
+    Buffer.from([LEAF_SCHEMA_V1]),
+    leaf.assetId.toBuffer(),
+    leaf.owner.toBuffer(),
+    leaf.delegate.toBuffer(),
+    nonce,
+    hashCnftMetadata(leaf.metadata),
+    hashCnftCreators(leaf.metadata.creators)
+  )
+}
+
+// ============ 树状态 ============
+
+/**
+ * 从树账户数据读取校验所需的快照
+ */
+export function readTreeSnapshot(accountData: Buffer): TreeSnapshot {
+  const account = ConcurrentMerkleTreeAccount.fromBuffer(accountData)
+  const maxBufferSize = account.getMaxBufferSize()
+  const bufferSize = account.getBufferSize()
+  const activeIndex = account.getCurrentBufferIndex()
+
+  const changeLogs: TreeSnapshot['changeLogs'] = []
+  for (let i = 0; i < bufferSize; i++) {
+    const log = account.tree.changeLogs[(activeIndex - i + maxBufferSize) % maxBufferSize]
+    if (log) changeLogs.push({ root: log.root.toBuffer(), index: log.index })
+  }
+
+  return {
+    maxDepth: account.getMaxDepth(),
+    changeLogs,
+    canopyBytes: Buffer.from(account.canopy.canopyBytes),
+  }
+}
+
+/**
+ * 从 RPC 读取树快照
+ * @returns 树账户不存在时返回 null
+ */
+export async function fetchTreeSnapshot(connection: Connection, treeAddress: string): Promise<TreeSnapshot | null> {
+  const info = await connection.getAccountInfo(new PublicKey(treeAddress))
+  return info ? readTreeSnapshot(info.data) : null
+}
+
+// ============ 证明校验 ============
+
+/**
+ * 按链上树冠补齐证明（与 spl-account-compression 的 fill_in_proof_from_canopy 一致）
+ */
+export function fillProofFromCanopy(proof: Buffer[], leafIndex: number, maxDepth: number, canopyBytes: Buffer): Buffer[] {
+  const canopyNodes = canopyBytes.length / NODE_SIZE
+  if (canopyNodes === 0) return [...proof]
+
+  const canopyDepth = Math.log2(canopyNodes + 2) - 1
+  const inferred: Buffer[] = []
+
+  // 当前路径与树冠最底层的交点（以 1 为根的堆式编号）
+  let nodeIndex = Math.floor((2 ** maxDepth + leafIndex) / 2 ** (maxDepth - canopyDepth))
+  while (nodeIndex > 1) {
+    const shifted = nodeIndex - 2
+    const siblingIndex = shifted % 2 === 0 ? shifted + 1 : shifted - 1
+    const sibling = canopyBytes.subarray(siblingIndex * NODE_SIZE, (siblingIndex + 1) * NODE_SIZE)
+    if (sibling.every((b) => b === 0)) {
+      // 未写入的树冠节点为对应高度的空子树
+      inferred.push(emptyNode(maxDepth - Math.floor(Math.log2(nodeIndex))))
+    } else {
+      inferred.push(Buffer.from(sibling))
+    }
+    nodeIndex = Math.floor(nodeIndex / 2)
+  }
+
+  const overlap = Math.max(0, proof.length + inferred.length - maxDepth)
+  return [...proof, ...inferred.slice(overlap)]
+}
+
+/**
+ * 沿证明计算根
+ */
+export function computeRoot(leaf: Buffer, leafIndex: number, proof: Buffer[]): Buffer {
+  let node = leaf
+  proof.forEach((sibling, level) => {
+    node = Math.floor(leafIndex / 2 ** level) % 2 === 0 ? hash(node, sibling) : hash(sibling, node)
+  })
+  return node
+}
+
+/**
+ * 校验叶子与证明是否与树状态一致
+ *
+ * @param leaf - 叶子哈希
+ * @param leafIndex - 叶子索引
+ * @param proof - 证明节点（从叶子向上，可省略树冠已缓存的节点）
+ * @param snapshot - 树状态快照
+ */
+export function verifyLeafProof(leaf: Buffer, leafIndex: number, proof: Buffer[], snapshot: TreeSnapshot): ProofVerifyResult {
+  if (proof.length > snapshot.maxDepth) {
+    return { valid: false, reason: 'PROOF_TOO_LONG', root: '' }
+  }
+
+  const fullProof = fillProofFromCanopy(proof, leafIndex, snapshot.maxDepth, snapshot.canopyBytes)
+  if (fullProof.length < snapshot.maxDepth) {
+    return { valid: false, reason: 'PROOF_TOO_SHORT', root: '' }
+  }
+
+  const root = computeRoot(leaf, leafIndex, fullProof)
+  const rootBase58 = new PublicKey(root).toBase58()
+
+  // 从新到旧比对；越过修改过该叶子的日志后，更旧的根不再代表当前叶子
+  for (const log of snapshot.changeLogs) {
+    if (log.root.equals(root)) {
+      return { valid: true, reason: null, root: rootBase58 }
+    }
+    if (log.index === leafIndex) {
+      return { valid: false, reason: 'STALE_PROOF', root: rootBase58 }
+    }
+  }
+
+  return { valid: false, reason: 'ROOT_MISMATCH', root: rootBase58 }
+}
+
+// ============ 按记录校验 ============
+
+/**
+ * 解析证明节点（Base58 或 Base64 编码的 32 字节）
+ * @returns 格式无效时返回 null
+ */
+export function parseProofNodes(proof: unknown): Buffer[] | null {
+  if (!Array.isArray(proof)) return null
+  const nodes: Buffer[] = []
+  for (const item of proof) {
+    if (typeof item !== 'string') return null
+    try {
+      nodes.push(new PublicKey(item).toBuffer())
+    } catch {
+      const bytes = Buffer.from(item, 'base64')
+      if (bytes.length !== NODE_SIZE) return null
+      nodes.push(bytes)
+    }
+  }
+  return nodes
+}
+
+/**
+ * 持有证明校验参数
+ */
+export interface CnftOwnershipProofInput {
+  /** 资产 ID */
+  assetId: string
+  /** 声称的持有者 */
+  ownerAddress: string
+  /** 委托者（缺省使用记录中的委托者，持有者变化时等于持有者） */
+  delegateAddress?: string | null
+  /** 证明节点 */
+  proof: Buffer[]
+}
+
+/**
+ * 按数据库中的铸造数据校验钱包对 cNFT 的持有证明
+ *
+ * @param input - 证明参数
+ * @param accountData - 树账户数据（缺省从树所在网络的 RPC 读取）
+ * @returns 记录不存在、状态非正常或树账户不存在时返回 null
+ */
+export async function verifyCnftOwnershipProof(
+  input: CnftOwnershipProofInput,
+  accountData?: Buffer
+): Promise<(ProofVerifyResult & { cnftId: bigint; ownerAddress: string }) | null> {
+  const cnft = await prisma.compressedNft.findUnique({
+    where: { assetId: input.assetId },
+    include: { merkleTree: { select: { treeAddress: true, treeAuthority: true, network: true } } },
+  })
+  if (!cnft || cnft.status !== 1) return null
+
+  const merkleTree = new PublicKey(cnft.merkleTree.treeAddress)
+  const [assetId] = getAssetId(merkleTree, cnft.leafIndex)
+  const owner = new PublicKey(input.ownerAddress)
+
+  const leaf = computeLeafHash({
+    assetId,
+    owner,
+    delegate: input.delegateAddress
+      ? new PublicKey(input.delegateAddress)
+      : cnft.delegateAddress && cnft.ownerAddress === input.ownerAddress
+        ? new PublicKey(cnft.delegateAddress)
+        : owner,
+    nonce: cnft.leafIndex,
+    metadata: createDefaultCnftMetadata(
+      cnft.name,
+      cnft.symbol || '',
+      cnft.metadataUri || '',
+      new PublicKey(cnft.merkleTree.treeAuthority)
+    ),
+  })
+
+  const snapshot = accountData
+    ? readTreeSnapshot(accountData)
+    : await fetchTreeSnapshot(getConnection(cnft.merkleTree.network as SolanaNetwork), cnft.merkleTree.treeAddress)
+  if (!snapshot) return null
+
+  return {
+    ...verifyLeafProof(leaf, cnft.leafIndex, input.proof, snapshot),
+    cnftId: cnft.id,
+    ownerAddress: cnft.ownerAddress,
+  }
+}
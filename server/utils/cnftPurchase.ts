@@ -0,0 +1,609 @@
+/**
+ * cNFT 自助购买模块
+ *
+ * 读者为 requireAuth 项目付费购买阅读凭证，款项直接转入版权方钱包：
+ * 1. prepare: 锁定售卖配置行，校验开放状态、发售上限与重复购买，选树并预占叶子，
+ *    创建铸造中的 cNFT 记录与购买记录；构建同一笔交易：
+ *    SystemProgram.transfer（购买者 → 收款钱包）+ Bubblegum mintV1（接收者为购买者，委托给树权限以便退款时撤销），
+ *    由树权限部分签名，交易消息哈希保存在购买会话中
+ * 2. 读者钱包签名（购买者同时是付款方与手续费支付者）
+ * 3. submit: 校验交易消息未被替换，发送并确认，再从链上交易中核对付款
+ *    （购买者向收款钱包转账不少于价格）后才标记铸造完成与购买完成
+ *
+ * 付款与铸造在同一笔交易中，要么都成功、要么都失败。
+ * 交易状态未知时记录保持处理中，由 solana:recover 对账 cNFT，
+ * 购买记录在下次查询时按 cNFT 状态同步（铸造成功的同样核对付款）。
+ */
+
+import { Connection, PublicKey, SystemProgram, Transaction } from '@solana/web3.js'
+import { prisma } from './prisma'
+import { getConnection, type SolanaNetwork } from './solana'
+import { selectAvailableTree } from './treeSelector'
+import {
+  createDefaultCnftMetadata,
+  createMintV1Instruction,
+  getAssetId,
+  getTreeConfigPda,
+  isValidSolanaAddress,
+} from './bubblegum'
+import { hashTransactionMessage, loadTreeAuthority, sendAndConfirm } from './cnftBatch'
+import { hasProjectCnft } from './noteAccess'
+import { createPurchaseSession, deleteMintSession, getPurchaseSession, getSessionExpiryMs, type PurchaseSession } from './mintSession'
+import { syncTreeMintedCount } from './solanaRecovery'
+import {
+  SolanaError,
+  SolanaErrorCode,
+  createSolanaHttpError,
+  isInsufficientBalanceError,
+  isRpcConnectionError,
+  isTransactionExpiredError,
+} from './solanaErrors'
+
+/** 选树冲突时最多重试次数 */
+const MAX_TREE_CONFLICTS = 3
+
+// ============ 类型定义 ============
+
+/** 购买状态 */
+export const PurchaseStatus = {
+  PENDING: 0,     // 处理中
+  COMPLETED: 1,   // 已完成
+  FAILED: -1,     // 失败
+} as const
+
+/**
+ * 付款核对结果
+ * - verified: 交易成功且包含足额转账
+ * - mismatch: 交易失败或不包含足额转账
+ * - unavailable: 暂时查询不到交易
+ */
+export type PaymentCheck = 'verified' | 'mismatch' | 'unavailable'
+
+/**
+ * prepare 结果
+ */
+export interface PreparedPurchase {
+  sessionId: string
+  purchaseId: string
+  transactionBase64: string
+  priceLamports: string
+  receiverAddress: string
+  expiresAt: number
+}
+
+/**
+ * submit 结果
+ * - success: 付款已核对，cNFT 铸造完成
+ * - failed: 交易失败或付款核对不通过，未扣款时可重新购买
+ * - pending: 交易状态未知，等待对账
+ */
+export interface SubmittedPurchase {
+  status: 'success' | 'failed' | 'pending'
+  txSignature: string | null
+  assetId: string | null
+  message?: string
+}
+
+// ============ 状态同步 ============
+
+/**
+ * 按 cNFT 状态同步处理中的购买记录
+ * cNFT 已由 solana:recover 对账或提交后未确认时调用；铸造成功的核对付款后才标记完成
+ */
+export async function syncPendingPurchases(where: { saleId?: bigint; buyerAddress?: string } = {}): Promise<void> {
+  const purchases = await prisma.cnftPurchase.findMany({
+    where: { ...where, status: PurchaseStatus.PENDING },
+    include: { sale: { select: { network: true } } },
+  })
+  if (purchases.length === 0) return
+
+  const cnftIds = purchases.map((p) => p.cnftId).filter((id): id is bigint => id !== null)
+  const cnfts = await prisma.compressedNft.findMany({
+    where: { id: { in: cnftIds } },
+    select: { id: true, status: true, mintTxSignature: true },
+  })
+  const cnftMap = new Map(cnfts.map((c) => [c.id, c]))
+
+  for (const purchase of purchases) {
+    const cnft = purchase.cnftId !== null ? cnftMap.get(purchase.cnftId) : undefined
+    if (cnft?.status === 0) continue
+
+    if (cnft?.status === 1 && cnft.mintTxSignature) {
+      let check: PaymentCheck
+      try {
+        check = await checkPurchasePayment(
+          getConnection(purchase.sale.network as SolanaNetwork),
+          cnft.mintTxSignature,
+          purchase
+        )
+      } catch (err: any) {
+        console.warn(`[cNFT Purchase] 核对付款失败: purchase=${purchase.id}`, err.message)
+        continue
+      }
+      if (check === 'unavailable') continue
+      if (check === 'verified') {
+        await prisma.cnftPurchase.update({
+          where: { id: purchase.id },
+          data: { status: PurchaseStatus.COMPLETED, txSignature: cnft.mintTxSignature, errorMessage: null, updatedAt: new Date() },
+        })
+        continue
+      }
+      console.error(`[cNFT Purchase] 付款核对不通过，需人工核对: purchase=${purchase.id}, tx=${cnft.mintTxSignature}`)
+    }
+
+    await prisma.cnftPurchase.update({
+      where: { id: purchase.id },
+      data: {
+        status: PurchaseStatus.FAILED,
+        errorMessage: cnft?.status === 1 ? '付款核对不通过' : cnft ? '链上铸造失败' : 'cNFT 记录已删除',
+        updatedAt: new Date(),
+      },
+    })
+  }
+}
+
+/**
+ * 从链上交易核对付款：交易成功，且包含购买者向收款钱包不少于价格的 SOL 转账
+ */
+export async function checkPurchasePayment(
+  connection: Connection,
+  txSignature: string,
+  expected: { buyerAddress: string; receiverAddress: string; priceLamports: bigint }
+): Promise<PaymentCheck> {
+  const tx = await connection.getParsedTransaction(txSignature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  })
+  if (!tx?.meta) return 'unavailable'
+  if (tx.meta.err) return 'mismatch'
+
+  const paid = tx.transaction.message.instructions.some((ix) => {
+    if (!('parsed' in ix) || ix.program !== 'system' || ix.parsed?.type !== 'transfer') return false
+    const info = ix.parsed.info
+    return info.source === expected.buyerAddress
+      && info.destination === expected.receiverAddress
+      && BigInt(info.lamports) >= expected.priceLamports
+  })
+  return paid ? 'verified' : 'mismatch'
+}
+
+// ============ 交易构建 ============
+
+/**
+ * 将购买与对应的铸造中 cNFT 标记为失败并释放叶子
+ */
+async function failPurchase(
+  session: Pick<PurchaseSession, 'purchaseId' | 'cnftId' | 'merkleTreeId' | 'network'>,
+  message: string,
+  txSignature: string | null = null
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.compressedNft.updateMany({
+      where: { id: session.cnftId, status: 0 },
+      data: { status: -1, ...(txSignature ? { mintTxSignature: txSignature } : {}), updatedAt: new Date() },
+    }),
+    prisma.cnftPurchase.updateMany({
+      where: { id: session.purchaseId, status: PurchaseStatus.PENDING },
+      data: { status: PurchaseStatus.FAILED, errorMessage: message.slice(0, 500), txSignature, updatedAt: new Date() },
+    }),
+  ])
+  await syncTreeMintedCount(session.merkleTreeId, getConnection(session.network as SolanaNetwork))
+}
+
+/**
+ * 处理中但早已过期、从未提交交易的购买视为放弃，释放以便重新购买
+ */
+async function releaseAbandonedPurchase(saleId: bigint, buyerAddress: string): Promise<void> {
+  const purchase = await prisma.cnftPurchase.findUnique({
+    where: { saleId_buyerAddress: { saleId, buyerAddress } },
+    include: { sale: { select: { network: true } } },
+  })
+  if (!purchase || purchase.status !== PurchaseStatus.PENDING || purchase.txSignature || !purchase.cnftId) return
+  if (Date.now() - purchase.updatedAt.getTime() < getSessionExpiryMs() * 2) return
+
+  const cnft = await prisma.compressedNft.findUnique({
+    where: { id: purchase.cnftId },
+    select: { status: true, mintTxSignature: true, merkleTreeId: true },
+  })
+  // cNFT 已删除或已对账的交给 syncPendingPurchases 处理
+  if (!cnft || cnft.status !== 0 || cnft.mintTxSignature) return
+
+  await failPurchase(
+    {
+      purchaseId: purchase.id,
+      cnftId: purchase.cnftId,
+      merkleTreeId: cnft.merkleTreeId,
+      network: purchase.sale.network,
+    },
+    '会话过期，交易未提交'
+  )
+}
+
+/**
+ * 准备购买交易
+ *
+ * @param projectId - 项目 ID
+ * @param buyerAddress - 购买者钱包地址（读者会话中的钱包）
+ */
+export async function preparePurchase(projectId: bigint, buyerAddress: string): Promise<PreparedPurchase> {
+  if (!isValidSolanaAddress(buyerAddress)) {
+    throw createError({
+      statusCode: 400,
+      message: '无效的钱包地址格式',
+      data: { code: SolanaErrorCode.INVALID_ADDRESS },
+    })
+  }
+  const buyer = new PublicKey(buyerAddress)
+
+  // 停用或已删除的项目不再收款铸造（售卖配置仍可能保持开启）
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, isDeleted: false, status: 1 },
+    select: { id: true },
+  })
+  if (!project) {
+    throw createError({ statusCode: 404, message: '项目不存在', data: { code: 'PROJECT_NOT_FOUND' } })
+  }
+
+  const sale = await prisma.projectSale.findUnique({ where: { projectId } })
+  if (!sale || !sale.enabled) {
+    throw createError({ statusCode: 404, message: '该项目未开放购买', data: { code: 'SALE_NOT_AVAILABLE' } })
+  }
+
+  if (await hasProjectCnft(projectId, buyerAddress)) {
+    throw createError({ statusCode: 409, message: '当前钱包已持有该项目的阅读凭证', data: { code: 'ALREADY_OWNED' } })
+  }
+
+  await releaseAbandonedPurchase(sale.id, buyerAddress)
+  await syncPendingPurchases({ saleId: sale.id })
+
+  const network = sale.network as SolanaNetwork
+  let conflicts = 0
+
+  while (true) {
+    const tree = await selectAvailableTree(network)
+    if (!tree) {
+      throw createError({
+        statusCode: 503,
+        message: '暂时无法铸造，请稍后再试',
+        data: { code: 'NO_AVAILABLE_TREE' },
+      })
+    }
+
+    // 1. 锁定售卖配置，串行化同一项目的下单，校验上限与重复购买后预占叶子
+    const leafIndex = tree.totalMinted
+    const reserved = await prisma.$transaction(async (tx) => {
+      const rows = await tx.$queryRaw<{ id: bigint }[]>`
+        SELECT "id" FROM "public"."project_sale" WHERE "id" = ${sale.id} FOR UPDATE
+      `
+      if (rows.length === 0) return null
+
+      const current = await tx.projectSale.findUniqueOrThrow({ where: { id: sale.id } })
+      if (!current.enabled) {
+        throw createError({ statusCode: 404, message: '该项目未开放购买', data: { code: 'SALE_NOT_AVAILABLE' } })
+      }
+
+      const existing = await tx.cnftPurchase.findUnique({
+        where: { saleId_buyerAddress: { saleId: current.id, buyerAddress } },
+      })
+      if (existing?.status === PurchaseStatus.COMPLETED) {
+        throw createError({ statusCode: 409, message: '当前钱包已购买过该项目', data: { code: 'ALREADY_PURCHASED' } })
+      }
+      if (existing?.status === PurchaseStatus.PENDING) {
+        throw createError({ statusCode: 409, message: '当前钱包有处理中的订单，请稍后再试', data: { code: 'PURCHASE_PENDING' } })
+      }
+
+      if (current.supplyCap !== null) {
+        const sold = await tx.cnftPurchase.count({
+          where: { saleId: current.id, status: { in: [PurchaseStatus.PENDING, PurchaseStatus.COMPLETED] } },
+        })
+        if (sold >= current.supplyCap) {
+          throw createError({ statusCode: 409, message: '已售罄', data: { code: 'SOLD_OUT' } })
+        }
+      }
+
+      const updated = await tx.merkleTree.updateMany({
+        where: { id: tree.id, totalMinted: leafIndex },
+        data: { totalMinted: leafIndex + 1, updatedAt: new Date() },
+      })
+      if (updated.count === 0) return null
+
+      const cnft = await tx.compressedNft.create({
+        data: {
+          merkleTreeId: tree.id,
+          projectId,
+          assetId: `pending_${Date.now()}_${tree.id}_${leafIndex}`,
+          leafIndex,
+          name: current.name,
+          symbol: current.symbol,
+          metadataUri: current.metadataUri,
+          ownerAddress: buyerAddress,
+          delegateAddress: tree.treeAuthority,
+          status: 0,
+        },
+      })
+
+      // 失败过的购买记录复用（每个钱包在每个售卖配置下只有一条）
+      const purchaseData = {
+        projectId,
+        cnftId: cnft.id,
+        priceLamports: current.priceLamports,
+        receiverAddress: current.receiverAddress,
+        txSignature: null,
+        errorMessage: null,
+        status: PurchaseStatus.PENDING,
+        updatedAt: new Date(),
+      }
+      const purchase = existing
+        ? await tx.cnftPurchase.update({ where: { id: existing.id }, data: purchaseData })
+        : await tx.cnftPurchase.create({ data: { ...purchaseData, saleId: current.id, buyerAddress } })
+
+      return { sale: current, cnft, purchase }
+    })
+
+    if (!reserved) {
+      // 其他请求同时占用了这棵树，重新选树
+      if (++conflicts > MAX_TREE_CONFLICTS) {
+        throw createError({ statusCode: 503, message: '下单人数较多，请稍后重试', data: { code: 'TREE_BUSY' } })
+      }
+      continue
+    }
+
+    const { purchase, cnft } = reserved
+    const base = { purchaseId: purchase.id, cnftId: cnft.id, merkleTreeId: tree.id, network }
+
+    // 2. 构建「付款 + 铸造」交易，树权限部分签名
+    let transaction: Transaction
+    try {
+      const authority = loadTreeAuthority(tree)
+      const merkleTree = new PublicKey(tree.treeAddress)
+      const [treeConfig] = getTreeConfigPda(merkleTree)
+      const metadata = createDefaultCnftMetadata(cnft.name, cnft.symbol || '', cnft.metadataUri || '', authority.publicKey)
+
+      transaction = new Transaction()
+      transaction.add(SystemProgram.transfer({
+        fromPubkey: buyer,
+        toPubkey: new PublicKey(purchase.receiverAddress),
+        lamports: purchase.priceLamports,
+      }))
+      transaction.add(createMintV1Instruction(treeConfig, buyer, authority.publicKey, merkleTree, buyer, authority.publicKey, metadata))
+
+      const { blockhash, lastValidBlockHeight } = await getConnection(network).getLatestBlockhash('confirmed')
+      transaction.recentBlockhash = blockhash
+      transaction.lastValidBlockHeight = lastValidBlockHeight
+      transaction.feePayer = buyer
+      transaction.partialSign(authority)
+    } catch (err: any) {
+      console.error('[cNFT Purchase] 构建交易失败:', err)
+      await failPurchase(base, `构建交易失败: ${err.message}`)
+      if (isRpcConnectionError(err)) {
+        throw createSolanaHttpError(new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, undefined, 503))
+      }
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.TRANSACTION_BUILD_FAILED, err.message, 500)
+      )
+    }
+
+    // 3. 保存会话
+    const sessionId = await createPurchaseSession({
+      ...base,
+      saleId: purchase.saleId,
+      merkleTreeAddress: tree.treeAddress,
+      leafIndex,
+      buyerAddress,
+      messageHash: hashTransactionMessage(transaction),
+    })
+
+    console.log(`[cNFT Purchase] 下单: project=${projectId}, buyer=${buyerAddress}, purchase=${purchase.id}, price=${purchase.priceLamports}`)
+    return {
+      sessionId,
+      purchaseId: purchase.id.toString(),
+      transactionBase64: transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64'),
+      priceLamports: purchase.priceLamports.toString(),
+      receiverAddress: purchase.receiverAddress,
+      expiresAt: Date.now() + getSessionExpiryMs(),
+    }
+  }
+}
+
+// ============ 交易提交 ============
+
+/**
+ * 提交已签名的购买交易
+ *
+ * @param projectId - 项目 ID（需与会话一致）
+ * @param buyerAddress - 读者会话中的钱包（需与会话一致）
+ * @param sessionId - prepare 返回的会话 ID
+ * @param signedTransactionBase64 - 钱包签名后的交易
+ */
+export async function submitPurchase(
+  projectId: bigint,
+  buyerAddress: string,
+  sessionId: string,
+  signedTransactionBase64: string
+): Promise<SubmittedPurchase> {
+  const session = await getPurchaseSession(sessionId)
+  const purchase = session
+    ? await prisma.cnftPurchase.findUnique({ where: { id: session.purchaseId } })
+    : null
+  if (!session || !purchase || session.buyerAddress !== buyerAddress || purchase.projectId !== projectId) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SESSION_EXPIRED, '订单已过期，请重新购买', 400)
+    )
+  }
+
+  let transaction: Transaction
+  try {
+    transaction = Transaction.from(Buffer.from(signedTransactionBase64, 'base64'))
+  } catch (err: any) {
+    console.error('[cNFT Purchase] 交易反序列化失败:', err)
+    throw createError({
+      statusCode: 400,
+      message: '无效的交易数据格式',
+      data: { code: SolanaErrorCode.INVALID_PARAMS },
+    })
+  }
+  if (!transaction.signatures.every(sig => sig.signature !== null && sig.signature.length > 0)) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SIGNATURE_INVALID, '部分签名缺失', 400)
+    )
+  }
+  if (hashTransactionMessage(transaction) !== session.messageHash) {
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.SIGNATURE_INVALID, '交易内容与订单不一致', 400)
+    )
+  }
+
+  const connection = getConnection(session.network as SolanaNetwork)
+  let outcome: Awaited<ReturnType<typeof sendAndConfirm>>
+  try {
+    outcome = await sendAndConfirm(connection, transaction)
+  } catch (err: any) {
+    // 预检失败时交易未上链，释放叶子以便重新购买
+    console.error('[cNFT Purchase] 交易发送失败:', err)
+    await deleteMintSession(sessionId)
+    await failPurchase(session, `交易发送失败: ${err.message || '未知错误'}`)
+    if (isInsufficientBalanceError(err)) {
+      throw createError({
+        statusCode: 400,
+        message: '钱包余额不足，请确保有足够的 SOL 支付价格与交易费',
+        data: { code: SolanaErrorCode.INSUFFICIENT_BALANCE },
+      })
+    }
+    if (isTransactionExpiredError(err)) {
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.TRANSACTION_EXPIRED, '交易已过期，请重新购买', 400)
+      )
+    }
+    if (isRpcConnectionError(err)) {
+      throw createSolanaHttpError(
+        new SolanaError(SolanaErrorCode.RPC_CONNECTION_FAILED, undefined, 503)
+      )
+    }
+    throw createSolanaHttpError(
+      new SolanaError(SolanaErrorCode.TRANSACTION_SEND_FAILED, err.message || '', 500)
+    )
+  }
+
+  await deleteMintSession(sessionId)
+  const { txSignature } = outcome
+
+  if (outcome.status === 'failed') {
+    const message = `链上交易失败: ${outcome.error}`
+    await failPurchase(session, message, txSignature)
+    return { status: 'failed', txSignature, assetId: null, message }
+  }
+
+  // 写入 assetId 与交易签名；状态未知时由 solana:recover 对账
+  const assetId = getAssetId(new PublicKey(session.merkleTreeAddress), session.leafIndex)[0].toBase58()
+  const conflict = await prisma.compressedNft.findUnique({ where: { assetId }, select: { id: true, status: true } })
+  if (conflict && conflict.id !== session.cnftId && conflict.status !== 1) {
+    await prisma.compressedNft.delete({ where: { id: conflict.id } })
+  }
+  await prisma.$transaction([
+    prisma.compressedNft.update({
+      where: { id: session.cnftId },
+      data: { assetId, mintTxSignature: txSignature, updatedAt: new Date() },
+    }),
+    prisma.cnftPurchase.update({
+      where: { id: session.purchaseId },
+      data: { txSignature, updatedAt: new Date() },
+    }),
+  ])
+
+  let check: PaymentCheck = 'unavailable'
+  if (outcome.status === 'success') {
+    try {
+      check = await checkPurchasePayment(connection, txSignature, purchase)
+    } catch (err: any) {
+      console.warn('[cNFT Purchase] 核对付款失败，等待对账:', err.message)
+    }
+  }
+
+  if (check === 'unavailable') {
+    return { status: 'pending', txSignature, assetId, message: '交易已发送，等待确认' }
+  }
+
+  if (check === 'mismatch') {
+    // 铸造已上链但付款不符：不授予阅读权限，留待人工核对
+    const message = '付款核对不通过'
+    console.error(`[cNFT Purchase] ${message}，需人工核对: purchase=${session.purchaseId}, tx=${txSignature}`)
+    await prisma.$transaction([
+      prisma.compressedNft.update({ where: { id: session.cnftId }, data: { status: -1, updatedAt: new Date() } }),
+      prisma.cnftPurchase.update({
+        where: { id: session.purchaseId },
+        data: { status: PurchaseStatus.FAILED, errorMessage: message, updatedAt: new Date() },
+      }),
+    ])
+    return { status: 'failed', txSignature, assetId, message }
+  }
+
+  await prisma.$transaction([
+    prisma.compressedNft.update({ where: { id: session.cnftId }, data: { status: 1, updatedAt: new Date() } }),
+    prisma.cnftPurchase.update({
+      where: { id: session.purchaseId },
+      data: { status: PurchaseStatus.COMPLETED, errorMessage: null, updatedAt: new Date() },
+    }),
+  ])
+
+  console.log(`[cNFT Purchase] 购买完成: purchase=${session.purchaseId}, buyer=${buyerAddress}, assetId=${assetId}, tx=${txSignature}`)
+  return { status: 'success', txSignature, assetId }
+}
+
+// ============ DTO ============
+
+/**
+ * 售卖配置 DTO
+ */
+export function saleToDto(
+  sale: { id: bigint; projectId: bigint; network: string; priceLamports: bigint; receiverAddress: string; supplyCap: number | null; name: string; symbol: string | null; metadataUri: string | null; enabled: boolean; createdAt: Date; updatedAt: Date },
+  sold: number
+) {
+  return {
+    id: sale.id.toString(),
+    projectId: sale.projectId.toString(),
+    network: sale.network,
+    priceLamports: sale.priceLamports.toString(),
+    receiverAddress: sale.receiverAddress,
+    supplyCap: sale.supplyCap,
+    sold,
+    remaining: sale.supplyCap === null ? null : Math.max(0, sale.supplyCap - sold),
+    name: sale.name,
+    symbol: sale.symbol,
+    metadataUri: sale.metadataUri,
+    enabled: sale.enabled,
+    createdAt: sale.createdAt,
+    updatedAt: sale.updatedAt,
+  }
+}
+
+/**
+ * 购买记录 DTO
+ */
+export function purchaseToDto(purchase: { id: bigint; saleId: bigint; projectId: bigint; buyerAddress: string; cnftId: bigint | null; priceLamports: bigint; receiverAddress: string; txSignature: string | null; errorMessage: string | null; status: number; createdAt: Date; updatedAt: Date }) {
+  return {
+    id: purchase.id.toString(),
+    saleId: purchase.saleId.toString(),
+    projectId: purchase.projectId.toString(),
+    buyerAddress: purchase.buyerAddress,
+    cnftId: purchase.cnftId?.toString() ?? null,
+    priceLamports: purchase.priceLamports.toString(),
+    receiverAddress: purchase.receiverAddress,
+    txSignature: purchase.txSignature,
+    errorMessage: purchase.errorMessage,
+    status: purchase.status,
+    createdAt: purchase.createdAt,
+    updatedAt: purchase.updatedAt,
+  }
+}
+
+/**
+ * 统计售卖配置的已售数量（处理中 + 已完成）
+ */
+export async function countSold(saleIds: bigint[]): Promise<Map<string, number>> {
+  const rows = await prisma.cnftPurchase.groupBy({
+    by: ['saleId'],
+    where: { saleId: { in: saleIds }, status: { in: [PurchaseStatus.PENDING, PurchaseStatus.COMPLETED] } },
+    _count: { _all: true },
+  })
+  return new Map(rows.map((r) => [r.saleId.toString(), r._count._all]))
+}
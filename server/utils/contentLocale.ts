@@ -0,0 +1,122 @@
+/**
+ * 多语言内容模块
+ *
+ * 笔记正文、项目首页、分类名称、菜单文本支持按语言提供译文：
+ * - 原文视为回退语言（CONTENT_FALLBACK_LOCALE，默认 zh）的内容，译文按语言单独保存
+ * - 笔记译文保存为 locale 不为空的 NoteContent，同一语言内独立维护版本与主显示版本
+ * - 公开接口按读者语言（locale 参数 → i18n 语言 Cookie → 回退语言）选择内容，缺少译文时使用原文
+ */
+
+import type { H3Event } from 'h3'
+import { getCookie, getQuery } from 'h3'
+
+/** 支持的内容语言（与 nuxt.config.ts 中 i18n.locales 保持一致） */
+export const CONTENT_LOCALES = ['en', 'zh'] as const
+
+/** i18n 语言 Cookie 名称（@nuxtjs/i18n 默认） */
+const LOCALE_COOKIE = 'i18n_redirected'
+
+/** 译文名称最大长度（与分类名称、菜单文本一致） */
+const LABEL_MAX_LENGTH = 64
+
+// ============ 类型定义 ============
+
+/**
+ * 内容语言
+ */
+export type ContentLocale = (typeof CONTENT_LOCALES)[number]
+
+/**
+ * 名称译文：{ 语言: 译文 }
+ */
+export type LabelTranslations = Partial<Record<ContentLocale, string>>
+
+// ============ 语言 ============
+
+/**
+ * 判断是否为支持的内容语言
+ */
+export function isContentLocale(value: unknown): value is ContentLocale {
+  return typeof value === 'string' && (CONTENT_LOCALES as readonly string[]).includes(value)
+}
+
+/**
+ * 获取回退语言（原文语言）
+ */
+export function getFallbackLocale(): ContentLocale {
+  const configured = process.env.CONTENT_FALLBACK_LOCALE?.trim()
+  return isContentLocale(configured) ? configured : 'zh'
+}
+
+/**
+ * 获取可添加译文的语言（除回退语言外的全部语言）
+ */
+export function getTranslationLocales(): ContentLocale[] {
+  const fallback = getFallbackLocale()
+  return CONTENT_LOCALES.filter((locale) => locale !== fallback)
+}
+
+/**
+ * 读取读者语言：locale 参数 → i18n 语言 Cookie → 回退语言
+ */
+export function readContentLocale(event: H3Event): ContentLocale {
+  const query = getQuery(event)
+  if (isContentLocale(query.locale)) return query.locale
+
+  const cookie = getCookie(event, LOCALE_COOKIE)
+  if (isContentLocale(cookie)) return cookie
+
+  return getFallbackLocale()
+}
+
+/**
+ * 语言转换为 NoteContent.locale 取值：回退语言对应原文（null）
+ */
+export function toContentLocaleColumn(locale: ContentLocale): string | null {
+  return locale === getFallbackLocale() ? null : locale
+}
+
+/**
+ * 解析后台传入的内容语言：未传或为回退语言时对应原文（null）
+ *
+ * @returns NoteContent.locale 取值；语言不支持时返回 error
+ */
+export function readLocaleColumn(value: unknown): { locale: string | null } | { error: string } {
+  if (value === undefined || value === null || value === '') return { locale: null }
+  if (!isContentLocale(value)) return { error: 'Invalid locale' }
+  return { locale: toContentLocaleColumn(value) }
+}
+
+// ============ 名称译文 ============
+
+/**
+ * 按语言取名称译文，缺少时返回原名称
+ */
+export function translateLabel(base: string, translations: unknown, locale: ContentLocale): string {
+  if (!translations || typeof translations !== 'object' || Array.isArray(translations)) return base
+  const value = (translations as Record<string, unknown>)[locale]
+  return typeof value === 'string' && value.trim() ? value : base
+}
+
+/**
+ * 读取请求体中的名称译文（空字符串视为删除该语言，全部为空时返回 null）
+ *
+ * @returns 规范化后的译文；格式不正确时返回 error
+ */
+export function readLabelTranslations(raw: unknown): { data: LabelTranslations | null } | { error: string } {
+  if (raw === null) return { data: null }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Invalid translations' }
+
+  const data: LabelTranslations = {}
+  for (const [locale, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isContentLocale(locale) || locale === getFallbackLocale()) return { error: `Invalid translation locale: ${locale}` }
+    if (value === null || value === undefined) continue
+    if (typeof value !== 'string') return { error: `Invalid translation: ${locale}` }
+
+    const trimmed = value.trim()
+    if (trimmed.length > LABEL_MAX_LENGTH) return { error: `Translation too long: ${locale}` }
+    if (trimmed) data[locale] = trimmed
+  }
+
+  return { data: Object.keys(data).length ? data : null }
+}
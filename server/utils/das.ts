@@ -0,0 +1,283 @@
+/**
+ * DAS（Digital Asset Standard）索引查询模块
+ *
+ * cNFT 的持有者只记录在链上 Merkle Tree 的叶子中，需要通过 DAS 兼容的索引 RPC 查询。
+ * 通过 DasClient 接口屏蔽具体的索引服务：
+ * - rpc: DAS 兼容的 JSON-RPC（getAsset / getAssetsByOwner / getAssetProof，如 Helius）
+ * - mock: 进程内索引，由调用方写入资产数据，用于本地开发与测试
+ *
+ * 环境变量：
+ * - SOLANA_DAS_URL / SOLANA_DEVNET_DAS_URL: 索引 RPC 地址，缺省使用对应网络的 RPC 地址
+ * - SOLANA_DAS_CLIENT: 设置为 mock 时使用进程内索引
+ */
+
+import { getRpcUrl, type SolanaNetwork } from './solana'
+
+// ============ 类型定义 ============
+
+/**
+ * 索引中的 cNFT 资产（只保留持有者同步需要的字段）
+ */
+export interface DasAsset {
+  /** 资产 ID */
+  assetId: string
+  /** 当前持有者 */
+  owner: string
+  /** 委托地址（未委托时为 null） */
+  delegate: string | null
+  /** 是否已销毁 */
+  burnt: boolean
+  /** 所在 Merkle Tree 地址（非压缩资产为 null） */
+  tree: string | null
+  /** 叶子索引（非压缩资产为 null） */
+  leafIndex: number | null
+}
+
+/**
+ * 资产的 Merkle 证明（转移、销毁、委托指令需要）
+ */
+export interface DasAssetProof {
+  /** 证明对应的树根 */
+  root: string
+  /** 证明节点（从叶子向上，完整深度） */
+  proof: string[]
+  /** 叶子哈希 */
+  leaf: string
+  /** 所在 Merkle Tree 地址 */
+  tree: string
+}
+
+/**
+ * 分页查询结果
+ */
+export interface DasAssetPage {
+  items: DasAsset[]
+  /** 本页数量 */
+  total: number
+  page: number
+  limit: number
+}
+
+/**
+ * 索引查询接口
+ */
+export interface DasClient {
+  /** 客户端名称 */
+  readonly name: string
+  /**
+   * 查询单个资产
+   * @returns 索引中不存在时返回 null
+   */
+  getAsset(assetId: string): Promise<DasAsset | null>
+  /**
+   * 按持有者分页查询资产
+   * @param page - 页码（从 1 开始）
+   * @param limit - 每页数量（最大 1000）
+   */
+  getAssetsByOwner(owner: string, page?: number, limit?: number): Promise<DasAssetPage>
+  /**
+   * 查询资产的 Merkle 证明
+   * @returns 索引中不存在时返回 null
+   */
+  getAssetProof(assetId: string): Promise<DasAssetProof | null>
+}
+
+// ============ JSON-RPC 实现 ============
+
+/** getAssetsByOwner 单页上限 */
+export const DAS_MAX_PAGE_LIMIT = 1000
+
+/**
+ * 将 DAS 响应转换为 DasAsset
+ */
+function toDasAsset(raw: any): DasAsset {
+  return {
+    assetId: raw.id,
+    owner: raw.ownership?.owner ?? '',
+    delegate: raw.ownership?.delegated ? (raw.ownership?.delegate ?? null) : null,
+    burnt: raw.burnt === true,
+    tree: raw.compression?.compressed ? (raw.compression.tree ?? null) : null,
+    leafIndex: raw.compression?.compressed ? (raw.compression.leaf_id ?? null) : null,
+  }
+}
+
+/**
+ * DAS 兼容 JSON-RPC 实现
+ */
+export class RpcDasClient implements DasClient {
+  readonly name = 'rpc'
+  private readonly url: string
+
+  constructor(url: string) {
+    this.url = url
+  }
+
+  async getAsset(assetId: string): Promise<DasAsset | null> {
+    try {
+      const result = await this.call('getAsset', { id: assetId })
+      return result ? toDasAsset(result) : null
+    } catch (err: any) {
+      // 索引中不存在的资产返回 RPC 错误而不是空结果
+      if (/not found/i.test(err.message)) return null
+      throw err
+    }
+  }
+
+  async getAssetsByOwner(owner: string, page: number = 1, limit: number = DAS_MAX_PAGE_LIMIT): Promise<DasAssetPage> {
+    const result = await this.call('getAssetsByOwner', {
+      ownerAddress: owner,
+      page,
+      limit: Math.min(DAS_MAX_PAGE_LIMIT, limit),
+    })
+    const items = (result?.items ?? []) as any[]
+    return {
+      items: items.map(toDasAsset),
+      total: result?.total ?? items.length,
+      page: result?.page ?? page,
+      limit: result?.limit ?? limit,
+    }
+  }
+
+  async getAssetProof(assetId: string): Promise<DasAssetProof | null> {
+    try {
+      const result = await this.call('getAssetProof', { id: assetId })
+      return result
+        ? { root: result.root, proof: result.proof ?? [], leaf: result.leaf, tree: result.tree_id }
+        : null
+    } catch (err: any) {
+      if (/not found/i.test(err.message)) return null
+      throw err
+    }
+  }
+
+  private async call(method: string, params: Record<string, unknown>): Promise<any> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: method, method, params }),
+    })
+
+    if (!res.ok) {
+      throw new Error(`DAS 接口请求失败: ${res.status} ${await res.text()}`)
+    }
+
+    const json = await res.json() as { result?: any; error?: { code: number; message: string } }
+    if (json.error) {
+      throw new Error(`DAS ${method} 失败: ${json.error.message}`)
+    }
+    return json.result
+  }
+}
+
+// ============ 进程内实现 ============
+
+/**
+ * 进程内索引
+ * 资产数据由调用方写入，可模拟转移与销毁
+ */
+export class MockDasClient implements DasClient {
+  readonly name = 'mock'
+  private readonly assets = new Map<string, DasAsset>()
+  private readonly proofs = new Map<string, DasAssetProof>()
+
+  async getAsset(assetId: string): Promise<DasAsset | null> {
+    const asset = this.assets.get(assetId)
+    return asset ? { ...asset } : null
+  }
+
+  async getAssetsByOwner(owner: string, page: number = 1, limit: number = DAS_MAX_PAGE_LIMIT): Promise<DasAssetPage> {
+    const owned = [...this.assets.values()].filter((a) => a.owner === owner && !a.burnt)
+    const items = owned.slice((page - 1) * limit, page * limit).map((a) => ({ ...a }))
+    return { items, total: items.length, page, limit }
+  }
+
+  async getAssetProof(assetId: string): Promise<DasAssetProof | null> {
+    const proof = this.proofs.get(assetId)
+    return proof ? { ...proof, proof: [...proof.proof] } : null
+  }
+
+  /**
+   * 写入或覆盖资产的 Merkle 证明
+   */
+  setAssetProof(assetId: string, proof: DasAssetProof): void {
+    this.proofs.set(assetId, proof)
+  }
+
+  /**
+   * 写入或覆盖资产
+   */
+  setAsset(asset: Partial<DasAsset> & Pick<DasAsset, 'assetId' | 'owner'>): void {
+    this.assets.set(asset.assetId, {
+      delegate: null,
+      burnt: false,
+      tree: null,
+      leafIndex: null,
+      ...asset,
+    })
+  }
+
+  /**
+   * 模拟转移
+   */
+  transfer(assetId: string, newOwner: string): void {
+    const asset = this.assets.get(assetId)
+    if (asset) this.assets.set(assetId, { ...asset, owner: newOwner, delegate: null })
+  }
+
+  /**
+   * 模拟销毁
+   */
+  burn(assetId: string): void {
+    const asset = this.assets.get(assetId)
+    if (asset) this.assets.set(assetId, { ...asset, burnt: true })
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.assets.clear()
+    this.proofs.clear()
+  }
+}
+
+// ============ 客户端获取 ============
+
+// 按网络缓存客户端
+const clients = new Map<SolanaNetwork, DasClient>()
+
+/**
+ * 获取 DAS 索引 RPC 地址
+ * 缺省使用对应网络的 RPC 地址（Helius 等服务的 RPC 同时支持 DAS 方法）
+ */
+export function getDasUrl(network: SolanaNetwork = 'devnet'): string {
+  if (network === 'mainnet') {
+    return process.env.SOLANA_DAS_URL || getRpcUrl('mainnet')
+  }
+  return process.env.SOLANA_DEVNET_DAS_URL || getRpcUrl('devnet')
+}
+
+/**
+ * 获取指定网络的索引客户端
+ */
+export function getDasClient(network: SolanaNetwork = 'devnet'): DasClient {
+  let client = clients.get(network)
+  if (client) return client
+
+  client = process.env.SOLANA_DAS_CLIENT === 'mock'
+    ? new MockDasClient()
+    : new RpcDasClient(getDasUrl(network))
+  clients.set(network, client)
+  return client
+}
+
+/**
+ * 替换指定网络的索引客户端（用于测试或运行时切换），传入 null 恢复默认
+ */
+export function setDasClient(network: SolanaNetwork, client: DasClient | null): void {
+  if (client) {
+    clients.set(network, client)
+  } else {
+    clients.delete(network)
+  }
+}
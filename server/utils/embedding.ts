@@ -0,0 +1,173 @@
+/**
+ * 文本向量化（Embedding）模块
+ *
+ * 通过 EmbeddingProvider 接口屏蔽具体的向量模型：
+ * - local: 本地确定性实现（特征哈希），无需网络，便于离线开发与测试
+ * - openai: OpenAI 兼容的 /embeddings 接口（如 Qwen3 text-embedding-v4 / DashScope）
+ *
+ * 通过环境变量 EMBEDDING_PROVIDER 选择实现，默认 local。
+ */
+
+import { createHash } from 'node:crypto'
+import { tokenize } from './noteSearch'
+
+/**
+ * 向量维度（需与数据库 vector 列定义保持一致）
+ */
+export const EMBEDDING_DIMENSIONS = 1024
+
+/**
+ * 向量化提供者接口
+ */
+export interface EmbeddingProvider {
+  /** 提供者名称（记录在向量数据中，便于切换模型后重建） */
+  readonly name: string
+  /** 输出向量维度 */
+  readonly dimensions: number
+  /**
+   * 批量向量化
+   * @param texts - 文本列表
+   * @returns 与输入一一对应的向量列表
+   */
+  embed(texts: string[]): Promise<number[][]>
+}
+
+/**
+ * L2 归一化（便于使用余弦距离）
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  if (norm === 0) return vector
+  return vector.map((v) => v / norm)
+}
+
+/**
+ * 本地确定性向量化实现
+ *
+ * 使用特征哈希（feature hashing）：对分词结果做 SHA-256，
+ * 取前 4 字节决定维度下标、第 5 字节决定符号。
+ * 相同输入始终得到相同向量，词汇重叠越多的文本余弦相似度越高。
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local-hash'
+  readonly dimensions: number
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    for (const token of tokenize(text)) {
+      const digest = createHash('sha256').update(token).digest()
+      const index = digest.readUInt32BE(0) % this.dimensions
+      const sign = (digest[4] ?? 0) & 1 ? 1 : -1
+      vector[index] = (vector[index] ?? 0) + sign
+    }
+    return normalize(vector)
+  }
+}
+
+/**
+ * OpenAI 兼容接口的向量化实现
+ *
+ * 环境变量：
+ * - EMBEDDING_API_URL: 接口地址（如 https://dashscope.aliyuncs.com/compatible-mode/v1）
+ * - EMBEDDING_API_KEY: 接口密钥
+ * - EMBEDDING_MODEL: 模型名称（默认 text-embedding-v4）
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string
+  readonly dimensions: number
+  private readonly apiUrl: string
+  private readonly apiKey: string
+  private readonly model: string
+
+  constructor(options: { apiUrl: string; apiKey: string; model: string; dimensions?: number }) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '')
+    this.apiKey = options.apiKey
+    this.model = options.model
+    this.dimensions = options.dimensions ?? EMBEDDING_DIMENSIONS
+    this.name = `openai:${options.model}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+
+    const res = await fetch(`${this.apiUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions,
+        encoding_format: 'float',
+      }),
+    })
+
+    if (!res.ok) {
+      throw new Error(`Embedding 接口请求失败: ${res.status} ${await res.text()}`)
+    }
+
+    const json = await res.json() as { data: { index: number; embedding: number[] }[] }
+    const vectors = [...json.data].sort((a, b) => a.index - b.index).map((d) => d.embedding)
+
+    for (const vector of vectors) {
+      if (vector.length !== this.dimensions) {
+        throw new Error(`Embedding 维度不匹配: 期望 ${this.dimensions}，实际 ${vector.length}`)
+      }
+    }
+
+    return vectors
+  }
+}
+
+// 当前提供者缓存
+let currentProvider: EmbeddingProvider | null = null
+
+/**
+ * 获取当前配置的向量化提供者
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (currentProvider) return currentProvider
+
+  const providerName = process.env.EMBEDDING_PROVIDER || 'local'
+
+  if (providerName === 'openai') {
+    const apiUrl = process.env.EMBEDDING_API_URL
+    const apiKey = process.env.EMBEDDING_API_KEY
+    if (!apiUrl || !apiKey) {
+      throw new Error('未配置 EMBEDDING_API_URL 或 EMBEDDING_API_KEY 环境变量')
+    }
+    currentProvider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl,
+      apiKey,
+      model: process.env.EMBEDDING_MODEL || 'text-embedding-v4',
+    })
+  } else {
+    currentProvider = new LocalHashEmbeddingProvider()
+  }
+
+  return currentProvider
+}
+
+/**
+ * 替换当前提供者（用于测试或运行时切换）
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  currentProvider = provider
+}
+
+/**
+ * 将向量转换为 pgvector 文本格式
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`
+}
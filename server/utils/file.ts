@@ -1,9 +1,14 @@
 import { H3Event, readMultipartFormData } from 'h3'
-import { randomUUID } from 'crypto'
-import { join, extname } from 'path'
-import { writeFile, unlink, stat, readFile, mkdir } from 'fs/promises'
-import { existsSync } from 'fs'
+import { createHash, randomUUID } from 'crypto'
+import { extname } from 'path'
 import { prisma } from './prisma'
+import { assertFileUnreferenced, findFileReferences } from './fileReference'
+import {
+  getContentType,
+  getStorageDriver,
+  normalizeStorageKey,
+  type StorageDriverName,
+} from './storage'
 
 // ============ 类型定义 ============
 
@@ -51,6 +56,12 @@ export interface FileUploadResult {
   filePath: string
   fileSize: bigint
   businessType: string
+  /** 存储驱动 */
+  storageDriver: StorageDriverName
+  /** 内容 SHA-256 */
+  sha256: string
+  /** 是否复用了已有的相同文件 */
+  deduplicated: boolean
   /** 可访问的 URL 路径 */
   url: string
   /** 临时文件过期时间戳（毫秒） */
@@ -80,28 +91,10 @@ const UPLOAD_ROOT = 'uploads'
 const TEMP_DIR = 'temp'
 
 /** 临时文件记录（内存缓存，用于过期清理） */
-const tempFileRegistry = new Map<string, { expireAt: number; filePath: string }>()
+const tempFileRegistry = new Map<string, { expireAt: number; filePath: string; storageDriver: StorageDriverName }>()
 
 // ============ 工具函数 ============
 
-/**
- * 获取上传目录的绝对路径
- */
-function getUploadDir(businessType: BusinessType): string {
-  const publicDir = join(process.cwd(), 'public')
-  const dir = BusinessTypeConfig[businessType]?.dir || 'other'
-  return join(publicDir, UPLOAD_ROOT, dir)
-}
-
-/**
- * 确保目录存在
- */
-async function ensureDir(dirPath: string): Promise<void> {
-  if (!existsSync(dirPath)) {
-    await mkdir(dirPath, { recursive: true })
-  }
-}
-
 /**
  * 生成唯一文件名
  */
@@ -112,6 +105,13 @@ function generateFileName(originalName: string): string {
   return `${timestamp}_${uuid}${ext}`
 }
 
+/**
+ * 计算文件内容 SHA-256
+ */
+export function hashFileContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
 /**
  * 获取文件的访问 URL
  */
@@ -124,15 +124,33 @@ function getFileUrl(businessType: BusinessType, fileName: string): string {
 // ============ 核心功能 ============
 
 /**
- * 上传文件
- * @param event H3 事件对象
+ * 查找可复用的同内容文件（相同业务类型、仍可用且存储中存在）
+ * @param sha256 文件内容 SHA-256
+ * @param businessType 业务类型
+ * @returns 文件记录，不存在时返回 null
+ */
+export async function findReusableFile(sha256: string, businessType: BusinessType) {
+  const existing = await prisma.fileManagement.findFirst({
+    where: { sha256, businessType, status: 1 },
+    orderBy: { id: 'asc' },
+  })
+  if (existing && await getStorageDriver(existing.storageDriver).stat(existing.filePath)) return existing
+  return null
+}
+
+/**
+ * 保存文件（内存数据）
+ * 用于导入等非表单上传场景，校验与落盘规则与 uploadFiles 一致
+ * @param fileBuffer 文件内容
+ * @param originalName 原始文件名
  * @param options 上传选项
- * @returns 上传结果数组
+ * @returns 上传结果
  */
-export async function uploadFiles(
-  event: H3Event,
+export async function saveFile(
+  fileBuffer: Buffer,
+  originalName: string,
   options: FileUploadOptions
-): Promise<FileUploadResult[]> {
+): Promise<FileUploadResult> {
   const {
     businessType,
     allowedExtensions = [],
@@ -140,79 +158,114 @@ export async function uploadFiles(
     expireSeconds,
   } = options
 
-  // 读取 multipart 表单数据
-  const formData = await readMultipartFormData(event)
-  if (!formData || formData.length === 0) {
-    throw createError({ statusCode: 400, message: '未检测到上传文件' })
-  }
-
-  const results: FileUploadResult[] = []
-  const uploadDir = getUploadDir(businessType)
-  await ensureDir(uploadDir)
+  const fileSize = fileBuffer.length
 
-  for (const part of formData) {
-    // 跳过非文件字段
-    if (!part.filename || !part.data) continue
+  // 校验文件大小
+  if (fileSize > maxSize) {
+    throw createError({
+      statusCode: 400,
+      message: `文件 ${originalName} 超过最大限制 ${Math.round(maxSize / 1024 / 1024)}MB`,
+    })
+  }
 
-    const originalName = part.filename
-    const fileBuffer = part.data
-    const fileSize = fileBuffer.length
+  // 校验文件扩展名
+  const ext = extname(originalName).toLowerCase().slice(1)
+  if (allowedExtensions.length > 0 && !allowedExtensions.includes(ext)) {
+    throw createError({
+      statusCode: 400,
+      message: `文件 ${originalName} 类型不允许，仅支持: ${allowedExtensions.join(', ')}`,
+    })
+  }
 
-    // 校验文件大小
-    if (fileSize > maxSize) {
-      throw createError({
-        statusCode: 400,
-        message: `文件 ${originalName} 超过最大限制 ${Math.round(maxSize / 1024 / 1024)}MB`,
-      })
+  const sha256 = hashFileContent(fileBuffer)
+
+  // 相同业务类型下内容相同的文件直接复用（临时文件有独立的过期时间，不复用）
+  if (businessType !== 'TempFile') {
+    const existing = await findReusableFile(sha256, businessType)
+    if (existing) {
+      return {
+        id: existing.id,
+        originalName: existing.originalName,
+        fileName: existing.fileName,
+        filePath: existing.filePath,
+        fileSize: existing.fileSize,
+        businessType: existing.businessType,
+        storageDriver: existing.storageDriver as StorageDriverName,
+        sha256,
+        deduplicated: true,
+        url: `/${existing.filePath}`,
+      }
     }
+  }
 
-    // 校验文件扩展名
-    const ext = extname(originalName).toLowerCase().slice(1)
-    if (allowedExtensions.length > 0 && !allowedExtensions.includes(ext)) {
-      throw createError({
-        statusCode: 400,
-        message: `文件 ${originalName} 类型不允许，仅支持: ${allowedExtensions.join(', ')}`,
-      })
-    }
+  // 生成文件名并写入存储
+  const fileName = generateFileName(originalName)
+  const dir = BusinessTypeConfig[businessType]?.dir || 'other'
+  const relativePath = `${UPLOAD_ROOT}/${dir}/${fileName}`
 
-    // 生成文件名并写入磁盘
-    const fileName = generateFileName(originalName)
-    const filePath = join(uploadDir, fileName)
-    const dir = BusinessTypeConfig[businessType]?.dir || 'other'
-    const relativePath = `${UPLOAD_ROOT}/${dir}/${fileName}`
-
-    await writeFile(filePath, fileBuffer)
-
-    // 写入数据库
-    const record = await prisma.fileManagement.create({
-      data: {
-        originalName,
-        fileName,
-        filePath: relativePath,
-        fileSize: BigInt(fileSize),
-        businessType,
-        status: 1,
-      },
-    })
+  const driver = getStorageDriver()
+  await driver.put(relativePath, fileBuffer, getContentType(fileName))
 
-    const result: FileUploadResult = {
-      id: record.id,
+  // 写入数据库
+  const record = await prisma.fileManagement.create({
+    data: {
       originalName,
       fileName,
       filePath: relativePath,
       fileSize: BigInt(fileSize),
       businessType,
-      url: getFileUrl(businessType, fileName),
-    }
+      storageDriver: driver.name,
+      sha256,
+      status: 1,
+    },
+  })
 
-    // 临时文件处理
-    if (businessType === 'TempFile' && expireSeconds) {
-      const expireAt = Date.now() + expireSeconds * 1000
-      result.expireAt = expireAt
-      tempFileRegistry.set(fileName, { expireAt, filePath })
-    }
+  const result: FileUploadResult = {
+    id: record.id,
+    originalName,
+    fileName,
+    filePath: relativePath,
+    fileSize: BigInt(fileSize),
+    businessType,
+    storageDriver: driver.name,
+    sha256,
+    deduplicated: false,
+    url: getFileUrl(businessType, fileName),
+  }
+
+  // 临时文件处理
+  if (businessType === 'TempFile' && expireSeconds) {
+    const expireAt = Date.now() + expireSeconds * 1000
+    result.expireAt = expireAt
+    tempFileRegistry.set(fileName, { expireAt, filePath: relativePath, storageDriver: driver.name })
+  }
+
+  return result
+}
+
+/**
+ * 上传文件
+ * @param event H3 事件对象
+ * @param options 上传选项
+ * @returns 上传结果数组
+ */
+export async function uploadFiles(
+  event: H3Event,
+  options: FileUploadOptions
+): Promise<FileUploadResult[]> {
+  // 读取 multipart 表单数据
+  const formData = await readMultipartFormData(event)
+  if (!formData || formData.length === 0) {
+    throw createError({ statusCode: 400, message: '未检测到上传文件' })
+  }
+
+  const results: FileUploadResult[] = []
+
+  for (const part of formData) {
+    // 跳过非文件字段
+    if (!part.filename || !part.data) continue
 
-    results.push(result)
+    results.push(await saveFile(part.data, part.filename, options))
   }
 
   return results
@@ -309,12 +362,14 @@ export async function updateFile(
 
 /**
  * 软删除文件（仅更新状态）
+ * 文件仍被引用时抛出 409
  */
 export async function softDeleteFile(id: bigint) {
   const file = await prisma.fileManagement.findUnique({ where: { id } })
   if (!file) {
     throw createError({ statusCode: 404, message: '文件不存在' })
   }
+  await assertFileUnreferenced(file)
 
   return prisma.fileManagement.update({
     where: { id },
@@ -323,19 +378,18 @@ export async function softDeleteFile(id: bigint) {
 }
 
 /**
- * 硬删除文件（删除磁盘文件 + 数据库记录）
+ * 硬删除文件（删除存储对象 + 数据库记录）
+ * 文件仍被引用时抛出 409
  */
 export async function hardDeleteFile(id: bigint) {
   const file = await prisma.fileManagement.findUnique({ where: { id } })
   if (!file) {
     throw createError({ statusCode: 404, message: '文件不存在' })
   }
+  await assertFileUnreferenced(file)
 
-  // 删除磁盘文件
-  const absolutePath = join(process.cwd(), 'public', file.filePath)
-  if (existsSync(absolutePath)) {
-    await unlink(absolutePath)
-  }
+  // 删除存储对象
+  await getStorageDriver(file.storageDriver).delete(file.filePath)
 
   // 删除数据库记录
   return prisma.fileManagement.delete({ where: { id } })
@@ -343,12 +397,27 @@ export async function hardDeleteFile(id: bigint) {
 
 /**
  * 批量软删除
+ * 仍被引用的文件跳过并返回其 ID
  */
 export async function batchSoftDelete(ids: bigint[]) {
-  return prisma.fileManagement.updateMany({
-    where: { id: { in: ids } },
+  const files = await prisma.fileManagement.findMany({ where: { id: { in: ids } } })
+
+  const deletable: bigint[] = []
+  const skipped: bigint[] = []
+  for (const file of files) {
+    const refs = await findFileReferences(file)
+    if (refs.length > 0) {
+      skipped.push(file.id)
+    } else {
+      deletable.push(file.id)
+    }
+  }
+
+  const result = await prisma.fileManagement.updateMany({
+    where: { id: { in: deletable } },
     data: { status: 0 },
   })
+  return { count: result.count, skipped }
 }
 
 // ============ 临时文件清理 ============
@@ -365,10 +434,8 @@ export async function cleanExpiredTempFiles() {
   for (const [fileName, info] of tempFileRegistry.entries()) {
     if (info.expireAt <= now) {
       expiredFiles.push(fileName)
-      // 删除磁盘文件
-      if (existsSync(info.filePath)) {
-        await unlink(info.filePath).catch(() => {})
-      }
+      // 删除存储对象
+      await getStorageDriver(info.storageDriver).delete(info.filePath).catch(() => {})
       tempFileRegistry.delete(fileName)
     }
   }
@@ -395,10 +462,32 @@ export async function readFileContent(id: bigint): Promise<Buffer | null> {
   const file = await getFileById(id)
   if (!file) return null
 
-  const absolutePath = join(process.cwd(), 'public', file.filePath)
-  if (!existsSync(absolutePath)) return null
+  return getStorageDriver(file.storageDriver).get(file.filePath)
+}
+
+/**
+ * 按访问地址查找文件记录（如 /uploads/markdown/xxx.png）
+ */
+export async function findFileByUrl(url: string) {
+  const key = normalizeStorageKey(url)
+  if (!key || !key.startsWith(`${UPLOAD_ROOT}/`)) return null
+
+  return prisma.fileManagement.findFirst({
+    where: { filePath: key },
+    orderBy: { id: 'desc' },
+  })
+}
+
+/**
+ * 按访问地址读取上传文件内容（如 /uploads/markdown/xxx.png）
+ * 根据文件记录选择存储驱动，没有记录的历史文件从本地磁盘读取
+ */
+export async function readUploadedFile(url: string): Promise<Buffer | null> {
+  const key = normalizeStorageKey(url)
+  if (!key || !key.startsWith(`${UPLOAD_ROOT}/`)) return null
 
-  return readFile(absolutePath)
+  const file = await findFileByUrl(key)
+  return getStorageDriver(file?.storageDriver ?? 'local').get(key)
 }
 
 /**
@@ -408,15 +497,14 @@ export async function getFileStats(id: bigint) {
   const file = await getFileById(id)
   if (!file) return null
 
-  const absolutePath = join(process.cwd(), 'public', file.filePath)
-  if (!existsSync(absolutePath)) return null
+  const stats = await getStorageDriver(file.storageDriver).stat(file.filePath)
+  if (!stats) return null
 
-  const stats = await stat(absolutePath)
   return {
     ...file,
     diskSize: stats.size,
-    createdAt: stats.birthtime,
-    modifiedAt: stats.mtime,
+    createdAt: file.createTime,
+    modifiedAt: stats.lastModified,
   }
 }
 
@@ -427,6 +515,115 @@ export async function fileExists(id: bigint): Promise<boolean> {
   const file = await getFileById(id)
   if (!file) return false
 
-  const absolutePath = join(process.cwd(), 'public', file.filePath)
-  return existsSync(absolutePath)
+  return (await getStorageDriver(file.storageDriver).stat(file.filePath)) !== null
+}
+
+// ============ 存储迁移 ============
+
+/** 存储迁移选项 */
+export interface FileMigrateOptions {
+  /** 源驱动 */
+  from: StorageDriverName
+  /** 目标驱动 */
+  to: StorageDriverName
+  /** 仅迁移指定业务类型 */
+  businessType?: BusinessType
+  /** 最多迁移数量（分批执行） */
+  limit?: number
+  /** 迁移成功后删除源对象 */
+  deleteSource?: boolean
+  /** 仅统计不迁移 */
+  dryRun?: boolean
+}
+
+/** 存储迁移结果 */
+export interface FileMigrateResult {
+  /** 待迁移记录数 */
+  total: number
+  /** 迁移成功数 */
+  migrated: number
+  /** 源对象不存在的记录 */
+  missing: string[]
+  /** 迁移失败的记录 */
+  failed: { filePath: string; error: string }[]
+}
+
+/**
+ * 在存储驱动之间迁移文件
+ * 逐个复制对象并更新记录的 storageDriver，访问地址保持不变；
+ * 单个文件失败不影响其他文件，可重复执行
+ */
+export async function migrateFileStorage(options: FileMigrateOptions): Promise<FileMigrateResult> {
+  const { from, to, businessType, limit, deleteSource = false, dryRun = false } = options
+  if (from === to) {
+    throw createError({ statusCode: 400, message: '源驱动与目标驱动相同' })
+  }
+
+  const source = getStorageDriver(from)
+  const target = getStorageDriver(to)
+
+  const files = await prisma.fileManagement.findMany({
+    where: { storageDriver: from, ...(businessType ? { businessType } : {}) },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+
+  const result: FileMigrateResult = { total: files.length, migrated: 0, missing: [], failed: [] }
+  if (dryRun) return result
+
+  for (const file of files) {
+    try {
+      const data = await source.get(file.filePath)
+      if (!data) {
+        result.missing.push(file.filePath)
+        continue
+      }
+
+      await target.put(file.filePath, data, getContentType(file.fileName))
+      await prisma.fileManagement.update({
+        where: { id: file.id },
+        data: { storageDriver: to },
+      })
+      if (deleteSource) {
+        await source.delete(file.filePath)
+      }
+      result.migrated++
+    } catch (err: any) {
+      result.failed.push({ filePath: file.filePath, error: err?.message || String(err) })
+    }
+  }
+
+  return result
+}
+
+/**
+ * 补算历史文件的 SHA-256
+ * 去重只对有哈希的文件生效，升级后执行一次即可
+ *
+ * @param limit - 最多处理数量
+ * @returns 处理结果
+ */
+export async function backfillFileHashes(limit?: number): Promise<{ total: number; hashed: number; missing: string[] }> {
+  const files = await prisma.fileManagement.findMany({
+    where: { sha256: null },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+
+  let hashed = 0
+  const missing: string[] = []
+  for (const file of files) {
+    const data = await getStorageDriver(file.storageDriver).get(file.filePath)
+    if (!data) {
+      missing.push(file.filePath)
+      continue
+    }
+    await prisma.fileManagement.update({
+      where: { id: file.id },
+      data: { sha256: hashFileContent(data) },
+    })
+    hashed++
+  }
+
+  return { total: files.length, hashed, missing }
 }
@@ -0,0 +1,351 @@
+/**
+ * 文件引用索引模块
+ *
+ * 记录上传文件被哪些数据引用，用于“未使用文件”报告与删除保护：
+ * - NoteContent / NoteContentRevision / ProjectHome: 正文中的 /uploads/... 地址（首页译文计入所属首页）
+ * - ProjectAvatar: Project.avatar
+ * - ProjectOgImage / NoteOgImage: Project.ogImage / NoteInfo.ogImage
+ * - CompressedNft: CompressedNft.originalImageId
+ *
+ * 索引通过全量扫描重建；删除前另做一次实时检查，避免索引过期导致误删。
+ * 已软删除的正文仍视为引用（可被恢复）。
+ */
+
+import { prisma } from './prisma'
+import { normalizeStorageKey } from './storage'
+
+/** 上传地址（正文中引用的站内文件） */
+const UPLOAD_URL_PATTERN = /\/?uploads\/[^\s)"'<>?#]+/g
+
+/** 扫描批次大小 */
+const SCAN_BATCH_SIZE = 200
+
+/** 写入批次大小 */
+const INSERT_BATCH_SIZE = 1000
+
+/** 索引时间配置键 */
+const INDEXED_AT_CONFIG_KEY = 'file_reference_indexed_at'
+
+// ============ 类型定义 ============
+
+/** 引用方类型 */
+export type FileRefType = 'NoteContent' | 'NoteContentRevision' | 'ProjectHome' | 'ProjectAvatar' | 'ProjectOgImage' | 'NoteOgImage' | 'CompressedNft'
+
+/** 引用方类型名称 */
+export const FileRefTypeLabels: Record<FileRefType, string> = {
+  NoteContent: '笔记内容',
+  NoteContentRevision: '笔记修订',
+  ProjectHome: '项目首页',
+  ProjectAvatar: '项目头像',
+  ProjectOgImage: '项目分享图',
+  NoteOgImage: '笔记分享图',
+  CompressedNft: 'cNFT',
+}
+
+/** 引用记录 */
+export interface FileRef {
+  refType: FileRefType
+  refId: bigint
+}
+
+/** 重建结果 */
+export interface FileReferenceRebuildResult {
+  /** 被引用的文件数 */
+  files: number
+  /** 引用记录数 */
+  references: number
+  /** 索引时间 */
+  indexedAt: Date
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 提取正文中引用的上传文件 Key（uploads/xxx/yyy.png）
+ */
+export function extractUploadKeys(text: string): string[] {
+  const keys = new Set<string>()
+  for (const match of text.match(UPLOAD_URL_PATTERN) ?? []) {
+    const key = normalizeStorageKey(match)
+    if (key) keys.add(key)
+  }
+  return Array.from(keys)
+}
+
+/**
+ * 分批扫描带正文的表（按 id 翻页，refId 为空时引用记录即为该行）
+ */
+async function scanTextRows(
+  fetchBatch: (cursor: bigint) => Promise<{ id: bigint; refId?: bigint; text: string | null }[]>,
+  onRow: (id: bigint, text: string) => void
+): Promise<void> {
+  let cursor = 0n
+  for (;;) {
+    const rows = await fetchBatch(cursor)
+    if (rows.length === 0) break
+    for (const row of rows) {
+      if (row.text) onRow(row.refId ?? row.id, row.text)
+    }
+    cursor = rows[rows.length - 1]!.id
+  }
+}
+
+// ============ 索引重建 ============
+
+/**
+ * 全量重建引用索引
+ */
+export async function rebuildFileReferences(): Promise<FileReferenceRebuildResult> {
+  const files = await prisma.fileManagement.findMany({
+    select: { id: true, filePath: true },
+  })
+  const fileIdByKey = new Map(files.map((f) => [f.filePath, f.id]))
+
+  const refs = new Map<string, { fileId: bigint; refType: FileRefType; refId: bigint }>()
+  const addTextRefs = (refType: FileRefType) => (refId: bigint, text: string) => {
+    for (const key of extractUploadKeys(text)) {
+      const fileId = fileIdByKey.get(key)
+      if (fileId !== undefined) refs.set(`${fileId}:${refType}:${refId}`, { fileId, refType, refId })
+    }
+  }
+
+  await scanTextRows(
+    async (cursor) => (await prisma.noteContent.findMany({
+      where: { id: { gt: cursor } },
+      select: { id: true, content: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.content })),
+    addTextRefs('NoteContent')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.noteContentRevision.findMany({
+      where: { id: { gt: cursor } },
+      select: { id: true, content: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.content })),
+    addTextRefs('NoteContentRevision')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.projectHome.findMany({
+      where: { id: { gt: cursor } },
+      select: { id: true, content: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.content })),
+    addTextRefs('ProjectHome')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.projectHomeTranslation.findMany({
+      where: { id: { gt: cursor } },
+      select: { id: true, projectHomeId: true, content: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, refId: r.projectHomeId, text: r.content })),
+    addTextRefs('ProjectHome')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.project.findMany({
+      where: { id: { gt: cursor }, avatar: { not: null } },
+      select: { id: true, avatar: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.avatar })),
+    addTextRefs('ProjectAvatar')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.project.findMany({
+      where: { id: { gt: cursor }, ogImage: { not: null } },
+      select: { id: true, ogImage: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.ogImage })),
+    addTextRefs('ProjectOgImage')
+  )
+
+  await scanTextRows(
+    async (cursor) => (await prisma.noteInfo.findMany({
+      where: { id: { gt: cursor }, ogImage: { not: null } },
+      select: { id: true, ogImage: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+    })).map((r) => ({ id: r.id, text: r.ogImage })),
+    addTextRefs('NoteOgImage')
+  )
+
+  const fileIds = new Set(files.map((f) => f.id))
+  const cnfts = await prisma.compressedNft.findMany({
+    where: { originalImageId: { not: null } },
+    select: { id: true, originalImageId: true },
+  })
+  for (const cnft of cnfts) {
+    const fileId = cnft.originalImageId!
+    if (fileIds.has(fileId)) {
+      refs.set(`${fileId}:CompressedNft:${cnft.id}`, { fileId, refType: 'CompressedNft', refId: cnft.id })
+    }
+  }
+
+  const rows = Array.from(refs.values())
+  const indexedAt = new Date()
+  await prisma.$transaction(async (tx) => {
+    await tx.fileReference.deleteMany({})
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await tx.fileReference.createMany({
+        data: rows.slice(i, i + INSERT_BATCH_SIZE).map((r) => ({ ...r, createdAt: indexedAt })),
+      })
+    }
+    await tx.systemConfig.upsert({
+      where: { configKey: INDEXED_AT_CONFIG_KEY },
+      update: { configValue: indexedAt.toISOString(), updatedAt: indexedAt },
+      create: {
+        configKey: INDEXED_AT_CONFIG_KEY,
+        configValue: indexedAt.toISOString(),
+        description: '文件引用索引最近重建时间',
+      },
+    })
+  }, { timeout: 60 * 1000 })
+
+  return {
+    files: new Set(rows.map((r) => r.fileId)).size,
+    references: rows.length,
+    indexedAt,
+  }
+}
+
+/**
+ * 获取引用索引最近重建时间
+ * @returns 从未重建时返回 null
+ */
+export async function getFileReferenceIndexedAt(): Promise<Date | null> {
+  const config = await prisma.systemConfig.findUnique({
+    where: { configKey: INDEXED_AT_CONFIG_KEY },
+  })
+  if (!config) return null
+  const date = new Date(config.configValue)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// ============ 实时检查 ============
+
+/**
+ * 实时查找文件的引用（不依赖索引）
+ * 同时刷新该文件的索引记录
+ *
+ * @param file - 文件记录
+ * @param limit - 每种引用最多返回的数量
+ */
+export async function findFileReferences(
+  file: { id: bigint; filePath: string },
+  limit: number = 20
+): Promise<FileRef[]> {
+  const key = file.filePath
+  const [contents, revisions, homes, projects, projectOgImages, noteOgImages, cnfts] = await Promise.all([
+    prisma.noteContent.findMany({ where: { content: { contains: key } }, select: { id: true }, take: limit }),
+    prisma.noteContentRevision.findMany({ where: { content: { contains: key } }, select: { id: true }, take: limit }),
+    prisma.projectHome.findMany({
+      where: { OR: [{ content: { contains: key } }, { translations: { some: { content: { contains: key } } } }] },
+      select: { id: true },
+      take: limit,
+    }),
+    prisma.project.findMany({ where: { avatar: { contains: key } }, select: { id: true }, take: limit }),
+    prisma.project.findMany({ where: { ogImage: { contains: key } }, select: { id: true }, take: limit }),
+    prisma.noteInfo.findMany({ where: { ogImage: { contains: key } }, select: { id: true }, take: limit }),
+    prisma.compressedNft.findMany({ where: { originalImageId: file.id }, select: { id: true }, take: limit }),
+  ])
+
+  const refs: FileRef[] = [
+    ...contents.map((r) => ({ refType: 'NoteContent' as const, refId: r.id })),
+    ...revisions.map((r) => ({ refType: 'NoteContentRevision' as const, refId: r.id })),
+    ...homes.map((r) => ({ refType: 'ProjectHome' as const, refId: r.id })),
+    ...projects.map((r) => ({ refType: 'ProjectAvatar' as const, refId: r.id })),
+    ...projectOgImages.map((r) => ({ refType: 'ProjectOgImage' as const, refId: r.id })),
+    ...noteOgImages.map((r) => ({ refType: 'NoteOgImage' as const, refId: r.id })),
+    ...cnfts.map((r) => ({ refType: 'CompressedNft' as const, refId: r.id })),
+  ]
+
+  await prisma.$transaction([
+    prisma.fileReference.deleteMany({ where: { fileId: file.id } }),
+    prisma.fileReference.createMany({
+      data: refs.map((r) => ({ fileId: file.id, refType: r.refType, refId: r.refId })),
+    }),
+  ])
+
+  return refs
+}
+
+/**
+ * 引用说明（用于错误提示）
+ */
+export function describeFileReferences(refs: FileRef[]): string {
+  const counts = new Map<FileRefType, number>()
+  for (const ref of refs) {
+    counts.set(ref.refType, (counts.get(ref.refType) ?? 0) + 1)
+  }
+  return Array.from(counts, ([type, count]) => `${FileRefTypeLabels[type]} ${count} 处`).join('、')
+}
+
+/**
+ * 确认文件未被引用，否则抛出 409 错误
+ */
+export async function assertFileUnreferenced(file: { id: bigint; filePath: string; originalName: string }): Promise<void> {
+  const refs = await findFileReferences(file)
+  if (refs.length > 0) {
+    throw createError({
+      statusCode: 409,
+      message: `文件 ${file.originalName} 仍被引用（${describeFileReferences(refs)}），无法删除`,
+      data: refs.map((r) => ({ refType: r.refType, refId: r.refId.toString() })),
+    })
+  }
+}
+
+// ============ 未使用文件 ============
+
+/** 未使用文件查询条件 */
+export interface UnusedFileQueryOptions {
+  businessType?: string
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * 查询未使用文件
+ * 仅包含索引重建前上传、且索引中没有引用的正常文件；之后上传的文件计入 unindexed
+ */
+export async function queryUnusedFiles(options: UnusedFileQueryOptions = {}) {
+  const { businessType, page = 1, pageSize = 20 } = options
+  const indexedAt = await getFileReferenceIndexedAt()
+  if (!indexedAt) {
+    return { indexedAt: null, total: 0, totalSize: 0n, unindexed: 0, page, pageSize, list: [] }
+  }
+
+  const base = { status: 1, ...(businessType ? { businessType } : {}) }
+  const where = { ...base, createTime: { lte: indexedAt }, references: { none: {} } }
+
+  const [total, sum, unindexed, list] = await Promise.all([
+    prisma.fileManagement.count({ where }),
+    prisma.fileManagement.aggregate({ where, _sum: { fileSize: true } }),
+    prisma.fileManagement.count({ where: { ...base, createTime: { gt: indexedAt } } }),
+    prisma.fileManagement.findMany({
+      where,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      orderBy: { createTime: 'asc' },
+    }),
+  ])
+
+  return {
+    indexedAt,
+    total,
+    totalSize: sum._sum.fileSize ?? 0n,
+    unindexed,
+    page,
+    pageSize,
+    list,
+  }
+}
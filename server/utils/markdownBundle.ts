@@ -0,0 +1,208 @@
+/**
+ * Markdown 内容包（导出 / 导入共用）
+ *
+ * 包结构：
+ * manifest.json                       清单（项目、首页、菜单、版本/分类元数据与资源列表）
+ * home.md                             项目首页
+ * 01-v1.0/                            版本目录
+ *   01-快速开始/                       分类目录
+ *     01-安装.md                       笔记主版本（YAML front matter + 正文）
+ *     01-安装~1.md                     同一笔记的其他内容版本
+ * assets/markdown/xxx.png             正文引用的 /uploads/markdown 图片
+ *
+ * 目录与文件名前缀（01-）按展示顺序编号，正文中的图片链接改写为相对路径，
+ * 便于离线直接阅读；导入时再重新上传并改写回站内地址。
+ */
+
+import { posix } from 'node:path'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+
+/** 包格式标识 */
+export const BUNDLE_FORMAT = 'slothvault-bundle'
+
+/** 包格式版本 */
+export const BUNDLE_FORMAT_VERSION = 1
+
+/** 清单文件名 */
+export const MANIFEST_FILE = 'manifest.json'
+
+/** 首页文件名 */
+export const HOME_FILE = 'home.md'
+
+/** 资源目录 */
+export const ASSETS_DIR = 'assets'
+
+/** 同一笔记其他内容版本的文件名分隔符（01-安装~1.md） */
+export const CONTENT_VARIANT_SEPARATOR = '~'
+
+/** 正文中引用的 Markdown 图片地址 */
+export const MARKDOWN_UPLOAD_PATTERN = /\/uploads\/markdown\/[^\s)"'<>]+/g
+
+// ============ 类型定义 ============
+
+/**
+ * 笔记文件 front matter
+ */
+export interface NoteFrontMatter {
+  /** 笔记标题 */
+  title?: string
+  /** 笔记权重 */
+  weight?: number
+  /** 笔记状态 */
+  status?: number
+  /** 笔记访问级别 */
+  accessLevel?: string
+  /** 内容版本备注 */
+  versionNote?: string | null
+  /** 是否主显示版本 */
+  isPrimary?: boolean
+  /** 内容版本状态 */
+  contentStatus?: number
+}
+
+/**
+ * 菜单节点
+ */
+export interface BundleMenu {
+  label: string
+  url: string | null
+  isExternal: boolean
+  weight: number
+  status: number
+  children: BundleMenu[]
+}
+
+/**
+ * 分类清单
+ */
+export interface BundleCategory {
+  dir: string
+  categoryName: string
+  weight: number
+  status: number
+  /** 访问级别（旧版内容包没有该字段） */
+  accessLevel?: string
+  /** 笔记文件列表（相对分类目录） */
+  notes: string[]
+}
+
+/**
+ * 版本清单
+ */
+export interface BundleVersion {
+  dir: string
+  version: string
+  description: string | null
+  weight: number
+  status: number
+  categories: BundleCategory[]
+}
+
+/**
+ * 资源清单
+ */
+export interface BundleAsset {
+  /** 站内地址（/uploads/markdown/xxx.png） */
+  url: string
+  /** 包内路径 */
+  file: string
+  size: number
+}
+
+/**
+ * 包清单
+ */
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT
+  formatVersion: number
+  exportedAt: string
+  project: {
+    projectName: string
+    avatar: string | null
+    weight: number
+    status: number
+    requireAuth: boolean
+  }
+  home: { file: string; status: number } | null
+  menus: BundleMenu[]
+  versions: BundleVersion[]
+  assets: BundleAsset[]
+  /** 正文引用但服务器上不存在的资源 */
+  missingAssets: string[]
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 转换为安全的文件/目录名
+ * 去除路径分隔符与 Windows 非法字符，限制长度
+ */
+export function toSafeName(name: string, maxLength: number = 80): string {
+  const safe = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(new RegExp(`\\${CONTENT_VARIANT_SEPARATOR}`, 'g'), '-')
+    .trim()
+    .replace(/^\.+/, '')
+    .slice(0, maxLength)
+    .trim()
+  return safe || 'untitled'
+}
+
+/**
+ * 生成排序前缀（01-、02-…），位数随总数增长
+ */
+export function orderPrefix(index: number, total: number): string {
+  const width = Math.max(2, String(total).length)
+  return `${String(index + 1).padStart(width, '0')}-`
+}
+
+/**
+ * 去除排序前缀
+ * @returns 排序号与名称，无前缀时排序号为 null
+ */
+export function stripOrderPrefix(name: string): { order: number | null; name: string } {
+  const match = /^(\d+)[-_.\s]+(.+)$/.exec(name)
+  if (!match) return { order: null, name }
+  return { order: Number(match[1]), name: match[2]! }
+}
+
+/**
+ * 生成带 YAML front matter 的 Markdown
+ */
+export function stringifyFrontMatter(data: object, body: string): string {
+  return `---\n${stringifyYaml(data)}---\n\n${body}`
+}
+
+/**
+ * 解析 YAML front matter
+ * 没有 front matter 或解析失败时 data 为空对象
+ */
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const source = text.replace(/^\uFEFF/, '')
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(source)
+  if (!match) return { data: {}, body: source }
+
+  let data: unknown
+  try {
+    data = parseYaml(match[1]!)
+  } catch {
+    return { data: {}, body: source }
+  }
+
+  const body = source.slice(match[0].length).replace(/^\r?\n/, '')
+  return {
+    data: data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : {},
+    body,
+  }
+}
+
+/**
+ * 计算包内文件之间的相对路径（用于改写图片链接）
+ * @param fromFile - 引用方文件（包内路径）
+ * @param toFile - 被引用文件（包内路径）
+ */
+export function bundleRelativePath(fromFile: string, toFile: string): string {
+  const relative = posix.relative(posix.dirname(fromFile), toFile)
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
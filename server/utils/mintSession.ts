@@ -1,31 +1,26 @@
 /**
  * 铸造会话管理模块
  *
- * 用于临时存储 cNFT 铸造过程中的会话数据，包括：
- * - 树权限 Keypair（用于交易签名）
- * - Merkle Tree 信息
+ * 用于临时存储 cNFT 铸造、读者购买与后续操作（转移、销毁、委托）过程中的会话数据，包括：
+ * - Merkle Tree 信息（树权限私钥通过 merkleTreeId 引用树记录中的加密私钥）
  * - cNFT 记录信息
  *
- * 会话在 5 分钟后自动过期，防止内存泄漏
+ * 会话保存在 SolanaSessionStore 中，5 分钟后过期；
+ * 会话丢失后遗留的铸造中记录由 solana:recover 任务对账处理
  *
  * Requirements: 3.5, 5.1
  */
 
 import { randomBytes } from 'node:crypto'
-import type { Keypair } from '@solana/web3.js'
+import { getSolanaSessionStore } from './solanaSessionStore'
 
 // 会话过期时间（毫秒）- 5 分钟
 const SESSION_EXPIRY_MS = 5 * 60 * 1000
 
-// 清理间隔（毫秒）- 1 分钟
-const CLEANUP_INTERVAL_MS = 60 * 1000
-
 /**
  * 铸造会话数据结构
  */
 export interface MintSession {
-  /** 树权限 Keypair（从数据库解密） */
-  treeAuthorityKeypair: Keypair
   /** Merkle Tree ID */
   merkleTreeId: bigint
   /** Merkle Tree 地址 */
@@ -49,12 +44,6 @@ export interface MintSession {
  */
 export type CreateMintSessionInput = Omit<MintSession, 'createdAt' | 'expiresAt'>
 
-// 内存会话存储
-const sessionStore = new Map<string, MintSession>()
-
-// 清理定时器引用
-let cleanupTimer: ReturnType<typeof setInterval> | null = null
-
 /**
  * 生成唯一的会话 ID
  * 使用 32 字节随机数，转换为 hex 字符串
@@ -69,20 +58,23 @@ function generateSessionId(): string {
  * @param data - 会话数据（不包含时间戳）
  * @returns 会话 ID
  */
-export function createMintSession(data: CreateMintSessionInput): string {
+export async function createMintSession(data: CreateMintSessionInput): Promise<string> {
   const sessionId = generateSessionId()
   const now = Date.now()
 
-  const session: MintSession = {
-    ...data,
+  await getSolanaSessionStore().set({
+    id: sessionId,
+    kind: 'mint',
+    payload: {
+      ...data,
+      // BigInt 无法 JSON 序列化，以字符串保存
+      merkleTreeId: data.merkleTreeId.toString(),
+      cnftId: data.cnftId.toString(),
+    },
+    encryptedKey: null,
     createdAt: now,
     expiresAt: now + SESSION_EXPIRY_MS,
-  }
-
-  sessionStore.set(sessionId, session)
-
-  // 确保清理定时器已启动
-  ensureCleanupTimer()
+  })
 
   return sessionId
 }
@@ -93,21 +85,23 @@ export function createMintSession(data: CreateMintSessionInput): string {
  * @param sessionId - 会话 ID
  * @returns 会话数据，如果不存在或已过期则返回 null
  */
-export function getMintSession(sessionId: string): MintSession | null {
-  const session = sessionStore.get(sessionId)
-
-  if (!session) {
+export async function getMintSession(sessionId: string): Promise<MintSession | null> {
+  const record = await getSolanaSessionStore().get(sessionId, 'mint')
+  if (!record) {
     return null
   }
 
-  // 检查是否过期
-  if (Date.now() > session.expiresAt) {
-    // 删除过期会话
-    sessionStore.delete(sessionId)
-    return null
+  const payload = record.payload as Record<string, any>
+  return {
+    merkleTreeId: BigInt(payload.merkleTreeId),
+    merkleTreeAddress: payload.merkleTreeAddress,
+    cnftId: BigInt(payload.cnftId),
+    leafIndex: payload.leafIndex,
+    payerAddress: payload.payerAddress,
+    network: payload.network,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
   }
-
-  return session
 }
 
 /**
@@ -115,8 +109,8 @@ export function getMintSession(sessionId: string): MintSession | null {
  *
  * @param sessionId - 会话 ID
  */
-export function deleteMintSession(sessionId: string): void {
-  sessionStore.delete(sessionId)
+export async function deleteMintSession(sessionId: string): Promise<void> {
+  await getSolanaSessionStore().delete(sessionId)
 }
 
 /**
@@ -124,68 +118,285 @@ export function deleteMintSession(sessionId: string): void {
  *
  * @returns 清理的会话数量
  */
-export function cleanExpiredMintSessions(): number {
+export async function cleanExpiredMintSessions(): Promise<number> {
+  return getSolanaSessionStore().cleanExpired('mint')
+}
+
+/**
+ * 获取当前会话数量（用于调试/监控）
+ */
+export async function getMintSessionCount(): Promise<number> {
+  return getSolanaSessionStore().count('mint')
+}
+
+/**
+ * 清除所有会话（用于测试）
+ */
+export async function clearAllMintSessions(): Promise<void> {
+  await getSolanaSessionStore().clear('mint')
+}
+
+// ============ 批量铸造会话 ============
+
+/**
+ * 批量铸造交易中的单个铸造
+ */
+export interface BatchMintEntry {
+  /** 批量任务明细 ID */
+  itemId: bigint
+  /** 预创建的 cNFT 记录 ID */
+  cnftId: bigint
+  /** 叶子索引（按指令顺序连续） */
+  leafIndex: number
+}
+
+/**
+ * 批量铸造会话：对应一笔包含多条 mintV1 指令的交易
+ */
+export interface BatchMintSession {
+  /** 批量任务 ID */
+  jobId: bigint
+  /** Merkle Tree ID */
+  merkleTreeId: bigint
+  /** Merkle Tree 地址 */
+  merkleTreeAddress: string
+  /** 交易中的铸造（与指令顺序一致） */
+  entries: BatchMintEntry[]
+  /** 支付者地址 */
+  payerAddress: string
+  /** 交易消息哈希（提交时校验交易未被替换） */
+  messageHash: string
+  /** 网络类型 */
+  network: string
+  /** 会话创建时间戳 */
+  createdAt: number
+  /** 会话过期时间戳 */
+  expiresAt: number
+}
+
+/**
+ * 创建批量铸造会话
+ *
+ * @returns 会话 ID
+ */
+export async function createBatchMintSession(data: Omit<BatchMintSession, 'createdAt' | 'expiresAt'>): Promise<string> {
+  const sessionId = generateSessionId()
   const now = Date.now()
-  let cleanedCount = 0
 
-  for (const [sessionId, session] of sessionStore.entries()) {
-    if (now > session.expiresAt) {
-      sessionStore.delete(sessionId)
-      cleanedCount++
-    }
-  }
+  await getSolanaSessionStore().set({
+    id: sessionId,
+    kind: 'batch',
+    payload: {
+      ...data,
+      jobId: data.jobId.toString(),
+      merkleTreeId: data.merkleTreeId.toString(),
+      entries: data.entries.map((e) => ({
+        itemId: e.itemId.toString(),
+        cnftId: e.cnftId.toString(),
+        leafIndex: e.leafIndex,
+      })),
+    },
+    encryptedKey: null,
+    createdAt: now,
+    expiresAt: now + SESSION_EXPIRY_MS,
+  })
 
-  return cleanedCount
+  return sessionId
 }
 
 /**
- * 获取当前会话数量（用于调试/监控）
+ * 获取批量铸造会话
+ *
+ * @returns 会话数据，如果不存在或已过期则返回 null
  */
-export function getMintSessionCount(): number {
-  return sessionStore.size
+export async function getBatchMintSession(sessionId: string): Promise<BatchMintSession | null> {
+  const record = await getSolanaSessionStore().get(sessionId, 'batch')
+  if (!record) {
+    return null
+  }
+
+  const payload = record.payload as Record<string, any>
+  return {
+    jobId: BigInt(payload.jobId),
+    merkleTreeId: BigInt(payload.merkleTreeId),
+    merkleTreeAddress: payload.merkleTreeAddress,
+    entries: (payload.entries as any[]).map((e) => ({
+      itemId: BigInt(e.itemId),
+      cnftId: BigInt(e.cnftId),
+      leafIndex: e.leafIndex,
+    })),
+    payerAddress: payload.payerAddress,
+    messageHash: payload.messageHash,
+    network: payload.network,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+  }
 }
 
+// ============ cNFT 操作会话 ============
+
+/** cNFT 操作类型 */
+export type CnftOperationAction = 'transfer' | 'burn' | 'delegate'
+
 /**
- * 清除所有会话（用于测试）
+ * cNFT 操作会话：对应一笔 transfer / burn / delegate 交易
  */
-export function clearAllMintSessions(): void {
-  sessionStore.clear()
+export interface CnftOperationSession {
+  /** cNFT 记录 ID */
+  cnftId: bigint
+  /** 操作类型 */
+  action: CnftOperationAction
+  /** 操作前的持有者（提交时以此为条件更新记录） */
+  ownerAddress: string
+  /** 转移的新持有者 / 新委托者（销毁时为 null） */
+  targetAddress: string | null
+  /** 支付者地址 */
+  payerAddress: string
+  /** 交易消息哈希（提交时校验交易未被替换） */
+  messageHash: string
+  /** 网络类型 */
+  network: string
+  /** 会话创建时间戳 */
+  createdAt: number
+  /** 会话过期时间戳 */
+  expiresAt: number
 }
 
 /**
- * 确保清理定时器已启动
+ * 创建 cNFT 操作会话
+ *
+ * @returns 会话 ID
  */
-function ensureCleanupTimer(): void {
-  if (cleanupTimer === null) {
-    cleanupTimer = setInterval(() => {
-      cleanExpiredMintSessions()
+export async function createCnftOperationSession(data: Omit<CnftOperationSession, 'createdAt' | 'expiresAt'>): Promise<string> {
+  const sessionId = generateSessionId()
+  const now = Date.now()
 
-      // 如果没有会话了，停止定时器
-      if (sessionStore.size === 0 && cleanupTimer !== null) {
-        clearInterval(cleanupTimer)
-        cleanupTimer = null
-      }
-    }, CLEANUP_INTERVAL_MS)
+  await getSolanaSessionStore().set({
+    id: sessionId,
+    kind: 'operation',
+    payload: {
+      ...data,
+      cnftId: data.cnftId.toString(),
+    },
+    encryptedKey: null,
+    createdAt: now,
+    expiresAt: now + SESSION_EXPIRY_MS,
+  })
+
+  return sessionId
+}
 
-    // 确保定时器不会阻止进程退出
-    if (cleanupTimer.unref) {
-      cleanupTimer.unref()
-    }
+/**
+ * 获取 cNFT 操作会话
+ *
+ * @returns 会话数据，如果不存在或已过期则返回 null
+ */
+export async function getCnftOperationSession(sessionId: string): Promise<CnftOperationSession | null> {
+  const record = await getSolanaSessionStore().get(sessionId, 'operation')
+  if (!record) {
+    return null
+  }
+
+  const payload = record.payload as Record<string, any>
+  return {
+    cnftId: BigInt(payload.cnftId),
+    action: payload.action,
+    ownerAddress: payload.ownerAddress,
+    targetAddress: payload.targetAddress ?? null,
+    payerAddress: payload.payerAddress,
+    messageHash: payload.messageHash,
+    network: payload.network,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
   }
 }
 
+// ============ 购买会话 ============
+
+/**
+ * 购买会话：对应一笔「付款 + 铸造」交易
+ */
+export interface PurchaseSession {
+  /** 购买记录 ID */
+  purchaseId: bigint
+  /** 售卖配置 ID */
+  saleId: bigint
+  /** cNFT 记录 ID */
+  cnftId: bigint
+  /** Merkle Tree 记录 ID */
+  merkleTreeId: bigint
+  /** Merkle Tree 地址 */
+  merkleTreeAddress: string
+  /** 叶子索引 */
+  leafIndex: number
+  /** 购买者地址（付款方与接收者） */
+  buyerAddress: string
+  /** 交易消息哈希（提交时校验交易未被替换） */
+  messageHash: string
+  /** 网络类型 */
+  network: string
+  /** 会话创建时间戳 */
+  createdAt: number
+  /** 会话过期时间戳 */
+  expiresAt: number
+}
+
 /**
- * 停止清理定时器（用于测试清理）
+ * 创建购买会话
+ *
+ * @returns 会话 ID
  */
-export function stopMintCleanupTimer(): void {
-  if (cleanupTimer !== null) {
-    clearInterval(cleanupTimer)
-    cleanupTimer = null
+export async function createPurchaseSession(data: Omit<PurchaseSession, 'createdAt' | 'expiresAt'>): Promise<string> {
+  const sessionId = generateSessionId()
+  const now = Date.now()
+
+  await getSolanaSessionStore().set({
+    id: sessionId,
+    kind: 'purchase',
+    payload: {
+      ...data,
+      purchaseId: data.purchaseId.toString(),
+      saleId: data.saleId.toString(),
+      cnftId: data.cnftId.toString(),
+      merkleTreeId: data.merkleTreeId.toString(),
+    },
+    encryptedKey: null,
+    createdAt: now,
+    expiresAt: now + SESSION_EXPIRY_MS,
+  })
+
+  return sessionId
+}
+
+/**
+ * 获取购买会话
+ *
+ * @returns 会话数据，如果不存在或已过期则返回 null
+ */
+export async function getPurchaseSession(sessionId: string): Promise<PurchaseSession | null> {
+  const record = await getSolanaSessionStore().get(sessionId, 'purchase')
+  if (!record) {
+    return null
+  }
+
+  const payload = record.payload as Record<string, any>
+  return {
+    purchaseId: BigInt(payload.purchaseId),
+    saleId: BigInt(payload.saleId),
+    cnftId: BigInt(payload.cnftId),
+    merkleTreeId: BigInt(payload.merkleTreeId),
+    merkleTreeAddress: payload.merkleTreeAddress,
+    leafIndex: payload.leafIndex,
+    buyerAddress: payload.buyerAddress,
+    messageHash: payload.messageHash,
+    network: payload.network,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
   }
 }
 
 /**
- * 获取会话过期时间（毫秒）- 用于测试
+ * 获取会话过期时间（毫秒）
  */
 export function getSessionExpiryMs(): number {
   return SESSION_EXPIRY_MS
@@ -0,0 +1,247 @@
+/**
+ * 笔记阅读权限模块
+ *
+ * 访问级别可配置在项目（requireAuth）、分类与笔记上，由 resolveAccessLevel 统一解析：
+ * - 笔记为 inherit 时继承分类，分类为 inherit 时继承项目（requireAuth → wallet，否则 public）
+ * - public: 公开；wallet: 钱包需持有项目对应的 cNFT（status = 1）或有效的访问授权；admin: 仅管理员
+ *
+ * 侧边栏（锁定图标）、笔记内容（鉴权）、检索（摘要）都通过本模块判定；
+ * 未授权时生成摘要内容（teaser）。
+ */
+
+import type { H3Event } from 'h3'
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+import { isValidSolanaAddress } from './bubblegum'
+import { readReaderWallet } from './readerSession'
+import { readSession } from './session'
+import { hasActiveAccessGrant } from './accessGrant'
+
+// 摘要最大字符数
+const TEASER_MAX_LENGTH = 300
+
+/**
+ * 访问级别
+ * - inherit: 继承上级（分类继承项目，笔记继承分类）
+ * - public: 公开
+ * - wallet: 需持有项目对应的 cNFT 或有效的访问授权
+ * - admin: 仅管理员可见
+ */
+export type AccessLevel = 'inherit' | 'public' | 'wallet' | 'admin'
+
+/** 解析后的访问级别 */
+export type EffectiveAccessLevel = Exclude<AccessLevel, 'inherit'>
+
+/** 所有有效的访问级别 */
+export const ACCESS_LEVELS: AccessLevel[] = ['inherit', 'public', 'wallet', 'admin']
+
+/**
+ * 锁定原因
+ * - WALLET_REQUIRED: 未提供钱包地址
+ * - INVALID_WALLET: 钱包地址格式无效
+ * - NFT_REQUIRED: 钱包未持有项目对应的 cNFT，也没有有效的访问授权
+ * - ADMIN_ONLY: 仅管理员可见
+ */
+export type NoteLockReason = 'WALLET_REQUIRED' | 'INVALID_WALLET' | 'NFT_REQUIRED' | 'ADMIN_ONLY'
+
+/**
+ * 阅读权限判定结果
+ */
+export interface NoteAccessResult {
+  /** 是否允许阅读全文 */
+  granted: boolean
+  /** 锁定原因（允许阅读时为 null） */
+  reason: NoteLockReason | null
+}
+
+/**
+ * 访问者
+ */
+export interface AccessViewer {
+  /** 读者会话中已验证的钱包地址 */
+  walletAddress?: string | null
+  /** 是否为已登录的管理员（可阅读全部内容） */
+  isAdmin?: boolean
+}
+
+/**
+ * 判断是否为有效的访问级别
+ */
+export function isAccessLevel(value: unknown): value is AccessLevel {
+  return ACCESS_LEVELS.includes(value as AccessLevel)
+}
+
+/**
+ * 解析笔记的访问级别（笔记 → 分类 → 项目）
+ *
+ * @param project - 项目（requireAuth）
+ * @param category - 分类（accessLevel，可省略）
+ * @param note - 笔记（accessLevel，可省略）
+ */
+export function resolveAccessLevel(
+  project: { requireAuth: boolean },
+  category?: { accessLevel: string } | null,
+  note?: { accessLevel: string } | null
+): EffectiveAccessLevel {
+  for (const level of [note?.accessLevel, category?.accessLevel]) {
+    if (level && level !== 'inherit' && isAccessLevel(level)) {
+      return level as EffectiveAccessLevel
+    }
+  }
+  return project.requireAuth ? 'wallet' : 'public'
+}
+
+/**
+ * 按解析后的访问级别生成 SQL 表达式（检索时按行判定，n / c 为笔记与分类表别名）
+ */
+export function accessLevelSql(project: { requireAuth: boolean }): Prisma.Sql {
+  return Prisma.sql`COALESCE(
+    NULLIF(n."accessLevel", 'inherit'),
+    NULLIF(c."accessLevel", 'inherit'),
+    ${project.requireAuth ? 'wallet' : 'public'}
+  )`
+}
+
+/**
+ * 从请求中读取访问者（读者会话钱包与管理员会话）
+ */
+export async function readAccessViewer(event: H3Event): Promise<AccessViewer> {
+  const [walletAddress, session] = await Promise.all([
+    readReaderWallet(event),
+    readSession(event),
+  ])
+  return { walletAddress, isAdmin: !!session }
+}
+
+/**
+ * 检查钱包是否持有项目对应的 cNFT
+ *
+ * @param projectId - 项目 ID
+ * @param walletAddress - 钱包地址
+ * @returns 是否持有状态正常的 cNFT
+ */
+export async function hasProjectCnft(projectId: bigint, walletAddress: string): Promise<boolean> {
+  const count = await prisma.compressedNft.count({
+    where: {
+      projectId,
+      ownerAddress: walletAddress,
+      status: 1,
+    },
+  })
+  return count > 0
+}
+
+/**
+ * 检查钱包是否可阅读项目的 wallet 级别内容（持有 cNFT 或有有效授权）
+ *
+ * @param projectId - 项目 ID
+ * @param walletAddress - 钱包地址
+ */
+export async function hasProjectAccess(projectId: bigint, walletAddress: string): Promise<boolean> {
+  if (await hasProjectCnft(projectId, walletAddress)) return true
+  return hasActiveAccessGrant(projectId, walletAddress)
+}
+
+/**
+ * 创建访问判定函数
+ * 同一请求内多次判定（如侧边栏逐个笔记）只查询一次 cNFT 持有与访问授权
+ *
+ * @param project - 项目信息
+ * @param viewer - 访问者
+ * @returns 按访问级别判定阅读权限的函数
+ */
+export function createAccessChecker(
+  project: { id: bigint },
+  viewer: AccessViewer
+): (level: EffectiveAccessLevel) => Promise<NoteAccessResult> {
+  let hasAccess: Promise<boolean> | null = null
+
+  return async (level) => {
+    if (level === 'public' || viewer.isAdmin) {
+      return { granted: true, reason: null }
+    }
+
+    if (level === 'admin') {
+      return { granted: false, reason: 'ADMIN_ONLY' }
+    }
+
+    const walletAddress = viewer.walletAddress
+    if (!walletAddress) {
+      return { granted: false, reason: 'WALLET_REQUIRED' }
+    }
+
+    if (!isValidSolanaAddress(walletAddress)) {
+      return { granted: false, reason: 'INVALID_WALLET' }
+    }
+
+    hasAccess ??= hasProjectAccess(project.id, walletAddress)
+    if (!await hasAccess) {
+      return { granted: false, reason: 'NFT_REQUIRED' }
+    }
+
+    return { granted: true, reason: null }
+  }
+}
+
+/**
+ * 判定访问者对笔记的阅读权限
+ *
+ * @param project - 项目信息（id 与 requireAuth）
+ * @param viewer - 访问者
+ * @param scope - 笔记所在分类与笔记本身的访问级别（省略时只按项目判定）
+ * @returns 阅读权限判定结果
+ */
+export async function resolveNoteAccess(
+  project: { id: bigint; requireAuth: boolean },
+  viewer: AccessViewer,
+  scope: { category?: { accessLevel: string } | null; note?: { accessLevel: string } | null } = {}
+): Promise<NoteAccessResult> {
+  return createAccessChecker(project, viewer)(resolveAccessLevel(project, scope.category, scope.note))
+}
+
+/**
+ * 访问者可阅读全文的访问级别
+ */
+export async function resolveReadableLevels(
+  project: { id: bigint },
+  viewer: AccessViewer
+): Promise<EffectiveAccessLevel[]> {
+  const check = createAccessChecker(project, viewer)
+  const levels: EffectiveAccessLevel[] = []
+  for (const level of ['public', 'wallet', 'admin'] as const) {
+    if ((await check(level)).granted) levels.push(level)
+  }
+  return levels
+}
+
+/**
+ * 生成 Markdown 摘要
+ *
+ * 按段落累加，直到超过最大长度；首段过长时直接截断。
+ * 未闭合的代码块会被补齐，避免渲染错乱。
+ *
+ * @param content - Markdown 正文
+ * @param maxLength - 最大字符数
+ * @returns 摘要内容
+ */
+export function buildTeaser(content: string, maxLength: number = TEASER_MAX_LENGTH): string {
+  const paragraphs = content.split(/\n\s*\n/)
+  let teaser = ''
+
+  for (const paragraph of paragraphs) {
+    const next = teaser ? `${teaser}\n\n${paragraph}` : paragraph
+    if (next.length > maxLength) {
+      if (!teaser) teaser = `${paragraph.slice(0, maxLength)}…`
+      break
+    }
+    teaser = next
+  }
+
+  // 补齐未闭合的代码块
+  const fenceCount = (teaser.match(/^```/gm) || []).length
+  if (fenceCount % 2 === 1) {
+    teaser += '\n```'
+  }
+
+  return teaser
+}
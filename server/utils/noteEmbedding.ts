@@ -0,0 +1,251 @@
+/**
+ * 笔记语义检索模块
+ *
+ * 流程：
+ * 1. 将主显示版本正文按 Markdown 标题切分为分块（过长的分块再按段落拆分）
+ * 2. 通过 EmbeddingProvider 向量化后写入 NoteEmbeddingChunk（pgvector）
+ * 3. 查询时向量化检索语句，按余弦距离返回最相近的分块
+ */
+
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+import { getEmbeddingProvider, toVectorLiteral } from './embedding'
+import { findVisibleContent, markdownToPlainText } from './noteSearch'
+import { accessLevelSql, type EffectiveAccessLevel } from './noteAccess'
+
+// 单个分块最大字符数
+const CHUNK_MAX_LENGTH = 800
+
+// 单次向量化请求的最大分块数
+const EMBED_BATCH_SIZE = 16
+
+/**
+ * Markdown 分块
+ */
+export interface MarkdownChunk {
+  /** 标题路径（如：安装 / 环境要求），正文开头无标题时为 null */
+  heading: string | null
+  /** 纯文本内容 */
+  content: string
+}
+
+/**
+ * 语义检索结果
+ */
+export interface NoteChunkHit {
+  chunkId: bigint
+  noteInfoId: bigint
+  noteSlug: string | null
+  noteTitle: string
+  heading: string | null
+  content: string
+  categoryId: bigint
+  categoryName: string
+  projectVersionId: bigint
+  versionSlug: string | null
+  version: string
+  /** 解析后的访问级别 */
+  accessLevel: EffectiveAccessLevel
+  score: number
+}
+
+/**
+ * 将过长文本按段落拆分
+ */
+function splitLongText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text]
+
+  const pieces: string[] = []
+  let current = ''
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const next = current ? `${current}\n\n${paragraph}` : paragraph
+    if (next.length <= maxLength) {
+      current = next
+      continue
+    }
+    if (current) pieces.push(current)
+    current = paragraph
+    // 单个段落超长时直接按长度切分，剩余部分继续累加
+    while (current.length > maxLength) {
+      pieces.push(current.slice(0, maxLength))
+      current = current.slice(maxLength)
+    }
+  }
+  if (current) pieces.push(current)
+  return pieces
+}
+
+/**
+ * 按标题切分 Markdown
+ * 代码块内的 # 不视为标题
+ *
+ * @param markdown - Markdown 正文
+ * @param maxLength - 单个分块最大字符数
+ */
+export function chunkMarkdown(markdown: string, maxLength: number = CHUNK_MAX_LENGTH): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = []
+  const headingStack: { level: number; text: string }[] = []
+  let buffer: string[] = []
+  let inFence = false
+
+  const flush = () => {
+    const heading = headingStack.length > 0 ? headingStack.map((h) => h.text).join(' / ') : null
+    const raw = buffer.join('\n')
+    buffer = []
+    for (const piece of splitLongText(raw, maxLength)) {
+      const content = markdownToPlainText(piece)
+      if (content) chunks.push({ heading, content })
+    }
+  }
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      buffer.push(line)
+      continue
+    }
+
+    const match = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line)
+    if (!match) {
+      buffer.push(line)
+      continue
+    }
+
+    flush()
+    const level = match[1]!.length
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1]!.level >= level) {
+      headingStack.pop()
+    }
+    headingStack.push({ level, text: markdownToPlainText(match[2]!) })
+  }
+  flush()
+
+  return chunks
+}
+
+/**
+ * 重新生成单个笔记的向量分块
+ * 笔记不存在、已删除或没有可见内容时清空分块
+ *
+ * @param noteInfoId - 笔记信息 ID
+ * @returns 生成的分块数量
+ */
+export async function refreshNoteEmbeddings(noteInfoId: bigint): Promise<number> {
+  const note = await prisma.noteInfo.findUnique({
+    where: { id: noteInfoId },
+    select: { id: true, noteTitle: true, isDeleted: true },
+  })
+  const content = note && !note.isDeleted ? await findVisibleContent(noteInfoId) : null
+
+  if (!note || !content) {
+    await prisma.noteEmbeddingChunk.deleteMany({ where: { noteInfoId } })
+    return 0
+  }
+
+  const provider = getEmbeddingProvider()
+  const chunks = chunkMarkdown(content.content)
+
+  // 向量化文本包含标题上下文，提升召回效果
+  const inputs = chunks.map((chunk) => [note.noteTitle, chunk.heading, chunk.content].filter(Boolean).join('\n'))
+  const vectors: number[][] = []
+  for (let i = 0; i < inputs.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await provider.embed(inputs.slice(i, i + EMBED_BATCH_SIZE)))
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.noteEmbeddingChunk.deleteMany({ where: { noteInfoId } })
+    for (const [index, chunk] of chunks.entries()) {
+      await tx.$executeRaw`
+        INSERT INTO "docs"."NoteEmbeddingChunk"
+          ("noteInfoId", "noteContentId", "chunkIndex", "heading", "content", "embedding", "provider")
+        VALUES (
+          ${noteInfoId},
+          ${content.id},
+          ${index},
+          ${chunk.heading},
+          ${chunk.content},
+          ${toVectorLiteral(vectors[index]!)}::vector,
+          ${provider.name}
+        )
+      `
+    }
+  })
+
+  return chunks.length
+}
+
+/**
+ * 重新生成向量分块（失败只记录日志，不影响主流程）
+ */
+export async function refreshNoteEmbeddingsSafely(noteInfoId: bigint): Promise<void> {
+  try {
+    await refreshNoteEmbeddings(noteInfoId)
+  } catch (err) {
+    console.error(`[Embedding] 向量化笔记失败: noteInfoId=${noteInfoId}`, err)
+  }
+}
+
+/**
+ * 重新生成全部笔记的向量分块
+ * @returns 处理的笔记数量与生成的分块数量
+ */
+export async function rebuildNoteEmbeddings(): Promise<{ notes: number; chunks: number }> {
+  const notes = await prisma.noteInfo.findMany({
+    where: { isDeleted: false },
+    select: { id: true },
+  })
+
+  let chunks = 0
+  for (const note of notes) {
+    chunks += await refreshNoteEmbeddings(note.id)
+  }
+
+  return { notes: notes.length, chunks }
+}
+
+/**
+ * 语义检索
+ * 仅检索当前提供者生成的向量，并过滤状态与软删除；访问者无法阅读全文的笔记不参与检索，
+ * 避免通过相似度得分推测受保护笔记的正文
+ */
+export async function searchNoteChunks(options: {
+  projectId: bigint
+  versionId?: bigint | null
+  query: string
+  limit?: number
+  /** 项目鉴权设置（用于解析未配置访问级别的笔记） */
+  project: { requireAuth: boolean }
+  /** 当前访问者可阅读全文的访问级别 */
+  readableLevels: EffectiveAccessLevel[]
+}): Promise<NoteChunkHit[]> {
+  const { projectId, versionId = null, query, limit = 10, project, readableLevels } = options
+  const level = accessLevelSql(project)
+  if (readableLevels.length === 0) return []
+
+  const provider = getEmbeddingProvider()
+  const [queryVector] = await provider.embed([query])
+  if (!queryVector) return []
+  const literal = toVectorLiteral(queryVector)
+
+  return prisma.$queryRaw<NoteChunkHit[]>`
+    SELECT
+      e."id" AS "chunkId", e."noteInfoId", n."slug" AS "noteSlug", n."noteTitle", e."heading", e."content",
+      c."id" AS "categoryId", c."categoryName",
+      v."id" AS "projectVersionId", v."slug" AS "versionSlug", v."version",
+      ${level} AS "accessLevel",
+      (1 - (e."embedding" <=> ${literal}::vector))::float8 AS "score"
+    FROM "docs"."NoteEmbeddingChunk" e
+    JOIN "docs"."NoteInfo" n ON n."id" = e."noteInfoId"
+    JOIN "collections"."Category" c ON c."id" = n."categoryId"
+    JOIN "collections"."ProjectVersion" v ON v."id" = c."projectVersionId"
+    WHERE e."provider" = ${provider.name}
+      AND n."isDeleted" = false AND n."status" = 1
+      AND c."isDeleted" = false AND c."status" = 1
+      AND v."isDeleted" = false AND v."status" = 1
+      AND v."projectId" = ${projectId}
+      ${versionId !== null ? Prisma.sql`AND v."id" = ${versionId}` : Prisma.empty}
+      AND ${level} IN (${Prisma.join(readableLevels)})
+    ORDER BY e."embedding" <=> ${literal}::vector
+    LIMIT ${limit}
+  `
+}
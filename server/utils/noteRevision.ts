@@ -0,0 +1,93 @@
+/**
+ * 笔记内容修订历史模块
+ *
+ * 每次修改 NoteContent 正文前，将旧正文写入 NoteContentRevision：
+ * - 修订记录只追加，不提供修改与删除接口
+ * - 与正文更新在同一事务中完成，保证不会出现“已覆盖但未留档”
+ * - 正文未变化（哈希相同）时不产生修订
+ */
+
+import { createHash } from 'node:crypto'
+import type { H3Event } from 'h3'
+import { Prisma, type NoteContent } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * 修订操作类型
+ */
+export type RevisionAction = 'update' | 'rollback' | 'import'
+
+/**
+ * 修订操作人
+ */
+export interface RevisionActor {
+  userId: number | null
+  username: string | null
+}
+
+/**
+ * 计算正文哈希
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
+/**
+ * 从管理员会话中获取操作人
+ */
+export function getRevisionActor(event: H3Event): RevisionActor {
+  const session = event.context.session
+  return {
+    userId: session?.userId ?? null,
+    username: session?.User?.username ?? null,
+  }
+}
+
+/**
+ * 修改正文并记录修订
+ *
+ * @param noteContentId - 笔记内容 ID
+ * @param data - 更新数据，content 为新正文
+ * @param actor - 操作人
+ * @param action - 操作类型
+ * @param tx - 外部事务（不传则单独开启事务）
+ * @returns 更新后的笔记内容；记录不存在时返回 null
+ */
+export async function updateContentWithRevision(
+  noteContentId: bigint,
+  data: Prisma.NoteContentUpdateInput & { content: string },
+  actor: RevisionActor,
+  action: RevisionAction = 'update',
+  tx?: Prisma.TransactionClient
+): Promise<NoteContent | null> {
+  if (!tx) {
+    return prisma.$transaction((client) => updateContentWithRevision(noteContentId, data, actor, action, client))
+  }
+
+  // 行锁，避免并发保存时丢失中间版本
+  const rows = await tx.$queryRaw<{ id: bigint; noteInfoId: bigint; content: string }[]>`
+    SELECT "id", "noteInfoId", "content" FROM "docs"."NoteContent" WHERE "id" = ${noteContentId} FOR UPDATE
+  `
+  const current = rows[0]
+  if (!current) return null
+
+  const previousHash = hashContent(current.content)
+  if (previousHash !== hashContent(data.content)) {
+    await tx.noteContentRevision.create({
+      data: {
+        noteContentId: current.id,
+        noteInfoId: current.noteInfoId,
+        content: current.content,
+        contentHash: previousHash,
+        action,
+        userId: actor.userId,
+        username: actor.username,
+      },
+    })
+  }
+
+  return tx.noteContent.update({
+    where: { id: noteContentId },
+    data,
+  })
+}
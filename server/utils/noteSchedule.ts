@@ -0,0 +1,204 @@
+/**
+ * 笔记定时发布模块
+ *
+ * 内容版本可以预约在指定时间发布，内容版本或整篇笔记可以预约在指定时间下线：
+ * - publish：将内容版本设为其语言的主版本并启用，笔记处于停用状态时一并启用
+ * - unpublish：停用内容版本；未指定内容版本时停用整篇笔记
+ *
+ * 计划由定时任务 notes:schedule 执行，认领计划与修改内容在同一事务中完成，
+ * 并发执行时同一计划只会生效一次。执行失败的计划标记为 failed 并记录原因，不会重试。
+ */
+
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+import { refreshNoteSearchIndexSafely } from './noteSearch'
+import { refreshNoteEmbeddingsSafely } from './noteEmbedding'
+
+/** 单次最多执行的计划数 */
+const DEFAULT_BATCH_LIMIT = 100
+
+/** 失败原因最大长度 */
+const ERROR_MAX_LENGTH = 500
+
+// ============ 类型定义 ============
+
+/**
+ * 计划操作类型
+ */
+export type NoteScheduleAction = 'publish' | 'unpublish'
+
+/**
+ * 计划状态
+ */
+export type NoteScheduleStatus = 'pending' | 'done' | 'failed' | 'cancelled'
+
+export const NOTE_SCHEDULE_ACTIONS: NoteScheduleAction[] = ['publish', 'unpublish']
+
+/** 执行选项 */
+export interface NoteScheduleRunOptions {
+  /** 执行时间点（默认当前时间），runAt 不晚于该时间的计划会被执行 */
+  now?: Date
+  /** 最多执行的计划数 */
+  limit?: number
+}
+
+/** 单条计划的执行结果 */
+export interface NoteScheduleRunItem {
+  id: string
+  noteInfoId: string
+  noteContentId: string | null
+  action: NoteScheduleAction
+  /** done=执行成功 failed=执行失败 skipped=已被其他进程执行或取消 */
+  result: 'done' | 'failed' | 'skipped'
+  reason: string | null
+}
+
+/** 执行报告 */
+export interface NoteScheduleRunReport {
+  checked: number
+  items: NoteScheduleRunItem[]
+}
+
+/**
+ * 计划无法执行（内容已删除等），记录为失败原因
+ */
+class NoteScheduleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NoteScheduleError'
+  }
+}
+
+/**
+ * 判断是否为有效的计划操作类型
+ */
+export function isNoteScheduleAction(value: unknown): value is NoteScheduleAction {
+  return typeof value === 'string' && (NOTE_SCHEDULE_ACTIONS as string[]).includes(value)
+}
+
+// ============ 执行 ============
+
+/**
+ * 在事务中执行计划
+ *
+ * @returns 是否执行（计划已不是待执行状态时返回 false）
+ */
+async function applySchedule(
+  tx: Prisma.TransactionClient,
+  schedule: { id: bigint; noteInfoId: bigint; noteContentId: bigint | null; action: string },
+  now: Date
+): Promise<boolean> {
+  // 认领计划：只有仍处于待执行状态时才继续
+  const claimed = await tx.noteSchedule.updateMany({
+    where: { id: schedule.id, status: 'pending' },
+    data: { status: 'done', executedAt: now, updatedAt: now },
+  })
+  if (claimed.count === 0) return false
+
+  if (schedule.action === 'publish') {
+    const content = schedule.noteContentId === null ? null : await tx.noteContent.findUnique({
+      where: { id: schedule.noteContentId },
+      select: { id: true, noteInfoId: true, locale: true, isDeleted: true },
+    })
+    if (!content || content.isDeleted || content.noteInfoId !== schedule.noteInfoId) {
+      throw new NoteScheduleError('内容版本不存在或已删除')
+    }
+
+    await tx.noteContent.updateMany({
+      where: { noteInfoId: content.noteInfoId, locale: content.locale, isPrimary: true, id: { not: content.id } },
+      data: { isPrimary: false, updatedAt: now },
+    })
+    await tx.noteContent.update({
+      where: { id: content.id },
+      data: { isPrimary: true, status: 1, updatedAt: now },
+    })
+    await tx.noteInfo.updateMany({
+      where: { id: content.noteInfoId, isDeleted: false, status: { not: 1 } },
+      data: { status: 1, updatedAt: now },
+    })
+    return true
+  }
+
+  if (schedule.action === 'unpublish') {
+    if (schedule.noteContentId === null) {
+      await tx.noteInfo.update({
+        where: { id: schedule.noteInfoId },
+        data: { status: 0, updatedAt: now },
+      })
+    } else {
+      const content = await tx.noteContent.findUnique({
+        where: { id: schedule.noteContentId },
+        select: { isDeleted: true },
+      })
+      if (!content || content.isDeleted) throw new NoteScheduleError('内容版本不存在或已删除')
+
+      await tx.noteContent.update({
+        where: { id: schedule.noteContentId },
+        data: { status: 0, updatedAt: now },
+      })
+    }
+    return true
+  }
+
+  throw new NoteScheduleError(`未知的操作类型：${schedule.action}`)
+}
+
+/**
+ * 执行到期的计划
+ * 按执行时间先后依次处理，每个计划单独事务；执行后刷新笔记的检索索引与向量
+ */
+export async function runDueNoteSchedules(options: NoteScheduleRunOptions = {}): Promise<NoteScheduleRunReport> {
+  const now = options.now ?? new Date()
+  const limit = options.limit ?? DEFAULT_BATCH_LIMIT
+
+  const schedules = await prisma.noteSchedule.findMany({
+    where: { status: 'pending', runAt: { lte: now } },
+    orderBy: [{ runAt: 'asc' }, { id: 'asc' }],
+    take: limit,
+    select: { id: true, noteInfoId: true, noteContentId: true, action: true },
+  })
+
+  const items: NoteScheduleRunItem[] = []
+  const touchedNotes = new Set<bigint>()
+
+  for (const schedule of schedules) {
+    const item: NoteScheduleRunItem = {
+      id: schedule.id.toString(),
+      noteInfoId: schedule.noteInfoId.toString(),
+      noteContentId: schedule.noteContentId?.toString() ?? null,
+      action: schedule.action as NoteScheduleAction,
+      result: 'done',
+      reason: null,
+    }
+
+    try {
+      const applied = await prisma.$transaction((tx) => applySchedule(tx, schedule, new Date()))
+      if (applied) {
+        touchedNotes.add(schedule.noteInfoId)
+      } else {
+        item.result = 'skipped'
+      }
+    } catch (err: any) {
+      const reason = err instanceof NoteScheduleError ? err.message : String(err?.message ?? err)
+      item.result = 'failed'
+      item.reason = reason
+      // 事务已回滚，计划仍为待执行，单独标记失败
+      await prisma.noteSchedule.updateMany({
+        where: { id: schedule.id, status: 'pending' },
+        data: { status: 'failed', error: reason.slice(0, ERROR_MAX_LENGTH), executedAt: new Date(), updatedAt: new Date() },
+      })
+      if (!(err instanceof NoteScheduleError)) {
+        console.error(`[Note Schedule] 计划 ${schedule.id} 执行失败:`, err)
+      }
+    }
+
+    items.push(item)
+  }
+
+  for (const noteInfoId of touchedNotes) {
+    await refreshNoteSearchIndexSafely(noteInfoId)
+    await refreshNoteEmbeddingsSafely(noteInfoId)
+  }
+
+  return { checked: schedules.length, items }
+}
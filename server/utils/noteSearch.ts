@@ -0,0 +1,311 @@
+/**
+ * 笔记全文检索模块
+ *
+ * PostgreSQL 内置分词配置不支持中文，这里在应用层预分词：
+ * - 中日韩字符按二元组（bigram）切分，单字保留
+ * - 其他文字按单词切分并转小写
+ * 分词结果以空格拼接后交给 simple 配置生成 tsvector / tsquery。
+ *
+ * 索引只包含笔记标题与主显示版本正文，状态、软删除与访问级别在查询时过滤。
+ */
+
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+import { accessLevelSql, type EffectiveAccessLevel } from './noteAccess'
+
+// 中日韩字符（汉字、假名、谚文）
+const CJK_PATTERN = /[㐀-䶿一-鿿豈-﫿぀-ヿ가-힯]+/
+// 分词片段：连续的中日韩字符，或连续的字母数字
+const SEGMENT_PATTERN = /[㐀-䶿一-鿿豈-﫿぀-ヿ가-힯]+|[\p{L}\p{N}_]+/gu
+
+// 摘要上下文长度（匹配位置前后各取的字符数）
+const SNIPPET_RADIUS = 60
+
+/**
+ * 检索结果
+ */
+export interface NoteSearchHit {
+  noteInfoId: bigint
+  noteSlug: string | null
+  title: string
+  body: string
+  categoryId: bigint
+  categoryName: string
+  projectVersionId: bigint
+  versionSlug: string | null
+  version: string
+  /** 解析后的访问级别 */
+  accessLevel: EffectiveAccessLevel
+  rank: number
+}
+
+/**
+ * 检索选项
+ */
+export interface NoteSearchOptions {
+  /** 项目 ID */
+  projectId: bigint
+  /** 版本 ID（为空则检索项目下所有版本） */
+  versionId?: bigint | null
+  /** 检索关键字 */
+  query: string
+  /** 项目鉴权设置（用于解析未配置访问级别的笔记） */
+  project: { requireAuth: boolean }
+  /** 当前访问者可阅读全文的访问级别，其余级别仅匹配标题，admin 级别不可读时不返回 */
+  readableLevels: EffectiveAccessLevel[]
+  /** 分页 - 页码（从1开始） */
+  page?: number
+  /** 分页 - 每页数量 */
+  pageSize?: number
+}
+
+/**
+ * 将 Markdown 转换为纯文本（用于索引与摘要）
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[`*_~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * 分词
+ * @returns 小写分词列表（可能包含重复项）
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+    if (!CJK_PATTERN.test(segment)) {
+      tokens.push(segment.toLowerCase())
+      continue
+    }
+    const chars = Array.from(segment)
+    if (chars.length === 1) {
+      tokens.push(segment)
+      continue
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i]! + chars[i + 1]!)
+    }
+  }
+  return tokens
+}
+
+/**
+ * 获取笔记当前对外展示的内容版本（与公开笔记接口保持一致）
+ * 优先主显示版本，否则取最新的启用版本
+ *
+ * @param noteInfoId - 笔记信息 ID
+ * @param locale - 内容语言（NoteContent.locale），默认原文
+ */
+export async function findVisibleContent(noteInfoId: bigint, locale: string | null = null) {
+  const primary = await prisma.noteContent.findFirst({
+    where: { noteInfoId, locale, isPrimary: true, isDeleted: false, status: 1 },
+  })
+  if (primary) return primary
+
+  return prisma.noteContent.findFirst({
+    where: { noteInfoId, locale, isDeleted: false, status: 1 },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * 刷新单个笔记的检索索引
+ * 笔记不存在或已删除时移除索引
+ *
+ * @param noteInfoId - 笔记信息 ID
+ */
+export async function refreshNoteSearchIndex(noteInfoId: bigint): Promise<void> {
+  const note = await prisma.noteInfo.findUnique({
+    where: { id: noteInfoId },
+    select: { id: true, noteTitle: true, isDeleted: true },
+  })
+
+  if (!note || note.isDeleted) {
+    await prisma.noteSearchIndex.deleteMany({ where: { noteInfoId } })
+    return
+  }
+
+  const content = await findVisibleContent(noteInfoId)
+  const body = content ? markdownToPlainText(content.content) : ''
+  const titleTokens = tokenize(note.noteTitle).join(' ')
+  const bodyTokens = tokenize(body).join(' ')
+
+  await prisma.$executeRaw`
+    INSERT INTO "docs"."NoteSearchIndex" ("noteInfoId", "noteContentId", "title", "body", "searchVector", "updatedAt")
+    VALUES (
+      ${noteInfoId},
+      ${content?.id ?? null},
+      ${note.noteTitle},
+      ${body},
+      setweight(to_tsvector('simple', ${titleTokens}), 'A') || setweight(to_tsvector('simple', ${bodyTokens}), 'B'),
+      now()
+    )
+    ON CONFLICT ("noteInfoId") DO UPDATE SET
+      "noteContentId" = EXCLUDED."noteContentId",
+      "title" = EXCLUDED."title",
+      "body" = EXCLUDED."body",
+      "searchVector" = EXCLUDED."searchVector",
+      "updatedAt" = EXCLUDED."updatedAt"
+  `
+}
+
+/**
+ * 刷新检索索引（失败只记录日志，不影响主流程）
+ */
+export async function refreshNoteSearchIndexSafely(noteInfoId: bigint): Promise<void> {
+  try {
+    await refreshNoteSearchIndex(noteInfoId)
+  } catch (err) {
+    console.error(`[Search] 刷新笔记索引失败: noteInfoId=${noteInfoId}`, err)
+  }
+}
+
+/**
+ * 重建全部笔记的检索索引
+ * @returns 重建的笔记数量
+ */
+export async function rebuildNoteSearchIndex(): Promise<number> {
+  const notes = await prisma.noteInfo.findMany({
+    where: { isDeleted: false },
+    select: { id: true },
+  })
+
+  for (const note of notes) {
+    await refreshNoteSearchIndex(note.id)
+  }
+
+  // 清理残留的已删除笔记索引
+  await prisma.noteSearchIndex.deleteMany({
+    where: { noteInfo: { isDeleted: true } },
+  })
+
+  return notes.length
+}
+
+/**
+ * 检索笔记
+ * 仅返回启用且未删除的笔记、分类、版本下的结果，按相关度排序
+ */
+export async function searchNotes(options: NoteSearchOptions): Promise<{ total: number; list: NoteSearchHit[] }> {
+  const { projectId, versionId = null, query, project, readableLevels, page = 1, pageSize = 10 } = options
+
+  const queryTokens = Array.from(new Set(tokenize(query))).join(' ')
+  if (!queryTokens) {
+    return { total: 0, list: [] }
+  }
+
+  // 按行解析访问级别，不可阅读全文的笔记只匹配标题（权重 A）
+  const level = accessLevelSql(project)
+  const readable = Prisma.join(readableLevels.length > 0 ? readableLevels : ['public'])
+  const vector = Prisma.sql`(CASE WHEN ${level} IN (${readable})
+    THEN i."searchVector"
+    ELSE ts_filter(i."searchVector", '{a}') END)`
+
+  const where = Prisma.sql`
+    n."isDeleted" = false AND n."status" = 1
+    AND c."isDeleted" = false AND c."status" = 1
+    AND v."isDeleted" = false AND v."status" = 1
+    AND v."projectId" = ${projectId}
+    ${versionId !== null ? Prisma.sql`AND v."id" = ${versionId}` : Prisma.empty}
+    ${readableLevels.includes('admin') ? Prisma.empty : Prisma.sql`AND ${level} <> 'admin'`}
+    AND ${vector} @@ q
+  `
+
+  const from = Prisma.sql`
+    FROM "docs"."NoteSearchIndex" i
+    JOIN "docs"."NoteInfo" n ON n."id" = i."noteInfoId"
+    JOIN "collections"."Category" c ON c."id" = n."categoryId"
+    JOIN "collections"."ProjectVersion" v ON v."id" = c."projectVersionId"
+    CROSS JOIN plainto_tsquery('simple', ${queryTokens}) q
+  `
+
+  const [countRows, list] = await Promise.all([
+    prisma.$queryRaw<{ total: bigint }[]>`SELECT count(*) AS total ${from} WHERE ${where}`,
+    prisma.$queryRaw<NoteSearchHit[]>`
+      SELECT
+        i."noteInfoId", n."slug" AS "noteSlug", i."title", i."body",
+        c."id" AS "categoryId", c."categoryName",
+        v."id" AS "projectVersionId", v."slug" AS "versionSlug", v."version",
+        ${level} AS "accessLevel",
+        ts_rank_cd(${vector}, q)::float8 AS "rank"
+      ${from}
+      WHERE ${where}
+      ORDER BY "rank" DESC, n."weight" DESC
+      LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+    `,
+  ])
+
+  return { total: Number(countRows[0]?.total ?? 0), list }
+}
+
+// ============ 高亮与摘要 ============
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 构建高亮正则：优先匹配完整关键字，其次匹配分词
+ */
+function buildHighlightPattern(query: string): RegExp | null {
+  const terms = new Set<string>()
+  for (const word of query.split(/\s+/)) {
+    if (word) terms.add(word.toLowerCase())
+  }
+  for (const token of tokenize(query)) {
+    terms.add(token)
+  }
+  if (terms.size === 0) return null
+
+  const alternatives = Array.from(terms)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  return new RegExp(`(${alternatives.join('|')})`, 'giu')
+}
+
+/**
+ * 对文本进行 HTML 转义并用 <mark> 包裹匹配项
+ */
+export function highlightText(text: string, query: string): string {
+  const pattern = buildHighlightPattern(query)
+  if (!pattern) return escapeHtml(text)
+
+  return text
+    .split(pattern)
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('')
+}
+
+/**
+ * 生成带高亮的摘要
+ * 以第一个匹配位置为中心截取上下文
+ */
+export function buildSnippet(body: string, query: string, radius: number = SNIPPET_RADIUS): string {
+  const pattern = buildHighlightPattern(query)
+  const match = pattern ? pattern.exec(body) : null
+  const center = match?.index ?? 0
+
+  const start = Math.max(0, center - radius)
+  const end = Math.min(body.length, center + radius * 2)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < body.length ? '…' : ''
+
+  return `${prefix}${highlightText(body.slice(start, end), query)}${suffix}`
+}
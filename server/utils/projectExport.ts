@@ -0,0 +1,278 @@
+/**
+ * 项目导出模块
+ *
+ * 将项目的首页、菜单、版本、分类、笔记及全部内容版本导出为 Markdown 内容包（zip），
+ * 包结构见 markdownBundle.ts。已软删除的数据不导出，禁用的数据保留并记录状态。
+ */
+
+import { posix } from 'node:path'
+import { strToU8, zipSync, type Zippable } from 'fflate'
+import { prisma } from './prisma'
+import { readUploadedFile } from './file'
+import { normalizeStorageKey } from './storage'
+import {
+  ASSETS_DIR,
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  CONTENT_VARIANT_SEPARATOR,
+  HOME_FILE,
+  MANIFEST_FILE,
+  MARKDOWN_UPLOAD_PATTERN,
+  bundleRelativePath,
+  orderPrefix,
+  stringifyFrontMatter,
+  toSafeName,
+  type BundleAsset,
+  type BundleManifest,
+  type BundleMenu,
+  type BundleVersion,
+  type NoteFrontMatter,
+} from './markdownBundle'
+
+/** 站内上传资源前缀 */
+const UPLOADS_PREFIX = '/uploads/'
+
+/**
+ * 导出结果
+ */
+export interface ProjectExportResult {
+  /** 建议的下载文件名 */
+  fileName: string
+  /** zip 数据 */
+  data: Uint8Array
+  /** 清单 */
+  manifest: BundleManifest
+}
+
+/**
+ * 按权重降序、ID 升序排序（与前台展示顺序一致）
+ */
+function byWeight<T extends { weight: number; id: bigint }>(a: T, b: T): number {
+  if (a.weight !== b.weight) return b.weight - a.weight
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * 同级名称去重（追加序号）
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let result = name
+  for (let i = 2; used.has(result.toLowerCase()); i++) {
+    result = `${name} (${i})`
+  }
+  used.add(result.toLowerCase())
+  return result
+}
+
+/**
+ * 资源收集器
+ * 记录正文中引用的上传文件，并在写入 zip 时去重
+ */
+class AssetCollector {
+  readonly assets = new Map<string, BundleAsset & { data: Uint8Array }>()
+  readonly missing = new Set<string>()
+
+  /**
+   * 收集资源
+   * @returns 包内路径，文件不存在时返回 null
+   */
+  async collect(url: string): Promise<string | null> {
+    const key = url.split(/[?#]/)[0]!
+    const existing = this.assets.get(key)
+    if (existing) return existing.file
+    if (this.missing.has(key)) return null
+
+    // 按文件记录所在的存储驱动读取，地址越界时视为缺失
+    const storageKey = normalizeStorageKey(key)
+    const buffer = storageKey ? await readUploadedFile(storageKey) : null
+    if (!storageKey || !buffer) {
+      this.missing.add(key)
+      return null
+    }
+
+    const data = new Uint8Array(buffer)
+    const file = `${ASSETS_DIR}/${posix.normalize(key).slice(UPLOADS_PREFIX.length)}`
+    this.assets.set(key, { url: key, file, size: data.byteLength, data })
+    return file
+  }
+
+  /**
+   * 改写正文中的图片链接为包内相对路径
+   * @param markdown - 正文
+   * @param bundleFile - 正文所在的包内路径
+   */
+  async rewrite(markdown: string, bundleFile: string): Promise<string> {
+    const urls = new Set(markdown.match(MARKDOWN_UPLOAD_PATTERN) ?? [])
+    let result = markdown
+    for (const url of urls) {
+      const file = await this.collect(url)
+      if (file) {
+        result = result.split(url).join(bundleRelativePath(bundleFile, file))
+      }
+    }
+    return result
+  }
+}
+
+/**
+ * 构建菜单树
+ */
+function buildMenuTree(menus: any[], parentId: bigint | null = null): BundleMenu[] {
+  return menus
+    .filter((m) => m.parentId === parentId)
+    .sort(byWeight)
+    .map((m) => ({
+      label: m.label,
+      url: m.url,
+      isExternal: m.isExternal,
+      weight: m.weight,
+      status: m.status,
+      children: buildMenuTree(menus, m.id),
+    }))
+}
+
+/**
+ * 导出项目
+ *
+ * @param projectId - 项目 ID
+ * @returns 导出结果，项目不存在时返回 null
+ */
+export async function exportProject(projectId: bigint): Promise<ProjectExportResult | null> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, isDeleted: false },
+    include: {
+      home: true,
+      menus: { where: { isDeleted: false } },
+      versions: {
+        where: { isDeleted: false },
+        include: {
+          categories: {
+            where: { isDeleted: false },
+            include: {
+              noteInfos: {
+                where: { isDeleted: false },
+                include: {
+                  contents: {
+                    where: { locale: null, isDeleted: false },
+                    orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  if (!project) return null
+
+  const files: Zippable = {}
+  const collector = new AssetCollector()
+  const versions: BundleVersion[] = []
+
+  // 首页
+  let home: BundleManifest['home'] = null
+  if (project.home && !project.home.isDeleted) {
+    files[HOME_FILE] = strToU8(await collector.rewrite(project.home.content, HOME_FILE))
+    home = { file: HOME_FILE, status: project.home.status }
+  }
+
+  // 版本 → 分类 → 笔记
+  const sortedVersions = [...project.versions].sort(byWeight)
+  const usedVersionNames = new Set<string>()
+  for (const [vIndex, version] of sortedVersions.entries()) {
+    const versionDir = orderPrefix(vIndex, sortedVersions.length)
+      + uniqueName(toSafeName(version.version), usedVersionNames)
+    const bundleVersion: BundleVersion = {
+      dir: versionDir,
+      version: version.version,
+      description: version.description,
+      weight: version.weight,
+      status: version.status,
+      categories: [],
+    }
+
+    const sortedCategories = [...version.categories].sort(byWeight)
+    const usedCategoryNames = new Set<string>()
+    for (const [cIndex, category] of sortedCategories.entries()) {
+      const categoryDir = orderPrefix(cIndex, sortedCategories.length)
+        + uniqueName(toSafeName(category.categoryName), usedCategoryNames)
+      const notes: string[] = []
+
+      const sortedNotes = [...category.noteInfos].sort(byWeight)
+      const usedNoteNames = new Set<string>()
+      for (const [nIndex, note] of sortedNotes.entries()) {
+        const baseName = orderPrefix(nIndex, sortedNotes.length)
+          + uniqueName(toSafeName(note.noteTitle), usedNoteNames)
+
+        // 没有内容版本的笔记也导出一个空文件，保留笔记本身
+        const contents = note.contents.length > 0 ? note.contents : [null]
+        for (const [index, content] of contents.entries()) {
+          const fileName = index === 0 ? `${baseName}.md` : `${baseName}${CONTENT_VARIANT_SEPARATOR}${index}.md`
+          const bundleFile = `${versionDir}/${categoryDir}/${fileName}`
+          const frontMatter: NoteFrontMatter = {
+            title: note.noteTitle,
+            weight: note.weight,
+            status: note.status,
+            accessLevel: note.accessLevel,
+            versionNote: content?.versionNote ?? null,
+            isPrimary: content?.isPrimary ?? false,
+            contentStatus: content?.status ?? 1,
+          }
+          const body = content ? await collector.rewrite(content.content, bundleFile) : ''
+          files[bundleFile] = strToU8(stringifyFrontMatter(frontMatter, body))
+          notes.push(fileName)
+        }
+      }
+
+      bundleVersion.categories.push({
+        dir: categoryDir,
+        categoryName: category.categoryName,
+        weight: category.weight,
+        status: category.status,
+        accessLevel: category.accessLevel,
+        notes,
+      })
+    }
+
+    versions.push(bundleVersion)
+  }
+
+  // 项目头像
+  if (project.avatar?.startsWith(UPLOADS_PREFIX)) {
+    await collector.collect(project.avatar)
+  }
+
+  // 资源文件（图片已压缩，直接存储）
+  const assets: BundleAsset[] = []
+  for (const asset of collector.assets.values()) {
+    files[asset.file] = [asset.data, { level: 0 }]
+    assets.push({ url: asset.url, file: asset.file, size: asset.size })
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      projectName: project.projectName,
+      avatar: project.avatar,
+      weight: project.weight,
+      status: project.status,
+      requireAuth: project.requireAuth,
+    },
+    home,
+    menus: buildMenuTree(project.menus),
+    versions,
+    assets,
+    missingAssets: Array.from(collector.missing),
+  }
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2))
+
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  return {
+    fileName: `${toSafeName(project.projectName)}-${date}.zip`,
+    data: zipSync(files, { level: 6 }),
+    manifest,
+  }
+}
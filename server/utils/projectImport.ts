@@ -0,0 +1,752 @@
+/**
+ * 项目导入模块
+ *
+ * 从 Markdown 内容包（zip）导入 ProjectVersion → Category → NoteInfo → NoteContent 层级：
+ * - 导出生成的内容包：按 manifest.json 还原版本、分类的名称/权重/状态及首页
+ * - 普通 Markdown 文件夹：一级目录为版本（或导入到指定版本），其下目录为分类
+ * - 笔记标题、权重、状态与内容版本信息取自 front matter，缺省时按文件名与文件顺序推断
+ * - 正文引用的包内图片通过 file.ts 重新上传并改写为站内地址
+ *
+ * 已存在的版本、分类、笔记按名称匹配后更新，内容版本按版本备注匹配；
+ * 覆盖正文前写入修订历史。菜单包含站内链接，不随内容包导入。
+ */
+
+import { posix } from 'node:path'
+import { unzipSync } from 'fflate'
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+import { findReusableFile, hashFileContent, saveFile } from './file'
+import { refreshNoteSearchIndexSafely } from './noteSearch'
+import { refreshNoteEmbeddingsSafely } from './noteEmbedding'
+import { updateContentWithRevision, type RevisionActor } from './noteRevision'
+import { isAccessLevel, type AccessLevel } from './noteAccess'
+import {
+  BUNDLE_FORMAT,
+  CONTENT_VARIANT_SEPARATOR,
+  HOME_FILE,
+  MANIFEST_FILE,
+  parseFrontMatter,
+  stripOrderPrefix,
+  type BundleCategory,
+  type BundleManifest,
+  type BundleVersion,
+} from './markdownBundle'
+
+/** 单个文件最大解压大小：20MB */
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024
+
+/** 解压总大小上限：200MB */
+const MAX_TOTAL_SIZE = 200 * 1024 * 1024
+
+/** 可重新上传的图片扩展名 */
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif']
+
+/** 根目录下的 Markdown 文件归入的分类 */
+const DEFAULT_CATEGORY_NAME = '未分类'
+
+/** 导入事务超时：5 分钟 */
+const TRANSACTION_TIMEOUT = 5 * 60 * 1000
+
+// Markdown 图片：![alt](path "title") 与 <img src="path">
+const MARKDOWN_IMAGE_PATTERN = /(!\[[^\]]*\]\(\s*<?)([^)\s>]+)(>?(?:\s+["'][^"']*["'])?\s*\))/g
+const HTML_IMAGE_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*["'])([^"']+)(["'])/gi
+
+// ============ 类型定义 ============
+
+/**
+ * 导入选项
+ */
+export interface ProjectImportOptions {
+  /** 目标项目 ID */
+  projectId: bigint
+  /** 目标版本号：指定时包内所有内容导入到该版本，目录全部视为分类 */
+  version?: string | null
+  /** 是否仅预览（不写入数据库、不上传文件） */
+  dryRun?: boolean
+  /** 操作人（写入修订历史） */
+  actor: RevisionActor
+}
+
+/**
+ * 导入操作类型
+ */
+export type ImportAction = 'create' | 'update' | 'unchanged'
+
+/**
+ * 导入对象类型
+ */
+export type ImportItemType = 'home' | 'version' | 'category' | 'note' | 'content' | 'asset'
+
+/**
+ * 导入明细
+ */
+export interface ImportItem {
+  type: ImportItemType
+  action: ImportAction
+  /** 展示路径（版本 / 分类 / 笔记） */
+  path: string
+  /** 来源文件（包内路径） */
+  source: string | null
+}
+
+/**
+ * 导入报告
+ */
+export interface ProjectImportReport {
+  dryRun: boolean
+  summary: Record<ImportItemType, Record<ImportAction, number>>
+  items: ImportItem[]
+  warnings: string[]
+}
+
+/**
+ * 导入错误（内容包本身无法解析）
+ */
+export class ProjectImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectImportError'
+  }
+}
+
+interface PlanContent {
+  source: string
+  body: string
+  versionNote: string | null
+  isPrimary: boolean
+  status: number
+}
+
+interface PlanNote {
+  noteTitle: string
+  weight: number
+  status: number
+  /** 未指定时新建为 inherit，已有笔记保持不变 */
+  accessLevel: AccessLevel | null
+  contents: PlanContent[]
+}
+
+interface PlanCategory {
+  categoryName: string
+  weight: number | null
+  status: number | null
+  accessLevel: AccessLevel | null
+  notes: PlanNote[]
+}
+
+interface PlanVersion {
+  version: string
+  description: string | null
+  weight: number | null
+  status: number | null
+  categories: PlanCategory[]
+}
+
+interface ImportPlan {
+  home: { source: string; body: string; status: number } | null
+  versions: PlanVersion[]
+}
+
+// ============ 解析内容包 ============
+
+/**
+ * 解压内容包
+ * 过滤目录、系统文件与越界路径，限制解压大小
+ */
+function readBundleEntries(data: Uint8Array, warnings: string[]): Map<string, Uint8Array> {
+  let total = 0
+  let raw: Record<string, Uint8Array>
+  try {
+    raw = unzipSync(data, {
+      filter: (file) => {
+        if (file.originalSize > MAX_ENTRY_SIZE) {
+          warnings.push(`文件过大已跳过：${file.name}`)
+          return false
+        }
+        total += file.originalSize
+        if (total > MAX_TOTAL_SIZE) {
+          throw new ProjectImportError('内容包解压后超过大小限制')
+        }
+        return true
+      },
+    })
+  } catch (err) {
+    if (err instanceof ProjectImportError) throw err
+    throw new ProjectImportError('无法解析 zip 文件')
+  }
+
+  const entries = new Map<string, Uint8Array>()
+  for (const [name, content] of Object.entries(raw)) {
+    const path = name.replace(/\\/g, '/')
+    if (path.endsWith('/')) continue
+    const segments = path.split('/')
+    if (segments.some((s) => s === '..')) {
+      warnings.push(`非法路径已跳过：${name}`)
+      continue
+    }
+    if (segments[0] === '__MACOSX' || segments.some((s) => s.startsWith('.'))) continue
+    entries.set(posix.normalize(path).replace(/^\/+/, ''), content)
+  }
+
+  // 去除公共根目录（如 docs/xxx.md 打包时带上的外层目录）
+  while (entries.size > 0 && !entries.has(MANIFEST_FILE)) {
+    const roots = new Set(Array.from(entries.keys(), (p) => (p.includes('/') ? p.split('/')[0] : null)))
+    const root = roots.size === 1 ? Array.from(roots)[0] : null
+    if (!root) break
+    const stripped = new Map<string, Uint8Array>()
+    for (const [path, content] of entries) {
+      stripped.set(path.slice(root.length + 1), content)
+    }
+    entries.clear()
+    for (const [path, content] of stripped) entries.set(path, content)
+  }
+
+  return entries
+}
+
+/**
+ * 读取清单
+ */
+function readManifest(entries: Map<string, Uint8Array>, warnings: string[]): BundleManifest | null {
+  const data = entries.get(MANIFEST_FILE)
+  if (!data) return null
+  try {
+    const manifest = JSON.parse(new TextDecoder().decode(data))
+    if (manifest?.format !== BUNDLE_FORMAT) {
+      warnings.push('manifest.json 不是 SlothVault 内容包清单，已忽略')
+      return null
+    }
+    return manifest as BundleManifest
+  } catch {
+    warnings.push('manifest.json 解析失败，已忽略')
+    return null
+  }
+}
+
+/**
+ * 文件名自然排序（兼容 1-、2-、10- 前缀）
+ */
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, 'zh-CN', { numeric: true })
+}
+
+function toOptionalInt(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.trunc(value) : null
+}
+
+/**
+ * 分组键：去掉扩展名与内容版本后缀（01-安装~1.md → 01-安装）
+ */
+function splitNoteFileName(fileName: string): { base: string; variant: number } {
+  const name = fileName.replace(/\.(md|markdown)$/i, '')
+  const index = name.lastIndexOf(CONTENT_VARIANT_SEPARATOR)
+  if (index > 0 && /^\d+$/.test(name.slice(index + 1))) {
+    return { base: name.slice(0, index), variant: Number(name.slice(index + 1)) }
+  }
+  return { base: name, variant: 0 }
+}
+
+/**
+ * 构建分类下的笔记列表
+ * 同名文件（含 ~n 后缀）合并为同一笔记的多个内容版本
+ */
+function buildNotes(files: { path: string; text: string }[]): PlanNote[] {
+  const groups = new Map<string, { path: string; text: string; variant: number }[]>()
+  for (const file of files) {
+    const { base, variant } = splitNoteFileName(posix.basename(file.path))
+    const group = groups.get(base) ?? []
+    group.push({ ...file, variant })
+    groups.set(base, group)
+  }
+
+  const bases = Array.from(groups.keys()).sort(compareNames)
+  return bases.map((base, index) => {
+    const group = groups.get(base)!.sort((a, b) => a.variant - b.variant)
+    const parsed = group.map((file) => ({ file, ...parseFrontMatter(file.text) }))
+    const head = parsed[0]!.data
+
+    const contents: PlanContent[] = parsed.map(({ file, data, body }) => ({
+      source: file.path,
+      body,
+      versionNote: typeof data.versionNote === 'string' ? data.versionNote.slice(0, 255) : null,
+      isPrimary: data.isPrimary === true,
+      status: toOptionalInt(data.contentStatus) ?? 1,
+    }))
+    // 保证有且仅有一个主版本
+    const primaryIndex = Math.max(0, contents.findIndex((c) => c.isPrimary))
+    contents.forEach((c, i) => { c.isPrimary = i === primaryIndex })
+
+    const title = typeof head.title === 'string' && head.title.trim()
+      ? head.title.trim()
+      : stripOrderPrefix(base).name
+
+    return {
+      noteTitle: title.slice(0, 255),
+      // 前台按权重降序展示，文件顺序靠前的权重更大
+      weight: toOptionalInt(head.weight) ?? (bases.length - index) * 10,
+      status: toOptionalInt(head.status) ?? 1,
+      accessLevel: isAccessLevel(head.accessLevel) ? head.accessLevel : null,
+      contents,
+    }
+  })
+}
+
+/**
+ * 生成导入计划
+ */
+function buildPlan(
+  entries: Map<string, Uint8Array>,
+  manifest: BundleManifest | null,
+  targetVersion: string | null,
+  warnings: string[]
+): ImportPlan {
+  const decoder = new TextDecoder()
+  const markdownFiles = Array.from(entries.keys())
+    .filter((p) => /\.(md|markdown)$/i.test(p))
+    .sort(compareNames)
+
+  let home: ImportPlan['home'] = null
+  if (manifest?.home && entries.has(manifest.home.file)) {
+    home = {
+      source: manifest.home.file,
+      body: decoder.decode(entries.get(manifest.home.file)!),
+      status: manifest.home.status,
+    }
+  }
+
+  // 版本目录 → 分类目录 → 文件
+  const tree = new Map<string, Map<string, { path: string; text: string }[]>>()
+  for (const path of markdownFiles) {
+    if (manifest && path === home?.source) continue
+
+    const segments = path.split('/')
+    let versionDir: string
+    let categorySegments: string[]
+    if (targetVersion) {
+      versionDir = ''
+      categorySegments = segments.slice(0, -1)
+    } else {
+      if (segments.length < 2) {
+        warnings.push(`根目录下的文件未指定版本，已跳过：${path}`)
+        continue
+      }
+      versionDir = segments[0]!
+      categorySegments = segments.slice(1, -1)
+    }
+
+    const categoryDir = categorySegments.join('/')
+    const categories = tree.get(versionDir) ?? new Map()
+    const files = categories.get(categoryDir) ?? []
+    files.push({ path, text: decoder.decode(entries.get(path)!) })
+    categories.set(categoryDir, files)
+    tree.set(versionDir, categories)
+  }
+
+  const versionMeta = new Map<string, BundleVersion>(manifest?.versions?.map((v) => [v.dir, v]) ?? [])
+
+  const versionDirs = Array.from(tree.keys()).sort(compareNames)
+  const versions = versionDirs.map((versionDir, vIndex): PlanVersion => {
+    const meta = versionMeta.get(versionDir)
+    const categoryMeta = new Map<string, BundleCategory>(meta?.categories?.map((c) => [c.dir, c]) ?? [])
+    const categoryTree = tree.get(versionDir)!
+    const categoryDirs = Array.from(categoryTree.keys()).sort(compareNames)
+
+    return {
+      version: (targetVersion || meta?.version || stripOrderPrefix(versionDir).name).slice(0, 64),
+      description: meta?.description ?? null,
+      // 导入到指定版本时不改动其权重
+      weight: meta ? meta.weight : targetVersion ? null : (versionDirs.length - vIndex) * 10,
+      status: meta ? meta.status : null,
+      categories: categoryDirs.map((categoryDir, index): PlanCategory => {
+        const cMeta = categoryMeta.get(categoryDir)
+        const name = cMeta?.categoryName
+          || categoryDir.split('/').map((s) => stripOrderPrefix(s).name).join(' / ')
+          || DEFAULT_CATEGORY_NAME
+        return {
+          categoryName: name.slice(0, 64),
+          weight: cMeta ? cMeta.weight : (categoryDirs.length - index) * 10,
+          status: cMeta ? cMeta.status : null,
+          accessLevel: isAccessLevel(cMeta?.accessLevel) ? cMeta.accessLevel : null,
+          notes: buildNotes(categoryTree.get(categoryDir)!),
+        }
+      }),
+    }
+  })
+
+  return { home, versions }
+}
+
+// ============ 图片处理 ============
+
+/**
+ * 遍历正文中的图片链接
+ */
+function replaceImageLinks(markdown: string, replacer: (target: string) => string | null): string {
+  const apply = (_: string, before: string, target: string, after: string) => {
+    const replaced = replacer(target)
+    return `${before}${replaced ?? target}${after}`
+  }
+  return markdown.replace(MARKDOWN_IMAGE_PATTERN, apply).replace(HTML_IMAGE_PATTERN, apply)
+}
+
+/**
+ * 将图片链接解析为包内路径
+ * 外链、站内绝对地址与锚点返回 null
+ */
+function resolveBundlePath(sourceFile: string, target: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('/') || target.startsWith('#')) return null
+  let decoded: string
+  try {
+    decoded = decodeURI(target.split(/[?#]/)[0]!)
+  } catch {
+    return null
+  }
+  const resolved = posix.normalize(posix.join(posix.dirname(sourceFile), decoded))
+  return resolved.startsWith('..') ? null : resolved
+}
+
+/**
+ * 图片上传器
+ * 同一包内文件只上传一次；预览模式不上传，只匹配已上传的同内容文件
+ */
+class ImageUploader {
+  private readonly uploaded = new Map<string, string>()
+  private readonly missing = new Set<string>()
+
+  constructor(
+    private readonly entries: Map<string, Uint8Array>,
+    private readonly dryRun: boolean,
+    private readonly report: (item: ImportItem) => void,
+    private readonly warnings: string[]
+  ) {}
+
+  /**
+   * 上传正文引用的图片
+   */
+  async prepare(sourceFile: string, markdown: string): Promise<void> {
+    const targets = new Set<string>()
+    replaceImageLinks(markdown, (target) => {
+      targets.add(target)
+      return null
+    })
+
+    for (const target of targets) {
+      const path = resolveBundlePath(sourceFile, target)
+      if (!path || this.uploaded.has(path) || this.missing.has(path)) continue
+
+      const data = this.entries.get(path)
+      const ext = posix.extname(path).toLowerCase().slice(1)
+      if (!data || !IMAGE_EXTENSIONS.includes(ext)) {
+        this.missing.add(path)
+        this.warnings.push(`图片不存在或类型不支持：${target}（${sourceFile}）`)
+        continue
+      }
+
+      if (this.dryRun) {
+        // 预览时按内容哈希匹配已上传的同内容文件，保证正文对比与实际导入一致
+        const existing = await findReusableFile(hashFileContent(Buffer.from(data)), 'Markdown')
+        this.uploaded.set(path, existing ? `/${existing.filePath}` : target)
+      } else {
+        const result = await saveFile(Buffer.from(data), posix.basename(path), {
+          businessType: 'Markdown',
+          allowedExtensions: IMAGE_EXTENSIONS,
+          maxSize: MAX_ENTRY_SIZE,
+        })
+        this.uploaded.set(path, result.url)
+      }
+      this.report({ type: 'asset', action: 'create', path, source: sourceFile })
+    }
+  }
+
+  /**
+   * 改写正文中的图片链接
+   */
+  rewrite(sourceFile: string, markdown: string): string {
+    return replaceImageLinks(markdown, (target) => {
+      const path = resolveBundlePath(sourceFile, target)
+      return path ? this.uploaded.get(path) ?? null : null
+    })
+  }
+}
+
+// ============ 写入数据库 ============
+
+/**
+ * 按计划写入数据库
+ * 预览模式下只查询不写入，新建对象的子对象一律视为新建
+ *
+ * @returns 正文有变化的笔记 ID（用于刷新检索索引）
+ */
+async function applyPlan(
+  db: Prisma.TransactionClient,
+  plan: ImportPlan,
+  options: ProjectImportOptions,
+  uploader: ImageUploader,
+  report: (item: ImportItem) => void
+): Promise<bigint[]> {
+  const { projectId, dryRun = false, actor } = options
+  const touchedNotes: bigint[] = []
+  const now = () => new Date()
+
+  if (plan.home) {
+    const body = uploader.rewrite(plan.home.source, plan.home.body)
+    const existing = await db.projectHome.findUnique({ where: { projectId } })
+    const action: ImportAction = !existing || existing.isDeleted
+      ? 'create'
+      : existing.content !== body || existing.status !== plan.home.status ? 'update' : 'unchanged'
+    if (!dryRun && action !== 'unchanged') {
+      await db.projectHome.upsert({
+        where: { projectId },
+        create: { projectId, content: body, status: plan.home.status },
+        update: { content: body, status: plan.home.status, isDeleted: false, updatedAt: now() },
+      })
+    }
+    report({ type: 'home', action, path: HOME_FILE, source: plan.home.source })
+  }
+
+  for (const version of plan.versions) {
+    const existingVersion = await db.projectVersion.findFirst({
+      where: { projectId, version: version.version, isDeleted: false },
+      orderBy: { id: 'asc' },
+    })
+
+    let versionId: bigint | null = existingVersion?.id ?? null
+    if (!existingVersion) {
+      if (!dryRun) {
+        const created = await db.projectVersion.create({
+          data: {
+            projectId,
+            version: version.version,
+            description: version.description,
+            weight: version.weight ?? 0,
+            status: version.status ?? 1,
+          },
+        })
+        versionId = created.id
+      }
+      report({ type: 'version', action: 'create', path: version.version, source: null })
+    } else {
+      const data: Prisma.ProjectVersionUpdateInput = {}
+      if (version.description !== null && version.description !== existingVersion.description) data.description = version.description
+      if (version.weight !== null && version.weight !== existingVersion.weight) data.weight = version.weight
+      if (version.status !== null && version.status !== existingVersion.status) data.status = version.status
+      const changed = Object.keys(data).length > 0
+      if (!dryRun && changed) {
+        await db.projectVersion.update({ where: { id: existingVersion.id }, data: { ...data, updatedAt: now() } })
+      }
+      report({ type: 'version', action: changed ? 'update' : 'unchanged', path: version.version, source: null })
+    }
+
+    for (const category of version.categories) {
+      const categoryPath = `${version.version} / ${category.categoryName}`
+      const existingCategory = versionId === null ? null : await db.category.findFirst({
+        where: { projectVersionId: versionId, categoryName: category.categoryName, isDeleted: false },
+        orderBy: { id: 'asc' },
+      })
+
+      let categoryId: bigint | null = existingCategory?.id ?? null
+      if (!existingCategory) {
+        if (!dryRun) {
+          const created = await db.category.create({
+            data: {
+              projectVersionId: versionId!,
+              categoryName: category.categoryName,
+              weight: category.weight ?? 0,
+              status: category.status ?? 1,
+              accessLevel: category.accessLevel ?? 'inherit',
+            },
+          })
+          categoryId = created.id
+        }
+        report({ type: 'category', action: 'create', path: categoryPath, source: null })
+      } else {
+        const data: Prisma.CategoryUpdateInput = {}
+        if (category.weight !== null && category.weight !== existingCategory.weight) data.weight = category.weight
+        if (category.status !== null && category.status !== existingCategory.status) data.status = category.status
+        if (category.accessLevel !== null && category.accessLevel !== existingCategory.accessLevel) data.accessLevel = category.accessLevel
+        const changed = Object.keys(data).length > 0
+        if (!dryRun && changed) {
+          await db.category.update({ where: { id: existingCategory.id }, data: { ...data, updatedAt: now() } })
+        }
+        report({ type: 'category', action: changed ? 'update' : 'unchanged', path: categoryPath, source: null })
+      }
+
+      for (const note of category.notes) {
+        const notePath = `${categoryPath} / ${note.noteTitle}`
+        const existingNote = categoryId === null ? null : await db.noteInfo.findFirst({
+          where: { categoryId, noteTitle: note.noteTitle, isDeleted: false },
+          orderBy: { id: 'asc' },
+        })
+
+        let noteInfoId: bigint | null = existingNote?.id ?? null
+        if (!existingNote) {
+          if (!dryRun) {
+            const created = await db.noteInfo.create({
+              data: {
+                categoryId: categoryId!,
+                noteTitle: note.noteTitle,
+                weight: note.weight,
+                status: note.status,
+                accessLevel: note.accessLevel ?? 'inherit',
+              },
+            })
+            noteInfoId = created.id
+          }
+          report({ type: 'note', action: 'create', path: notePath, source: note.contents[0]?.source ?? null })
+        } else {
+          const accessLevel = note.accessLevel ?? existingNote.accessLevel
+          const changed = existingNote.weight !== note.weight || existingNote.status !== note.status
+            || existingNote.accessLevel !== accessLevel
+          if (!dryRun && changed) {
+            await db.noteInfo.update({
+              where: { id: existingNote.id },
+              data: { weight: note.weight, status: note.status, accessLevel, updatedAt: now() },
+            })
+          }
+          report({ type: 'note', action: changed ? 'update' : 'unchanged', path: notePath, source: note.contents[0]?.source ?? null })
+        }
+
+        const existingContents = noteInfoId === null ? [] : await db.noteContent.findMany({
+          where: { noteInfoId, locale: null, isDeleted: false },
+          orderBy: { createdAt: 'asc' },
+        })
+        const matchedIds = new Set<bigint>()
+        let noteChanged = false
+
+        for (const content of note.contents) {
+          const body = uploader.rewrite(content.source, content.body)
+          const contentPath = `${notePath}${content.versionNote ? ` [${content.versionNote}]` : ''}`
+
+          // 先按版本备注匹配，主版本再回退匹配现有主版本
+          const match = existingContents.find((c) => !matchedIds.has(c.id) && c.versionNote === content.versionNote)
+            ?? (content.isPrimary ? existingContents.find((c) => !matchedIds.has(c.id) && c.isPrimary) : undefined)
+
+          if (!match) {
+            if (!dryRun) {
+              if (content.isPrimary) {
+                await db.noteContent.updateMany({
+                  where: { noteInfoId: noteInfoId!, locale: null, isPrimary: true },
+                  data: { isPrimary: false, updatedAt: now() },
+                })
+              }
+              await db.noteContent.create({
+                data: {
+                  noteInfoId: noteInfoId!,
+                  content: body,
+                  versionNote: content.versionNote,
+                  isPrimary: content.isPrimary,
+                  status: content.status,
+                },
+              })
+            }
+            noteChanged = true
+            report({ type: 'content', action: 'create', path: contentPath, source: content.source })
+            continue
+          }
+
+          matchedIds.add(match.id)
+          const becomesPrimary = content.isPrimary && !match.isPrimary
+          const changed = match.content !== body || match.status !== content.status || becomesPrimary
+          if (!dryRun && changed) {
+            if (becomesPrimary) {
+              await db.noteContent.updateMany({
+                where: { noteInfoId: match.noteInfoId, locale: null, isPrimary: true, id: { not: match.id } },
+                data: { isPrimary: false, updatedAt: now() },
+              })
+            }
+            await updateContentWithRevision(
+              match.id,
+              { content: body, status: content.status, isPrimary: match.isPrimary || content.isPrimary, updatedAt: now() },
+              actor,
+              'import',
+              db
+            )
+          }
+          if (changed) noteChanged = true
+          report({ type: 'content', action: changed ? 'update' : 'unchanged', path: contentPath, source: content.source })
+        }
+
+        if (noteChanged && noteInfoId !== null) touchedNotes.push(noteInfoId)
+      }
+    }
+  }
+
+  return touchedNotes
+}
+
+// ============ 对外接口 ============
+
+function emptySummary(): ProjectImportReport['summary'] {
+  const types: ImportItemType[] = ['home', 'version', 'category', 'note', 'content', 'asset']
+  return Object.fromEntries(
+    types.map((t) => [t, { create: 0, update: 0, unchanged: 0 }])
+  ) as ProjectImportReport['summary']
+}
+
+/**
+ * 导入内容包
+ *
+ * @param data - zip 数据
+ * @param options - 导入选项
+ * @returns 导入报告；项目不存在时返回 null
+ * @throws ProjectImportError 内容包无法解析或不包含 Markdown 文件
+ */
+export async function importProjectBundle(
+  data: Uint8Array,
+  options: ProjectImportOptions
+): Promise<ProjectImportReport | null> {
+  const dryRun = options.dryRun ?? false
+  const targetVersion = options.version?.trim() || null
+
+  const project = await prisma.project.findFirst({
+    where: { id: options.projectId, isDeleted: false },
+    select: { id: true },
+  })
+  if (!project) return null
+
+  const warnings: string[] = []
+  const entries = readBundleEntries(data, warnings)
+  const manifest = readManifest(entries, warnings)
+  const plan = buildPlan(entries, manifest, targetVersion, warnings)
+
+  if (plan.versions.length === 0 && !plan.home) {
+    throw new ProjectImportError(
+      targetVersion ? '内容包中没有 Markdown 文件' : '内容包中没有可导入的版本目录，请指定目标版本'
+    )
+  }
+
+  const items: ImportItem[] = []
+  const summary = emptySummary()
+  const report = (item: ImportItem) => {
+    items.push(item)
+    summary[item.type][item.action]++
+  }
+
+  // 图片先上传（文件写入不参与数据库事务）
+  const uploader = new ImageUploader(entries, dryRun, report, warnings)
+  if (plan.home) await uploader.prepare(plan.home.source, plan.home.body)
+  for (const version of plan.versions) {
+    for (const category of version.categories) {
+      for (const note of category.notes) {
+        for (const content of note.contents) {
+          await uploader.prepare(content.source, content.body)
+        }
+      }
+    }
+  }
+
+  if (dryRun) {
+    await applyPlan(prisma, plan, options, uploader, report)
+  } else {
+    const touchedNotes = await prisma.$transaction(
+      (tx) => applyPlan(tx, plan, options, uploader, report),
+      { timeout: TRANSACTION_TIMEOUT }
+    )
+    for (const noteInfoId of touchedNotes) {
+      await refreshNoteSearchIndexSafely(noteInfoId)
+      await refreshNoteEmbeddingsSafely(noteInfoId)
+    }
+  }
+
+  return { dryRun, summary, items, warnings }
+}
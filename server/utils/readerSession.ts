@@ -0,0 +1,171 @@
+import {setCookie, getCookie, deleteCookie, getRequestHeader, getRequestIP} from 'h3'
+import {prisma} from '~~/server/utils/prisma'
+import {getSiteUrl} from '~~/server/utils/seo'
+import {randomBytes, createHash, createPublicKey, verify} from 'node:crypto'
+import {PublicKey} from '@solana/web3.js'
+
+/**
+ * 读者会话（Sign-In-With-Solana）
+ *
+ * 与管理员会话（session.ts）相互独立：
+ * 1. 前端请求 nonce，服务端生成待签名消息并落库
+ * 2. 钱包对消息进行 ed25519 签名
+ * 3. 服务端验签通过后消费 nonce，签发绑定钱包地址的 httpOnly Cookie
+ */
+
+const COOKIE_NAME = 'sv_reader'
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const NONCE_TTL_MS = 5 * 60 * 1000
+
+// ed25519 公钥的 SPKI DER 前缀（后接 32 字节原始公钥）
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+function sha256(input: string) {
+    return createHash('sha256').update(input).digest('hex')
+}
+
+/**
+ * 构建待签名的登录消息
+ */
+function buildSignInMessage(domain: string, walletAddress: string, nonce: string, issuedAt: Date, expiresAt: Date) {
+    return [
+        `${domain} wants you to sign in with your Solana account:`,
+        walletAddress,
+        '',
+        'Sign in to SlothVault to read your authorized documents.',
+        '',
+        `Nonce: ${nonce}`,
+        `Issued At: ${issuedAt.toISOString()}`,
+        `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n')
+}
+
+/**
+ * 验证 ed25519 签名
+ * @param walletAddress - Base58 钱包地址
+ * @param message - 消息原文
+ * @param signature - 签名（64 字节）
+ */
+export function verifyWalletSignature(walletAddress: string, message: string, signature: Uint8Array) {
+    if (signature.length !== 64) return false
+    try {
+        const publicKeyBytes = new PublicKey(walletAddress).toBuffer()
+        const key = createPublicKey({
+            key: Buffer.concat([ED25519_SPKI_PREFIX, publicKeyBytes]),
+            format: 'der',
+            type: 'spki',
+        })
+        return verify(null, Buffer.from(message, 'utf8'), key, signature)
+    } catch {
+        return false
+    }
+}
+
+/**
+ * 创建登录挑战
+ * @returns nonce、待签名消息与过期时间
+ */
+export async function createReaderNonce(event: any, walletAddress: string) {
+    const nonce = randomBytes(16).toString('hex')
+    const issuedAt = new Date()
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS)
+    // 与 SEO 地址同一规则：优先 SITE_URL，仅在信任反向代理时采用转发头
+    const domain = new URL(getSiteUrl(event)).host
+    const message = buildSignInMessage(domain, walletAddress, nonce, issuedAt, expiresAt)
+    await prisma.readerNonce.create({
+        data: {walletAddress, nonce, message, expiresAt}
+    })
+    return {nonce, message, expiresAt}
+}
+
+/**
+ * 查找待使用的登录挑战（不消费）
+ * @returns 挑战记录，如果不存在、已使用、已过期或地址不匹配则返回 null
+ */
+export async function findReaderNonce(nonce: string, walletAddress: string) {
+    const record = await prisma.readerNonce.findUnique({where: {nonce}})
+    if (!record) return null
+    if (record.walletAddress !== walletAddress) return null
+    if (record.usedAt || record.expiresAt.getTime() <= Date.now()) return null
+    return record
+}
+
+/**
+ * 消费登录挑战（一次性，应在验签通过后调用）
+ * @returns 是否消费成功
+ */
+export async function consumeReaderNonce(nonce: string, walletAddress: string) {
+    // 条件更新保证并发下只会被消费一次
+    const {count} = await prisma.readerNonce.updateMany({
+        where: {nonce, walletAddress, usedAt: null, expiresAt: {gt: new Date()}},
+        data: {usedAt: new Date()}
+    })
+    return count === 1
+}
+
+export async function createReaderSession(event: any, walletAddress: string, ttlMs: number = DEFAULT_TTL_MS) {
+    const token = randomBytes(32).toString('hex')
+    const tokenHash = sha256(token)
+    const expiresAt = new Date(Date.now() + ttlMs)
+    const session = await prisma.readerSession.create({
+        data: {
+            walletAddress,
+            tokenHash,
+            expiresAt,
+            ip: getRequestIP(event, {xForwardedFor: true}) ?? null,
+            userAgent: getRequestHeader(event, 'user-agent') ?? null,
+        }
+    })
+    setCookie(event, COOKIE_NAME, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: Math.floor(ttlMs / 1000)
+    })
+    return {id: session.id, walletAddress, expiresAt}
+}
+
+export async function readReaderSession(event: any) {
+    const token = getCookie(event, COOKIE_NAME)
+    if (!token) return null
+    const tokenHash = sha256(token)
+    const session = await prisma.readerSession.findUnique({
+        where: {tokenHash}
+    })
+    if (!session) return null
+    if (session.revokedAt) return null
+    if (session.expiresAt.getTime() <= Date.now()) return null
+    return session
+}
+
+/**
+ * 获取当前读者已验证的钱包地址
+ */
+export async function readReaderWallet(event: any) {
+    const session = await readReaderSession(event)
+    return session?.walletAddress ?? null
+}
+
+export async function destroyReaderSession(event: any) {
+    const token = getCookie(event, COOKIE_NAME)
+    if (!token) return
+    const tokenHash = sha256(token)
+    await prisma.readerSession.updateMany({
+        where: {tokenHash, revokedAt: null},
+        data: {revokedAt: new Date()}
+    })
+    deleteCookie(event, COOKIE_NAME, {path: '/'})
+}
+
+/**
+ * 撤销某个钱包的全部读者会话
+ * @returns 撤销数量
+ */
+export async function revokeReaderSessions(walletAddress: string) {
+    const {count} = await prisma.readerSession.updateMany({
+        where: {walletAddress, revokedAt: null},
+        data: {revokedAt: new Date()}
+    })
+    return count
+}
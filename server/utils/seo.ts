@@ -0,0 +1,179 @@
+/**
+ * SEO 元信息模块
+ *
+ * 项目与笔记可单独设置标题、描述、关键词、规范地址与分享图，公开页面通过 SSR 输出到 head：
+ * - 未设置描述时自动取正文首段；笔记仅在解析后的访问级别为 public 时自动生成，避免受保护内容写入 meta
+ * - 分享图依次回退到 项目分享图 → 项目头像
+ * - 规范地址与分享图输出为绝对地址，站点地址取 SITE_URL，未配置时使用请求地址
+ *   （仅在 TRUST_PROXY=true 时采用 X-Forwarded-Host / X-Forwarded-Proto，避免客户端伪造站点地址）
+ */
+
+import type { H3Event } from 'h3'
+import { getRequestURL } from 'h3'
+import { markdownToPlainText } from './noteSearch'
+
+// 自动描述最大长度
+const DESCRIPTION_MAX_LENGTH = 160
+
+// ============ 类型定义 ============
+
+/**
+ * SEO 可编辑字段（项目与笔记共用）
+ */
+export interface SeoFields {
+  seoTitle: string | null
+  seoDescription: string | null
+  seoKeywords: string | null
+  canonicalUrl: string | null
+  ogImage: string | null
+}
+
+/**
+ * 解析后的页面 SEO 信息（公开接口返回，页面直接写入 head）
+ */
+export interface SeoMeta {
+  title: string
+  description: string | null
+  keywords: string | null
+  /** 规范地址（绝对地址） */
+  canonicalUrl: string
+  /** 分享图（绝对地址） */
+  ogImage: string | null
+}
+
+/** SEO 字段最大长度 */
+const SEO_FIELD_LIMITS: Record<keyof SeoFields, number> = {
+  seoTitle: 255,
+  seoDescription: 512,
+  seoKeywords: 255,
+  canonicalUrl: 500,
+  ogImage: 500,
+}
+
+// ============ 后台输入 ============
+
+/**
+ * 读取请求体中的 SEO 字段（仅返回传入的字段，空字符串视为清除）
+ *
+ * @returns 待更新的字段；格式不正确时返回 error
+ */
+export function readSeoFields(
+  body: Record<string, unknown> | null | undefined
+): { data: Partial<SeoFields> } | { error: string } {
+  const data: Partial<SeoFields> = {}
+
+  for (const key of Object.keys(SEO_FIELD_LIMITS) as (keyof SeoFields)[]) {
+    const raw = body?.[key]
+    if (raw === undefined) continue
+    if (raw !== null && typeof raw !== 'string') return { error: `Invalid ${key}` }
+
+    let value = raw?.trim() || null
+    if (value && key === 'seoKeywords') value = normalizeKeywords(value)
+    if (value && value.length > SEO_FIELD_LIMITS[key]) return { error: `Invalid ${key}` }
+    if (value && (key === 'canonicalUrl' || key === 'ogImage') && !isSeoUrl(value)) {
+      return { error: `Invalid ${key}` }
+    }
+    data[key] = value
+  }
+
+  return { data }
+}
+
+/**
+ * 关键词规范化：支持中英文逗号分隔，去空白与重复
+ */
+export function normalizeKeywords(value: string): string | null {
+  const keywords = [...new Set(value.split(/[,，]/).map((k) => k.trim()).filter(Boolean))]
+  return keywords.length ? keywords.join(', ') : null
+}
+
+/**
+ * 地址格式：http(s) 绝对地址或以 / 开头的站内路径
+ */
+function isSeoUrl(value: string): boolean {
+  if (value.startsWith('/')) return !value.startsWith('//')
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// ============ 生成 ============
+
+/**
+ * 获取配置的站点地址（不含结尾斜杠），未配置时返回 null
+ */
+export function getConfiguredSiteUrl(): string | null {
+  const configured = process.env.SITE_URL?.trim()
+  return configured ? configured.replace(/\/+$/, '') : null
+}
+
+/**
+ * 获取站点地址（不含结尾斜杠）
+ * 未配置 SITE_URL 时使用请求地址，转发头仅在信任反向代理时采用
+ */
+export function getSiteUrl(event: H3Event): string {
+  const configured = getConfiguredSiteUrl()
+  if (configured) return configured
+  const trustProxy = process.env.TRUST_PROXY === 'true'
+  return getRequestURL(event, { xForwardedHost: trustProxy, xForwardedProto: trustProxy }).origin
+}
+
+/**
+ * 站内路径转换为绝对地址，已是绝对地址时原样返回
+ */
+export function toAbsoluteUrl(siteUrl: string, value: string): string {
+  if (/^https?:\/\//i.test(value)) return value
+  return `${siteUrl}${value.startsWith('/') ? '' : '/'}${value}`
+}
+
+/**
+ * 从 Markdown 正文提取描述：跳过代码块、标题、图片等，取首个文本段落
+ *
+ * @param markdown - Markdown 正文
+ * @param maxLength - 最大字符数
+ */
+export function extractDescription(markdown: string, maxLength: number = DESCRIPTION_MAX_LENGTH): string | null {
+  const paragraphs = markdown
+    .replace(/^```[\s\S]*?^```.*$/gm, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split(/\n\s*\n/)
+
+  for (const paragraph of paragraphs) {
+    const trimmed = paragraph.trim()
+    // 标题、表格、分隔线不作为描述
+    if (!trimmed || /^#{1,6}\s/.test(trimmed) || trimmed.startsWith('|') || /^([-*_]\s*){3,}$/.test(trimmed)) continue
+
+    const text = markdownToPlainText(trimmed.replace(/!\[[^\]]*\]\([^)]*\)/g, ''))
+    if (!text) continue
+
+    const chars = Array.from(text)
+    return chars.length > maxLength ? `${chars.slice(0, maxLength - 1).join('')}…` : text
+  }
+
+  return null
+}
+
+/**
+ * 合成页面 SEO 信息
+ *
+ * @param siteUrl - 站点地址
+ * @param fields - 页面自身的 SEO 设置
+ * @param defaults - 未设置时的默认值（标题、自动描述、页面路径、回退分享图）
+ */
+export function buildSeoMeta(
+  siteUrl: string,
+  fields: SeoFields,
+  defaults: { title: string; description: string | null; path: string; ogImage: string | null }
+): SeoMeta {
+  const ogImage = fields.ogImage || defaults.ogImage
+  return {
+    title: fields.seoTitle || defaults.title,
+    description: fields.seoDescription || defaults.description,
+    keywords: fields.seoKeywords,
+    canonicalUrl: toAbsoluteUrl(siteUrl, fields.canonicalUrl || defaults.path),
+    ogImage: ogImage ? toAbsoluteUrl(siteUrl, ogImage) : null,
+  }
+}
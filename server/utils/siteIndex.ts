@@ -0,0 +1,442 @@
+/**
+ * 站点索引模块
+ *
+ * 为搜索引擎与订阅阅读器生成 sitemap.xml、robots.txt 与项目 Atom / RSS 订阅：
+ * - 只收录启用且未删除的 项目 → 版本 → 分类 → 笔记，仅管理员可见的内容始终不收录
+ * - 需鉴权项目（requireAuth）与需持有凭证的笔记是否收录由系统配置 seo_include_protected 决定
+ * - 笔记更新时间取主显示内容（无主显示时取最新内容）的 updatedAt
+ * - 订阅摘要与 SEO 描述规则一致：受保护笔记只输出手动设置的描述，不输出正文
+ * - 未配置 SITE_URL 时站点地址取自请求，响应不允许共享缓存，避免按伪造的 Host 缓存后返回给其他访客
+ */
+
+import type { H3Event } from 'h3'
+import { getRequestURL } from 'h3'
+import { prisma } from './prisma'
+import { resolveAccessLevel, type EffectiveAccessLevel } from './noteAccess'
+import { extractDescription, getConfiguredSiteUrl, getSiteUrl } from './seo'
+import { resolveProjectRef, toRouteRef } from './slug'
+
+// 系统配置键
+const CONFIG_INCLUDE_PROTECTED = 'seo_include_protected'
+const CONFIG_ROBOTS_TXT = 'seo_robots_txt'
+
+// 自定义 robots.txt 最大长度（system_config.config_value）
+export const ROBOTS_TXT_MAX_LENGTH = 500
+
+// 订阅默认条数
+const FEED_DEFAULT_LIMIT = 20
+
+// ============ 类型定义 ============
+
+/**
+ * 站点索引配置
+ */
+export interface SiteIndexSettings {
+  /** 是否收录需鉴权项目与需持有凭证的笔记 */
+  includeProtected: boolean
+  /** 自定义 robots.txt（为空时使用默认规则） */
+  robotsTxt: string | null
+}
+
+/**
+ * 已发布笔记
+ */
+export interface PublishedNote {
+  id: bigint
+  noteTitle: string
+  seoDescription: string | null
+  accessLevel: EffectiveAccessLevel
+  projectId: bigint
+  /** 页面路径（/project/:project/v/:version/docs/:note） */
+  path: string
+  /** 内容更新时间 */
+  lastmod: Date
+}
+
+/**
+ * 已发布项目
+ */
+export interface PublishedProject {
+  id: bigint
+  projectName: string
+  seoDescription: string | null
+  /** 项目首页路径 */
+  path: string
+  /** 项目或首页更新时间（取较晚者） */
+  lastmod: Date
+}
+
+/**
+ * 订阅条目
+ */
+export interface FeedEntry {
+  title: string
+  /** 绝对地址 */
+  link: string
+  updated: Date
+  summary: string | null
+}
+
+/**
+ * 项目订阅
+ */
+export interface ProjectFeed {
+  title: string
+  description: string | null
+  /** 项目首页绝对地址 */
+  link: string
+  /** 订阅自身绝对地址 */
+  selfLink: string
+  updated: Date
+  entries: FeedEntry[]
+}
+
+// ============ 配置 ============
+
+/**
+ * 读取站点索引配置
+ */
+export async function getSiteIndexSettings(): Promise<SiteIndexSettings> {
+  const configs = await prisma.systemConfig.findMany({
+    where: { configKey: { in: [CONFIG_INCLUDE_PROTECTED, CONFIG_ROBOTS_TXT] } },
+  })
+  const values = new Map(configs.map((c) => [c.configKey, c.configValue]))
+
+  return {
+    includeProtected: values.get(CONFIG_INCLUDE_PROTECTED) === 'true',
+    robotsTxt: values.get(CONFIG_ROBOTS_TXT)?.trim() || null,
+  }
+}
+
+/**
+ * 保存站点索引配置（仅更新传入的项）
+ */
+export async function saveSiteIndexSettings(settings: Partial<SiteIndexSettings>): Promise<SiteIndexSettings> {
+  const entries: [string, string, string][] = []
+  if (settings.includeProtected !== undefined) {
+    entries.push([CONFIG_INCLUDE_PROTECTED, String(settings.includeProtected), '站点地图与订阅是否收录受保护内容'])
+  }
+  if (settings.robotsTxt !== undefined) {
+    entries.push([CONFIG_ROBOTS_TXT, settings.robotsTxt?.trim() ?? '', '自定义 robots.txt'])
+  }
+
+  await prisma.$transaction(entries.map(([configKey, configValue, description]) =>
+    prisma.systemConfig.upsert({
+      where: { configKey },
+      update: { configValue, updatedAt: new Date() },
+      create: { configKey, configValue, description },
+    })
+  ))
+
+  return getSiteIndexSettings()
+}
+
+// ============ 内容查询 ============
+
+/**
+ * 查询已发布的项目
+ */
+export async function listPublishedProjects(options: { includeProtected: boolean }): Promise<PublishedProject[]> {
+  const projects = await prisma.project.findMany({
+    where: {
+      isDeleted: false,
+      status: 1,
+      ...(options.includeProtected ? {} : { requireAuth: false }),
+    },
+    select: {
+      id: true,
+      slug: true,
+      projectName: true,
+      seoDescription: true,
+      updatedAt: true,
+      home: { select: { updatedAt: true, isDeleted: true, status: true } },
+    },
+    orderBy: [{ weight: 'desc' }, { id: 'asc' }],
+  })
+
+  return projects.map((project) => {
+    const home = project.home && !project.home.isDeleted && project.home.status === 1 ? project.home : null
+    return {
+      id: project.id,
+      projectName: project.projectName,
+      seoDescription: project.seoDescription,
+      path: `/project/${toRouteRef(project)}/home`,
+      lastmod: home && home.updatedAt > project.updatedAt ? home.updatedAt : project.updatedAt,
+    }
+  })
+}
+
+/**
+ * 查询已发布的笔记（按内容更新时间倒序）
+ *
+ * @param options.includeProtected - 是否包含需鉴权项目与需持有凭证的笔记
+ * @param options.projectId - 仅查询指定项目
+ */
+export async function listPublishedNotes(options: {
+  includeProtected: boolean
+  projectId?: bigint
+}): Promise<PublishedNote[]> {
+  const notes = await prisma.noteInfo.findMany({
+    where: {
+      isDeleted: false,
+      status: 1,
+      category: {
+        isDeleted: false,
+        status: 1,
+        projectVersion: {
+          isDeleted: false,
+          status: 1,
+          project: {
+            isDeleted: false,
+            status: 1,
+            ...(options.projectId !== undefined ? { id: options.projectId } : {}),
+            ...(options.includeProtected ? {} : { requireAuth: false }),
+          },
+        },
+      },
+    },
+    select: {
+      id: true,
+      slug: true,
+      noteTitle: true,
+      seoDescription: true,
+      accessLevel: true,
+      category: {
+        select: {
+          accessLevel: true,
+          projectVersion: {
+            select: {
+              id: true,
+              slug: true,
+              project: { select: { id: true, slug: true, requireAuth: true } },
+            },
+          },
+        },
+      },
+      // 与笔记接口一致：优先主显示内容，否则取最新内容
+      contents: {
+        where: { locale: null, isDeleted: false, status: 1 },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+        take: 1,
+        select: { updatedAt: true },
+      },
+    },
+  })
+
+  const result: PublishedNote[] = []
+  for (const note of notes) {
+    const content = note.contents[0]
+    if (!content) continue
+
+    const version = note.category.projectVersion
+    const accessLevel = resolveAccessLevel(version.project, note.category, note)
+    if (accessLevel === 'admin') continue
+    if (accessLevel === 'wallet' && !options.includeProtected) continue
+
+    result.push({
+      id: note.id,
+      noteTitle: note.noteTitle,
+      seoDescription: note.seoDescription,
+      accessLevel,
+      projectId: version.project.id,
+      path: `/project/${toRouteRef(version.project)}/v/${toRouteRef(version)}/docs/${toRouteRef(note)}`,
+      lastmod: content.updatedAt,
+    })
+  }
+
+  return result.sort((a, b) => b.lastmod.getTime() - a.lastmod.getTime())
+}
+
+// ============ 生成 ============
+
+/**
+ * 站点索引响应的缓存头
+ * 配置了 SITE_URL 时允许共享缓存；否则内容随请求地址变化，仅允许浏览器缓存
+ *
+ * @param maxAge - 缓存秒数
+ */
+export function getSiteIndexCacheHeaders(maxAge: number): Record<string, string> {
+  if (getConfiguredSiteUrl()) {
+    return { 'Cache-Control': `public, max-age=${maxAge}` }
+  }
+  return {
+    'Cache-Control': `private, max-age=${maxAge}`,
+    'Vary': process.env.TRUST_PROXY === 'true' ? 'Host, X-Forwarded-Host, X-Forwarded-Proto' : 'Host',
+  }
+}
+
+/**
+ * XML 转义
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * 生成 sitemap.xml
+ */
+export function renderSitemap(siteUrl: string, pages: { path: string; lastmod: Date }[]): string {
+  const urls = pages.map((page) => [
+    '  <url>',
+    `    <loc>${escapeXml(siteUrl + page.path)}</loc>`,
+    `    <lastmod>${page.lastmod.toISOString()}</lastmod>`,
+    '  </url>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * 生成 robots.txt：未自定义时禁止收录后台与接口，并始终附带站点地图地址
+ */
+export function renderRobotsTxt(siteUrl: string, robotsTxt: string | null): string {
+  const rules = robotsTxt || ['User-agent: *', 'Disallow: /admin', 'Disallow: /api'].join('\n')
+  const sitemap = /^sitemap:/im.test(rules) ? '' : `\nSitemap: ${siteUrl}/sitemap.xml\n`
+  return `${rules}\n${sitemap}`
+}
+
+/**
+ * 生成项目订阅内容（最近更新的笔记）
+ *
+ * @param siteUrl - 站点地址
+ * @param project - 项目（需已确认可收录）
+ * @param notes - 项目下已发布的笔记（按更新时间倒序）
+ * @param selfPath - 订阅自身路径
+ */
+export async function buildProjectFeed(
+  siteUrl: string,
+  project: PublishedProject,
+  notes: PublishedNote[],
+  selfPath: string,
+  limit: number = FEED_DEFAULT_LIMIT
+): Promise<ProjectFeed> {
+  const recent = notes.slice(0, limit)
+
+  // 仅公开笔记从正文生成摘要
+  const publicIds = recent.filter((n) => !n.seoDescription && n.accessLevel === 'public').map((n) => n.id)
+  // 每篇笔记只取对外展示的内容版本（与 listPublishedNotes 一致）
+  const rows = publicIds.length
+    ? await prisma.noteInfo.findMany({
+      where: { id: { in: publicIds } },
+      select: {
+        id: true,
+        contents: {
+          where: { locale: null, isDeleted: false, status: 1 },
+          orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+          take: 1,
+          select: { content: true },
+        },
+      },
+    })
+    : []
+  const contentMap = new Map<bigint, string>()
+  for (const row of rows) {
+    const content = row.contents[0]
+    if (content) contentMap.set(row.id, content.content)
+  }
+
+  return {
+    title: project.projectName,
+    description: project.seoDescription,
+    link: siteUrl + project.path,
+    selfLink: siteUrl + selfPath,
+    updated: recent[0]?.lastmod ?? project.lastmod,
+    entries: recent.map((note) => {
+      const content = contentMap.get(note.id)
+      return {
+        title: note.noteTitle,
+        link: siteUrl + note.path,
+        updated: note.lastmod,
+        summary: note.seoDescription || (content ? extractDescription(content) : null),
+      }
+    }),
+  }
+}
+
+/**
+ * 按地址参数加载项目订阅，项目不存在或不收录时返回 null
+ *
+ * @param event - 请求（订阅地址取请求路径）
+ * @param ref - 项目 ID 或别名
+ */
+export async function loadProjectFeed(event: H3Event, ref: string): Promise<ProjectFeed | null> {
+  const projectRef = await resolveProjectRef(ref)
+  if (!projectRef) return null
+
+  const { includeProtected } = await getSiteIndexSettings()
+  const project = (await listPublishedProjects({ includeProtected })).find((p) => p.id === projectRef.id)
+  if (!project) return null
+
+  const notes = await listPublishedNotes({ includeProtected, projectId: project.id })
+  return buildProjectFeed(getSiteUrl(event), project, notes, getRequestURL(event).pathname)
+}
+
+/**
+ * 生成 Atom 订阅
+ */
+export function renderAtomFeed(feed: ProjectFeed): string {
+  const entries = feed.entries.map((entry) => [
+    '  <entry>',
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link href="${escapeXml(entry.link)}"/>`,
+    `    <id>${escapeXml(entry.link)}</id>`,
+    `    <updated>${entry.updated.toISOString()}</updated>`,
+    ...(entry.summary ? [`    <summary>${escapeXml(entry.summary)}</summary>`] : []),
+    '  </entry>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    ...(feed.description ? [`  <subtitle>${escapeXml(feed.description)}</subtitle>`] : []),
+    `  <link href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" href="${escapeXml(feed.selfLink)}"/>`,
+    `  <id>${escapeXml(feed.link)}</id>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * 生成 RSS 2.0 订阅
+ */
+export function renderRssFeed(feed: ProjectFeed): string {
+  const items = feed.entries.map((entry) => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.link)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(entry.link)}</guid>`,
+    `      <pubDate>${entry.updated.toUTCString()}</pubDate>`,
+    ...(entry.summary ? [`      <description>${escapeXml(entry.summary)}</description>`] : []),
+    '    </item>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.description || feed.title)}</description>`,
+    `    <atom:link href="${escapeXml(feed.selfLink)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,196 @@
+/**
+ * URL 别名（slug）模块
+ *
+ * 项目、版本、笔记的公开地址同时支持数字 ID 与别名：
+ * - 别名由小写字母、数字与连字符组成，不能是纯数字（避免与 ID 混淆）
+ * - 项目别名全局唯一，版本别名项目内唯一，笔记别名版本内唯一
+ * - 修改别名时保留旧别名（SlugRedirect），旧链接解析到当前记录，页面访问时 301 跳转
+ */
+
+import { Prisma } from '~~/generated/prisma/client'
+import { prisma } from './prisma'
+
+// 别名格式
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// 别名最大长度
+const SLUG_MAX_LENGTH = 128
+
+// ============ 类型定义 ============
+
+/**
+ * 别名类型
+ */
+export type SlugEntityType = 'project' | 'version' | 'note'
+
+/**
+ * 地址参数解析结果
+ */
+export interface ResolvedRef {
+  /** 记录 ID */
+  id: bigint
+  /** 是否通过旧别名解析（页面访问需 301 跳转） */
+  redirected: boolean
+}
+
+// ============ 校验 ============
+
+/**
+ * 规范化别名输入（去空白、转小写），空值返回 null
+ */
+export function normalizeSlug(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const slug = value.trim().toLowerCase()
+  return slug || null
+}
+
+/**
+ * 判断别名格式是否有效
+ */
+export function isValidSlug(slug: string): boolean {
+  return slug.length <= SLUG_MAX_LENGTH && SLUG_PATTERN.test(slug) && !/^\d+$/.test(slug)
+}
+
+/**
+ * 检查版本内是否已有使用该别名的笔记（含已删除，避免恢复后冲突）
+ *
+ * @param versionId - 版本 ID
+ * @param slug - 别名
+ * @param excludeNoteId - 排除的笔记 ID（修改时排除自身）
+ */
+export async function isNoteSlugTaken(
+  versionId: bigint,
+  slug: string,
+  excludeNoteId?: bigint,
+  tx: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const count = await tx.noteInfo.count({
+    where: {
+      slug,
+      category: { projectVersionId: versionId },
+      ...(excludeNoteId !== undefined ? { id: { not: excludeNoteId } } : {}),
+    },
+  })
+  return count > 0
+}
+
+// ============ 旧别名 ============
+
+/**
+ * 记录别名变更
+ * 旧别名写入跳转表指向当前记录；新别名若曾是其他记录的旧别名，则由当前记录接管
+ *
+ * @param tx - 事务
+ * @param entityType - 别名类型
+ * @param scopeId - 别名所在范围（项目为 0，版本为项目 ID，笔记为版本 ID）
+ * @param targetId - 当前记录 ID
+ * @param oldSlug - 修改前的别名
+ * @param newSlug - 修改后的别名
+ */
+export async function recordSlugChange(
+  tx: Prisma.TransactionClient,
+  entityType: SlugEntityType,
+  scopeId: bigint,
+  targetId: bigint,
+  oldSlug: string | null,
+  newSlug: string | null
+): Promise<void> {
+  if (oldSlug === newSlug) return
+
+  if (newSlug) {
+    await tx.slugRedirect.deleteMany({
+      where: { entityType, scopeId, oldSlug: newSlug },
+    })
+  }
+
+  if (oldSlug) {
+    await tx.slugRedirect.upsert({
+      where: { entityType_scopeId_oldSlug: { entityType, scopeId, oldSlug } },
+      create: { entityType, scopeId, oldSlug, targetId },
+      update: { targetId, createdAt: new Date() },
+    })
+  }
+}
+
+/**
+ * 按旧别名查找跳转目标
+ */
+async function findRedirect(entityType: SlugEntityType, scopeId: bigint, slug: string): Promise<ResolvedRef | null> {
+  const redirect = await prisma.slugRedirect.findUnique({
+    where: { entityType_scopeId_oldSlug: { entityType, scopeId, oldSlug: slug } },
+    select: { targetId: true },
+  })
+  return redirect ? { id: redirect.targetId, redirected: true } : null
+}
+
+/**
+ * 解析数字 ID，非数字返回 null
+ */
+function parseId(ref: string): bigint | null {
+  return /^\d+$/.test(ref) ? BigInt(ref) : null
+}
+
+// ============ 地址参数解析 ============
+
+/**
+ * 解析项目地址参数（ID / 别名 / 旧别名）
+ * 仅解析 ID，不校验状态与软删除
+ */
+export async function resolveProjectRef(ref: string): Promise<ResolvedRef | null> {
+  const id = parseId(ref)
+  if (id !== null) return { id, redirected: false }
+
+  const slug = normalizeSlug(ref)
+  if (!slug) return null
+
+  const project = await prisma.project.findUnique({ where: { slug }, select: { id: true } })
+  if (project) return { id: project.id, redirected: false }
+
+  return findRedirect('project', 0n, slug)
+}
+
+/**
+ * 解析版本地址参数（ID / 项目内别名 / 旧别名）
+ */
+export async function resolveVersionRef(projectId: bigint, ref: string): Promise<ResolvedRef | null> {
+  const id = parseId(ref)
+  if (id !== null) return { id, redirected: false }
+
+  const slug = normalizeSlug(ref)
+  if (!slug) return null
+
+  const version = await prisma.projectVersion.findUnique({
+    where: { projectId_slug: { projectId, slug } },
+    select: { id: true },
+  })
+  if (version) return { id: version.id, redirected: false }
+
+  return findRedirect('version', projectId, slug)
+}
+
+/**
+ * 解析笔记地址参数（ID / 版本内别名 / 旧别名）
+ */
+export async function resolveNoteRef(versionId: bigint, ref: string): Promise<ResolvedRef | null> {
+  const id = parseId(ref)
+  if (id !== null) return { id, redirected: false }
+
+  const slug = normalizeSlug(ref)
+  if (!slug) return null
+
+  const note = await prisma.noteInfo.findFirst({
+    where: { slug, category: { projectVersionId: versionId } },
+    orderBy: { isDeleted: 'asc' },
+    select: { id: true },
+  })
+  if (note) return { id: note.id, redirected: false }
+
+  return findRedirect('note', versionId, slug)
+}
+
+/**
+ * 生成地址参数：有别名时使用别名，否则使用 ID
+ */
+export function toRouteRef(record: { id: bigint; slug: string | null }): string {
+  return record.slug || record.id.toString()
+}
@@ -0,0 +1,308 @@
+/**
+ * Solana 状态对账模块
+ *
+ * prepare 与 submit 之间会话丢失（进程重启、用户放弃签名等）时，数据库会遗留中间状态：
+ * - cNFT 停留在铸造中（status=0），且树的 totalMinted 已预先占用了叶子
+ * - 树停留在创建中（status=0），交易确认结果未知
+ *
+ * 本模块按链上状态对账：能确认成功的补齐为正常，确认失败或从未提交的标记为失败，
+ * 并按链上叶子数与仍有效的记录重新校准 totalMinted。无法确定的记录保持原状，下次再查。
+ */
+
+import { Connection, PublicKey, type TransactionSignature } from '@solana/web3.js'
+import {
+  ConcurrentMerkleTreeAccount,
+  SPL_ACCOUNT_COMPRESSION_PROGRAM_ID,
+} from '@solana/spl-account-compression'
+import { prisma } from './prisma'
+import { getConnection, type SolanaNetwork } from './solana'
+import { getAssetId } from './bubblegum'
+import { TreeStatus } from './treeSelector'
+import { getSolanaSessionStore } from './solanaSessionStore'
+
+/** 默认只处理 10 分钟前的记录（会话 5 分钟过期，留出交易确认时间） */
+const DEFAULT_STALE_MINUTES = 10
+
+/** 单次最多处理的记录数 */
+const DEFAULT_BATCH_LIMIT = 100
+
+// ============ 类型定义 ============
+
+/** 对账选项 */
+export interface SolanaRecoveryOptions {
+  /** 只处理最后更新早于 N 分钟前的记录 */
+  staleMinutes?: number
+  /** 每类记录最多处理的数量 */
+  limit?: number
+  /** 只检查不写库 */
+  dryRun?: boolean
+}
+
+/** 单条记录的对账结果 */
+export interface SolanaRecoveryItem {
+  id: string
+  /** minted/created=确认成功 failed=标记失败 skipped=状态未知，保持原状 */
+  action: 'minted' | 'created' | 'failed' | 'skipped'
+  reason: string
+}
+
+/** 对账报告 */
+export interface SolanaRecoveryReport {
+  dryRun: boolean
+  /** 清理的过期会话数 */
+  expiredSessions: number
+  mints: SolanaRecoveryItem[]
+  trees: SolanaRecoveryItem[]
+}
+
+/** 链上交易状态 */
+type ChainTxState = 'success' | 'failed' | 'pending' | 'missing'
+
+// ============ 链上查询 ============
+
+/**
+ * 按网络缓存 RPC 连接
+ */
+function createConnectionPool() {
+  const connections = new Map<string, Connection>()
+  return (network: string): Connection => {
+    let connection = connections.get(network)
+    if (!connection) {
+      connection = getConnection(network as SolanaNetwork)
+      connections.set(network, connection)
+    }
+    return connection
+  }
+}
+
+/**
+ * 查询交易在链上的最终状态（包含历史交易）
+ */
+async function getTransactionState(connection: Connection, signature: TransactionSignature): Promise<ChainTxState> {
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true })
+  if (!value) return 'missing'
+  if (value.err) return 'failed'
+  if (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized') return 'success'
+  return 'pending'
+}
+
+/**
+ * 读取链上树已追加的叶子数量
+ * @returns 树账户不存在时返回 null
+ */
+export async function getOnChainLeafCount(connection: Connection, treeAddress: string): Promise<number | null> {
+  const pubkey = new PublicKey(treeAddress)
+  const info = await connection.getAccountInfo(pubkey)
+  if (!info) return null
+  const account = ConcurrentMerkleTreeAccount.fromBuffer(info.data)
+  return account.tree.rightMostPath.index
+}
+
+// ============ 铸造计数校准 ============
+
+/**
+ * 重新校准树的 totalMinted
+ *
+ * 取「链上叶子数」与「仍有效（铸造中/正常）记录的最大叶子索引 + 1」中的较大值；
+ * 以读取时的 totalMinted 作为条件更新，避免覆盖并发 prepare 的预占。
+ *
+ * @returns 校准后的值，未变化或被并发修改时返回 null
+ */
+export async function syncTreeMintedCount(treeId: bigint, connection?: Connection): Promise<number | null> {
+  const tree = await prisma.merkleTree.findUnique({
+    where: { id: treeId },
+    select: { treeAddress: true, totalMinted: true, maxCapacity: true, status: true },
+  })
+  if (!tree) return null
+
+  const reserved = await prisma.compressedNft.aggregate({
+    where: { merkleTreeId: treeId, status: { in: [0, 1] } },
+    _max: { leafIndex: true },
+  })
+  let next = (reserved._max.leafIndex ?? -1) + 1
+
+  if (connection) {
+    try {
+      const onChain = await getOnChainLeafCount(connection, tree.treeAddress)
+      if (onChain !== null) next = Math.max(next, onChain)
+    } catch (err: any) {
+      console.warn(`[Solana Recover] 读取链上叶子数失败: tree=${tree.treeAddress}`, err.message)
+    }
+  }
+
+  if (next === tree.totalMinted) return null
+
+  // 释放叶子后已满的树恢复为可用
+  const status = tree.status === TreeStatus.FULL && next < Number(tree.maxCapacity) ? TreeStatus.NORMAL : tree.status
+  const result = await prisma.merkleTree.updateMany({
+    where: { id: treeId, totalMinted: tree.totalMinted },
+    data: { totalMinted: next, status, updatedAt: new Date() },
+  })
+  return result.count > 0 ? next : null
+}
+
+// ============ cNFT 对账 ============
+
+/**
+ * 对账铸造中的 cNFT
+ */
+export async function recoverPendingMints(options: SolanaRecoveryOptions = {}): Promise<SolanaRecoveryItem[]> {
+  const { staleMinutes = DEFAULT_STALE_MINUTES, limit = DEFAULT_BATCH_LIMIT, dryRun = false } = options
+  const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000)
+  const connectionFor = createConnectionPool()
+
+  const cnfts = await prisma.compressedNft.findMany({
+    where: { status: 0, updatedAt: { lt: cutoff } },
+    include: { merkleTree: { select: { treeAddress: true, network: true } } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+
+  const items: SolanaRecoveryItem[] = []
+  const touchedTrees = new Map<bigint, string>()
+
+  for (const cnft of cnfts) {
+    const id = cnft.id.toString()
+    const connection = connectionFor(cnft.merkleTree.network)
+
+    // 1. 判断链上结果；没有交易签名说明 submit 从未发送交易
+    let state: ChainTxState = 'missing'
+    if (cnft.mintTxSignature) {
+      try {
+        state = await getTransactionState(connection, cnft.mintTxSignature)
+      } catch (err: any) {
+        items.push({ id, action: 'skipped', reason: `查询交易状态失败: ${err.message}` })
+        continue
+      }
+    }
+
+    if (state === 'pending') {
+      items.push({ id, action: 'skipped', reason: '交易尚未确认' })
+      continue
+    }
+
+    if (state === 'success') {
+      const [assetIdPubkey] = getAssetId(new PublicKey(cnft.merkleTree.treeAddress), cnft.leafIndex)
+      const assetId = assetIdPubkey.toBase58()
+
+      const conflict = await prisma.compressedNft.findUnique({
+        where: { assetId },
+        select: { id: true, status: true },
+      })
+      if (conflict && conflict.id !== cnft.id && conflict.status === 1) {
+        items.push({ id, action: 'skipped', reason: `assetId 已被记录 ${conflict.id} 占用，需人工核对` })
+        continue
+      }
+
+      if (!dryRun) {
+        await prisma.$transaction(async (tx) => {
+          if (conflict && conflict.id !== cnft.id) {
+            await tx.compressedNft.delete({ where: { id: conflict.id } })
+          }
+          await tx.compressedNft.update({
+            where: { id: cnft.id },
+            data: { assetId, status: 1, updatedAt: new Date() },
+          })
+        })
+      }
+      items.push({ id, action: 'minted', reason: '链上交易已确认' })
+      continue
+    }
+
+    // 2. 交易失败或从未提交：标记失败并释放叶子
+    if (!dryRun) {
+      await prisma.compressedNft.update({
+        where: { id: cnft.id },
+        data: { status: -1, updatedAt: new Date() },
+      })
+      touchedTrees.set(cnft.merkleTreeId, cnft.merkleTree.network)
+    }
+    items.push({
+      id,
+      action: 'failed',
+      reason: state === 'failed' ? '链上交易执行失败' : cnft.mintTxSignature ? '链上未找到交易' : '会话丢失，交易未提交',
+    })
+  }
+
+  for (const [treeId, network] of touchedTrees) {
+    const next = await syncTreeMintedCount(treeId, connectionFor(network))
+    if (next !== null) {
+      console.log(`[Solana Recover] 树 ${treeId} 的 totalMinted 已校准为 ${next}`)
+    }
+  }
+
+  return items
+}
+
+// ============ 树对账 ============
+
+/**
+ * 对账创建中的 Merkle Tree
+ */
+export async function recoverCreatingTrees(options: SolanaRecoveryOptions = {}): Promise<SolanaRecoveryItem[]> {
+  const { staleMinutes = DEFAULT_STALE_MINUTES, limit = DEFAULT_BATCH_LIMIT, dryRun = false } = options
+  const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000)
+  const connectionFor = createConnectionPool()
+
+  const trees = await prisma.merkleTree.findMany({
+    where: { status: TreeStatus.CREATING, isDeleted: false, updatedAt: { lt: cutoff } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  })
+
+  const items: SolanaRecoveryItem[] = []
+
+  for (const tree of trees) {
+    const id = tree.id.toString()
+    const connection = connectionFor(tree.network)
+
+    let state: ChainTxState = 'missing'
+    let accountExists = false
+    try {
+      if (tree.txSignature) {
+        state = await getTransactionState(connection, tree.txSignature)
+      }
+      const info = await connection.getAccountInfo(new PublicKey(tree.treeAddress))
+      accountExists = !!info && info.owner.equals(SPL_ACCOUNT_COMPRESSION_PROGRAM_ID)
+    } catch (err: any) {
+      items.push({ id, action: 'skipped', reason: `查询链上状态失败: ${err.message}` })
+      continue
+    }
+
+    let status: number
+    let item: SolanaRecoveryItem
+    if (accountExists && state !== 'failed') {
+      status = TreeStatus.NORMAL
+      item = { id, action: 'created', reason: '链上树账户已存在' }
+    } else if (state === 'pending') {
+      items.push({ id, action: 'skipped', reason: '交易尚未确认' })
+      continue
+    } else {
+      status = TreeStatus.FAILED
+      item = { id, action: 'failed', reason: state === 'failed' ? '链上交易执行失败' : '链上未找到树账户' }
+    }
+
+    if (!dryRun) {
+      await prisma.merkleTree.update({
+        where: { id: tree.id },
+        data: { status, updatedAt: new Date() },
+      })
+    }
+    items.push(item)
+  }
+
+  return items
+}
+
+// ============ 入口 ============
+
+/**
+ * 清理过期会话并对账遗留的铸造与建树记录
+ */
+export async function recoverSolanaState(options: SolanaRecoveryOptions = {}): Promise<SolanaRecoveryReport> {
+  const dryRun = options.dryRun ?? false
+  const expiredSessions = dryRun ? 0 : await getSolanaSessionStore().cleanExpired()
+  const trees = await recoverCreatingTrees(options)
+  const mints = await recoverPendingMints(options)
+  return { dryRun, expiredSessions, mints, trees }
+}
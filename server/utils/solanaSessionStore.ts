@@ -0,0 +1,269 @@
+/**
+ * Solana 交易会话存储模块
+ *
+ * 树创建与 cNFT 铸造都分为 prepare / submit 两步，中间需要保存上下文。
+ * 通过 SolanaSessionStore 接口屏蔽具体的存储后端：
+ * - postgres: 保存到 solana_session 表，进程重启与多实例部署下仍可用（默认）
+ * - memory: 进程内 Map，仅用于单机开发与测试
+ *
+ * 会话中只保存公钥、参数与加密后的私钥（或对树记录的引用），不保存明文 Keypair。
+ *
+ * 通过环境变量 SOLANA_SESSION_STORE 选择存储后端。
+ */
+
+import { prisma } from './prisma'
+
+// ============ 类型定义 ============
+
+/** 存储后端名称 */
+export type SolanaSessionStoreName = 'postgres' | 'memory'
+
+/** 所有有效的存储后端名称 */
+export const ValidSolanaSessionStores: SolanaSessionStoreName[] = ['postgres', 'memory']
+
+/** 会话类型：tree=树创建 mint=cNFT 铸造 batch=批量铸造中的一笔交易 operation=cNFT 转移/销毁/委托 purchase=读者购买 */
+export type SolanaSessionKind = 'tree' | 'mint' | 'batch' | 'operation' | 'purchase'
+
+/**
+ * 会话记录
+ * payload 只能包含可 JSON 序列化的非敏感数据
+ */
+export interface SolanaSessionRecord {
+  /** 会话 ID */
+  id: string
+  /** 会话类型 */
+  kind: SolanaSessionKind
+  /** 会话数据 */
+  payload: Record<string, unknown>
+  /** 加密后的私钥（AES-256-GCM） */
+  encryptedKey: string | null
+  /** 创建时间戳 */
+  createdAt: number
+  /** 过期时间戳 */
+  expiresAt: number
+}
+
+/**
+ * 会话存储接口
+ */
+export interface SolanaSessionStore {
+  /** 存储后端名称 */
+  readonly name: SolanaSessionStoreName
+  /**
+   * 保存会话
+   */
+  set(record: SolanaSessionRecord): Promise<void>
+  /**
+   * 获取会话
+   * @returns 会话记录，不存在、类型不符或已过期时返回 null
+   */
+  get(id: string, kind: SolanaSessionKind): Promise<SolanaSessionRecord | null>
+  /**
+   * 删除会话（不存在时忽略）
+   */
+  delete(id: string): Promise<void>
+  /**
+   * 清理过期会话
+   * @returns 清理的会话数量
+   */
+  cleanExpired(kind?: SolanaSessionKind): Promise<number>
+  /**
+   * 获取未过期的会话数量（用于调试/监控）
+   */
+  count(kind?: SolanaSessionKind): Promise<number>
+  /**
+   * 清除会话（用于测试）
+   */
+  clear(kind?: SolanaSessionKind): Promise<void>
+}
+
+// ============ 常量配置 ============
+
+// 内存存储清理间隔（毫秒）- 1 分钟
+const CLEANUP_INTERVAL_MS = 60 * 1000
+
+// ============ 内存存储 ============
+
+/**
+ * 进程内存储
+ * 重启或多实例部署时会话会丢失，仅适用于单机开发与测试
+ */
+export class MemorySolanaSessionStore implements SolanaSessionStore {
+  readonly name = 'memory' as const
+  private readonly sessions = new Map<string, SolanaSessionRecord>()
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+  async set(record: SolanaSessionRecord): Promise<void> {
+    this.sessions.set(record.id, record)
+    this.ensureCleanupTimer()
+  }
+
+  async get(id: string, kind: SolanaSessionKind): Promise<SolanaSessionRecord | null> {
+    const record = this.sessions.get(id)
+    if (!record || record.kind !== kind) return null
+
+    if (Date.now() > record.expiresAt) {
+      this.sessions.delete(id)
+      return null
+    }
+    return record
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id)
+  }
+
+  async cleanExpired(kind?: SolanaSessionKind): Promise<number> {
+    const now = Date.now()
+    let cleanedCount = 0
+    for (const [id, record] of this.sessions.entries()) {
+      if ((!kind || record.kind === kind) && now > record.expiresAt) {
+        this.sessions.delete(id)
+        cleanedCount++
+      }
+    }
+    return cleanedCount
+  }
+
+  async count(kind?: SolanaSessionKind): Promise<number> {
+    const now = Date.now()
+    let total = 0
+    for (const record of this.sessions.values()) {
+      if ((!kind || record.kind === kind) && now <= record.expiresAt) total++
+    }
+    return total
+  }
+
+  async clear(kind?: SolanaSessionKind): Promise<void> {
+    if (!kind) {
+      this.sessions.clear()
+      return
+    }
+    for (const [id, record] of this.sessions.entries()) {
+      if (record.kind === kind) this.sessions.delete(id)
+    }
+  }
+
+  /**
+   * 停止清理定时器（用于测试清理）
+   */
+  stopCleanupTimer(): void {
+    if (this.cleanupTimer !== null) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+
+  /**
+   * 确保清理定时器已启动，没有会话时自动停止
+   */
+  private ensureCleanupTimer(): void {
+    if (this.cleanupTimer !== null) return
+
+    this.cleanupTimer = setInterval(() => {
+      void this.cleanExpired()
+      if (this.sessions.size === 0) this.stopCleanupTimer()
+    }, CLEANUP_INTERVAL_MS)
+
+    // 确保定时器不会阻止进程退出
+    this.cleanupTimer.unref?.()
+  }
+}
+
+// ============ Postgres 存储 ============
+
+/**
+ * Postgres 存储（solana_session 表）
+ * 过期会话在读取时忽略，由 solana:recover 任务定期清理
+ */
+export class PostgresSolanaSessionStore implements SolanaSessionStore {
+  readonly name = 'postgres' as const
+
+  async set(record: SolanaSessionRecord): Promise<void> {
+    await prisma.solanaSession.create({
+      data: {
+        id: record.id,
+        kind: record.kind,
+        payload: record.payload as any,
+        encryptedKey: record.encryptedKey,
+        createdAt: new Date(record.createdAt),
+        expiresAt: new Date(record.expiresAt),
+      },
+    })
+  }
+
+  async get(id: string, kind: SolanaSessionKind): Promise<SolanaSessionRecord | null> {
+    const row = await prisma.solanaSession.findUnique({ where: { id } })
+    if (!row || row.kind !== kind) return null
+
+    if (Date.now() > row.expiresAt.getTime()) {
+      await this.delete(id)
+      return null
+    }
+
+    return {
+      id: row.id,
+      kind: row.kind as SolanaSessionKind,
+      payload: (row.payload ?? {}) as Record<string, unknown>,
+      encryptedKey: row.encryptedKey,
+      createdAt: row.createdAt.getTime(),
+      expiresAt: row.expiresAt.getTime(),
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.solanaSession.deleteMany({ where: { id } })
+  }
+
+  async cleanExpired(kind?: SolanaSessionKind): Promise<number> {
+    const result = await prisma.solanaSession.deleteMany({
+      where: { expiresAt: { lt: new Date() }, ...(kind ? { kind } : {}) },
+    })
+    return result.count
+  }
+
+  async count(kind?: SolanaSessionKind): Promise<number> {
+    return prisma.solanaSession.count({
+      where: { expiresAt: { gte: new Date() }, ...(kind ? { kind } : {}) },
+    })
+  }
+
+  async clear(kind?: SolanaSessionKind): Promise<void> {
+    await prisma.solanaSession.deleteMany({ where: kind ? { kind } : {} })
+  }
+}
+
+// ============ 存储获取 ============
+
+// 存储实例缓存
+let store: SolanaSessionStore | null = null
+
+/**
+ * 检查存储后端名称是否有效
+ */
+export function isSolanaSessionStoreName(value: unknown): value is SolanaSessionStoreName {
+  return typeof value === 'string' && (ValidSolanaSessionStores as string[]).includes(value)
+}
+
+/**
+ * 获取会话存储
+ * 缺省使用 SOLANA_SESSION_STORE 配置的后端（默认 postgres）
+ */
+export function getSolanaSessionStore(): SolanaSessionStore {
+  if (store) return store
+
+  const name = process.env.SOLANA_SESSION_STORE || 'postgres'
+  if (!isSolanaSessionStoreName(name)) {
+    throw new Error(`不支持的会话存储: ${name}（可选: ${ValidSolanaSessionStores.join(', ')}）`)
+  }
+
+  store = name === 'memory' ? new MemorySolanaSessionStore() : new PostgresSolanaSessionStore()
+  return store
+}
+
+/**
+ * 替换存储实例（用于测试或运行时切换）
+ */
+export function setSolanaSessionStore(value: SolanaSessionStore | null): void {
+  store = value
+}
@@ -0,0 +1,365 @@
+/**
+ * 文件存储驱动模块
+ *
+ * 通过 StorageDriver 接口屏蔽具体的存储后端：
+ * - local: 本地磁盘（public 目录），单机部署默认使用
+ * - s3: S3 兼容对象存储（MinIO / AWS S3 / R2 等），多实例部署使用
+ *
+ * 对象 Key 与 FileManagement.filePath 一致（如 uploads/markdown/xxx.png），
+ * 访问地址统一为 /<key>，由 server/routes/uploads 按记录所在驱动读取或跳转。
+ *
+ * 通过环境变量 STORAGE_DRIVER 选择新上传文件使用的驱动，默认 local。
+ */
+
+import { join, extname, dirname, normalize, sep } from 'node:path'
+import { readFile, writeFile, unlink, stat, mkdir } from 'node:fs/promises'
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+
+// ============ 类型定义 ============
+
+/** 驱动名称 */
+export type StorageDriverName = 'local' | 's3'
+
+/** 所有有效的驱动名称 */
+export const ValidStorageDrivers: StorageDriverName[] = ['local', 's3']
+
+/** 对象元信息 */
+export interface StorageObjectStat {
+  /** 大小（字节） */
+  size: number
+  /** 最后修改时间 */
+  lastModified: Date | null
+  /** MIME 类型 */
+  contentType: string | null
+}
+
+/**
+ * 存储驱动接口
+ */
+export interface StorageDriver {
+  /** 驱动名称（记录在 FileManagement.storageDriver 中） */
+  readonly name: StorageDriverName
+  /**
+   * 写入对象（已存在则覆盖）
+   * @param key - 对象 Key
+   * @param data - 文件内容
+   * @param contentType - MIME 类型，缺省按扩展名推断
+   */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>
+  /**
+   * 读取对象
+   * @returns 文件内容，不存在时返回 null
+   */
+  get(key: string): Promise<Buffer | null>
+  /**
+   * 删除对象（不存在时忽略）
+   */
+  delete(key: string): Promise<void>
+  /**
+   * 获取对象元信息
+   * @returns 元信息，不存在时返回 null
+   */
+  stat(key: string): Promise<StorageObjectStat | null>
+  /**
+   * 获取可直接访问的地址
+   * @param key - 对象 Key
+   * @param expiresIn - 有效期（秒），仅对私有对象存储生效
+   */
+  getSignedUrl(key: string, expiresIn?: number): Promise<string>
+}
+
+// ============ 常量配置 ============
+
+/** 签名地址默认有效期：10 分钟 */
+const DEFAULT_SIGNED_URL_EXPIRES = 10 * 60
+
+/** 常见扩展名对应的 MIME 类型 */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  pdf: 'application/pdf',
+  json: 'application/json',
+  zip: 'application/zip',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg',
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 按扩展名推断 MIME 类型
+ */
+export function getContentType(key: string): string {
+  const ext = extname(key).toLowerCase().slice(1)
+  return MIME_TYPES[ext] || 'application/octet-stream'
+}
+
+/**
+ * 规范化对象 Key
+ * 去除开头的 /、查询参数与锚点，拒绝越界路径
+ *
+ * @returns 规范化后的 Key，非法时返回 null
+ */
+export function normalizeStorageKey(value: string): string | null {
+  let key = value.split(/[?#]/)[0]!.replace(/\\/g, '/').replace(/^\/+/, '')
+  try {
+    key = decodeURIComponent(key)
+  } catch {
+    return null
+  }
+  if (!key || key.split('/').some((s) => s === '..' || s === '.')) return null
+  return key
+}
+
+// ============ 本地磁盘驱动 ============
+
+/**
+ * 本地磁盘驱动
+ * 对象保存在 <rootDir>/<key>，默认 rootDir 为 public 目录
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const
+  private readonly rootDir: string
+
+  constructor(rootDir: string = join(process.cwd(), 'public')) {
+    this.rootDir = normalize(rootDir)
+  }
+
+  /**
+   * 解析对象的绝对路径（防止越界访问）
+   */
+  private resolve(key: string): string {
+    const absolutePath = normalize(join(this.rootDir, key))
+    if (!absolutePath.startsWith(this.rootDir + sep)) {
+      throw new Error(`非法的存储路径: ${key}`)
+    }
+    return absolutePath
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const absolutePath = this.resolve(key)
+    await mkdir(dirname(absolutePath), { recursive: true })
+    await writeFile(absolutePath, data)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key))
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.resolve(key)).catch((err) => {
+      if (err?.code !== 'ENOENT') throw err
+    })
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await stat(this.resolve(key))
+      if (!stats.isFile()) return null
+      return { size: stats.size, lastModified: stats.mtime, contentType: getContentType(key) }
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  async getSignedUrl(key: string): Promise<string> {
+    // public 目录下的文件可直接访问
+    return `/${key}`
+  }
+}
+
+// ============ S3 兼容驱动 ============
+
+/**
+ * S3 兼容驱动配置
+ */
+export interface S3StorageOptions {
+  endpoint?: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  /** 使用 path-style 地址（MinIO 需要） */
+  forcePathStyle?: boolean
+  /** 公开访问前缀（桶为公开读时配置，直接拼接地址而不签名） */
+  publicUrl?: string
+}
+
+/**
+ * 判断是否为对象不存在错误
+ */
+function isNotFound(err: any): boolean {
+  return err?.name === 'NoSuchKey' || err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404
+}
+
+/**
+ * S3 兼容驱动
+ *
+ * 环境变量：
+ * - S3_ENDPOINT: 端点地址（MinIO 如 http://127.0.0.1:9000，AWS 可留空）
+ * - S3_REGION: 区域（默认 us-east-1）
+ * - S3_BUCKET: 桶名称
+ * - S3_ACCESS_KEY / S3_SECRET_KEY: 访问密钥
+ * - S3_FORCE_PATH_STYLE: 是否使用 path-style（默认 true）
+ * - S3_PUBLIC_URL: 公开访问前缀（可选）
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const
+  private readonly client: S3Client
+  private readonly bucket: string
+  private readonly publicUrl: string | null
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket
+    this.publicUrl = options.publicUrl ? options.publicUrl.replace(/\/+$/, '') : null
+    this.client = new S3Client({
+      endpoint: options.endpoint || undefined,
+      region: options.region,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+      forcePathStyle: options.forcePathStyle ?? true,
+    })
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType || getContentType(key),
+    }))
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }))
+      if (!res.Body) return null
+      return Buffer.from(await res.Body.transformToByteArray())
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }))
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const res = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }))
+      return {
+        size: res.ContentLength ?? 0,
+        lastModified: res.LastModified ?? null,
+        contentType: res.ContentType ?? null,
+      }
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number = DEFAULT_SIGNED_URL_EXPIRES): Promise<string> {
+    if (this.publicUrl) {
+      return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`
+    }
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn })
+  }
+}
+
+// ============ 驱动获取 ============
+
+// 驱动实例缓存
+const drivers = new Map<StorageDriverName, StorageDriver>()
+
+/**
+ * 检查驱动名称是否有效
+ */
+export function isStorageDriverName(value: unknown): value is StorageDriverName {
+  return typeof value === 'string' && (ValidStorageDrivers as string[]).includes(value)
+}
+
+/**
+ * 新上传文件使用的驱动名称
+ */
+export function getDefaultStorageDriverName(): StorageDriverName {
+  const name = process.env.STORAGE_DRIVER || 'local'
+  if (!isStorageDriverName(name)) {
+    throw new Error(`不支持的存储驱动: ${name}（可选: ${ValidStorageDrivers.join(', ')}）`)
+  }
+  return name
+}
+
+/**
+ * 获取存储驱动
+ * @param name - 驱动名称，缺省为 STORAGE_DRIVER 配置的驱动
+ */
+export function getStorageDriver(name?: string | null): StorageDriver {
+  const driverName = name ?? getDefaultStorageDriverName()
+  if (!isStorageDriverName(driverName)) {
+    throw new Error(`不支持的存储驱动: ${driverName}`)
+  }
+
+  const cached = drivers.get(driverName)
+  if (cached) return cached
+
+  let driver: StorageDriver
+  if (driverName === 's3') {
+    const bucket = process.env.S3_BUCKET
+    const accessKeyId = process.env.S3_ACCESS_KEY
+    const secretAccessKey = process.env.S3_SECRET_KEY
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 存储配置缺失，请检查 S3_BUCKET、S3_ACCESS_KEY 和 S3_SECRET_KEY')
+    }
+    driver = new S3StorageDriver({
+      endpoint: process.env.S3_ENDPOINT,
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+      publicUrl: process.env.S3_PUBLIC_URL,
+    })
+  } else {
+    driver = new LocalStorageDriver()
+  }
+
+  drivers.set(driverName, driver)
+  return driver
+}
+
+/**
+ * 替换驱动实例（用于测试或运行时切换）
+ */
+export function setStorageDriver(name: StorageDriverName, driver: StorageDriver | null): void {
+  if (driver) {
+    drivers.set(name, driver)
+  } else {
+    drivers.delete(name)
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * 文本差异对比模块
+ *
+ * 基于 Myers 差分算法：
+ * - 先按行对比，生成左右并排的差异行
+ * - 相邻的删除行与新增行两两配对为修改行，再按词对比标出行内变化
+ * 中日韩字符逐字切分，其他文字按单词切分，空白与标点各自成段。
+ */
+
+// 词级切分：单个中日韩字符 | 连续字母数字 | 连续空白 | 其他单个字符
+const WORD_PATTERN = /[㐀-䶿一-鿿豈-﫿぀-ヿ가-힯]|[\p{L}\p{N}_]+|\s+|./gsu
+
+// 最大编辑距离，超出后整段视为删除 + 新增（避免大文本耗尽内存）
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * 差异操作
+ */
+export type DiffOp<T> =
+  | { type: 'equal'; oldIndex: number; newIndex: number; value: T }
+  | { type: 'delete'; oldIndex: number; value: T }
+  | { type: 'insert'; newIndex: number; value: T }
+
+/**
+ * 行内片段
+ */
+export interface DiffPart {
+  type: 'equal' | 'delete' | 'insert'
+  text: string
+}
+
+/**
+ * 并排对比的一行
+ * 新增行只有右侧，删除行只有左侧
+ */
+export interface DiffRow {
+  type: 'equal' | 'delete' | 'insert' | 'modify'
+  oldLineNo: number | null
+  newLineNo: number | null
+  oldText: string | null
+  newText: string | null
+  /** 修改行的左侧词级片段 */
+  oldParts?: DiffPart[]
+  /** 修改行的右侧词级片段 */
+  newParts?: DiffPart[]
+}
+
+/**
+ * 差异统计
+ */
+export interface DiffStats {
+  added: number
+  removed: number
+  modified: number
+  unchanged: number
+}
+
+/**
+ * Myers 差分
+ * 先裁掉公共前后缀，再对剩余部分计算最短编辑路径
+ *
+ * @param a - 旧序列
+ * @param b - 新序列
+ * @returns 按顺序排列的差异操作
+ */
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const ops: DiffOp<T>[] = []
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', oldIndex: i, newIndex: i, value: a[i]! })
+  }
+  ops.push(...myersMiddle(a, b, prefix, a.length - suffix, prefix, b.length - suffix))
+  for (let i = suffix; i > 0; i--) {
+    const oldIndex = a.length - i
+    const newIndex = b.length - i
+    ops.push({ type: 'equal', oldIndex, newIndex, value: a[oldIndex]! })
+  }
+  return ops
+}
+
+/**
+ * 对 a[aStart, aEnd) 与 b[bStart, bEnd) 计算差异
+ */
+function myersMiddle<T>(a: T[], b: T[], aStart: number, aEnd: number, bStart: number, bEnd: number): DiffOp<T>[] {
+  const n = aEnd - aStart
+  const m = bEnd - bStart
+  const ops: DiffOp<T>[] = []
+
+  const replaceAll = () => {
+    for (let i = aStart; i < aEnd; i++) ops.push({ type: 'delete', oldIndex: i, value: a[i]! })
+    for (let j = bStart; j < bEnd; j++) ops.push({ type: 'insert', newIndex: j, value: b[j]! })
+    return ops
+  }
+
+  if (n === 0 || m === 0) return replaceAll()
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] 保存第 d 步开始前 k ∈ [-(d-1), d-1] 的 V 值，下标为 k + d - 1
+  const trace: Int32Array[] = []
+  let found = false
+
+  // 前向搜索，记录每一步的 V 数组用于回溯
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d + 1, offset + d))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break outer
+      }
+    }
+  }
+
+  if (!found) return replaceAll()
+
+  // 回溯生成编辑路径
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]!
+    const at = (k: number) => vd[k + d - 1]!
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+      ops.push({ type: 'equal', oldIndex: aStart + x, newIndex: bStart + y, value: a[aStart + x]! })
+    }
+    if (d === 0) break
+    if (x === prevX) {
+      y--
+      ops.push({ type: 'insert', newIndex: bStart + y, value: b[bStart + y]! })
+    } else {
+      x--
+      ops.push({ type: 'delete', oldIndex: aStart + x, value: a[aStart + x]! })
+    }
+  }
+
+  return ops.reverse()
+}
+
+/**
+ * 词级差异
+ * @returns 左侧（旧）与右侧（新）的片段列表，相邻同类片段已合并
+ */
+export function diffWords(oldText: string, newText: string): { oldParts: DiffPart[]; newParts: DiffPart[] } {
+  const oldParts: DiffPart[] = []
+  const newParts: DiffPart[] = []
+
+  const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  const ops = diffSequences(oldText.match(WORD_PATTERN) ?? [], newText.match(WORD_PATTERN) ?? [])
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      push(oldParts, 'equal', op.value)
+      push(newParts, 'equal', op.value)
+    } else if (op.type === 'delete') {
+      push(oldParts, 'delete', op.value)
+    } else {
+      push(newParts, 'insert', op.value)
+    }
+  }
+
+  return { oldParts, newParts }
+}
+
+/**
+ * 行级差异（并排显示）
+ * 连续的删除与新增按顺序两两配对为修改行，并附带词级差异
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const oldLines = oldText.split(/\r?\n/)
+  const newLines = newText.split(/\r?\n/)
+  const ops = diffSequences(oldLines, newLines)
+
+  const rows: DiffRow[] = []
+  let deleted: { index: number; text: string }[] = []
+  let inserted: { index: number; text: string }[] = []
+
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length)
+    for (let i = 0; i < paired; i++) {
+      const left = deleted[i]!
+      const right = inserted[i]!
+      rows.push({
+        type: 'modify',
+        oldLineNo: left.index + 1,
+        newLineNo: right.index + 1,
+        oldText: left.text,
+        newText: right.text,
+        ...diffWords(left.text, right.text),
+      })
+    }
+    for (const left of deleted.slice(paired)) {
+      rows.push({ type: 'delete', oldLineNo: left.index + 1, newLineNo: null, oldText: left.text, newText: null })
+    }
+    for (const right of inserted.slice(paired)) {
+      rows.push({ type: 'insert', oldLineNo: null, newLineNo: right.index + 1, oldText: null, newText: right.text })
+    }
+    deleted = []
+    inserted = []
+  }
+
+  for (const op of ops) {
+    if (op.type === 'delete') {
+      deleted.push({ index: op.oldIndex, text: op.value })
+    } else if (op.type === 'insert') {
+      inserted.push({ index: op.newIndex, text: op.value })
+    } else {
+      flush()
+      rows.push({
+        type: 'equal',
+        oldLineNo: op.oldIndex + 1,
+        newLineNo: op.newIndex + 1,
+        oldText: op.value,
+        newText: op.value,
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+/**
+ * 统计差异行数
+ */
+export function summarizeDiff(rows: DiffRow[]): DiffStats {
+  const stats: DiffStats = { added: 0, removed: 0, modified: 0, unchanged: 0 }
+  for (const row of rows) {
+    if (row.type === 'insert') stats.added++
+    else if (row.type === 'delete') stats.removed++
+    else if (row.type === 'modify') stats.modified++
+    else stats.unchanged++
+  }
+  return stats
+}
@@ -0,0 +1,91 @@
+import { readdirSync, statSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createApp, eventHandler, toWebHandler } from 'h3'
+import adminAuth from '~~/server/middleware/adminAuth'
+
+const ADMIN_API_DIR = fileURLToPath(new URL('../../../server/api/admin', import.meta.url))
+
+const PUBLIC_ROUTES = [
+  { method: 'POST', path: '/api/admin/auth/login' },
+  { method: 'POST', path: '/api/admin/auth/init' },
+  { method: 'GET', path: '/api/admin/auth/check' },
+]
+
+type AdminRoute = { file: string; method: string; path: string }
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const full = join(dir, name)
+    return statSync(full).isDirectory() ? listFiles(full) : [full]
+  })
+}
+
+/**
+ * 将路由文件转换为请求：[id].put.ts → PUT /api/admin/.../1
+ */
+function toRoute(file: string): AdminRoute {
+  const rel = relative(ADMIN_API_DIR, file).split(/[\\/]/).join('/')
+  const match = rel.match(/^(.*?)(?:\.(get|post|put|patch|delete))?\.ts$/)
+  const method = (match?.[2] ?? 'get').toUpperCase()
+  const segments = (match?.[1] ?? rel)
+    .split('/')
+    .map((segment) => segment.replace(/\[[^\]]+\]/g, '1'))
+  if (segments[segments.length - 1] === 'index') segments.pop()
+  return { file: rel, method, path: `/api/admin/${segments.join('/')}` }
+}
+
+function createHandler() {
+  const app = createApp()
+  app.use(adminAuth)
+  app.use(eventHandler(() => ({ code: 0, message: 'passed', data: null })))
+  return toWebHandler(app)
+}
+
+const handler = createHandler()
+
+async function request(method: string, path: string) {
+  return handler(new Request(`http://localhost${path}`, { method }))
+}
+
+const routes = listFiles(ADMIN_API_DIR).filter((file) => file.endsWith('.ts')).map(toRoute)
+const publicPaths = new Set(PUBLIC_ROUTES.map((route) => route.path))
+const protectedRoutes = routes.filter((route) => !publicPaths.has(route.path))
+
+describe('adminAuth middleware', () => {
+  it('covers mm and solana admin routes', () => {
+    expect(protectedRoutes.some((route) => route.path.startsWith('/api/admin/mm/'))).toBe(true)
+    expect(protectedRoutes.some((route) => route.path.startsWith('/api/admin/solana/'))).toBe(true)
+    for (const route of PUBLIC_ROUTES) {
+      expect(routes).toContainEqual(expect.objectContaining(route))
+    }
+  })
+
+  it.each(protectedRoutes.map((route) => [route.file, route] as const))(
+    'rejects %s without a session cookie',
+    async (_file, route) => {
+      const res = await request(route.method, route.path)
+      expect(res.status).toBe(401)
+      expect(await res.json()).toMatchObject({ code: 401, message: 'Unauthorized' })
+    }
+  )
+
+  it.each(PUBLIC_ROUTES.map((route) => [route.path, route] as const))(
+    'allows %s without a session cookie',
+    async (_path, route) => {
+      const res = await request(route.method, route.path)
+      expect(res.status).toBe(200)
+      expect(await res.json()).toMatchObject({ message: 'passed' })
+    }
+  )
+
+  it('does not treat nested paths under allowlisted routes as public', async () => {
+    const res = await request('GET', '/api/admin/auth/check/extra')
+    expect(res.status).toBe(401)
+  })
+
+  it('ignores non-admin routes', async () => {
+    const res = await request('GET', '/api/project/1/home')
+    expect(res.status).toBe(200)
+  })
+})
@@ -0,0 +1,139 @@
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js'
+import { hashTransactionMessage, MintJobItemStatus, submitMintJobBatch } from '~~/server/utils/cnftBatch'
+import { createBatchMintSession, getBatchMintSession } from '~~/server/utils/mintSession'
+import { MemorySolanaSessionStore, setSolanaSessionStore } from '~~/server/utils/solanaSessionStore'
+
+type CnftRow = { id: bigint; status: number; assetId: string; mintTxSignature: string | null }
+type ItemRow = { id: bigint; jobId: bigint; status: number; txSignature: string | null; errorMessage: string | null }
+
+const db = vi.hoisted(() => ({
+  cnfts: [] as CnftRow[],
+  items: [] as ItemRow[],
+}))
+
+const connection = vi.hoisted(() => ({
+  sendRawTransaction: vi.fn(),
+  confirmTransaction: vi.fn(),
+  getSignatureStatus: vi.fn(),
+}))
+
+vi.mock('~~/server/utils/prisma', () => {
+  const inIds = (ids: bigint[] | undefined, id: bigint) => !ids || ids.includes(id)
+
+  const prisma: any = {
+    compressedNft: {
+      findUnique: async () => null,
+      update: async ({ where, data }: any) => {
+        const row = db.cnfts.find((r) => r.id === where.id)!
+        Object.assign(row, data)
+        return row
+      },
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.cnfts.filter((r) => inIds(where.id?.in, r.id) && (where.status === undefined || r.status === where.status))
+        for (const row of rows) Object.assign(row, data)
+        return { count: rows.length }
+      },
+    },
+    cnftMintJobItem: {
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.items.filter((r) => inIds(where.id?.in, r.id))
+        for (const row of rows) Object.assign(row, data)
+        return { count: rows.length }
+      },
+      count: async ({ where }: any) => db.items.filter((r) => r.jobId === where.jobId && where.status.in.includes(r.status)).length,
+    },
+    cnftMintJob: {
+      update: async () => ({}),
+    },
+    $transaction: async (ops: Promise<unknown>[]) => Promise.all(ops),
+  }
+  return { prisma }
+})
+
+vi.mock('~~/server/utils/solana', () => ({
+  getConnection: () => connection,
+}))
+
+vi.mock('~~/server/utils/solanaRecovery', () => ({
+  syncTreeMintedCount: async () => 0,
+}))
+
+const JOB_ID = 1n
+const payer = Keypair.generate()
+const merkleTree = Keypair.generate().publicKey
+
+/** 构建一笔已由支付者签名的交易 */
+function signedTransfer(to: PublicKey, lamports: number): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: to, lamports })
+  )
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58()
+  transaction.lastValidBlockHeight = 100
+  transaction.feePayer = payer.publicKey
+  transaction.sign(payer)
+  return transaction
+}
+
+async function prepareSession(messageHash: string): Promise<string> {
+  return createBatchMintSession({
+    jobId: JOB_ID,
+    merkleTreeId: 1n,
+    merkleTreeAddress: merkleTree.toBase58(),
+    entries: [
+      { itemId: 11n, cnftId: 21n, leafIndex: 0 },
+      { itemId: 12n, cnftId: 22n, leafIndex: 1 },
+    ],
+    payerAddress: payer.publicKey.toBase58(),
+    messageHash,
+    network: 'devnet',
+  })
+}
+
+describe('submitMintJobBatch', () => {
+  beforeEach(() => {
+    setSolanaSessionStore(new MemorySolanaSessionStore())
+    db.cnfts = [21n, 22n].map((id) => ({ id, status: 0, assetId: `pending_${id}`, mintTxSignature: null }))
+    db.items = [11n, 12n].map((id) => ({ id, jobId: JOB_ID, status: MintJobItemStatus.MINTING, txSignature: null, errorMessage: null }))
+    connection.sendRawTransaction.mockReset().mockResolvedValue('signature-1')
+    connection.confirmTransaction.mockReset().mockResolvedValue({ value: { err: null } })
+    connection.getSignatureStatus.mockReset()
+  })
+
+  afterAll(() => {
+    setSolanaSessionStore(null)
+  })
+
+  it('keeps the message hash in the batch session', async () => {
+    const sessionId = await prepareSession('abc123')
+    expect((await getBatchMintSession(sessionId))?.messageHash).toBe('abc123')
+  })
+
+  it('marks the entries minted when the prepared transaction confirms', async () => {
+    const prepared = signedTransfer(merkleTree, 1)
+    const sessionId = await prepareSession(hashTransactionMessage(prepared))
+
+    const [result] = await submitMintJobBatch(JOB_ID, [
+      { sessionId, signedTransactionBase64: prepared.serialize().toString('base64') },
+    ])
+
+    expect(result).toMatchObject({ status: 'success', txSignature: 'signature-1', count: 2 })
+    expect(db.cnfts.every((r) => r.status === 1)).toBe(true)
+    expect(db.items.every((r) => r.status === MintJobItemStatus.SUCCESS)).toBe(true)
+  })
+
+  it('rejects a different signed transaction without sending it', async () => {
+    const prepared = signedTransfer(merkleTree, 1)
+    const sessionId = await prepareSession(hashTransactionMessage(prepared))
+    const other = signedTransfer(Keypair.generate().publicKey, 1)
+
+    const [result] = await submitMintJobBatch(JOB_ID, [
+      { sessionId, signedTransactionBase64: other.serialize().toString('base64') },
+    ])
+
+    expect(result).toMatchObject({ status: 'failed', txSignature: null, count: 2 })
+    expect(result!.message).toContain('交易内容与准备的交易不一致')
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled()
+    expect(db.cnfts.every((r) => r.status === -1)).toBe(true)
+    expect(db.items.every((r) => r.status === MintJobItemStatus.FAILED)).toBe(true)
+  })
+})
@@ -0,0 +1,198 @@
+import { MockDasClient, setDasClient } from '~~/server/utils/das'
+import { syncCnftOwnership, syncOwnerAssets } from '~~/server/utils/cnftOwnership'
+
+type CnftRow = {
+  id: bigint
+  assetId: string
+  ownerAddress: string
+  delegateAddress: string | null
+  status: number
+  projectId: bigint
+  network: string
+  ownerSyncedAt: Date | null
+}
+
+type TransferRow = {
+  cnftId: bigint
+  event: string
+  fromAddress: string | null
+  toAddress: string | null
+}
+
+const db = vi.hoisted(() => ({
+  cnfts: [] as CnftRow[],
+  transfers: [] as TransferRow[],
+}))
+
+vi.mock('~~/server/utils/prisma', () => {
+  // 只实现持有者同步用到的查询条件
+  const matches = (row: CnftRow, where: any = {}) => {
+    if (where.id !== undefined && row.id !== where.id) return false
+    if (where.status !== undefined && row.status !== where.status) return false
+    if (where.projectId !== undefined && row.projectId !== where.projectId) return false
+    if (where.merkleTree?.network !== undefined && row.network !== where.merkleTree.network) return false
+    if (where.assetId?.in && !where.assetId.in.includes(row.assetId)) return false
+    if (typeof where.ownerAddress === 'string' && row.ownerAddress !== where.ownerAddress) return false
+    if (where.ownerAddress?.not !== undefined && row.ownerAddress === where.ownerAddress.not) return false
+    return true
+  }
+  const toResult = (row: CnftRow) => ({ ...row, merkleTree: { network: row.network } })
+
+  const prisma: any = {
+    compressedNft: {
+      findMany: async ({ where, take }: any) => db.cnfts.filter((row) => matches(row, where)).slice(0, take).map(toResult),
+      updateMany: async ({ where, data }: any) => {
+        const rows = db.cnfts.filter((row) => matches(row, where))
+        for (const row of rows) Object.assign(row, data)
+        return { count: rows.length }
+      },
+      update: async ({ where, data }: any) => {
+        const row = db.cnfts.find((r) => r.id === where.id)
+        if (!row) throw new Error('Record not found')
+        Object.assign(row, data)
+        return toResult(row)
+      },
+    },
+    cnftTransfer: {
+      create: async ({ data }: any) => {
+        db.transfers.push(data)
+        return data
+      },
+    },
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(prisma),
+  }
+  return { prisma }
+})
+
+const ALICE = 'AliceWa11et1111111111111111111111111111111'
+const BOB = 'BobWa11et11111111111111111111111111111111'
+const CAROL = 'Caro1Wa11et111111111111111111111111111111'
+
+function addCnft(id: number, assetId: string, ownerAddress: string, extra: Partial<CnftRow> = {}) {
+  db.cnfts.push({
+    id: BigInt(id),
+    assetId,
+    ownerAddress,
+    delegateAddress: null,
+    status: 1,
+    projectId: 1n,
+    network: 'devnet',
+    ownerSyncedAt: null,
+    ...extra,
+  })
+}
+
+function findCnft(assetId: string) {
+  return db.cnfts.find((row) => row.assetId === assetId)!
+}
+
+describe('cNFT ownership sync with the mock indexer', () => {
+  const indexer = new MockDasClient()
+
+  beforeEach(() => {
+    db.cnfts = []
+    db.transfers = []
+    indexer.clear()
+    setDasClient('devnet', indexer)
+  })
+
+  afterAll(() => {
+    setDasClient('devnet', null)
+  })
+
+  it('moves ownership to the new holder after a transfer', async () => {
+    addCnft(1, 'asset-1', ALICE)
+    indexer.setAsset({ assetId: 'asset-1', owner: ALICE })
+    indexer.transfer('asset-1', BOB)
+
+    const report = await syncCnftOwnership()
+
+    expect(report.changes).toEqual([
+      { id: '1', assetId: 'asset-1', action: 'transferred', from: ALICE, to: BOB },
+    ])
+    expect(findCnft('asset-1')).toMatchObject({ ownerAddress: BOB, status: 1 })
+    expect(findCnft('asset-1').ownerSyncedAt).toBeInstanceOf(Date)
+    expect(db.transfers).toEqual([
+      { cnftId: 1n, event: 'transfer', fromAddress: ALICE, toAddress: BOB },
+    ])
+  })
+
+  it('marks burned assets and records the burn', async () => {
+    addCnft(2, 'asset-2', ALICE)
+    indexer.setAsset({ assetId: 'asset-2', owner: ALICE })
+    indexer.burn('asset-2')
+
+    const report = await syncCnftOwnership()
+
+    expect(report.changes).toMatchObject([{ assetId: 'asset-2', action: 'burned', to: null }])
+    expect(findCnft('asset-2').status).toBe(2)
+    expect(db.transfers).toEqual([
+      { cnftId: 2n, event: 'burn', fromAddress: ALICE, toAddress: null },
+    ])
+  })
+
+  it('keeps records that are unchanged or missing from the index', async () => {
+    addCnft(3, 'asset-3', ALICE)
+    addCnft(4, 'asset-4', ALICE)
+    indexer.setAsset({ assetId: 'asset-3', owner: ALICE, delegate: CAROL })
+
+    const report = await syncCnftOwnership()
+
+    expect(report.checked).toBe(2)
+    expect(report.unchanged).toBe(1)
+    expect(report.changes).toMatchObject([{ assetId: 'asset-4', action: 'missing' }])
+    expect(findCnft('asset-3')).toMatchObject({ ownerAddress: ALICE, delegateAddress: CAROL })
+    expect(findCnft('asset-4')).toMatchObject({ ownerAddress: ALICE, status: 1, ownerSyncedAt: null })
+    expect(db.transfers).toEqual([])
+  })
+
+  it('does not write anything in dry run', async () => {
+    addCnft(5, 'asset-5', ALICE)
+    addCnft(6, 'asset-6', ALICE)
+    indexer.setAsset({ assetId: 'asset-5', owner: BOB })
+    indexer.setAsset({ assetId: 'asset-6', owner: ALICE, burnt: true })
+
+    const report = await syncCnftOwnership({ dryRun: true })
+
+    expect(report.dryRun).toBe(true)
+    expect(report.changes.map((c) => c.action)).toEqual(['transferred', 'burned'])
+    expect(findCnft('asset-5').ownerAddress).toBe(ALICE)
+    expect(findCnft('asset-6').status).toBe(1)
+    expect(db.transfers).toEqual([])
+  })
+
+  it('syncs transfers in, transfers out and burns for a wallet', async () => {
+    addCnft(7, 'asset-in', ALICE)
+    addCnft(8, 'asset-out', BOB)
+    addCnft(9, 'asset-burnt', BOB)
+    addCnft(10, 'asset-kept', BOB)
+    indexer.setAsset({ assetId: 'asset-in', owner: BOB })
+    indexer.setAsset({ assetId: 'asset-out', owner: CAROL })
+    indexer.setAsset({ assetId: 'asset-burnt', owner: BOB, burnt: true })
+    indexer.setAsset({ assetId: 'asset-kept', owner: BOB })
+
+    const report = await syncOwnerAssets(BOB, 'devnet')
+
+    expect(report.checked).toBe(4)
+    expect(report.unchanged).toBe(1)
+    expect(report.changes).toEqual(expect.arrayContaining([
+      { id: '7', assetId: 'asset-in', action: 'transferred', from: ALICE, to: BOB },
+      { id: '8', assetId: 'asset-out', action: 'transferred', from: BOB, to: CAROL },
+      { id: '9', assetId: 'asset-burnt', action: 'burned', from: BOB, to: null },
+    ]))
+    expect(findCnft('asset-in').ownerAddress).toBe(BOB)
+    expect(findCnft('asset-out').ownerAddress).toBe(CAROL)
+    expect(findCnft('asset-burnt').status).toBe(2)
+    expect(findCnft('asset-kept').ownerAddress).toBe(BOB)
+  })
+
+  it('ignores assets on other networks', async () => {
+    addCnft(11, 'asset-main', ALICE, { network: 'mainnet' })
+    indexer.setAsset({ assetId: 'asset-main', owner: BOB })
+
+    const report = await syncOwnerAssets(BOB, 'devnet')
+
+    expect(report.checked).toBe(0)
+    expect(findCnft('asset-main').ownerAddress).toBe(ALICE)
+  })
+})
@@ -0,0 +1,264 @@
+import { Keypair, PublicKey } from '@solana/web3.js'
+import {
+  CompressionAccountType,
+  canopyBeetFactory,
+  concurrentMerkleTreeBeetFactory,
+  concurrentMerkleTreeHeaderBeet,
+  emptyNode,
+  hash,
+} from '@solana/spl-account-compression'
+import { createDefaultCnftMetadata, getAssetId } from '~~/server/utils/bubblegum'
+import {
+  computeLeafHash,
+  computeRoot,
+  fillProofFromCanopy,
+  readTreeSnapshot,
+  verifyLeafProof,
+  type LeafInput,
+} from '~~/server/utils/cnftProof'
+
+// ============ 固定数据 ============
+
+const MAX_DEPTH = 5
+const MAX_BUFFER_SIZE = 8
+const CANOPY_DEPTH = 2
+
+/** 固定种子生成的地址，保证叶子哈希可复现 */
+function fixedKey(seed: number): PublicKey {
+  return Keypair.fromSeed(new Uint8Array(32).fill(seed)).publicKey
+}
+
+const TREE = fixedKey(1)
+const TREE_AUTHORITY = fixedKey(2)
+const ALICE = fixedKey(3)
+const BOB = fixedKey(4)
+const CAROL = fixedKey(5)
+
+function leafInput(index: number, owner: PublicKey, delegate: PublicKey = owner): LeafInput {
+  return {
+    assetId: getAssetId(TREE, index)[0],
+    owner,
+    delegate,
+    nonce: index,
+    metadata: createDefaultCnftMetadata(`Reader Pass #${index}`, 'SLOTH', `https://example.com/${index}.json`, TREE_AUTHORITY),
+  }
+}
+
+/**
+ * 内存中的完整 Merkle Tree，用于生成固定的树账户数据
+ */
+class FixtureTree {
+  readonly leaves: Buffer[] = Array.from({ length: 2 ** MAX_DEPTH }, () => emptyNode(0))
+  readonly changeLogs: { root: Buffer; index: number }[] = []
+  count = 0
+
+  constructor() {
+    this.changeLogs.push({ root: this.root(), index: 0 })
+  }
+
+  /** 各层节点（0 为叶子层） */
+  levels(): Buffer[][] {
+    const levels = [this.leaves]
+    for (let level = 0; level < MAX_DEPTH; level++) {
+      const below = levels[level]!
+      levels.push(Array.from({ length: below.length / 2 }, (_, i) => hash(below[2 * i]!, below[2 * i + 1]!)))
+    }
+    return levels
+  }
+
+  root(): Buffer {
+    return this.levels()[MAX_DEPTH]![0]!
+  }
+
+  append(leaf: Buffer): void {
+    this.set(this.count++, leaf)
+  }
+
+  set(index: number, leaf: Buffer): void {
+    this.leaves[index] = leaf
+    this.changeLogs.push({ root: this.root(), index })
+  }
+
+  proof(index: number): Buffer[] {
+    const levels = this.levels()
+    return Array.from({ length: MAX_DEPTH }, (_, level) => levels[level]![(index >> level) ^ 1]!)
+  }
+
+  /** 树冠：堆式编号 2..2^(canopyDepth+1)-1 的节点，空子树写 0 */
+  canopyBytes(): Buffer {
+    const levels = this.levels()
+    const nodes: Buffer[] = []
+    for (let node = 2; node < 2 ** (CANOPY_DEPTH + 1); node++) {
+      const depth = Math.floor(Math.log2(node))
+      const level = MAX_DEPTH - depth
+      const value = levels[level]![node - 2 ** depth]!
+      nodes.push(value.equals(emptyNode(level)) ? Buffer.alloc(32) : value)
+    }
+    return Buffer.concat(nodes)
+  }
+
+  /** 按链上布局序列化树账户 */
+  toAccountData(): Buffer {
+    const zeroKey = new PublicKey(Buffer.alloc(32))
+    const logs = this.changeLogs.slice(-MAX_BUFFER_SIZE)
+    const sequenceNumber = this.changeLogs.length - 1
+    const activeIndex = sequenceNumber % MAX_BUFFER_SIZE
+    const changeLogs = Array.from({ length: MAX_BUFFER_SIZE }, () => ({
+      root: zeroKey,
+      pathNodes: Array.from({ length: MAX_DEPTH }, () => zeroKey),
+      index: 0,
+      _padding: 0,
+    }))
+    logs.forEach((log, i) => {
+      const slot = (activeIndex - (logs.length - 1 - i) + MAX_BUFFER_SIZE) % MAX_BUFFER_SIZE
+      changeLogs[slot] = { ...changeLogs[slot]!, root: new PublicKey(log.root), index: log.index }
+    })
+
+    const [header] = concurrentMerkleTreeHeaderBeet.serialize({
+      accountType: CompressionAccountType.ConcurrentMerkleTree,
+      header: {
+        __kind: 'V1',
+        fields: [{ maxBufferSize: MAX_BUFFER_SIZE, maxDepth: MAX_DEPTH, authority: TREE_AUTHORITY, creationSlot: 0, padding: [0, 0, 0, 0, 0, 0] }],
+      },
+    })
+    const [tree] = concurrentMerkleTreeBeetFactory(MAX_DEPTH, MAX_BUFFER_SIZE).serialize({
+      sequenceNumber,
+      activeIndex,
+      bufferSize: logs.length,
+      changeLogs,
+      rightMostPath: {
+        proof: Array.from({ length: MAX_DEPTH }, () => zeroKey),
+        leaf: zeroKey,
+        index: this.count,
+        _padding: 0,
+      },
+    })
+    const [canopy] = canopyBeetFactory(CANOPY_DEPTH).serialize({ canopyBytes: [...this.canopyBytes()] })
+    return Buffer.concat([header, tree, canopy])
+  }
+}
+
+/**
+ * 铸造三个叶子后，将 0 号叶子从 Alice 转移给 Carol
+ */
+function buildFixture() {
+  const tree = new FixtureTree()
+  tree.append(computeLeafHash(leafInput(0, ALICE)))
+  tree.append(computeLeafHash(leafInput(1, BOB)))
+  tree.append(computeLeafHash(leafInput(2, BOB)))
+  const beforeTransfer = { proof: tree.proof(0), root: tree.root() }
+  tree.set(0, computeLeafHash(leafInput(0, CAROL)))
+  return { tree, beforeTransfer, accountData: tree.toAccountData() }
+}
+
+// ============ 测试 ============
+
+describe('computeLeafHash', () => {
+  it('matches the pinned leaf hash for fixed mint data', () => {
+    expect(computeLeafHash(leafInput(0, ALICE)).toString('hex'))
+      .toBe('2accac17f26ee71f1400b9513a85d02615a8dc31f6a95f0cc109875840656d64')
+  })
+
+  it('changes with owner, delegate and nonce', () => {
+    const base = computeLeafHash(leafInput(0, ALICE))
+    expect(computeLeafHash(leafInput(0, ALICE)).equals(base)).toBe(true)
+    expect(computeLeafHash(leafInput(0, BOB)).equals(base)).toBe(false)
+    expect(computeLeafHash(leafInput(0, ALICE, CAROL)).equals(base)).toBe(false)
+    expect(computeLeafHash({ ...leafInput(0, ALICE), nonce: 1 }).equals(base)).toBe(false)
+  })
+})
+
+describe('readTreeSnapshot', () => {
+  it('reads depth, change logs (newest first) and canopy from account data', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+
+    expect(snapshot.maxDepth).toBe(MAX_DEPTH)
+    expect(snapshot.canopyBytes.length).toBe(6 * 32)
+    expect(snapshot.changeLogs.map((log) => log.index)).toEqual([0, 2, 1, 0, 0])
+    expect(snapshot.changeLogs[0]!.root.equals(tree.root())).toBe(true)
+  })
+})
+
+describe('fillProofFromCanopy', () => {
+  it('restores the nodes cached in the canopy', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+
+    for (const index of [0, 1, 2, 17]) {
+      const full = tree.proof(index)
+      const trimmed = full.slice(0, MAX_DEPTH - CANOPY_DEPTH)
+      const filled = fillProofFromCanopy(trimmed, index, MAX_DEPTH, snapshot.canopyBytes)
+      expect(filled.map((node) => node.toString('hex'))).toEqual(full.map((node) => node.toString('hex')))
+    }
+  })
+
+  it('keeps a full proof as it is', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+    const full = tree.proof(1)
+
+    expect(fillProofFromCanopy(full, 1, MAX_DEPTH, snapshot.canopyBytes)).toEqual(full)
+  })
+
+  it('returns the proof unchanged without a canopy', () => {
+    const proof = [Buffer.alloc(32, 1)]
+    expect(fillProofFromCanopy(proof, 0, MAX_DEPTH, Buffer.alloc(0))).toEqual(proof)
+  })
+})
+
+describe('verifyLeafProof', () => {
+  it('accepts the current owner with a canopy-trimmed proof', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+    const proof = tree.proof(1).slice(0, MAX_DEPTH - CANOPY_DEPTH)
+
+    const result = verifyLeafProof(computeLeafHash(leafInput(1, BOB)), 1, proof, snapshot)
+    expect(result).toEqual({ valid: true, reason: null, root: new PublicKey(tree.root()).toBase58() })
+  })
+
+  it('accepts a proof against a recent root when the leaf has not changed since', () => {
+    const { beforeTransfer, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+
+    // 1 号叶子的旧证明：旧根之后只修改过 0 号叶子
+    const tree = new FixtureTree()
+    tree.append(computeLeafHash(leafInput(0, ALICE)))
+    tree.append(computeLeafHash(leafInput(1, BOB)))
+    tree.append(computeLeafHash(leafInput(2, BOB)))
+    const result = verifyLeafProof(computeLeafHash(leafInput(1, BOB)), 1, tree.proof(1), snapshot)
+
+    expect(tree.root().equals(beforeTransfer.root)).toBe(true)
+    expect(result.valid).toBe(true)
+  })
+
+  it('rejects the previous owner with STALE_PROOF after a transfer', () => {
+    const { beforeTransfer, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+
+    const leaf = computeLeafHash(leafInput(0, ALICE))
+    expect(computeRoot(leaf, 0, beforeTransfer.proof).equals(beforeTransfer.root)).toBe(true)
+
+    const result = verifyLeafProof(leaf, 0, beforeTransfer.proof, snapshot)
+    expect(result).toEqual({ valid: false, reason: 'STALE_PROOF', root: new PublicKey(beforeTransfer.root).toBase58() })
+  })
+
+  it('rejects a leaf that is not in the tree with ROOT_MISMATCH', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+
+    // 3 号叶子从未写入，任何持有者的叶子都算不出近期根
+    const result = verifyLeafProof(computeLeafHash(leafInput(3, ALICE)), 3, tree.proof(3), snapshot)
+    expect(result.valid).toBe(false)
+    expect(result.reason).toBe('ROOT_MISMATCH')
+  })
+
+  it('rejects proofs of the wrong length', () => {
+    const { tree, accountData } = buildFixture()
+    const snapshot = readTreeSnapshot(accountData)
+    const leaf = computeLeafHash(leafInput(1, BOB))
+
+    expect(verifyLeafProof(leaf, 1, [...tree.proof(1), Buffer.alloc(32)], snapshot).reason).toBe('PROOF_TOO_LONG')
+    expect(verifyLeafProof(leaf, 1, tree.proof(1).slice(0, 1), snapshot).reason).toBe('PROOF_TOO_SHORT')
+  })
+})
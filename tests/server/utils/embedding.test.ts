@@ -0,0 +1,41 @@
+import { EMBEDDING_DIMENSIONS, LocalHashEmbeddingProvider } from '~~/server/utils/embedding'
+
+function cosine(a: number[], b: number[]) {
+  return a.reduce((sum, v, i) => sum + v * (b[i] ?? 0), 0)
+}
+
+describe('LocalHashEmbeddingProvider', () => {
+  const provider = new LocalHashEmbeddingProvider()
+
+  it('returns the same vector for the same input', async () => {
+    const [first] = await provider.embed(['Install the CLI and run sloth init'])
+    const [second] = await new LocalHashEmbeddingProvider().embed(['Install the CLI and run sloth init'])
+    expect(first).toEqual(second)
+  })
+
+  it('returns one normalized vector per input with the configured dimensions', async () => {
+    const vectors = await provider.embed(['安装与配置', 'Getting started'])
+    expect(vectors).toHaveLength(2)
+    for (const vector of vectors) {
+      expect(vector).toHaveLength(EMBEDDING_DIMENSIONS)
+      expect(cosine(vector, vector)).toBeCloseTo(1, 6)
+    }
+
+    const [small] = await new LocalHashEmbeddingProvider(16).embed(['Getting started'])
+    expect(small).toHaveLength(16)
+  })
+
+  it('scores overlapping texts higher than unrelated texts', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      '如何配置钱包登录',
+      '钱包登录的配置步骤',
+      'Markdown image upload limits',
+    ])
+    expect(cosine(query!, related!)).toBeGreaterThan(cosine(query!, unrelated!))
+  })
+
+  it('returns a zero vector for empty text', async () => {
+    const [vector] = await provider.embed([''])
+    expect(vector!.every((v) => v === 0)).toBe(true)
+  })
+})
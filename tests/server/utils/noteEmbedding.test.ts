@@ -0,0 +1,57 @@
+import { chunkMarkdown } from '~~/server/utils/noteEmbedding'
+
+describe('chunkMarkdown', () => {
+  it('splits by headings and keeps the heading path', () => {
+    const chunks = chunkMarkdown([
+      'Intro paragraph.',
+      '# Install',
+      'Run the installer.',
+      '## Requirements',
+      'Node 20 or later.',
+      '# Usage',
+      'Start the server.',
+    ].join('\n'))
+
+    expect(chunks.map((chunk) => chunk.heading)).toEqual([
+      null,
+      'Install',
+      'Install / Requirements',
+      'Usage',
+    ])
+    expect(chunks[2]!.content).toContain('Node 20 or later.')
+  })
+
+  it('does not treat # inside fenced code as a heading', () => {
+    const chunks = chunkMarkdown([
+      '# Shell',
+      '```bash',
+      '# not a heading',
+      'echo ok',
+      '```',
+    ].join('\n'))
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]!.heading).toBe('Shell')
+  })
+
+  it('skips sections without text', () => {
+    const chunks = chunkMarkdown('# Empty\n\n# Filled\nSome text.')
+    expect(chunks.map((chunk) => chunk.heading)).toEqual(['Filled'])
+  })
+
+  it('splits long sections into chunks within the length limit', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ${'x'.repeat(30)}`)
+    const chunks = chunkMarkdown(`# Long\n${paragraphs.join('\n\n')}`, 80)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.heading).toBe('Long')
+      expect(chunk.content.length).toBeLessThanOrEqual(80)
+    }
+  })
+
+  it('produces the same chunks for the same input', () => {
+    const markdown = '# A\ntext a\n## B\ntext b'
+    expect(chunkMarkdown(markdown)).toEqual(chunkMarkdown(markdown))
+  })
+})
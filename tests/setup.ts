@@ -0,0 +1,4 @@
+import { defineEventHandler } from 'h3'
+
+// 服务端代码依赖 Nitro 自动导入的全局函数，测试环境中手动挂载
+Object.assign(globalThis, { defineEventHandler })
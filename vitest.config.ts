@@ -1,10 +1,17 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vitest/config'
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      '~~': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
   test: {
     globals: true,
     environment: 'node',
     include: ['**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts}'],
     exclude: ['node_modules', '.nuxt', 'dist'],
+    setupFiles: ['./tests/setup.ts'],
   },
 })